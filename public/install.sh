@@ -275,8 +275,8 @@ AGENT_TOKEN=$TOKEN
 # API endpoint
 API_URL=$API_URL
 
-# Supabase connection (will be fetched from API using token)
-# SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are fetched dynamically
+# Archive writes go through the agent API with AGENT_TOKEN; this server
+# never holds database or storage credentials
 
 # 3CX Database (local connection)
 THREECX_DB_HOST=127.0.0.1
@@ -296,7 +296,7 @@ THREECX_MEETINGS_PATH=$MEETINGS_PATH
 SYNC_INTERVAL_SECONDS=60
 LOG_LEVEL=info
 
-# Auto-update (check daily)
+# Install the release the dashboard rolls out to this agent
 AUTO_UPDATE=true
 EOF
 
@@ -336,23 +336,19 @@ register_agent() {
         }" 2>&1)
 
     if echo "$RESPONSE" | grep -q '"success":true'; then
-        # Extract Supabase credentials from response and add to env
-        SUPABASE_URL=$(echo "$RESPONSE" | grep -o '"supabase_url":"[^"]*"' | cut -d'"' -f4)
-        SUPABASE_KEY=$(echo "$RESPONSE" | grep -o '"supabase_service_role_key":"[^"]*"' | cut -d'"' -f4)
+        # Extract the tenant from the response and add to env
         TENANT_ID=$(echo "$RESPONSE" | grep -o '"tenant_id":"[^"]*"' | cut -d'"' -f4)
 
-        if [[ -n "$SUPABASE_URL" && -n "$SUPABASE_KEY" ]]; then
+        if [[ -n "$TENANT_ID" ]]; then
             echo "" >> "$INSTALL_DIR/sync-service/.env"
-            echo "# Supabase credentials (from registration)" >> "$INSTALL_DIR/sync-service/.env"
-            echo "SUPABASE_URL=$SUPABASE_URL" >> "$INSTALL_DIR/sync-service/.env"
-            echo "SUPABASE_SERVICE_ROLE_KEY=$SUPABASE_KEY" >> "$INSTALL_DIR/sync-service/.env"
+            echo "# Tenant (from registration)" >> "$INSTALL_DIR/sync-service/.env"
             echo "TENANT_ID=$TENANT_ID" >> "$INSTALL_DIR/sync-service/.env"
         fi
 
         log_success "Agent registered successfully"
     else
         log_error "Failed to register agent: $RESPONSE"
-        log_info "You may need to configure Supabase credentials manually"
+        log_info "You may need to set TENANT_ID in $INSTALL_DIR/sync-service/.env manually"
     fi
 }
 
@@ -369,7 +365,7 @@ After=network.target postgresql.service
 Type=simple
 User=root
 WorkingDirectory=$INSTALL_DIR/sync-service
-ExecStart=/usr/bin/node dist/index.js
+ExecStart=/usr/bin/node dist/local-mode.js
 Restart=always
 RestartSec=10
 Environment=NODE_ENV=production
@@ -389,64 +385,16 @@ EOF
     log_success "Systemd service created"
 }
 
-# Create auto-update timer
-create_update_timer() {
-    log_info "Setting up auto-updates..."
-
-    # Create update script
-    cat > "$INSTALL_DIR/update.sh" << 'EOF'
-#!/bin/bash
-cd /opt/3cx-backupwiz
-
-# Check for updates
-git fetch origin
-LOCAL=$(git rev-parse HEAD)
-REMOTE=$(git rev-parse origin/main)
-
-if [ "$LOCAL" != "$REMOTE" ]; then
-    echo "$(date): Updating 3CX BackupWiz..."
-    git reset --hard origin/main
-    cd sync-service
-    npm install --production=false
-    npm run build
-    systemctl restart 3cx-backupwiz
-    echo "$(date): Update complete"
-else
-    echo "$(date): Already up to date"
-fi
-EOF
-    chmod +x "$INSTALL_DIR/update.sh"
-
-    # Create systemd timer for daily updates
-    cat > /etc/systemd/system/${SERVICE_NAME}-update.service << EOF
-[Unit]
-Description=3CX BackupWiz Auto-Update
-
-[Service]
-Type=oneshot
-ExecStart=$INSTALL_DIR/update.sh
-StandardOutput=journal
-StandardError=journal
-EOF
-
-    cat > /etc/systemd/system/${SERVICE_NAME}-update.timer << EOF
-[Unit]
-Description=Daily update check for 3CX BackupWiz
-
-[Timer]
-OnCalendar=*-*-* 03:00:00
-RandomizedDelaySec=3600
-Persistent=true
-
-[Install]
-WantedBy=timers.target
-EOF
-
-    systemctl daemon-reload
-    systemctl enable ${SERVICE_NAME}-update.timer
-    systemctl start ${SERVICE_NAME}-update.timer
-
-    log_success "Auto-updates configured (daily at 3 AM)"
+# Remove the git-based auto-update timer older installers set up. Updates now
+# come through the agent's heartbeat, which follows staged release rollouts.
+remove_legacy_update_timer() {
+    if [[ -f /etc/systemd/system/${SERVICE_NAME}-update.timer ]]; then
+        log_info "Removing legacy auto-update timer..."
+        systemctl disable --now ${SERVICE_NAME}-update.timer 2>/dev/null || true
+        rm -f /etc/systemd/system/${SERVICE_NAME}-update.timer /etc/systemd/system/${SERVICE_NAME}-update.service
+        systemctl daemon-reload
+    fi
+    rm -f "$INSTALL_DIR/update.sh"
 }
 
 # Start the service
@@ -480,7 +428,7 @@ print_summary() {
     echo -e "  ${YELLOW}journalctl -u $SERVICE_NAME -f${NC}    - View live logs"
     echo -e "  ${YELLOW}systemctl restart $SERVICE_NAME${NC}   - Restart service"
     echo ""
-    echo -e "Auto-updates are enabled and will run daily at 3 AM."
+    echo -e "Updates are installed automatically as releases roll out to this agent."
     echo ""
     echo -e "View your backup status at: ${BLUE}https://3cxbackupwiz.com${NC}"
     echo ""
@@ -512,7 +460,7 @@ main() {
     build_service
     register_agent
     create_systemd_service
-    create_update_timer
+    remove_legacy_update_timer
     start_service
     print_summary
 }
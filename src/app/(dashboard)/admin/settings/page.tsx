@@ -3,9 +3,15 @@
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
-import { Settings, Download, Trash2, Bell, Clock, Shield, Archive, Infinity, User, HardDrive } from "lucide-react";
+import { Settings, Download, Trash2, Clock, Shield, Archive, Infinity, User, HardDrive, Gavel } from "lucide-react";
 import { TwoFactorSetup } from "@/components/auth/TwoFactorSetup";
+import { WebhooksSection } from "@/components/admin/WebhooksSection";
+import { ApiKeysSection } from "@/components/admin/ApiKeysSection";
+import { PolicyRulesSection } from "@/components/admin/PolicyRulesSection";
+import { RedactionSection } from "@/components/admin/RedactionSection";
+import { NotificationChannelsSection } from "@/components/admin/NotificationChannelsSection";
 import { createClient } from "@/lib/supabase/client";
+import type { ExportJob } from "@/lib/export-jobs";
 
 interface RetentionPolicy {
   data_type: string;
@@ -14,8 +20,41 @@ interface RetentionPolicy {
   retention_days: number | null;
   is_enabled: boolean;
   last_cleanup_at: string | null;
+  last_cleanup_deleted: number | null;
+  last_cleanup_bytes: number | null;
 }
 
+interface RetentionPreview {
+  data_type: string;
+  retention_days: number;
+  cutoff: string | null;
+  items: number;
+  bytes: number;
+  held: number;
+}
+
+interface LegalHold {
+  id: string;
+  name: string;
+  reason: string | null;
+  extensions: string[];
+  conversation_ids: string[];
+  remote_numbers: string[];
+  starts_at: string | null;
+  ends_at: string | null;
+  created_at: string;
+}
+
+const EMPTY_HOLD_FORM = {
+  name: "",
+  reason: "",
+  extensions: "",
+  conversation_ids: "",
+  remote_numbers: "",
+  starts_at: "",
+  ends_at: "",
+};
+
 interface UserProfile {
   id: string;
   email: string;
@@ -43,11 +82,28 @@ const BACKUP_TYPES = [
   { key: "backup_meetings", label: "Meeting Recordings", description: "Web meeting recordings and transcripts" },
 ] as const;
 
+function formatBytes(bytes: number): string {
+  if (!bytes) return "0 B";
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+  return `${(bytes / Math.pow(1024, i)).toFixed(i > 0 ? 1 : 0)} ${units[i]}`;
+}
+
 export default function SettingsPage() {
   const [policies, setPolicies] = useState<RetentionPolicy[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [saveMessage, setSaveMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+  const [previews, setPreviews] = useState<Record<string, RetentionPreview>>({});
+  const [previewingType, setPreviewingType] = useState<string | null>(null);
+
+  // Legal hold state
+  const [holds, setHolds] = useState<LegalHold[]>([]);
+  const [holdsLoading, setHoldsLoading] = useState(true);
+  const [showHoldForm, setShowHoldForm] = useState(false);
+  const [holdForm, setHoldForm] = useState(EMPTY_HOLD_FORM);
+  const [holdSaving, setHoldSaving] = useState(false);
+  const [holdMessage, setHoldMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
 
   // Profile state
   const [profile, setProfile] = useState<UserProfile | null>(null);
@@ -61,12 +117,28 @@ export default function SettingsPage() {
   const [configSaving, setConfigSaving] = useState(false);
   const [configMessage, setConfigMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
 
+  // Archive export state
+  const [exportJobs, setExportJobs] = useState<ExportJob[]>([]);
+  const [exportRange, setExportRange] = useState({ start_date: "", end_date: "" });
+  const [exportStarting, setExportStarting] = useState(false);
+  const [exportMessage, setExportMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
   useEffect(() => {
     fetchPolicies();
+    fetchHolds();
     fetchProfile();
     fetchTenantConfig();
+    fetchExportJobs();
   }, []);
 
+  // Poll while an archive is being built
+  const exportInProgress = exportJobs.some((job) => job.status === "queued" || job.status === "running");
+  useEffect(() => {
+    if (!exportInProgress) return;
+    const interval = setInterval(fetchExportJobs, 5000);
+    return () => clearInterval(interval);
+  }, [exportInProgress]);
+
   async function fetchProfile() {
     try {
       const supabase = createClient();
@@ -165,6 +237,118 @@ export default function SettingsPage() {
     }
   }
 
+  async function previewPolicy(dataType: string) {
+    setPreviewingType(dataType);
+    setSaveMessage(null);
+    try {
+      const response = await fetch("/api/admin/retention", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ data_type: dataType, dry_run: true }),
+      });
+      const data = await response.json();
+
+      if (response.ok && data.preview) {
+        setPreviews((prev) => ({ ...prev, [dataType]: data.preview }));
+      } else {
+        setSaveMessage({ type: "error", text: data.error || "Failed to preview cleanup" });
+        setTimeout(() => setSaveMessage(null), 3000);
+      }
+    } catch (error) {
+      setSaveMessage({ type: "error", text: "Failed to preview cleanup" });
+      setTimeout(() => setSaveMessage(null), 3000);
+    } finally {
+      setPreviewingType(null);
+    }
+  }
+
+  async function fetchHolds() {
+    try {
+      const response = await fetch("/api/admin/legal-holds");
+      const data = await response.json();
+      if (data.holds) {
+        setHolds(data.holds);
+      }
+    } catch (error) {
+      console.error("Failed to fetch legal holds:", error);
+    } finally {
+      setHoldsLoading(false);
+    }
+  }
+
+  async function createHold() {
+    setHoldSaving(true);
+    setHoldMessage(null);
+    try {
+      const response = await fetch("/api/admin/legal-holds", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...holdForm,
+          starts_at: holdForm.starts_at || null,
+          ends_at: holdForm.ends_at ? `${holdForm.ends_at}T23:59:59` : null,
+        }),
+      });
+
+      if (response.ok) {
+        setHoldMessage({ type: "success", text: "Legal hold placed" });
+        setHoldForm(EMPTY_HOLD_FORM);
+        setShowHoldForm(false);
+        setPreviews({});
+        fetchHolds();
+      } else {
+        const data = await response.json();
+        setHoldMessage({ type: "error", text: data.error || "Failed to place legal hold" });
+      }
+    } catch (error) {
+      setHoldMessage({ type: "error", text: "Failed to place legal hold" });
+    } finally {
+      setHoldSaving(false);
+      setTimeout(() => setHoldMessage(null), 3000);
+    }
+  }
+
+  async function releaseHold(hold: LegalHold) {
+    const reason = prompt(`Release legal hold "${hold.name}"? Enter a reason:`);
+    if (reason === null) return;
+
+    setHoldMessage(null);
+    try {
+      const response = await fetch(`/api/admin/legal-holds/${hold.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "release", reason }),
+      });
+
+      if (response.ok) {
+        setHoldMessage({ type: "success", text: "Legal hold released" });
+        setPreviews({});
+        fetchHolds();
+      } else {
+        const data = await response.json();
+        setHoldMessage({ type: "error", text: data.error || "Failed to release legal hold" });
+      }
+    } catch (error) {
+      setHoldMessage({ type: "error", text: "Failed to release legal hold" });
+    } finally {
+      setTimeout(() => setHoldMessage(null), 3000);
+    }
+  }
+
+  function describeHoldScope(hold: LegalHold): string {
+    const parts: string[] = [];
+    if (hold.extensions.length > 0) parts.push(`Extensions ${hold.extensions.join(", ")}`);
+    if (hold.remote_numbers.length > 0) parts.push(`Numbers ${hold.remote_numbers.join(", ")}`);
+    if (hold.conversation_ids.length > 0) parts.push(`${hold.conversation_ids.length} conversation(s)`);
+    if (parts.length === 0) parts.push("All records");
+
+    const from = hold.starts_at ? new Date(hold.starts_at).toLocaleDateString() : null;
+    const to = hold.ends_at ? new Date(hold.ends_at).toLocaleDateString() : null;
+    if (from || to) parts.push(`${from || "any time"} – ${to || "present"}`);
+
+    return parts.join(" · ");
+  }
+
   async function fetchTenantConfig() {
     try {
       const response = await fetch("/api/tenant/config");
@@ -215,12 +399,75 @@ export default function SettingsPage() {
     }
   }
 
+  async function fetchExportJobs() {
+    try {
+      const response = await fetch("/api/export/jobs");
+      const data = await response.json();
+      if (data.jobs) {
+        setExportJobs(data.jobs);
+      }
+    } catch (error) {
+      console.error("Failed to fetch export jobs:", error);
+    }
+  }
+
+  async function startExport() {
+    setExportStarting(true);
+    setExportMessage(null);
+    try {
+      const response = await fetch("/api/export/jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          start_date: exportRange.start_date || null,
+          end_date: exportRange.end_date || null,
+        }),
+      });
+
+      if (response.ok) {
+        setExportMessage({ type: "success", text: "Export queued" });
+        fetchExportJobs();
+      } else {
+        const data = await response.json();
+        setExportMessage({ type: "error", text: data.error || "Failed to start export" });
+      }
+    } catch (error) {
+      setExportMessage({ type: "error", text: "Failed to start export" });
+    } finally {
+      setExportStarting(false);
+      setTimeout(() => setExportMessage(null), 3000);
+    }
+  }
+
+  async function downloadExport(job: ExportJob) {
+    setExportMessage(null);
+    try {
+      const response = await fetch(`/api/export/jobs/${job.id}?download=true`);
+      const data = await response.json();
+
+      if (response.ok && data.download_url) {
+        window.location.href = data.download_url;
+      } else {
+        setExportMessage({ type: "error", text: data.error || "Failed to download export" });
+        setTimeout(() => setExportMessage(null), 3000);
+      }
+    } catch (error) {
+      setExportMessage({ type: "error", text: "Failed to download export" });
+      setTimeout(() => setExportMessage(null), 3000);
+    }
+  }
+
   function updatePolicy(dataType: string, field: "retention_days" | "is_enabled", value: number | null | boolean) {
     setPolicies((prev) =>
       prev.map((p) =>
         p.data_type === dataType ? { ...p, [field]: value } : p
       )
     );
+    // A preview is only valid for the saved policy it was computed from
+    setPreviews((prev) => {
+      const { [dataType]: _, ...rest } = prev;
+      return rest;
+    });
   }
 
   return (
@@ -350,11 +597,34 @@ export default function SettingsPage() {
                       {policy.last_cleanup_at && (
                         <p className="text-xs text-slate-400 mt-1">
                           Last cleanup: {new Date(policy.last_cleanup_at).toLocaleDateString()}
+                          {policy.last_cleanup_deleted != null &&
+                            ` — ${policy.last_cleanup_deleted.toLocaleString()} removed (${formatBytes(policy.last_cleanup_bytes || 0)})`}
+                        </p>
+                      )}
+                      {previews[policy.data_type] && (
+                        <p className="text-xs text-amber-600 mt-1">
+                          Next cleanup would remove {previews[policy.data_type].items.toLocaleString()} item(s)
+                          {previews[policy.data_type].bytes > 0 &&
+                            ` (${formatBytes(previews[policy.data_type].bytes)})`}
+                          {previews[policy.data_type].cutoff &&
+                            ` older than ${new Date(previews[policy.data_type].cutoff!).toLocaleDateString()}`}
+                          {previews[policy.data_type].held > 0 &&
+                            ` — ${previews[policy.data_type].held.toLocaleString()} kept by legal hold`}
                         </p>
                       )}
                     </div>
                   </div>
                   <div className="flex items-center gap-4">
+                    {policy.retention_days !== null && policy.is_enabled && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => previewPolicy(policy.data_type)}
+                        disabled={previewingType !== null}
+                      >
+                        {previewingType === policy.data_type ? "Checking..." : "Preview"}
+                      </Button>
+                    )}
                     <div className="flex items-center gap-2">
                       <select
                         value={policy.retention_days === null ? "forever" : policy.retention_days}
@@ -406,6 +676,154 @@ export default function SettingsPage() {
         </div>
       </div>
 
+      {/* Legal Holds */}
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-slate-800">Legal Holds</h2>
+          {holdMessage && (
+            <div
+              className={`px-4 py-2 rounded-lg text-sm font-medium ${
+                holdMessage.type === "success"
+                  ? "bg-green-100 text-green-700"
+                  : "bg-red-100 text-red-700"
+              }`}
+            >
+              {holdMessage.text}
+            </div>
+          )}
+        </div>
+        <div className="bg-white rounded-2xl shadow-lg shadow-slate-200/50 border border-slate-200 p-6">
+          <div className="mb-4 p-4 bg-amber-50 rounded-xl border border-amber-200">
+            <div className="flex items-start gap-3">
+              <Gavel className="h-5 w-5 text-amber-600 mt-0.5" />
+              <div>
+                <h4 className="font-medium text-amber-800">About Legal Holds</h4>
+                <p className="text-sm text-amber-700 mt-1">
+                  Records matching an active hold are never deleted — retention cleanup skips them and the
+                  tenant cannot be removed until every hold is released. Leave the scope fields empty to hold
+                  everything in the date range.
+                </p>
+              </div>
+            </div>
+          </div>
+
+          {holdsLoading ? (
+            <div className="h-20 bg-slate-100 rounded-xl animate-pulse" />
+          ) : (
+            <div className="space-y-4">
+              {holds.length === 0 && !showHoldForm && (
+                <p className="text-sm text-slate-500">No active legal holds.</p>
+              )}
+              {holds.map((hold) => (
+                <div
+                  key={hold.id}
+                  className="flex items-center justify-between p-4 bg-gradient-to-br from-slate-50 to-gray-50 rounded-xl border border-slate-200"
+                >
+                  <div className="flex items-center gap-4">
+                    <div className="p-2 bg-amber-100 rounded-lg">
+                      <Gavel className="h-5 w-5 text-amber-600" />
+                    </div>
+                    <div>
+                      <h3 className="font-semibold text-slate-800">{hold.name}</h3>
+                      <p className="text-sm text-slate-500">{describeHoldScope(hold)}</p>
+                      <p className="text-xs text-slate-400 mt-1">
+                        Placed {new Date(hold.created_at).toLocaleDateString()}
+                        {hold.reason && ` — ${hold.reason}`}
+                      </p>
+                    </div>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => releaseHold(hold)}>
+                    Release
+                  </Button>
+                </div>
+              ))}
+
+              {showHoldForm ? (
+                <div className="p-4 rounded-xl border border-slate-200 space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-slate-600 mb-1">Name</label>
+                      <Input
+                        type="text"
+                        value={holdForm.name}
+                        onChange={(e) => setHoldForm({ ...holdForm, name: e.target.value })}
+                        placeholder="e.g. Smith v. Acme"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-600 mb-1">Reason</label>
+                      <Input
+                        type="text"
+                        value={holdForm.reason}
+                        onChange={(e) => setHoldForm({ ...holdForm, reason: e.target.value })}
+                        placeholder="Litigation notice reference"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-600 mb-1">Extensions</label>
+                      <Input
+                        type="text"
+                        value={holdForm.extensions}
+                        onChange={(e) => setHoldForm({ ...holdForm, extensions: e.target.value })}
+                        placeholder="101, 204"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-600 mb-1">Remote Numbers</label>
+                      <Input
+                        type="text"
+                        value={holdForm.remote_numbers}
+                        onChange={(e) => setHoldForm({ ...holdForm, remote_numbers: e.target.value })}
+                        placeholder="+18135550100"
+                      />
+                    </div>
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium text-slate-600 mb-1">Conversation IDs</label>
+                      <Input
+                        type="text"
+                        value={holdForm.conversation_ids}
+                        onChange={(e) => setHoldForm({ ...holdForm, conversation_ids: e.target.value })}
+                        placeholder="Comma separated"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-600 mb-1">From</label>
+                      <Input
+                        type="date"
+                        value={holdForm.starts_at}
+                        onChange={(e) => setHoldForm({ ...holdForm, starts_at: e.target.value })}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-600 mb-1">To</label>
+                      <Input
+                        type="date"
+                        value={holdForm.ends_at}
+                        onChange={(e) => setHoldForm({ ...holdForm, ends_at: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={() => setShowHoldForm(false)} disabled={holdSaving}>
+                      Cancel
+                    </Button>
+                    <Button onClick={createHold} disabled={holdSaving || !holdForm.name.trim()}>
+                      {holdSaving ? "Saving..." : "Place Hold"}
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex justify-end pt-2">
+                  <Button variant="outline" onClick={() => setShowHoldForm(true)}>
+                    New Legal Hold
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
       {/* Sync Settings */}
       <div className="space-y-4">
         <div className="flex items-center justify-between">
@@ -503,27 +921,43 @@ export default function SettingsPage() {
         </div>
       </div>
 
+      {/* Webhooks */}
+      <div className="space-y-4">
+        <h2 className="text-xl font-bold text-slate-800">Webhooks</h2>
+        <div className="bg-white rounded-2xl shadow-lg shadow-slate-200/50 border border-slate-200 p-6">
+          <WebhooksSection />
+        </div>
+      </div>
+
+      {/* Policy Monitoring */}
+      <div className="space-y-4">
+        <h2 className="text-xl font-bold text-slate-800">Policy Monitoring</h2>
+        <div className="bg-white rounded-2xl shadow-lg shadow-slate-200/50 border border-slate-200 p-6">
+          <PolicyRulesSection />
+        </div>
+      </div>
+
+      {/* PII Redaction */}
+      <div className="space-y-4">
+        <h2 className="text-xl font-bold text-slate-800">PII Redaction</h2>
+        <div className="bg-white rounded-2xl shadow-lg shadow-slate-200/50 border border-slate-200 p-6">
+          <RedactionSection />
+        </div>
+      </div>
+
+      {/* API Keys */}
+      <div className="space-y-4">
+        <h2 className="text-xl font-bold text-slate-800">API Keys</h2>
+        <div className="bg-white rounded-2xl shadow-lg shadow-slate-200/50 border border-slate-200 p-6">
+          <ApiKeysSection />
+        </div>
+      </div>
+
       {/* Notifications */}
       <div className="space-y-4">
         <h2 className="text-xl font-bold text-slate-800">Notifications</h2>
         <div className="bg-white rounded-2xl shadow-lg shadow-slate-200/50 border border-slate-200 p-6">
-          <div className="space-y-4">
-            <div className="flex items-center justify-between p-4 bg-gradient-to-br from-slate-50 to-gray-50 rounded-xl border border-slate-200">
-              <div className="flex items-center gap-4">
-                <div className="p-2 bg-amber-100 rounded-lg">
-                  <Bell className="h-5 w-5 text-amber-600" />
-                </div>
-                <div>
-                  <h3 className="font-semibold text-slate-800">Email Notifications</h3>
-                  <p className="text-sm text-slate-500">Get notified about sync errors</p>
-                </div>
-              </div>
-              <label className="relative inline-flex items-center cursor-pointer">
-                <input type="checkbox" className="sr-only peer" />
-                <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-teal-500"></div>
-              </label>
-            </div>
-          </div>
+          <NotificationChannelsSection />
         </div>
       </div>
 
@@ -564,7 +998,7 @@ export default function SettingsPage() {
                 </div>
                 <div>
                   <h3 className="font-semibold text-slate-800">Export Data</h3>
-                  <p className="text-sm text-slate-500">Download backups in JSON or CSV format</p>
+                  <p className="text-sm text-slate-500">Download backups in JSON, CSV or MBOX (eDiscovery) format</p>
                 </div>
               </div>
               <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
@@ -592,7 +1026,114 @@ export default function SettingsPage() {
                 >
                   Recordings (JSON)
                 </a>
+                <a
+                  href="/api/export?type=messages&format=mbox"
+                  className="px-4 py-2 bg-white border border-slate-300 text-slate-700 text-sm font-medium rounded-lg hover:bg-slate-50 text-center"
+                >
+                  Messages (MBOX)
+                </a>
+                <a
+                  href="/api/export?type=voicemails&format=mbox"
+                  className="px-4 py-2 bg-white border border-slate-300 text-slate-700 text-sm font-medium rounded-lg hover:bg-slate-50 text-center"
+                >
+                  Voicemails (MBOX)
+                </a>
+                <a
+                  href="/api/export?type=faxes&format=mbox"
+                  className="px-4 py-2 bg-white border border-slate-300 text-slate-700 text-sm font-medium rounded-lg hover:bg-slate-50 text-center"
+                >
+                  Faxes (MBOX)
+                </a>
+              </div>
+            </div>
+            {/* Archive Export */}
+            <div className="p-4 bg-gradient-to-br from-slate-50 to-gray-50 rounded-xl border border-slate-200">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-4">
+                  <div className="p-2 bg-teal-100 rounded-lg">
+                    <Archive className="h-5 w-5 text-teal-600" />
+                  </div>
+                  <div>
+                    <h3 className="font-semibold text-slate-800">Archive Export (ZIP)</h3>
+                    <p className="text-sm text-slate-500">
+                      Transcripts, call logs and media files with a checksum manifest
+                    </p>
+                  </div>
+                </div>
+                {exportMessage && (
+                  <div
+                    className={`px-4 py-2 rounded-lg text-sm font-medium ${
+                      exportMessage.type === "success"
+                        ? "bg-green-100 text-green-700"
+                        : "bg-red-100 text-red-700"
+                    }`}
+                  >
+                    {exportMessage.text}
+                  </div>
+                )}
+              </div>
+              <div className="flex flex-wrap items-end gap-3 mb-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-600 mb-1">From</label>
+                  <Input
+                    type="date"
+                    value={exportRange.start_date}
+                    onChange={(e) => setExportRange({ ...exportRange, start_date: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-600 mb-1">To</label>
+                  <Input
+                    type="date"
+                    value={exportRange.end_date}
+                    onChange={(e) => setExportRange({ ...exportRange, end_date: e.target.value })}
+                  />
+                </div>
+                <Button onClick={startExport} isLoading={exportStarting} disabled={exportInProgress}>
+                  Start Export
+                </Button>
               </div>
+              {exportJobs.length > 0 && (
+                <div className="space-y-2">
+                  {exportJobs.map((job) => (
+                    <div
+                      key={job.id}
+                      className="flex items-center justify-between gap-4 p-3 bg-white rounded-lg border border-slate-200"
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-slate-800">
+                          {new Date(job.created_at).toLocaleString()}
+                          <span className="ml-2 text-xs font-normal text-slate-500">
+                            {job.start_date ? new Date(job.start_date).toLocaleDateString() : "all time"}
+                            {" – "}
+                            {job.end_date ? new Date(job.end_date).toLocaleDateString() : "present"}
+                          </span>
+                        </p>
+                        <p className="text-xs text-slate-500">
+                          {job.status === "queued" && "Queued"}
+                          {job.status === "running" && `Building archive… ${job.progress}%`}
+                          {job.status === "completed" &&
+                            `${formatBytes(job.archive_size || 0)} · ${job.files_included} files` +
+                              (job.files_missing > 0 ? ` · ${job.files_missing} missing` : "")}
+                          {job.status === "failed" && `Failed: ${job.error || "unknown error"}`}
+                          {job.status === "expired" && "Expired"}
+                        </p>
+                        {job.status === "completed" && job.archive_sha256 && (
+                          <p className="text-xs text-slate-400 font-mono truncate" title={job.archive_sha256}>
+                            SHA-256 {job.archive_sha256}
+                          </p>
+                        )}
+                      </div>
+                      {job.status === "completed" && (
+                        <Button variant="outline" size="sm" onClick={() => downloadExport(job)}>
+                          <Download className="h-4 w-4 mr-1" />
+                          Download
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
             <div className="flex items-center justify-between p-4 bg-gradient-to-br from-red-50 to-rose-50 rounded-xl border-2 border-red-200">
               <div className="flex items-center gap-4">
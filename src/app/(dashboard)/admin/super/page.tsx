@@ -32,8 +32,12 @@ import {
   Loader2,
   CheckCircle,
   XCircle,
+  GitCompare,
+  Server,
 } from "lucide-react";
 import { EmailSettingsSection } from "@/components/admin/EmailSettingsSection";
+import { ReconciliationSection } from "@/components/admin/ReconciliationSection";
+import { AgentFleetSection } from "@/components/admin/AgentFleetSection";
 
 interface SystemStats {
   totalTenants: number;
@@ -744,6 +748,36 @@ export default function SuperAdminPage() {
         </CardContent>
       </Card>
 
+      {/* Reconciliation - 3CX source counts vs archive */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-3">
+            <div className="p-2 bg-sky-100 rounded-lg">
+              <GitCompare className="h-5 w-5 text-sky-600" />
+            </div>
+            Reconciliation
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ReconciliationSection />
+        </CardContent>
+      </Card>
+
+      {/* Sync agent fleet - installed agents, commands and releases */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-3">
+            <div className="p-2 bg-indigo-100 rounded-lg">
+              <Server className="h-5 w-5 text-indigo-600" />
+            </div>
+            Sync Agents
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <AgentFleetSection />
+        </CardContent>
+      </Card>
+
       {/* Storage Plans Management */}
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
@@ -1,6 +1,8 @@
 import { SyncStatusCard } from "@/components/admin/SyncStatusCard";
 import { SyncLogTable } from "@/components/admin/SyncLogTable";
 import { StatsOverview } from "@/components/admin/StatsOverview";
+import { BackfillJobsCard } from "@/components/admin/BackfillJobsCard";
+import { SyncJobsCard } from "@/components/admin/SyncJobsCard";
 
 export const metadata = {
   title: "Sync Status - 3CX BackupWiz",
@@ -39,6 +41,10 @@ export default function SyncStatusPage() {
         </div>
       </div>
 
+      <SyncJobsCard />
+
+      <BackfillJobsCard />
+
       <SyncLogTable />
     </div>
   );
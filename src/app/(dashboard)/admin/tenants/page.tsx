@@ -22,8 +22,13 @@ import {
   CreditCard,
   Package,
   DollarSign,
+  Gauge,
+  Stethoscope,
 } from "lucide-react";
+import { AgentDiagnosticsModal } from "@/components/admin/AgentDiagnosticsModal";
+import { PbxInstancesModal } from "@/components/admin/PbxInstancesModal";
 import { formatRelativeTime } from "@/lib/utils/date";
+import type { TenantSyncBudget } from "@/lib/sync-budget";
 
 interface StoragePlan {
   id: string;
@@ -52,6 +57,7 @@ interface Tenant {
   billing_email: string | null;
   billing_status: string | null;
   storage_plan?: StoragePlan | null;
+  settings?: { sync_budget?: TenantSyncBudget | null } | null;
 }
 
 type CustomerType = "standard" | "business";
@@ -81,6 +87,10 @@ interface EditTenantFormData {
   storage_plan_id: string;
   price_override: string;
   billing_email: string;
+  // Sync budget fields; empty uses the sync service default
+  max_concurrent_transfers: string;
+  mb_per_minute: string;
+  max_items_per_cycle: string;
 }
 
 const defaultCreateFormData: CreateTenantFormData = {
@@ -106,8 +116,13 @@ const defaultEditFormData: EditTenantFormData = {
   storage_plan_id: "",
   price_override: "",
   billing_email: "",
+  max_concurrent_transfers: "",
+  mb_per_minute: "",
+  max_items_per_cycle: "",
 };
 
+const BYTES_PER_MB = 1024 * 1024;
+
 export default function TenantManagementPage() {
   const { profile, isLoading: authLoading } = useAuth();
   const router = useRouter();
@@ -118,6 +133,8 @@ export default function TenantManagementPage() {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [selectedTenant, setSelectedTenant] = useState<Tenant | null>(null);
+  const [diagnosticsTenant, setDiagnosticsTenant] = useState<Tenant | null>(null);
+  const [pbxInstancesTenant, setPbxInstancesTenant] = useState<Tenant | null>(null);
   const [createFormData, setCreateFormData] = useState<CreateTenantFormData>(defaultCreateFormData);
   const [editFormData, setEditFormData] = useState<EditTenantFormData>(defaultEditFormData);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -198,7 +215,20 @@ export default function TenantManagementPage() {
       const response = await fetch(`/api/admin/tenants/${selectedTenant.id}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(editFormData),
+        body: JSON.stringify({
+          name: editFormData.name,
+          is_active: editFormData.is_active,
+          storage_plan_id: editFormData.storage_plan_id,
+          price_override: editFormData.price_override,
+          billing_email: editFormData.billing_email,
+          sync_budget: {
+            max_concurrent_transfers: editFormData.max_concurrent_transfers || null,
+            bytes_per_minute: editFormData.mb_per_minute
+              ? Math.round(parseFloat(editFormData.mb_per_minute) * BYTES_PER_MB)
+              : null,
+            max_items_per_cycle: editFormData.max_items_per_cycle || null,
+          },
+        }),
       });
       if (response.ok) {
         setShowEditModal(false);
@@ -225,6 +255,9 @@ export default function TenantManagementPage() {
       });
       if (response.ok) {
         fetchTenants();
+      } else {
+        const data = await response.json();
+        alert(data.error || "Failed to delete tenant");
       }
     } catch (error) {
       console.error("Failed to delete tenant:", error);
@@ -232,6 +265,7 @@ export default function TenantManagementPage() {
   };
 
   const handleEditTenant = (tenant: Tenant) => {
+    const budget = tenant.settings?.sync_budget;
     setSelectedTenant(tenant);
     setEditFormData({
       name: tenant.name,
@@ -239,6 +273,9 @@ export default function TenantManagementPage() {
       storage_plan_id: tenant.storage_plan_id || "",
       price_override: tenant.price_override || "",
       billing_email: tenant.billing_email || "",
+      max_concurrent_transfers: budget?.max_concurrent_transfers?.toString() || "",
+      mb_per_minute: budget?.bytes_per_minute ? String(budget.bytes_per_minute / BYTES_PER_MB) : "",
+      max_items_per_cycle: budget?.max_items_per_cycle?.toString() || "",
     });
     setShowEditModal(true);
   };
@@ -374,6 +411,24 @@ export default function TenantManagementPage() {
                 Created {formatRelativeTime(tenant.created_at)}
               </span>
               <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPbxInstancesTenant(tenant)}
+                  className="hover:bg-sky-50 hover:text-sky-600"
+                  title="3CX systems"
+                >
+                  <Server className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDiagnosticsTenant(tenant)}
+                  className="hover:bg-indigo-50 hover:text-indigo-600"
+                  title="Agent diagnostics"
+                >
+                  <Stethoscope className="h-4 w-4" />
+                </Button>
                 <Button
                   variant="ghost"
                   size="sm"
@@ -828,6 +883,61 @@ export default function TenantManagementPage() {
               </div>
             </div>
 
+            {/* Sync Budget Section */}
+            <div className="space-y-4">
+              <div className="flex items-center gap-3 pb-3 border-b border-slate-200">
+                <div className="p-2 bg-amber-100 rounded-lg">
+                  <Gauge className="h-5 w-5 text-amber-600" />
+                </div>
+                <h4 className="font-semibold text-slate-800">Sync Budget</h4>
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1.5">
+                    Concurrent Transfers
+                  </label>
+                  <Input
+                    type="number"
+                    min="1"
+                    step="1"
+                    placeholder="Default"
+                    value={editFormData.max_concurrent_transfers}
+                    onChange={(e) => setEditFormData({ ...editFormData, max_concurrent_transfers: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1.5">
+                    MB per Minute
+                  </label>
+                  <Input
+                    type="number"
+                    min="1"
+                    step="1"
+                    placeholder="Default"
+                    value={editFormData.mb_per_minute}
+                    onChange={(e) => setEditFormData({ ...editFormData, mb_per_minute: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1.5">
+                    Files per Cycle
+                  </label>
+                  <Input
+                    type="number"
+                    min="1"
+                    step="1"
+                    placeholder="Default"
+                    value={editFormData.max_items_per_cycle}
+                    onChange={(e) => setEditFormData({ ...editFormData, max_items_per_cycle: e.target.value })}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-slate-500">
+                Limits file syncs (recordings, voicemails, media, faxes, meetings) for this tenant. Leave empty to use the sync service defaults.
+              </p>
+            </div>
+
             <div className="flex justify-end gap-3 pt-4 border-t border-slate-200">
               <Button
                 variant="outline"
@@ -847,6 +957,24 @@ export default function TenantManagementPage() {
           </div>
         )}
       </Modal>
+
+      {diagnosticsTenant && (
+        <AgentDiagnosticsModal
+          isOpen={!!diagnosticsTenant}
+          onClose={() => setDiagnosticsTenant(null)}
+          tenantId={diagnosticsTenant.id}
+          tenantName={diagnosticsTenant.name}
+        />
+      )}
+
+      {pbxInstancesTenant && (
+        <PbxInstancesModal
+          isOpen={!!pbxInstancesTenant}
+          onClose={() => setPbxInstancesTenant(null)}
+          tenantId={pbxInstancesTenant.id}
+          tenantName={pbxInstancesTenant.name}
+        />
+      )}
     </div>
   );
 }
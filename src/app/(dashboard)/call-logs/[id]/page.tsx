@@ -0,0 +1,21 @@
+import { Navigation } from "@/components/layout/Navigation";
+import { CallDetailView } from "@/components/calls/CallDetailView";
+
+export const metadata = {
+  title: "Call Detail - 3CX BackupWiz",
+};
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function CallDetailPage({ params }: PageProps) {
+  const { id } = await params;
+
+  return (
+    <div className="flex flex-col">
+      <Navigation breadcrumbs={[{ label: "Call Detail Records", href: "/call-logs" }, { label: "Call" }]} />
+      <CallDetailView callId={id} />
+    </div>
+  );
+}
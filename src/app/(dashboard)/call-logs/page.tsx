@@ -1,7 +1,9 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import { Phone, PhoneIncoming, PhoneOutgoing, PhoneMissed, Clock, Search, Loader2, Disc } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { Phone, PhoneIncoming, PhoneOutgoing, PhoneMissed, Clock, Search, Loader2, Disc, ChevronUp } from "lucide-react";
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
 import { formatDistanceToNow, format } from "date-fns";
 
 interface CallLog {
@@ -26,26 +28,43 @@ interface CallLog {
 type DirectionFilter = "all" | "inbound" | "outbound" | "internal";
 type StatusFilter = "all" | "answered" | "missed" | "busy";
 
+// replace: fresh list (filters or jump date changed); append: older rows; prepend: newer rows
+type FetchMode = "replace" | "append" | "prepend";
+
 export default function CallLogsPage() {
+  const router = useRouter();
   const [callLogs, setCallLogs] = useState<CallLog[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [page, setPage] = useState(1);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [prevCursor, setPrevCursor] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(false);
+  const [hasNewer, setHasNewer] = useState(false);
   const [total, setTotal] = useState(0);
+  const [jumpDate, setJumpDate] = useState("");
   const [directionFilter, setDirectionFilter] = useState<DirectionFilter>("all");
   const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
   const [searchQuery, setSearchQuery] = useState("");
 
-  const fetchCallLogs = useCallback(async (pageNum: number, direction: DirectionFilter, status: StatusFilter, search: string, append = false) => {
+  const fetchCallLogs = useCallback(async (
+    cursor: string | null,
+    direction: DirectionFilter,
+    status: StatusFilter,
+    search: string,
+    date: string,
+    mode: FetchMode = "replace"
+  ) => {
     setIsLoading(true);
     setError(null);
 
     try {
-      const params = new URLSearchParams({
-        page: pageNum.toString(),
-        page_size: "20",
-      });
+      const params = new URLSearchParams({ limit: "20" });
+
+      if (cursor) {
+        params.set("cursor", cursor);
+      } else if (date) {
+        params.set("date", date);
+      }
 
       if (direction !== "all") {
         params.set("direction", direction);
@@ -64,14 +83,26 @@ export default function CallLogsPage() {
 
       const data = await response.json();
 
-      if (append) {
+      if (mode === "append") {
         setCallLogs((prev) => [...prev, ...data.data]);
+      } else if (mode === "prepend") {
+        setCallLogs((prev) => [...data.data, ...prev]);
       } else {
         setCallLogs(data.data);
       }
 
-      setTotal(data.total);
-      setHasMore(data.has_more);
+      if (mode !== "prepend") {
+        setNextCursor(data.next_cursor);
+        setHasMore(data.has_more);
+      }
+      if (mode !== "append") {
+        if (data.prev_cursor) setPrevCursor(data.prev_cursor);
+        setHasNewer(data.has_newer);
+      }
+      // Only the first page of a list carries a total
+      if (data.total !== null) {
+        setTotal(data.total);
+      }
     } catch (err) {
       setError((err as Error).message);
     } finally {
@@ -80,16 +111,24 @@ export default function CallLogsPage() {
   }, []);
 
   useEffect(() => {
-    setPage(1);
-    fetchCallLogs(1, directionFilter, statusFilter, searchQuery);
-  }, [directionFilter, statusFilter, searchQuery, fetchCallLogs]);
-
-  const loadMore = () => {
-    const nextPage = page + 1;
-    setPage(nextPage);
-    fetchCallLogs(nextPage, directionFilter, statusFilter, searchQuery, true);
+    setPrevCursor(null);
+    fetchCallLogs(null, directionFilter, statusFilter, searchQuery, jumpDate);
+  }, [directionFilter, statusFilter, searchQuery, jumpDate, fetchCallLogs]);
+
+  const loadMore = useCallback(() => {
+    if (nextCursor) {
+      fetchCallLogs(nextCursor, directionFilter, statusFilter, searchQuery, jumpDate, "append");
+    }
+  }, [nextCursor, directionFilter, statusFilter, searchQuery, jumpDate, fetchCallLogs]);
+
+  const loadNewer = () => {
+    if (prevCursor) {
+      fetchCallLogs(prevCursor, directionFilter, statusFilter, searchQuery, jumpDate, "prepend");
+    }
   };
 
+  const sentinelRef = useInfiniteScroll(loadMore, { hasMore, isLoading });
+
   const formatDuration = (seconds: number | null): string => {
     if (!seconds || seconds === 0) return "--:--";
     const mins = Math.floor(seconds / 60);
@@ -172,6 +211,15 @@ export default function CallLogsPage() {
             />
           </div>
 
+          {/* Jump to date */}
+          <input
+            type="date"
+            value={jumpDate}
+            onChange={(e) => setJumpDate(e.target.value)}
+            title="Jump to date"
+            className="px-3 py-2 border border-slate-200 rounded-xl text-sm text-slate-600 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+          />
+
           {/* Direction Filter */}
           <div className="flex items-center gap-1 bg-slate-100 p-1 rounded-xl">
             {directionOptions.map((option) => (
@@ -218,6 +266,20 @@ export default function CallLogsPage() {
         </div>
       )}
 
+      {/* Newer records above a jump date, or synced since the list loaded */}
+      {hasNewer && callLogs.length > 0 && (
+        <div className="flex justify-center mb-4">
+          <button
+            onClick={loadNewer}
+            disabled={isLoading}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-teal-600 bg-teal-50 rounded-xl hover:bg-teal-100 disabled:opacity-50 transition-colors"
+          >
+            <ChevronUp className="h-4 w-4" />
+            Show newer calls
+          </button>
+        </div>
+      )}
+
       {/* Call Logs Table */}
       {callLogs.length > 0 && (
         <div className="bg-white rounded-2xl shadow-lg shadow-slate-200/50 border border-slate-200 overflow-hidden">
@@ -237,7 +299,11 @@ export default function CallLogsPage() {
             </thead>
             <tbody className="divide-y divide-slate-100">
               {callLogs.map((call) => (
-                <tr key={call.id} className="hover:bg-slate-50 transition-colors">
+                <tr
+                  key={call.id}
+                  onClick={() => router.push(`/call-logs/${call.id}`)}
+                  className="hover:bg-slate-50 transition-colors cursor-pointer"
+                >
                   <td className="px-6 py-4">
                     <div className="flex items-center gap-2">
                       {getCallIcon(call.direction, call.status)}
@@ -284,23 +350,11 @@ export default function CallLogsPage() {
         </div>
       )}
 
-      {/* Load More */}
-      {hasMore && (
+      {/* Infinite scroll */}
+      {hasMore && !isLoading && <div ref={sentinelRef} className="h-1" />}
+      {isLoading && callLogs.length > 0 && (
         <div className="flex justify-center mt-8">
-          <button
-            onClick={loadMore}
-            disabled={isLoading}
-            className="flex items-center gap-2 px-6 py-3 bg-teal-500 text-white rounded-xl font-medium hover:bg-teal-600 disabled:opacity-50 transition-colors"
-          >
-            {isLoading ? (
-              <>
-                <Loader2 className="h-4 w-4 animate-spin" />
-                Loading...
-              </>
-            ) : (
-              "Load More"
-            )}
-          </button>
+          <Loader2 className="h-6 w-6 text-teal-500 animate-spin" />
         </div>
       )}
     </div>
@@ -1,10 +1,12 @@
 import { Suspense } from "react";
 import { notFound } from "next/navigation";
 import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { resolveRedactor } from "@/lib/redaction-access";
 import { MessageList } from "@/components/chat/MessageList";
 import { Navigation } from "@/components/layout/Navigation";
 import { LoadingScreen } from "@/components/ui/Spinner";
-import { Download, Users, Calendar, MessageSquare } from "lucide-react";
+import { Download, Users, Calendar, MessageSquare, EyeOff } from "lucide-react";
 import { formatFullDate } from "@/lib/utils/date";
 
 interface PageProps {
@@ -12,15 +14,31 @@ interface PageProps {
   searchParams: Promise<{ highlight?: string; q?: string }>;
 }
 
+// Participant numbers in the header follow the same redaction as the
+// messages; the access itself is logged by the messages API
+async function redactConversation<T>(supabase: ReturnType<typeof createAdminClient>, conversation: T): Promise<T> {
+  const context = await getTenantContext();
+  if (!context.isAuthenticated || !context.tenantId) return conversation;
+
+  const redactor = await resolveRedactor(supabase, {
+    tenantId: context.tenantId,
+    userId: context.userId,
+    surface: "conversation",
+    logAccess: false,
+  });
+  return redactor ? redactor.record(conversation) : conversation;
+}
+
 export async function generateMetadata({ params }: PageProps) {
   const { id } = await params;
   const supabase = createAdminClient();
 
-  const { data: conversation } = await supabase
+  const { data } = await supabase
     .from("conversations")
     .select("conversation_name, participants(external_name)")
     .eq("id", id)
     .single();
+  const conversation = await redactConversation(supabase, data);
 
   const title = conversation?.conversation_name ||
     conversation?.participants?.map((p: { external_name: string | null }) => p.external_name).join(", ") ||
@@ -36,7 +54,7 @@ export default async function ConversationPage({ params, searchParams }: PagePro
   const { highlight: highlightMessageId, q: highlightQuery } = await searchParams;
   const supabase = createAdminClient();
 
-  const { data: conversation, error } = await supabase
+  const { data, error } = await supabase
     .from("conversations")
     .select(`
       *,
@@ -45,10 +63,12 @@ export default async function ConversationPage({ params, searchParams }: PagePro
     .eq("id", id)
     .single();
 
-  if (error || !conversation) {
+  if (error || !data) {
     notFound();
   }
 
+  const conversation = await redactConversation(supabase, data);
+
   const participantNames = conversation.participants
     .map((p: { external_name: string | null; external_id: string | null }) =>
       p.external_name || p.external_id || "Unknown"
@@ -97,6 +117,21 @@ export default async function ConversationPage({ params, searchParams }: PagePro
               <Download className="h-4 w-4" />
               Export
             </a>
+            <a
+              href={`/api/export?conversation_id=${id}&format=eml`}
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              <Download className="h-4 w-4" />
+              EML
+            </a>
+            <a
+              href={`/api/export?conversation_id=${id}&format=json&redact=true`}
+              title="Export with card numbers, SSNs and customer phone numbers masked"
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              <EyeOff className="h-4 w-4" />
+              Redacted
+            </a>
           </div>
         </div>
 
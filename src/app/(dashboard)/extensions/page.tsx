@@ -101,7 +101,11 @@ export default function ExtensionsPage() {
     setIsSyncing(true);
     setSyncMessage(null);
     try {
-      const res = await fetch("/api/sync/trigger", { method: "POST" });
+      const res = await fetch("/api/sync/trigger", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sync_types: ["extensions"] }),
+      });
       if (res.ok) {
         setSyncMessage("Sync queued — extensions will update within a minute.");
       } else {
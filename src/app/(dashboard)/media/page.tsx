@@ -1,11 +1,15 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import { Image, Video, FileText, Download, ZoomIn, X, Filter, Loader2 } from "lucide-react";
+import { Image, Video, FileText, Download, ZoomIn, X, Filter, Loader2, ChevronUp } from "lucide-react";
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
 import type { MediaFile } from "@/types";
 
 type FileTypeFilter = "all" | "image" | "video" | "audio" | "document";
 
+// replace: fresh list (filter or jump date changed); append: older files; prepend: newer files
+type FetchMode = "replace" | "append" | "prepend";
+
 // Loads the real image thumbnail for a grid cell via its signed URL.
 // Falls back to the placeholder icon while loading or if the object is missing.
 function MediaThumbnail({ media }: { media: MediaFile }) {
@@ -117,22 +121,33 @@ export default function MediaGalleryPage() {
   const [mediaFiles, setMediaFiles] = useState<MediaFile[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [page, setPage] = useState(1);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [prevCursor, setPrevCursor] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(false);
+  const [hasNewer, setHasNewer] = useState(false);
   const [total, setTotal] = useState(0);
+  const [jumpDate, setJumpDate] = useState("");
   const [filter, setFilter] = useState<FileTypeFilter>("all");
   const [selectedMedia, setSelectedMedia] = useState<MediaFile | null>(null);
   const [mediaUrl, setMediaUrl] = useState<string | null>(null);
 
-  const fetchMedia = useCallback(async (pageNum: number, fileType: FileTypeFilter, append = false) => {
+  const fetchMedia = useCallback(async (
+    cursor: string | null,
+    fileType: FileTypeFilter,
+    date: string,
+    mode: FetchMode = "replace"
+  ) => {
     setIsLoading(true);
     setError(null);
 
     try {
-      const params = new URLSearchParams({
-        page: pageNum.toString(),
-        page_size: "24",
-      });
+      const params = new URLSearchParams({ limit: "24" });
+
+      if (cursor) {
+        params.set("cursor", cursor);
+      } else if (date) {
+        params.set("date", date);
+      }
 
       if (fileType !== "all") {
         params.set("file_type", fileType);
@@ -143,14 +158,26 @@ export default function MediaGalleryPage() {
 
       const data = await response.json();
 
-      if (append) {
+      if (mode === "append") {
         setMediaFiles((prev) => [...prev, ...data.data]);
+      } else if (mode === "prepend") {
+        setMediaFiles((prev) => [...data.data, ...prev]);
       } else {
         setMediaFiles(data.data);
       }
 
-      setTotal(data.total);
-      setHasMore(data.has_more);
+      if (mode !== "prepend") {
+        setNextCursor(data.next_cursor);
+        setHasMore(data.has_more);
+      }
+      if (mode !== "append") {
+        if (data.prev_cursor) setPrevCursor(data.prev_cursor);
+        setHasNewer(data.has_newer);
+      }
+      // Only the first page of a list carries a total
+      if (data.total !== null) {
+        setTotal(data.total);
+      }
     } catch (err) {
       setError((err as Error).message);
     } finally {
@@ -159,16 +186,24 @@ export default function MediaGalleryPage() {
   }, []);
 
   useEffect(() => {
-    setPage(1);
-    fetchMedia(1, filter);
-  }, [filter, fetchMedia]);
-
-  const loadMore = () => {
-    const nextPage = page + 1;
-    setPage(nextPage);
-    fetchMedia(nextPage, filter, true);
+    setPrevCursor(null);
+    fetchMedia(null, filter, jumpDate);
+  }, [filter, jumpDate, fetchMedia]);
+
+  const loadMore = useCallback(() => {
+    if (nextCursor) {
+      fetchMedia(nextCursor, filter, jumpDate, "append");
+    }
+  }, [nextCursor, filter, jumpDate, fetchMedia]);
+
+  const loadNewer = () => {
+    if (prevCursor) {
+      fetchMedia(prevCursor, filter, jumpDate, "prepend");
+    }
   };
 
+  const sentinelRef = useInfiniteScroll(loadMore, { hasMore, isLoading });
+
   const openViewer = async (media: MediaFile) => {
     setSelectedMedia(media);
     try {
@@ -239,22 +274,33 @@ export default function MediaGalleryPage() {
           </p>
         </div>
 
-        {/* Filter Tabs */}
-        <div className="flex items-center gap-2 bg-slate-100 p-1 rounded-xl">
-          {filterOptions.map((option) => (
-            <button
-              key={option.value}
-              onClick={() => setFilter(option.value)}
-              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-                filter === option.value
-                  ? "bg-white text-teal-600 shadow-sm"
-                  : "text-slate-600 hover:text-slate-800"
-              }`}
-            >
-              {option.icon}
-              {option.label}
-            </button>
-          ))}
+        <div className="flex items-center gap-4">
+          {/* Jump to date */}
+          <input
+            type="date"
+            value={jumpDate}
+            onChange={(e) => setJumpDate(e.target.value)}
+            title="Jump to date"
+            className="px-3 py-2 border border-slate-200 rounded-xl text-sm text-slate-600 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+          />
+
+          {/* Filter Tabs */}
+          <div className="flex items-center gap-2 bg-slate-100 p-1 rounded-xl">
+            {filterOptions.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setFilter(option.value)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  filter === option.value
+                    ? "bg-white text-teal-600 shadow-sm"
+                    : "text-slate-600 hover:text-slate-800"
+                }`}
+              >
+                {option.icon}
+                {option.label}
+              </button>
+            ))}
+          </div>
         </div>
       </div>
 
@@ -285,6 +331,20 @@ export default function MediaGalleryPage() {
         </div>
       )}
 
+      {/* Newer files above a jump date, or synced since the gallery loaded */}
+      {hasNewer && mediaFiles.length > 0 && (
+        <div className="flex justify-center mb-4">
+          <button
+            onClick={loadNewer}
+            disabled={isLoading}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-teal-600 bg-teal-50 rounded-xl hover:bg-teal-100 disabled:opacity-50 transition-colors"
+          >
+            <ChevronUp className="h-4 w-4" />
+            Show newer files
+          </button>
+        </div>
+      )}
+
       {/* Media Grid — grouped into date sections */}
       {mediaFiles.length > 0 && (
         <div className="space-y-8">
@@ -344,23 +404,11 @@ export default function MediaGalleryPage() {
         </div>
       )}
 
-      {/* Load More */}
-      {hasMore && (
+      {/* Infinite scroll */}
+      {hasMore && !isLoading && <div ref={sentinelRef} className="h-1" />}
+      {isLoading && mediaFiles.length > 0 && (
         <div className="flex justify-center mt-8">
-          <button
-            onClick={loadMore}
-            disabled={isLoading}
-            className="flex items-center gap-2 px-6 py-3 bg-teal-500 text-white rounded-xl font-medium hover:bg-teal-600 disabled:opacity-50 transition-colors"
-          >
-            {isLoading ? (
-              <>
-                <Loader2 className="h-4 w-4 animate-spin" />
-                Loading...
-              </>
-            ) : (
-              "Load More"
-            )}
-          </button>
+          <Loader2 className="h-6 w-6 text-teal-500 animate-spin" />
         </div>
       )}
 
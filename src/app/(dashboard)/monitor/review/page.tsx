@@ -0,0 +1,27 @@
+import { Suspense } from "react";
+import { Navigation } from "@/components/layout/Navigation";
+import { ReviewQueue } from "@/components/monitor/ReviewQueue";
+import { LoadingScreen } from "@/components/ui/Spinner";
+
+export const metadata = {
+  title: "Review Queue - 3CX BackupWiz",
+};
+
+export default function ReviewQueuePage() {
+  return (
+    <div className="flex flex-col">
+      <Navigation breadcrumbs={[{ label: "Multi-Chat Monitor", href: "/monitor" }, { label: "Review Queue" }]} />
+
+      <div className="bg-white rounded-lg shadow mb-4 p-4">
+        <h1 className="text-xl font-bold text-gray-900">Review Queue</h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Messages flagged by your policy rules. Rules are managed in Settings.
+        </p>
+      </div>
+
+      <Suspense fallback={<LoadingScreen message="Loading review queue..." />}>
+        <ReviewQueue />
+      </Suspense>
+    </div>
+  );
+}
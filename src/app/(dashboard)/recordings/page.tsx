@@ -1,8 +1,9 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef } from "react";
-import { Phone, PhoneIncoming, PhoneOutgoing, Download, Play, Pause, Search, Loader2, Square } from "lucide-react";
+import { Phone, PhoneIncoming, PhoneOutgoing, Download, Play, Pause, Search, Loader2, Square, ChevronUp } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
 
 interface CallRecording {
   id: string;
@@ -20,13 +21,19 @@ interface CallRecording {
 
 type DirectionFilter = "all" | "inbound" | "outbound" | "internal";
 
+// replace: fresh list (filters or jump date changed); append: older rows; prepend: newer rows
+type FetchMode = "replace" | "append" | "prepend";
+
 export default function RecordingsPage() {
   const [recordings, setRecordings] = useState<CallRecording[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [page, setPage] = useState(1);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [prevCursor, setPrevCursor] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(false);
+  const [hasNewer, setHasNewer] = useState(false);
   const [total, setTotal] = useState(0);
+  const [jumpDate, setJumpDate] = useState("");
   const [filter, setFilter] = useState<DirectionFilter>("all");
   const [searchQuery, setSearchQuery] = useState("");
   const [playingId, setPlayingId] = useState<string | null>(null);
@@ -34,15 +41,24 @@ export default function RecordingsPage() {
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const [audioUrls, setAudioUrls] = useState<Record<string, string>>({});
 
-  const fetchRecordings = useCallback(async (pageNum: number, direction: DirectionFilter, search: string, append = false) => {
+  const fetchRecordings = useCallback(async (
+    cursor: string | null,
+    direction: DirectionFilter,
+    search: string,
+    date: string,
+    mode: FetchMode = "replace"
+  ) => {
     setIsLoading(true);
     setError(null);
 
     try {
-      const params = new URLSearchParams({
-        page: pageNum.toString(),
-        page_size: "20",
-      });
+      const params = new URLSearchParams({ limit: "20" });
+
+      if (cursor) {
+        params.set("cursor", cursor);
+      } else if (date) {
+        params.set("date", date);
+      }
 
       if (direction !== "all") {
         params.set("direction", direction);
@@ -59,14 +75,26 @@ export default function RecordingsPage() {
         throw new Error(data.error || "Failed to fetch recordings");
       }
 
-      if (append) {
+      if (mode === "append") {
         setRecordings((prev) => [...prev, ...data.data]);
+      } else if (mode === "prepend") {
+        setRecordings((prev) => [...data.data, ...prev]);
       } else {
         setRecordings(data.data);
       }
 
-      setTotal(data.total);
-      setHasMore(data.has_more);
+      if (mode !== "prepend") {
+        setNextCursor(data.next_cursor);
+        setHasMore(data.has_more);
+      }
+      if (mode !== "append") {
+        if (data.prev_cursor) setPrevCursor(data.prev_cursor);
+        setHasNewer(data.has_newer);
+      }
+      // Only the first page of a list carries a total
+      if (data.total !== null) {
+        setTotal(data.total);
+      }
     } catch (err) {
       setError((err as Error).message);
     } finally {
@@ -75,9 +103,9 @@ export default function RecordingsPage() {
   }, []);
 
   useEffect(() => {
-    setPage(1);
-    fetchRecordings(1, filter, searchQuery);
-  }, [filter, searchQuery, fetchRecordings]);
+    setPrevCursor(null);
+    fetchRecordings(null, filter, searchQuery, jumpDate);
+  }, [filter, searchQuery, jumpDate, fetchRecordings]);
 
   // Clean up audio on unmount
   useEffect(() => {
@@ -165,12 +193,20 @@ export default function RecordingsPage() {
     document.body.removeChild(link);
   };
 
-  const loadMore = () => {
-    const nextPage = page + 1;
-    setPage(nextPage);
-    fetchRecordings(nextPage, filter, searchQuery, true);
+  const loadMore = useCallback(() => {
+    if (nextCursor) {
+      fetchRecordings(nextCursor, filter, searchQuery, jumpDate, "append");
+    }
+  }, [nextCursor, filter, searchQuery, jumpDate, fetchRecordings]);
+
+  const loadNewer = () => {
+    if (prevCursor) {
+      fetchRecordings(prevCursor, filter, searchQuery, jumpDate, "prepend");
+    }
   };
 
+  const sentinelRef = useInfiniteScroll(loadMore, { hasMore, isLoading });
+
   const formatDuration = (seconds: number | null): string => {
     if (!seconds) return "--:--";
     const mins = Math.floor(seconds / 60);
@@ -227,6 +263,15 @@ export default function RecordingsPage() {
             />
           </div>
 
+          {/* Jump to date */}
+          <input
+            type="date"
+            value={jumpDate}
+            onChange={(e) => setJumpDate(e.target.value)}
+            title="Jump to date"
+            className="px-3 py-2 border border-slate-200 rounded-xl text-sm text-slate-600 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+          />
+
           {/* Filter Tabs */}
           <div className="flex items-center gap-1 bg-slate-100 p-1 rounded-xl">
             {filterOptions.map((option) => (
@@ -273,6 +318,20 @@ export default function RecordingsPage() {
         </div>
       )}
 
+      {/* Newer recordings above a jump date, or synced since the list loaded */}
+      {hasNewer && recordings.length > 0 && (
+        <div className="flex justify-center mb-4">
+          <button
+            onClick={loadNewer}
+            disabled={isLoading}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-teal-600 bg-teal-50 rounded-xl hover:bg-teal-100 disabled:opacity-50 transition-colors"
+          >
+            <ChevronUp className="h-4 w-4" />
+            Show newer recordings
+          </button>
+        </div>
+      )}
+
       {/* Recordings Table */}
       {recordings.length > 0 && (
         <div className="bg-white rounded-2xl shadow-lg shadow-slate-200/50 border border-slate-200 overflow-hidden">
@@ -366,23 +425,11 @@ export default function RecordingsPage() {
         </div>
       )}
 
-      {/* Load More */}
-      {hasMore && (
+      {/* Infinite scroll */}
+      {hasMore && !isLoading && <div ref={sentinelRef} className="h-1" />}
+      {isLoading && recordings.length > 0 && (
         <div className="flex justify-center mt-8">
-          <button
-            onClick={loadMore}
-            disabled={isLoading}
-            className="flex items-center gap-2 px-6 py-3 bg-teal-500 text-white rounded-xl font-medium hover:bg-teal-600 disabled:opacity-50 transition-colors"
-          >
-            {isLoading ? (
-              <>
-                <Loader2 className="h-4 w-4 animate-spin" />
-                Loading...
-              </>
-            ) : (
-              "Load More"
-            )}
-          </button>
+          <Loader2 className="h-6 w-6 text-teal-500 animate-spin" />
         </div>
       )}
     </div>
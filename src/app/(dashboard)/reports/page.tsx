@@ -34,6 +34,7 @@ interface ReportData {
   report_type: ReportType;
   date_range: { start: string | null; end: string | null };
   generated_at: string;
+  redacted: boolean;
 }
 
 const REPORT_TYPES: { value: ReportType; label: string; icon: React.ReactNode }[] = [
@@ -53,6 +54,7 @@ export default function ReportsPage() {
   const [status, setStatus] = useState("");
   const [extension, setExtension] = useState("");
   const [showFilters, setShowFilters] = useState(false);
+  const [redact, setRedact] = useState(false);
 
   const [isLoading, setIsLoading] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
@@ -75,6 +77,7 @@ export default function ReportsPage() {
       if (direction) params.set("direction", direction);
       if (status) params.set("status", status);
       if (extension) params.set("extension", extension);
+      if (redact) params.set("redact", "true");
 
       const response = await fetch(`/api/reports?${params}`);
       const data = await response.json();
@@ -89,7 +92,7 @@ export default function ReportsPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [reportType, startDate, endDate, direction, status, extension]);
+  }, [reportType, startDate, endDate, direction, status, extension, redact]);
 
   const handleExportPDF = async () => {
     if (!reportData) return;
@@ -118,6 +121,7 @@ export default function ReportsPage() {
     if (direction) params.set("direction", direction);
     if (status) params.set("status", status);
     if (extension) params.set("extension", extension);
+    if (redact) params.set("redact", "true");
 
     window.location.href = `/api/export?${params}`;
   };
@@ -135,6 +139,7 @@ export default function ReportsPage() {
     if (direction) params.set("direction", direction);
     if (status) params.set("status", status);
     if (extension) params.set("extension", extension);
+    if (redact) params.set("redact", "true");
 
     window.location.href = `/api/export?${params}`;
   };
@@ -506,6 +511,17 @@ export default function ReportsPage() {
             {showFilters ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
           </button>
 
+          {/* Masks card numbers, SSNs and customer phone numbers in the report and its exports */}
+          <label className="flex items-center gap-2 px-4 py-2.5 text-sm text-slate-600 bg-slate-100 rounded-xl cursor-pointer">
+            <input
+              type="checkbox"
+              checked={redact}
+              onChange={(e) => setRedact(e.target.checked)}
+              className="rounded border-slate-300 text-teal-600 focus:ring-teal-500"
+            />
+            Redact PII
+          </label>
+
           {/* Generate Button */}
           <button
             onClick={generateReport}
@@ -597,6 +613,7 @@ export default function ReportsPage() {
             </p>
             <p className="text-xs text-slate-400 mt-1">
               Generated: {format(new Date(reportData.generated_at), "MMM d, yyyy HH:mm")}
+              {reportData.redacted && " · Personal data redacted"}
             </p>
           </div>
         )}
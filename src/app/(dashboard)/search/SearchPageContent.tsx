@@ -5,31 +5,38 @@ import { useSearchParams } from "next/navigation";
 import { SearchBar } from "@/components/search/SearchBar";
 import { SearchFiltersPanel, type SearchFilters } from "@/components/search/SearchFilters";
 import { SearchResults } from "@/components/search/SearchResults";
+import { SavedSearchesPanel, type SavedSearchListItem } from "@/components/search/SavedSearchesPanel";
 import { Search as SearchIcon } from "lucide-react";
-import type { MessageWithMedia, Extension } from "@/types";
+import type { Extension } from "@/types";
+import type { SearchFacets, SearchHit, SearchResultType } from "@/lib/search";
+import type { SavedSearchFilters } from "@/lib/saved-searches";
 
 export function SearchPageContent() {
   const searchParams = useSearchParams();
   const initialQuery = searchParams.get("q") || "";
+  const initialSavedId = searchParams.get("saved");
 
   const [query, setQuery] = useState(initialQuery);
-  const [results, setResults] = useState<MessageWithMedia[]>([]);
+  const [results, setResults] = useState<SearchHit[]>([]);
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [selectedType, setSelectedType] = useState<SearchResultType | null>(null);
   const [totalCount, setTotalCount] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
-  const [page, setPage] = useState(1);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(false);
   const [extensions, setExtensions] = useState<Extension[]>([]);
   const [filters, setFilters] = useState<SearchFilters>({
     startDate: "",
     endDate: "",
-    sender: "",
+    extension: "",
     hasMedia: null,
     conversationId: "",
     channelType: "",
   });
+  const [activeSavedId, setActiveSavedId] = useState<string | null>(null);
 
-  // Fetch extensions for sender filter dropdown
+  // Fetch extensions for the extension filter dropdown
   useEffect(() => {
     fetch("/api/extensions")
       .then((res) => res.json())
@@ -37,16 +44,18 @@ export function SearchPageContent() {
       .catch(console.error);
   }, []);
 
-  const performSearch = useCallback(async (searchQuery: string, pageNum: number = 1) => {
-    const hasFilters = filters.startDate || filters.endDate || filters.channelType;
+  const performSearch = useCallback(async (searchQuery: string, cursor: string | null = null) => {
+    const hasFilters =
+      filters.startDate || filters.endDate || filters.channelType || filters.extension || filters.conversationId;
     if (!hasFilters && (!searchQuery || searchQuery.trim().length < 2)) {
       setResults([]);
+      setFacets(null);
       setTotalCount(0);
       setHasMore(false);
       return;
     }
 
-    if (pageNum === 1) {
+    if (!cursor) {
       setIsLoading(true);
     } else {
       setIsLoadingMore(true);
@@ -57,12 +66,13 @@ export function SearchPageContent() {
       if (searchQuery && searchQuery.trim()) {
         params.set("q", searchQuery);
       }
-      params.set("page", String(pageNum));
+      if (cursor) params.set("cursor", cursor);
       params.set("limit", "50");
 
       if (filters.startDate) params.set("start_date", filters.startDate);
       if (filters.endDate) params.set("end_date", filters.endDate);
-      if (filters.sender) params.set("sender", filters.sender);
+      if (selectedType) params.set("types", selectedType);
+      if (filters.extension) params.set("extension", filters.extension);
       if (filters.hasMedia !== null) params.set("has_media", String(filters.hasMedia));
       if (filters.conversationId) params.set("conversation_id", filters.conversationId);
       if (filters.channelType) params.set("channel_type", filters.channelType);
@@ -72,32 +82,35 @@ export function SearchPageContent() {
 
       if (response.ok) {
         const newResults = data.data || [];
-        if (pageNum === 1) {
+        if (!cursor) {
           setResults(newResults);
+          // Only the first page carries the total and facets
+          setTotalCount(data.total || 0);
+          setFacets(data.facets || null);
         } else {
           setResults((prev) => [...prev, ...newResults]);
         }
-        setTotalCount(data.total || 0);
-        setPage(pageNum);
+        setNextCursor(data.next_cursor);
         setHasMore(data.has_more || false);
       } else {
         console.error("Search error:", data.error);
-        if (pageNum === 1) setResults([]);
+        if (!cursor) setResults([]);
       }
     } catch (error) {
       console.error("Search failed:", error);
-      if (pageNum === 1) setResults([]);
+      if (!cursor) setResults([]);
     } finally {
       setIsLoading(false);
       setIsLoadingMore(false);
     }
-  }, [filters]);
+  }, [filters, selectedType]);
 
-  // Search when query or filters change (reset to page 1)
+  // Search when the query, filters or result type change (back to the top hits)
   useEffect(() => {
-    const hasFilters = filters.startDate || filters.endDate || filters.channelType;
+    const hasFilters =
+      filters.startDate || filters.endDate || filters.channelType || filters.extension || filters.conversationId;
     if (query || hasFilters) {
-      performSearch(query, 1);
+      performSearch(query);
     }
   }, [query, filters, performSearch]);
 
@@ -110,14 +123,51 @@ export function SearchPageContent() {
 
   const handleSearch = (newQuery: string) => {
     setQuery(newQuery);
+    setActiveSavedId(null);
   };
 
-  const handleLoadMore = () => {
-    if (!isLoadingMore && hasMore) {
-      performSearch(query, page + 1);
-    }
+  const handleFiltersChange = (newFilters: SearchFilters) => {
+    setFilters(newFilters);
+    setActiveSavedId(null);
+  };
+
+  const handleTypeChange = (type: SearchResultType | null) => {
+    setSelectedType(type);
+    setActiveSavedId(null);
   };
 
+  const applySavedSearch = useCallback((search: SavedSearchListItem) => {
+    const saved = search.filters || {};
+    setQuery(search.query);
+    setFilters({
+      startDate: saved.start_date || "",
+      endDate: saved.end_date || "",
+      extension: saved.extension || "",
+      hasMedia: saved.has_media ?? null,
+      conversationId: saved.conversation_id || "",
+      channelType: saved.channel_type || "",
+    });
+    setSelectedType(saved.types?.length === 1 ? saved.types[0] : null);
+    setActiveSavedId(search.id);
+  }, []);
+
+  // The current search in the shape it is saved in
+  const currentSavedFilters: SavedSearchFilters = {
+    ...(selectedType && { types: [selectedType] }),
+    ...(filters.channelType && { channel_type: filters.channelType }),
+    ...(filters.extension && { extension: filters.extension }),
+    ...(filters.hasMedia !== null && { has_media: filters.hasMedia }),
+    ...(filters.conversationId && { conversation_id: filters.conversationId }),
+    ...(filters.startDate && { start_date: filters.startDate }),
+    ...(filters.endDate && { end_date: filters.endDate }),
+  };
+
+  const handleLoadMore = useCallback(() => {
+    if (!isLoadingMore && hasMore && nextCursor) {
+      performSearch(query, nextCursor);
+    }
+  }, [isLoadingMore, hasMore, nextCursor, query, performSearch]);
+
   return (
     <div className="space-y-6 p-6 max-w-7xl mx-auto">
       <div className="flex items-center gap-4">
@@ -125,32 +175,44 @@ export function SearchPageContent() {
           <SearchIcon className="h-8 w-8 text-white" />
         </div>
         <div>
-          <h1 className="text-3xl font-bold text-slate-800">Search Messages</h1>
-          <p className="text-slate-500 mt-1">Search through all archived conversations</p>
+          <h1 className="text-3xl font-bold text-slate-800">Search</h1>
+          <p className="text-slate-500 mt-1">Search messages, calls, voicemails, faxes and extensions</p>
         </div>
       </div>
 
       <SearchBar
-        placeholder="Search messages, names, or content..."
+        placeholder="Search names, numbers, or content..."
         autoFocus
+        value={query}
         onSearch={handleSearch}
       />
 
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
-        <div className="lg:col-span-1">
+        <div className="lg:col-span-1 space-y-4">
+          <SavedSearchesPanel
+            query={query}
+            filters={currentSavedFilters}
+            activeId={activeSavedId}
+            initialSavedId={initialSavedId}
+            onApply={applySavedSearch}
+          />
           <SearchFiltersPanel
             filters={filters}
-            onFiltersChange={setFilters}
+            onFiltersChange={handleFiltersChange}
             extensions={extensions}
+            facets={facets}
           />
         </div>
 
         <div className="lg:col-span-3">
           <SearchResults
             results={results}
+            facets={facets}
             isLoading={isLoading}
             query={query}
             totalCount={totalCount}
+            selectedType={selectedType}
+            onTypeChange={handleTypeChange}
             hasMore={hasMore}
             isLoadingMore={isLoadingMore}
             onLoadMore={handleLoadMore}
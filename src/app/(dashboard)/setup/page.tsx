@@ -6,6 +6,7 @@ import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
 import { Spinner } from "@/components/ui/Spinner";
+import type { ThreeCXCapabilities } from "@/lib/threecx-schema";
 import {
   Server,
   CheckCircle,
@@ -48,6 +49,7 @@ export default function TenantSetupPage() {
   const [isTestingConnection, setIsTestingConnection] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<"success" | "error" | null>(null);
   const [connectionError, setConnectionError] = useState<string | null>(null);
+  const [detectedSchema, setDetectedSchema] = useState<ThreeCXCapabilities | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isConfigured, setIsConfigured] = useState(false);
   const [installStatus, setInstallStatus] = useState<"idle" | "installing" | "success" | "error">("idle");
@@ -98,6 +100,7 @@ export default function TenantSetupPage() {
     setIsTestingConnection(true);
     setConnectionStatus(null);
     setConnectionError(null);
+    setDetectedSchema(null);
     try {
       const response = await fetch("/api/tenant/test-connection", {
         method: "POST",
@@ -113,6 +116,7 @@ export default function TenantSetupPage() {
       const data = await response.json();
       if (response.ok) {
         setConnectionStatus("success");
+        setDetectedSchema(data.capabilities ?? null);
       } else {
         setConnectionStatus("error");
         setConnectionError(data.error || "Connection failed");
@@ -144,6 +148,7 @@ export default function TenantSetupPage() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
+          tenant_id: currentTenant?.tenant_id,
           host: formData.threecx_host,
           ssh_port: parseInt(formData.ssh_port),
           ssh_user: formData.ssh_user,
@@ -450,6 +455,20 @@ export default function TenantSetupPage() {
                 <p className="text-sm text-red-700">{connectionError}</p>
               </div>
             )}
+            {detectedSchema && (
+              <div className="mt-3 p-3 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-600">
+                <p className="font-medium text-slate-800">
+                  {detectedSchema.label}
+                  {detectedSchema.threecx_version && <> · {detectedSchema.threecx_version}</>}
+                </p>
+                <p className="mt-1">
+                  Call history: {detectedSchema.call_records ? "yes" : "not found"} · Recordings:{" "}
+                  {detectedSchema.recordings ? "yes" : "not found"} · Voicemail:{" "}
+                  {detectedSchema.voicemails ? "yes" : "not found"} · Chat:{" "}
+                  {detectedSchema.chat_views.length > 0 ? "yes" : "not found"}
+                </p>
+              </div>
+            )}
           </div>
         </div>
 
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { logAgentAction } from "@/lib/audit";
+import { downloadFile, getSignedUrl } from "@/lib/storage/spaces";
+import type { DiagnosticsFile } from "@/lib/agent-diagnostics";
+
+export const dynamic = "force-dynamic";
+
+// Files are previewed from their end (logs are newest last)
+const PREVIEW_BYTES = 512 * 1024;
+const DOWNLOAD_URL_TTL_SECONDS = 15 * 60;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// One bundle with a download URL for its zip; ?file=<name> returns that
+// file's content for browsing instead
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (context.role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: bundle } = await supabase
+      .from("agent_diagnostics")
+      .select("*, agent:sync_agents(id, hostname, agent_version)")
+      .eq("id", id)
+      .single();
+
+    if (!bundle) {
+      return NextResponse.json({ error: "Diagnostics bundle not found" }, { status: 404 });
+    }
+
+    const fileName = request.nextUrl.searchParams.get("file");
+
+    if (fileName) {
+      if (bundle.status !== "uploaded") {
+        return NextResponse.json({ error: `Bundle is ${bundle.status}` }, { status: 409 });
+      }
+
+      const file = ((bundle.files || []) as DiagnosticsFile[]).find((f) => f.name === fileName);
+      if (!file) {
+        return NextResponse.json({ error: "File not found in bundle" }, { status: 404 });
+      }
+
+      const data = await downloadFile(file.storage_path);
+      const truncated = data.length > PREVIEW_BYTES;
+
+      await logAgentAction("agent_diagnostics.downloaded", bundle.id, {
+        tenantId: bundle.tenant_id,
+        userId: context.userId,
+        metadata: { file: file.name },
+        request,
+      });
+
+      return NextResponse.json({
+        name: file.name,
+        size: data.length,
+        truncated,
+        content: data.subarray(truncated ? data.length - PREVIEW_BYTES : 0).toString("utf8"),
+      });
+    }
+
+    let downloadUrl: string | null = null;
+    if (bundle.status === "uploaded" && bundle.bundle_path) {
+      downloadUrl = await getSignedUrl(bundle.bundle_path, DOWNLOAD_URL_TTL_SECONDS);
+
+      await logAgentAction("agent_diagnostics.downloaded", bundle.id, {
+        tenantId: bundle.tenant_id,
+        userId: context.userId,
+        metadata: { file: "bundle" },
+        request,
+      });
+    }
+
+    return NextResponse.json({ bundle, download_url: downloadUrl });
+  } catch (error) {
+    console.error("Error in agent diagnostics bundle API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { logAgentAction } from "@/lib/audit";
+import { queueAgentCommand } from "@/lib/agent-control";
+
+export const dynamic = "force-dynamic";
+
+// Diagnostics bundles, newest first; ?tenant_id= narrows to one tenant
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (context.role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const tenantId = request.nextUrl.searchParams.get("tenant_id");
+    const supabase = createAdminClient();
+
+    let query = supabase
+      .from("agent_diagnostics")
+      .select("*, agent:sync_agents(id, hostname, agent_version)")
+      .order("created_at", { ascending: false })
+      .limit(50);
+
+    if (tenantId) {
+      query = query.eq("tenant_id", tenantId);
+    }
+
+    const { data: bundles, error } = await query;
+
+    if (error) {
+      console.error("Error fetching agent diagnostics:", error);
+      return NextResponse.json({ error: "Failed to fetch diagnostics" }, { status: 500 });
+    }
+
+    return NextResponse.json({ bundles: bundles || [] });
+  } catch (error) {
+    console.error("Error in agent diagnostics API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Ask a tenant's agent for a diagnostics bundle: { tenant_id, agent_id? }
+// Without agent_id the agent that reported most recently is used.
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (context.role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    if (typeof body.tenant_id !== "string" || !body.tenant_id) {
+      return NextResponse.json({ error: "tenant_id is required" }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+
+    let agentQuery = supabase
+      .from("sync_agents")
+      .select("id, tenant_id")
+      .eq("tenant_id", body.tenant_id)
+      .order("last_heartbeat_at", { ascending: false, nullsFirst: false })
+      .limit(1);
+
+    if (typeof body.agent_id === "string" && body.agent_id) {
+      agentQuery = agentQuery.eq("id", body.agent_id);
+    }
+
+    const { data: agents } = await agentQuery;
+    const agent = agents?.[0];
+
+    if (!agent) {
+      return NextResponse.json({ error: "No sync agent installed for this tenant" }, { status: 404 });
+    }
+
+    const command = await queueAgentCommand(supabase, agent, "collect_diagnostics", {}, context.userId);
+
+    if (!command) {
+      return NextResponse.json({ error: "Failed to request diagnostics" }, { status: 500 });
+    }
+
+    await logAgentAction("agent.command_queued", agent.id, {
+      tenantId: agent.tenant_id,
+      userId: context.userId,
+      newValues: { command_id: command.id, command: command.command, params: {} },
+      request,
+    });
+
+    return NextResponse.json({ command }, { status: 201 });
+  } catch (error) {
+    console.error("Error requesting agent diagnostics:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
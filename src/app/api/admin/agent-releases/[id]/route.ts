@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { logAgentAction } from "@/lib/audit";
+import { isReleaseStatus, RELEASE_STATUSES } from "@/lib/agent-control";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Move a release through its rollout: { status?, rollout_percent? }
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (context.role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const updates: Record<string, unknown> = {};
+
+    if (body.status !== undefined) {
+      if (!isReleaseStatus(body.status)) {
+        return NextResponse.json(
+          { error: `status must be one of ${RELEASE_STATUSES.join(", ")}` },
+          { status: 400 }
+        );
+      }
+      updates.status = body.status;
+    }
+
+    if (body.rollout_percent !== undefined) {
+      const percent = Number(body.rollout_percent);
+      if (!Number.isInteger(percent) || percent < 0 || percent > 100) {
+        return NextResponse.json({ error: "rollout_percent must be 0-100" }, { status: 400 });
+      }
+      updates.rollout_percent = percent;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+    }
+
+    // A complete release is offered to every agent
+    if (updates.status === "complete") {
+      updates.rollout_percent = 100;
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: existing } = await supabase
+      .from("agent_releases")
+      .select("status, rollout_percent")
+      .eq("id", id)
+      .single();
+
+    if (!existing) {
+      return NextResponse.json({ error: "Release not found" }, { status: 404 });
+    }
+
+    const { data: release, error } = await supabase
+      .from("agent_releases")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error || !release) {
+      console.error("Error updating agent release:", error);
+      return NextResponse.json({ error: "Failed to update agent release" }, { status: 500 });
+    }
+
+    await logAgentAction("agent_release.updated", id, {
+      userId: context.userId,
+      oldValues: existing,
+      newValues: updates,
+      request,
+    });
+
+    return NextResponse.json({ release });
+  } catch (error) {
+    console.error("Error updating agent release:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
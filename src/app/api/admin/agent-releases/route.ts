@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { logAgentAction } from "@/lib/audit";
+
+export const dynamic = "force-dynamic";
+
+const VERSION_PATTERN = /^\d+\.\d+\.\d+([-+][0-9A-Za-z.-]+)?$/;
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+// Every agent release, newest first
+export async function GET() {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (context.role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: releases, error } = await supabase
+      .from("agent_releases")
+      .select("*")
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching agent releases:", error);
+      return NextResponse.json({ error: "Failed to fetch agent releases" }, { status: 500 });
+    }
+
+    return NextResponse.json({ releases: releases || [] });
+  } catch (error) {
+    console.error("Error in agent releases API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Register a release as a draft; it reaches no agent until a rollout starts
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (context.role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const version = typeof body.version === "string" ? body.version.trim() : "";
+    const downloadUrl = typeof body.download_url === "string" ? body.download_url.trim() : "";
+    const sha256 = typeof body.sha256 === "string" ? body.sha256.trim().toLowerCase() : "";
+
+    if (!VERSION_PATTERN.test(version)) {
+      return NextResponse.json({ error: "version must look like 1.2.3" }, { status: 400 });
+    }
+
+    if (!downloadUrl.startsWith("https://")) {
+      return NextResponse.json({ error: "download_url must be an https URL" }, { status: 400 });
+    }
+
+    if (!SHA256_PATTERN.test(sha256)) {
+      return NextResponse.json({ error: "sha256 must be a hex SHA-256 checksum" }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: release, error } = await supabase
+      .from("agent_releases")
+      .insert({
+        version,
+        download_url: downloadUrl,
+        sha256,
+        changelog: typeof body.changelog === "string" ? body.changelog : null,
+        created_by: context.userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === "23505") {
+        return NextResponse.json({ error: `Release ${version} already exists` }, { status: 409 });
+      }
+      console.error("Error creating agent release:", error);
+      return NextResponse.json({ error: "Failed to create agent release" }, { status: 500 });
+    }
+
+    await logAgentAction("agent_release.created", release.id, {
+      userId: context.userId,
+      newValues: { version, download_url: downloadUrl, sha256 },
+      request,
+    });
+
+    return NextResponse.json({ release }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating agent release:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
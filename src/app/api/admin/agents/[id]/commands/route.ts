@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { logAgentAction } from "@/lib/audit";
+import {
+  AGENT_COMMANDS,
+  isAgentCommand,
+  queueAgentCommand,
+  validateCommandParams,
+} from "@/lib/agent-control";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Command history for one agent
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (context.role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: commands, error } = await supabase
+      .from("agent_commands")
+      .select("*")
+      .eq("agent_id", id)
+      .order("created_at", { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error("Error fetching agent commands:", error);
+      return NextResponse.json({ error: "Failed to fetch agent commands" }, { status: 500 });
+    }
+
+    return NextResponse.json({ commands: commands || [] });
+  } catch (error) {
+    console.error("Error in agent commands API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Queue a command for the agent's next heartbeat
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (context.role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    if (!isAgentCommand(body.command)) {
+      return NextResponse.json(
+        { error: `command must be one of ${AGENT_COMMANDS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const validated = validateCommandParams(body.command, body.params);
+    if ("error" in validated) {
+      return NextResponse.json({ error: validated.error }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: agent } = await supabase
+      .from("sync_agents")
+      .select("id, tenant_id")
+      .eq("id", id)
+      .single();
+
+    if (!agent) {
+      return NextResponse.json({ error: "Agent not found" }, { status: 404 });
+    }
+
+    const command = await queueAgentCommand(supabase, agent, body.command, validated.params, context.userId);
+
+    if (!command) {
+      return NextResponse.json({ error: "Failed to queue command" }, { status: 500 });
+    }
+
+    await logAgentAction("agent.command_queued", agent.id, {
+      tenantId: agent.tenant_id,
+      userId: context.userId,
+      newValues: { command_id: command.id, command: command.command, params: validated.params },
+      request,
+    });
+
+    return NextResponse.json({ command }, { status: 201 });
+  } catch (error) {
+    console.error("Error queueing agent command:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import {
+  AGENT_CONFIG_COLUMNS,
+  AGENT_INSTANCE_CONFIG_COLUMNS,
+  AGENT_OFFLINE_AFTER_MS,
+  buildAgentConfig,
+  FleetAgent,
+  getOfferedReleases,
+  pickTargetRelease,
+} from "@/lib/agent-control";
+
+export const dynamic = "force-dynamic";
+
+// Recent commands shown per agent in the fleet view
+const COMMANDS_PER_AGENT = 5;
+
+// Every installed sync agent with its version drift, config state and recent commands
+export async function GET() {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (context.role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: agents, error } = await supabase
+      .from("sync_agents")
+      .select(
+        `id, tenant_id, hostname, ip_address, os_info, agent_version, status, last_heartbeat_at, last_ingest_at, last_sync_at, last_error, applied_config_hash, created_at, tenant:tenants(id, name, slug, ${AGENT_CONFIG_COLUMNS}), pbx_instance:pbx_instances(id, name, ${AGENT_INSTANCE_CONFIG_COLUMNS})`
+      )
+      .order("last_heartbeat_at", { ascending: false, nullsFirst: false });
+
+    if (error) {
+      console.error("Error fetching sync agents:", error);
+      return NextResponse.json({ error: "Failed to fetch sync agents" }, { status: 500 });
+    }
+
+    const agentIds = (agents || []).map((a) => a.id);
+    const { data: commands } = agentIds.length > 0
+      ? await supabase
+          .from("agent_commands")
+          .select("id, agent_id, command, params, status, result, error, created_at, delivered_at, completed_at")
+          .in("agent_id", agentIds)
+          .order("created_at", { ascending: false })
+          .limit(agentIds.length * 20)
+      : { data: [] };
+
+    const releases = await getOfferedReleases(supabase);
+    const offlineBefore = Date.now() - AGENT_OFFLINE_AFTER_MS;
+
+    const fleet = (agents || []).map((agent): FleetAgent => {
+      const tenant = (Array.isArray(agent.tenant) ? agent.tenant[0] : agent.tenant) as Record<string, unknown> | null;
+      const instance = (
+        Array.isArray(agent.pbx_instance) ? agent.pbx_instance[0] : agent.pbx_instance
+      ) as Record<string, unknown> | null;
+      const target = pickTargetRelease(releases, agent.id);
+      const { hash } = buildAgentConfig({ ...(tenant || {}), ...(instance || {}) });
+
+      return {
+        id: agent.id,
+        tenant: tenant ? { id: String(tenant.id), name: String(tenant.name), slug: String(tenant.slug) } : null,
+        pbx_instance: instance ? { id: String(instance.id), name: String(instance.name) } : null,
+        hostname: agent.hostname,
+        ip_address: agent.ip_address,
+        os_info: agent.os_info,
+        agent_version: agent.agent_version,
+        target_version: target?.version ?? null,
+        version_drift: !!target && target.version !== agent.agent_version,
+        config_applied: agent.applied_config_hash === hash,
+        status: agent.status,
+        online: !!agent.last_heartbeat_at && new Date(agent.last_heartbeat_at).getTime() >= offlineBefore,
+        last_heartbeat_at: agent.last_heartbeat_at,
+        last_ingest_at: agent.last_ingest_at,
+        last_sync_at: agent.last_sync_at,
+        last_error: agent.last_error,
+        created_at: agent.created_at,
+        recent_commands: (commands || [])
+          .filter((c) => c.agent_id === agent.id)
+          .slice(0, COMMANDS_PER_AGENT),
+      };
+    });
+
+    return NextResponse.json({ agents: fleet });
+  } catch (error) {
+    console.error("Error in sync agents API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { logApiKeyAction } from "@/lib/audit";
+import { API_KEY_COLUMNS } from "@/lib/api-keys";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Revoke a key. Revoked keys stay listed so their usage history remains attributable.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: existing } = await supabase
+      .from("api_keys")
+      .select(API_KEY_COLUMNS)
+      .eq("id", id)
+      .eq("tenant_id", context.tenantId)
+      .single();
+
+    if (!existing) {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 });
+    }
+
+    if (existing.revoked_at) {
+      return NextResponse.json({ api_key: existing });
+    }
+
+    const { data: apiKey, error } = await supabase
+      .from("api_keys")
+      .update({ revoked_at: new Date().toISOString(), revoked_by: context.userId })
+      .eq("id", id)
+      .eq("tenant_id", context.tenantId)
+      .select(API_KEY_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error("Error revoking API key:", error);
+      return NextResponse.json(
+        { error: "Failed to revoke API key" },
+        { status: 500 }
+      );
+    }
+
+    await logApiKeyAction("api_key.revoked", id, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      oldValues: { name: existing.name, key_prefix: existing.key_prefix, scopes: existing.scopes },
+      request,
+    });
+
+    return NextResponse.json({ api_key: apiKey });
+  } catch (error) {
+    console.error("Error revoking API key:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
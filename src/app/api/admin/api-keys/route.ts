@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { logApiKeyAction } from "@/lib/audit";
+import { generateApiKey } from "@/lib/api-auth";
+import { API_KEY_COLUMNS, parseApiKeyScopes } from "@/lib/api-keys";
+
+export const dynamic = "force-dynamic";
+
+const MAX_ACTIVE_KEYS_PER_TENANT = 25;
+const MAX_EXPIRY_DAYS = 365;
+
+export async function GET() {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: keys, error } = await supabase
+      .from("api_keys")
+      .select(
+        "id, tenant_id, user_id, name, key_prefix, scopes, expires_at, last_used_at, last_used_ip, revoked_at, created_at, user:user_profiles!api_keys_user_id_fkey(email, full_name)"
+      )
+      .eq("tenant_id", context.tenantId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching API keys:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch API keys" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ keys: keys || [] });
+  } catch (error) {
+    console.error("Error in API keys API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a key. The full key is only returned here - only its hash is stored.
+// Pass user_id to issue a key that acts as another tenant member, with that
+// member's extension and feature permissions.
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name || name.length > 100) {
+      return NextResponse.json({ error: "Name is required (max 100 characters)" }, { status: 400 });
+    }
+
+    const scopes = parseApiKeyScopes(body.scopes);
+    if (!scopes || scopes.length === 0) {
+      return NextResponse.json({ error: "Choose at least one valid scope" }, { status: 400 });
+    }
+
+    let expiresAt: string | null = null;
+    if (body.expires_in_days !== undefined && body.expires_in_days !== null) {
+      const days = Number(body.expires_in_days);
+      if (!Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS) {
+        return NextResponse.json(
+          { error: `Expiry must be between 1 and ${MAX_EXPIRY_DAYS} days` },
+          { status: 400 }
+        );
+      }
+      expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+    }
+
+    const supabase = createAdminClient();
+
+    const userId = typeof body.user_id === "string" && body.user_id ? body.user_id : context.userId;
+    if (userId !== context.userId) {
+      const { data: membership } = await supabase
+        .from("user_tenants")
+        .select("user_id")
+        .eq("user_id", userId)
+        .eq("tenant_id", context.tenantId)
+        .maybeSingle();
+
+      if (!membership) {
+        return NextResponse.json({ error: "User is not a member of this tenant" }, { status: 400 });
+      }
+    }
+
+    const { count } = await supabase
+      .from("api_keys")
+      .select("id", { count: "exact", head: true })
+      .eq("tenant_id", context.tenantId)
+      .is("revoked_at", null);
+
+    if ((count ?? 0) >= MAX_ACTIVE_KEYS_PER_TENANT) {
+      return NextResponse.json(
+        { error: `A tenant can have at most ${MAX_ACTIVE_KEYS_PER_TENANT} active API keys` },
+        { status: 400 }
+      );
+    }
+
+    const { key, prefix, hash } = generateApiKey();
+
+    const { data: apiKey, error } = await supabase
+      .from("api_keys")
+      .insert({
+        tenant_id: context.tenantId,
+        user_id: userId,
+        name,
+        key_prefix: prefix,
+        key_hash: hash,
+        scopes,
+        expires_at: expiresAt,
+      })
+      .select(API_KEY_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error("Error creating API key:", error);
+      return NextResponse.json(
+        { error: "Failed to create API key" },
+        { status: 500 }
+      );
+    }
+
+    await logApiKeyAction("api_key.created", apiKey.id, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      newValues: { name, scopes, expires_at: expiresAt, key_prefix: prefix, acts_as: userId },
+      request,
+    });
+
+    return NextResponse.json({ api_key: apiKey, key }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating API key:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { logLegalHoldAction } from "@/lib/audit";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Release a legal hold. Holds are never deleted so the history stays auditable.
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    // Only admins can release legal holds
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+
+    if (body.action !== "release") {
+      return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: hold, error: fetchError } = await supabase
+      .from("legal_holds")
+      .select("*")
+      .eq("id", id)
+      .eq("tenant_id", context.tenantId)
+      .single();
+
+    if (fetchError || !hold) {
+      return NextResponse.json({ error: "Legal hold not found" }, { status: 404 });
+    }
+
+    if (hold.status !== "active") {
+      return NextResponse.json({ error: "Legal hold is already released" }, { status: 400 });
+    }
+
+    const now = new Date().toISOString();
+    const { data: released, error } = await supabase
+      .from("legal_holds")
+      .update({
+        status: "released",
+        released_by: context.userId,
+        released_at: now,
+        release_reason: body.reason || null,
+        updated_at: now,
+      })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error releasing legal hold:", error);
+      return NextResponse.json(
+        { error: "Failed to release legal hold" },
+        { status: 500 }
+      );
+    }
+
+    await logLegalHoldAction("legal_hold.released", id, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      oldValues: { status: hold.status },
+      newValues: { status: "released", name: hold.name, release_reason: body.reason || null },
+      request,
+    });
+
+    return NextResponse.json({ hold: released });
+  } catch (error) {
+    console.error("Error releasing legal hold:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { logLegalHoldAction } from "@/lib/audit";
+import { parseHoldList } from "@/lib/legal-holds";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    // Only admins can view legal holds
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const includeReleased = request.nextUrl.searchParams.get("include_released") === "true";
+    const supabase = createAdminClient();
+
+    let query = supabase
+      .from("legal_holds")
+      .select("*")
+      .eq("tenant_id", context.tenantId)
+      .order("created_at", { ascending: false });
+
+    if (!includeReleased) {
+      query = query.eq("status", "active");
+    }
+
+    const { data: holds, error } = await query;
+
+    if (error) {
+      console.error("Error fetching legal holds:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch legal holds" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ holds: holds || [] });
+  } catch (error) {
+    console.error("Error in legal holds API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    // Only admins can place legal holds
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+
+    if (!name) {
+      return NextResponse.json({ error: "Name is required" }, { status: 400 });
+    }
+
+    const extensions = parseHoldList(body.extensions);
+    const conversationIds = parseHoldList(body.conversation_ids);
+    const remoteNumbers = parseHoldList(body.remote_numbers);
+
+    if (conversationIds.some((id) => !UUID_PATTERN.test(id))) {
+      return NextResponse.json({ error: "Invalid conversation ID" }, { status: 400 });
+    }
+
+    const startsAt = body.starts_at ? new Date(body.starts_at) : null;
+    const endsAt = body.ends_at ? new Date(body.ends_at) : null;
+
+    if ((startsAt && isNaN(startsAt.getTime())) || (endsAt && isNaN(endsAt.getTime()))) {
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+    }
+
+    if (startsAt && endsAt && startsAt > endsAt) {
+      return NextResponse.json({ error: "Start date must be before end date" }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: hold, error } = await supabase
+      .from("legal_holds")
+      .insert({
+        tenant_id: context.tenantId,
+        name,
+        reason: body.reason || null,
+        extensions,
+        conversation_ids: conversationIds,
+        remote_numbers: remoteNumbers,
+        starts_at: startsAt?.toISOString() ?? null,
+        ends_at: endsAt?.toISOString() ?? null,
+        status: "active",
+        created_by: context.userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating legal hold:", error);
+      return NextResponse.json(
+        { error: "Failed to create legal hold" },
+        { status: 500 }
+      );
+    }
+
+    await logLegalHoldAction("legal_hold.created", hold.id, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      newValues: {
+        name,
+        reason: hold.reason,
+        extensions,
+        conversation_ids: conversationIds,
+        remote_numbers: remoteNumbers,
+        starts_at: hold.starts_at,
+        ends_at: hold.ends_at,
+      },
+      request,
+    });
+
+    return NextResponse.json({ hold }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating legal hold:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
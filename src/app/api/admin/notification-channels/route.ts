@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { encrypt } from "@/lib/encryption";
+import { logSettingsAction } from "@/lib/audit";
+import { isChatChannel, validateChatWebhookUrl } from "@/lib/notifications/chat";
+
+export const dynamic = "force-dynamic";
+
+// Slack/Teams connections for the current tenant. Webhook URLs are never returned.
+export async function GET() {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: channels, error } = await supabase
+      .from("tenant_notification_channels")
+      .select("id, channel, channel_name, is_active, last_sent_at, last_error, updated_at")
+      .eq("tenant_id", context.tenantId);
+
+    if (error) {
+      console.error("Error fetching notification channels:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch notification channels" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ channels: channels || [] });
+  } catch (error) {
+    console.error("Error in notification channels API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Connect or update a channel. Omit webhook_url to keep the current one.
+export async function PUT(request: NextRequest) {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { channel } = body;
+
+    if (!isChatChannel(channel)) {
+      return NextResponse.json({ error: "Channel must be slack or teams" }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: existing } = await supabase
+      .from("tenant_notification_channels")
+      .select("id, channel_name, is_active")
+      .eq("tenant_id", context.tenantId)
+      .eq("channel", channel)
+      .maybeSingle();
+
+    const updateData: Record<string, unknown> = {
+      tenant_id: context.tenantId,
+      channel,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (body.webhook_url) {
+      const urlResult = validateChatWebhookUrl(channel, body.webhook_url);
+      if ("error" in urlResult) {
+        return NextResponse.json({ error: urlResult.error }, { status: 400 });
+      }
+      updateData.webhook_url_encrypted = encrypt(urlResult.url);
+      updateData.last_error = null;
+    } else if (!existing) {
+      return NextResponse.json({ error: "Webhook URL is required" }, { status: 400 });
+    }
+
+    if (body.channel_name !== undefined) {
+      updateData.channel_name = typeof body.channel_name === "string" ? body.channel_name.trim() || null : null;
+    }
+    if (body.is_active !== undefined) updateData.is_active = !!body.is_active;
+    if (!existing) updateData.created_by = context.userId;
+
+    const { data: saved, error } = await supabase
+      .from("tenant_notification_channels")
+      .upsert(updateData, { onConflict: "tenant_id,channel" })
+      .select("id, channel, channel_name, is_active, last_sent_at, last_error, updated_at")
+      .single();
+
+    if (error) {
+      console.error("Error saving notification channel:", error);
+      return NextResponse.json(
+        { error: "Failed to save notification channel" },
+        { status: 500 }
+      );
+    }
+
+    await logSettingsAction("notification_channel.updated", {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      entityId: saved.id,
+      oldValues: existing ? { channel_name: existing.channel_name, is_active: existing.is_active } : undefined,
+      newValues: {
+        channel,
+        channel_name: saved.channel_name,
+        is_active: saved.is_active,
+        webhook_url_changed: !!body.webhook_url,
+      },
+      request,
+    });
+
+    return NextResponse.json({ channel: saved });
+  } catch (error) {
+    console.error("Error saving notification channel:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Disconnect a channel: DELETE /api/admin/notification-channels?channel=slack
+export async function DELETE(request: NextRequest) {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const channel = request.nextUrl.searchParams.get("channel");
+    if (!isChatChannel(channel)) {
+      return NextResponse.json({ error: "Channel must be slack or teams" }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: removed, error } = await supabase
+      .from("tenant_notification_channels")
+      .delete()
+      .eq("tenant_id", context.tenantId)
+      .eq("channel", channel)
+      .select("id, channel_name")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error removing notification channel:", error);
+      return NextResponse.json(
+        { error: "Failed to remove notification channel" },
+        { status: 500 }
+      );
+    }
+
+    if (!removed) {
+      return NextResponse.json({ error: "Channel not connected" }, { status: 404 });
+    }
+
+    await logSettingsAction("notification_channel.removed", {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      entityId: removed.id,
+      oldValues: { channel, channel_name: removed.channel_name },
+      request,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing notification channel:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
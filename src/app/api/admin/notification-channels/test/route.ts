@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTenantContext } from "@/lib/tenant";
+import { isChatChannel, testChatConnection } from "@/lib/notifications/chat";
+
+export const dynamic = "force-dynamic";
+
+// Post a test message to the tenant's connected Slack or Teams channel
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { channel } = await request.json();
+
+    if (!isChatChannel(channel)) {
+      return NextResponse.json({ error: "Channel must be slack or teams" }, { status: 400 });
+    }
+
+    const result = await testChatConnection(context.tenantId, channel);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error testing notification channel:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
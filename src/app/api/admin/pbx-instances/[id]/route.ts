@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { logPbxInstanceAction } from "@/lib/audit";
+import { buildPbxInstanceUpdate, mirrorPrimaryToTenant, PBX_INSTANCE_COLUMNS } from "@/lib/pbx-instances";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Change a 3CX system's connection, paths or backup toggles. Passwords are
+// only replaced when a new one is given.
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (context.role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = buildPbxInstanceUpdate(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    if (Object.keys(parsed.data).length === 0) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: existing } = await supabase
+      .from("pbx_instances")
+      .select(PBX_INSTANCE_COLUMNS)
+      .eq("id", id)
+      .single();
+
+    if (!existing) {
+      return NextResponse.json({ error: "PBX instance not found" }, { status: 404 });
+    }
+
+    const { data: instance, error } = await supabase
+      .from("pbx_instances")
+      .update({ ...parsed.data, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select(PBX_INSTANCE_COLUMNS)
+      .single();
+
+    if (error?.code === "23505") {
+      return NextResponse.json({ error: "This tenant already has a PBX instance with that name" }, { status: 409 });
+    }
+
+    if (error || !instance) {
+      console.error("Error updating PBX instance:", error);
+      return NextResponse.json({ error: "Failed to update PBX instance" }, { status: 500 });
+    }
+
+    if (existing.is_primary) {
+      await mirrorPrimaryToTenant(supabase, existing.tenant_id, parsed.data);
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { ssh_password, threecx_db_password, ...logged } = parsed.data;
+
+    await logPbxInstanceAction("pbx_instance.updated", id, {
+      tenantId: existing.tenant_id,
+      userId: context.userId,
+      oldValues: Object.fromEntries(Object.keys(logged).map((key) => [key, existing[key as keyof typeof existing]])),
+      newValues: logged,
+      request,
+    });
+
+    return NextResponse.json({ instance });
+  } catch (error) {
+    console.error("Error updating PBX instance:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Remove a 3CX system that was added by mistake. Archived rows keep their
+// instance, so an instance with archived data cannot be deleted; pause its
+// sync instead. Its agent, sync status and queued jobs go with it.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (context.role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: existing } = await supabase
+      .from("pbx_instances")
+      .select("id, tenant_id, name, is_primary")
+      .eq("id", id)
+      .single();
+
+    if (!existing) {
+      return NextResponse.json({ error: "PBX instance not found" }, { status: 404 });
+    }
+
+    if (existing.is_primary) {
+      return NextResponse.json(
+        { error: "The primary PBX instance mirrors the tenant's settings and cannot be deleted" },
+        { status: 409 }
+      );
+    }
+
+    const { error } = await supabase.from("pbx_instances").delete().eq("id", id);
+
+    if (error?.code === "23503") {
+      return NextResponse.json(
+        { error: "This PBX instance has archived data. Disable its sync instead." },
+        { status: 409 }
+      );
+    }
+
+    if (error) {
+      console.error("Error deleting PBX instance:", error);
+      return NextResponse.json({ error: "Failed to delete PBX instance" }, { status: 500 });
+    }
+
+    await logPbxInstanceAction("pbx_instance.deleted", id, {
+      tenantId: existing.tenant_id,
+      userId: context.userId,
+      oldValues: { name: existing.name },
+      request,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting PBX instance:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
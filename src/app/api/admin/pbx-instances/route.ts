@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { logPbxInstanceAction } from "@/lib/audit";
+import { generateAgentToken } from "@/lib/agent-control";
+import { buildPbxInstanceUpdate, PBX_INSTANCE_COLUMNS } from "@/lib/pbx-instances";
+
+export const dynamic = "force-dynamic";
+
+// A tenant's 3CX systems with their installed agents: ?tenant_id=
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (context.role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const tenantId = request.nextUrl.searchParams.get("tenant_id");
+    if (!tenantId) {
+      return NextResponse.json({ error: "tenant_id is required" }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: instances, error } = await supabase
+      .from("pbx_instances")
+      .select(`${PBX_INSTANCE_COLUMNS}, agents:sync_agents(id, hostname, agent_version, status, last_heartbeat_at)`)
+      .eq("tenant_id", tenantId)
+      .order("is_primary", { ascending: false })
+      .order("name");
+
+    if (error) {
+      console.error("Error fetching PBX instances:", error);
+      return NextResponse.json({ error: "Failed to fetch PBX instances" }, { status: 500 });
+    }
+
+    return NextResponse.json({ instances: instances || [] });
+  } catch (error) {
+    console.error("Error in PBX instances API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Add a 3CX system to a tenant: { tenant_id, name, threecx_host, ssh_*, paths, backup_* }
+// The instance gets its own agent token for installing its sync agent.
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (context.role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    if (typeof body.tenant_id !== "string" || !body.tenant_id) {
+      return NextResponse.json({ error: "tenant_id is required" }, { status: 400 });
+    }
+    if (body.name === undefined) {
+      return NextResponse.json({ error: "name is required" }, { status: 400 });
+    }
+
+    const parsed = buildPbxInstanceUpdate(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: tenant } = await supabase
+      .from("tenants")
+      .select("id")
+      .eq("id", body.tenant_id)
+      .maybeSingle();
+
+    if (!tenant) {
+      return NextResponse.json({ error: "Tenant not found" }, { status: 404 });
+    }
+
+    // The tenant's first instance is its primary, which mirrors the tenants row
+    const { count } = await supabase
+      .from("pbx_instances")
+      .select("id", { count: "exact", head: true })
+      .eq("tenant_id", tenant.id);
+
+    const { data: instance, error } = await supabase
+      .from("pbx_instances")
+      .insert({
+        ...parsed.data,
+        tenant_id: tenant.id,
+        is_primary: !count,
+        agent_token: generateAgentToken(),
+      })
+      .select(PBX_INSTANCE_COLUMNS)
+      .single();
+
+    if (error?.code === "23505") {
+      return NextResponse.json({ error: "This tenant already has a PBX instance with that name" }, { status: 409 });
+    }
+
+    if (error || !instance) {
+      console.error("Error creating PBX instance:", error);
+      return NextResponse.json({ error: "Failed to create PBX instance" }, { status: 500 });
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { ssh_password, threecx_db_password, ...logged } = parsed.data;
+
+    await logPbxInstanceAction("pbx_instance.created", (instance as { id: string }).id, {
+      tenantId: tenant.id,
+      userId: context.userId,
+      newValues: logged,
+      request,
+    });
+
+    return NextResponse.json({ instance }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating PBX instance:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,262 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { logPolicyAction } from "@/lib/audit";
+import { notifyPolicyEscalation } from "@/lib/policy-alerts";
+import { resolveRedactor } from "@/lib/redaction-access";
+import {
+  POLICY_FLAG_COLUMNS,
+  POLICY_FLAG_NOTE_COLUMNS,
+  POLICY_FLAG_STATUSES,
+  isPolicyFlagStatus,
+  type PolicyFlag,
+  type PolicyFlagStatus,
+} from "@/lib/policy-rules";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Messages shown either side of the flagged one
+const CONTEXT_MESSAGES = 5;
+const MAX_NOTE_LENGTH = 5000;
+
+// A flag with its notes timeline and the surrounding conversation
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: flag } = await supabase
+      .from("policy_flags")
+      .select(POLICY_FLAG_COLUMNS)
+      .eq("id", id)
+      .eq("tenant_id", context.tenantId)
+      .single();
+
+    if (!flag) {
+      return NextResponse.json({ error: "Flag not found" }, { status: 404 });
+    }
+
+    const messageColumns = "id, sender_identifier, sender_name, content, message_type, has_media, sent_at";
+
+    const [notesResult, conversationResult, earlierResult, laterResult] = await Promise.all([
+      supabase
+        .from("policy_flag_notes")
+        .select(`${POLICY_FLAG_NOTE_COLUMNS}, author:user_profiles!policy_flag_notes_author_id_fkey(email, full_name)`)
+        .eq("flag_id", id)
+        .order("created_at", { ascending: true }),
+      flag.conversation_id
+        ? supabase
+            .from("conversations")
+            .select("id, conversation_name, channel_type, is_external, is_group_chat")
+            .eq("id", flag.conversation_id)
+            .single()
+        : Promise.resolve({ data: null }),
+      flag.conversation_id
+        ? supabase
+            .from("messages")
+            .select(messageColumns)
+            .eq("conversation_id", flag.conversation_id)
+            .lte("sent_at", flag.message_sent_at)
+            .order("sent_at", { ascending: false })
+            .limit(CONTEXT_MESSAGES + 1)
+        : supabase.from("messages").select(messageColumns).eq("id", flag.message_id),
+      flag.conversation_id
+        ? supabase
+            .from("messages")
+            .select(messageColumns)
+            .eq("conversation_id", flag.conversation_id)
+            .gt("sent_at", flag.message_sent_at)
+            .order("sent_at", { ascending: true })
+            .limit(CONTEXT_MESSAGES)
+        : Promise.resolve({ data: [] }),
+    ]);
+
+    const earlier = [...(earlierResult.data || [])].reverse();
+    const messages = [...earlier, ...(laterResult.data || [])];
+
+    const redactor = await resolveRedactor(supabase, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      surface: "policy_review",
+      metadata: { flag_id: id, conversation_id: flag.conversation_id },
+      request,
+    });
+
+    return NextResponse.json({
+      flag,
+      notes: notesResult.data || [],
+      conversation: redactor ? redactor.record(conversationResult.data) : conversationResult.data,
+      messages: redactor ? redactor.record(messages) : messages,
+    });
+  } catch (error) {
+    console.error("Error fetching policy flag:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Review, escalate or reopen a flag, and/or add a note. Body: { status?, note? }
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+
+    if (body.status !== undefined && !isPolicyFlagStatus(body.status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${POLICY_FLAG_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (body.note !== undefined && body.note !== null && typeof body.note !== "string") {
+      return NextResponse.json({ error: "note must be a string" }, { status: 400 });
+    }
+
+    const note = typeof body.note === "string" ? body.note.trim() || null : null;
+    if (note && note.length > MAX_NOTE_LENGTH) {
+      return NextResponse.json(
+        { error: `Notes are limited to ${MAX_NOTE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: existing } = await supabase
+      .from("policy_flags")
+      .select(POLICY_FLAG_COLUMNS)
+      .eq("id", id)
+      .eq("tenant_id", context.tenantId)
+      .single();
+
+    if (!existing) {
+      return NextResponse.json({ error: "Flag not found" }, { status: 404 });
+    }
+
+    const current = existing as PolicyFlag;
+    const status: PolicyFlagStatus | null =
+      body.status !== undefined && body.status !== current.status ? body.status : null;
+
+    if (!status && !note) {
+      return NextResponse.json({ error: "Change the status or add a note" }, { status: 400 });
+    }
+
+    const now = new Date().toISOString();
+    let flag: PolicyFlag = current;
+
+    if (status) {
+      const updateData: Record<string, unknown> = { status, updated_at: now };
+      if (status === "reviewed") {
+        updateData.reviewed_by = context.userId;
+        updateData.reviewed_at = now;
+      } else if (status === "escalated") {
+        updateData.escalated_by = context.userId;
+        updateData.escalated_at = now;
+      } else {
+        updateData.reviewed_by = null;
+        updateData.reviewed_at = null;
+      }
+
+      const { data: updated, error } = await supabase
+        .from("policy_flags")
+        .update(updateData)
+        .eq("id", id)
+        .select(POLICY_FLAG_COLUMNS)
+        .single();
+
+      if (error || !updated) {
+        console.error("Error updating policy flag:", error);
+        return NextResponse.json(
+          { error: "Failed to update flag" },
+          { status: 500 }
+        );
+      }
+      flag = updated as PolicyFlag;
+    }
+
+    const { error: noteError } = await supabase.from("policy_flag_notes").insert({
+      flag_id: id,
+      tenant_id: context.tenantId,
+      author_id: context.userId,
+      body: note,
+      status_from: status ? current.status : null,
+      status_to: status,
+    });
+
+    if (noteError) {
+      console.error("Error recording policy flag note:", noteError);
+    }
+
+    const action = !status
+      ? "policy_flag.noted"
+      : status === "open"
+        ? "policy_flag.reopened"
+        : status === "reviewed"
+          ? "policy_flag.reviewed"
+          : "policy_flag.escalated";
+
+    await logPolicyAction(action, id, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      oldValues: status ? { status: current.status } : undefined,
+      newValues: { ...(status && { status }), ...(note && { note }) },
+      metadata: { rule_name: current.rule_name, message_id: current.message_id },
+      request,
+    });
+
+    if (status === "escalated") {
+      const { data: profile } = await supabase
+        .from("user_profiles")
+        .select("email, full_name")
+        .eq("id", context.userId)
+        .single();
+
+      await notifyPolicyEscalation(
+        flag,
+        { id: context.userId!, name: profile?.full_name || profile?.email || "A reviewer" },
+        note
+      );
+    }
+
+    return NextResponse.json({ flag });
+  } catch (error) {
+    console.error("Error updating policy flag:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
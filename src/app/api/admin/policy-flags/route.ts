@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { cursorFromParams, cursorOrder, keysetFilter, paginate } from "@/lib/cursor";
+import { resolveRedactor } from "@/lib/redaction-access";
+import {
+  POLICY_FLAG_STATUSES,
+  isPolicyFlagStatus,
+  isPolicySeverity,
+} from "@/lib/policy-rules";
+
+export const dynamic = "force-dynamic";
+
+// The review queue: flags newest first, filtered by status (default open)
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get("status") || "open";
+    const severity = searchParams.get("severity");
+    const ruleId = searchParams.get("rule_id");
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "50") || 50, 1), 100);
+
+    if (status !== "all" && !isPolicyFlagStatus(status)) {
+      return NextResponse.json(
+        { error: `status must be all or one of: ${POLICY_FLAG_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (severity && !isPolicySeverity(severity)) {
+      return NextResponse.json({ error: "Invalid severity" }, { status: 400 });
+    }
+
+    const cursorResult = cursorFromParams(searchParams);
+    if ("error" in cursorResult) {
+      return NextResponse.json({ error: cursorResult.error }, { status: 400 });
+    }
+    const { cursor } = cursorResult;
+
+    const supabase = createAdminClient();
+
+    let query = supabase
+      .from("policy_flags")
+      .select(`
+        id, rule_id, rule_name, severity, message_id, conversation_id, message_sent_at,
+        reasons, status, reviewed_by, reviewed_at, escalated_by, escalated_at, created_at, updated_at,
+        message:messages(id, sender_identifier, sender_name, content, has_media),
+        conversation:conversations(id, conversation_name, channel_type, is_external)
+      `)
+      .eq("tenant_id", context.tenantId)
+      .order("created_at", cursorOrder(cursor))
+      .order("id", cursorOrder(cursor))
+      .limit(limit + 1);
+
+    if (status !== "all") query = query.eq("status", status);
+    if (severity) query = query.eq("severity", severity);
+    if (ruleId) query = query.eq("rule_id", ruleId);
+    if (cursor) query = query.or(keysetFilter("created_at", cursor));
+
+    const { data: flags, error } = await query;
+
+    if (error) {
+      console.error("Error fetching policy flags:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch flagged messages" },
+        { status: 500 }
+      );
+    }
+
+    // Queue sizes for the status tabs, on the first page only
+    let counts: Record<string, number> | undefined;
+    if (!cursor) {
+      const results = await Promise.all(
+        POLICY_FLAG_STATUSES.map((s) =>
+          supabase
+            .from("policy_flags")
+            .select("id", { count: "exact", head: true })
+            .eq("tenant_id", context.tenantId!)
+            .eq("status", s)
+        )
+      );
+      counts = Object.fromEntries(POLICY_FLAG_STATUSES.map((s, i) => [s, results[i].count ?? 0]));
+    }
+
+    const page = paginate(flags || [], limit, "created_at", cursor);
+
+    // Later pages belong to an access already logged
+    const redactor = await resolveRedactor(supabase, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      surface: "policy_review",
+      logAccess: !cursor,
+      metadata: { status },
+      request,
+    });
+
+    return NextResponse.json({
+      ...page,
+      data: redactor ? redactor.record(page.data) : page.data,
+      ...(counts && { counts }),
+    });
+  } catch (error) {
+    console.error("Error in policy flags API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { logPolicyAction } from "@/lib/audit";
+import {
+  POLICY_RULE_COLUMNS,
+  hasPolicyCriteria,
+  parsePolicyRuleInput,
+  type PolicyRule,
+} from "@/lib/policy-rules";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Update a rule. Existing flags keep the rule name and severity they were raised with.
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = parsePolicyRuleInput(body, { partial: true });
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { input } = parsed;
+
+    const supabase = createAdminClient();
+
+    const { data: existing } = await supabase
+      .from("policy_rules")
+      .select(POLICY_RULE_COLUMNS)
+      .eq("id", id)
+      .eq("tenant_id", context.tenantId)
+      .single();
+
+    if (!existing) {
+      return NextResponse.json({ error: "Policy rule not found" }, { status: 404 });
+    }
+
+    const current = existing as PolicyRule;
+    if (!hasPolicyCriteria({ ...current, ...input })) {
+      return NextResponse.json(
+        { error: "Add keywords or patterns, or limit the rule to external or after-hours messages" },
+        { status: 400 }
+      );
+    }
+
+    const { data: rule, error } = await supabase
+      .from("policy_rules")
+      .update({ ...input, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select(POLICY_RULE_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error("Error updating policy rule:", error);
+      return NextResponse.json(
+        { error: "Failed to update policy rule" },
+        { status: 500 }
+      );
+    }
+
+    if (Object.keys(input).length > 0) {
+      await logPolicyAction("policy_rule.updated", id, {
+        tenantId: context.tenantId,
+        userId: context.userId,
+        oldValues: Object.fromEntries(
+          Object.keys(input).map((key) => [key, current[key as keyof PolicyRule]])
+        ),
+        newValues: input,
+        request,
+      });
+    }
+
+    return NextResponse.json({ rule });
+  } catch (error) {
+    console.error("Error updating policy rule:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a rule. Its flags stay in the review queue.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: rule, error } = await supabase
+      .from("policy_rules")
+      .delete()
+      .eq("id", id)
+      .eq("tenant_id", context.tenantId)
+      .select("id, name, keywords, patterns")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error deleting policy rule:", error);
+      return NextResponse.json(
+        { error: "Failed to delete policy rule" },
+        { status: 500 }
+      );
+    }
+
+    if (!rule) {
+      return NextResponse.json({ error: "Policy rule not found" }, { status: 404 });
+    }
+
+    await logPolicyAction("policy_rule.deleted", id, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      oldValues: { name: rule.name, keywords: rule.keywords, patterns: rule.patterns },
+      request,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting policy rule:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
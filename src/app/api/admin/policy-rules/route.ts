@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { logPolicyAction } from "@/lib/audit";
+import {
+  MAX_POLICY_RULES_PER_TENANT,
+  POLICY_RULE_COLUMNS,
+  hasPolicyCriteria,
+  parsePolicyRuleInput,
+  type PolicyRule,
+} from "@/lib/policy-rules";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: rules, error } = await supabase
+      .from("policy_rules")
+      .select(POLICY_RULE_COLUMNS)
+      .eq("tenant_id", context.tenantId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching policy rules:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch policy rules" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ rules: rules || [] });
+  } catch (error) {
+    console.error("Error in policy rules API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a rule. It applies to messages archived from now on.
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = parsePolicyRuleInput(body, { partial: false });
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const input = parsed.input as Required<typeof parsed.input>;
+
+    if (!hasPolicyCriteria(input)) {
+      return NextResponse.json(
+        { error: "Add keywords or patterns, or limit the rule to external or after-hours messages" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient();
+
+    const { count } = await supabase
+      .from("policy_rules")
+      .select("id", { count: "exact", head: true })
+      .eq("tenant_id", context.tenantId);
+
+    if ((count ?? 0) >= MAX_POLICY_RULES_PER_TENANT) {
+      return NextResponse.json(
+        { error: `A tenant can have at most ${MAX_POLICY_RULES_PER_TENANT} policy rules` },
+        { status: 400 }
+      );
+    }
+
+    const { data: rule, error } = await supabase
+      .from("policy_rules")
+      .insert({
+        ...input,
+        tenant_id: context.tenantId,
+        created_by: context.userId,
+      })
+      .select(POLICY_RULE_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error("Error creating policy rule:", error);
+      return NextResponse.json(
+        { error: "Failed to create policy rule" },
+        { status: 500 }
+      );
+    }
+
+    await logPolicyAction("policy_rule.created", rule.id, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      newValues: input,
+      request,
+    });
+
+    return NextResponse.json({ rule: rule as PolicyRule }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating policy rule:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
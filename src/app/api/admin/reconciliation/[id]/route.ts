@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { RECONCILIATION_DIFF_COLUMNS } from "@/lib/reconciliation";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// A reconciliation run with every day that did not match
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (context.role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: run, error } = await supabase
+      .from("reconciliation_runs")
+      .select("*, tenant:tenants(id, name)")
+      .eq("id", id)
+      .single();
+
+    if (error || !run) {
+      return NextResponse.json({ error: "Reconciliation run not found" }, { status: 404 });
+    }
+
+    const { data: diffs, error: diffsError } = await supabase
+      .from("reconciliation_diffs")
+      .select(RECONCILIATION_DIFF_COLUMNS)
+      .eq("run_id", id)
+      .order("diff_date", { ascending: true })
+      .order("data_type", { ascending: true });
+
+    if (diffsError) {
+      console.error("Error fetching reconciliation diffs:", diffsError);
+      return NextResponse.json(
+        { error: "Failed to fetch reconciliation diffs" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ run, diffs: diffs || [] });
+  } catch (error) {
+    console.error("Error fetching reconciliation run:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
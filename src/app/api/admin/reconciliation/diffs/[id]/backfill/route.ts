@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { logReconciliationAction } from "@/lib/audit";
+import { RECONCILIATION_DIFF_COLUMNS, kickReconciliationQueue } from "@/lib/reconciliation";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Queue a backfill of only the items this diff found missing
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (context.role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: diff, error } = await supabase
+      .from("reconciliation_diffs")
+      .select(RECONCILIATION_DIFF_COLUMNS)
+      .eq("id", id)
+      .single();
+
+    if (error || !diff) {
+      return NextResponse.json({ error: "Reconciliation diff not found" }, { status: 404 });
+    }
+
+    if (diff.missing_count === 0) {
+      return NextResponse.json(
+        { error: "No missing items to backfill for this day" },
+        { status: 400 }
+      );
+    }
+
+    if (diff.backfill_status === "queued" || diff.backfill_status === "running") {
+      return NextResponse.json(
+        { error: "A backfill is already in progress" },
+        { status: 409 }
+      );
+    }
+
+    const now = new Date().toISOString();
+    const { data: updated, error: updateError } = await supabase
+      .from("reconciliation_diffs")
+      .update({
+        backfill_status: "queued",
+        backfill_requested_by: context.userId,
+        backfill_requested_at: now,
+        backfill_error: null,
+        backfill_completed_at: null,
+        updated_at: now,
+      })
+      .eq("id", id)
+      .select(RECONCILIATION_DIFF_COLUMNS)
+      .single();
+
+    if (updateError) {
+      console.error("Error queueing reconciliation backfill:", updateError);
+      return NextResponse.json(
+        { error: "Failed to queue backfill" },
+        { status: 500 }
+      );
+    }
+
+    await logReconciliationAction("reconciliation.backfill_requested", "reconciliation_diff", id, {
+      tenantId: diff.tenant_id,
+      userId: context.userId,
+      newValues: {
+        data_type: diff.data_type,
+        diff_date: diff.diff_date,
+        missing_count: diff.missing_count,
+      },
+      request,
+    });
+
+    await kickReconciliationQueue();
+
+    return NextResponse.json({ diff: updated });
+  } catch (error) {
+    console.error("Error queueing reconciliation backfill:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { withRateLimit } from "@/lib/api-utils";
+import { rateLimitConfigs } from "@/lib/rate-limit";
+import { logReconciliationAction } from "@/lib/audit";
+import {
+  MAX_RECONCILIATION_DAYS,
+  isReconciliationDataType,
+  kickReconciliationQueue,
+} from "@/lib/reconciliation";
+
+export const dynamic = "force-dynamic";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Recent reconciliation runs across all tenants
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (context.role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+    const tenantId = request.nextUrl.searchParams.get("tenant_id");
+
+    let query = supabase
+      .from("reconciliation_runs")
+      .select("*, tenant:tenants(id, name)")
+      .order("created_at", { ascending: false })
+      .limit(50);
+
+    if (tenantId) {
+      query = query.eq("tenant_id", tenantId);
+    }
+
+    const { data: runs, error } = await query;
+
+    if (error) {
+      console.error("Error fetching reconciliation runs:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch reconciliation runs" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ runs: runs || [] });
+  } catch (error) {
+    console.error("Error in reconciliation API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Queue a reconciliation for one tenant, or every active tenant when tenant_id is omitted
+export async function POST(request: NextRequest) {
+  const rateLimited = withRateLimit(request, rateLimitConfigs.export);
+  if (rateLimited) return rateLimited;
+
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (context.role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    // Defaults to the last 7 complete days
+    const endDate: string = body.end_date || new Date(Date.now() - DAY_MS).toISOString().slice(0, 10);
+    const startDate: string = body.start_date || new Date(Date.now() - 7 * DAY_MS).toISOString().slice(0, 10);
+
+    if (!DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate)) {
+      return NextResponse.json({ error: "Dates must be YYYY-MM-DD" }, { status: 400 });
+    }
+
+    const start = new Date(`${startDate}T00:00:00.000Z`);
+    const end = new Date(`${endDate}T00:00:00.000Z`);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+    }
+
+    if (start > end) {
+      return NextResponse.json({ error: "Start date must be before end date" }, { status: 400 });
+    }
+
+    if ((end.getTime() - start.getTime()) / DAY_MS >= MAX_RECONCILIATION_DAYS) {
+      return NextResponse.json(
+        { error: `Date range cannot exceed ${MAX_RECONCILIATION_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    const dataTypes: string[] = Array.isArray(body.data_types) ? body.data_types : [];
+    if (!dataTypes.every(isReconciliationDataType)) {
+      return NextResponse.json({ error: "Invalid data type" }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+
+    let tenantIds: string[];
+    if (body.tenant_id) {
+      const { data: tenant } = await supabase
+        .from("tenants")
+        .select("id")
+        .eq("id", body.tenant_id)
+        .single();
+
+      if (!tenant) {
+        return NextResponse.json({ error: "Tenant not found" }, { status: 404 });
+      }
+      tenantIds = [tenant.id];
+    } else {
+      const { data: tenants, error: tenantsError } = await supabase
+        .from("tenants")
+        .select("id")
+        .eq("is_active", true);
+
+      if (tenantsError) {
+        console.error("Error fetching tenants for reconciliation:", tenantsError);
+        return NextResponse.json(
+          { error: "Failed to fetch tenants" },
+          { status: 500 }
+        );
+      }
+      tenantIds = (tenants || []).map((t) => t.id);
+    }
+
+    // Skip tenants that already have a run waiting
+    const { data: pending } = await supabase
+      .from("reconciliation_runs")
+      .select("tenant_id")
+      .in("tenant_id", tenantIds)
+      .in("status", ["queued", "running"]);
+
+    const busy = new Set((pending || []).map((r) => r.tenant_id));
+    const queueFor = tenantIds.filter((id) => !busy.has(id));
+
+    if (queueFor.length === 0) {
+      return NextResponse.json(
+        { error: "A reconciliation is already in progress" },
+        { status: 409 }
+      );
+    }
+
+    const { data: runs, error } = await supabase
+      .from("reconciliation_runs")
+      .insert(
+        queueFor.map((tenantId) => ({
+          tenant_id: tenantId,
+          requested_by: context.userId,
+          status: "queued",
+          start_date: startDate,
+          end_date: endDate,
+          data_types: Array.from(new Set(dataTypes)),
+        }))
+      )
+      .select();
+
+    if (error) {
+      console.error("Error creating reconciliation runs:", error);
+      return NextResponse.json(
+        { error: "Failed to create reconciliation runs" },
+        { status: 500 }
+      );
+    }
+
+    for (const run of runs || []) {
+      await logReconciliationAction("reconciliation.requested", "reconciliation_run", run.id, {
+        tenantId: run.tenant_id,
+        userId: context.userId,
+        newValues: { start_date: startDate, end_date: endDate, data_types: run.data_types },
+        request,
+      });
+    }
+
+    await kickReconciliationQueue();
+
+    return NextResponse.json({ runs: runs || [], skipped: busy.size }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating reconciliation runs:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
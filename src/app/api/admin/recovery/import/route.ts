@@ -210,6 +210,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Recovered chats belong to one 3CX system: the one picked in the header,
+    // else the tenant's primary (null for tenants without systems)
+    let pbxInstanceId = context.pbxInstanceId;
+    if (!pbxInstanceId) {
+      const { data: primary } = await supabase
+        .from("pbx_instances")
+        .select("id")
+        .eq("tenant_id", context.tenantId)
+        .eq("is_primary", true)
+        .maybeSingle();
+      pbxInstanceId = primary?.id ?? null;
+    }
+
     console.log(`[Recovery] Import started by ${context.userId} for tenant ${context.tenantId}`);
     console.log(`[Recovery] Source: ${payload.origin || "unknown"}, UA: ${payload.userAgent?.slice(0, 80) || "unknown"}`);
     console.log(`[Recovery] Records to process: ${payload.recoveredMessages.length}`);
@@ -266,6 +279,7 @@ export async function POST(request: NextRequest) {
             .from("conversations")
             .select("id")
             .eq("tenant_id", context.tenantId)
+            .filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId)
             .eq("threecx_conversation_id", threecxConvId)
             .single();
 
@@ -285,6 +299,7 @@ export async function POST(request: NextRequest) {
               .from("conversations")
               .upsert({
                 tenant_id: context.tenantId,
+                pbx_instance_id: pbxInstanceId,
                 threecx_conversation_id: threecxConvId,
                 conversation_name: convName,
                 is_external: isExternal,
@@ -292,7 +307,7 @@ export async function POST(request: NextRequest) {
                 channel_type: "internal",
                 participant_count: 2,
               }, {
-                onConflict: "tenant_id,threecx_conversation_id",
+                onConflict: "tenant_id,pbx_instance_id,threecx_conversation_id",
               })
               .select("id")
               .single();
@@ -322,6 +337,7 @@ export async function POST(request: NextRequest) {
           .from("messages")
           .select("id")
           .eq("tenant_id", context.tenantId)
+          .filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId)
           .eq("threecx_message_id", effectiveMsgId)
           .single();
 
@@ -332,6 +348,7 @@ export async function POST(request: NextRequest) {
 
         const { error: msgError } = await supabase.from("messages").insert({
           tenant_id: context.tenantId,
+          pbx_instance_id: pbxInstanceId,
           conversation_id: convUUID,
           threecx_message_id: effectiveMsgId,
           sender_identifier: senderIdentifier,
@@ -431,6 +448,7 @@ export async function POST(request: NextRequest) {
 
         const { error: mediaError } = await supabase.from("media_files").insert({
           tenant_id: context.tenantId,
+          pbx_instance_id: pbxInstanceId,
           file_name: item.filename,
           file_size: item.sizeBytes,
           mime_type: item.contentType,
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { logRedactionAction } from "@/lib/audit";
+import { getRedactionSettings } from "@/lib/redaction-access";
+import {
+  DEFAULT_REDACTION_RULES,
+  REDACTION_SETTINGS_COLUMNS,
+  parseRedactionSettingsInput,
+} from "@/lib/redaction";
+
+export const dynamic = "force-dynamic";
+
+// The tenant's redaction settings (defaults until saved) and who has the
+// redacted view
+export async function GET() {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const [settings, { count }] = await Promise.all([
+      getRedactionSettings(supabase, context.tenantId),
+      supabase
+        .from("user_feature_permissions")
+        .select("id", { count: "exact", head: true })
+        .eq("tenant_id", context.tenantId)
+        .eq("redacted_view", true),
+    ]);
+
+    return NextResponse.json({
+      settings: settings ?? { tenant_id: context.tenantId, ...DEFAULT_REDACTION_RULES },
+      is_configured: !!settings,
+      redacted_view_users: count ?? 0,
+    });
+  } catch (error) {
+    console.error("Error fetching redaction settings:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Save the settings. From then on unredacted access is audited.
+export async function PUT(request: NextRequest) {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = parseRedactionSettingsInput(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+    const existing = await getRedactionSettings(supabase, context.tenantId);
+    const previous = existing ?? DEFAULT_REDACTION_RULES;
+
+    const { data: settings, error } = await supabase
+      .from("redaction_settings")
+      .upsert({
+        tenant_id: context.tenantId,
+        presets: parsed.input.presets ?? previous.presets,
+        custom_patterns: parsed.input.custom_patterns ?? previous.custom_patterns,
+        mask_external_numbers: parsed.input.mask_external_numbers ?? previous.mask_external_numbers,
+        updated_by: context.userId,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: "tenant_id" })
+      .select(REDACTION_SETTINGS_COLUMNS)
+      .single();
+
+    if (error || !settings) {
+      console.error("Error saving redaction settings:", error);
+      return NextResponse.json(
+        { error: "Failed to save redaction settings" },
+        { status: 500 }
+      );
+    }
+
+    await logRedactionAction("redaction.settings_updated", {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      oldValues: existing
+        ? { presets: existing.presets, custom_patterns: existing.custom_patterns, mask_external_numbers: existing.mask_external_numbers }
+        : undefined,
+      newValues: parsed.input,
+      request,
+    });
+
+    return NextResponse.json({ settings, is_configured: true });
+  } catch (error) {
+    console.error("Error updating redaction settings:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
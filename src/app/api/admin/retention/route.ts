@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { getTenantContext } from "@/lib/tenant";
+import { logRetentionAction } from "@/lib/audit";
+
+const SYNC_SERVICE_URL = process.env.SYNC_SERVICE_URL || "http://localhost:3001";
+const SYNC_AUTH_TOKEN = process.env.SYNC_AUTH_TOKEN;
 
 export const DATA_TYPES = [
   { value: "messages", label: "Chat Messages", description: "Text messages and chat history" },
@@ -56,6 +60,8 @@ export async function GET() {
         retention_days: existing?.retention_days ?? null,
         is_enabled: existing?.is_enabled ?? true,
         last_cleanup_at: existing?.last_cleanup_at ?? null,
+        last_cleanup_deleted: existing?.last_cleanup_deleted ?? null,
+        last_cleanup_bytes: existing?.last_cleanup_bytes ?? null,
         id: existing?.id ?? null,
       };
     });
@@ -137,6 +143,13 @@ export async function PUT(request: NextRequest) {
       }
     }
 
+    await logRetentionAction("retention.updated", {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      newValues: { policies },
+      request,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error updating retention policies:", error);
@@ -147,7 +160,8 @@ export async function PUT(request: NextRequest) {
   }
 }
 
-// POST endpoint to manually trigger cleanup for a specific data type
+// POST endpoint to preview (dry_run) or manually trigger cleanup for a data type.
+// Both are executed by the sync service, which owns retention enforcement.
 export async function POST(request: NextRequest) {
   try {
     const context = await getTenantContext();
@@ -160,14 +174,16 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "No tenant context" }, { status: 400 });
     }
 
-    // Only super_admins can manually trigger cleanup
-    if (context.role !== "super_admin") {
+    const body = await request.json();
+    const { data_type, dry_run } = body;
+    const dryRun = dry_run === true;
+
+    // Admins can preview; only super_admins can manually purge
+    const allowedRoles = dryRun ? ["admin", "super_admin"] : ["super_admin"];
+    if (!allowedRoles.includes(context.role || "")) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    const body = await request.json();
-    const { data_type } = body;
-
     if (!data_type || !DATA_TYPES.some((dt) => dt.value === data_type)) {
       return NextResponse.json(
         { error: "Invalid data type" },
@@ -199,23 +215,76 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Note: In production, this would call the apply_retention_policies function
-    // For now, we just update the last_cleanup_at timestamp
-    const { error: updateError } = await supabase
-      .from("retention_policies")
-      .update({
-        last_cleanup_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", policy.id);
+    if (!policy.is_enabled) {
+      return NextResponse.json(
+        { error: "Policy is disabled" },
+        { status: 400 }
+      );
+    }
 
-    if (updateError) {
+    if (!SYNC_AUTH_TOKEN) {
+      return NextResponse.json({ error: "Sync service not configured" }, { status: 500 });
+    }
+
+    const params = new URLSearchParams({
+      tenantId: context.tenantId,
+      dataType: data_type,
+      dryRun: String(dryRun),
+    });
+
+    let data: { results?: unknown[]; message?: string; error?: string };
+    try {
+      const response = await fetch(`${SYNC_SERVICE_URL}/retention?${params}`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${SYNC_AUTH_TOKEN}` },
+        // Previews count every expired row, so allow longer than a trigger
+        signal: AbortSignal.timeout(dryRun ? 60_000 : 5000),
+      });
+
+      data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        return NextResponse.json(
+          { error: data.error || "Failed to run cleanup" },
+          { status: response.status === 409 ? 409 : 502 }
+        );
+      }
+    } catch (error) {
+      console.error("Error contacting sync service:", error);
       return NextResponse.json(
-        { error: "Failed to run cleanup" },
-        { status: 500 }
+        { error: "Could not reach sync service" },
+        { status: 502 }
       );
     }
 
+    await logRetentionAction(dryRun ? "retention.previewed" : "retention.cleanup_triggered", {
+      entityId: policy.id,
+      tenantId: context.tenantId,
+      userId: context.userId,
+      newValues: { data_type, retention_days: policy.retention_days },
+      request,
+    });
+
+    if (dryRun) {
+      const preview = (data.results?.[0] ?? null) as {
+        cutoff: string;
+        itemsExpired: number;
+        bytesExpired: number;
+        itemsHeld: number;
+      } | null;
+
+      return NextResponse.json({
+        success: true,
+        preview: {
+          data_type,
+          retention_days: policy.retention_days,
+          cutoff: preview?.cutoff ?? null,
+          items: preview?.itemsExpired ?? 0,
+          bytes: preview?.bytesExpired ?? 0,
+          held: preview?.itemsHeld ?? 0,
+        },
+      });
+    }
+
     return NextResponse.json({
       success: true,
       message: `Cleanup triggered for ${data_type}`,
@@ -1,5 +1,10 @@
 import { createClient } from "@/lib/supabase/server";
 import { NextResponse } from "next/server";
+import { getActiveLegalHolds } from "@/lib/legal-holds";
+import { logLegalHoldAction, logTenantAction } from "@/lib/audit";
+import { parseSyncBudget } from "@/lib/sync-budget";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { mirrorTenantConfigToPrimary } from "@/lib/pbx-instances";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -47,6 +52,26 @@ export async function PATCH(request: Request, { params }: RouteParams) {
     }
     if (body.billing_email !== undefined) updateData.billing_email = body.billing_email || null;
 
+    // Sync budgets live in the settings jsonb alongside other tenant settings
+    if (body.sync_budget !== undefined) {
+      const parsed = parseSyncBudget(body.sync_budget);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+
+      const { data: current, error: fetchError } = await supabase
+        .from("tenants")
+        .select("settings")
+        .eq("id", id)
+        .single();
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      updateData.settings = { ...(current?.settings || {}), sync_budget: parsed.budget };
+    }
+
     // Update tenant
     const { data: tenant, error } = await supabase
       .from("tenants")
@@ -59,6 +84,12 @@ export async function PATCH(request: Request, { params }: RouteParams) {
       throw error;
     }
 
+    // threecx_password is the legacy name of the database password
+    await mirrorTenantConfigToPrimary(createAdminClient(), id, {
+      threecx_host: updateData.threecx_host,
+      threecx_db_password: updateData.threecx_password,
+    });
+
     return NextResponse.json({ data: tenant });
   } catch (error) {
     console.error("Error updating tenant:", error);
@@ -87,6 +118,27 @@ export async function DELETE(request: Request, { params }: RouteParams) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
+    // Deleting a tenant cascades every archive row, so refuse while any hold is active
+    const holds = await getActiveLegalHolds(id);
+    if (holds.length > 0) {
+      await logLegalHoldAction("legal_hold.deletion_blocked", holds[0].id, {
+        tenantId: id,
+        userId: user.id,
+        newValues: {
+          source: "tenant_delete",
+          holds: holds.map((h) => ({ id: h.id, name: h.name })),
+        },
+      });
+
+      return NextResponse.json(
+        {
+          error: "Tenant has active legal holds and cannot be deleted",
+          holds: holds.map((h) => ({ id: h.id, name: h.name })),
+        },
+        { status: 409 }
+      );
+    }
+
     // Delete tenant (cascades to related data due to FK constraints)
     const { error } = await supabase
       .from("tenants")
@@ -94,9 +146,15 @@ export async function DELETE(request: Request, { params }: RouteParams) {
       .eq("id", id);
 
     if (error) {
+      // trg_tenants_legal_hold raises if a hold was placed after the check above
+      if (error.code === "P0001") {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
       throw error;
     }
 
+    await logTenantAction("tenant.deleted", id, { userId: user.id });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error deleting tenant:", error);
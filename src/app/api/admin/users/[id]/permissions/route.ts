@@ -12,6 +12,7 @@ interface FeaturePermissions {
   canViewMeetings: boolean;
   canViewVoicemails: boolean;
   canViewFaxes: boolean;
+  redactedView?: boolean; // only ever sees PII-redacted data
 }
 
 interface ExtensionPermission {
@@ -120,7 +121,7 @@ export async function GET(request: Request, { params }: RouteParams) {
     // Get user's feature permissions (or defaults if none exist)
     const { data: featurePermissions } = await supabase
       .from("user_feature_permissions")
-      .select("can_view_cdr, can_view_recordings, can_view_meetings, can_view_voicemails, can_view_faxes")
+      .select("can_view_cdr, can_view_recordings, can_view_meetings, can_view_voicemails, can_view_faxes, redacted_view")
       .eq("user_id", targetUserId)
       .eq("tenant_id", targetTenantId)
       .single();
@@ -140,6 +141,7 @@ export async function GET(request: Request, { params }: RouteParams) {
         canViewMeetings: featurePermissions.can_view_meetings ?? false,
         canViewVoicemails: featurePermissions.can_view_voicemails ?? false,
         canViewFaxes: featurePermissions.can_view_faxes ?? false,
+        redactedView: featurePermissions.redacted_view ?? false,
       } : {
         // Defaults: all features disabled (admins bypass restrictions anyway)
         canViewCdr: false,
@@ -147,6 +149,7 @@ export async function GET(request: Request, { params }: RouteParams) {
         canViewMeetings: false,
         canViewVoicemails: false,
         canViewFaxes: false,
+        redactedView: false,
       },
     });
   } catch (error) {
@@ -322,6 +325,7 @@ export async function PUT(request: Request, { params }: RouteParams) {
           can_view_meetings: featurePermissions.canViewMeetings,
           can_view_voicemails: featurePermissions.canViewVoicemails,
           can_view_faxes: featurePermissions.canViewFaxes,
+          redacted_view: featurePermissions.redactedView ?? false,
           updated_at: new Date().toISOString(),
           created_by: context.userId,
         }, {
@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { logWebhookAction } from "@/lib/audit";
+import {
+  WEBHOOK_ENDPOINT_COLUMNS,
+  generateWebhookSecret,
+  parseWebhookEvents,
+  validateWebhookUrl,
+} from "@/lib/webhooks";
+import { checkWebhookHost } from "@/lib/webhook-targets";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Update an endpoint, or rotate its secret with { rotate_secret: true }
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const supabase = createAdminClient();
+
+    const { data: existing } = await supabase
+      .from("webhook_endpoints")
+      .select(WEBHOOK_ENDPOINT_COLUMNS)
+      .eq("id", id)
+      .eq("tenant_id", context.tenantId)
+      .single();
+
+    if (!existing) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    const updateData: Record<string, unknown> = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (body.url !== undefined) {
+      const urlResult = validateWebhookUrl(body.url);
+      if ("error" in urlResult) {
+        return NextResponse.json({ error: urlResult.error }, { status: 400 });
+      }
+      const hostError = await checkWebhookHost(urlResult.url);
+      if (hostError) {
+        return NextResponse.json({ error: hostError }, { status: 400 });
+      }
+      updateData.url = urlResult.url;
+    }
+
+    if (body.events !== undefined) {
+      const events = parseWebhookEvents(body.events);
+      if (!events || events.length === 0) {
+        return NextResponse.json({ error: "Choose at least one valid event" }, { status: 400 });
+      }
+      updateData.events = events;
+    }
+
+    if (body.description !== undefined) {
+      updateData.description = typeof body.description === "string" ? body.description.trim() || null : null;
+    }
+    if (body.is_active !== undefined) updateData.is_active = !!body.is_active;
+
+    const secret = body.rotate_secret ? generateWebhookSecret() : null;
+    if (secret) updateData.secret = secret;
+
+    const { data: endpoint, error } = await supabase
+      .from("webhook_endpoints")
+      .update(updateData)
+      .eq("id", id)
+      .select(WEBHOOK_ENDPOINT_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error("Error updating webhook endpoint:", error);
+      return NextResponse.json(
+        { error: "Failed to update webhook" },
+        { status: 500 }
+      );
+    }
+
+    if (secret) {
+      await logWebhookAction("webhook.secret_rotated", id, {
+        tenantId: context.tenantId,
+        userId: context.userId,
+        request,
+      });
+    }
+
+    const { updated_at: _updatedAt, ...changes } = updateData;
+    delete changes.secret;
+    if (Object.keys(changes).length > 0) {
+      await logWebhookAction("webhook.updated", id, {
+        tenantId: context.tenantId,
+        userId: context.userId,
+        oldValues: {
+          url: existing.url,
+          events: existing.events,
+          description: existing.description,
+          is_active: existing.is_active,
+        },
+        newValues: changes,
+        request,
+      });
+    }
+
+    return NextResponse.json(secret ? { endpoint, secret } : { endpoint });
+  } catch (error) {
+    console.error("Error updating webhook endpoint:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete an endpoint and its delivery log
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: endpoint, error } = await supabase
+      .from("webhook_endpoints")
+      .delete()
+      .eq("id", id)
+      .eq("tenant_id", context.tenantId)
+      .select("id, url, events")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error deleting webhook endpoint:", error);
+      return NextResponse.json(
+        { error: "Failed to delete webhook" },
+        { status: 500 }
+      );
+    }
+
+    if (!endpoint) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    await logWebhookAction("webhook.deleted", id, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      oldValues: { url: endpoint.url, events: endpoint.events },
+      request,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting webhook endpoint:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { logWebhookAction } from "@/lib/audit";
+import { WEBHOOK_DELIVERY_COLUMNS } from "@/lib/webhooks";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Queue the same event to the same endpoint again. The original delivery is
+// left as-is so the log keeps every attempt.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: original } = await supabase
+      .from("webhook_deliveries")
+      .select("id, endpoint_id, event_id, event_type")
+      .eq("id", id)
+      .eq("tenant_id", context.tenantId)
+      .single();
+
+    if (!original) {
+      return NextResponse.json({ error: "Delivery not found" }, { status: 404 });
+    }
+
+    const { data: delivery, error } = await supabase
+      .from("webhook_deliveries")
+      .insert({
+        tenant_id: context.tenantId,
+        endpoint_id: original.endpoint_id,
+        event_id: original.event_id,
+        event_type: original.event_type,
+        redelivery_of: original.id,
+        requested_by: context.userId,
+      })
+      .select(WEBHOOK_DELIVERY_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error("Error queueing webhook redelivery:", error);
+      return NextResponse.json(
+        { error: "Failed to queue redelivery" },
+        { status: 500 }
+      );
+    }
+
+    await logWebhookAction("webhook.redelivered", original.endpoint_id, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      newValues: { delivery_id: delivery.id, redelivery_of: original.id, event_type: original.event_type },
+      request,
+    });
+
+    return NextResponse.json({ delivery }, { status: 201 });
+  } catch (error) {
+    console.error("Error queueing webhook redelivery:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
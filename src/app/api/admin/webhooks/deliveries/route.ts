@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { WEBHOOK_DELIVERY_COLUMNS } from "@/lib/webhooks";
+
+export const dynamic = "force-dynamic";
+
+// Recent deliveries for the tenant, optionally for a single endpoint
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const endpointId = searchParams.get("endpoint_id");
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 200);
+
+    const supabase = createAdminClient();
+
+    let query = supabase
+      .from("webhook_deliveries")
+      .select(WEBHOOK_DELIVERY_COLUMNS)
+      .eq("tenant_id", context.tenantId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (endpointId) {
+      query = query.eq("endpoint_id", endpointId);
+    }
+
+    const { data: deliveries, error } = await query;
+
+    if (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch deliveries" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ deliveries: deliveries || [] });
+  } catch (error) {
+    console.error("Error in webhook deliveries API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { logWebhookAction } from "@/lib/audit";
+import {
+  WEBHOOK_ENDPOINT_COLUMNS,
+  generateWebhookSecret,
+  parseWebhookEvents,
+  validateWebhookUrl,
+} from "@/lib/webhooks";
+import { checkWebhookHost } from "@/lib/webhook-targets";
+
+export const dynamic = "force-dynamic";
+
+// Keeps a runaway integration script from fanning every event out endlessly
+const MAX_ENDPOINTS_PER_TENANT = 10;
+
+export async function GET() {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: endpoints, error } = await supabase
+      .from("webhook_endpoints")
+      .select(WEBHOOK_ENDPOINT_COLUMNS)
+      .eq("tenant_id", context.tenantId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching webhook endpoints:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch webhooks" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ endpoints: endpoints || [] });
+  } catch (error) {
+    console.error("Error in webhooks API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Register an endpoint. The signing secret is only returned here.
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+
+    const urlResult = validateWebhookUrl(body.url);
+    if ("error" in urlResult) {
+      return NextResponse.json({ error: urlResult.error }, { status: 400 });
+    }
+
+    const hostError = await checkWebhookHost(urlResult.url);
+    if (hostError) {
+      return NextResponse.json({ error: hostError }, { status: 400 });
+    }
+
+    const events = parseWebhookEvents(body.events);
+    if (!events || events.length === 0) {
+      return NextResponse.json({ error: "Choose at least one valid event" }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { count } = await supabase
+      .from("webhook_endpoints")
+      .select("id", { count: "exact", head: true })
+      .eq("tenant_id", context.tenantId);
+
+    if ((count ?? 0) >= MAX_ENDPOINTS_PER_TENANT) {
+      return NextResponse.json(
+        { error: `A tenant can have at most ${MAX_ENDPOINTS_PER_TENANT} webhooks` },
+        { status: 400 }
+      );
+    }
+
+    const secret = generateWebhookSecret();
+
+    const { data: endpoint, error } = await supabase
+      .from("webhook_endpoints")
+      .insert({
+        tenant_id: context.tenantId,
+        url: urlResult.url,
+        description: typeof body.description === "string" ? body.description.trim() || null : null,
+        secret,
+        events,
+        is_active: true,
+        created_by: context.userId,
+      })
+      .select(WEBHOOK_ENDPOINT_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error("Error creating webhook endpoint:", error);
+      return NextResponse.json(
+        { error: "Failed to create webhook" },
+        { status: 500 }
+      );
+    }
+
+    await logWebhookAction("webhook.created", endpoint.id, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      newValues: { url: endpoint.url, events },
+      request,
+    });
+
+    return NextResponse.json({ endpoint, secret }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating webhook endpoint:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,27 +1,35 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
+import { authenticateAgent } from "@/lib/agent-auth";
+import {
+  AGENT_CONFIG_COLUMNS,
+  AGENT_INSTANCE_CONFIG_COLUMNS,
+  buildAgentConfig,
+  deliverCommands,
+  getOfferedReleases,
+  pickTargetRelease,
+  recordCommandResults,
+} from "@/lib/agent-control";
 
-export async function POST(request: NextRequest) {
-  try {
-    // Get the agent token from Authorization header
-    const authHeader = request.headers.get("Authorization");
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      return NextResponse.json(
-        { success: false, error: "Unauthorized" },
-        { status: 401 }
-      );
-    }
+export const dynamic = "force-dynamic";
 
-    const token = authHeader.replace("Bearer ", "");
+// POST /api/agent/heartbeat
+// Body: { status, last_sync_at, last_error, agent_version, config_hash, command_results }
+// The response carries the agent's desired config, pending commands and the
+// release it should be running.
+export async function POST(request: NextRequest) {
+  const auth = await authenticateAgent(request);
+  if ("error" in auth) return auth.error;
+  const { agent } = auth;
 
-    // Parse request body
-    const body = await request.json();
-    const { status, last_sync_at, last_error, agent_version } = body;
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { status, last_sync_at, last_error, agent_version, config_hash, command_results } = body;
 
     const supabase = createAdminClient();
 
     // Update agent status
-    const { data: agent, error } = await supabase
+    const { data: updated, error } = await supabase
       .from("sync_agents")
       .update({
         status: status || "active",
@@ -29,23 +37,50 @@ export async function POST(request: NextRequest) {
         last_sync_at: last_sync_at || null,
         last_error: last_error || null,
         agent_version: agent_version || undefined,
+        applied_config_hash: typeof config_hash === "string" ? config_hash : undefined,
         updated_at: new Date().toISOString(),
       })
-      .eq("agent_token", token)
-      .select("id, tenant_id, status")
+      .eq("id", agent.agentId)
+      .select("id, status")
       .single();
 
-    if (error || !agent) {
+    if (error || !updated) {
       return NextResponse.json(
         { success: false, error: "Agent not found" },
         { status: 404 }
       );
     }
 
+    await recordCommandResults(supabase, agent.agentId, command_results);
+
+    const { data: tenant } = await supabase
+      .from("tenants")
+      .select(AGENT_CONFIG_COLUMNS)
+      .eq("id", agent.tenantId)
+      .single();
+
+    // An instance's agent follows its instance's paths and backup toggles
+    const { data: instance } = agent.pbxInstanceId
+      ? await supabase
+          .from("pbx_instances")
+          .select(AGENT_INSTANCE_CONFIG_COLUMNS)
+          .eq("id", agent.pbxInstanceId)
+          .single()
+      : { data: null };
+
+    const { config, hash } = buildAgentConfig({ ...(tenant || {}), ...(instance || {}) } as Record<string, unknown>);
+    const commands = await deliverCommands(supabase, agent.agentId);
+    const release = pickTargetRelease(await getOfferedReleases(supabase), agent.agentId);
+
     return NextResponse.json({
       success: true,
-      agent_id: agent.id,
-      status: agent.status,
+      agent_id: updated.id,
+      status: updated.status,
+      config: { ...config, hash },
+      commands,
+      release: release
+        ? { version: release.version, download_url: release.download_url, sha256: release.sha256 }
+        : null,
     });
   } catch (error) {
     console.error("Heartbeat error:", error);
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { authenticateAgent, markAgentIngest } from "@/lib/agent-auth";
+import {
+  INGEST_MAX_ROWS,
+  INGEST_TABLES,
+  type IngestTableName,
+  getTenantSyncGate,
+  ingestRows,
+  isIngestTable,
+  isSyncAllowed,
+} from "@/lib/agent-ingest";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/agent/ingest - { table, rows } from an installed sync agent
+export async function POST(request: NextRequest) {
+  const auth = await authenticateAgent(request);
+  if ("error" in auth) return auth.error;
+  const { agent } = auth;
+
+  try {
+    const body = await request.json().catch(() => null);
+
+    if (!body || !isIngestTable(body.table)) {
+      return NextResponse.json({ success: false, error: "Unknown or missing table" }, { status: 400 });
+    }
+    if (!Array.isArray(body.rows) || body.rows.length === 0) {
+      return NextResponse.json({ success: false, error: "rows must be a non-empty array" }, { status: 400 });
+    }
+    if (body.rows.length > INGEST_MAX_ROWS) {
+      return NextResponse.json(
+        { success: false, error: `At most ${INGEST_MAX_ROWS} rows per batch` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient();
+
+    // Refused rather than dropped: the agent's cursor stays put and the
+    // batch is sent again once the gate reopens
+    const { gate, reason } = await getTenantSyncGate(supabase, agent.tenantId);
+    if (!isSyncAllowed(gate, INGEST_TABLES[body.table as IngestTableName].syncType)) {
+      return NextResponse.json(
+        { success: false, error: `Sync paused: ${reason || "storage quota or billing"}`, sync_gate: gate },
+        { status: 403 }
+      );
+    }
+
+    const result = await ingestRows(supabase, agent.tenantId, agent.pbxInstanceId, body.table, body.rows);
+    await markAgentIngest(agent.agentId);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Agent ingest error:", error);
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 });
+  }
+}
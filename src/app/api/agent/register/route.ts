@@ -21,12 +21,17 @@ export async function POST(request: NextRequest) {
     // Use service client for admin operations
     const supabase = createAdminClient();
 
-    // Find tenant by agent token
-    const { data: tenant, error: tenantError } = await supabase
-      .from("tenants")
-      .select("id, name, slug")
+    // Find the 3CX system by its agent token; tenants without PBX instances
+    // still install with the tenant's token
+    const { data: instance } = await supabase
+      .from("pbx_instances")
+      .select("id, name, tenant_id")
       .eq("agent_token", token)
-      .single();
+      .maybeSingle();
+
+    const { data: tenant, error: tenantError } = instance
+      ? await supabase.from("tenants").select("id, name, slug").eq("id", instance.tenant_id).single()
+      : await supabase.from("tenants").select("id, name, slug").eq("agent_token", token).single();
 
     if (tenantError || !tenant) {
       return NextResponse.json(
@@ -35,15 +40,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if agent already exists for this tenant
-    const { data: existingAgent } = await supabase
+    // Check if agent already exists for this 3CX system
+    let existingQuery = supabase
       .from("sync_agents")
       .select("id")
-      .eq("tenant_id", tenant.id)
-      .single();
+      .eq("tenant_id", tenant.id);
+
+    existingQuery = instance
+      ? existingQuery.eq("pbx_instance_id", instance.id)
+      : existingQuery.is("pbx_instance_id", null);
+
+    const { data: existingAgent } = await existingQuery.maybeSingle();
 
     const agentData = {
       tenant_id: tenant.id,
+      pbx_instance_id: instance?.id ?? null,
       hostname,
       ip_address,
       os_info,
@@ -92,15 +103,17 @@ export async function POST(request: NextRequest) {
     }
 
     // SECURITY: never return the global service-role key over the API — it
-    // bypasses every tenant's RLS. Agents receive credentials at install time
-    // (super-admin only) and read them from their own environment. This
-    // endpoint only records the agent's registration/heartbeat.
+    // bypasses every tenant's RLS. Agents write through /api/agent/ingest and
+    // /api/agent/uploads with their own token. This endpoint only records the
+    // agent's registration/heartbeat.
     return NextResponse.json({
       success: true,
       message: "Agent registered successfully",
       tenant_id: tenant.id,
       tenant_name: tenant.name,
       tenant_slug: tenant.slug,
+      pbx_instance_id: instance?.id ?? null,
+      pbx_instance_name: instance?.name ?? null,
       agent_id: agent.id,
     });
   } catch (error) {
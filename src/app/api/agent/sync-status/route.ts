@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { authenticateAgent } from "@/lib/agent-auth";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/agent/sync-status - the agent's sync cursors, so it can resume
+// incremental syncs without reading the archive
+export async function GET(request: NextRequest) {
+  const auth = await authenticateAgent(request);
+  if ("error" in auth) return auth.error;
+
+  try {
+    const supabase = createAdminClient();
+    let query = supabase
+      .from("sync_status")
+      .select("sync_type, status, last_synced_message_at, last_success_at")
+      .eq("tenant_id", auth.agent.tenantId);
+
+    // Cursors are per 3CX system
+    query = auth.agent.pbxInstanceId
+      ? query.eq("pbx_instance_id", auth.agent.pbxInstanceId)
+      : query.is("pbx_instance_id", null);
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    return NextResponse.json({ success: true, sync_status: data || [] });
+  } catch (error) {
+    console.error("Agent sync status error:", error);
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 });
+  }
+}
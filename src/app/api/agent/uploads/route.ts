@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateAgent, markAgentIngest } from "@/lib/agent-auth";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { type AgentSyncType, getTenantSyncGate, isSyncAllowed, isTenantStoragePath } from "@/lib/agent-ingest";
+import { fileExists, getUploadUrl, isSpacesConfigured } from "@/lib/storage/spaces";
+
+export const dynamic = "force-dynamic";
+
+const MAX_FILES = 50;
+const UPLOAD_URL_TTL_SECONDS = 15 * 60;
+// Second segment of every key: {tenant_id}/{category}/..., with the sync type
+// the sync gate knows it by (agent-logs: upload_logs, agent-diagnostics:
+// collect_diagnostics - never gated)
+const UPLOAD_CATEGORIES: Record<string, AgentSyncType | null> = {
+  "chat-media": "media",
+  recordings: "recordings",
+  voicemails: "voicemails",
+  faxes: "faxes",
+  meetings: "meetings",
+  "agent-logs": null,
+  "agent-diagnostics": null,
+};
+
+// POST /api/agent/uploads - { files: [{ storage_path, content_type }] }
+// Short-lived presigned PUT URLs, only under the agent's own tenant prefix.
+// Objects that already exist are reported instead of signed.
+export async function POST(request: NextRequest) {
+  const auth = await authenticateAgent(request);
+  if ("error" in auth) return auth.error;
+  const { agent } = auth;
+
+  try {
+    if (!isSpacesConfigured()) {
+      return NextResponse.json({ success: false, error: "Storage is not configured" }, { status: 503 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const files = body?.files;
+    if (!Array.isArray(files) || files.length === 0 || files.length > MAX_FILES) {
+      return NextResponse.json(
+        { success: false, error: `files must be an array of 1 to ${MAX_FILES} entries` },
+        { status: 400 }
+      );
+    }
+
+    for (const file of files) {
+      const category = typeof file?.storage_path === "string" ? file.storage_path.split("/")[1] : null;
+      if (
+        !isTenantStoragePath(agent.tenantId, file?.storage_path) ||
+        !category ||
+        !Object.prototype.hasOwnProperty.call(UPLOAD_CATEGORIES, category)
+      ) {
+        return NextResponse.json(
+          { success: false, error: `Storage path not allowed: ${String(file?.storage_path)}` },
+          { status: 403 }
+        );
+      }
+      if (typeof file.content_type !== "string" || !file.content_type) {
+        return NextResponse.json({ success: false, error: "content_type is required" }, { status: 400 });
+      }
+    }
+
+    // Files for a stopped sync type are refused; the agent uploads them again
+    // once the gate reopens
+    const { gate, reason } = await getTenantSyncGate(createAdminClient(), agent.tenantId);
+    const gated = files.find(
+      (file: { storage_path: string }) => !isSyncAllowed(gate, UPLOAD_CATEGORIES[file.storage_path.split("/")[1]])
+    );
+    if (gated) {
+      return NextResponse.json(
+        { success: false, error: `Sync paused: ${reason || "storage quota or billing"}`, sync_gate: gate },
+        { status: 403 }
+      );
+    }
+
+    const expiresAt = new Date(Date.now() + UPLOAD_URL_TTL_SECONDS * 1000).toISOString();
+    const uploads = await Promise.all(
+      files.map(async (file: { storage_path: string; content_type: string }) => {
+        const exists = await fileExists(file.storage_path);
+        return {
+          storage_path: file.storage_path,
+          exists,
+          upload_url: exists ? null : await getUploadUrl(file.storage_path, file.content_type, UPLOAD_URL_TTL_SECONDS),
+          expires_at: exists ? null : expiresAt,
+        };
+      })
+    );
+
+    await markAgentIngest(agent.agentId);
+
+    return NextResponse.json({ success: true, uploads });
+  } catch (error) {
+    console.error("Agent upload grant error:", error);
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 });
+  }
+}
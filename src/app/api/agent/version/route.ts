@@ -1,19 +1,36 @@
 import { NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
 
-// Current version of the sync agent
-// Update this when releasing new versions
-const CURRENT_VERSION = "1.0.0";
-
-// Changelog for the version
-const CHANGELOG = {
-  "1.0.0": "Initial release with auto-detection and auto-updates",
-};
+export const dynamic = "force-dynamic";
 
+// Latest fully rolled out agent release. Installed agents are told which
+// release to run in their heartbeat response; this is for installers and
+// manual checks.
 export async function GET() {
-  return NextResponse.json({
-    version: CURRENT_VERSION,
-    changelog: CHANGELOG[CURRENT_VERSION as keyof typeof CHANGELOG] || "",
-    download_url: "https://github.com/timeshareflow/3cx-backup-sync/archive/refs/heads/main.zip",
-    install_script: "https://3cxbackupwiz.com/install.sh",
-  });
+  try {
+    const supabase = createAdminClient();
+
+    const { data: release } = await supabase
+      .from("agent_releases")
+      .select("version, changelog, download_url, sha256")
+      .eq("status", "complete")
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!release) {
+      return NextResponse.json({ error: "No agent release published" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      version: release.version,
+      changelog: release.changelog || "",
+      download_url: release.download_url,
+      sha256: release.sha256,
+      install_script: "https://3cxbackupwiz.com/install.sh",
+    });
+  } catch (error) {
+    console.error("Error fetching agent version:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
 }
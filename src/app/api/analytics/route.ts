@@ -33,25 +33,26 @@ export async function GET(request: NextRequest) {
 
     const from = dateFrom.toISOString();
     const to = dateTo.toISOString();
-    const tid = context.tenantId;
+    // Only the 3CX system picked in the header, if any
+    const range = { p_tenant_id: context.tenantId, p_from: from, p_to: to, p_pbx_instance_id: context.pbxInstanceId };
 
     // All aggregation pushed to the DB — no full row fetches
     const [statsRes, dailyRes, hourlyRes, extensionRes, queueRes] = await Promise.all([
       // Overall stats
-      supabase.rpc("get_call_stats", { p_tenant_id: tid, p_from: from, p_to: to }),
+      supabase.rpc("get_call_stats", range),
 
       // Daily volume grouped by date and direction (server-side aggregation —
       // a raw row fetch silently caps at 1,000 rows and misrepresents the period)
-      supabase.rpc("get_daily_volume", { p_tenant_id: tid, p_from: from, p_to: to }),
+      supabase.rpc("get_daily_volume", range),
 
       // Hourly distribution
-      supabase.rpc("get_hourly_distribution", { p_tenant_id: tid, p_from: from, p_to: to }),
+      supabase.rpc("get_hourly_distribution", range),
 
       // Top 20 extensions
-      supabase.rpc("get_extension_stats", { p_tenant_id: tid, p_from: from, p_to: to }),
+      supabase.rpc("get_extension_stats", range),
 
       // Queue stats
-      supabase.rpc("get_queue_stats", { p_tenant_id: tid, p_from: from, p_to: to }),
+      supabase.rpc("get_queue_stats", range),
     ]);
 
     // Daily volume is already aggregated server-side by get_daily_volume.
@@ -4,6 +4,7 @@ import Stripe from "stripe";
 import { withRateLimit } from "@/lib/api-utils";
 import { rateLimitConfigs } from "@/lib/rate-limit";
 import { sendBillingEmail } from "@/lib/notifications/email";
+import { sendPaymentFailed } from "@/lib/notifications";
 
 // Lazy initialization to avoid build-time errors when env vars are not set
 function getStripeClient(): Stripe | null {
@@ -271,7 +272,7 @@ async function handlePaymentFailed(invoice: Stripe.Invoice) {
   // Get tenant info
   const { data: tenant } = await supabase
     .from("tenants")
-    .select("id, name, billing_email")
+    .select("id, name, billing_email, storage_plans (name)")
     .eq("stripe_subscription_id", subscriptionId)
     .single();
 
@@ -293,5 +294,33 @@ async function handlePaymentFailed(invoice: Stripe.Invoice) {
     });
   }
 
+  // Tenant admins get it on whichever channels they route payment_failed to
+  if (tenant) {
+    const planRaw = tenant.storage_plans;
+    const plan = (Array.isArray(planRaw) ? planRaw[0] : planRaw) as { name: string } | null;
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "https://backupwiz.com";
+
+    const { data: adminUsers } = await supabase
+      .from("user_tenants")
+      .select("user_id, user_profiles (email, full_name)")
+      .eq("tenant_id", tenant.id)
+      .in("role", ["admin", "owner"]);
+
+    for (const adminUser of adminUsers || []) {
+      const profileRaw = adminUser.user_profiles;
+      const profile = (Array.isArray(profileRaw) ? profileRaw[0] : profileRaw) as { email: string; full_name: string | null } | null;
+
+      try {
+        await sendPaymentFailed(adminUser.user_id, tenant.id, {
+          user_name: profile?.full_name || profile?.email?.split("@")[0] || "there",
+          plan_name: plan?.name || "Custom",
+          billing_url: `${baseUrl}/admin/billing`,
+        });
+      } catch (error) {
+        console.error(`Failed to notify ${adminUser.user_id} of failed payment:`, error);
+      }
+    }
+  }
+
   console.log(`Payment failed for subscription ${subscriptionId}`);
 }
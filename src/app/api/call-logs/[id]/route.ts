@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { resolveUserAccess } from "@/lib/user-access";
+import { getCallDetail } from "@/lib/call-detail";
+import { resolveRedactor } from "@/lib/redaction-access";
+
+export const dynamic = "force-dynamic";
+
+// One call with all its legs, linked recordings and voicemail
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant access" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const access = await resolveUserAccess(supabase, context.userId, context.tenantId);
+    if (!access || !access.canViewCdr) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const detail = await getCallDetail(supabase, context.tenantId, id, access);
+    if (!detail) {
+      return NextResponse.json({ error: "Call not found" }, { status: 404 });
+    }
+
+    const redactor = await resolveRedactor(supabase, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      surface: "call",
+      metadata: { call_id: id },
+      request,
+    });
+
+    return NextResponse.json(redactor ? redactor.record(detail) : detail);
+  } catch (error) {
+    console.error("Error in call detail API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
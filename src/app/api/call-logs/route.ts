@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { getTenantContext } from "@/lib/tenant";
+import { cursorFromParams, cursorOrder, keysetFilter, paginate } from "@/lib/cursor";
 
 export const dynamic = "force-dynamic";
 
+const EMPTY_PAGE = { data: [], total: 0, next_cursor: null, prev_cursor: null, has_more: false, has_newer: false };
+
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
-  const page = parseInt(searchParams.get("page") || "1");
-  const pageSize = Math.min(parseInt(searchParams.get("page_size") || "20"), 50);
+  const limit = Math.min(parseInt(searchParams.get("limit") || "20"), 50);
   const extensionNumber = searchParams.get("extension");
   const direction = searchParams.get("direction");
   const callType = searchParams.get("call_type");
@@ -15,6 +17,12 @@ export async function GET(request: NextRequest) {
   const search = searchParams.get("search");
   const hasRecording = searchParams.get("has_recording");
 
+  const cursorResult = cursorFromParams(searchParams);
+  if ("error" in cursorResult) {
+    return NextResponse.json({ error: cursorResult.error }, { status: 400 });
+  }
+  const { cursor } = cursorResult;
+
   try {
     const context = await getTenantContext();
 
@@ -28,7 +36,6 @@ export async function GET(request: NextRequest) {
 
     // Use admin client to bypass RLS after validating user access
     const supabase = createAdminClient();
-    const offset = (page - 1) * pageSize;
 
     // Check if user is admin (bypass permission filtering)
     const { data: profile } = await supabase
@@ -66,23 +73,30 @@ export async function GET(request: NextRequest) {
 
       if (!featurePerms || !featurePerms.can_view_cdr) {
         return NextResponse.json({
-          data: [],
-          total: 0,
-          page,
-          page_size: pageSize,
-          has_more: false,
+          ...EMPTY_PAGE,
           message: "Call history access is not enabled. Contact your administrator.",
         });
       }
     }
 
-    // Build query
+    // Keyset paging on (started_at, id). Only the first page pays for a
+    // (planner-estimated) total - exact counts crawl on large archives.
     let query = supabase
       .from("call_logs")
-      .select("*", { count: "exact" })
+      .select("*", { count: cursor ? undefined : "estimated" })
       .eq("tenant_id", context.tenantId)
-      .order("started_at", { ascending: false })
-      .range(offset, offset + pageSize - 1);
+      .order("started_at", cursorOrder(cursor))
+      .order("id", cursorOrder(cursor))
+      .limit(limit + 1);
+
+    if (cursor) {
+      query = query.or(keysetFilter("started_at", cursor));
+    }
+
+    // Only the 3CX system picked in the header, if any
+    if (context.pbxInstanceId) {
+      query = query.eq("pbx_instance_id", context.pbxInstanceId);
+    }
 
     // Filter by extension if specified
     if (extensionNumber) {
@@ -119,13 +133,7 @@ export async function GET(request: NextRequest) {
     if (error) {
       console.error("Error fetching call logs:", error);
       if (error.code === "42P01") {
-        return NextResponse.json({
-          data: [],
-          total: 0,
-          page,
-          page_size: pageSize,
-          has_more: false,
-        });
+        return NextResponse.json(EMPTY_PAGE);
       }
       return NextResponse.json(
         { error: `Failed to fetch call logs: ${error.message}` },
@@ -134,11 +142,8 @@ export async function GET(request: NextRequest) {
     }
 
     return NextResponse.json({
-      data: data || [],
-      total: count || 0,
-      page,
-      page_size: pageSize,
-      has_more: (count || 0) > offset + pageSize,
+      ...paginate(data || [], limit, "started_at", cursor),
+      total: count ?? null,
     });
   } catch (error) {
     console.error("Error in call-logs API:", error);
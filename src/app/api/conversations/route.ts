@@ -69,7 +69,7 @@ export async function GET(request: NextRequest) {
 
     // If admin, return all conversations without permission filtering
     if (bypassFiltering) {
-      const { data: conversations, error, count } = await supabase
+      let query = supabase
         .from("conversations")
         .select(
           `
@@ -82,6 +82,13 @@ export async function GET(request: NextRequest) {
         .order("last_message_at", { ascending: false, nullsFirst: false })
         .range(offset, offset + limit - 1);
 
+      // Only the 3CX system picked in the header, if any
+      if (context.pbxInstanceId) {
+        query = query.eq("pbx_instance_id", context.pbxInstanceId);
+      }
+
+      const { data: conversations, error, count } = await query;
+
       if (error) {
         console.error("Error fetching conversations:", error);
         return NextResponse.json(
@@ -144,7 +151,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Fetch all conversations (we'll filter in-memory)
-    const { data: allConversations, error } = await supabase
+    let query = supabase
       .from("conversations")
       .select(
         `
@@ -155,6 +162,12 @@ export async function GET(request: NextRequest) {
       .eq("tenant_id", context.tenantId)
       .order("last_message_at", { ascending: false, nullsFirst: false });
 
+    if (context.pbxInstanceId) {
+      query = query.eq("pbx_instance_id", context.pbxInstanceId);
+    }
+
+    const { data: allConversations, error } = await query;
+
     if (error) {
       console.error("Error fetching conversations:", error);
       return NextResponse.json(
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { expireStaleCommands } from "@/lib/agent-control";
+import { purgeExpiredDiagnostics } from "@/lib/agent-diagnostics";
+
+export const dynamic = "force-dynamic";
+
+// Deletes agent diagnostics bundles that are past their retention, and
+// expires commands of agents that stopped checking in (online agents expire
+// their own on each heartbeat)
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const commandsExpired = await expireStaleCommands(supabase);
+    const purged = await purgeExpiredDiagnostics(supabase);
+
+    return NextResponse.json({
+      status: "ok",
+      commands_expired: commandsExpired,
+      purged,
+      ran_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Agent diagnostics retention cron error:", error);
+    return NextResponse.json(
+      { status: "error", error: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
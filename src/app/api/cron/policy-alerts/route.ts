@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sendPendingPolicyAlerts } from "@/lib/policy-alerts";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const flags = await sendPendingPolicyAlerts();
+
+    return NextResponse.json({
+      status: "ok",
+      checked_at: new Date().toISOString(),
+      flags_notified: flags,
+    });
+  } catch (error) {
+    console.error("Policy alerts cron error:", error);
+    return NextResponse.json(
+      { status: "error", error: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
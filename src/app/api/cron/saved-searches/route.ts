@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runDueSavedSearches } from "@/lib/search-alerts";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const ran = await runDueSavedSearches();
+
+    return NextResponse.json({
+      status: "ok",
+      checked_at: new Date().toISOString(),
+      searches_run: ran,
+    });
+  } catch (error) {
+    console.error("Saved search cron error:", error);
+    return NextResponse.json(
+      { status: "error", error: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+export const dynamic = "force-dynamic";
+
+// Rows indexed per call to search_index_backfill_batch()
+const BATCH_SIZE = 500;
+
+// Stop starting new batches after this long so the run ends well inside the
+// function timeout; the next run picks up where this one stopped
+const TIME_BUDGET_MS = 45_000;
+
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const supabase = createAdminClient();
+  const startedAt = Date.now();
+  let indexed = 0;
+  let done = false;
+
+  try {
+    while (Date.now() - startedAt < TIME_BUDGET_MS) {
+      const { data, error } = await supabase.rpc("search_index_backfill_batch", { p_limit: BATCH_SIZE });
+
+      if (error) {
+        console.error("Search index backfill failed:", error);
+        return NextResponse.json(
+          { status: "error", error: error.message, indexed },
+          { status: 500 }
+        );
+      }
+
+      const count = Number(data) || 0;
+      if (count === 0) {
+        done = true;
+        break;
+      }
+      indexed += count;
+    }
+
+    return NextResponse.json({ status: "ok", indexed, done });
+  } catch (error) {
+    console.error("Search index backfill cron error:", error);
+    return NextResponse.json(
+      { status: "error", error: (error as Error).message, indexed },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
+import { notifySyncGateChanges } from "@/lib/notifications/storage-alerts";
 
 export const dynamic = "force-dynamic";
 
@@ -24,9 +25,13 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // The sync service gates syncing on these numbers; tell admins about any change
+    const gateNotices = await notifySyncGateChanges();
+
     return NextResponse.json({
       status: "ok",
       recalculated_at: new Date().toISOString(),
+      sync_gate_notices: gateNotices,
     });
   } catch (error) {
     console.error("Storage recalc cron error:", error);
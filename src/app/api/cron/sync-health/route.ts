@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
-import { sendEmail } from "@/lib/notifications";
+import { sendEmail, sendSyncError } from "@/lib/notifications";
 
 export const dynamic = "force-dynamic";
 
@@ -121,7 +121,7 @@ export async function GET(request: NextRequest) {
               ? `${sync.sync_type} sync has been failing: ${sync.last_error}`
               : `${sync.sync_type} sync has not succeeded in ${stalenessMinutes} minutes`;
 
-            // Only alert the super admin (ALERT_EMAIL env var) — never tenant admins
+            // Only email the super admin (ALERT_EMAIL env var) — never tenant admins
             const alertEmail = process.env.ALERT_EMAIL;
             if (alertEmail) {
               try {
@@ -147,6 +147,38 @@ export async function GET(request: NextRequest) {
               }
             }
 
+            // Tenant admins only hear about it on the Slack/Teams channels
+            // they've routed sync_error to; the email stays with the super admin
+            const { data: adminUsers } = await supabase
+              .from("user_tenants")
+              .select("user_id, user_profiles (email, full_name)")
+              .eq("tenant_id", tenant.id)
+              .in("role", ["admin", "owner"]);
+
+            for (const adminUser of adminUsers || []) {
+              const profileRaw = adminUser.user_profiles;
+              const profile = (Array.isArray(profileRaw) ? profileRaw[0] : profileRaw) as { email: string; full_name: string | null } | null;
+
+              try {
+                const chatResult = await sendSyncError(
+                  adminUser.user_id,
+                  tenant.id,
+                  {
+                    user_name: profile?.full_name || profile?.email?.split("@")[0] || "there",
+                    tenant_name: tenant.name,
+                    error_message: errorMessage,
+                  },
+                  ["slack", "teams"]
+                );
+                for (const channel of ["slack", "teams"] as const) {
+                  const sent = chatResult.channels[channel];
+                  if (sent?.success && !sent.skipped) alertsSent.push(`${sync.sync_type} -> ${channel}`);
+                }
+              } catch (err) {
+                console.error(`Failed to post sync alert for ${tenant.name}:`, err);
+              }
+            }
+
             // Log the notification to prevent spam
             await supabase.from("notification_logs").insert({
               tenant_id: tenant.id,
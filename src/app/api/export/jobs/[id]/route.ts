@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { getSignedUrl } from "@/lib/storage/spaces";
+import { logExportAction } from "@/lib/audit";
+
+export const dynamic = "force-dynamic";
+
+// Signed download links are short-lived; the archive itself stays until expires_at
+const DOWNLOAD_LINK_SECONDS = 60 * 60;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Job status and progress. Pass ?download=true on a completed job for a signed link.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    // Only admins can export the full archive
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: job, error } = await supabase
+      .from("export_jobs")
+      .select("*")
+      .eq("id", id)
+      .eq("tenant_id", context.tenantId)
+      .single();
+
+    if (error || !job) {
+      return NextResponse.json({ error: "Export job not found" }, { status: 404 });
+    }
+
+    if (request.nextUrl.searchParams.get("download") !== "true") {
+      return NextResponse.json({ job });
+    }
+
+    if (job.status !== "completed" || !job.storage_path) {
+      return NextResponse.json(
+        { error: job.status === "expired" ? "Export has expired" : "Export is not ready" },
+        { status: 409 }
+      );
+    }
+
+    const downloadUrl = await getSignedUrl(job.storage_path, DOWNLOAD_LINK_SECONDS);
+
+    await logExportAction("export.downloaded", job.id, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      newValues: { archive_sha256: job.archive_sha256, archive_size: job.archive_size },
+      request,
+    });
+
+    return NextResponse.json({
+      job,
+      download_url: downloadUrl,
+      download_expires_at: new Date(Date.now() + DOWNLOAD_LINK_SECONDS * 1000).toISOString(),
+    });
+  } catch (error) {
+    console.error("Error fetching export job:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { withRateLimit } from "@/lib/api-utils";
+import { rateLimitConfigs } from "@/lib/rate-limit";
+import { logExportAction } from "@/lib/audit";
+import { EXPORT_DATA_TYPES, isExportDataType, kickExportQueue } from "@/lib/export-jobs";
+
+export const dynamic = "force-dynamic";
+
+// List recent archive export jobs for the tenant
+export async function GET() {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    // Only admins can export the full archive
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: jobs, error } = await supabase
+      .from("export_jobs")
+      .select("*")
+      .eq("tenant_id", context.tenantId)
+      .order("created_at", { ascending: false })
+      .limit(20);
+
+    if (error) {
+      console.error("Error fetching export jobs:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch export jobs" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ jobs: jobs || [] });
+  } catch (error) {
+    console.error("Error in export jobs API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Queue a ZIP export of the tenant archive for a date range
+export async function POST(request: NextRequest) {
+  // Same budget as the synchronous exports - archive builds are far heavier
+  const rateLimited = withRateLimit(request, rateLimitConfigs.export);
+  if (rateLimited) return rateLimited;
+
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    // Only admins can export the full archive
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+
+    const dataTypes: string[] = Array.isArray(body.data_types) && body.data_types.length > 0
+      ? body.data_types
+      : [...EXPORT_DATA_TYPES];
+
+    if (!dataTypes.every(isExportDataType)) {
+      return NextResponse.json({ error: "Invalid data type" }, { status: 400 });
+    }
+
+    // Dates are whole days: start of start_date through end of end_date (UTC)
+    const startDate = body.start_date ? new Date(`${body.start_date}T00:00:00.000Z`) : null;
+    const endDate = body.end_date ? new Date(`${body.end_date}T23:59:59.999Z`) : null;
+
+    if ((startDate && isNaN(startDate.getTime())) || (endDate && isNaN(endDate.getTime()))) {
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+    }
+
+    if (startDate && endDate && startDate > endDate) {
+      return NextResponse.json({ error: "Start date must be before end date" }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+
+    // One archive at a time per tenant
+    const { count: pending } = await supabase
+      .from("export_jobs")
+      .select("id", { count: "exact", head: true })
+      .eq("tenant_id", context.tenantId)
+      .in("status", ["queued", "running"]);
+
+    if ((pending || 0) > 0) {
+      return NextResponse.json(
+        { error: "An export is already in progress" },
+        { status: 409 }
+      );
+    }
+
+    const { data: job, error } = await supabase
+      .from("export_jobs")
+      .insert({
+        tenant_id: context.tenantId,
+        requested_by: context.userId,
+        status: "queued",
+        data_types: Array.from(new Set(dataTypes)),
+        start_date: startDate?.toISOString() ?? null,
+        end_date: endDate?.toISOString() ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating export job:", error);
+      return NextResponse.json(
+        { error: "Failed to create export job" },
+        { status: 500 }
+      );
+    }
+
+    await logExportAction("export.requested", job.id, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      newValues: {
+        data_types: job.data_types,
+        start_date: job.start_date,
+        end_date: job.end_date,
+      },
+      request,
+    });
+
+    await kickExportQueue();
+
+    return NextResponse.json({ job }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating export job:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
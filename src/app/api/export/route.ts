@@ -1,12 +1,26 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
 import { getTenantContext } from "@/lib/tenant";
 import { format } from "date-fns";
 import { withRateLimit } from "@/lib/api-utils";
 import { rateLimitConfigs } from "@/lib/rate-limit";
+import { downloadFile as downloadSpacesFile } from "@/lib/storage/spaces";
+import { resolveRedactor } from "@/lib/redaction-access";
+import {
+  archiveMessageId,
+  renderEml,
+  toMboxEntry,
+  type EmailAddress,
+  type EmailAttachment,
+  type EmailMessage,
+} from "@/lib/eml";
 
 export const dynamic = "force-dynamic";
 
+// Masks PII in rows about to be exported; the identity when not redacting
+type Redact = <T>(rows: T) => T;
+
 interface ExportMessage {
   id: string;
   sent_at: string;
@@ -19,6 +33,14 @@ interface ExportMessage {
   media_files: unknown[];
 }
 
+interface ExportMediaFile {
+  file_name: string | null;
+  mime_type: string | null;
+  storage_path: string;
+  storage_backend: string | null;
+  file_size: number | null;
+}
+
 interface ExportConversation {
   id: string;
   conversation_name: string | null;
@@ -36,9 +58,11 @@ export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const exportType = searchParams.get("type") || "conversation"; // conversation, messages, recordings, voicemails, faxes, call_logs, all
   const conversationId = searchParams.get("conversation_id");
-  const formatType = searchParams.get("format") || "json"; // json, csv
+  const formatType = searchParams.get("format") || "json"; // json, csv, eml, mbox
+  const groupBy = searchParams.get("group_by") === "conversation" ? "conversation" : "message"; // mbox only
   const startDate = searchParams.get("start_date");
   const endDate = searchParams.get("end_date");
+  const redactRequested = searchParams.get("redact") === "true";
 
   try {
     const context = await getTenantContext();
@@ -53,6 +77,56 @@ export async function GET(request: NextRequest) {
 
     const supabase = await createClient();
 
+    // Redacted-view users always get a redacted export; others can ask for one
+    const redactor = await resolveRedactor(createAdminClient(), {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      surface: "export",
+      requested: redactRequested,
+      metadata: { type: exportType, format: formatType, ...(conversationId && { conversation_id: conversationId }) },
+      request,
+    });
+    const redact: Redact = (rows) => (redactor ? redactor.record(rows) : rows);
+
+    // eDiscovery formats: one RFC 5322 message per chat message, conversation, voicemail or fax
+    if (formatType === "eml" || formatType === "mbox") {
+      switch (exportType) {
+        case "conversation": {
+          if (!conversationId) {
+            return NextResponse.json(
+              { error: "conversation_id is required for conversation export" },
+              { status: 400 }
+            );
+          }
+          return exportConversationEmail(supabase, context.tenantId, conversationId, formatType, groupBy, startDate, endDate, redact, !!redactor);
+        }
+
+        case "messages":
+        case "voicemails":
+        case "faxes": {
+          if (formatType === "eml") {
+            return NextResponse.json(
+              { error: "EML export covers a single conversation; use format=mbox for bulk exports" },
+              { status: 400 }
+            );
+          }
+          if (exportType === "messages") {
+            return exportMessagesMbox(supabase, context.tenantId, groupBy, startDate, endDate, redact, !!redactor);
+          }
+          if (exportType === "voicemails") {
+            return exportVoicemailsMbox(supabase, context.tenantId, startDate, endDate, redact, !!redactor);
+          }
+          return exportFaxesMbox(supabase, context.tenantId, startDate, endDate, redact, !!redactor);
+        }
+
+        default:
+          return NextResponse.json(
+            { error: `Format ${formatType} is not supported for ${exportType} export` },
+            { status: 400 }
+          );
+      }
+    }
+
     // Handle different export types
     switch (exportType) {
       case "conversation": {
@@ -62,31 +136,31 @@ export async function GET(request: NextRequest) {
             { status: 400 }
           );
         }
-        return exportConversation(supabase, context.tenantId, conversationId, formatType, startDate, endDate);
+        return exportConversation(supabase, context.tenantId, conversationId, formatType, startDate, endDate, redact);
       }
 
       case "messages": {
-        return exportAllMessages(supabase, context.tenantId, formatType, startDate, endDate);
+        return exportAllMessages(supabase, context.tenantId, formatType, startDate, endDate, redact);
       }
 
       case "recordings": {
-        return exportRecordings(supabase, context.tenantId, formatType, startDate, endDate);
+        return exportRecordings(supabase, context.tenantId, formatType, startDate, endDate, redact);
       }
 
       case "voicemails": {
-        return exportVoicemails(supabase, context.tenantId, formatType, startDate, endDate);
+        return exportVoicemails(supabase, context.tenantId, formatType, startDate, endDate, redact);
       }
 
       case "faxes": {
-        return exportFaxes(supabase, context.tenantId, formatType, startDate, endDate);
+        return exportFaxes(supabase, context.tenantId, formatType, startDate, endDate, redact);
       }
 
       case "call_logs": {
-        return exportCallLogs(supabase, context.tenantId, formatType, startDate, endDate);
+        return exportCallLogs(supabase, context.tenantId, formatType, startDate, endDate, redact);
       }
 
       case "all": {
-        return exportAll(supabase, context.tenantId, startDate, endDate);
+        return exportAll(supabase, context.tenantId, startDate, endDate, redact);
       }
 
       default:
@@ -107,7 +181,8 @@ async function exportConversation(
   conversationId: string,
   formatType: string,
   startDate: string | null,
-  endDate: string | null
+  endDate: string | null,
+  redact: Redact
 ) {
   // Get conversation info - verify tenant ownership
   const { data: convData, error: convError } = await supabase
@@ -124,7 +199,7 @@ async function exportConversation(
     );
   }
 
-  const conversation = convData as unknown as ExportConversation;
+  const conversation = redact(convData) as unknown as ExportConversation;
 
   // Get messages
   let query = supabase
@@ -150,7 +225,7 @@ async function exportConversation(
     );
   }
 
-  const messages = (data || []) as unknown as ExportMessage[];
+  const messages = redact(data || []) as unknown as ExportMessage[];
 
   // Format based on requested type
   if (formatType === "csv") {
@@ -213,7 +288,8 @@ async function exportAllMessages(
   tenantId: string,
   formatType: string,
   startDate: string | null,
-  endDate: string | null
+  endDate: string | null,
+  redact: Redact
 ) {
   let query = supabase
     .from("messages")
@@ -248,7 +324,7 @@ async function exportAllMessages(
     return NextResponse.json({ error: "Failed to export messages" }, { status: 500 });
   }
 
-  const messages = (data || []).map((m: Record<string, unknown>) => ({
+  const messages = redact((data || []).map((m: Record<string, unknown>) => ({
     id: m.id,
     content: m.content,
     sender_name: m.sender_name,
@@ -256,7 +332,7 @@ async function exportAllMessages(
     sent_at: m.sent_at,
     has_media: m.has_media,
     conversation_name: (m.conversations as Record<string, unknown>)?.conversation_name,
-  }));
+  })));
 
   const filename = `messages_export_${new Date().toISOString().split("T")[0]}`;
 
@@ -282,7 +358,8 @@ async function exportRecordings(
   tenantId: string,
   formatType: string,
   startDate: string | null,
-  endDate: string | null
+  endDate: string | null,
+  redact: Redact
 ) {
   let query = supabase
     .from("call_recordings")
@@ -307,7 +384,7 @@ async function exportRecordings(
   const filename = `recordings_export_${new Date().toISOString().split("T")[0]}`;
 
   if (formatType === "csv") {
-    return new NextResponse(convertToCSV(data || []), {
+    return new NextResponse(convertToCSV(redact(data || [])), {
       headers: {
         "Content-Type": "text/csv",
         "Content-Disposition": `attachment; filename="${filename}.csv"`,
@@ -315,7 +392,7 @@ async function exportRecordings(
     });
   }
 
-  return new NextResponse(JSON.stringify(data || [], null, 2), {
+  return new NextResponse(JSON.stringify(redact(data || []), null, 2), {
     headers: {
       "Content-Type": "application/json",
       "Content-Disposition": `attachment; filename="${filename}.json"`,
@@ -328,7 +405,8 @@ async function exportVoicemails(
   tenantId: string,
   formatType: string,
   startDate: string | null,
-  endDate: string | null
+  endDate: string | null,
+  redact: Redact
 ) {
   let query = supabase
     .from("voicemails")
@@ -353,7 +431,7 @@ async function exportVoicemails(
   const filename = `voicemails_export_${new Date().toISOString().split("T")[0]}`;
 
   if (formatType === "csv") {
-    return new NextResponse(convertToCSV(data || []), {
+    return new NextResponse(convertToCSV(redact(data || [])), {
       headers: {
         "Content-Type": "text/csv",
         "Content-Disposition": `attachment; filename="${filename}.csv"`,
@@ -361,7 +439,7 @@ async function exportVoicemails(
     });
   }
 
-  return new NextResponse(JSON.stringify(data || [], null, 2), {
+  return new NextResponse(JSON.stringify(redact(data || []), null, 2), {
     headers: {
       "Content-Type": "application/json",
       "Content-Disposition": `attachment; filename="${filename}.json"`,
@@ -374,7 +452,8 @@ async function exportFaxes(
   tenantId: string,
   formatType: string,
   startDate: string | null,
-  endDate: string | null
+  endDate: string | null,
+  redact: Redact
 ) {
   let query = supabase
     .from("faxes")
@@ -399,7 +478,7 @@ async function exportFaxes(
   const filename = `faxes_export_${new Date().toISOString().split("T")[0]}`;
 
   if (formatType === "csv") {
-    return new NextResponse(convertToCSV(data || []), {
+    return new NextResponse(convertToCSV(redact(data || [])), {
       headers: {
         "Content-Type": "text/csv",
         "Content-Disposition": `attachment; filename="${filename}.csv"`,
@@ -407,7 +486,7 @@ async function exportFaxes(
     });
   }
 
-  return new NextResponse(JSON.stringify(data || [], null, 2), {
+  return new NextResponse(JSON.stringify(redact(data || []), null, 2), {
     headers: {
       "Content-Type": "application/json",
       "Content-Disposition": `attachment; filename="${filename}.json"`,
@@ -420,7 +499,8 @@ async function exportCallLogs(
   tenantId: string,
   formatType: string,
   startDate: string | null,
-  endDate: string | null
+  endDate: string | null,
+  redact: Redact
 ) {
   let query = supabase
     .from("call_logs")
@@ -445,7 +525,7 @@ async function exportCallLogs(
   const filename = `call_logs_export_${new Date().toISOString().split("T")[0]}`;
 
   if (formatType === "csv") {
-    return new NextResponse(convertToCSV(data || []), {
+    return new NextResponse(convertToCSV(redact(data || [])), {
       headers: {
         "Content-Type": "text/csv",
         "Content-Disposition": `attachment; filename="${filename}.csv"`,
@@ -453,7 +533,7 @@ async function exportCallLogs(
     });
   }
 
-  return new NextResponse(JSON.stringify(data || [], null, 2), {
+  return new NextResponse(JSON.stringify(redact(data || []), null, 2), {
     headers: {
       "Content-Type": "application/json",
       "Content-Disposition": `attachment; filename="${filename}.json"`,
@@ -465,7 +545,8 @@ async function exportAll(
   supabase: Awaited<ReturnType<typeof createClient>>,
   tenantId: string,
   startDate: string | null,
-  endDate: string | null
+  endDate: string | null,
+  redact: Redact
 ) {
   // Fetch all data types
   const [conversations, messages, recordings, voicemails, faxes, callLogs] = await Promise.all([
@@ -508,12 +589,12 @@ async function exportAll(
       start: startDate,
       end: endDate,
     },
-    conversations: conversations.data || [],
-    messages: messages.data || [],
-    call_recordings: recordings.data || [],
-    voicemails: voicemails.data || [],
-    faxes: faxes.data || [],
-    call_logs: callLogs.data || [],
+    conversations: redact(conversations.data || []),
+    messages: redact(messages.data || []),
+    call_recordings: redact(recordings.data || []),
+    voicemails: redact(voicemails.data || []),
+    faxes: redact(faxes.data || []),
+    call_logs: redact(callLogs.data || []),
     summary: {
       conversations: (conversations.data || []).length,
       messages: (messages.data || []).length,
@@ -534,6 +615,526 @@ async function exportAll(
   });
 }
 
+// ============================================
+// EDISCOVERY (EML / MBOX)
+// ============================================
+
+// Attachments are held in memory while the response is built; past this budget
+// they are listed in the message body instead of embedded.
+const MAX_EMBEDDED_ATTACHMENT_BYTES = 200 * 1024 * 1024;
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+type Row = Record<string, unknown>;
+
+// Columns were renamed between schema versions; take the first one present
+function pickString(row: Row, keys: string[]): string | null {
+  for (const key of keys) {
+    const value = row[key];
+    if (value !== null && value !== undefined && value !== "") return String(value);
+  }
+  return null;
+}
+
+function formatTranscriptTime(value: string): string {
+  return `${new Date(value).toISOString().replace("T", " ").slice(0, 19)} UTC`;
+}
+
+function participantAddress(participant: Row): EmailAddress {
+  return {
+    name: pickString(participant, ["external_name", "participant_name"]),
+    identifier: pickString(participant, ["external_id", "participant_identifier", "external_number"]) || "unknown",
+  };
+}
+
+/**
+ * Downloads attachments from whichever backend holds them, tracking the total
+ * so a large export cannot exhaust memory. Returns null when a file is missing
+ * or the budget is spent; callers note the omission in the message body.
+ * Redacted exports withhold every attachment, since files can't be masked.
+ */
+function createAttachmentLoader(supabase: SupabaseClient, withhold = false) {
+  let embeddedBytes = 0;
+
+  return async function loadAttachment(
+    file: { storage_path: string; storage_backend?: string | null; file_size?: number | null },
+    filename: string,
+    contentType: string
+  ): Promise<EmailAttachment | null> {
+    if (withhold) {
+      return null;
+    }
+
+    if (embeddedBytes + (file.file_size || 0) > MAX_EMBEDDED_ATTACHMENT_BYTES) {
+      return null;
+    }
+
+    try {
+      let content: Buffer;
+      if (file.storage_backend === "supabase") {
+        const { data, error } = await supabase.storage.from("backupwiz-files").download(file.storage_path);
+        if (error || !data) {
+          throw new Error(error?.message || "empty response");
+        }
+        content = Buffer.from(await data.arrayBuffer());
+      } else {
+        content = await downloadSpacesFile(file.storage_path);
+      }
+
+      if (embeddedBytes + content.length > MAX_EMBEDDED_ATTACHMENT_BYTES) {
+        return null;
+      }
+      embeddedBytes += content.length;
+
+      return { filename, contentType, content };
+    } catch (error) {
+      console.error("Failed to load attachment for export:", file.storage_path, error);
+      return null;
+    }
+  };
+}
+
+type AttachmentLoader = ReturnType<typeof createAttachmentLoader>;
+
+async function loadMediaAttachments(
+  mediaFiles: ExportMediaFile[],
+  loadAttachment: AttachmentLoader
+): Promise<{ attachments: EmailAttachment[]; omitted: string[] }> {
+  const attachments: EmailAttachment[] = [];
+  const omitted: string[] = [];
+
+  for (const media of mediaFiles) {
+    const filename = media.file_name || media.storage_path.split("/").pop() || "attachment";
+    const attachment = await loadAttachment(media, filename, media.mime_type || "application/octet-stream");
+    if (attachment) {
+      attachments.push(attachment);
+    } else {
+      omitted.push(filename);
+    }
+  }
+
+  return { attachments, omitted };
+}
+
+function omittedNote(omitted: string[]): string {
+  if (omitted.length === 0) return "";
+  return `\n\n${omitted.map((name) => `[Attachment not included: ${name}]`).join("\n")}`;
+}
+
+/**
+ * Render a conversation as email: either one message per chat message,
+ * threaded with In-Reply-To/References, or the whole transcript as one item.
+ */
+async function conversationToEmails(
+  conversation: Row,
+  participants: Row[],
+  messages: Row[],
+  groupBy: "message" | "conversation",
+  loadAttachment: AttachmentLoader
+): Promise<EmailMessage[]> {
+  const conversationId = String(conversation.id);
+  const subject = pickString(conversation, ["conversation_name"]) || "Chat conversation";
+  const rootId = archiveMessageId("conversation", conversationId);
+  const addresses = participants.map(participantAddress);
+
+  const senderOf = (msg: Row): EmailAddress => {
+    const identifier = pickString(msg, ["sender_identifier", "sender_extension"]);
+    const known = addresses.find((a) => a.identifier === identifier);
+    return known || { name: pickString(msg, ["sender_name"]), identifier: identifier || "unknown" };
+  };
+  const recipientsOf = (sender: EmailAddress) =>
+    addresses.filter((a) => a.identifier !== sender.identifier);
+
+  const baseHeaders = {
+    "X-BackupWiz-Conversation-Id": conversationId,
+  };
+
+  if (groupBy === "conversation") {
+    const first = messages[0];
+    const from = first ? senderOf(first) : addresses[0] || { name: subject, identifier: "unknown" };
+    const lines: string[] = [
+      `Conversation: ${subject}`,
+      `Participants: ${addresses.map((a) => (a.name ? `${a.name} <${a.identifier}>` : a.identifier)).join(", ")}`,
+      `Messages: ${messages.length}`,
+      "",
+    ];
+    const allAttachments: EmailAttachment[] = [];
+    const allOmitted: string[] = [];
+
+    for (const msg of messages) {
+      const sender = senderOf(msg);
+      const label = sender.name ? `${sender.name} <${sender.identifier}>` : sender.identifier;
+      const text = pickString(msg, ["content", "message_text"]) || "";
+      lines.push(`[${formatTranscriptTime(String(msg.sent_at))}] ${label}: ${text}`);
+
+      const { attachments, omitted } = await loadMediaAttachments(
+        (msg.media_files as ExportMediaFile[]) || [],
+        loadAttachment
+      );
+      for (const attachment of attachments) lines.push(`    [Attachment: ${attachment.filename}]`);
+      for (const name of omitted) lines.push(`    [Attachment not included: ${name}]`);
+      allAttachments.push(...attachments);
+      allOmitted.push(...omitted);
+    }
+
+    return [{
+      messageId: rootId,
+      from,
+      to: recipientsOf(from),
+      subject,
+      date: new Date(String(first?.sent_at || conversation.first_message_at || conversation.created_at || Date.now())),
+      text: lines.join("\n"),
+      attachments: allAttachments,
+      headers: {
+        ...baseHeaders,
+        "X-BackupWiz-Record-Type": "chat-transcript",
+        ...(allOmitted.length > 0 ? { "X-BackupWiz-Omitted-Attachments": String(allOmitted.length) } : {}),
+      },
+    }];
+  }
+
+  const emails: EmailMessage[] = [];
+  let previousId = rootId;
+
+  for (const msg of messages) {
+    const from = senderOf(msg);
+    const messageId = archiveMessageId("message", String(msg.id));
+    const { attachments, omitted } = await loadMediaAttachments(
+      (msg.media_files as ExportMediaFile[]) || [],
+      loadAttachment
+    );
+
+    emails.push({
+      messageId,
+      from,
+      to: recipientsOf(from),
+      subject,
+      date: new Date(String(msg.sent_at)),
+      text: (pickString(msg, ["content", "message_text"]) || "") + omittedNote(omitted),
+      attachments,
+      inReplyTo: previousId,
+      references: previousId === rootId ? [rootId] : [rootId, previousId],
+      headers: {
+        ...baseHeaders,
+        "X-BackupWiz-Record-Type": "chat-message",
+        "X-BackupWiz-Message-Type": pickString(msg, ["message_type"]) || "text",
+        ...(omitted.length > 0 ? { "X-BackupWiz-Omitted-Attachments": String(omitted.length) } : {}),
+      },
+    });
+    previousId = messageId;
+  }
+
+  return emails;
+}
+
+function emailResponse(emails: EmailMessage[], formatType: "eml" | "mbox", filename: string) {
+  if (formatType === "eml") {
+    return new NextResponse(renderEml(emails[0]), {
+      headers: {
+        "Content-Type": "message/rfc822",
+        "Content-Disposition": `attachment; filename="${filename}.eml"`,
+      },
+    });
+  }
+
+  return new NextResponse(emails.map(toMboxEntry).join(""), {
+    headers: {
+      "Content-Type": "application/mbox",
+      "Content-Disposition": `attachment; filename="${filename}.mbox"`,
+    },
+  });
+}
+
+async function exportConversationEmail(
+  supabase: SupabaseClient,
+  tenantId: string,
+  conversationId: string,
+  formatType: "eml" | "mbox",
+  groupBy: "message" | "conversation",
+  startDate: string | null,
+  endDate: string | null,
+  redact: Redact,
+  withholdAttachments: boolean
+) {
+  const { data: conversation, error: convError } = await supabase
+    .from("conversations")
+    .select("*, participants(*)")
+    .eq("id", conversationId)
+    .eq("tenant_id", tenantId)
+    .single();
+
+  if (convError || !conversation) {
+    return NextResponse.json(
+      { error: "Conversation not found" },
+      { status: 404 }
+    );
+  }
+
+  let query = supabase
+    .from("messages")
+    .select("*, media_files(*)")
+    .eq("conversation_id", conversationId)
+    .order("sent_at", { ascending: true });
+
+  if (startDate) {
+    query = query.gte("sent_at", startDate);
+  }
+  if (endDate) {
+    query = query.lte("sent_at", endDate);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error fetching messages for export:", error);
+    return NextResponse.json(
+      { error: "Failed to export conversation" },
+      { status: 500 }
+    );
+  }
+
+  // A single EML file always holds the whole conversation
+  const redactedConversation = redact(conversation as Row);
+  const emails = await conversationToEmails(
+    redactedConversation,
+    (redactedConversation.participants as Row[]) || [],
+    redact((data || []) as Row[]),
+    formatType === "eml" ? "conversation" : groupBy,
+    createAttachmentLoader(supabase, withholdAttachments)
+  );
+
+  if (emails.length === 0) {
+    return NextResponse.json({ error: "No messages to export" }, { status: 404 });
+  }
+
+  return emailResponse(emails, formatType, `conversation-${conversationId}`);
+}
+
+async function exportMessagesMbox(
+  supabase: SupabaseClient,
+  tenantId: string,
+  groupBy: "message" | "conversation",
+  startDate: string | null,
+  endDate: string | null,
+  redact: Redact,
+  withholdAttachments: boolean
+) {
+  let query = supabase
+    .from("messages")
+    .select("*, media_files(*), conversations!inner(tenant_id)")
+    .eq("conversations.tenant_id", tenantId)
+    .order("sent_at", { ascending: true })
+    .limit(50000);
+
+  if (startDate) {
+    query = query.gte("sent_at", `${startDate}T00:00:00.000Z`);
+  }
+  if (endDate) {
+    query = query.lte("sent_at", `${endDate}T23:59:59.999Z`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error exporting messages:", error);
+    return NextResponse.json({ error: "Failed to export messages" }, { status: 500 });
+  }
+
+  const byConversation = new Map<string, Row[]>();
+  for (const msg of redact((data || []) as Row[])) {
+    const key = String(msg.conversation_id);
+    const list = byConversation.get(key) || [];
+    list.push(msg);
+    byConversation.set(key, list);
+  }
+
+  // Fetch conversations in chunks to keep the IN list within URL limits
+  const conversationIds = Array.from(byConversation.keys());
+  const conversations: Row[] = [];
+  for (let i = 0; i < conversationIds.length; i += 200) {
+    const { data: chunk, error: convError } = await supabase
+      .from("conversations")
+      .select("*, participants(*)")
+      .eq("tenant_id", tenantId)
+      .in("id", conversationIds.slice(i, i + 200));
+
+    if (convError) {
+      console.error("Error fetching conversations for export:", convError);
+      return NextResponse.json({ error: "Failed to export messages" }, { status: 500 });
+    }
+    conversations.push(...redact((chunk || []) as Row[]));
+  }
+
+  const loadAttachment = createAttachmentLoader(supabase, withholdAttachments);
+  const emails: EmailMessage[] = [];
+  for (const conversation of conversations) {
+    emails.push(...await conversationToEmails(
+      conversation,
+      (conversation.participants as Row[]) || [],
+      byConversation.get(String(conversation.id)) || [],
+      groupBy,
+      loadAttachment
+    ));
+  }
+
+  return emailResponse(emails, "mbox", `messages_export_${new Date().toISOString().split("T")[0]}`);
+}
+
+async function exportVoicemailsMbox(
+  supabase: SupabaseClient,
+  tenantId: string,
+  startDate: string | null,
+  endDate: string | null,
+  redact: Redact,
+  withholdAttachments: boolean
+) {
+  let query = supabase
+    .from("voicemails")
+    .select("*")
+    .eq("tenant_id", tenantId)
+    .order("received_at", { ascending: true });
+
+  if (startDate) {
+    query = query.gte("received_at", `${startDate}T00:00:00.000Z`);
+  }
+  if (endDate) {
+    query = query.lte("received_at", `${endDate}T23:59:59.999Z`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error exporting voicemails:", error);
+    return NextResponse.json({ error: "Failed to export voicemails" }, { status: 500 });
+  }
+
+  const loadAttachment = createAttachmentLoader(supabase, withholdAttachments);
+  const emails: EmailMessage[] = [];
+
+  for (const vm of redact((data || []) as Row[])) {
+    const storagePath = String(vm.storage_path);
+    const filename = pickString(vm, ["file_name", "original_filename"]) || storagePath.split("/").pop() || "voicemail.wav";
+    const caller = pickString(vm, ["caller_number"]) || "unknown";
+    const callerName = pickString(vm, ["caller_name"]);
+    const extension = pickString(vm, ["extension", "extension_number"]) || "voicemail";
+    const duration = pickString(vm, ["duration_seconds", "duration"]);
+
+    const attachment = await loadAttachment(
+      { storage_path: storagePath, storage_backend: vm.storage_backend as string | null, file_size: vm.file_size as number | null },
+      filename,
+      voicemailMimeType(storagePath)
+    );
+
+    const lines = [
+      `Voicemail from ${callerName ? `${callerName} <${caller}>` : caller} to extension ${extension}`,
+      `Received: ${formatTranscriptTime(String(vm.received_at))}`,
+    ];
+    if (duration) lines.push(`Duration: ${duration}s`);
+    const transcription = pickString(vm, ["transcription"]);
+    if (transcription) lines.push("", "Transcription:", transcription);
+
+    emails.push({
+      messageId: archiveMessageId("voicemail", String(vm.id)),
+      from: { name: callerName, identifier: caller },
+      to: [{ name: `Extension ${extension}`, identifier: extension }],
+      subject: `Voicemail from ${callerName || caller}${duration ? ` (${duration}s)` : ""}`,
+      date: new Date(String(vm.received_at)),
+      text: lines.join("\n") + omittedNote(attachment ? [] : [filename]),
+      attachments: attachment ? [attachment] : [],
+      headers: {
+        "X-BackupWiz-Record-Type": "voicemail",
+        ...(vm.is_urgent ? { Importance: "high", "X-Priority": "1" } : {}),
+        ...(attachment ? {} : { "X-BackupWiz-Omitted-Attachments": "1" }),
+      },
+    });
+  }
+
+  return emailResponse(emails, "mbox", `voicemails_export_${new Date().toISOString().split("T")[0]}`);
+}
+
+async function exportFaxesMbox(
+  supabase: SupabaseClient,
+  tenantId: string,
+  startDate: string | null,
+  endDate: string | null,
+  redact: Redact,
+  withholdAttachments: boolean
+) {
+  let query = supabase
+    .from("faxes")
+    .select("*")
+    .eq("tenant_id", tenantId)
+    .order("sent_received_at", { ascending: true });
+
+  if (startDate) {
+    query = query.gte("sent_received_at", `${startDate}T00:00:00.000Z`);
+  }
+  if (endDate) {
+    query = query.lte("sent_received_at", `${endDate}T23:59:59.999Z`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error exporting faxes:", error);
+    return NextResponse.json({ error: "Failed to export faxes" }, { status: 500 });
+  }
+
+  const loadAttachment = createAttachmentLoader(supabase, withholdAttachments);
+  const emails: EmailMessage[] = [];
+
+  for (const fax of redact((data || []) as Row[])) {
+    const storagePath = String(fax.storage_path);
+    const filename = pickString(fax, ["original_filename", "file_name"]) || storagePath.split("/").pop() || "fax.pdf";
+    const remote: EmailAddress = {
+      name: pickString(fax, ["remote_name"]),
+      identifier: pickString(fax, ["remote_number"]) || "unknown",
+    };
+    const extension = pickString(fax, ["extension_number"]) || "fax";
+    const local: EmailAddress = { name: `Extension ${extension}`, identifier: extension };
+    const outbound = fax.direction === "outbound";
+    const pages = pickString(fax, ["pages", "page_count"]);
+    const sentAt = pickString(fax, ["sent_received_at", "fax_time"]) || String(fax.created_at);
+
+    const attachment = await loadAttachment(
+      { storage_path: storagePath, storage_backend: fax.storage_backend as string | null, file_size: fax.file_size as number | null },
+      filename,
+      pickString(fax, ["mime_type"]) || "application/pdf"
+    );
+
+    const lines = [
+      `${outbound ? "Outbound" : "Inbound"} fax ${outbound ? "to" : "from"} ${remote.identifier}`,
+      `${outbound ? "Sent" : "Received"}: ${formatTranscriptTime(sentAt)}`,
+    ];
+    if (pages) lines.push(`Pages: ${pages}`);
+    const status = pickString(fax, ["status"]);
+    if (status) lines.push(`Status: ${status}`);
+
+    emails.push({
+      messageId: archiveMessageId("fax", String(fax.id)),
+      from: outbound ? local : remote,
+      to: [outbound ? remote : local],
+      subject: `Fax ${outbound ? "to" : "from"} ${remote.name || remote.identifier}${pages ? ` (${pages} pages)` : ""}`,
+      date: new Date(sentAt),
+      text: lines.join("\n") + omittedNote(attachment ? [] : [filename]),
+      attachments: attachment ? [attachment] : [],
+      headers: {
+        "X-BackupWiz-Record-Type": "fax",
+        ...(attachment ? {} : { "X-BackupWiz-Omitted-Attachments": "1" }),
+      },
+    });
+  }
+
+  return emailResponse(emails, "mbox", `faxes_export_${new Date().toISOString().split("T")[0]}`);
+}
+
+function voicemailMimeType(storagePath: string): string {
+  const ext = storagePath.split(".").pop()?.toLowerCase();
+  if (ext === "mp3") return "audio/mpeg";
+  if (ext === "ogg") return "audio/ogg";
+  if (ext === "m4a") return "audio/mp4";
+  return "audio/wav";
+}
+
 function convertToCSV(data: unknown[]): string {
   if (data.length === 0) return "";
 
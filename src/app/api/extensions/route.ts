@@ -19,12 +19,19 @@ export async function GET() {
     // Use admin client to bypass RLS after validating user access
     const supabase = createAdminClient();
 
-    const { data: extensions, error } = await supabase
+    let query = supabase
       .from("extensions")
       .select("*")
       .eq("tenant_id", context.tenantId)
       .order("extension_number", { ascending: true });
 
+    // Only the 3CX system picked in the header, if any
+    if (context.pbxInstanceId) {
+      query = query.eq("pbx_instance_id", context.pbxInstanceId);
+    }
+
+    const { data: extensions, error } = await query;
+
     if (error) {
       console.error("Failed to fetch extensions:", error);
       return NextResponse.json({ error: error.message }, { status: 500 });
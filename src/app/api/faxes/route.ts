@@ -81,6 +81,11 @@ export async function GET(request: NextRequest) {
       .order("sent_received_at", { ascending: false })
       .range(offset, offset + pageSize - 1);
 
+    // Only the 3CX system picked in the header, if any
+    if (context.pbxInstanceId) {
+      query = query.eq("pbx_instance_id", context.pbxInstanceId);
+    }
+
     // Filter by extension if specified
     if (extensionNumber) {
       query = query.eq("extension_number", extensionNumber);
@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { withRateLimit } from "@/lib/api-utils";
+import { rateLimitConfigs } from "@/lib/rate-limit";
+import { logIntegrityAction } from "@/lib/audit";
+import { MAX_VERIFICATION_DAYS, kickIntegrityQueue } from "@/lib/integrity";
+
+export const dynamic = "force-dynamic";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Integrity chain overview: recent daily seals and verification runs (issues omitted)
+export async function GET() {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const [sealsResult, verificationsResult] = await Promise.all([
+      supabase
+        .from("integrity_daily_seals")
+        .select("*")
+        .eq("tenant_id", context.tenantId)
+        .order("log_date", { ascending: false })
+        .limit(30),
+      supabase
+        .from("integrity_verifications")
+        .select(
+          "id, tenant_id, requested_by, status, start_date, end_date, entries_checked, objects_checked, chain_breaks, mismatches, missing_files, deleted_records, error, started_at, completed_at, created_at, updated_at"
+        )
+        .eq("tenant_id", context.tenantId)
+        .order("created_at", { ascending: false })
+        .limit(20),
+    ]);
+
+    if (sealsResult.error || verificationsResult.error) {
+      console.error("Error fetching integrity status:", sealsResult.error || verificationsResult.error);
+      return NextResponse.json(
+        { error: "Failed to fetch integrity status" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      seals: sealsResult.data || [],
+      verifications: verificationsResult.data || [],
+    });
+  } catch (error) {
+    console.error("Error in integrity API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Queue a verification of the chain and stored objects for a range of UTC days
+export async function POST(request: NextRequest) {
+  // Verification re-downloads every object in range, so it shares the export budget
+  const rateLimited = withRateLimit(request, rateLimitConfigs.export);
+  if (rateLimited) return rateLimited;
+
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    // Defaults to yesterday, the most recent complete day
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const startDate: string = body.start_date || body.end_date || yesterday;
+    const endDate: string = body.end_date || startDate;
+
+    if (!DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate)) {
+      return NextResponse.json({ error: "Dates must be YYYY-MM-DD" }, { status: 400 });
+    }
+
+    const start = new Date(`${startDate}T00:00:00.000Z`);
+    const end = new Date(`${endDate}T00:00:00.000Z`);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+    }
+
+    if (start > end) {
+      return NextResponse.json({ error: "Start date must be before end date" }, { status: 400 });
+    }
+
+    if ((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000) >= MAX_VERIFICATION_DAYS) {
+      return NextResponse.json(
+        { error: `Date range cannot exceed ${MAX_VERIFICATION_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient();
+
+    // One verification at a time per tenant
+    const { count: pending } = await supabase
+      .from("integrity_verifications")
+      .select("id", { count: "exact", head: true })
+      .eq("tenant_id", context.tenantId)
+      .in("status", ["queued", "running"]);
+
+    if ((pending || 0) > 0) {
+      return NextResponse.json(
+        { error: "A verification is already in progress" },
+        { status: 409 }
+      );
+    }
+
+    const { data: verification, error } = await supabase
+      .from("integrity_verifications")
+      .insert({
+        tenant_id: context.tenantId,
+        requested_by: context.userId,
+        status: "queued",
+        start_date: startDate,
+        end_date: endDate,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating integrity verification:", error);
+      return NextResponse.json(
+        { error: "Failed to create verification" },
+        { status: 500 }
+      );
+    }
+
+    await logIntegrityAction("integrity.requested", verification.id, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      newValues: { start_date: startDate, end_date: endDate },
+      request,
+    });
+
+    await kickIntegrityQueue();
+
+    return NextResponse.json({ verification }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating integrity verification:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
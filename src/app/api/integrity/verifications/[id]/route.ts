@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Full verification report, including the mismatches and missing files found
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: verification, error } = await supabase
+      .from("integrity_verifications")
+      .select("*")
+      .eq("id", id)
+      .eq("tenant_id", context.tenantId)
+      .single();
+
+    if (error || !verification) {
+      return NextResponse.json({ error: "Verification not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ verification });
+  } catch (error) {
+    console.error("Error fetching integrity verification:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
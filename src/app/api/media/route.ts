@@ -1,16 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { getTenantContext } from "@/lib/tenant";
+import { cursorFromParams, cursorOrder, keysetFilter, paginate } from "@/lib/cursor";
 
 export const dynamic = "force-dynamic";
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
-  const page = parseInt(searchParams.get("page") || "1");
-  const pageSize = Math.min(parseInt(searchParams.get("page_size") || "20"), 50);
+  const limit = Math.min(parseInt(searchParams.get("limit") || "20"), 50);
   const fileType = searchParams.get("file_type"); // image, video, document
   const conversationId = searchParams.get("conversation_id");
 
+  const cursorResult = cursorFromParams(searchParams);
+  if ("error" in cursorResult) {
+    return NextResponse.json({ error: cursorResult.error }, { status: 400 });
+  }
+  const { cursor } = cursorResult;
+
   try {
     const context = await getTenantContext();
 
@@ -24,15 +30,24 @@ export async function GET(request: NextRequest) {
 
     // Use admin client to bypass RLS after validating user access
     const supabase = createAdminClient();
-    const offset = (page - 1) * pageSize;
 
-    // Build query
+    // Keyset paging on (created_at, id); only the first page gets a total
     let query = supabase
       .from("media_files")
-      .select("*", { count: "exact" })
+      .select("*", { count: cursor ? undefined : "estimated" })
       .eq("tenant_id", context.tenantId)
-      .order("created_at", { ascending: false })
-      .range(offset, offset + pageSize - 1);
+      .order("created_at", cursorOrder(cursor))
+      .order("id", cursorOrder(cursor))
+      .limit(limit + 1);
+
+    if (cursor) {
+      query = query.or(keysetFilter("created_at", cursor));
+    }
+
+    // Only the 3CX system picked in the header, if any
+    if (context.pbxInstanceId) {
+      query = query.eq("pbx_instance_id", context.pbxInstanceId);
+    }
 
     // Filter by file type if specified
     if (fileType) {
@@ -65,11 +80,8 @@ export async function GET(request: NextRequest) {
     }
 
     return NextResponse.json({
-      data: data || [],
-      total: count || 0,
-      page,
-      page_size: pageSize,
-      has_more: (count || 0) > offset + pageSize,
+      ...paginate(data || [], limit, "created_at", cursor),
+      total: count ?? null,
     });
   } catch (error) {
     console.error("Error in media API:", error);
@@ -82,6 +82,11 @@ export async function GET(request: NextRequest) {
       .order("created_at", { ascending: false })
       .range(offset, offset + pageSize - 1);
 
+    // Only the 3CX system picked in the header, if any
+    if (context.pbxInstanceId) {
+      query = query.eq("pbx_instance_id", context.pbxInstanceId);
+    }
+
     // Filter by host extension if specified
     if (hostExtension) {
       query = query.eq("host_extension", hostExtension);
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { getTenantContext } from "@/lib/tenant";
+import { resolveRedactor } from "@/lib/redaction-access";
 
 export const dynamic = "force-dynamic";
 
@@ -65,9 +66,19 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    return NextResponse.json(
-      result ?? { data: [], conversations: [], total: 0, has_more: false, has_newer: false }
-    );
+    const page = result ?? { data: [], conversations: [], total: 0, has_more: false, has_newer: false };
+
+    // Older pages and polling belong to an access already logged
+    const redactor = await resolveRedactor(supabase, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      surface: "extension_messages",
+      logAccess: !before && !after,
+      metadata: { extension_id: extension.id },
+      request,
+    });
+
+    return NextResponse.json(redactor ? redactor.record(page) : page);
   } catch (error) {
     console.error("Error in messages by extension API:", error);
     return NextResponse.json(
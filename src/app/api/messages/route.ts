@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { getTenantContext } from "@/lib/tenant";
+import { cursorFromParams, cursorOrder, encodeCursor, keysetFilter, paginate } from "@/lib/cursor";
+import { resolveRedactor } from "@/lib/redaction-access";
 
 export const dynamic = "force-dynamic";
 
@@ -16,12 +18,27 @@ interface MessageWithMedia {
   media_files: unknown[];
 }
 
+/**
+ * Messages are returned oldest-first for the conversation view, so
+ * next_cursor (older) hangs off the first message and prev_cursor (newer)
+ * off the last.
+ */
+function chronologicalPage(messages: MessageWithMedia[], hasMore: boolean, hasNewer: boolean) {
+  const oldest = messages[0];
+  const newest = messages[messages.length - 1];
+
+  return {
+    data: messages,
+    next_cursor: hasMore && oldest ? encodeCursor(oldest.sent_at, oldest.id) : null,
+    prev_cursor: newest ? encodeCursor(newest.sent_at, newest.id, "prev") : null,
+    has_more: hasMore,
+    has_newer: hasNewer,
+  };
+}
+
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const conversationId = searchParams.get("conversation_id");
-  const before = searchParams.get("before");
-  const after = searchParams.get("after");
-  const latest = searchParams.get("latest"); // Fetch most recent messages
   const around = searchParams.get("around"); // Fetch messages around a specific message ID
   const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 100);
 
@@ -32,6 +49,12 @@ export async function GET(request: NextRequest) {
     );
   }
 
+  const cursorResult = cursorFromParams(searchParams);
+  if ("error" in cursorResult) {
+    return NextResponse.json({ error: cursorResult.error }, { status: 400 });
+  }
+  const { cursor } = cursorResult;
+
   try {
     const context = await getTenantContext();
 
@@ -61,6 +84,17 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Paging and polling requests belong to an access already logged
+    const redactor = await resolveRedactor(supabase, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      surface: "conversation",
+      logAccess: !cursor,
+      metadata: { conversation_id: conversationId },
+      request,
+    });
+    const redact = (msgs: MessageWithMedia[]) => (redactor ? redactor.record(msgs) : msgs);
+
     const selectFields = `
         id,
         conversation_id,
@@ -99,10 +133,10 @@ export async function GET(request: NextRequest) {
 
     // "Around" mode: fetch a window of messages centered on a specific message
     if (around) {
-      // Look up the target message's timestamp
+      // Look up the target message's position
       const { data: targetMsg, error: targetErr } = await supabase
         .from("messages")
-        .select("sent_at")
+        .select(selectFields)
         .eq("id", around)
         .eq("conversation_id", conversationId)
         .single();
@@ -114,103 +148,60 @@ export async function GET(request: NextRequest) {
         );
       }
 
-      const targetTime = targetMsg.sent_at;
+      const target = targetMsg as unknown as MessageWithMedia;
       const halfWindow = 25;
 
-      // Fetch messages before (including the target)
-      const { data: beforeData } = await supabase
-        .from("messages")
-        .select(selectFields)
-        .eq("conversation_id", conversationId)
-        .lte("sent_at", targetTime)
-        .order("sent_at", { ascending: false })
-        .limit(halfWindow + 1); // +1 to include the target itself
-
-      // Fetch messages after the target
-      const { data: afterData } = await supabase
-        .from("messages")
-        .select(selectFields)
-        .eq("conversation_id", conversationId)
-        .gt("sent_at", targetTime)
-        .order("sent_at", { ascending: true })
-        .limit(halfWindow);
-
-      // Merge and deduplicate by id, in chronological order
-      const beforeMsgs = ((beforeData || []) as unknown as MessageWithMedia[]).reverse();
-      const afterMsgs = (afterData || []) as unknown as MessageWithMedia[];
-      const seen = new Set<string>();
-      const messages: MessageWithMedia[] = [];
-      for (const m of [...beforeMsgs, ...afterMsgs]) {
-        if (!seen.has(m.id)) {
-          seen.add(m.id);
-          messages.push(m);
-        }
-      }
-
-      await fixOrphanedMedia(messages);
-
-      // Check for older/newer messages beyond the window
-      let hasMore = false;
-      if (messages.length > 0) {
-        const { count: olderCount } = await supabase
+      // Fetch messages either side of the target, one extra to detect more
+      const [{ data: olderData }, { data: newerData }] = await Promise.all([
+        supabase
           .from("messages")
-          .select("id", { count: "exact", head: true })
+          .select(selectFields)
           .eq("conversation_id", conversationId)
-          .lt("sent_at", messages[0].sent_at);
-        hasMore = (olderCount || 0) > 0;
-      }
-
-      let hasNewer = false;
-      if (messages.length > 0) {
-        const { count: newerCount } = await supabase
+          .or(keysetFilter("sent_at", { t: target.sent_at, id: target.id, dir: "next" }))
+          .order("sent_at", { ascending: false })
+          .order("id", { ascending: false })
+          .limit(halfWindow + 1),
+        supabase
           .from("messages")
-          .select("id", { count: "exact", head: true })
+          .select(selectFields)
           .eq("conversation_id", conversationId)
-          .gt("sent_at", messages[messages.length - 1].sent_at);
-        hasNewer = (newerCount || 0) > 0;
-      }
+          .or(keysetFilter("sent_at", { t: target.sent_at, id: target.id, dir: "prev" }))
+          .order("sent_at", { ascending: true })
+          .order("id", { ascending: true })
+          .limit(halfWindow + 1),
+      ]);
+
+      const older = (olderData || []) as unknown as MessageWithMedia[];
+      const newer = (newerData || []) as unknown as MessageWithMedia[];
+
+      // Chronological order, as the conversation view renders it
+      const messages = [
+        ...older.slice(0, halfWindow).reverse(),
+        target,
+        ...newer.slice(0, halfWindow),
+      ];
 
-      return NextResponse.json({
-        data: messages,
-        total: messages.length,
-        has_more: hasMore,
-        has_newer: hasNewer,
-      });
-    }
+      await fixOrphanedMedia(messages);
 
-    // When "latest" is set, fetch the most recent messages (for initial monitor load)
-    // When "before" is set, fetch older messages (for infinite scroll up)
-    // When "after" is set, fetch newer messages (for polling new messages)
-    const isLatestMode = latest === "true" && !before && !after;
+      return NextResponse.json(chronologicalPage(redact(messages), older.length > halfWindow, newer.length > halfWindow));
+    }
 
+    // Without a cursor, fetch the most recent messages (initial load).
+    // A "next" cursor pages back through history (infinite scroll up); a
+    // "prev" cursor fetches messages newer than the ones loaded (polling).
     let query = supabase
       .from("messages")
-      .select(selectFields, { count: "exact" })
-      .eq("conversation_id", conversationId);
-
-    // Handle pagination
-    if (before) {
-      query = query.lt("sent_at", before);
-    }
-    if (after) {
-      query = query.gt("sent_at", after);
+      .select(selectFields)
+      .eq("conversation_id", conversationId)
+      .order("sent_at", cursorOrder(cursor))
+      .order("id", cursorOrder(cursor))
+      .limit(limit + 1);
+
+    if (cursor) {
+      query = query.or(keysetFilter("sent_at", cursor));
     }
 
-    // Order: descending for latest mode (to get newest first), then we'll reverse
-    // For before/after pagination, use appropriate order
-    if (isLatestMode || before) {
-      query = query.order("sent_at", { ascending: false }).limit(limit);
-    } else {
-      query = query.order("sent_at", { ascending: true }).limit(limit);
-    }
-
-    const { data, error, count } = await query;
-
-    // For latest mode or "before" pagination, reverse to chronological order
-    let messages = (data || []) as unknown as MessageWithMedia[];
-    if (isLatestMode || before) {
-      messages = messages.reverse();
-    }
+    const { data, error } = await query;
 
     if (error) {
       console.error("Error fetching messages:", error);
@@ -220,40 +211,12 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    await fixOrphanedMedia(messages);
+    const page = paginate((data || []) as unknown as MessageWithMedia[], limit, "sent_at", cursor);
+    const messages = page.data.reverse();
 
-    // Check if there are older messages (for infinite scroll up)
-    let hasMore = false;
-    if (messages.length > 0) {
-      const firstMessageTime = messages[0].sent_at;
-      const { count: olderCount } = await supabase
-        .from("messages")
-        .select("id", { count: "exact", head: true })
-        .eq("conversation_id", conversationId)
-        .lt("sent_at", firstMessageTime);
-
-      hasMore = (olderCount || 0) > 0;
-    }
-
-    // Check if there are newer messages (for polling)
-    let hasNewer = false;
-    if (messages.length > 0) {
-      const lastMessageTime = messages[messages.length - 1].sent_at;
-      const { count: newerCount } = await supabase
-        .from("messages")
-        .select("id", { count: "exact", head: true })
-        .eq("conversation_id", conversationId)
-        .gt("sent_at", lastMessageTime);
-
-      hasNewer = (newerCount || 0) > 0;
-    }
+    await fixOrphanedMedia(messages);
 
-    return NextResponse.json({
-      data: messages,
-      total: count || 0,
-      has_more: hasMore,
-      has_newer: hasNewer,
-    });
+    return NextResponse.json(chronologicalPage(redact(messages), page.has_more, page.has_newer));
   } catch (error) {
     console.error("Error in messages API:", error);
     return NextResponse.json(
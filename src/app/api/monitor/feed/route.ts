@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { getTenantContext } from "@/lib/tenant";
+import { resolveRedactor } from "@/lib/redaction-access";
 
 export const dynamic = "force-dynamic";
 
@@ -137,6 +138,11 @@ export async function GET(request: NextRequest) {
       .order("sent_at", { ascending: false })
       .limit(limit);
 
+    // Only the 3CX system picked in the header, if any
+    if (context.pbxInstanceId) {
+      query = query.eq("pbx_instance_id", context.pbxInstanceId);
+    }
+
     // Filter by specific conversations if provided
     if (conversationIds && conversationIds.length > 0) {
       // Validate user has access to these conversations
@@ -172,8 +178,17 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Polling requests belong to the feed load already logged
+    const redactor = await resolveRedactor(supabase, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      surface: "monitor_feed",
+      logAccess: !since,
+      request,
+    });
+
     // Transform the data
-    const transformedMessages = (messages || []).map((msg) => {
+    const transformedMessages = (redactor ? redactor.record(messages || []) : messages || []).map((msg) => {
       const conv = Array.isArray(msg.conversation) ? msg.conversation[0] : msg.conversation;
       return {
         id: msg.id,
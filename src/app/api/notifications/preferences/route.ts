@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+
+export const dynamic = "force-dynamic";
+
+// Notification types a user can route; defaults match getUserPreferences
+const ROUTABLE_TYPES = [
+  { notification_type: "sync_error", label: "Sync errors", description: "A sync type keeps failing" },
+  { notification_type: "storage_warning", label: "Storage warnings", description: "Storage nearing the plan limit or sync paused" },
+  { notification_type: "payment_failed", label: "Payment failures", description: "A subscription payment could not be processed" },
+  { notification_type: "saved_search_alert", label: "Search alerts", description: "A scheduled saved search found new matches" },
+  { notification_type: "policy_flag", label: "Policy flags", description: "Messages flagged by a monitoring rule, or a flag escalated" },
+];
+
+const CHANNEL_COLUMNS = ["email_enabled", "sms_enabled", "push_enabled", "slack_enabled", "teams_enabled"] as const;
+
+const DEFAULTS: Record<(typeof CHANNEL_COLUMNS)[number], boolean> = {
+  email_enabled: true,
+  sms_enabled: false,
+  push_enabled: true,
+  slack_enabled: false,
+  teams_enabled: false,
+};
+
+// The current user's channel routing per notification type
+export async function GET() {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated || !context.userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: rows, error } = await supabase
+      .from("user_notification_preferences")
+      .select("notification_type, email_enabled, sms_enabled, push_enabled, slack_enabled, teams_enabled")
+      .eq("user_id", context.userId);
+
+    if (error) {
+      console.error("Error fetching notification preferences:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch notification preferences" },
+        { status: 500 }
+      );
+    }
+
+    const preferences = ROUTABLE_TYPES.map((type) => {
+      const row = (rows || []).find((r) => r.notification_type === type.notification_type);
+      const channels = Object.fromEntries(
+        CHANNEL_COLUMNS.map((column) => [column, row?.[column] ?? DEFAULTS[column]])
+      );
+      return { ...type, ...channels };
+    });
+
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    console.error("Error in notification preferences API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Body: { preferences: [{ notification_type, email_enabled, sms_enabled, ... }] }
+// Each entry replaces the full routing for its type; omitted channels are off.
+export async function PUT(request: NextRequest) {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated || !context.userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+
+    if (!Array.isArray(body.preferences)) {
+      return NextResponse.json({ error: "preferences must be an array" }, { status: 400 });
+    }
+
+    const now = new Date().toISOString();
+    const rows: Record<string, unknown>[] = [];
+
+    for (const pref of body.preferences) {
+      if (!ROUTABLE_TYPES.some((t) => t.notification_type === pref?.notification_type)) {
+        return NextResponse.json(
+          { error: `Unknown notification type: ${pref?.notification_type}` },
+          { status: 400 }
+        );
+      }
+
+      const row: Record<string, unknown> = {
+        user_id: context.userId,
+        notification_type: pref.notification_type,
+        updated_at: now,
+      };
+      for (const column of CHANNEL_COLUMNS) {
+        row[column] = !!pref[column];
+      }
+      rows.push(row);
+    }
+
+    const supabase = createAdminClient();
+
+    const { error } = await supabase
+      .from("user_notification_preferences")
+      .upsert(rows, { onConflict: "user_id,notification_type" });
+
+    if (error) {
+      console.error("Error saving notification preferences:", error);
+      return NextResponse.json(
+        { error: "Failed to save notification preferences" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error saving notification preferences:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+
+export const dynamic = "force-dynamic";
+
+// The current tenant's 3CX systems for the dashboard filter, and which one
+// is selected (null = all)
+export async function GET() {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ instances: [], selected: null });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: instances, error } = await supabase
+      .from("pbx_instances")
+      .select("id, name, is_primary")
+      .eq("tenant_id", context.tenantId)
+      .order("is_primary", { ascending: false })
+      .order("name");
+
+    if (error) {
+      console.error("Failed to fetch PBX instances:", error);
+      return NextResponse.json({ error: "Failed to fetch PBX instances" }, { status: 500 });
+    }
+
+    return NextResponse.json({ instances: instances || [], selected: context.pbxInstanceId });
+  } catch (error) {
+    console.error("PBX instances API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
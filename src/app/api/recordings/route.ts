@@ -1,17 +1,26 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { getTenantContext } from "@/lib/tenant";
+import { cursorFromParams, cursorOrder, keysetFilter, paginate } from "@/lib/cursor";
+import { extensionGrantFilter, type ExtensionGrant } from "@/lib/user-access";
 
 export const dynamic = "force-dynamic";
 
+const EMPTY_PAGE = { data: [], total: 0, next_cursor: null, prev_cursor: null, has_more: false, has_newer: false };
+
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
-  const page = parseInt(searchParams.get("page") || "1");
-  const pageSize = Math.min(parseInt(searchParams.get("page_size") || "20"), 50);
+  const limit = Math.min(parseInt(searchParams.get("limit") || "20"), 50);
   const extensionNumber = searchParams.get("extension");
   const direction = searchParams.get("direction");
   const search = searchParams.get("search");
 
+  const cursorResult = cursorFromParams(searchParams);
+  if ("error" in cursorResult) {
+    return NextResponse.json({ error: cursorResult.error }, { status: 400 });
+  }
+  const { cursor } = cursorResult;
+
   try {
     const context = await getTenantContext();
 
@@ -25,7 +34,6 @@ export async function GET(request: NextRequest) {
 
     // Use admin client to bypass RLS after validating user access
     const supabase = createAdminClient();
-    const offset = (page - 1) * pageSize;
 
     // Check if user is admin (bypass permission filtering)
     const { data: profile } = await supabase
@@ -52,8 +60,8 @@ export async function GET(request: NextRequest) {
 
     const bypassFiltering = isSuperAdmin || isGlobalAdmin || isTenantAdmin;
 
-    // Get permitted extensions for recordings (if not admin)
-    let permittedExtensionNumbers: Set<string> | null = null;
+    // Get permitted extensions for recordings (if not admin), each on its own 3CX system
+    let permittedExtensions: ExtensionGrant[] | null = null;
 
     if (!bypassFiltering) {
       // First check if user has the recordings feature enabled
@@ -67,11 +75,7 @@ export async function GET(request: NextRequest) {
       // If no feature permissions record exists or recordings is disabled, deny access
       if (!featurePerms || !featurePerms.can_view_recordings) {
         return NextResponse.json({
-          data: [],
-          total: 0,
-          page,
-          page_size: pageSize,
-          has_more: false,
+          ...EMPTY_PAGE,
           message: "Recording access is not enabled. Contact your administrator.",
         });
       }
@@ -79,7 +83,7 @@ export async function GET(request: NextRequest) {
       // Get extensions user has recording access to
       const { data: extensionPermissions } = await supabase
         .from("user_extension_permissions")
-        .select("extension_id, can_access_recordings, extensions(extension_number)")
+        .select("extension_id, can_access_recordings, extensions(extension_number, pbx_instance_id)")
         .eq("user_id", context.userId)
         .eq("tenant_id", context.tenantId)
         .eq("can_access_recordings", true);
@@ -87,49 +91,67 @@ export async function GET(request: NextRequest) {
       if (!extensionPermissions || extensionPermissions.length === 0) {
         // User has no recording permissions
         return NextResponse.json({
-          data: [],
-          total: 0,
-          page,
-          page_size: pageSize,
-          has_more: false,
+          ...EMPTY_PAGE,
           message: "No recording access. Contact your administrator.",
         });
       }
 
-      permittedExtensionNumbers = new Set(
-        extensionPermissions
-          .map((p) => {
-            const ext = p.extensions as unknown as { extension_number: string } | null;
-            return ext?.extension_number;
-          })
-          .filter((n): n is string => !!n)
-      );
+      permittedExtensions = extensionPermissions.flatMap((p) => {
+        type ExtensionRow = { extension_number: string; pbx_instance_id: string | null };
+        const extRaw = p.extensions as unknown as ExtensionRow | ExtensionRow[] | null;
+        const ext = Array.isArray(extRaw) ? extRaw[0] : extRaw;
+        return ext?.extension_number
+          ? [{ number: ext.extension_number, pbxInstanceId: ext.pbx_instance_id ?? null, recordings: true }]
+          : [];
+      });
+
+      if (permittedExtensions.length === 0) {
+        return NextResponse.json({
+          ...EMPTY_PAGE,
+          message: "No recording access. Contact your administrator.",
+        });
+      }
     }
 
-    // Build query (use started_at - the actual column name in the database)
+    // Keyset paging on (started_at, id) - started_at is the actual column name
+    // in the database. Only the first page pays for an estimated total.
     let query = supabase
       .from("call_recordings")
-      .select("*", { count: "exact" })
+      .select("*", { count: cursor ? undefined : "estimated" })
       .eq("tenant_id", context.tenantId)
-      .order("started_at", { ascending: false })
-      .range(offset, offset + pageSize - 1);
+      .order("started_at", cursorOrder(cursor))
+      .order("id", cursorOrder(cursor))
+      .limit(limit + 1);
+
+    if (cursor) {
+      query = query.or(keysetFilter("started_at", cursor));
+    }
+
+    // Only the 3CX system picked in the header, if any
+    if (context.pbxInstanceId) {
+      query = query.eq("pbx_instance_id", context.pbxInstanceId);
+    }
 
-    // Filter by permitted extensions if not admin
+    // Filter by permitted extensions if not admin. Extension numbers repeat
+    // across 3CX systems, so each number only matches on its own system.
     // Note: call_recordings uses caller_number for the extension that made/received the call
-    if (permittedExtensionNumbers && permittedExtensionNumbers.size > 0) {
-      const extArray = Array.from(permittedExtensionNumbers);
-      query = query.in("caller_number", extArray);
+    const grantFilter = permittedExtensions ? extensionGrantFilter(permittedExtensions, "caller_number") : null;
+    if (grantFilter) {
+      query = query.or(grantFilter);
     }
 
     // Filter by extension if specified (and user has access)
     if (extensionNumber) {
-      if (permittedExtensionNumbers && !permittedExtensionNumbers.has(extensionNumber)) {
+      if (
+        permittedExtensions &&
+        !permittedExtensions.some(
+          (grant) =>
+            grant.number === extensionNumber &&
+            (!context.pbxInstanceId || grant.pbxInstanceId === context.pbxInstanceId)
+        )
+      ) {
         return NextResponse.json({
-          data: [],
-          total: 0,
-          page,
-          page_size: pageSize,
-          has_more: false,
+          ...EMPTY_PAGE,
           message: "No access to this extension's recordings.",
         });
       }
@@ -154,11 +176,7 @@ export async function GET(request: NextRequest) {
       if (error.code === "42P01") {
         // Table doesn't exist - return empty data instead of error
         return NextResponse.json({
-          data: [],
-          total: 0,
-          page,
-          page_size: pageSize,
-          has_more: false,
+          ...EMPTY_PAGE,
           message: "Call recordings table not yet created. Run migrations first.",
         });
       }
@@ -169,11 +187,8 @@ export async function GET(request: NextRequest) {
     }
 
     return NextResponse.json({
-      data: data || [],
-      total: count || 0,
-      page,
-      page_size: pageSize,
-      has_more: (count || 0) > offset + pageSize,
+      ...paginate(data || [], limit, "started_at", cursor),
+      total: count ?? null,
     });
   } catch (error) {
     console.error("Error in recordings API:", error);
@@ -3,6 +3,7 @@ import { createAdminClient } from "@/lib/supabase/admin";
 import { getTenantContext } from "@/lib/tenant";
 import { withRateLimit } from "@/lib/api-utils";
 import { rateLimitConfigs } from "@/lib/rate-limit";
+import { resolveRedactor } from "@/lib/redaction-access";
 
 export const dynamic = "force-dynamic";
 
@@ -26,6 +27,7 @@ export async function GET(request: NextRequest) {
   const extension = searchParams.get("extension");
   const includeStats = searchParams.get("include_stats") === "true";
   const limit = Math.min(parseInt(searchParams.get("limit") || "500"), 5000);
+  const redactRequested = searchParams.get("redact") === "true";
 
   try {
     const context = await getTenantContext();
@@ -78,6 +80,7 @@ export async function GET(request: NextRequest) {
         limit,
         bypassFiltering,
         userId: context.userId,
+        pbxInstanceId: context.pbxInstanceId,
       }
     );
 
@@ -87,8 +90,19 @@ export async function GET(request: NextRequest) {
       stats = calculateStats(reportType, reportResult.data);
     }
 
+    // Reports are printed to PDF and shared, so they follow the export rules
+    const redactor = await resolveRedactor(supabase, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      surface: "report",
+      requested: redactRequested,
+      metadata: { type: reportType },
+      request,
+    });
+
     return NextResponse.json({
-      data: reportResult.data || [],
+      data: redactor ? redactor.record(reportResult.data || []) : reportResult.data || [],
+      redacted: !!redactor,
       total: reportResult.total || 0,
       stats,
       report_type: reportType,
@@ -113,6 +127,7 @@ interface ReportFilters {
   limit: number;
   bypassFiltering: boolean;
   userId: string;
+  pbxInstanceId: string | null; // Only the 3CX system picked in the header, if any
 }
 
 async function getReportData(
@@ -121,21 +136,21 @@ async function getReportData(
   tenantId: string,
   filters: ReportFilters
 ) {
-  const { startDate, endDate, direction, status, extension, limit } = filters;
+  const { startDate, endDate, direction, status, extension, limit, pbxInstanceId } = filters;
 
   switch (reportType) {
     case "call_logs":
-      return getCallLogsReport(supabase, tenantId, { startDate, endDate, direction, status, extension, limit });
+      return getCallLogsReport(supabase, tenantId, { startDate, endDate, direction, status, extension, limit, pbxInstanceId });
     case "recordings":
-      return getRecordingsReport(supabase, tenantId, { startDate, endDate, direction, extension, limit });
+      return getRecordingsReport(supabase, tenantId, { startDate, endDate, direction, extension, limit, pbxInstanceId });
     case "voicemails":
-      return getVoicemailsReport(supabase, tenantId, { startDate, endDate, extension, limit });
+      return getVoicemailsReport(supabase, tenantId, { startDate, endDate, extension, limit, pbxInstanceId });
     case "faxes":
-      return getFaxesReport(supabase, tenantId, { startDate, endDate, direction, extension, limit });
+      return getFaxesReport(supabase, tenantId, { startDate, endDate, direction, extension, limit, pbxInstanceId });
     case "messages":
-      return getMessagesReport(supabase, tenantId, { startDate, endDate, limit });
+      return getMessagesReport(supabase, tenantId, { startDate, endDate, limit, pbxInstanceId });
     case "meetings":
-      return getMeetingsReport(supabase, tenantId, { startDate, endDate, extension, limit });
+      return getMeetingsReport(supabase, tenantId, { startDate, endDate, extension, limit, pbxInstanceId });
     default:
       return { data: [], total: 0 };
   }
@@ -144,7 +159,7 @@ async function getReportData(
 async function getCallLogsReport(
   supabase: ReturnType<typeof createAdminClient>,
   tenantId: string,
-  filters: { startDate: string | null; endDate: string | null; direction: string | null; status: string | null; extension: string | null; limit: number }
+  filters: { startDate: string | null; endDate: string | null; direction: string | null; status: string | null; extension: string | null; limit: number; pbxInstanceId: string | null }
 ) {
   let query = supabase
     .from("call_logs")
@@ -153,6 +168,9 @@ async function getCallLogsReport(
     .order("started_at", { ascending: false })
     .limit(filters.limit);
 
+  if (filters.pbxInstanceId) {
+    query = query.eq("pbx_instance_id", filters.pbxInstanceId);
+  }
   if (filters.startDate) {
     query = query.gte("started_at", `${filters.startDate}T00:00:00.000Z`);
   }
@@ -177,7 +195,7 @@ async function getCallLogsReport(
 async function getRecordingsReport(
   supabase: ReturnType<typeof createAdminClient>,
   tenantId: string,
-  filters: { startDate: string | null; endDate: string | null; direction: string | null; extension: string | null; limit: number }
+  filters: { startDate: string | null; endDate: string | null; direction: string | null; extension: string | null; limit: number; pbxInstanceId: string | null }
 ) {
   let query = supabase
     .from("call_recordings")
@@ -186,6 +204,9 @@ async function getRecordingsReport(
     .order("started_at", { ascending: false })
     .limit(filters.limit);
 
+  if (filters.pbxInstanceId) {
+    query = query.eq("pbx_instance_id", filters.pbxInstanceId);
+  }
   if (filters.startDate) {
     query = query.gte("started_at", `${filters.startDate}T00:00:00.000Z`);
   }
@@ -207,7 +228,7 @@ async function getRecordingsReport(
 async function getVoicemailsReport(
   supabase: ReturnType<typeof createAdminClient>,
   tenantId: string,
-  filters: { startDate: string | null; endDate: string | null; extension: string | null; limit: number }
+  filters: { startDate: string | null; endDate: string | null; extension: string | null; limit: number; pbxInstanceId: string | null }
 ) {
   // Join with extensions to get extension_number for display
   let query = supabase
@@ -217,6 +238,9 @@ async function getVoicemailsReport(
     .order("received_at", { ascending: false })
     .limit(filters.limit);
 
+  if (filters.pbxInstanceId) {
+    query = query.eq("pbx_instance_id", filters.pbxInstanceId);
+  }
   if (filters.startDate) {
     query = query.gte("received_at", `${filters.startDate}T00:00:00.000Z`);
   }
@@ -224,15 +248,19 @@ async function getVoicemailsReport(
     query = query.lte("received_at", `${filters.endDate}T23:59:59.999Z`);
   }
   if (filters.extension) {
-    // Look up extension_id from extension_number first
-    const { data: ext } = await supabase
+    // Look up extension_id from extension_number first. The same number can
+    // exist on several 3CX systems when none is picked.
+    let extQuery = supabase
       .from("extensions")
       .select("id")
       .eq("tenant_id", tenantId)
-      .eq("extension_number", filters.extension)
-      .single();
-    if (ext) {
-      query = query.eq("extension_id", ext.id);
+      .eq("extension_number", filters.extension);
+    if (filters.pbxInstanceId) {
+      extQuery = extQuery.eq("pbx_instance_id", filters.pbxInstanceId);
+    }
+    const { data: exts } = await extQuery;
+    if (exts && exts.length > 0) {
+      query = query.in("extension_id", exts.map((ext) => ext.id));
     }
   }
 
@@ -244,7 +272,7 @@ async function getVoicemailsReport(
 async function getFaxesReport(
   supabase: ReturnType<typeof createAdminClient>,
   tenantId: string,
-  filters: { startDate: string | null; endDate: string | null; direction: string | null; extension: string | null; limit: number }
+  filters: { startDate: string | null; endDate: string | null; direction: string | null; extension: string | null; limit: number; pbxInstanceId: string | null }
 ) {
   let query = supabase
     .from("faxes")
@@ -253,6 +281,9 @@ async function getFaxesReport(
     .order("sent_received_at", { ascending: false })
     .limit(filters.limit);
 
+  if (filters.pbxInstanceId) {
+    query = query.eq("pbx_instance_id", filters.pbxInstanceId);
+  }
   if (filters.startDate) {
     query = query.gte("sent_received_at", `${filters.startDate}T00:00:00.000Z`);
   }
@@ -274,7 +305,7 @@ async function getFaxesReport(
 async function getMessagesReport(
   supabase: ReturnType<typeof createAdminClient>,
   tenantId: string,
-  filters: { startDate: string | null; endDate: string | null; limit: number }
+  filters: { startDate: string | null; endDate: string | null; limit: number; pbxInstanceId: string | null }
 ) {
   let query = supabase
     .from("messages")
@@ -296,6 +327,9 @@ async function getMessagesReport(
     .order("sent_at", { ascending: false })
     .limit(filters.limit);
 
+  if (filters.pbxInstanceId) {
+    query = query.eq("pbx_instance_id", filters.pbxInstanceId);
+  }
   if (filters.startDate) {
     query = query.gte("sent_at", `${filters.startDate}T00:00:00.000Z`);
   }
@@ -324,7 +358,7 @@ async function getMessagesReport(
 async function getMeetingsReport(
   supabase: ReturnType<typeof createAdminClient>,
   tenantId: string,
-  filters: { startDate: string | null; endDate: string | null; extension: string | null; limit: number }
+  filters: { startDate: string | null; endDate: string | null; extension: string | null; limit: number; pbxInstanceId: string | null }
 ) {
   let query = supabase
     .from("meeting_recordings")
@@ -333,6 +367,9 @@ async function getMeetingsReport(
     .order("uploaded_at", { ascending: false })
     .limit(filters.limit);
 
+  if (filters.pbxInstanceId) {
+    query = query.eq("pbx_instance_id", filters.pbxInstanceId);
+  }
   if (filters.startDate) {
     query = query.gte("meeting_started_at", `${filters.startDate}T00:00:00.000Z`);
   }
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import {
+  SAVED_SEARCH_COLUMNS,
+  hasSearchCriteria,
+  nextSavedSearchRun,
+  parseSavedSearchInput,
+  type SavedSearch,
+} from "@/lib/saved-searches";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Update a saved search (its owner, or a tenant admin)
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const parsed = parseSavedSearchInput(body, { partial: true });
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { input } = parsed;
+
+    const supabase = createAdminClient();
+
+    const { data: existing } = await supabase
+      .from("saved_searches")
+      .select(SAVED_SEARCH_COLUMNS)
+      .eq("id", id)
+      .eq("tenant_id", context.tenantId)
+      .single();
+
+    if (!existing) {
+      return NextResponse.json({ error: "Saved search not found" }, { status: 404 });
+    }
+
+    const search = existing as SavedSearch;
+    const isAdmin = ["admin", "super_admin"].includes(context.role || "");
+    if (search.user_id !== context.userId && !isAdmin) {
+      return NextResponse.json({ error: "Only the owner can change this search" }, { status: 403 });
+    }
+
+    if (!hasSearchCriteria(input.query ?? search.query, input.filters ?? search.filters)) {
+      return NextResponse.json(
+        { error: "Enter a search term of at least 2 characters or choose a filter" },
+        { status: 400 }
+      );
+    }
+
+    const updateData: Record<string, unknown> = {
+      ...input,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (input.schedule !== undefined && input.schedule !== search.schedule) {
+      const now = new Date();
+      updateData.next_run_at = nextSavedSearchRun(input.schedule, now);
+      // Turning alerts on shouldn't report everything since the search was saved
+      if (search.schedule === "none") {
+        updateData.last_run_at = now.toISOString();
+      }
+    }
+
+    const { data: updated, error } = await supabase
+      .from("saved_searches")
+      .update(updateData)
+      .eq("id", id)
+      .select(SAVED_SEARCH_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error("Error updating saved search:", error);
+      return NextResponse.json(
+        { error: "Failed to update saved search" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ search: updated });
+  } catch (error) {
+    console.error("Error updating saved search:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a saved search and its run history (its owner, or a tenant admin)
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+
+    let query = supabase
+      .from("saved_searches")
+      .delete()
+      .eq("id", id)
+      .eq("tenant_id", context.tenantId);
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      query = query.eq("user_id", context.userId);
+    }
+
+    const { data: deleted, error } = await query.select("id").maybeSingle();
+
+    if (error) {
+      console.error("Error deleting saved search:", error);
+      return NextResponse.json(
+        { error: "Failed to delete saved search" },
+        { status: 500 }
+      );
+    }
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Saved search not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting saved search:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
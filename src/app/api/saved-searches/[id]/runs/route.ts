@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { redactRunMatches, runSavedSearch } from "@/lib/search-alerts";
+import { resolveRedactor } from "@/lib/redaction-access";
+import {
+  SAVED_SEARCH_COLUMNS,
+  SAVED_SEARCH_RUN_COLUMNS,
+  type SavedSearch,
+  type SavedSearchRun,
+} from "@/lib/saved-searches";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Runs match with the owner's permissions, so only the owner (or a tenant
+// admin) sees their history or can trigger one
+async function loadOwnedSearch(id: string) {
+  const context = await getTenantContext();
+
+  if (!context.isAuthenticated) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  if (!context.tenantId) {
+    return { error: NextResponse.json({ error: "No tenant context" }, { status: 400 }) };
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: search } = await supabase
+    .from("saved_searches")
+    .select(SAVED_SEARCH_COLUMNS)
+    .eq("id", id)
+    .eq("tenant_id", context.tenantId)
+    .single();
+
+  if (!search) {
+    return { error: NextResponse.json({ error: "Saved search not found" }, { status: 404 }) };
+  }
+
+  const isAdmin = ["admin", "super_admin"].includes(context.role || "");
+  if (search.user_id !== context.userId && !isAdmin) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+
+  return { search: search as SavedSearch, supabase, context };
+}
+
+// Run history, newest first
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const result = await loadOwnedSearch(id);
+    if ("error" in result) return result.error;
+
+    const { data: runs, error } = await result.supabase
+      .from("saved_search_runs")
+      .select(SAVED_SEARCH_RUN_COLUMNS)
+      .eq("saved_search_id", id)
+      .order("started_at", { ascending: false })
+      .limit(30);
+
+    if (error) {
+      console.error("Error fetching saved search runs:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch run history" },
+        { status: 500 }
+      );
+    }
+
+    const redactor = await resolveRedactor(result.supabase, {
+      tenantId: result.search.tenant_id,
+      userId: result.context.userId,
+      surface: "saved_search",
+      metadata: { saved_search_id: id },
+      request,
+    });
+
+    return NextResponse.json({
+      runs: redactor
+        ? ((runs || []) as SavedSearchRun[]).map((run) => ({ ...run, matches: redactRunMatches(run.matches || [], redactor) }))
+        : runs || [],
+    });
+  } catch (error) {
+    console.error("Error fetching saved search runs:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Run now: checks for new matches since the last run and sends the alert
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const result = await loadOwnedSearch(id);
+    if ("error" in result) return result.error;
+
+    const run = await runSavedSearch(result.search, "manual");
+
+    // The owner's redaction is already applied; an admin running it gets theirs
+    const redactor =
+      result.context.userId === result.search.user_id
+        ? null
+        : await resolveRedactor(result.supabase, {
+            tenantId: result.search.tenant_id,
+            userId: result.context.userId,
+            surface: "saved_search",
+            metadata: { saved_search_id: id },
+            request,
+          });
+
+    return NextResponse.json(
+      { run: redactor ? { ...run, matches: redactRunMatches(run.matches || [], redactor) } : run },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error running saved search:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import {
+  MAX_SAVED_SEARCHES_PER_USER,
+  SAVED_SEARCH_COLUMNS,
+  hasSearchCriteria,
+  nextSavedSearchRun,
+  parseSavedSearchInput,
+  type SavedSearchFilters,
+} from "@/lib/saved-searches";
+
+export const dynamic = "force-dynamic";
+
+// The current user's saved searches plus everything shared in the tenant
+export async function GET() {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: searches, error } = await supabase
+      .from("saved_searches")
+      .select(
+        "id, tenant_id, user_id, name, query, filters, is_shared, schedule, delivery, last_run_at, next_run_at, created_at, updated_at, owner:user_profiles!saved_searches_user_id_fkey(email, full_name)"
+      )
+      .eq("tenant_id", context.tenantId)
+      .or(`user_id.eq.${context.userId},is_shared.eq.true`)
+      .order("name", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching saved searches:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch saved searches" },
+        { status: 500 }
+      );
+    }
+
+    // Shared searches are read-only for everyone but their owner and admins
+    const isAdmin = ["admin", "super_admin"].includes(context.role || "");
+    return NextResponse.json({
+      searches: (searches || []).map((search) => ({
+        ...search,
+        can_manage: isAdmin || search.user_id === context.userId,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching saved searches:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Save a search. Body: { name, query, filters, is_shared, schedule, delivery }
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const parsed = parseSavedSearchInput(body, { partial: false });
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { input } = parsed;
+
+    if (!hasSearchCriteria(input.query || "", input.filters as SavedSearchFilters)) {
+      return NextResponse.json(
+        { error: "Enter a search term of at least 2 characters or choose a filter" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient();
+
+    const { count } = await supabase
+      .from("saved_searches")
+      .select("id", { count: "exact", head: true })
+      .eq("tenant_id", context.tenantId)
+      .eq("user_id", context.userId);
+
+    if ((count || 0) >= MAX_SAVED_SEARCHES_PER_USER) {
+      return NextResponse.json(
+        { error: `You can save up to ${MAX_SAVED_SEARCHES_PER_USER} searches` },
+        { status: 400 }
+      );
+    }
+
+    // Alerts cover records archived from now on, not the whole history
+    const now = new Date();
+    const { data: search, error } = await supabase
+      .from("saved_searches")
+      .insert({
+        ...input,
+        tenant_id: context.tenantId,
+        user_id: context.userId,
+        last_run_at: now.toISOString(),
+        next_run_at: nextSavedSearchRun(input.schedule || "none", now),
+      })
+      .select(SAVED_SEARCH_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error("Error saving search:", error);
+      return NextResponse.json(
+        { error: "Failed to save search" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ search }, { status: 201 });
+  } catch (error) {
+    console.error("Error saving search:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,30 +3,64 @@ import { createAdminClient } from "@/lib/supabase/admin";
 import { getTenantContext } from "@/lib/tenant";
 import { withRateLimit } from "@/lib/api-utils";
 import { rateLimitConfigs } from "@/lib/rate-limit";
+import { decodeRankCursor } from "@/lib/cursor";
+import { resolveUserAccess } from "@/lib/user-access";
+import { resolveRedactor } from "@/lib/redaction-access";
+import { searchArchive } from "@/lib/search-query";
+import { SEARCH_RESULT_TYPES, isSearchResultType } from "@/lib/search";
+import { hasSearchCriteria } from "@/lib/saved-searches";
 
 export const dynamic = "force-dynamic";
 
+const EMPTY_RESULTS = {
+  data: [],
+  facets: { type: {}, channel: {}, extension: {} },
+  total: 0,
+  next_cursor: null,
+  has_more: false,
+};
+
 export async function GET(request: NextRequest) {
   const rateLimited = withRateLimit(request, rateLimitConfigs.search);
   if (rateLimited) return rateLimited;
 
   const searchParams = request.nextUrl.searchParams;
-  const query = searchParams.get("q");
-  const page = parseInt(searchParams.get("page") || "1");
-  const limit = Math.min(parseInt(searchParams.get("limit") || "20"), 100);
-  const offset = (page - 1) * limit;
+  const query = searchParams.get("q")?.trim() || "";
+  const rawLimit = parseInt(searchParams.get("limit") || "20");
+  const limit = Number.isFinite(rawLimit) && rawLimit > 0 ? Math.min(rawLimit, 100) : 20;
 
+  const typesParam = searchParams.get("types");
   const startDate = searchParams.get("start_date");
   const endDate = searchParams.get("end_date");
-  const sender = searchParams.get("sender");
+  const extension = searchParams.get("extension");
   const hasMedia = searchParams.get("has_media");
   const conversationId = searchParams.get("conversation_id");
   const channelType = searchParams.get("channel_type");
 
-  const hasDateFilter = startDate || endDate;
-  if (!hasDateFilter && (!query || query.trim().length < 2)) {
+  const requestedTypes = typesParam ? typesParam.split(",").filter(Boolean) : [...SEARCH_RESULT_TYPES];
+  if (!requestedTypes.every(isSearchResultType)) {
+    return NextResponse.json(
+      { error: `types must be a comma-separated list of: ${SEARCH_RESULT_TYPES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  const cursorParam = searchParams.get("cursor");
+  const cursor = decodeRankCursor(cursorParam);
+  if (cursorParam && !cursor) {
+    return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+  }
+
+  const narrowing = {
+    channel_type: channelType || undefined,
+    extension: extension || undefined,
+    conversation_id: conversationId || undefined,
+    start_date: startDate || undefined,
+    end_date: endDate || undefined,
+  };
+  if (!hasSearchCriteria(query, narrowing)) {
     return NextResponse.json(
-      { error: "Search query must be at least 2 characters, or provide date filters" },
+      { error: "Search query must be at least 2 characters, or provide a filter" },
       { status: 400 }
     );
   }
@@ -39,82 +73,50 @@ export async function GET(request: NextRequest) {
     }
 
     if (!context.tenantId) {
-      return NextResponse.json({ data: [], total: 0, page, page_size: limit, has_more: false });
+      return NextResponse.json(EMPTY_RESULTS);
     }
 
     const supabase = createAdminClient();
-    const q = query?.trim() || "";
-
-    // If searching by conversation name, get those IDs first (small targeted query)
-    let convNameMatchIds: string[] = [];
-    if (q) {
-      const { data: nameMatches } = await supabase
-        .from("conversations")
-        .select("id")
-        .eq("tenant_id", context.tenantId)
-        .ilike("conversation_name", `%${q}%`)
-        .limit(200);
-      convNameMatchIds = (nameMatches || []).map((c: { id: string }) => c.id);
-    }
 
-    // Main query — use !inner join to scope to this tenant without a large IN list
-    let dbQuery = supabase
-      .from("messages")
-      .select(
-        `*, conversations!inner(id, conversation_name, channel_type, threecx_conversation_id, is_external, is_group_chat), media_files(*)`,
-        { count: "exact" }
-      )
-      .eq("conversations.tenant_id", context.tenantId)
-      .order("sent_at", { ascending: false })
-      .range(offset, offset + limit - 1);
-
-    // Scope to a specific conversation if requested (and validate it belongs to this tenant)
-    if (conversationId) {
-      dbQuery = dbQuery.eq("conversation_id", conversationId);
+    const access = await resolveUserAccess(supabase, context.userId, context.tenantId);
+    if (!access) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    // Channel filter applied on the joined conversations table
-    if (channelType && channelType !== "all") {
-      dbQuery = dbQuery.eq("conversations.channel_type", channelType);
-    }
-
-    // Text search: message content/sender OR conversation name match
-    if (q) {
-      const orParts = [
-        `content.ilike.%${q}%`,
-        `sender_name.ilike.%${q}%`,
-        `sender_identifier.ilike.%${q}%`,
-      ];
-      if (convNameMatchIds.length > 0) {
-        orParts.push(`conversation_id.in.(${convNameMatchIds.join(",")})`);
-      }
-      dbQuery = dbQuery.or(orParts.join(","));
-    }
-
-    // Date filters
-    if (startDate) dbQuery = dbQuery.gte("sent_at", `${startDate}T00:00:00.000Z`);
-    if (endDate) dbQuery = dbQuery.lte("sent_at", `${endDate}T23:59:59.999Z`);
-
-    // Sender filter
-    if (sender) dbQuery = dbQuery.eq("sender_identifier", sender);
-
-    // Media filter
-    if (hasMedia === "true") dbQuery = dbQuery.eq("has_media", true);
-    else if (hasMedia === "false") dbQuery = dbQuery.eq("has_media", false);
-
-    const { data: messages, error, count } = await dbQuery;
+    // Later pages belong to a search already logged
+    const redactor = await resolveRedactor(supabase, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      surface: "search",
+      logAccess: !cursor,
+      metadata: { query },
+      request,
+    });
 
-    if (error) {
-      console.error("Error searching messages:", error);
-      return NextResponse.json({ error: "Failed to search messages" }, { status: 500 });
-    }
+    const page = await searchArchive(
+      supabase,
+      context.tenantId,
+      access,
+      {
+        query,
+        types: requestedTypes,
+        channelType: channelType && channelType !== "all" ? channelType : null,
+        extension: extension || null,
+        conversationId: conversationId || null,
+        hasMedia: hasMedia === "true" ? true : hasMedia === "false" ? false : null,
+        startDate,
+        endDate,
+        pbxInstanceId: context.pbxInstanceId,
+      },
+      // Facets and the total only come with the first page
+      { limit, cursor, withFacets: !cursor, redactor }
+    );
 
     return NextResponse.json({
-      data: messages || [],
-      total: count || 0,
-      page,
-      page_size: limit,
-      has_more: (count || 0) > offset + limit,
+      data: page.hits,
+      next_cursor: page.nextCursor,
+      has_more: page.hasMore,
+      ...(page.facets && { facets: page.facets, total: page.total }),
     });
   } catch (error) {
     console.error("Error in search API:", error);
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { logBackfillAction } from "@/lib/audit";
+import { kickBackfillQueue } from "@/lib/backfill";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Single backfill job with its checkpoint
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: job, error } = await supabase
+      .from("backfill_jobs")
+      .select("*")
+      .eq("id", id)
+      .eq("tenant_id", context.tenantId)
+      .single();
+
+    if (error || !job) {
+      return NextResponse.json({ error: "Backfill job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error("Error fetching backfill job:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Cancel a job, or resume a failed/cancelled one from its checkpoint
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const action = body.action;
+
+    if (action !== "cancel" && action !== "resume") {
+      return NextResponse.json({ error: "action must be cancel or resume" }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: job } = await supabase
+      .from("backfill_jobs")
+      .select("id, sync_type, status, cursor_at")
+      .eq("id", id)
+      .eq("tenant_id", context.tenantId)
+      .single();
+
+    if (!job) {
+      return NextResponse.json({ error: "Backfill job not found" }, { status: 404 });
+    }
+
+    const now = new Date().toISOString();
+    let updates: Record<string, unknown>;
+    let fromStatuses: string[];
+
+    if (action === "cancel") {
+      fromStatuses = ["queued", "running"];
+      updates = { status: "cancelled", locked_until: null, completed_at: now, updated_at: now };
+    } else {
+      // A second job of the same type may have been started since this one stopped
+      const { count: pending } = await supabase
+        .from("backfill_jobs")
+        .select("id", { count: "exact", head: true })
+        .eq("tenant_id", context.tenantId)
+        .eq("sync_type", job.sync_type)
+        .in("status", ["queued", "running"]);
+
+      if ((pending || 0) > 0) {
+        return NextResponse.json(
+          { error: `A ${job.sync_type} backfill is already in progress` },
+          { status: 409 }
+        );
+      }
+
+      fromStatuses = ["failed", "cancelled"];
+      updates = {
+        status: "queued",
+        consecutive_failures: 0,
+        last_error: null,
+        locked_until: null,
+        completed_at: null,
+        updated_at: now,
+      };
+    }
+
+    const { data: updated, error } = await supabase
+      .from("backfill_jobs")
+      .update(updates)
+      .eq("id", id)
+      .in("status", fromStatuses)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error updating backfill job:", error);
+      return NextResponse.json(
+        { error: "Failed to update backfill job" },
+        { status: 500 }
+      );
+    }
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: `Cannot ${action} a ${job.status} backfill` },
+        { status: 409 }
+      );
+    }
+
+    await logBackfillAction(action === "cancel" ? "backfill.cancelled" : "backfill.resumed", id, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      oldValues: { status: job.status, cursor_at: job.cursor_at },
+      newValues: { status: updated.status },
+      request,
+    });
+
+    if (action === "resume") {
+      await kickBackfillQueue();
+    }
+
+    return NextResponse.json({ job: updated });
+  } catch (error) {
+    console.error("Error updating backfill job:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
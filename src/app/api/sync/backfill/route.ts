@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { withRateLimit } from "@/lib/api-utils";
+import { rateLimitConfigs } from "@/lib/rate-limit";
+import { logBackfillAction } from "@/lib/audit";
+import {
+  DEFAULT_BACKFILL_CHUNK_HOURS,
+  MAX_BACKFILL_CHUNK_HOURS,
+  isBackfillSyncType,
+  kickBackfillQueue,
+} from "@/lib/backfill";
+
+export const dynamic = "force-dynamic";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Recent backfill jobs for the current tenant
+export async function GET() {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: jobs, error } = await supabase
+      .from("backfill_jobs")
+      .select("*")
+      .eq("tenant_id", context.tenantId)
+      .order("created_at", { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error("Error fetching backfill jobs:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch backfill jobs" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ jobs: jobs || [] });
+  } catch (error) {
+    console.error("Error in backfill API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Queue a backfill of one sync type over a range of UTC days (end date inclusive)
+export async function POST(request: NextRequest) {
+  const rateLimited = withRateLimit(request, rateLimitConfigs.export);
+  if (rateLimited) return rateLimited;
+
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { sync_type: syncType, start_date: startDate, end_date: endDate } = body;
+    const chunkHours = body.chunk_hours ?? DEFAULT_BACKFILL_CHUNK_HOURS;
+
+    if (!isBackfillSyncType(syncType)) {
+      return NextResponse.json({ error: "Invalid sync type" }, { status: 400 });
+    }
+
+    if (!DATE_PATTERN.test(startDate || "") || !DATE_PATTERN.test(endDate || "")) {
+      return NextResponse.json({ error: "start_date and end_date must be YYYY-MM-DD" }, { status: 400 });
+    }
+
+    const start = new Date(`${startDate}T00:00:00.000Z`);
+    const end = new Date(new Date(`${endDate}T00:00:00.000Z`).getTime() + DAY_MS);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+    }
+
+    if (start >= end) {
+      return NextResponse.json({ error: "Start date must be before end date" }, { status: 400 });
+    }
+
+    if (start.getTime() > Date.now()) {
+      return NextResponse.json({ error: "Start date cannot be in the future" }, { status: 400 });
+    }
+
+    if (!Number.isInteger(chunkHours) || chunkHours < 1 || chunkHours > MAX_BACKFILL_CHUNK_HOURS) {
+      return NextResponse.json(
+        { error: `chunk_hours must be between 1 and ${MAX_BACKFILL_CHUNK_HOURS}` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: job, error } = await supabase
+      .from("backfill_jobs")
+      .insert({
+        tenant_id: context.tenantId,
+        requested_by: context.userId,
+        sync_type: syncType,
+        status: "queued",
+        start_at: start.toISOString(),
+        end_at: end.toISOString(),
+        chunk_hours: chunkHours,
+      })
+      .select()
+      .single();
+
+    // idx_backfill_jobs_active allows one queued/running job per data type
+    if (error?.code === "23505") {
+      return NextResponse.json(
+        { error: `A ${syncType} backfill is already in progress` },
+        { status: 409 }
+      );
+    }
+
+    if (error) {
+      console.error("Error creating backfill job:", error);
+      return NextResponse.json(
+        { error: "Failed to create backfill job" },
+        { status: 500 }
+      );
+    }
+
+    await logBackfillAction("backfill.requested", job.id, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      newValues: { sync_type: syncType, start_date: startDate, end_date: endDate, chunk_hours: chunkHours },
+      request,
+    });
+
+    await kickBackfillQueue();
+
+    return NextResponse.json({ job }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating backfill job:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+import { logSyncJobAction } from "@/lib/audit";
+import { MANUAL_SYNC_JOB_PRIORITY } from "@/lib/sync-jobs";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Retry a dead-lettered job with a fresh set of attempts
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (body.action !== "retry") {
+      return NextResponse.json({ error: "action must be retry" }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: job } = await supabase
+      .from("sync_jobs")
+      .select("id, sync_type, status, attempts, last_error")
+      .eq("id", id)
+      .eq("tenant_id", context.tenantId)
+      .single();
+
+    if (!job) {
+      return NextResponse.json({ error: "Sync job not found" }, { status: 404 });
+    }
+
+    const now = new Date().toISOString();
+    const { data: updated, error } = await supabase
+      .from("sync_jobs")
+      .update({
+        status: "queued",
+        priority: MANUAL_SYNC_JOB_PRIORITY,
+        source: "manual",
+        requested_by: context.userId,
+        attempts: 0,
+        run_after: now,
+        last_error: null,
+        started_at: null,
+        finished_at: null,
+        updated_at: now,
+      })
+      .eq("id", id)
+      .eq("status", "dead")
+      .select()
+      .maybeSingle();
+
+    // Only one live job per tenant and type - a newer one is already queued
+    if (error?.code === "23505") {
+      return NextResponse.json(
+        { error: `A ${job.sync_type} sync is already queued or running` },
+        { status: 409 }
+      );
+    }
+
+    if (error) {
+      console.error("Error retrying sync job:", error);
+      return NextResponse.json(
+        { error: "Failed to retry sync job" },
+        { status: 500 }
+      );
+    }
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: `Cannot retry a ${job.status} sync job` },
+        { status: 409 }
+      );
+    }
+
+    await logSyncJobAction("sync_job.retried", id, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      oldValues: { status: job.status, attempts: job.attempts, last_error: job.last_error },
+      newValues: { status: updated.status },
+      request,
+    });
+
+    return NextResponse.json({ job: updated });
+  } catch (error) {
+    console.error("Error retrying sync job:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getTenantContext } from "@/lib/tenant";
+
+export const dynamic = "force-dynamic";
+
+// The current tenant's sync queue: queued and running jobs, dead letters, and recent successes
+export async function GET() {
+  try {
+    const context = await getTenantContext();
+
+    if (!context.isAuthenticated) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    if (!["admin", "super_admin"].includes(context.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const [active, dead, recent] = await Promise.all([
+      supabase
+        .from("sync_jobs")
+        .select("*")
+        .eq("tenant_id", context.tenantId)
+        .in("status", ["queued", "running"])
+        .order("priority", { ascending: false })
+        .order("run_after", { ascending: true }),
+      supabase
+        .from("sync_jobs")
+        .select("*")
+        .eq("tenant_id", context.tenantId)
+        .eq("status", "dead")
+        .order("finished_at", { ascending: false })
+        .limit(50),
+      supabase
+        .from("sync_jobs")
+        .select("*")
+        .eq("tenant_id", context.tenantId)
+        .eq("status", "succeeded")
+        .order("finished_at", { ascending: false })
+        .limit(20),
+    ]);
+
+    const error = active.error || dead.error || recent.error;
+    if (error) {
+      console.error("Error fetching sync jobs:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch sync jobs" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      active: active.data || [],
+      dead: dead.data || [],
+      recent: recent.data || [],
+    });
+  } catch (error) {
+    console.error("Error in sync jobs API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { getTenantContext } from "@/lib/tenant";
+import type { SyncGating } from "@/types";
 
 export const dynamic = "force-dynamic";
 
@@ -57,15 +58,20 @@ export async function GET(request: NextRequest) {
     const supabase = createAdminClient();
 
     // Get sync status for tenant (or all if super_admin with no tenant selected)
+    // A tenant with several 3CX systems has one row per system and sync type
     let syncStatusQuery = supabase
       .from("sync_status")
-      .select("*")
+      .select("*, pbx_instance:pbx_instances(id, name)")
       .order("sync_type");
 
     if (context.tenantId) {
       syncStatusQuery = syncStatusQuery.eq("tenant_id", context.tenantId);
     }
 
+    if (context.pbxInstanceId) {
+      syncStatusQuery = syncStatusQuery.eq("pbx_instance_id", context.pbxInstanceId);
+    }
+
     const { data: syncStatus, error: statusError } = await syncStatusQuery;
 
     if (statusError) {
@@ -128,6 +134,33 @@ export async function GET(request: NextRequest) {
       };
     });
 
+    // Quota/billing gate for the tenant (none for the system-wide view)
+    let gating: SyncGating | null = null;
+    if (context.tenantId) {
+      const { data: tenant } = await supabase
+        .from("tenants")
+        .select("sync_gate, sync_gate_reason, sync_gate_since, sync_gate_updated_at, storage_plans (grace_period_days)")
+        .eq("id", context.tenantId)
+        .single();
+
+      if (tenant) {
+        // storage_plans may be returned as array or single object depending on Supabase version
+        const planRaw = tenant.storage_plans;
+        const plan = Array.isArray(planRaw) ? planRaw[0] : planRaw;
+        const graceDays = plan?.grace_period_days ?? 7;
+
+        gating = {
+          gate: tenant.sync_gate || "open",
+          reason: tenant.sync_gate_reason,
+          since: tenant.sync_gate_since,
+          full_pause_at: tenant.sync_gate === "uploads_paused" && tenant.sync_gate_since
+            ? new Date(new Date(tenant.sync_gate_since).getTime() + graceDays * 24 * 60 * 60 * 1000).toISOString()
+            : null,
+          updated_at: tenant.sync_gate_updated_at,
+        };
+      }
+    }
+
     const response: {
       sync_status: typeof enrichedSyncStatus;
       stats: {
@@ -137,9 +170,11 @@ export async function GET(request: NextRequest) {
         total_extensions: number;
       };
       overall_health: "healthy" | "warning" | "critical";
+      gating: SyncGating | null;
       logs?: unknown[];
     } = {
       sync_status: enrichedSyncStatus,
+      gating,
       overall_health: enrichedSyncStatus.some((s) => s.health === "critical")
         ? "critical"
         : enrichedSyncStatus.some((s) => s.health === "warning")
@@ -165,6 +200,10 @@ export async function GET(request: NextRequest) {
         logsQuery = logsQuery.eq("tenant_id", context.tenantId);
       }
 
+      if (context.pbxInstanceId) {
+        logsQuery = logsQuery.eq("pbx_instance_id", context.pbxInstanceId);
+      }
+
       const { data: logs } = await logsQuery;
       response.logs = logs || [];
     }
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { getTenantContext } from "@/lib/tenant";
+import { MANUAL_SYNC_JOB_PRIORITY, SYNC_JOB_TYPES, isSyncJobType, type SyncJobType } from "@/lib/sync-jobs";
 
 export async function POST(request: NextRequest) {
   try {
@@ -10,19 +11,63 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    if (!context.tenantId) {
+      return NextResponse.json({ error: "No tenant context" }, { status: 400 });
+    }
+
+    // Optional body: { sync_types: [...] } - defaults to everything
+    const body = await request.json().catch(() => ({}));
+    let syncTypes: readonly SyncJobType[] = SYNC_JOB_TYPES;
+
+    if (body.sync_types !== undefined) {
+      if (
+        !Array.isArray(body.sync_types) ||
+        body.sync_types.length === 0 ||
+        !body.sync_types.every(isSyncJobType)
+      ) {
+        return NextResponse.json(
+          { error: `sync_types must be a non-empty list of: ${SYNC_JOB_TYPES.join(", ")}` },
+          { status: 400 }
+        );
+      }
+      syncTypes = body.sync_types;
+    }
+
     const supabase = createAdminClient();
 
-    // Set trigger_requested_at for all sync types for this tenant
-    // The sync service will check this and run immediately if recent
-    const { error } = await supabase
-      .from("sync_status")
-      .update({
-        trigger_requested_at: new Date().toISOString(),
-      })
-      .eq("tenant_id", context.tenantId);
-
-    if (error) {
-      console.error("Error triggering sync:", error);
+    // Jobs are per 3CX system: the one picked in the header, else every
+    // system of the tenant (a single null-instance job when it has none)
+    let instanceIds: Array<string | null> = [context.pbxInstanceId];
+    if (!context.pbxInstanceId) {
+      const { data: instances } = await supabase
+        .from("pbx_instances")
+        .select("id")
+        .eq("tenant_id", context.tenantId)
+        .eq("sync_enabled", true);
+      if (instances && instances.length > 0) instanceIds = instances.map((i) => i.id);
+    }
+
+    // Queue a high-priority job per system and sync type. If one is already
+    // waiting it is bumped instead; one that is already running gets another
+    // pass queued as soon as it finishes.
+    const results = await Promise.all(
+      instanceIds.flatMap((instanceId) =>
+        syncTypes.map((syncType) =>
+          supabase.rpc("enqueue_sync_job", {
+            p_tenant_id: context.tenantId,
+            p_sync_type: syncType,
+            p_priority: MANUAL_SYNC_JOB_PRIORITY,
+            p_source: "manual",
+            p_requested_by: context.userId,
+            p_pbx_instance_id: instanceId,
+          })
+        )
+      )
+    );
+
+    const failed = results.find((result) => result.error);
+    if (failed) {
+      console.error("Error triggering sync:", failed.error);
       return NextResponse.json(
         { error: "Failed to trigger sync" },
         { status: 500 }
@@ -31,7 +76,8 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      message: "Sync triggered - the sync service will run shortly",
+      message: "Sync queued - the sync service will run shortly",
+      job_ids: results.map((result) => result.data),
     });
   } catch (error) {
     console.error("Error in sync trigger API:", error);
@@ -2,6 +2,7 @@ import { createClient } from "@/lib/supabase/server";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { NextResponse } from "next/server";
 import { parseJsonBody } from "@/lib/api-utils";
+import { mirrorTenantConfigToPrimary } from "@/lib/pbx-instances";
 
 export async function GET() {
   try {
@@ -217,6 +218,9 @@ export async function POST(request: Request) {
       throw error;
     }
 
+    // Keep the primary 3CX system in step with the tenant-level settings
+    await mirrorTenantConfigToPrimary(adminClient, userTenant.tenant_id, updateData);
+
     // Fetch updated config (with both old and new columns)
     const { data: tenant, error: fetchError } = await adminClient
       .from("tenants")
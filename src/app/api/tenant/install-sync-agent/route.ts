@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { Client as SSHClient } from "ssh2";
+import crypto from "crypto";
 import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
 
 export const maxDuration = 120;
 export const dynamic = "force-dynamic";
@@ -11,21 +13,20 @@ const GITHUB_REPO = "https://github.com/timeshareflow/3cx-backup-sync.git";
 
 type Sender = (type: "log" | "error" | "success" | "done", msg: string) => void;
 
-function buildEnvContent(host: string, dbPassword: string): string {
+// The agent runs in local mode and writes through the ingest API with its
+// tenant's agent token. It never receives the service-role key, DATABASE_URL
+// or the Spaces credentials: files go up through presigned URLs scoped to the
+// tenant's storage prefix.
+function buildEnvContent(tenantId: string, agentToken: string, dbPassword: string): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || "https://3cxbackupwiz.vercel.app";
   const lines = [
-    "# 3CX BackupWiz Sync Service — auto-installed",
+    "# 3CX BackupWiz Sync Agent — auto-installed",
     "",
-    "# Supabase",
-    `SUPABASE_URL=${process.env.SUPABASE_URL || ""}`,
-    `SUPABASE_SERVICE_ROLE_KEY=${process.env.SUPABASE_SERVICE_ROLE_KEY || ""}`,
-    `DATABASE_URL=${process.env.DATABASE_URL || ""}`,
-    "",
-    "# DigitalOcean Spaces",
-    `DO_SPACES_KEY=${process.env.DO_SPACES_KEY || ""}`,
-    `DO_SPACES_SECRET=${process.env.DO_SPACES_SECRET || ""}`,
-    `DO_SPACES_BUCKET=${process.env.DO_SPACES_BUCKET || "3cxbackupwiz"}`,
-    `DO_SPACES_ENDPOINT=${process.env.DO_SPACES_ENDPOINT || "nyc3.digitaloceanspaces.com"}`,
-    `DO_SPACES_REGION=${process.env.DO_SPACES_REGION || "nyc3"}`,
+    "# BackupWiz ingest API",
+    "AGENT_MODE=local",
+    `API_URL=${appUrl}/api`,
+    `TENANT_ID=${tenantId}`,
+    `AGENT_TOKEN=${agentToken}`,
     "",
     "# 3CX Local PostgreSQL",
     "THREECX_DB_HOST=127.0.0.1",
@@ -34,11 +35,8 @@ function buildEnvContent(host: string, dbPassword: string): string {
     "THREECX_DB_USER=phonesystem",
     `THREECX_DB_PASSWORD=${dbPassword}`,
     "",
-    "# Sync intervals",
-    "SYNC_INTERVAL_CHAT=30",
-    "SYNC_INTERVAL_CDR=10",
-    "SYNC_INTERVAL_MEDIA=10",
-    "SYNC_INTERVAL_RECORDINGS=30",
+    "# Sync interval",
+    "SYNC_INTERVAL_SECONDS=60",
     "",
     "# Logging",
     "LOG_LEVEL=info",
@@ -144,13 +142,15 @@ function sshExec(client: SSHClient, command: string, send: Sender): Promise<numb
 }
 
 async function runInstall(params: {
+  tenantId: string;
+  agentToken: string;
   host: string;
   port: number;
   username: string;
   password: string;
   dbPassword: string;
 }, send: Sender): Promise<void> {
-  const { host, port, username, password, dbPassword } = params;
+  const { tenantId, agentToken, host, port, username, password, dbPassword } = params;
 
   send("log", `Connecting to ${host}:${port}...`);
   const ssh = await sshConnect({ host, port, username, password });
@@ -188,7 +188,7 @@ async function runInstall(params: {
     // Step 3: Write .env via SFTP (credentials never in shell command)
     send("log", "Writing configuration...");
     const sftp = await getSftp(ssh);
-    const envContent = buildEnvContent(host, dbPassword);
+    const envContent = buildEnvContent(tenantId, agentToken, dbPassword);
     await sftpWriteFile(sftp, `${SERVICE_DIR}/.env`, envContent);
     sftp.end();
     send("log", ".env written");
@@ -228,13 +228,21 @@ async function runInstall(params: {
     });
 
     if (pm2Output.includes("3cx-sync")) {
-      send("log", "Restarting existing PM2 process...");
-      await sshExec(ssh, "pm2 restart 3cx-sync --update-env && pm2 save", send);
+      // Older installs ran the centralized service (dist/index.js) with global
+      // credentials; replace the process so it starts the local agent instead
+      send("log", "Replacing existing PM2 process...");
+      await sshExec(ssh, "pm2 delete 3cx-sync", send);
+      code = await sshExec(
+        ssh,
+        `cd "${SERVICE_DIR}" && pm2 start dist/local-mode.js --name 3cx-sync --time && pm2 save`,
+        send
+      );
+      if (code !== 0) throw new Error("PM2 start failed");
     } else {
       send("log", "Starting new PM2 process...");
       code = await sshExec(
         ssh,
-        `cd "${SERVICE_DIR}" && pm2 start dist/index.js --name 3cx-sync --time && pm2 save`,
+        `cd "${SERVICE_DIR}" && pm2 start dist/local-mode.js --name 3cx-sync --time && pm2 save`,
         send
       );
       if (code !== 0) throw new Error("PM2 start failed");
@@ -267,10 +275,9 @@ export async function POST(request: Request) {
     .eq("id", user.id)
     .single();
 
-  // SECURITY: this route provisions the agent with the GLOBAL service-role key
-  // (which bypasses every tenant's RLS). It is therefore restricted to super
-  // admins only. A tenant admin could otherwise install an agent onto a machine
-  // they control, read the key from its .env, and access all tenants' data.
+  // Installing runs commands as root on the customer's server over SSH, so it
+  // stays a super admin action. The agent itself only receives its tenant's
+  // agent token (see buildEnvContent).
   const isSuper = profile?.role === "super_admin";
 
   if (!isSuper) {
@@ -278,10 +285,53 @@ export async function POST(request: Request) {
   }
 
   const body = await request.json().catch(() => ({}));
-  const { host, ssh_port = 22, ssh_user, ssh_password, db_password } = body;
+  const { tenant_id, pbx_instance_id, host, ssh_port = 22, ssh_user, ssh_password, db_password } = body;
+
+  if (!tenant_id || !host || !ssh_user || !ssh_password || !db_password) {
+    return NextResponse.json(
+      { error: "Missing required fields: tenant_id, host, ssh_user, ssh_password, db_password" },
+      { status: 400 }
+    );
+  }
 
-  if (!host || !ssh_user || !ssh_password || !db_password) {
-    return NextResponse.json({ error: "Missing required fields: host, ssh_user, ssh_password, db_password" }, { status: 400 });
+  const admin = createAdminClient();
+  const { data: tenant } = await admin
+    .from("tenants")
+    .select("id, agent_token")
+    .eq("id", tenant_id)
+    .maybeSingle();
+
+  if (!tenant) {
+    return NextResponse.json({ error: "Tenant not found" }, { status: 404 });
+  }
+
+  // Each 3CX system has its own agent token; without pbx_instance_id the
+  // tenant's primary system (or, for tenants without systems, the tenant) is meant
+  let instanceQuery = admin
+    .from("pbx_instances")
+    .select("id, agent_token")
+    .eq("tenant_id", tenant.id);
+
+  instanceQuery = pbx_instance_id
+    ? instanceQuery.eq("id", pbx_instance_id)
+    : instanceQuery.eq("is_primary", true);
+
+  const { data: instance } = await instanceQuery.maybeSingle();
+
+  if (pbx_instance_id && !instance) {
+    return NextResponse.json({ error: "PBX instance not found" }, { status: 404 });
+  }
+
+  let agentToken = (instance ? instance.agent_token : tenant.agent_token) as string | null;
+  if (!agentToken) {
+    agentToken = crypto.randomBytes(32).toString("hex");
+    const { error } = instance
+      ? await admin.from("pbx_instances").update({ agent_token: agentToken }).eq("id", instance.id)
+      : await admin.from("tenants").update({ agent_token: agentToken }).eq("id", tenant.id);
+    if (error) {
+      console.error("Error creating agent token:", error);
+      return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
   }
 
   const encoder = new TextEncoder();
@@ -297,7 +347,15 @@ export async function POST(request: Request) {
 
       try {
         await runInstall(
-          { host, port: parseInt(String(ssh_port)), username: ssh_user, password: ssh_password, dbPassword: db_password },
+          {
+            tenantId: tenant.id,
+            agentToken: agentToken!,
+            host,
+            port: parseInt(String(ssh_port)),
+            username: ssh_user,
+            password: ssh_password,
+            dbPassword: db_password,
+          },
           send
         );
         send("done", "done");
@@ -3,6 +3,7 @@ import { NextResponse } from "next/server";
 import { Pool } from "pg";
 import { Client as SSHClient } from "ssh2";
 import * as net from "net";
+import { detectThreeCXCapabilities, type ThreeCXCapabilities } from "@/lib/threecx-schema";
 
 export async function POST(request: Request) {
   let sshClient: SSHClient | null = null;
@@ -67,7 +68,11 @@ export async function POST(request: Request) {
     });
 
     if (result.success) {
-      return NextResponse.json({ success: true, message: "Connection successful via SSH tunnel" });
+      return NextResponse.json({
+        success: true,
+        message: "Connection successful via SSH tunnel",
+        capabilities: result.capabilities,
+      });
     } else {
       return NextResponse.json(
         { success: false, error: result.error },
@@ -91,7 +96,13 @@ interface TestConnectionParams {
   dbPassword: string;
 }
 
-async function testConnectionViaSshTunnel(params: TestConnectionParams): Promise<{ success: boolean; error?: string }> {
+interface TestConnectionResult {
+  success: boolean;
+  error?: string;
+  capabilities?: ThreeCXCapabilities;
+}
+
+async function testConnectionViaSshTunnel(params: TestConnectionParams): Promise<TestConnectionResult> {
   return new Promise((resolve) => {
     const sshClient = new SSHClient();
     let localServer: net.Server | null = null;
@@ -167,13 +178,20 @@ async function testConnectionViaSshTunnel(params: TestConnectionParams): Promise
 
         try {
           const client = await pool.connect();
-          await client.query("SELECT 1");
-          client.release();
+          let capabilities: ThreeCXCapabilities;
+          try {
+            await client.query("SELECT 1");
+            // Same detection the sync service runs, so the admin sees up front
+            // which 3CX release was found and what can be archived
+            capabilities = await detectThreeCXCapabilities(client);
+          } finally {
+            client.release();
+          }
 
           clearTimeout(timeout);
           resolved = true;
           await cleanup();
-          resolve({ success: true });
+          resolve({ success: true, capabilities });
         } catch (dbError) {
           clearTimeout(timeout);
           const err = dbError as Error;
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { authenticateApiKey, parseApiListParams, resolveApiRedactor, toApiRecord } from "@/lib/api-auth";
+import { cursorOrder, keysetFilter, paginate } from "@/lib/cursor";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/v1/call-logs?extension=&direction= - newest first. Scope: call_logs:read
+export async function GET(request: NextRequest) {
+  const auth = await authenticateApiKey(request, "call_logs:read");
+  if ("error" in auth) return auth.error;
+  const { context } = auth;
+
+  const params = parseApiListParams(request);
+  if ("error" in params) return params.error;
+
+  const searchParams = request.nextUrl.searchParams;
+  const extensionNumber = searchParams.get("extension");
+  const direction = searchParams.get("direction");
+
+  try {
+    if (!context.access.canViewCdr) {
+      return NextResponse.json(
+        { error: "Call history access is not enabled for this key's user" },
+        { status: 403 }
+      );
+    }
+
+    const supabase = createAdminClient();
+
+    let query = supabase
+      .from("call_logs")
+      .select("*")
+      .eq("tenant_id", context.tenantId)
+      .order("started_at", cursorOrder(params.cursor))
+      .order("id", cursorOrder(params.cursor))
+      .limit(params.limit + 1);
+
+    if (extensionNumber) query = query.eq("extension_number", extensionNumber);
+    if (direction) query = query.eq("direction", direction);
+    if (params.since) query = query.gte("started_at", params.since);
+    if (params.until) query = query.lt("started_at", params.until);
+    if (params.cursor) query = query.or(keysetFilter("started_at", params.cursor));
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching call logs for API:", error);
+      return NextResponse.json({ error: "Failed to fetch call logs" }, { status: 500 });
+    }
+
+    const page = paginate(data || [], params.limit, "started_at", params.cursor);
+    const records = page.data.map(toApiRecord);
+    const redactor = await resolveApiRedactor(supabase, context, request, {
+      resource: "call_logs",
+      firstPage: !params.cursor,
+    });
+    return NextResponse.json({ ...page, data: redactor ? redactor.record(records) : records });
+  } catch (error) {
+    console.error("Error in v1 call logs API:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { authenticateApiKey, parseApiListParams, resolveApiRedactor, toApiRecord } from "@/lib/api-auth";
+import { cursorOrder, keysetFilter, paginate } from "@/lib/cursor";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/v1/conversations - newest activity first. Scope: messages:read
+export async function GET(request: NextRequest) {
+  const auth = await authenticateApiKey(request, "messages:read");
+  if ("error" in auth) return auth.error;
+  const { context } = auth;
+
+  const params = parseApiListParams(request);
+  if ("error" in params) return params.error;
+
+  try {
+    const { access } = context;
+
+    if (!access.bypass && access.conversationIds.length === 0) {
+      return NextResponse.json({ data: [], next_cursor: null, prev_cursor: null, has_more: false, has_newer: false });
+    }
+
+    const supabase = createAdminClient();
+
+    // Conversations without messages have nothing to read and no position in the order
+    let query = supabase
+      .from("conversations")
+      .select("*, participants (*)")
+      .eq("tenant_id", context.tenantId)
+      .not("last_message_at", "is", null)
+      .order("last_message_at", cursorOrder(params.cursor))
+      .order("id", cursorOrder(params.cursor))
+      .limit(params.limit + 1);
+
+    if (!access.bypass) query = query.in("id", access.conversationIds);
+    if (params.since) query = query.gte("last_message_at", params.since);
+    if (params.until) query = query.lt("last_message_at", params.until);
+    if (params.cursor) query = query.or(keysetFilter("last_message_at", params.cursor));
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching conversations for API:", error);
+      return NextResponse.json({ error: "Failed to fetch conversations" }, { status: 500 });
+    }
+
+    const page = paginate(data || [], params.limit, "last_message_at", params.cursor);
+    const records = page.data.map(toApiRecord);
+    const redactor = await resolveApiRedactor(supabase, context, request, {
+      resource: "conversations",
+      firstPage: !params.cursor,
+    });
+    return NextResponse.json({ ...page, data: redactor ? redactor.record(records) : records });
+  } catch (error) {
+    console.error("Error in v1 conversations API:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { authenticateApiKey, toApiRecord } from "@/lib/api-auth";
+import { getSignedUrl } from "@/lib/storage/spaces";
+import { logExportAction } from "@/lib/audit";
+
+export const dynamic = "force-dynamic";
+
+const DOWNLOAD_LINK_SECONDS = 60 * 60;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/v1/exports/:id - job status, plus a download URL once completed. Scope: export:create
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const auth = await authenticateApiKey(request, "export:create");
+  if ("error" in auth) return auth.error;
+  const { context } = auth;
+
+  try {
+    const { id } = await params;
+
+    if (!context.access.bypass) {
+      return NextResponse.json({ error: "Exports require an admin's API key" }, { status: 403 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: job } = await supabase
+      .from("export_jobs")
+      .select("*")
+      .eq("id", id)
+      .eq("tenant_id", context.tenantId)
+      .single();
+
+    if (!job) {
+      return NextResponse.json({ error: "Export job not found" }, { status: 404 });
+    }
+
+    const data = toApiRecord(job);
+
+    if (job.status !== "completed" || !job.storage_path) {
+      return NextResponse.json({ data, download_url: null });
+    }
+
+    const downloadUrl = await getSignedUrl(job.storage_path, DOWNLOAD_LINK_SECONDS);
+
+    await logExportAction("export.downloaded", job.id, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      newValues: { archive_sha256: job.archive_sha256, archive_size: job.archive_size },
+      metadata: { api_key_id: context.keyId },
+      request,
+    });
+
+    return NextResponse.json({
+      data,
+      download_url: downloadUrl,
+      download_expires_at: new Date(Date.now() + DOWNLOAD_LINK_SECONDS * 1000).toISOString(),
+    });
+  } catch (error) {
+    console.error("Error in v1 export API:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
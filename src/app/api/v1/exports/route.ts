@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { authenticateApiKey, toApiRecord } from "@/lib/api-auth";
+import { logExportAction } from "@/lib/audit";
+import { EXPORT_DATA_TYPES, isExportDataType, kickExportQueue } from "@/lib/export-jobs";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/v1/exports - queue a ZIP export of the archive. Scope: export:create
+export async function POST(request: NextRequest) {
+  const auth = await authenticateApiKey(request, "export:create");
+  if ("error" in auth) return auth.error;
+  const { context } = auth;
+
+  try {
+    // Only admins can export the full archive
+    if (!context.access.bypass) {
+      return NextResponse.json({ error: "Exports require an admin's API key" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    const dataTypes: string[] = Array.isArray(body.data_types) && body.data_types.length > 0
+      ? body.data_types
+      : [...EXPORT_DATA_TYPES];
+
+    if (!dataTypes.every(isExportDataType)) {
+      return NextResponse.json({ error: "Invalid data type" }, { status: 400 });
+    }
+
+    // Dates are whole days: start of start_date through end of end_date (UTC)
+    const startDate = body.start_date ? new Date(`${body.start_date}T00:00:00.000Z`) : null;
+    const endDate = body.end_date ? new Date(`${body.end_date}T23:59:59.999Z`) : null;
+
+    if ((startDate && isNaN(startDate.getTime())) || (endDate && isNaN(endDate.getTime()))) {
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+    }
+
+    if (startDate && endDate && startDate > endDate) {
+      return NextResponse.json({ error: "Start date must be before end date" }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+
+    // One archive at a time per tenant
+    const { count: pending } = await supabase
+      .from("export_jobs")
+      .select("id", { count: "exact", head: true })
+      .eq("tenant_id", context.tenantId)
+      .in("status", ["queued", "running"]);
+
+    if ((pending || 0) > 0) {
+      return NextResponse.json({ error: "An export is already in progress" }, { status: 409 });
+    }
+
+    const { data: job, error } = await supabase
+      .from("export_jobs")
+      .insert({
+        tenant_id: context.tenantId,
+        requested_by: context.userId,
+        status: "queued",
+        data_types: Array.from(new Set(dataTypes)),
+        start_date: startDate?.toISOString() ?? null,
+        end_date: endDate?.toISOString() ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating export job from API:", error);
+      return NextResponse.json({ error: "Failed to create export job" }, { status: 500 });
+    }
+
+    await logExportAction("export.requested", job.id, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      newValues: {
+        data_types: job.data_types,
+        start_date: job.start_date,
+        end_date: job.end_date,
+      },
+      metadata: { api_key_id: context.keyId },
+      request,
+    });
+
+    await kickExportQueue();
+
+    return NextResponse.json({ data: toApiRecord(job) }, { status: 201 });
+  } catch (error) {
+    console.error("Error in v1 exports API:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
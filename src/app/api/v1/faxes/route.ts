@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { authenticateApiKey, parseApiListParams, resolveApiRedactor, toApiRecord } from "@/lib/api-auth";
+import { cursorOrder, keysetFilter, paginate } from "@/lib/cursor";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/v1/faxes?extension=&direction= - newest first. Scope: faxes:read
+export async function GET(request: NextRequest) {
+  const auth = await authenticateApiKey(request, "faxes:read");
+  if ("error" in auth) return auth.error;
+  const { context } = auth;
+
+  const params = parseApiListParams(request);
+  if ("error" in params) return params.error;
+
+  const searchParams = request.nextUrl.searchParams;
+  const extensionNumber = searchParams.get("extension");
+  const direction = searchParams.get("direction");
+
+  try {
+    if (!context.access.canViewFaxes) {
+      return NextResponse.json(
+        { error: "Fax access is not enabled for this key's user" },
+        { status: 403 }
+      );
+    }
+
+    const supabase = createAdminClient();
+
+    let query = supabase
+      .from("faxes")
+      .select("*")
+      .eq("tenant_id", context.tenantId)
+      .order("sent_received_at", cursorOrder(params.cursor))
+      .order("id", cursorOrder(params.cursor))
+      .limit(params.limit + 1);
+
+    if (extensionNumber) query = query.eq("extension_number", extensionNumber);
+    if (direction) query = query.eq("direction", direction);
+    if (params.since) query = query.gte("sent_received_at", params.since);
+    if (params.until) query = query.lt("sent_received_at", params.until);
+    if (params.cursor) query = query.or(keysetFilter("sent_received_at", params.cursor));
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching faxes for API:", error);
+      return NextResponse.json({ error: "Failed to fetch faxes" }, { status: 500 });
+    }
+
+    const page = paginate(data || [], params.limit, "sent_received_at", params.cursor);
+    const records = page.data.map(toApiRecord);
+    const redactor = await resolveApiRedactor(supabase, context, request, {
+      resource: "faxes",
+      firstPage: !params.cursor,
+    });
+    return NextResponse.json({ ...page, data: redactor ? redactor.record(records) : records });
+  } catch (error) {
+    console.error("Error in v1 faxes API:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { authenticateApiKey, parseApiListParams, resolveApiRedactor, toApiRecord } from "@/lib/api-auth";
+import { cursorOrder, keysetFilter, paginate } from "@/lib/cursor";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/v1/messages?conversation_id= - newest first. Scope: messages:read
+export async function GET(request: NextRequest) {
+  const auth = await authenticateApiKey(request, "messages:read");
+  if ("error" in auth) return auth.error;
+  const { context } = auth;
+
+  const params = parseApiListParams(request);
+  if ("error" in params) return params.error;
+
+  const conversationId = request.nextUrl.searchParams.get("conversation_id");
+
+  try {
+    const { access } = context;
+
+    if (!access.bypass && conversationId && !access.conversationIds.includes(conversationId)) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+    }
+
+    if (!access.bypass && access.conversationIds.length === 0) {
+      return NextResponse.json({ data: [], next_cursor: null, prev_cursor: null, has_more: false, has_newer: false });
+    }
+
+    const supabase = createAdminClient();
+
+    let query = supabase
+      .from("messages")
+      .select("*")
+      .eq("tenant_id", context.tenantId)
+      .order("sent_at", cursorOrder(params.cursor))
+      .order("id", cursorOrder(params.cursor))
+      .limit(params.limit + 1);
+
+    if (conversationId) {
+      query = query.eq("conversation_id", conversationId);
+    } else if (!access.bypass) {
+      query = query.in("conversation_id", access.conversationIds);
+    }
+    if (params.since) query = query.gte("sent_at", params.since);
+    if (params.until) query = query.lt("sent_at", params.until);
+    if (params.cursor) query = query.or(keysetFilter("sent_at", params.cursor));
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching messages for API:", error);
+      return NextResponse.json({ error: "Failed to fetch messages" }, { status: 500 });
+    }
+
+    const page = paginate(data || [], params.limit, "sent_at", params.cursor);
+    const records = page.data.map(toApiRecord);
+    const redactor = await resolveApiRedactor(supabase, context, request, {
+      resource: "messages",
+      firstPage: !params.cursor,
+    });
+    return NextResponse.json({ ...page, data: redactor ? redactor.record(records) : records });
+  } catch (error) {
+    console.error("Error in v1 messages API:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
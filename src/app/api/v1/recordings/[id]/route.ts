@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { authenticateApiKey, resolveApiRedactor, toApiRecord } from "@/lib/api-auth";
+import { getArchiveFileUrl } from "@/lib/storage/archive-url";
+import { hasExtensionGrant } from "@/lib/user-access";
+
+export const dynamic = "force-dynamic";
+
+const DOWNLOAD_LINK_SECONDS = 15 * 60;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/v1/recordings/:id - metadata plus a short-lived download URL. Scope: recordings:read
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const auth = await authenticateApiKey(request, "recordings:read");
+  if ("error" in auth) return auth.error;
+  const { context } = auth;
+
+  try {
+    const { id } = await params;
+    const { access } = context;
+
+    if (!access.canViewRecordings) {
+      return NextResponse.json(
+        { error: "Recording access is not enabled for this key's user" },
+        { status: 403 }
+      );
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: recording } = await supabase
+      .from("call_recordings")
+      .select("*")
+      .eq("id", id)
+      .eq("tenant_id", context.tenantId)
+      .single();
+
+    if (
+      !recording ||
+      !hasExtensionGrant(access, recording.pbx_instance_id, recording.caller_number, { recordings: true })
+    ) {
+      return NextResponse.json({ error: "Recording not found" }, { status: 404 });
+    }
+
+    const downloadUrl = await getArchiveFileUrl(recording.storage_path, recording.storage_backend, DOWNLOAD_LINK_SECONDS);
+
+    const redactor = await resolveApiRedactor(supabase, context, request, { resource: "recordings", firstPage: true });
+    const record = toApiRecord(recording);
+
+    return NextResponse.json({
+      data: redactor ? redactor.record(record) : record,
+      download_url: downloadUrl,
+      download_expires_at: new Date(Date.now() + DOWNLOAD_LINK_SECONDS * 1000).toISOString(),
+    });
+  } catch (error) {
+    console.error("Error in v1 recording API:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { authenticateApiKey, parseApiListParams, resolveApiRedactor, toApiRecord } from "@/lib/api-auth";
+import { cursorOrder, keysetFilter, paginate } from "@/lib/cursor";
+import { extensionGrantFilter } from "@/lib/user-access";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/v1/recordings?extension=&direction= - newest first. Scope: recordings:read
+export async function GET(request: NextRequest) {
+  const auth = await authenticateApiKey(request, "recordings:read");
+  if ("error" in auth) return auth.error;
+  const { context } = auth;
+
+  const params = parseApiListParams(request);
+  if ("error" in params) return params.error;
+
+  const searchParams = request.nextUrl.searchParams;
+  const extensionNumber = searchParams.get("extension");
+  const direction = searchParams.get("direction");
+
+  try {
+    const { access } = context;
+
+    if (!access.canViewRecordings) {
+      return NextResponse.json(
+        { error: "Recording access is not enabled for this key's user" },
+        { status: 403 }
+      );
+    }
+
+    // Same rule as the dashboard: non-admins only see their permitted
+    // extensions, each on its own 3CX system
+    const grants = access.extensions.filter((grant) => grant.recordings);
+    const grantFilter = access.bypass ? null : extensionGrantFilter(grants, "caller_number");
+    if (
+      !access.bypass &&
+      (!grantFilter || (extensionNumber && !grants.some((grant) => grant.number === extensionNumber)))
+    ) {
+      return NextResponse.json({ data: [], next_cursor: null, prev_cursor: null, has_more: false, has_newer: false });
+    }
+
+    const supabase = createAdminClient();
+
+    let query = supabase
+      .from("call_recordings")
+      .select("*")
+      .eq("tenant_id", context.tenantId)
+      .order("started_at", cursorOrder(params.cursor))
+      .order("id", cursorOrder(params.cursor))
+      .limit(params.limit + 1);
+
+    if (extensionNumber) query = query.eq("caller_number", extensionNumber);
+    if (grantFilter) query = query.or(grantFilter);
+    if (direction) query = query.eq("direction", direction);
+    if (params.since) query = query.gte("started_at", params.since);
+    if (params.until) query = query.lt("started_at", params.until);
+    if (params.cursor) query = query.or(keysetFilter("started_at", params.cursor));
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching recordings for API:", error);
+      return NextResponse.json({ error: "Failed to fetch recordings" }, { status: 500 });
+    }
+
+    const page = paginate(data || [], params.limit, "started_at", params.cursor);
+    const records = page.data.map(toApiRecord);
+    const redactor = await resolveApiRedactor(supabase, context, request, {
+      resource: "recordings",
+      firstPage: !params.cursor,
+    });
+    return NextResponse.json({ ...page, data: redactor ? redactor.record(records) : records });
+  } catch (error) {
+    console.error("Error in v1 recordings API:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { authenticateApiKey, resolveApiRedactor, toApiRecord } from "@/lib/api-auth";
+import { getArchiveFileUrl } from "@/lib/storage/archive-url";
+
+export const dynamic = "force-dynamic";
+
+const DOWNLOAD_LINK_SECONDS = 15 * 60;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/v1/voicemails/:id - metadata plus a short-lived download URL. Scope: voicemails:read
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const auth = await authenticateApiKey(request, "voicemails:read");
+  if ("error" in auth) return auth.error;
+  const { context } = auth;
+
+  try {
+    const { id } = await params;
+
+    if (!context.access.canViewVoicemails) {
+      return NextResponse.json(
+        { error: "Voicemail access is not enabled for this key's user" },
+        { status: 403 }
+      );
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: voicemail } = await supabase
+      .from("voicemails")
+      .select("*")
+      .eq("id", id)
+      .eq("tenant_id", context.tenantId)
+      .single();
+
+    if (!voicemail) {
+      return NextResponse.json({ error: "Voicemail not found" }, { status: 404 });
+    }
+
+    const downloadUrl = await getArchiveFileUrl(voicemail.storage_path, voicemail.storage_backend, DOWNLOAD_LINK_SECONDS);
+
+    const redactor = await resolveApiRedactor(supabase, context, request, { resource: "voicemails", firstPage: true });
+    const record = toApiRecord(voicemail);
+
+    return NextResponse.json({
+      data: redactor ? redactor.record(record) : record,
+      download_url: downloadUrl,
+      download_expires_at: new Date(Date.now() + DOWNLOAD_LINK_SECONDS * 1000).toISOString(),
+    });
+  } catch (error) {
+    console.error("Error in v1 voicemail API:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { authenticateApiKey, parseApiListParams, resolveApiRedactor, toApiRecord } from "@/lib/api-auth";
+import { cursorOrder, keysetFilter, paginate } from "@/lib/cursor";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/v1/voicemails?extension= - newest first. Scope: voicemails:read
+export async function GET(request: NextRequest) {
+  const auth = await authenticateApiKey(request, "voicemails:read");
+  if ("error" in auth) return auth.error;
+  const { context } = auth;
+
+  const params = parseApiListParams(request);
+  if ("error" in params) return params.error;
+
+  const extensionNumber = request.nextUrl.searchParams.get("extension");
+
+  try {
+    if (!context.access.canViewVoicemails) {
+      return NextResponse.json(
+        { error: "Voicemail access is not enabled for this key's user" },
+        { status: 403 }
+      );
+    }
+
+    const supabase = createAdminClient();
+
+    // Exclude system files (greetings.bin, etc.)
+    let query = supabase
+      .from("voicemails")
+      .select("*")
+      .eq("tenant_id", context.tenantId)
+      .like("threecx_voicemail_id", "vmail_%")
+      .order("received_at", cursorOrder(params.cursor))
+      .order("id", cursorOrder(params.cursor))
+      .limit(params.limit + 1);
+
+    if (extensionNumber) query = query.eq("extension_number", extensionNumber);
+    if (params.since) query = query.gte("received_at", params.since);
+    if (params.until) query = query.lt("received_at", params.until);
+    if (params.cursor) query = query.or(keysetFilter("received_at", params.cursor));
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching voicemails for API:", error);
+      return NextResponse.json({ error: "Failed to fetch voicemails" }, { status: 500 });
+    }
+
+    const page = paginate(data || [], params.limit, "received_at", params.cursor);
+    const records = page.data.map(toApiRecord);
+    const redactor = await resolveApiRedactor(supabase, context, request, {
+      resource: "voicemails",
+      firstPage: !params.cursor,
+    });
+    return NextResponse.json({ ...page, data: redactor ? redactor.record(records) : records });
+  } catch (error) {
+    console.error("Error in v1 voicemails API:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { getTenantContext } from "@/lib/tenant";
+import { resolveRedactor } from "@/lib/redaction-access";
 
 export const dynamic = "force-dynamic";
 
@@ -82,6 +83,11 @@ export async function GET(request: NextRequest) {
       .order("received_at", { ascending: false })
       .range(offset, offset + pageSize - 1);
 
+    // Only the 3CX system picked in the header, if any
+    if (context.pbxInstanceId) {
+      query = query.eq("pbx_instance_id", context.pbxInstanceId);
+    }
+
     // Filter by extension if specified
     if (extensionNumber) {
       query = query.eq("extension_number", extensionNumber);
@@ -116,8 +122,17 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Transcriptions can hold whatever the caller read out
+    const redactor = await resolveRedactor(supabase, {
+      tenantId: context.tenantId,
+      userId: context.userId,
+      surface: "voicemails",
+      logAccess: page === 1,
+      request,
+    });
+
     return NextResponse.json({
-      data: data || [],
+      data: redactor ? redactor.record(data || []) : data || [],
       total: count || 0,
       page,
       page_size: pageSize,
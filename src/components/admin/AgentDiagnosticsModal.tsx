@@ -0,0 +1,275 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Modal } from "@/components/ui/Modal";
+import { Button } from "@/components/ui/Button";
+import { Spinner } from "@/components/ui/Spinner";
+import { Stethoscope, Download, FileText, ChevronLeft, AlertCircle } from "lucide-react";
+import { formatRelativeTime } from "@/lib/utils/date";
+import type { AgentDiagnosticsBundle, DiagnosticsFile } from "@/lib/agent-diagnostics";
+
+type BundleRow = AgentDiagnosticsBundle & {
+  agent: { id: string; hostname: string | null; agent_version: string | null } | null;
+};
+
+interface FilePreview {
+  name: string;
+  size: number;
+  truncated: boolean;
+  content: string;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  requested: "bg-blue-100 text-blue-700",
+  uploaded: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+  expired: "bg-gray-100 text-gray-500",
+  purged: "bg-gray-100 text-gray-500",
+};
+
+function formatBytes(bytes: number | null): string {
+  if (!bytes) return "0 B";
+  const units = ["B", "KB", "MB", "GB"];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+  return `${(bytes / Math.pow(1024, i)).toFixed(i === 0 ? 0 : 1)} ${units[i]}`;
+}
+
+interface AgentDiagnosticsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tenantId: string;
+  tenantName: string;
+}
+
+export function AgentDiagnosticsModal({ isOpen, onClose, tenantId, tenantName }: AgentDiagnosticsModalProps) {
+  const [bundles, setBundles] = useState<BundleRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [requesting, setRequesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<BundleRow | null>(null);
+  const [preview, setPreview] = useState<FilePreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+
+  const fetchBundles = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/agent-diagnostics?tenant_id=${tenantId}`);
+      if (!response.ok) throw new Error("Failed to fetch diagnostics");
+      const data = await response.json();
+      setBundles(data.bundles || []);
+    } catch (err) {
+      console.error("Error fetching diagnostics:", err);
+      setError("Failed to load diagnostics");
+    } finally {
+      setLoading(false);
+    }
+  }, [tenantId]);
+
+  useEffect(() => {
+    if (isOpen && tenantId) {
+      setLoading(true);
+      setError(null);
+      setSelected(null);
+      setPreview(null);
+      fetchBundles();
+    }
+  }, [isOpen, tenantId, fetchBundles]);
+
+  // Bundles are uploaded on the agent's next heartbeat; poll until they land
+  useEffect(() => {
+    if (!isOpen || !bundles.some((b) => b.status === "requested")) return;
+    const interval = setInterval(fetchBundles, 10000);
+    return () => clearInterval(interval);
+  }, [isOpen, bundles, fetchBundles]);
+
+  const handleRequest = async () => {
+    setRequesting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/agent-diagnostics", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tenant_id: tenantId }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to request diagnostics");
+      }
+
+      await fetchBundles();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  const handleDownload = async (bundle: BundleRow) => {
+    try {
+      const response = await fetch(`/api/admin/agent-diagnostics/${bundle.id}`);
+      const data = await response.json();
+      if (!response.ok || !data.download_url) {
+        throw new Error(data.error || "Bundle is not available for download");
+      }
+      window.open(data.download_url, "_blank");
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handlePreview = async (bundle: BundleRow, file: DiagnosticsFile) => {
+    setPreviewLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/admin/agent-diagnostics/${bundle.id}?file=${encodeURIComponent(file.name)}`
+      );
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to load file");
+      setPreview(data);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Agent diagnostics - ${tenantName}`} size="full">
+      <div className="space-y-4">
+        {error && (
+          <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {selected ? (
+          <div className="space-y-3">
+            <button
+              onClick={() => (preview ? setPreview(null) : setSelected(null))}
+              className="flex items-center gap-1 text-sm text-slate-600 hover:text-slate-900"
+            >
+              <ChevronLeft className="h-4 w-4" />
+              {preview ? "Back to files" : "Back to bundles"}
+            </button>
+
+            {preview ? (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-mono text-sm text-slate-800">{preview.name}</span>
+                  <span className="text-xs text-slate-500">
+                    {formatBytes(preview.size)}
+                    {preview.truncated && " (showing the end of the file)"}
+                  </span>
+                </div>
+                <pre className="max-h-[60vh] overflow-auto rounded-lg bg-slate-900 p-4 text-xs text-slate-100 whitespace-pre-wrap">
+                  {preview.content}
+                </pre>
+              </div>
+            ) : (
+              <div className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+                {selected.files.map((file) => (
+                  <button
+                    key={file.name}
+                    onClick={() => handlePreview(selected, file)}
+                    disabled={previewLoading}
+                    className="w-full flex items-center justify-between px-4 py-2.5 text-left hover:bg-slate-50"
+                  >
+                    <span className="flex items-center gap-2 font-mono text-sm text-slate-800">
+                      <FileText className="h-4 w-4 text-slate-400" />
+                      {file.name}
+                    </span>
+                    <span className="text-xs text-slate-500">{formatBytes(file.size)}</span>
+                  </button>
+                ))}
+                {selected.files.length === 0 && (
+                  <p className="px-4 py-6 text-sm text-center text-slate-500">The agent uploaded no files</p>
+                )}
+              </div>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-slate-600">
+                Logs, redacted config and runtime state from the tenant&apos;s sync agent. The agent uploads the
+                bundle on its next heartbeat.
+              </p>
+              <Button size="sm" onClick={handleRequest} isLoading={requesting}>
+                <Stethoscope className="h-4 w-4 mr-2" />
+                Collect diagnostics
+              </Button>
+            </div>
+
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Spinner size="lg" />
+              </div>
+            ) : bundles.length === 0 ? (
+              <p className="py-8 text-sm text-center text-slate-500">No diagnostics collected yet</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-500 border-b border-slate-200">
+                    <th className="py-2 pr-3 font-medium">Requested</th>
+                    <th className="py-2 pr-3 font-medium">Agent</th>
+                    <th className="py-2 pr-3 font-medium">Status</th>
+                    <th className="py-2 pr-3 font-medium">Size</th>
+                    <th className="py-2 pr-3 font-medium">Kept until</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {bundles.map((bundle) => (
+                    <tr key={bundle.id}>
+                      <td className="py-2 pr-3 text-slate-700">{formatRelativeTime(bundle.created_at)}</td>
+                      <td className="py-2 pr-3 text-slate-700">
+                        {bundle.agent?.hostname || "Unknown"}
+                        {bundle.agent?.agent_version && (
+                          <span className="ml-1 text-xs text-slate-400">v{bundle.agent.agent_version}</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-3">
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[bundle.status]}`}
+                          title={bundle.error || undefined}
+                        >
+                          {bundle.status}
+                        </span>
+                      </td>
+                      <td className="py-2 pr-3 text-slate-700">
+                        {bundle.status === "uploaded" ? formatBytes(bundle.bundle_size_bytes) : "-"}
+                      </td>
+                      <td className="py-2 pr-3 text-slate-700">
+                        {bundle.status === "purged" && bundle.purged_at
+                          ? `Deleted ${formatRelativeTime(bundle.purged_at)}`
+                          : bundle.retain_until
+                            ? new Date(bundle.retain_until).toLocaleDateString()
+                            : "-"}
+                      </td>
+                      <td className="py-2 text-right">
+                        {bundle.status === "uploaded" && (
+                          <div className="flex justify-end gap-1">
+                            <Button variant="ghost" size="sm" onClick={() => setSelected(bundle)}>
+                              Browse
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => handleDownload(bundle)}>
+                              <Download className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
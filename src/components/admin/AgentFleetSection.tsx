@@ -0,0 +1,456 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Check, X, Loader2, RefreshCw, ChevronDown, ChevronRight, Plus } from "lucide-react";
+import type { AgentRelease, FleetAgent } from "@/lib/agent-control";
+
+const COMMAND_STYLES: Record<string, string> = {
+  pending: "bg-slate-100 text-slate-700",
+  delivered: "bg-blue-100 text-blue-700",
+  succeeded: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+  expired: "bg-gray-100 text-gray-500",
+};
+
+const RELEASE_STYLES: Record<string, string> = {
+  draft: "bg-slate-100 text-slate-700",
+  rolling_out: "bg-blue-100 text-blue-700",
+  paused: "bg-amber-100 text-amber-700",
+  complete: "bg-green-100 text-green-700",
+};
+
+const ROLLOUT_STEPS = [10, 25, 50, 100];
+
+const EMPTY_RELEASE = { version: "", download_url: "", sha256: "", changelog: "" };
+
+export function AgentFleetSection() {
+  const [agents, setAgents] = useState<FleetAgent[]>([]);
+  const [releases, setReleases] = useState<AgentRelease[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expandedAgent, setExpandedAgent] = useState<string | null>(null);
+  const [resyncType, setResyncType] = useState("messages");
+  const [busy, setBusy] = useState<string | null>(null);
+  const [showReleaseForm, setShowReleaseForm] = useState(false);
+  const [releaseForm, setReleaseForm] = useState(EMPTY_RELEASE);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const fetchFleet = useCallback(async () => {
+    try {
+      const [agentsResponse, releasesResponse] = await Promise.all([
+        fetch("/api/admin/agents"),
+        fetch("/api/admin/agent-releases"),
+      ]);
+      if (agentsResponse.ok) {
+        const data = await agentsResponse.json();
+        setAgents(data.agents || []);
+      }
+      if (releasesResponse.ok) {
+        const data = await releasesResponse.json();
+        setReleases(data.releases || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch agent fleet:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchFleet();
+  }, [fetchFleet]);
+
+  // Poll while commands are waiting for agents to pick them up or report back
+  const hasOpenCommand = agents.some((a) =>
+    a.recent_commands.some((c) => c.status === "pending" || c.status === "delivered")
+  );
+
+  useEffect(() => {
+    if (!hasOpenCommand) return;
+    const interval = setInterval(fetchFleet, 10000);
+    return () => clearInterval(interval);
+  }, [hasOpenCommand, fetchFleet]);
+
+  function flash(type: "success" | "error", text: string) {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 8000);
+  }
+
+  async function queueCommand(agent: FleetAgent, command: string, params?: Record<string, unknown>) {
+    setBusy(`${agent.id}:${command}`);
+
+    try {
+      const response = await fetch(`/api/admin/agents/${agent.id}/commands`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ command, params }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        flash("success", `Queued ${command} for ${agent.tenant?.name || agent.hostname || "agent"}`);
+        fetchFleet();
+      } else {
+        flash("error", data.error || "Failed to queue command");
+      }
+    } catch (error) {
+      console.error("Error queueing agent command:", error);
+      flash("error", "Failed to queue command");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function updateRelease(release: AgentRelease, updates: { status?: string; rollout_percent?: number }) {
+    setBusy(release.id);
+
+    try {
+      const response = await fetch(`/api/admin/agent-releases/${release.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        fetchFleet();
+      } else {
+        flash("error", data.error || "Failed to update release");
+      }
+    } catch (error) {
+      console.error("Error updating agent release:", error);
+      flash("error", "Failed to update release");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function createRelease() {
+    setBusy("new-release");
+
+    try {
+      const response = await fetch("/api/admin/agent-releases", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(releaseForm),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        flash("success", `Release ${data.release.version} added as a draft`);
+        setReleaseForm(EMPTY_RELEASE);
+        setShowReleaseForm(false);
+        fetchFleet();
+      } else {
+        flash("error", data.error || "Failed to add release");
+      }
+    } catch (error) {
+      console.error("Error creating agent release:", error);
+      flash("error", "Failed to add release");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        <div className="h-12 bg-slate-100 rounded-xl animate-pulse" />
+        <div className="h-12 bg-slate-100 rounded-xl animate-pulse" />
+      </div>
+    );
+  }
+
+  const drifted = agents.filter((a) => a.version_drift).length;
+  const offline = agents.filter((a) => !a.online).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-500">
+          {agents.length} installed agent{agents.length === 1 ? "" : "s"}
+          {drifted > 0 && `, ${drifted} behind their target release`}
+          {offline > 0 && `, ${offline} offline`}. Commands are picked up on the agent&apos;s next heartbeat.
+        </p>
+        <Button size="sm" variant="outline" onClick={fetchFleet}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {message && (
+        <div
+          className={`px-4 py-3 rounded-xl text-sm font-medium flex items-center gap-2 ${
+            message.type === "success"
+              ? "bg-green-100 text-green-700 border border-green-200"
+              : "bg-red-100 text-red-700 border border-red-200"
+          }`}
+        >
+          {message.type === "success" ? <Check className="h-4 w-4" /> : <X className="h-4 w-4" />}
+          {message.text}
+        </div>
+      )}
+
+      {agents.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <p>No sync agents installed yet</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100 border border-gray-200 rounded-xl">
+          {agents.map((agent) => {
+            const lastCommand = agent.recent_commands[0];
+            return (
+              <div key={agent.id}>
+                <button
+                  onClick={() => setExpandedAgent(expandedAgent === agent.id ? null : agent.id)}
+                  className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-gray-50"
+                >
+                  {expandedAgent === agent.id ? (
+                    <ChevronDown className="h-4 w-4 text-gray-400" />
+                  ) : (
+                    <ChevronRight className="h-4 w-4 text-gray-400" />
+                  )}
+                  <span className={`h-2 w-2 rounded-full ${agent.online ? "bg-green-500" : "bg-gray-300"}`} />
+                  <span className="font-medium text-gray-900 flex-1">
+                    {agent.tenant?.name || agent.id}
+                    {agent.pbx_instance && <span className="text-gray-500"> / {agent.pbx_instance.name}</span>}
+                    {agent.hostname && <span className="ml-2 text-sm font-normal text-gray-500">{agent.hostname}</span>}
+                  </span>
+                  <span className={`text-sm ${agent.version_drift ? "text-amber-600 font-medium" : "text-gray-500"}`}>
+                    v{agent.agent_version || "?"}
+                    {agent.version_drift && ` → ${agent.target_version}`}
+                  </span>
+                  {!agent.config_applied && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-700">
+                      config pending
+                    </span>
+                  )}
+                  <span className="text-sm text-gray-500 w-44 text-right">
+                    {agent.last_heartbeat_at ? new Date(agent.last_heartbeat_at).toLocaleString() : "Never seen"}
+                  </span>
+                  {lastCommand && (
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${COMMAND_STYLES[lastCommand.status]}`}>
+                      {lastCommand.command}: {lastCommand.status}
+                    </span>
+                  )}
+                </button>
+
+                {expandedAgent === agent.id && (
+                  <div className="px-4 pb-4 space-y-3">
+                    {agent.last_error && <p className="text-sm text-red-600">{agent.last_error}</p>}
+                    <p className="text-sm text-gray-500">
+                      {agent.os_info || "Unknown OS"}
+                      {agent.ip_address && ` · ${agent.ip_address}`}
+                      {agent.last_ingest_at && ` · last upload ${new Date(agent.last_ingest_at).toLocaleString()}`}
+                    </p>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                      <select
+                        value={resyncType}
+                        onChange={(e) => setResyncType(e.target.value)}
+                        className="px-3 py-1.5 bg-white border border-slate-300 rounded-lg text-slate-800 text-sm"
+                      >
+                        <option value="messages">Messages</option>
+                        <option value="cdr">Call records</option>
+                        <option value="recordings">Recordings</option>
+                        <option value="voicemails">Voicemails</option>
+                      </select>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => queueCommand(agent, "resync", { sync_type: resyncType })}
+                        disabled={busy !== null}
+                      >
+                        Resync
+                      </Button>
+                      {(["restart", "upload_logs", "rotate_token"] as const).map((command) => (
+                        <Button
+                          key={command}
+                          size="sm"
+                          variant="outline"
+                          onClick={() => queueCommand(agent, command)}
+                          disabled={busy !== null}
+                        >
+                          {busy === `${agent.id}:${command}` && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                          {command === "restart" ? "Restart" : command === "upload_logs" ? "Upload logs" : "Rotate token"}
+                        </Button>
+                      ))}
+                    </div>
+
+                    {agent.recent_commands.length > 0 && (
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-500">
+                            <th className="py-2 font-medium">Command</th>
+                            <th className="py-2 font-medium">Queued</th>
+                            <th className="py-2 font-medium">Result</th>
+                            <th className="py-2 font-medium text-right">Status</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {agent.recent_commands.map((command) => (
+                            <tr key={command.id}>
+                              <td className="py-2 text-gray-900">
+                                {command.command}
+                                {typeof command.params?.sync_type === "string" && ` (${command.params.sync_type})`}
+                              </td>
+                              <td className="py-2 text-gray-500">{new Date(command.created_at).toLocaleString()}</td>
+                              <td className="py-2 text-gray-700 truncate max-w-xs">
+                                {command.error || (command.result ? JSON.stringify(command.result) : "—")}
+                              </td>
+                              <td className="py-2 text-right">
+                                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${COMMAND_STYLES[command.status]}`}>
+                                  {command.status}
+                                </span>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold text-gray-900">Releases</h3>
+          <Button size="sm" variant="outline" onClick={() => setShowReleaseForm(!showReleaseForm)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Release
+          </Button>
+        </div>
+
+        {showReleaseForm && (
+          <div className="p-4 border border-gray-200 rounded-xl space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-600 mb-1">Version</label>
+                <Input
+                  type="text"
+                  value={releaseForm.version}
+                  onChange={(e) => setReleaseForm({ ...releaseForm, version: e.target.value })}
+                  placeholder="1.2.0"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-600 mb-1">SHA-256</label>
+                <Input
+                  type="text"
+                  value={releaseForm.sha256}
+                  onChange={(e) => setReleaseForm({ ...releaseForm, sha256: e.target.value })}
+                  placeholder="Checksum of the tarball"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Download URL</label>
+              <Input
+                type="url"
+                value={releaseForm.download_url}
+                onChange={(e) => setReleaseForm({ ...releaseForm, download_url: e.target.value })}
+                placeholder="https://.../sync-agent-1.2.0.tar.gz"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Changelog</label>
+              <Input
+                type="text"
+                value={releaseForm.changelog}
+                onChange={(e) => setReleaseForm({ ...releaseForm, changelog: e.target.value })}
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button size="sm" onClick={createRelease} disabled={busy === "new-release"}>
+                {busy === "new-release" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Add as Draft
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {releases.length === 0 ? (
+          <p className="text-sm text-gray-500">No releases yet</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 font-medium">Version</th>
+                <th className="py-2 font-medium">Status</th>
+                <th className="py-2 font-medium">Rollout</th>
+                <th className="py-2 font-medium">On version</th>
+                <th className="py-2 font-medium text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {releases.map((release) => {
+                const nextStep = ROLLOUT_STEPS.find((step) => step > release.rollout_percent);
+                return (
+                  <tr key={release.id}>
+                    <td className="py-2 text-gray-900" title={release.changelog || undefined}>
+                      {release.version}
+                      <span className="ml-2 font-mono text-xs text-gray-400">{release.sha256.slice(0, 12)}</span>
+                    </td>
+                    <td className="py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${RELEASE_STYLES[release.status]}`}>
+                        {release.status.replace("_", " ")}
+                      </span>
+                    </td>
+                    <td className="py-2 text-gray-700">{release.rollout_percent}%</td>
+                    <td className="py-2 text-gray-700">
+                      {agents.filter((a) => a.agent_version === release.version).length} / {agents.length}
+                    </td>
+                    <td className="py-2 text-right space-x-2">
+                      {release.status === "draft" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => updateRelease(release, { status: "rolling_out", rollout_percent: ROLLOUT_STEPS[0] })}
+                          disabled={busy === release.id}
+                        >
+                          Start at {ROLLOUT_STEPS[0]}%
+                        </Button>
+                      )}
+                      {(release.status === "rolling_out" || release.status === "paused") && nextStep && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() =>
+                            updateRelease(
+                              release,
+                              nextStep === 100
+                                ? { status: "complete" }
+                                : { status: "rolling_out", rollout_percent: nextStep }
+                            )
+                          }
+                          disabled={busy === release.id}
+                        >
+                          {nextStep === 100 ? "Complete" : `Widen to ${nextStep}%`}
+                        </Button>
+                      )}
+                      {release.status === "rolling_out" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => updateRelease(release, { status: "paused" })}
+                          disabled={busy === release.id}
+                        >
+                          Pause
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
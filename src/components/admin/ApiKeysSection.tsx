@@ -0,0 +1,292 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Check, X, KeyRound, Copy, Ban } from "lucide-react";
+import {
+  API_KEY_SCOPES,
+  API_KEY_SCOPE_LABELS,
+  type ApiKey,
+  type ApiKeyScope,
+} from "@/lib/api-keys";
+
+type ApiKeyRow = ApiKey & { user: { email: string; full_name: string | null } | null };
+
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "", label: "Never" },
+];
+
+const EMPTY_FORM = { name: "", scopes: [] as ApiKeyScope[], expiresInDays: "90" };
+
+function keyStatus(key: ApiKey): { label: string; className: string } {
+  if (key.revoked_at) return { label: "Revoked", className: "bg-slate-200 text-slate-600" };
+  if (key.expires_at && new Date(key.expires_at) <= new Date()) {
+    return { label: "Expired", className: "bg-amber-100 text-amber-700" };
+  }
+  return { label: "Active", className: "bg-green-100 text-green-700" };
+}
+
+export function ApiKeysSection() {
+  const [keys, setKeys] = useState<ApiKeyRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  // Shown once after create - only the hash is stored
+  const [revealedKey, setRevealedKey] = useState<{ keyId: string; key: string } | null>(null);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const fetchKeys = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/api-keys");
+      if (response.ok) {
+        const data = await response.json();
+        setKeys(data.keys || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch API keys:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchKeys();
+  }, [fetchKeys]);
+
+  function showMessage(type: "success" | "error", text: string) {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 5000);
+  }
+
+  function toggleScope(scope: ApiKeyScope) {
+    setForm((prev) => ({
+      ...prev,
+      scopes: prev.scopes.includes(scope)
+        ? prev.scopes.filter((s) => s !== scope)
+        : [...prev.scopes, scope],
+    }));
+  }
+
+  async function createKey() {
+    setIsSaving(true);
+
+    try {
+      const response = await fetch("/api/admin/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name,
+          scopes: form.scopes,
+          expires_in_days: form.expiresInDays ? parseInt(form.expiresInDays) : null,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        // The create response has no user join; refetch so the row matches the list
+        await fetchKeys();
+        setRevealedKey({ keyId: data.api_key.id, key: data.key });
+        setForm(EMPTY_FORM);
+        setShowForm(false);
+      } else {
+        showMessage("error", data.error || "Failed to create API key");
+      }
+    } catch (error) {
+      console.error("Error creating API key:", error);
+      showMessage("error", "Failed to create API key");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function revokeKey(key: ApiKey) {
+    if (!confirm(`Revoke "${key.name}"? Integrations using it will stop working immediately.`)) return;
+    setBusyKey(key.id);
+
+    try {
+      const response = await fetch(`/api/admin/api-keys/${key.id}`, { method: "DELETE" });
+      const data = await response.json();
+
+      if (response.ok) {
+        setKeys((prev) => prev.map((k) => (k.id === key.id ? { ...k, ...data.api_key } : k)));
+        if (revealedKey?.keyId === key.id) setRevealedKey(null);
+        showMessage("success", "API key revoked");
+      } else {
+        showMessage("error", data.error || "Failed to revoke API key");
+      }
+    } catch (error) {
+      console.error("Error revoking API key:", error);
+      showMessage("error", "Failed to revoke API key");
+    } finally {
+      setBusyKey(null);
+    }
+  }
+
+  if (isLoading) {
+    return <div className="h-20 bg-slate-100 rounded-xl animate-pulse" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-500">
+        Keys authenticate the REST API at <code className="text-xs">/api/v1</code> with an{" "}
+        <code className="text-xs">Authorization: Bearer</code> header. A key acts as the user who created it, so
+        that user&apos;s extension permissions apply. Every request made with a key is recorded in the audit log.
+      </p>
+
+      {message && (
+        <div
+          className={`px-4 py-3 rounded-xl text-sm font-medium flex items-center gap-2 ${
+            message.type === "success"
+              ? "bg-green-100 text-green-700 border border-green-200"
+              : "bg-red-100 text-red-700 border border-red-200"
+          }`}
+        >
+          {message.type === "success" ? <Check className="h-4 w-4" /> : <X className="h-4 w-4" />}
+          {message.text}
+        </div>
+      )}
+
+      {revealedKey && (
+        <div className="p-3 bg-amber-50 rounded-lg border border-amber-200">
+          <p className="text-sm text-amber-800 mb-2">
+            Copy the API key now — it won&apos;t be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-xs bg-white px-2 py-1 rounded border border-amber-200 break-all">
+              {revealedKey.key}
+            </code>
+            <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(revealedKey.key)}>
+              <Copy className="h-3 w-3 mr-1" />
+              Copy
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setRevealedKey(null)}>
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {keys.length === 0 && !showForm && (
+        <p className="text-sm text-slate-500">No API keys created.</p>
+      )}
+
+      {keys.map((key) => {
+        const status = keyStatus(key);
+
+        return (
+          <div
+            key={key.id}
+            className="flex items-center justify-between gap-4 p-4 rounded-xl border border-slate-200 bg-gradient-to-br from-slate-50 to-gray-50"
+          >
+            <div className="flex items-center gap-4 min-w-0">
+              <div className="p-2 bg-indigo-100 rounded-lg">
+                <KeyRound className="h-5 w-5 text-indigo-600" />
+              </div>
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <h3 className="font-semibold text-slate-800 truncate">{key.name}</h3>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${status.className}`}>
+                    {status.label}
+                  </span>
+                </div>
+                <p className="text-sm text-slate-500">
+                  <code className="text-xs">{key.key_prefix}••••••••</code>
+                  {" — "}
+                  {key.scopes.join(", ")}
+                </p>
+                <p className="text-xs text-slate-400 mt-1">
+                  {key.user && `Acts as ${key.user.full_name || key.user.email} — `}
+                  {key.last_used_at
+                    ? `Last used ${new Date(key.last_used_at).toLocaleString()}${key.last_used_ip ? ` from ${key.last_used_ip}` : ""}`
+                    : "Never used"}
+                  {" — "}
+                  {key.expires_at ? `Expires ${new Date(key.expires_at).toLocaleDateString()}` : "No expiry"}
+                </p>
+              </div>
+            </div>
+            {!key.revoked_at && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => revokeKey(key)}
+                disabled={busyKey === key.id}
+                title="Revoke"
+              >
+                <Ban className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        );
+      })}
+
+      {showForm ? (
+        <div className="p-4 rounded-xl border border-slate-200 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Name</label>
+              <Input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. CRM sync"
+                maxLength={100}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Expires after</label>
+              <select
+                value={form.expiresInDays}
+                onChange={(e) => setForm({ ...form, expiresInDays: e.target.value })}
+                className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg text-slate-800 text-sm"
+              >
+                {EXPIRY_OPTIONS.map((option) => (
+                  <option key={option.label} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-2">Scopes</label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {API_KEY_SCOPES.map((scope) => (
+                <label key={scope} className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={form.scopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                    className="rounded border-slate-300"
+                  />
+                  {API_KEY_SCOPE_LABELS[scope]}
+                  <code className="text-xs text-slate-400">{scope}</code>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setShowForm(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={createKey} disabled={isSaving || !form.name.trim() || form.scopes.length === 0}>
+              {isSaving ? "Creating..." : "Create Key"}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex justify-end pt-2">
+          <Button variant="outline" onClick={() => setShowForm(true)}>
+            New API Key
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
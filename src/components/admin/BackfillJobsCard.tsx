@@ -0,0 +1,295 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { formatFullDate } from "@/lib/utils/date";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { History, Loader2, Play, X } from "lucide-react";
+import {
+  BACKFILL_SYNC_TYPES,
+  UNDATED_BACKFILL_SYNC_TYPES,
+  backfillProgress,
+  type BackfillJob,
+  type BackfillSyncType,
+} from "@/lib/backfill";
+
+const SYNC_TYPE_LABELS: Record<BackfillSyncType, string> = {
+  messages: "Chat messages",
+  cdr: "Call records",
+  recordings: "Call recordings",
+  voicemails: "Voicemails",
+  faxes: "Faxes",
+  meetings: "Meeting recordings",
+  media: "Chat media",
+  extensions: "Extensions",
+};
+
+const STATUS_STYLES: Record<BackfillJob["status"], string> = {
+  queued: "bg-gray-100 text-gray-700",
+  running: "bg-blue-100 text-blue-700",
+  completed: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+  cancelled: "bg-yellow-100 text-yellow-700",
+};
+
+function formatDay(iso: string): string {
+  return iso.slice(0, 10);
+}
+
+// end_at is exclusive, so the last day covered is the day before it
+function formatLastDay(iso: string): string {
+  return new Date(new Date(iso).getTime() - 1).toISOString().slice(0, 10);
+}
+
+export function BackfillJobsCard() {
+  const [jobs, setJobs] = useState<BackfillJob[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [actionJobId, setActionJobId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    sync_type: "messages" as BackfillSyncType,
+    start_date: "",
+    end_date: "",
+    chunk_hours: 24,
+  });
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const response = await fetch("/api/sync/backfill");
+      if (response.ok) {
+        const data = await response.json();
+        setJobs(data.jobs || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch backfill jobs:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  // Jobs move one chunk a minute, so a slow poll is plenty
+  const hasActiveJob = jobs.some((job) => job.status === "queued" || job.status === "running");
+  useEffect(() => {
+    if (!hasActiveJob) return;
+    const interval = setInterval(fetchJobs, 15000);
+    return () => clearInterval(interval);
+  }, [hasActiveJob, fetchJobs]);
+
+  const createJob = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/sync/backfill", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Failed to start backfill");
+        return;
+      }
+
+      setJobs((prev) => [data.job, ...prev]);
+    } catch (error) {
+      console.error("Failed to start backfill:", error);
+      setError("Failed to start backfill");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const updateJob = async (jobId: string, action: "cancel" | "resume") => {
+    setActionJobId(jobId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sync/backfill/${jobId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || `Failed to ${action} backfill`);
+        return;
+      }
+
+      setJobs((prev) => prev.map((job) => (job.id === jobId ? data.job : job)));
+    } catch (error) {
+      console.error(`Failed to ${action} backfill:`, error);
+      setError(`Failed to ${action} backfill`);
+    } finally {
+      setActionJobId(null);
+    }
+  };
+
+  const isUndated = UNDATED_BACKFILL_SYNC_TYPES.includes(form.sync_type);
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden">
+      <div className="p-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <History className="h-5 w-5 text-gray-500" />
+          Historical Backfill
+        </h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Re-pull older data for a date range without affecting the live sync. Jobs run in the
+          background a chunk at a time and pick up where they left off after a restart.
+        </p>
+      </div>
+
+      <form onSubmit={createJob} className="p-4 border-b border-gray-200 grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Data type</label>
+          <select
+            value={form.sync_type}
+            onChange={(e) => setForm({ ...form, sync_type: e.target.value as BackfillSyncType })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+          >
+            {BACKFILL_SYNC_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {SYNC_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Input
+          label="From"
+          type="date"
+          value={form.start_date}
+          onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+          required
+        />
+        <Input
+          label="To"
+          type="date"
+          value={form.end_date}
+          onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+          required
+        />
+        <Input
+          label="Chunk size (hours)"
+          type="number"
+          min={1}
+          max={720}
+          value={form.chunk_hours}
+          onChange={(e) => setForm({ ...form, chunk_hours: parseInt(e.target.value) || 24 })}
+          disabled={isUndated}
+        />
+        <Button type="submit" disabled={isCreating}>
+          {isCreating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+          Start Backfill
+        </Button>
+        {isUndated && (
+          <p className="md:col-span-5 text-sm text-gray-500">
+            {SYNC_TYPE_LABELS[form.sync_type]} have no dates in 3CX, so this runs one full scan that
+            fills in anything not yet archived.
+          </p>
+        )}
+        {error && <p className="md:col-span-5 text-sm text-red-600">{error}</p>}
+      </form>
+
+      {isLoading ? (
+        <div className="animate-pulse p-4">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-12 bg-gray-100 rounded mb-2" />
+          ))}
+        </div>
+      ) : jobs.length === 0 ? (
+        <div className="p-8 text-center text-gray-500">
+          <p>No backfill jobs yet</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Range</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Progress</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Synced</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Requested</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {jobs.map((job) => {
+                const progress = backfillProgress(job);
+                return (
+                  <tr key={job.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                      {SYNC_TYPE_LABELS[job.sync_type] || job.sync_type}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-500">
+                      {formatDay(job.start_at)} – {formatLastDay(job.end_at)}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[job.status]}`}>
+                        {job.status}
+                      </span>
+                      {job.last_error && (
+                        <p className="text-xs text-red-600 mt-1 max-w-xs truncate" title={job.last_error}>
+                          {job.last_error}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-2">
+                        <div className="w-24 h-2 bg-gray-100 rounded-full overflow-hidden">
+                          <div className="h-full bg-teal-500" style={{ width: `${progress}%` }} />
+                        </div>
+                        <span className="text-xs text-gray-500">{progress}%</span>
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-500">
+                      {job.items_synced.toLocaleString()}
+                      {job.item_errors > 0 && (
+                        <span className="text-red-600"> ({job.item_errors} failed)</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-500">{formatFullDate(job.created_at)}</td>
+                    <td className="px-4 py-3 text-right">
+                      {(job.status === "queued" || job.status === "running") && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => updateJob(job.id, "cancel")}
+                          disabled={actionJobId === job.id}
+                        >
+                          <X className="h-4 w-4 mr-1" />
+                          Cancel
+                        </Button>
+                      )}
+                      {(job.status === "failed" || job.status === "cancelled") && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => updateJob(job.id, "resume")}
+                          disabled={actionJobId === job.id}
+                        >
+                          <Play className="h-4 w-4 mr-1" />
+                          Resume
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
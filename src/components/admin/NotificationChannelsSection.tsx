@@ -0,0 +1,372 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Check, X, Loader2, MessageSquare, Send } from "lucide-react";
+
+type ChatChannel = "slack" | "teams";
+
+interface ChannelConnection {
+  id: string;
+  channel: ChatChannel;
+  channel_name: string | null;
+  is_active: boolean;
+  last_sent_at: string | null;
+  last_error: string | null;
+}
+
+interface NotificationPreference {
+  notification_type: string;
+  label: string;
+  description: string;
+  email_enabled: boolean;
+  sms_enabled: boolean;
+  push_enabled: boolean;
+  slack_enabled: boolean;
+  teams_enabled: boolean;
+}
+
+type PreferenceColumn = "email_enabled" | "sms_enabled" | "push_enabled" | "slack_enabled" | "teams_enabled";
+
+const CHAT_CHANNELS: { channel: ChatChannel; label: string; placeholder: string; help: string }[] = [
+  {
+    channel: "slack",
+    label: "Slack",
+    placeholder: "https://hooks.slack.com/services/...",
+    help: "Create an incoming webhook in your Slack app and paste its URL.",
+  },
+  {
+    channel: "teams",
+    label: "Microsoft Teams",
+    placeholder: "https://....webhook.office.com/...",
+    help: "Add an Incoming Webhook (or a Workflows webhook) to the channel and paste its URL.",
+  },
+];
+
+const PREFERENCE_COLUMNS: { column: PreferenceColumn; label: string; chat?: ChatChannel }[] = [
+  { column: "email_enabled", label: "Email" },
+  { column: "sms_enabled", label: "SMS" },
+  { column: "push_enabled", label: "Push" },
+  { column: "slack_enabled", label: "Slack", chat: "slack" },
+  { column: "teams_enabled", label: "Teams", chat: "teams" },
+];
+
+export function NotificationChannelsSection() {
+  const [connections, setConnections] = useState<ChannelConnection[]>([]);
+  const [preferences, setPreferences] = useState<NotificationPreference[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [urlInputs, setUrlInputs] = useState<Record<ChatChannel, string>>({ slack: "", teams: "" });
+  const [nameInputs, setNameInputs] = useState<Record<ChatChannel, string>>({ slack: "", teams: "" });
+  const [busyChannel, setBusyChannel] = useState<ChatChannel | null>(null);
+  const [prefsSaving, setPrefsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const fetchAll = useCallback(async () => {
+    try {
+      const [channelsResponse, prefsResponse] = await Promise.all([
+        fetch("/api/admin/notification-channels"),
+        fetch("/api/notifications/preferences"),
+      ]);
+      if (channelsResponse.ok) {
+        const data = await channelsResponse.json();
+        setConnections(data.channels || []);
+        setNameInputs({
+          slack: data.channels?.find((c: ChannelConnection) => c.channel === "slack")?.channel_name || "",
+          teams: data.channels?.find((c: ChannelConnection) => c.channel === "teams")?.channel_name || "",
+        });
+      }
+      if (prefsResponse.ok) {
+        const data = await prefsResponse.json();
+        setPreferences(data.preferences || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch notification settings:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  function showMessage(type: "success" | "error", text: string) {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 5000);
+  }
+
+  function connectionFor(channel: ChatChannel) {
+    return connections.find((c) => c.channel === channel);
+  }
+
+  async function saveConnection(channel: ChatChannel, body: Record<string, unknown>) {
+    setBusyChannel(channel);
+
+    try {
+      const response = await fetch("/api/admin/notification-channels", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ channel, ...body }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setConnections((prev) => [...prev.filter((c) => c.channel !== channel), data.channel]);
+        setUrlInputs((prev) => ({ ...prev, [channel]: "" }));
+        showMessage("success", "Channel saved");
+      } else {
+        showMessage("error", data.error || "Failed to save channel");
+      }
+    } catch (error) {
+      console.error("Error saving notification channel:", error);
+      showMessage("error", "Failed to save channel");
+    } finally {
+      setBusyChannel(null);
+    }
+  }
+
+  async function testConnection(channel: ChatChannel) {
+    setBusyChannel(channel);
+
+    try {
+      const response = await fetch("/api/admin/notification-channels/test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ channel }),
+      });
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        showMessage("success", "Test message sent");
+      } else {
+        showMessage("error", data.error || "Test message failed");
+      }
+      fetchAll();
+    } catch (error) {
+      console.error("Error testing notification channel:", error);
+      showMessage("error", "Test message failed");
+    } finally {
+      setBusyChannel(null);
+    }
+  }
+
+  async function disconnect(channel: ChatChannel) {
+    if (!confirm("Disconnect this channel? Notifications routed to it will stop.")) return;
+    setBusyChannel(channel);
+
+    try {
+      const response = await fetch(`/api/admin/notification-channels?channel=${channel}`, { method: "DELETE" });
+      const data = await response.json();
+
+      if (response.ok) {
+        setConnections((prev) => prev.filter((c) => c.channel !== channel));
+        setNameInputs((prev) => ({ ...prev, [channel]: "" }));
+      } else {
+        showMessage("error", data.error || "Failed to disconnect channel");
+      }
+    } catch (error) {
+      console.error("Error disconnecting notification channel:", error);
+      showMessage("error", "Failed to disconnect channel");
+    } finally {
+      setBusyChannel(null);
+    }
+  }
+
+  function togglePreference(type: string, column: PreferenceColumn) {
+    setPreferences((prev) =>
+      prev.map((p) => (p.notification_type === type ? { ...p, [column]: !p[column] } : p))
+    );
+  }
+
+  async function savePreferences() {
+    setPrefsSaving(true);
+
+    try {
+      const response = await fetch("/api/notifications/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ preferences }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        showMessage("success", "Notification routing saved");
+      } else {
+        showMessage("error", data.error || "Failed to save notification routing");
+      }
+    } catch (error) {
+      console.error("Error saving notification preferences:", error);
+      showMessage("error", "Failed to save notification routing");
+    } finally {
+      setPrefsSaving(false);
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        <div className="h-16 bg-slate-100 rounded-xl animate-pulse" />
+        <div className="h-16 bg-slate-100 rounded-xl animate-pulse" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <div
+          className={`px-4 py-3 rounded-xl text-sm font-medium flex items-center gap-2 ${
+            message.type === "success"
+              ? "bg-green-100 text-green-700 border border-green-200"
+              : "bg-red-100 text-red-700 border border-red-200"
+          }`}
+        >
+          {message.type === "success" ? <Check className="h-4 w-4" /> : <X className="h-4 w-4" />}
+          {message.text}
+        </div>
+      )}
+
+      {/* Chat channel connections */}
+      <div className="space-y-3">
+        {CHAT_CHANNELS.map(({ channel, label, placeholder, help }) => {
+          const connection = connectionFor(channel);
+          const busy = busyChannel === channel;
+
+          return (
+            <div
+              key={channel}
+              className="p-4 bg-gradient-to-br from-slate-50 to-gray-50 rounded-xl border border-slate-200 space-y-3"
+            >
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-4">
+                  <div className="p-2 bg-indigo-100 rounded-lg">
+                    <MessageSquare className="h-5 w-5 text-indigo-600" />
+                  </div>
+                  <div>
+                    <h3 className="font-semibold text-slate-800">{label}</h3>
+                    <p className="text-sm text-slate-500">
+                      {connection
+                        ? `Connected${connection.channel_name ? ` to ${connection.channel_name}` : ""}${
+                            connection.is_active ? "" : " (paused)"
+                          }`
+                        : help}
+                    </p>
+                    {connection?.last_error && (
+                      <p className="text-xs text-red-600 mt-1">Last post failed: {connection.last_error}</p>
+                    )}
+                    {connection?.last_sent_at && !connection.last_error && (
+                      <p className="text-xs text-slate-400 mt-1">
+                        Last posted {new Date(connection.last_sent_at).toLocaleString()}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                {connection && (
+                  <div className="flex items-center gap-2 shrink-0">
+                    <label className="relative inline-flex items-center cursor-pointer" title={connection.is_active ? "Active" : "Paused"}>
+                      <input
+                        type="checkbox"
+                        checked={connection.is_active}
+                        onChange={(e) => saveConnection(channel, { is_active: e.target.checked })}
+                        disabled={busy}
+                        className="sr-only peer"
+                      />
+                      <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-teal-500"></div>
+                    </label>
+                    <Button variant="outline" size="sm" onClick={() => testConnection(channel)} disabled={busy}>
+                      {busy ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Send className="h-3 w-3 mr-1" />}
+                      Test
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => disconnect(channel)} disabled={busy}>
+                      Disconnect
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="md:col-span-2">
+                  <Input
+                    type="password"
+                    value={urlInputs[channel]}
+                    onChange={(e) => setUrlInputs({ ...urlInputs, [channel]: e.target.value })}
+                    placeholder={connection ? "Paste a new webhook URL to replace the current one" : placeholder}
+                  />
+                </div>
+                <Input
+                  type="text"
+                  value={nameInputs[channel]}
+                  onChange={(e) => setNameInputs({ ...nameInputs, [channel]: e.target.value })}
+                  placeholder="Channel name, e.g. #ops-alerts"
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  size="sm"
+                  onClick={() =>
+                    saveConnection(channel, {
+                      webhook_url: urlInputs[channel] || undefined,
+                      channel_name: nameInputs[channel],
+                    })
+                  }
+                  disabled={busy || (!connection && !urlInputs[channel].trim())}
+                >
+                  {connection ? "Save" : `Connect ${label}`}
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Per-type routing */}
+      <div>
+        <h3 className="font-semibold text-slate-800">Your notification routing</h3>
+        <p className="text-sm text-slate-500 mb-3">
+          Choose where each alert reaches you. Slack and Teams post to the tenant&apos;s shared channel.
+        </p>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="py-2 font-medium">Notification</th>
+              {PREFERENCE_COLUMNS.map(({ column, label }) => (
+                <th key={column} className="py-2 font-medium text-center">{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {preferences.map((pref) => (
+              <tr key={pref.notification_type}>
+                <td className="py-2">
+                  <div className="text-slate-900">{pref.label}</div>
+                  <div className="text-xs text-slate-500">{pref.description}</div>
+                </td>
+                {PREFERENCE_COLUMNS.map(({ column, chat }) => {
+                  const unavailable = !!chat && !connectionFor(chat);
+                  return (
+                    <td key={column} className="py-2 text-center">
+                      <input
+                        type="checkbox"
+                        checked={pref[column]}
+                        onChange={() => togglePreference(pref.notification_type, column)}
+                        disabled={unavailable && !pref[column]}
+                        title={unavailable ? "Connect this channel first" : undefined}
+                        className="rounded border-slate-300"
+                      />
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex justify-end pt-4">
+          <Button onClick={savePreferences} disabled={prefsSaving}>
+            {prefsSaving ? "Saving..." : "Save Notification Routing"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,309 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Modal } from "@/components/ui/Modal";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Spinner } from "@/components/ui/Spinner";
+import { Plus, Edit, Trash2, ChevronLeft, AlertCircle } from "lucide-react";
+import { formatRelativeTime } from "@/lib/utils/date";
+import type { PbxInstance } from "@/lib/pbx-instances";
+
+type InstanceRow = PbxInstance & {
+  agents: Array<{ id: string; hostname: string | null; agent_version: string | null; last_heartbeat_at: string | null }>;
+};
+
+const PATH_FIELDS = [
+  { key: "threecx_chat_files_path", label: "Chat files path" },
+  { key: "threecx_recordings_path", label: "Recordings path" },
+  { key: "threecx_voicemail_path", label: "Voicemail path" },
+  { key: "threecx_fax_path", label: "Fax path" },
+  { key: "threecx_meetings_path", label: "Meetings path" },
+] as const;
+
+const BACKUP_FIELDS = [
+  { key: "backup_chats", label: "Chats" },
+  { key: "backup_chat_media", label: "Chat media" },
+  { key: "backup_recordings", label: "Recordings" },
+  { key: "backup_voicemails", label: "Voicemails" },
+  { key: "backup_faxes", label: "Faxes" },
+  { key: "backup_cdr", label: "Call logs" },
+  { key: "backup_meetings", label: "Meetings" },
+] as const;
+
+type FormState = Record<string, string | number | boolean>;
+
+function emptyForm(): FormState {
+  const form: FormState = { name: "", threecx_host: "", ssh_port: 22, ssh_user: "", ssh_password: "", threecx_db_password: "", sync_enabled: true };
+  for (const { key } of PATH_FIELDS) form[key] = "";
+  for (const { key } of BACKUP_FIELDS) form[key] = true;
+  return form;
+}
+
+function formFromInstance(instance: InstanceRow): FormState {
+  const form = emptyForm();
+  for (const key of Object.keys(form)) {
+    const value = instance[key as keyof InstanceRow];
+    if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") form[key] = value;
+  }
+  // Passwords are never sent to the browser; blank keeps the stored one
+  form.ssh_password = "";
+  form.threecx_db_password = "";
+  return form;
+}
+
+interface PbxInstancesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tenantId: string;
+  tenantName: string;
+}
+
+export function PbxInstancesModal({ isOpen, onClose, tenantId, tenantName }: PbxInstancesModalProps) {
+  const [instances, setInstances] = useState<InstanceRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // null = list view, "new" = add form, otherwise the instance being edited
+  const [editing, setEditing] = useState<InstanceRow | "new" | null>(null);
+  const [form, setForm] = useState<FormState>(emptyForm());
+
+  const fetchInstances = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/pbx-instances?tenant_id=${tenantId}`);
+      if (!response.ok) throw new Error("Failed to fetch PBX instances");
+      const data = await response.json();
+      setInstances(data.instances || []);
+    } catch (err) {
+      console.error("Error fetching PBX instances:", err);
+      setError("Failed to load PBX instances");
+    } finally {
+      setLoading(false);
+    }
+  }, [tenantId]);
+
+  useEffect(() => {
+    if (isOpen && tenantId) {
+      setLoading(true);
+      setError(null);
+      setEditing(null);
+      fetchInstances();
+    }
+  }, [isOpen, tenantId, fetchInstances]);
+
+  const openForm = (instance: InstanceRow | "new") => {
+    setError(null);
+    setForm(instance === "new" ? emptyForm() : formFromInstance(instance));
+    setEditing(instance);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const body: Record<string, unknown> = { ...form };
+      if (!body.ssh_password) delete body.ssh_password;
+      if (!body.threecx_db_password) delete body.threecx_db_password;
+
+      const response = editing === "new"
+        ? await fetch("/api/admin/pbx-instances", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ ...body, tenant_id: tenantId }),
+          })
+        : await fetch(`/api/admin/pbx-instances/${(editing as InstanceRow).id}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(body),
+          });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to save PBX instance");
+      }
+
+      setEditing(null);
+      await fetchInstances();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (instance: InstanceRow) => {
+    if (!confirm(`Delete the PBX instance "${instance.name}"?`)) return;
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/pbx-instances/${instance.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to delete PBX instance");
+      }
+      await fetchInstances();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const setField = (key: string, value: string | number | boolean) => setForm((f) => ({ ...f, [key]: value }));
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`3CX systems - ${tenantName}`} size="full">
+      <div className="space-y-4">
+        {error && (
+          <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {editing ? (
+          <div className="space-y-4">
+            <button
+              onClick={() => setEditing(null)}
+              className="flex items-center gap-1 text-sm text-slate-600 hover:text-slate-900"
+            >
+              <ChevronLeft className="h-4 w-4" />
+              Back to systems
+            </button>
+
+            {editing !== "new" && editing.is_primary && (
+              <p className="text-sm text-slate-600">
+                The primary system shares its settings with the tenant&apos;s own settings page.
+              </p>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input label="Name" value={String(form.name)} onChange={(e) => setField("name", e.target.value)} />
+              <Input label="3CX host" value={String(form.threecx_host)} onChange={(e) => setField("threecx_host", e.target.value)} />
+              <Input
+                label="SSH port"
+                type="number"
+                value={String(form.ssh_port)}
+                onChange={(e) => setField("ssh_port", parseInt(e.target.value) || 22)}
+              />
+              <Input label="SSH user" value={String(form.ssh_user)} onChange={(e) => setField("ssh_user", e.target.value)} />
+              <Input
+                label="SSH password"
+                type="password"
+                placeholder={editing === "new" ? "" : "Leave blank to keep"}
+                value={String(form.ssh_password)}
+                onChange={(e) => setField("ssh_password", e.target.value)}
+              />
+              <Input
+                label="Database password"
+                type="password"
+                placeholder={editing === "new" ? "" : "Leave blank to keep"}
+                value={String(form.threecx_db_password)}
+                onChange={(e) => setField("threecx_db_password", e.target.value)}
+              />
+              {PATH_FIELDS.map(({ key, label }) => (
+                <Input key={key} label={label} value={String(form[key])} onChange={(e) => setField(key, e.target.value)} />
+              ))}
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Back up</p>
+              <div className="flex flex-wrap gap-4">
+                {BACKUP_FIELDS.map(({ key, label }) => (
+                  <label key={key} className="flex items-center gap-2 text-sm text-slate-700">
+                    <input type="checkbox" checked={!!form[key]} onChange={(e) => setField(key, e.target.checked)} />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input type="checkbox" checked={!!form.sync_enabled} onChange={(e) => setField("sync_enabled", e.target.checked)} />
+              Sync enabled
+            </label>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} isLoading={saving}>
+                {editing === "new" ? "Add system" : "Save"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-slate-600">
+                Each 3CX system has its own connection, paths, backup settings and sync agent. Users, billing and
+                permissions stay with the tenant.
+              </p>
+              <Button size="sm" onClick={() => openForm("new")}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add system
+              </Button>
+            </div>
+
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Spinner size="lg" />
+              </div>
+            ) : instances.length === 0 ? (
+              <p className="py-8 text-sm text-center text-slate-500">
+                No 3CX systems yet. The tenant&apos;s own connection settings are used until one is added.
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-500 border-b border-slate-200">
+                    <th className="py-2 pr-3 font-medium">Name</th>
+                    <th className="py-2 pr-3 font-medium">Host</th>
+                    <th className="py-2 pr-3 font-medium">Agent</th>
+                    <th className="py-2 pr-3 font-medium">Sync</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {instances.map((instance) => {
+                    const agent = instance.agents?.[0];
+                    return (
+                      <tr key={instance.id}>
+                        <td className="py-2 pr-3 text-slate-800 font-medium">
+                          {instance.name}
+                          {instance.is_primary && (
+                            <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-teal-100 text-teal-700">
+                              primary
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-3 text-slate-700">{instance.threecx_host || "-"}</td>
+                        <td className="py-2 pr-3 text-slate-700">
+                          {agent
+                            ? `${agent.hostname || "Installed"}${agent.last_heartbeat_at ? `, seen ${formatRelativeTime(agent.last_heartbeat_at)}` : ""}`
+                            : "Not installed"}
+                        </td>
+                        <td className="py-2 pr-3 text-slate-700">{instance.sync_enabled ? "Enabled" : "Paused"}</td>
+                        <td className="py-2 text-right">
+                          <div className="flex justify-end gap-1">
+                            <Button variant="ghost" size="sm" onClick={() => openForm(instance)} title="Edit">
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            {!instance.is_primary && (
+                              <Button variant="ghost" size="sm" onClick={() => handleDelete(instance)} title="Delete">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
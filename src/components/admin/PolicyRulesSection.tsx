@@ -0,0 +1,454 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Check, X, ShieldAlert, Pencil, Trash2, ArrowRight } from "lucide-react";
+import {
+  DEFAULT_BUSINESS_HOURS,
+  POLICY_PATTERN_PRESETS,
+  POLICY_SEVERITIES,
+  POLICY_SEVERITY_LABELS,
+  type BusinessHours,
+  type PolicyRule,
+  type PolicySeverity,
+} from "@/lib/policy-rules";
+
+const SEVERITY_STYLES: Record<PolicySeverity, string> = {
+  low: "bg-slate-100 text-slate-700",
+  medium: "bg-amber-100 text-amber-700",
+  high: "bg-red-100 text-red-700",
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+interface RuleForm {
+  name: string;
+  description: string;
+  keywords: string; // one per line
+  patterns: string; // one per line
+  external_only: boolean;
+  after_hours_only: boolean;
+  business_hours: BusinessHours;
+  severity: PolicySeverity;
+  notify: boolean;
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: "",
+  description: "",
+  keywords: "",
+  patterns: "",
+  external_only: false,
+  after_hours_only: false,
+  business_hours: DEFAULT_BUSINESS_HOURS,
+  severity: "medium",
+  notify: true,
+};
+
+function lines(value: string): string[] {
+  return value.split("\n").map((line) => line.trim()).filter(Boolean);
+}
+
+function formFromRule(rule: PolicyRule): RuleForm {
+  return {
+    name: rule.name,
+    description: rule.description || "",
+    keywords: rule.keywords.join("\n"),
+    patterns: rule.patterns.join("\n"),
+    external_only: rule.external_only,
+    after_hours_only: rule.after_hours_only,
+    business_hours: rule.business_hours,
+    severity: rule.severity,
+    notify: rule.notify,
+  };
+}
+
+function describeRule(rule: PolicyRule): string {
+  const parts: string[] = [];
+  if (rule.keywords.length > 0) parts.push(`${rule.keywords.length} keyword${rule.keywords.length !== 1 ? "s" : ""}`);
+  if (rule.patterns.length > 0) parts.push(`${rule.patterns.length} pattern${rule.patterns.length !== 1 ? "s" : ""}`);
+  if (rule.external_only) parts.push("external conversations only");
+  if (rule.after_hours_only) {
+    const hours = rule.business_hours;
+    parts.push(`outside ${hours.start}–${hours.end} ${hours.timezone}`);
+  }
+  return parts.join(" · ");
+}
+
+export function PolicyRulesSection() {
+  const [rules, setRules] = useState<PolicyRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // null = closed, "new" = creating, otherwise the id of the rule being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyRule, setBusyRule] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/policy-rules");
+      if (response.ok) {
+        const data = await response.json();
+        setRules(data.rules || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch policy rules:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  function showMessage(type: "success" | "error", text: string) {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 5000);
+  }
+
+  function openForm(rule?: PolicyRule) {
+    setForm(rule ? formFromRule(rule) : EMPTY_FORM);
+    setEditing(rule ? rule.id : "new");
+  }
+
+  function addPreset(pattern: string) {
+    const existing = lines(form.patterns);
+    if (existing.includes(pattern)) return;
+    setForm({ ...form, patterns: [...existing, pattern].join("\n") });
+  }
+
+  function toggleDay(day: number) {
+    const days = form.business_hours.days.includes(day)
+      ? form.business_hours.days.filter((d) => d !== day)
+      : [...form.business_hours.days, day].sort();
+    setForm({ ...form, business_hours: { ...form.business_hours, days } });
+  }
+
+  async function saveRule() {
+    setIsSaving(true);
+
+    try {
+      const isNew = editing === "new";
+      const response = await fetch(isNew ? "/api/admin/policy-rules" : `/api/admin/policy-rules/${editing}`, {
+        method: isNew ? "POST" : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...form,
+          description: form.description || null,
+          keywords: lines(form.keywords),
+          patterns: lines(form.patterns),
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setRules((prev) => (isNew ? [...prev, data.rule] : prev.map((r) => (r.id === data.rule.id ? data.rule : r))));
+        setEditing(null);
+        showMessage("success", isNew ? "Policy rule created" : "Policy rule updated");
+      } else {
+        showMessage("error", data.error || "Failed to save policy rule");
+      }
+    } catch (error) {
+      console.error("Error saving policy rule:", error);
+      showMessage("error", "Failed to save policy rule");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function toggleActive(rule: PolicyRule, isActive: boolean) {
+    setBusyRule(rule.id);
+
+    try {
+      const response = await fetch(`/api/admin/policy-rules/${rule.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ is_active: isActive }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setRules((prev) => prev.map((r) => (r.id === rule.id ? data.rule : r)));
+      } else {
+        showMessage("error", data.error || "Failed to update policy rule");
+      }
+    } catch (error) {
+      console.error("Error updating policy rule:", error);
+      showMessage("error", "Failed to update policy rule");
+    } finally {
+      setBusyRule(null);
+    }
+  }
+
+  async function deleteRule(rule: PolicyRule) {
+    if (!confirm(`Delete the policy rule "${rule.name}"? Messages it already flagged stay in the review queue.`)) return;
+    setBusyRule(rule.id);
+
+    try {
+      const response = await fetch(`/api/admin/policy-rules/${rule.id}`, { method: "DELETE" });
+      const data = await response.json();
+
+      if (response.ok) {
+        setRules((prev) => prev.filter((r) => r.id !== rule.id));
+        if (editing === rule.id) setEditing(null);
+        showMessage("success", "Policy rule deleted");
+      } else {
+        showMessage("error", data.error || "Failed to delete policy rule");
+      }
+    } catch (error) {
+      console.error("Error deleting policy rule:", error);
+      showMessage("error", "Failed to delete policy rule");
+    } finally {
+      setBusyRule(null);
+    }
+  }
+
+  if (isLoading) {
+    return <div className="h-20 bg-slate-100 rounded-xl animate-pulse" />;
+  }
+
+  const ruleForm = (
+    <div className="p-4 rounded-xl border border-slate-200 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-slate-600 mb-1">Name</label>
+          <Input
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="e.g. Payment card data"
+            maxLength={100}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-600 mb-1">Severity</label>
+          <select
+            value={form.severity}
+            onChange={(e) => setForm({ ...form, severity: e.target.value as PolicySeverity })}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-teal-500"
+          >
+            {POLICY_SEVERITIES.map((severity) => (
+              <option key={severity} value={severity}>
+                {POLICY_SEVERITY_LABELS[severity]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-slate-600 mb-1">Description</label>
+        <Input
+          type="text"
+          value={form.description}
+          onChange={(e) => setForm({ ...form, description: e.target.value })}
+          placeholder="What reviewers should look for"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-600 mb-1">Keywords (one per line)</label>
+          <textarea
+            value={form.keywords}
+            onChange={(e) => setForm({ ...form, keywords: e.target.value })}
+            rows={5}
+            placeholder={"guarantee\noff the record"}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 text-sm focus:outline-none focus:ring-2 focus:ring-teal-500"
+          />
+          <p className="text-xs text-slate-400 mt-1">Whole words or phrases, case-insensitive.</p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-600 mb-1">Patterns (regular expressions, one per line)</label>
+          <textarea
+            value={form.patterns}
+            onChange={(e) => setForm({ ...form, patterns: e.target.value })}
+            rows={5}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-teal-500"
+          />
+          <div className="flex flex-wrap gap-1 mt-1">
+            {POLICY_PATTERN_PRESETS.map((preset) => (
+              <button
+                key={preset.label}
+                type="button"
+                onClick={() => addPreset(preset.pattern)}
+                className="px-2 py-0.5 text-xs rounded-full bg-slate-100 text-slate-600 hover:bg-teal-100 hover:text-teal-700"
+              >
+                + {preset.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={form.external_only}
+            onChange={(e) => setForm({ ...form, external_only: e.target.checked })}
+            className="rounded border-slate-300 text-teal-600 focus:ring-teal-500"
+          />
+          Only external conversations (SMS, WhatsApp, live chat, ...)
+        </label>
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={form.after_hours_only}
+            onChange={(e) => setForm({ ...form, after_hours_only: e.target.checked })}
+            className="rounded border-slate-300 text-teal-600 focus:ring-teal-500"
+          />
+          Only messages sent outside business hours
+        </label>
+        {form.after_hours_only && (
+          <div className="ml-6 flex flex-wrap items-center gap-3 text-sm">
+            <Input
+              type="time"
+              value={form.business_hours.start}
+              onChange={(e) => setForm({ ...form, business_hours: { ...form.business_hours, start: e.target.value } })}
+              className="w-28"
+            />
+            <span className="text-slate-500">to</span>
+            <Input
+              type="time"
+              value={form.business_hours.end}
+              onChange={(e) => setForm({ ...form, business_hours: { ...form.business_hours, end: e.target.value } })}
+              className="w-28"
+            />
+            <Input
+              type="text"
+              value={form.business_hours.timezone}
+              onChange={(e) => setForm({ ...form, business_hours: { ...form.business_hours, timezone: e.target.value } })}
+              placeholder="America/New_York"
+              className="w-48"
+            />
+            <div className="flex gap-1">
+              {WEEKDAYS.map((label, day) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => toggleDay(day)}
+                  className={`px-2 py-1 text-xs rounded-md ${
+                    form.business_hours.days.includes(day)
+                      ? "bg-teal-500 text-white"
+                      : "bg-slate-100 text-slate-500"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={form.notify}
+            onChange={(e) => setForm({ ...form, notify: e.target.checked })}
+            className="rounded border-slate-300 text-teal-600 focus:ring-teal-500"
+          />
+          Notify admins about new flags
+        </label>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" onClick={() => setEditing(null)}>
+          Cancel
+        </Button>
+        <Button onClick={saveRule} isLoading={isSaving} disabled={!form.name.trim()}>
+          {editing === "new" ? "Create Rule" : "Save Rule"}
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-sm text-slate-500">
+          Flag newly archived messages for review. A rule matches when all of its conditions hold and, if it has
+          keywords or patterns, at least one of them appears in the message.
+        </p>
+        <Link
+          href="/monitor/review"
+          className="shrink-0 inline-flex items-center gap-1 text-sm font-medium text-teal-600 hover:text-teal-700"
+        >
+          Review queue
+          <ArrowRight className="h-4 w-4" />
+        </Link>
+      </div>
+
+      {message && (
+        <div
+          className={`px-4 py-3 rounded-xl text-sm font-medium flex items-center gap-2 ${
+            message.type === "success"
+              ? "bg-green-100 text-green-700 border border-green-200"
+              : "bg-red-100 text-red-700 border border-red-200"
+          }`}
+        >
+          {message.type === "success" ? <Check className="h-4 w-4" /> : <X className="h-4 w-4" />}
+          {message.text}
+        </div>
+      )}
+
+      {rules.length === 0 && editing !== "new" && (
+        <p className="text-sm text-slate-500">No policy rules configured.</p>
+      )}
+
+      {rules.map((rule) =>
+        editing === rule.id ? (
+          <div key={rule.id}>{ruleForm}</div>
+        ) : (
+          <div
+            key={rule.id}
+            className="flex items-center justify-between gap-4 p-4 rounded-xl border border-slate-200 bg-gradient-to-br from-slate-50 to-gray-50"
+          >
+            <div className="flex items-center gap-4 min-w-0">
+              <div className="p-2 bg-rose-100 rounded-lg">
+                <ShieldAlert className="h-5 w-5 text-rose-600" />
+              </div>
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <h3 className="font-semibold text-slate-800 truncate">{rule.name}</h3>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${SEVERITY_STYLES[rule.severity]}`}>
+                    {POLICY_SEVERITY_LABELS[rule.severity]}
+                  </span>
+                </div>
+                <p className="text-sm text-slate-500 truncate">{describeRule(rule)}</p>
+                {rule.description && <p className="text-xs text-slate-400 mt-1 truncate">{rule.description}</p>}
+              </div>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <label className="relative inline-flex items-center cursor-pointer" title={rule.is_active ? "Active" : "Disabled"}>
+                <input
+                  type="checkbox"
+                  checked={rule.is_active}
+                  onChange={(e) => toggleActive(rule, e.target.checked)}
+                  disabled={busyRule === rule.id}
+                  className="sr-only peer"
+                />
+                <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-teal-500"></div>
+              </label>
+              <Button variant="ghost" size="sm" onClick={() => openForm(rule)} disabled={busyRule === rule.id} title="Edit">
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => deleteRule(rule)} disabled={busyRule === rule.id} title="Delete">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )
+      )}
+
+      {editing === "new" ? ruleForm : !editing && (
+        <Button variant="outline" onClick={() => openForm()}>
+          Add Policy Rule
+        </Button>
+      )}
+    </div>
+  );
+}
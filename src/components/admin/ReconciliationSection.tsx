@@ -0,0 +1,299 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/Button";
+import { Check, X, Loader2, RefreshCw, ChevronDown, ChevronRight, DownloadCloud } from "lucide-react";
+import type { ReconciliationRun, ReconciliationDiff } from "@/lib/reconciliation";
+
+const DATA_TYPE_LABELS: Record<string, string> = {
+  messages: "Messages",
+  cdr: "Call records",
+  recordings: "Recordings",
+  voicemails: "Voicemails",
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  queued: "bg-slate-100 text-slate-700",
+  running: "bg-blue-100 text-blue-700",
+  completed: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+export function ReconciliationSection() {
+  const [runs, setRuns] = useState<ReconciliationRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isStarting, setIsStarting] = useState(false);
+  const [expandedRun, setExpandedRun] = useState<string | null>(null);
+  const [diffs, setDiffs] = useState<ReconciliationDiff[]>([]);
+  const [diffsLoading, setDiffsLoading] = useState(false);
+  const [backfilling, setBackfilling] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const fetchRuns = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/reconciliation");
+      if (response.ok) {
+        const data = await response.json();
+        setRuns(data.runs || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch reconciliation runs:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const fetchDiffs = useCallback(async (runId: string) => {
+    try {
+      const response = await fetch(`/api/admin/reconciliation/${runId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setDiffs(data.diffs || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch reconciliation diffs:", error);
+    } finally {
+      setDiffsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRuns();
+  }, [fetchRuns]);
+
+  // Poll while anything is still queued or running
+  const hasActiveRun = runs.some((r) => r.status === "queued" || r.status === "running");
+  const hasActiveBackfill = diffs.some(
+    (d) => d.backfill_status === "queued" || d.backfill_status === "running"
+  );
+
+  useEffect(() => {
+    if (!hasActiveRun && !hasActiveBackfill) return;
+    const interval = setInterval(() => {
+      fetchRuns();
+      if (expandedRun) fetchDiffs(expandedRun);
+    }, 5000);
+    return () => clearInterval(interval);
+  }, [hasActiveRun, hasActiveBackfill, expandedRun, fetchRuns, fetchDiffs]);
+
+  async function startReconciliation() {
+    setIsStarting(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch("/api/admin/reconciliation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setMessage({
+          type: "success",
+          text: `Queued reconciliation for ${data.runs.length} tenant${data.runs.length === 1 ? "" : "s"}`,
+        });
+        fetchRuns();
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to start reconciliation" });
+      }
+    } catch (error) {
+      console.error("Error starting reconciliation:", error);
+      setMessage({ type: "error", text: "Failed to start reconciliation" });
+    } finally {
+      setIsStarting(false);
+      setTimeout(() => setMessage(null), 8000);
+    }
+  }
+
+  function toggleRun(runId: string) {
+    if (expandedRun === runId) {
+      setExpandedRun(null);
+      setDiffs([]);
+      return;
+    }
+    setExpandedRun(runId);
+    setDiffs([]);
+    setDiffsLoading(true);
+    fetchDiffs(runId);
+  }
+
+  async function requestBackfill(diffId: string) {
+    setBackfilling(diffId);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/admin/reconciliation/diffs/${diffId}/backfill`, {
+        method: "POST",
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setDiffs((prev) => prev.map((d) => (d.id === diffId ? data.diff : d)));
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to queue backfill" });
+      }
+    } catch (error) {
+      console.error("Error queueing backfill:", error);
+      setMessage({ type: "error", text: "Failed to queue backfill" });
+    } finally {
+      setBackfilling(null);
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        <div className="h-12 bg-slate-100 rounded-xl animate-pulse" />
+        <div className="h-12 bg-slate-100 rounded-xl animate-pulse" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-500">
+          Compares daily 3CX counts with the archive. Runs automatically every night for the last 7 days.
+        </p>
+        <Button size="sm" onClick={startReconciliation} disabled={isStarting || hasActiveRun}>
+          {isStarting ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4 mr-2" />
+          )}
+          Run Now
+        </Button>
+      </div>
+
+      {message && (
+        <div
+          className={`px-4 py-3 rounded-xl text-sm font-medium flex items-center gap-2 ${
+            message.type === "success"
+              ? "bg-green-100 text-green-700 border border-green-200"
+              : "bg-red-100 text-red-700 border border-red-200"
+          }`}
+        >
+          {message.type === "success" ? (
+            <Check className="h-4 w-4" />
+          ) : (
+            <X className="h-4 w-4" />
+          )}
+          {message.text}
+        </div>
+      )}
+
+      {runs.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <p>No reconciliation runs yet</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100 border border-gray-200 rounded-xl">
+          {runs.map((run) => (
+            <div key={run.id}>
+              <button
+                onClick={() => toggleRun(run.id)}
+                className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-gray-50"
+              >
+                {expandedRun === run.id ? (
+                  <ChevronDown className="h-4 w-4 text-gray-400" />
+                ) : (
+                  <ChevronRight className="h-4 w-4 text-gray-400" />
+                )}
+                <span className="font-medium text-gray-900 flex-1">
+                  {run.tenant?.name || run.tenant_id}
+                </span>
+                <span className="text-sm text-gray-500">
+                  {run.start_date} – {run.end_date}
+                </span>
+                <span
+                  className={`text-sm ${run.missing_total > 0 ? "text-amber-600 font-medium" : "text-gray-500"}`}
+                >
+                  {run.status === "completed"
+                    ? run.diff_count === 0
+                      ? "In sync"
+                      : `${run.missing_total.toLocaleString()} missing`
+                    : `${run.days_checked} checked`}
+                </span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[run.status]}`}>
+                  {run.status}
+                </span>
+              </button>
+
+              {expandedRun === run.id && (
+                <div className="px-4 pb-4">
+                  {run.error && <p className="text-sm text-red-600 mb-2">{run.error}</p>}
+                  {diffsLoading ? (
+                    <div className="flex justify-center py-4">
+                      <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+                    </div>
+                  ) : diffs.length === 0 ? (
+                    <p className="text-sm text-gray-500 py-2">
+                      {run.status === "completed" ? "Every day matched" : "No differences found yet"}
+                    </p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-2 font-medium">Date</th>
+                          <th className="py-2 font-medium">Type</th>
+                          <th className="py-2 font-medium text-right">3CX</th>
+                          <th className="py-2 font-medium text-right">Archived</th>
+                          <th className="py-2 font-medium text-right">Missing</th>
+                          <th className="py-2 font-medium text-right">Backfill</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {diffs.map((diff) => (
+                          <tr key={diff.id}>
+                            <td className="py-2 text-gray-900">{diff.diff_date}</td>
+                            <td className="py-2 text-gray-700">
+                              {DATA_TYPE_LABELS[diff.data_type] || diff.data_type}
+                            </td>
+                            <td className="py-2 text-right">{diff.source_count.toLocaleString()}</td>
+                            <td className="py-2 text-right">{diff.archived_count.toLocaleString()}</td>
+                            <td className="py-2 text-right">{diff.missing_count.toLocaleString()}</td>
+                            <td className="py-2 text-right">
+                              {diff.backfill_status === "queued" || diff.backfill_status === "running" ? (
+                                <span className="inline-flex items-center gap-1 text-blue-600">
+                                  <Loader2 className="h-3 w-3 animate-spin" />
+                                  {diff.backfill_status}
+                                </span>
+                              ) : diff.backfill_status === "completed" ? (
+                                <span className="text-green-600">
+                                  {diff.backfilled_count} recovered
+                                  {diff.still_missing_count ? `, ${diff.still_missing_count} still missing` : ""}
+                                </span>
+                              ) : diff.missing_count > 0 ? (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => requestBackfill(diff.id)}
+                                  disabled={backfilling === diff.id}
+                                  title={diff.backfill_error || undefined}
+                                >
+                                  {backfilling === diff.id ? (
+                                    <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                                  ) : (
+                                    <DownloadCloud className="h-3 w-3 mr-1" />
+                                  )}
+                                  {diff.backfill_status === "failed" ? "Retry" : "Backfill"}
+                                </Button>
+                              ) : (
+                                <span className="text-gray-400">—</span>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
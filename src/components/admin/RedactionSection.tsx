@@ -0,0 +1,175 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/Button";
+import { Check, X, EyeOff } from "lucide-react";
+import {
+  REDACTION_PRESETS,
+  REDACTION_PRESET_LABELS,
+  type RedactionPreset,
+} from "@/lib/redaction";
+
+interface RedactionForm {
+  presets: RedactionPreset[];
+  custom_patterns: string; // one per line
+  mask_external_numbers: boolean;
+}
+
+export function RedactionSection() {
+  const [form, setForm] = useState<RedactionForm | null>(null);
+  const [isConfigured, setIsConfigured] = useState(false);
+  const [redactedViewUsers, setRedactedViewUsers] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  useEffect(() => {
+    async function fetchSettings() {
+      try {
+        const response = await fetch("/api/admin/redaction");
+        if (response.ok) {
+          const data = await response.json();
+          setForm({
+            presets: data.settings.presets,
+            custom_patterns: data.settings.custom_patterns.join("\n"),
+            mask_external_numbers: data.settings.mask_external_numbers,
+          });
+          setIsConfigured(data.is_configured);
+          setRedactedViewUsers(data.redacted_view_users);
+        }
+      } catch (error) {
+        console.error("Failed to fetch redaction settings:", error);
+      }
+    }
+
+    fetchSettings();
+  }, []);
+
+  function showMessage(type: "success" | "error", text: string) {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 5000);
+  }
+
+  function togglePreset(preset: RedactionPreset) {
+    if (!form) return;
+    setForm({
+      ...form,
+      presets: form.presets.includes(preset)
+        ? form.presets.filter((p) => p !== preset)
+        : [...form.presets, preset],
+    });
+  }
+
+  async function saveSettings() {
+    if (!form) return;
+    setIsSaving(true);
+
+    try {
+      const response = await fetch("/api/admin/redaction", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          presets: form.presets,
+          custom_patterns: form.custom_patterns.split("\n").map((p) => p.trim()).filter(Boolean),
+          mask_external_numbers: form.mask_external_numbers,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setIsConfigured(true);
+        showMessage("success", "Redaction settings saved");
+      } else {
+        showMessage("error", data.error || "Failed to save redaction settings");
+      }
+    } catch (error) {
+      console.error("Error saving redaction settings:", error);
+      showMessage("error", "Failed to save redaction settings");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  if (!form) {
+    return <div className="h-20 bg-slate-100 rounded-xl animate-pulse" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start gap-4 p-4 rounded-xl border border-slate-200 bg-gradient-to-br from-slate-50 to-gray-50">
+        <div className="p-2 bg-indigo-100 rounded-lg">
+          <EyeOff className="h-5 w-5 text-indigo-600" />
+        </div>
+        <div className="text-sm text-slate-600 space-y-1">
+          <p>
+            Masks personal data when it leaves the archive: for users with the redacted view permission (set per user
+            in User Management) and for exports and reports where redaction is selected. Archived data is never changed.
+          </p>
+          <p className="text-slate-500">
+            {redactedViewUsers} user{redactedViewUsers !== 1 ? "s" : ""} with the redacted view.{" "}
+            {isConfigured
+              ? "Unredacted access to messages, exports and reports is recorded in the audit log."
+              : "Save these settings to start recording unredacted access in the audit log."}
+          </p>
+        </div>
+      </div>
+
+      {message && (
+        <div
+          className={`px-4 py-3 rounded-xl text-sm font-medium flex items-center gap-2 ${
+            message.type === "success"
+              ? "bg-green-100 text-green-700 border border-green-200"
+              : "bg-red-100 text-red-700 border border-red-200"
+          }`}
+        >
+          {message.type === "success" ? <Check className="h-4 w-4" /> : <X className="h-4 w-4" />}
+          {message.text}
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-slate-600 mb-2">Mask</label>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {REDACTION_PRESETS.map((preset) => (
+            <label key={preset} className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={form.presets.includes(preset)}
+                onChange={() => togglePreset(preset)}
+                className="rounded border-slate-300 text-teal-600 focus:ring-teal-500"
+              />
+              {REDACTION_PRESET_LABELS[preset]}
+            </label>
+          ))}
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={form.mask_external_numbers}
+              onChange={(e) => setForm({ ...form, mask_external_numbers: e.target.checked })}
+              className="rounded border-slate-300 text-teal-600 focus:ring-teal-500"
+            />
+            Customer phone numbers (senders, callers, fax numbers)
+          </label>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-slate-600 mb-1">
+          Custom patterns (regular expressions, one per line)
+        </label>
+        <textarea
+          value={form.custom_patterns}
+          onChange={(e) => setForm({ ...form, custom_patterns: e.target.value })}
+          rows={3}
+          placeholder={"ACCT-\\d{8}"}
+          className="w-full px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-teal-500"
+        />
+      </div>
+
+      <div className="flex justify-end">
+        <Button onClick={saveSettings} isLoading={isSaving}>
+          Save Redaction Settings
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { formatFullDate } from "@/lib/utils/date";
+import { Button } from "@/components/ui/Button";
+import { ListOrdered, RotateCcw } from "lucide-react";
+import type { SyncJob, SyncJobType } from "@/lib/sync-jobs";
+
+const SYNC_TYPE_LABELS: Record<SyncJobType, string> = {
+  messages: "Chat messages",
+  cdr: "Call records",
+  media: "Chat media",
+  voicemails: "Voicemails",
+  recordings: "Call recordings",
+  meetings: "Meeting recordings",
+  faxes: "Faxes",
+  extensions: "Extensions",
+};
+
+const STATUS_STYLES: Record<SyncJob["status"], string> = {
+  queued: "bg-gray-100 text-gray-700",
+  running: "bg-blue-100 text-blue-700",
+  succeeded: "bg-green-100 text-green-700",
+  dead: "bg-red-100 text-red-700",
+};
+
+interface SyncJobsResponse {
+  active: SyncJob[];
+  dead: SyncJob[];
+  recent: SyncJob[];
+}
+
+export function SyncJobsCard() {
+  const [jobs, setJobs] = useState<SyncJobsResponse>({ active: [], dead: [], recent: [] });
+  const [isLoading, setIsLoading] = useState(true);
+  const [retryingJobId, setRetryingJobId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const response = await fetch("/api/sync/jobs");
+      if (response.ok) {
+        setJobs(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch sync jobs:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Chat jobs come and go every few seconds, so keep the queue view fresh
+  useEffect(() => {
+    fetchJobs();
+    const interval = setInterval(fetchJobs, 10000);
+    return () => clearInterval(interval);
+  }, [fetchJobs]);
+
+  const retryJob = async (jobId: string) => {
+    setRetryingJobId(jobId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sync/jobs/${jobId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "retry" }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Failed to retry sync job");
+        return;
+      }
+
+      await fetchJobs();
+    } catch (error) {
+      console.error("Failed to retry sync job:", error);
+      setError("Failed to retry sync job");
+    } finally {
+      setRetryingJobId(null);
+    }
+  };
+
+  const rows = [...jobs.active, ...jobs.dead, ...jobs.recent];
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden">
+      <div className="p-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <ListOrdered className="h-5 w-5 text-gray-500" />
+          Sync Queue
+        </h2>
+        <p className="text-sm text-gray-500 mt-1">
+          {jobs.active.length} in flight
+          {jobs.dead.length > 0 && (
+            <span className="text-red-600"> · {jobs.dead.length} failed after all retries</span>
+          )}
+        </p>
+        {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+      </div>
+
+      {isLoading ? (
+        <div className="animate-pulse p-4">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-12 bg-gray-100 rounded mb-2" />
+          ))}
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="p-8 text-center text-gray-500">
+          <p>No sync jobs yet</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Source</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Attempts</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Worker</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Updated</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rows.map((job) => (
+                <tr key={job.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                    {SYNC_TYPE_LABELS[job.sync_type] || job.sync_type}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[job.status]}`}>
+                      {job.status}
+                    </span>
+                    {job.last_error && (
+                      <p className="text-xs text-red-600 mt-1 max-w-xs truncate" title={job.last_error}>
+                        {job.last_error}
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-500 capitalize">{job.source}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500">
+                    {job.attempts} / {job.max_attempts}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-500">{job.locked_by || "—"}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500">
+                    {formatFullDate(job.finished_at || job.started_at || job.created_at)}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {job.status === "dead" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => retryJob(job.id)}
+                        disabled={retryingJobId === job.id}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Retry
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
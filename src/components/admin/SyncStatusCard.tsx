@@ -2,10 +2,10 @@
 
 import { useEffect, useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
-import { RefreshCw, CheckCircle, XCircle, Clock, AlertCircle, Activity, ChevronRight, AlertTriangle } from "lucide-react";
-import { formatRelativeTime } from "@/lib/utils/date";
+import { RefreshCw, CheckCircle, XCircle, Clock, AlertCircle, Activity, ChevronRight, AlertTriangle, PauseCircle } from "lucide-react";
+import { formatFullDate, formatRelativeTime } from "@/lib/utils/date";
 import { createClient } from "@/lib/supabase/client";
-import type { SyncStatus } from "@/types";
+import type { SyncGating, SyncStatus } from "@/types";
 
 type OverallHealth = "healthy" | "warning" | "critical";
 
@@ -25,6 +25,7 @@ export function SyncStatusCard() {
   const router = useRouter();
   const [syncStatuses, setSyncStatuses] = useState<SyncStatus[]>([]);
   const [overallHealth, setOverallHealth] = useState<OverallHealth>("healthy");
+  const [gating, setGating] = useState<SyncGating | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   const fetchSyncStatus = useCallback(async () => {
@@ -34,6 +35,7 @@ export function SyncStatusCard() {
         const data = await response.json();
         setSyncStatuses(data.sync_status || []);
         setOverallHealth(data.overall_health || "healthy");
+        setGating(data.gating || null);
       }
     } catch (error) {
       console.error("Failed to fetch sync status:", error);
@@ -136,6 +138,34 @@ export function SyncStatusCard() {
         </button>
       </div>
 
+      {/* Quota/Billing Gate Banner */}
+      {gating && gating.gate !== "open" && (
+        <div className={`mb-4 px-4 py-3 rounded-xl flex items-start gap-2 text-sm border ${
+          gating.gate === "warning"
+            ? "bg-amber-50 text-amber-800 border-amber-200"
+            : "bg-red-50 text-red-800 border-red-200"
+        }`}>
+          {gating.gate === "warning" ? (
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          ) : (
+            <PauseCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          )}
+          <div>
+            <p className="font-medium">
+              {gating.gate === "warning"
+                ? "Approaching storage limit"
+                : gating.gate === "uploads_paused"
+                  ? "File backups paused - chat and call records still syncing"
+                  : "All syncing paused"}
+            </p>
+            {gating.reason && <p className="text-xs mt-0.5">{gating.reason}</p>}
+            {gating.full_pause_at && (
+              <p className="text-xs mt-0.5">All syncing pauses on {formatFullDate(gating.full_pause_at)} unless resolved</p>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Health Summary Banner */}
       {syncStatuses.length > 0 && (
         <div className={`mb-4 px-4 py-2.5 rounded-xl flex items-center gap-2 text-sm font-medium ${
@@ -192,6 +222,9 @@ export function SyncStatusCard() {
                       <p className={`font-semibold text-slate-800 capitalize ${isClickable ? "group-hover:text-teal-700" : ""}`}>
                         {sync.sync_type}
                       </p>
+                      {sync.pbx_instance && (
+                        <span className="text-xs text-slate-500">{sync.pbx_instance.name}</span>
+                      )}
                       {getHealthDot(sync.health)}
                     </div>
                     <p className={`text-sm ${
@@ -5,7 +5,7 @@ import { Modal } from "@/components/ui/Modal";
 import { Button } from "@/components/ui/Button";
 import { Spinner } from "@/components/ui/Spinner";
 import { Input } from "@/components/ui/Input";
-import { CheckSquare, Square, Users, Search, Phone, Mic, Video, Voicemail, FileText, ToggleLeft, ToggleRight } from "lucide-react";
+import { CheckSquare, Square, Users, Search, Phone, Mic, Video, Voicemail, FileText, ToggleLeft, ToggleRight, EyeOff } from "lucide-react";
 
 interface Extension {
   id: string;
@@ -30,6 +30,7 @@ interface FeaturePermissions {
   canViewMeetings: boolean;
   canViewVoicemails: boolean;
   canViewFaxes: boolean;
+  redactedView: boolean;
 }
 
 interface ExtensionPermission {
@@ -68,6 +69,7 @@ export function UserPermissionsModal({
     canViewMeetings: false,
     canViewVoicemails: false,
     canViewFaxes: false,
+    redactedView: false,
   });
 
   // Fetch data when modal opens
@@ -322,6 +324,25 @@ export function UserPermissionsModal({
                 <span className="text-sm text-gray-700">Faxes</span>
               </button>
             </div>
+
+            <button
+              type="button"
+              onClick={() => setFeaturePermissions(prev => ({ ...prev, redactedView: !prev.redactedView }))}
+              className="mt-3 pt-3 border-t border-gray-200 w-full flex items-start gap-2 p-2 rounded-lg hover:bg-white transition-colors text-left"
+            >
+              {featurePermissions.redactedView ? (
+                <ToggleRight className="h-5 w-5 text-green-600 shrink-0" />
+              ) : (
+                <ToggleLeft className="h-5 w-5 text-gray-400 shrink-0" />
+              )}
+              <EyeOff className="h-4 w-4 text-gray-600 mt-0.5 shrink-0" />
+              <span>
+                <span className="block text-sm text-gray-700">Redacted view</span>
+                <span className="block text-xs text-gray-500">
+                  Card numbers, SSNs and customer phone numbers are masked in messages, the monitor feed, exports and reports
+                </span>
+              </span>
+            </button>
           </div>
 
           {/* Chat Access Header */}
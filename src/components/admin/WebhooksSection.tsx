@@ -0,0 +1,453 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Check, X, Loader2, Webhook, Copy, KeyRound, Trash2, RotateCcw, ChevronDown, ChevronRight } from "lucide-react";
+import {
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_EVENT_LABELS,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+  type WebhookEventType,
+} from "@/lib/webhooks";
+
+const DELIVERY_STATUS_STYLES: Record<string, string> = {
+  pending: "bg-slate-100 text-slate-700",
+  delivering: "bg-blue-100 text-blue-700",
+  succeeded: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+const EMPTY_FORM = { url: "", description: "", events: [] as WebhookEventType[] };
+
+export function WebhooksSection() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyEndpoint, setBusyEndpoint] = useState<string | null>(null);
+  // Shown once after create or rotate - the API never returns it again
+  const [revealedSecret, setRevealedSecret] = useState<{ endpointId: string; secret: string } | null>(null);
+  const [expandedEndpoint, setExpandedEndpoint] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [deliveriesLoading, setDeliveriesLoading] = useState(false);
+  const [redelivering, setRedelivering] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const fetchEndpoints = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/webhooks");
+      if (response.ok) {
+        const data = await response.json();
+        setEndpoints(data.endpoints || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch webhooks:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const fetchDeliveries = useCallback(async (endpointId: string) => {
+    try {
+      const response = await fetch(`/api/admin/webhooks/deliveries?endpoint_id=${endpointId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setDeliveries(data.deliveries || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch webhook deliveries:", error);
+    } finally {
+      setDeliveriesLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEndpoints();
+  }, [fetchEndpoints]);
+
+  // Poll the open delivery log while anything is still in flight
+  const hasPendingDelivery = deliveries.some((d) => d.status === "pending" || d.status === "delivering");
+
+  useEffect(() => {
+    if (!expandedEndpoint || !hasPendingDelivery) return;
+    const interval = setInterval(() => fetchDeliveries(expandedEndpoint), 5000);
+    return () => clearInterval(interval);
+  }, [expandedEndpoint, hasPendingDelivery, fetchDeliveries]);
+
+  function showMessage(type: "success" | "error", text: string) {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 5000);
+  }
+
+  function toggleEvent(event: WebhookEventType) {
+    setForm((prev) => ({
+      ...prev,
+      events: prev.events.includes(event)
+        ? prev.events.filter((e) => e !== event)
+        : [...prev.events, event],
+    }));
+  }
+
+  async function createEndpoint() {
+    setIsSaving(true);
+
+    try {
+      const response = await fetch("/api/admin/webhooks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setEndpoints((prev) => [data.endpoint, ...prev]);
+        setRevealedSecret({ endpointId: data.endpoint.id, secret: data.secret });
+        setForm(EMPTY_FORM);
+        setShowForm(false);
+      } else {
+        showMessage("error", data.error || "Failed to create webhook");
+      }
+    } catch (error) {
+      console.error("Error creating webhook:", error);
+      showMessage("error", "Failed to create webhook");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function updateEndpoint(endpoint: WebhookEndpoint, body: Record<string, unknown>) {
+    setBusyEndpoint(endpoint.id);
+
+    try {
+      const response = await fetch(`/api/admin/webhooks/${endpoint.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setEndpoints((prev) => prev.map((e) => (e.id === endpoint.id ? data.endpoint : e)));
+        if (data.secret) {
+          setRevealedSecret({ endpointId: endpoint.id, secret: data.secret });
+        }
+      } else {
+        showMessage("error", data.error || "Failed to update webhook");
+      }
+    } catch (error) {
+      console.error("Error updating webhook:", error);
+      showMessage("error", "Failed to update webhook");
+    } finally {
+      setBusyEndpoint(null);
+    }
+  }
+
+  async function rotateSecret(endpoint: WebhookEndpoint) {
+    if (!confirm("Rotate the signing secret? Deliveries will be signed with the new secret immediately.")) return;
+    await updateEndpoint(endpoint, { rotate_secret: true });
+  }
+
+  async function deleteEndpoint(endpoint: WebhookEndpoint) {
+    if (!confirm(`Delete the webhook for ${endpoint.url}? Its delivery log is deleted too.`)) return;
+    setBusyEndpoint(endpoint.id);
+
+    try {
+      const response = await fetch(`/api/admin/webhooks/${endpoint.id}`, { method: "DELETE" });
+      const data = await response.json();
+
+      if (response.ok) {
+        setEndpoints((prev) => prev.filter((e) => e.id !== endpoint.id));
+        if (expandedEndpoint === endpoint.id) setExpandedEndpoint(null);
+        showMessage("success", "Webhook deleted");
+      } else {
+        showMessage("error", data.error || "Failed to delete webhook");
+      }
+    } catch (error) {
+      console.error("Error deleting webhook:", error);
+      showMessage("error", "Failed to delete webhook");
+    } finally {
+      setBusyEndpoint(null);
+    }
+  }
+
+  function toggleDeliveries(endpointId: string) {
+    if (expandedEndpoint === endpointId) {
+      setExpandedEndpoint(null);
+      setDeliveries([]);
+      return;
+    }
+    setExpandedEndpoint(endpointId);
+    setDeliveries([]);
+    setDeliveriesLoading(true);
+    fetchDeliveries(endpointId);
+  }
+
+  async function redeliver(deliveryId: string) {
+    setRedelivering(deliveryId);
+
+    try {
+      const response = await fetch(`/api/admin/webhooks/deliveries/${deliveryId}/redeliver`, {
+        method: "POST",
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setDeliveries((prev) => [data.delivery, ...prev]);
+      } else {
+        showMessage("error", data.error || "Failed to queue redelivery");
+      }
+    } catch (error) {
+      console.error("Error queueing redelivery:", error);
+      showMessage("error", "Failed to queue redelivery");
+    } finally {
+      setRedelivering(null);
+    }
+  }
+
+  if (isLoading) {
+    return <div className="h-20 bg-slate-100 rounded-xl animate-pulse" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-500">
+        Receive an HTTPS POST when new data is archived. Each request is signed with the endpoint&apos;s secret in
+        the <code className="text-xs">X-BackupWiz-Signature</code> header (HMAC-SHA256 of{" "}
+        <code className="text-xs">timestamp.body</code>). Failed deliveries are retried with backoff for about a day.
+      </p>
+
+      {message && (
+        <div
+          className={`px-4 py-3 rounded-xl text-sm font-medium flex items-center gap-2 ${
+            message.type === "success"
+              ? "bg-green-100 text-green-700 border border-green-200"
+              : "bg-red-100 text-red-700 border border-red-200"
+          }`}
+        >
+          {message.type === "success" ? <Check className="h-4 w-4" /> : <X className="h-4 w-4" />}
+          {message.text}
+        </div>
+      )}
+
+      {endpoints.length === 0 && !showForm && (
+        <p className="text-sm text-slate-500">No webhooks configured.</p>
+      )}
+
+      {endpoints.map((endpoint) => (
+        <div key={endpoint.id} className="rounded-xl border border-slate-200 bg-gradient-to-br from-slate-50 to-gray-50">
+          <div className="flex items-center justify-between gap-4 p-4">
+            <div className="flex items-center gap-4 min-w-0">
+              <div className="p-2 bg-indigo-100 rounded-lg">
+                <Webhook className="h-5 w-5 text-indigo-600" />
+              </div>
+              <div className="min-w-0">
+                <h3 className="font-semibold text-slate-800 truncate">{endpoint.url}</h3>
+                <p className="text-sm text-slate-500">
+                  {endpoint.events.map((e) => WEBHOOK_EVENT_LABELS[e] || e).join(", ")}
+                </p>
+                <p className="text-xs text-slate-400 mt-1">
+                  {endpoint.description && `${endpoint.description} — `}
+                  {endpoint.last_delivery_at
+                    ? `Last delivery ${endpoint.last_delivery_status} ${new Date(endpoint.last_delivery_at).toLocaleString()}`
+                    : "No deliveries yet"}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <label className="relative inline-flex items-center cursor-pointer" title={endpoint.is_active ? "Active" : "Disabled"}>
+                <input
+                  type="checkbox"
+                  checked={endpoint.is_active}
+                  onChange={(e) => updateEndpoint(endpoint, { is_active: e.target.checked })}
+                  disabled={busyEndpoint === endpoint.id}
+                  className="sr-only peer"
+                />
+                <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-teal-500"></div>
+              </label>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => rotateSecret(endpoint)}
+                disabled={busyEndpoint === endpoint.id}
+                title="Rotate secret"
+              >
+                <KeyRound className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteEndpoint(endpoint)}
+                disabled={busyEndpoint === endpoint.id}
+                title="Delete"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {revealedSecret?.endpointId === endpoint.id && (
+            <div className="mx-4 mb-4 p-3 bg-amber-50 rounded-lg border border-amber-200">
+              <p className="text-sm text-amber-800 mb-2">
+                Copy the signing secret now — it won&apos;t be shown again.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 text-xs bg-white px-2 py-1 rounded border border-amber-200 break-all">
+                  {revealedSecret.secret}
+                </code>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => navigator.clipboard.writeText(revealedSecret.secret)}
+                >
+                  <Copy className="h-3 w-3 mr-1" />
+                  Copy
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setRevealedSecret(null)}>
+                  Done
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <button
+            onClick={() => toggleDeliveries(endpoint.id)}
+            className="w-full flex items-center gap-2 px-4 py-2 text-left text-sm text-slate-600 border-t border-slate-200 hover:bg-slate-100/50"
+          >
+            {expandedEndpoint === endpoint.id ? (
+              <ChevronDown className="h-4 w-4 text-slate-400" />
+            ) : (
+              <ChevronRight className="h-4 w-4 text-slate-400" />
+            )}
+            Recent deliveries
+          </button>
+
+          {expandedEndpoint === endpoint.id && (
+            <div className="px-4 pb-4">
+              {deliveriesLoading ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+                </div>
+              ) : deliveries.length === 0 ? (
+                <p className="text-sm text-slate-500 py-2">No deliveries yet</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-slate-500">
+                      <th className="py-2 font-medium">Time</th>
+                      <th className="py-2 font-medium">Event</th>
+                      <th className="py-2 font-medium">Status</th>
+                      <th className="py-2 font-medium">Response</th>
+                      <th className="py-2 font-medium text-right">Attempts</th>
+                      <th className="py-2 font-medium text-right"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {deliveries.map((delivery) => (
+                      <tr key={delivery.id}>
+                        <td className="py-2 text-slate-900">
+                          {new Date(delivery.created_at).toLocaleString()}
+                          {delivery.redelivery_of && <span className="ml-1 text-xs text-slate-400">(redelivery)</span>}
+                        </td>
+                        <td className="py-2 text-slate-700">{delivery.event_type}</td>
+                        <td className="py-2">
+                          <span
+                            className={`px-2 py-0.5 rounded-full text-xs font-medium ${DELIVERY_STATUS_STYLES[delivery.status]}`}
+                          >
+                            {delivery.status}
+                          </span>
+                        </td>
+                        <td className="py-2 text-slate-500" title={delivery.response_body || undefined}>
+                          {delivery.last_error || (delivery.response_status ? `HTTP ${delivery.response_status}` : "—")}
+                          {delivery.duration_ms !== null && ` · ${delivery.duration_ms}ms`}
+                        </td>
+                        <td className="py-2 text-right">
+                          {delivery.attempts}/{delivery.max_attempts}
+                        </td>
+                        <td className="py-2 text-right">
+                          {(delivery.status === "succeeded" || delivery.status === "failed") && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => redeliver(delivery.id)}
+                              disabled={redelivering === delivery.id}
+                            >
+                              {redelivering === delivery.id ? (
+                                <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                              ) : (
+                                <RotateCcw className="h-3 w-3 mr-1" />
+                              )}
+                              Redeliver
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {showForm ? (
+        <div className="p-4 rounded-xl border border-slate-200 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Endpoint URL</label>
+              <Input
+                type="url"
+                value={form.url}
+                onChange={(e) => setForm({ ...form, url: e.target.value })}
+                placeholder="https://example.com/hooks/backupwiz"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Description</label>
+              <Input
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                placeholder="e.g. CRM integration"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-2">Events</label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {WEBHOOK_EVENT_TYPES.map((event) => (
+                <label key={event} className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={form.events.includes(event)}
+                    onChange={() => toggleEvent(event)}
+                    className="rounded border-slate-300"
+                  />
+                  {WEBHOOK_EVENT_LABELS[event]}
+                  <code className="text-xs text-slate-400">{event}</code>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setShowForm(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={createEndpoint} disabled={isSaving || !form.url.trim() || form.events.length === 0}>
+              {isSaving ? "Saving..." : "Add Webhook"}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex justify-end pt-2">
+          <Button variant="outline" onClick={() => setShowForm(true)}>
+            New Webhook
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
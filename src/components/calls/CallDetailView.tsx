@@ -0,0 +1,289 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import {
+  Phone,
+  PhoneIncoming,
+  PhoneOutgoing,
+  PhoneMissed,
+  Disc,
+  Voicemail,
+  Download,
+  Loader2,
+  Lock,
+  ArrowRight,
+} from "lucide-react";
+import type { CallDetail, CallDetailRecording, CallDetailVoicemail } from "@/lib/call-detail";
+
+interface CallDetailViewProps {
+  callId: string;
+}
+
+function formatDuration(seconds: number | null): string {
+  if (!seconds) return "0:00";
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  if (mins >= 60) {
+    return `${Math.floor(mins / 60)}:${(mins % 60).toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+  }
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+function party(name: string | null, number: string | null): string {
+  return name || number || "Unknown";
+}
+
+// Signed playback URL for a recording or voicemail, fetched when the player mounts
+function AudioPlayer({ src }: { src: string }) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(src)
+      .then((response) => (response.ok ? response.json() : Promise.reject()))
+      .then((data) => !cancelled && setUrl(data.url))
+      .catch(() => !cancelled && setError(true));
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  if (error) return <p className="text-sm text-red-600">Audio unavailable</p>;
+  if (!url) return <Loader2 className="h-5 w-5 text-teal-500 animate-spin" />;
+
+  return (
+    <div className="flex items-center gap-3">
+      <audio controls preload="metadata" src={url} className="w-full max-w-md" />
+      <a href={url} download className="p-2 text-slate-400 hover:text-teal-600" title="Download">
+        <Download className="h-4 w-4" />
+      </a>
+    </div>
+  );
+}
+
+function RecordingCard({ recording, legNumbers }: { recording: CallDetailRecording; legNumbers: number[] }) {
+  return (
+    <div className="p-4 border border-slate-200 rounded-xl space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 min-w-0">
+          <Disc className="h-4 w-4 text-teal-500 flex-shrink-0" />
+          <span className="text-sm font-medium text-slate-800 truncate">
+            {recording.caller_number || "Unknown"} <ArrowRight className="inline h-3 w-3" /> {recording.callee_number || "Unknown"}
+          </span>
+        </div>
+        <span className="text-xs text-slate-500 flex-shrink-0">
+          {format(new Date(recording.started_at), "HH:mm:ss")} · {formatDuration(recording.duration_seconds)} · leg{" "}
+          {legNumbers.join(", ")}
+        </span>
+      </div>
+      <AudioPlayer src={`/api/recordings/${recording.id}`} />
+    </div>
+  );
+}
+
+function VoicemailCard({ voicemail }: { voicemail: CallDetailVoicemail }) {
+  return (
+    <div className="p-4 border border-slate-200 rounded-xl space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Voicemail className="h-4 w-4 text-amber-500" />
+          <span className="text-sm font-medium text-slate-800">
+            {party(voicemail.caller_name, voicemail.caller_number)}
+            {voicemail.extension_number && (
+              <span className="text-slate-500 font-normal"> for ext. {voicemail.extension_number}</span>
+            )}
+          </span>
+        </div>
+        <span className="text-xs text-slate-500">
+          {format(new Date(voicemail.received_at), "HH:mm:ss")} · {formatDuration(voicemail.duration_seconds)}
+        </span>
+      </div>
+      <AudioPlayer src={`/api/voicemails/${voicemail.id}`} />
+      {voicemail.transcription && (
+        <p className="text-sm text-slate-600 bg-slate-50 rounded-lg p-3 whitespace-pre-wrap">{voicemail.transcription}</p>
+      )}
+    </div>
+  );
+}
+
+export function CallDetailView({ callId }: CallDetailViewProps) {
+  const [detail, setDetail] = useState<CallDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchDetail() {
+      try {
+        const response = await fetch(`/api/call-logs/${callId}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load call");
+        }
+        setDetail(data);
+      } catch (err) {
+        setError((err as Error).message);
+      }
+    }
+
+    fetchDetail();
+  }, [callId]);
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-xl p-4">
+        <p className="text-red-800">{error}</p>
+      </div>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="h-8 w-8 text-teal-500 animate-spin" />
+      </div>
+    );
+  }
+
+  const { summary, legs } = detail;
+  const legNumber = (legId: string) => legs.findIndex((leg) => leg.id === legId) + 1;
+
+  const CallIcon = !summary.answered
+    ? PhoneMissed
+    : summary.direction === "inbound"
+      ? PhoneIncoming
+      : summary.direction === "outbound"
+        ? PhoneOutgoing
+        : Phone;
+
+  const stats = [
+    { label: summary.queue_name ? "Queue / ring" : "Ring", value: formatDuration(summary.wait_seconds) },
+    { label: "Talk", value: formatDuration(summary.talk_seconds) },
+    { label: "Total", value: formatDuration(summary.total_seconds) },
+    { label: "Legs", value: String(legs.length) },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="bg-white rounded-2xl shadow-lg shadow-slate-200/50 border border-slate-200 p-6">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <div className={`p-3 rounded-xl ${summary.answered ? "bg-teal-50" : "bg-red-50"}`}>
+              <CallIcon className={`h-6 w-6 ${summary.answered ? "text-teal-600" : "text-red-500"}`} />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-slate-800">
+                {party(summary.caller_name, summary.caller_number)}{" "}
+                <ArrowRight className="inline h-4 w-4 text-slate-400" />{" "}
+                {party(summary.callee_name, summary.callee_number)}
+              </h1>
+              <p className="text-sm text-slate-500 mt-1">
+                {format(new Date(summary.started_at), "MMM d, yyyy HH:mm:ss")}
+                <span className="capitalize"> · {summary.direction || "unknown"}</span>
+                {summary.queue_name && <> · Queue {summary.queue_name}</>}
+                {summary.extensions.length > 0 && <> · Ext. {summary.extensions.join(", ")}</>}
+              </p>
+            </div>
+          </div>
+          <span
+            className={`px-2 py-0.5 text-xs font-semibold rounded-full ${
+              summary.answered ? "bg-emerald-100 text-emerald-700" : "bg-red-100 text-red-700"
+            }`}
+          >
+            {summary.answered ? "Answered" : "Not answered"}
+          </span>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
+          {stats.map((stat) => (
+            <div key={stat.label} className="bg-slate-50 rounded-xl p-3">
+              <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider">{stat.label}</p>
+              <p className="text-lg font-mono text-slate-800 mt-1">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Legs */}
+      <div className="bg-white rounded-2xl shadow-lg shadow-slate-200/50 border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200">
+          <h2 className="font-semibold text-slate-800">Call legs</h2>
+          {!detail.call_group_id && (
+            <p className="text-xs text-slate-500 mt-1">Your 3CX version does not group call legs; only this leg is shown.</p>
+          )}
+        </div>
+        <table className="w-full">
+          <thead className="bg-slate-50 border-b border-slate-200">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">#</th>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">From</th>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">To</th>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Extension</th>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Started</th>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Ring</th>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Talk</th>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Status</th>
+              <th className="px-6 py-3 text-center text-xs font-semibold text-slate-500 uppercase tracking-wider">Rec</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {legs.map((leg, i) => (
+              <tr key={leg.id} className={leg.id === detail.call_id ? "bg-teal-50/50" : ""}>
+                <td className="px-6 py-3 text-sm text-slate-500">{i + 1}</td>
+                <td className="px-6 py-3 text-sm text-slate-800">{party(leg.caller_name, leg.caller_number)}</td>
+                <td className="px-6 py-3 text-sm text-slate-800">{party(leg.callee_name, leg.callee_number)}</td>
+                <td className="px-6 py-3 text-sm text-slate-600">
+                  {leg.extension_number || "-"}
+                  {leg.queue_name && <span className="block text-xs text-slate-400">{leg.queue_name}</span>}
+                </td>
+                <td className="px-6 py-3 text-sm text-slate-600 font-mono">{format(new Date(leg.started_at), "HH:mm:ss")}</td>
+                <td className="px-6 py-3 text-sm text-slate-600 font-mono">{formatDuration(leg.ring_seconds)}</td>
+                <td className="px-6 py-3 text-sm text-slate-600 font-mono">{formatDuration(leg.talk_seconds)}</td>
+                <td className="px-6 py-3 text-sm text-slate-600 capitalize">{(leg.status || (leg.answered_at ? "answered" : "missed")).replace(/_/g, " ")}</td>
+                <td className="px-6 py-3 text-center">
+                  {leg.recording_id && (
+                    <span title={leg.recording_match === "call_id" ? "Recording linked by call id" : "Recording matched by time and number"}>
+                      <Disc className={`h-4 w-4 mx-auto ${leg.recording_match === "call_id" ? "text-teal-500" : "text-teal-300"}`} />
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Recordings */}
+      <div className="bg-white rounded-2xl shadow-lg shadow-slate-200/50 border border-slate-200 p-6 space-y-4">
+        <h2 className="font-semibold text-slate-800">Recordings</h2>
+        {detail.recordings.length === 0 && detail.recordings_hidden === 0 && (
+          <p className="text-sm text-slate-500">No recording is linked to this call.</p>
+        )}
+        {detail.recordings.map((recording) => (
+          <RecordingCard
+            key={recording.id}
+            recording={recording}
+            legNumbers={recording.leg_ids.map(legNumber).filter((n) => n > 0)}
+          />
+        ))}
+        {detail.recordings_hidden > 0 && (
+          <p className="flex items-center gap-2 text-sm text-slate-500">
+            <Lock className="h-4 w-4" />
+            {detail.recordings_hidden} recording{detail.recordings_hidden !== 1 ? "s" : ""} you don&apos;t have access to
+          </p>
+        )}
+      </div>
+
+      {/* Voicemail */}
+      {detail.voicemails.length > 0 && (
+        <div className="bg-white rounded-2xl shadow-lg shadow-slate-200/50 border border-slate-200 p-6 space-y-4">
+          <h2 className="font-semibold text-slate-800">Voicemail</h2>
+          {detail.voicemails.map((voicemail) => (
+            <VoicemailCard key={voicemail.id} voicemail={voicemail} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 "use client";
 
+import { Fragment } from "react";
 import { formatMessageTime } from "@/lib/utils/date";
+import { REDACTION_MASK } from "@/lib/redaction";
 import { MediaPreview } from "./MediaPreview";
 import { Image as ImageIcon, Film, FileText, Music } from "lucide-react";
 import type { MessageWithMedia } from "@/types";
@@ -83,6 +85,22 @@ function highlightText(text: string, query: string | undefined): React.ReactNode
   }
 }
 
+// Text redacted by the API (redacted view) shows as a muted "redacted" chip
+function renderContent(text: string, query: string | undefined): React.ReactNode {
+  if (!text.includes(REDACTION_MASK)) return highlightText(text, query);
+
+  return text.split(REDACTION_MASK).map((part, i) => (
+    <Fragment key={i}>
+      {i > 0 && (
+        <span className="inline-block px-1.5 rounded bg-black/20 text-xs font-medium uppercase tracking-wide align-middle" title="Redacted">
+          redacted
+        </span>
+      )}
+      {highlightText(part, query)}
+    </Fragment>
+  ));
+}
+
 // Decide which side a message sits on, messaging-app style.
 // "Our" side (the business's agents) send from an internal extension — a short
 // numeric id like 303, 900. Customers send from a phone number (+1813...), which
@@ -154,7 +172,7 @@ export function MessageBubble({ message, isHighlighted = false, highlightQuery }
               }`}
             >
               <p className="whitespace-pre-wrap break-words">
-                {highlightQuery ? highlightText(message.content!, highlightQuery) : message.content}
+                {renderContent(message.content!, highlightQuery)}
               </p>
             </div>
           )}
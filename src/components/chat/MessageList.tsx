@@ -26,8 +26,9 @@ export function MessageList({ conversationId, initialMessages, loadAll = false,
   const [hasMore, setHasMore] = useState(true);
   const [hasNewer, setHasNewer] = useState(false);
   const [isLoadingNewer, setIsLoadingNewer] = useState(false);
-  const [oldestTimestamp, setOldestTimestamp] = useState<string | null>(null);
-  const [newestTimestamp, setNewestTimestamp] = useState<string | null>(null);
+  // Opaque keyset cursors from /api/messages: older history and anything newer
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [newerCursor, setNewerCursor] = useState<string | null>(null);
 
   const [searchQuery, setSearchQuery] = useState("");
   const [showSearch, setShowSearch] = useState(false);
@@ -37,22 +38,17 @@ export function MessageList({ conversationId, initialMessages, loadAll = false,
   const bottomRef = useRef<HTMLDivElement>(null);
   const pollIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const isNearBottomRef = useRef(true);
-  const newestTimestampRef = useRef<string | null>(null);
   const searchActiveRef = useRef(false);
   const highlightScrollDone = useRef(false);
 
   // Keep refs in sync with state
-  useEffect(() => {
-    newestTimestampRef.current = newestTimestamp;
-  }, [newestTimestamp]);
-
   useEffect(() => {
     searchActiveRef.current = showSearch && searchQuery.trim().length > 0;
   }, [showSearch, searchQuery]);
 
-  const fetchMessages = useCallback(async (before?: string, isPolling?: boolean) => {
+  const fetchMessages = useCallback(async (cursor?: string, isPolling?: boolean) => {
     try {
-      if (before) {
+      if (cursor) {
         setIsLoadingMore(true);
       } else if (!isPolling) {
         setIsLoading(true);
@@ -61,15 +57,13 @@ export function MessageList({ conversationId, initialMessages, loadAll = false,
       const url = new URL(`/api/messages`, window.location.origin);
       url.searchParams.set("conversation_id", conversationId);
       url.searchParams.set("limit", "50");
-      if (before) {
-        url.searchParams.set("before", before);
+      if (cursor) {
+        url.searchParams.set("cursor", cursor);
       } else if (highlightMessageId) {
         // Deep-link mode: load a window around the target message
         url.searchParams.set("around", highlightMessageId);
-      } else {
-        // Initial load: get the latest messages
-        url.searchParams.set("latest", "true");
       }
+      // Otherwise: initial load of the latest messages
 
       const response = await fetch(url.toString());
 
@@ -79,7 +73,7 @@ export function MessageList({ conversationId, initialMessages, loadAll = false,
 
       const data = await response.json();
 
-      if (before) {
+      if (cursor) {
         setMessages((prev) => [...data.data, ...prev]);
       } else {
         setMessages(data.data);
@@ -92,13 +86,11 @@ export function MessageList({ conversationId, initialMessages, loadAll = false,
       }
 
       setHasMore(data.has_more);
-      if (data.has_newer !== undefined) {
+      setOlderCursor(data.next_cursor);
+      // Paging back through history leaves the newest end where it was
+      if (!cursor) {
         setHasNewer(data.has_newer);
-      }
-
-      if (data.data.length > 0) {
-        setOldestTimestamp(data.data[0].sent_at);
-        setNewestTimestamp(data.data[data.data.length - 1].sent_at);
+        setNewerCursor(data.prev_cursor);
       }
     } catch (err) {
       if (!isPolling) {
@@ -111,19 +103,18 @@ export function MessageList({ conversationId, initialMessages, loadAll = false,
   }, [conversationId, highlightMessageId]);
 
   useEffect(() => {
+    // Pre-rendered messages come without cursors, so they can't page further
     if (!initialMessages) {
       fetchMessages();
-    } else if (initialMessages.length > 0) {
-      setOldestTimestamp(initialMessages[0].sent_at);
     }
   }, [conversationId, initialMessages, fetchMessages]);
 
   // Auto-load all messages when loadAll is true (pause while searching to prevent scroll jumps)
   useEffect(() => {
-    if (loadAll && hasMore && !isLoadingMore && !isLoading && oldestTimestamp && !searchActiveRef.current) {
-      fetchMessages(oldestTimestamp);
+    if (loadAll && hasMore && !isLoadingMore && !isLoading && olderCursor && !searchActiveRef.current) {
+      fetchMessages(olderCursor);
     }
-  }, [loadAll, hasMore, isLoadingMore, isLoading, oldestTimestamp, fetchMessages]);
+  }, [loadAll, hasMore, isLoadingMore, isLoading, olderCursor, fetchMessages]);
 
   // Scroll to highlighted message from deep-link (e.g. search results page)
   useEffect(() => {
@@ -142,12 +133,12 @@ export function MessageList({ conversationId, initialMessages, loadAll = false,
 
   // Load newer messages (scroll down in windowed mode)
   const fetchNewerMessages = useCallback(async () => {
-    if (!newestTimestamp || isLoadingNewer) return;
+    if (!newerCursor || isLoadingNewer) return;
     setIsLoadingNewer(true);
     try {
       const url = new URL(`/api/messages`, window.location.origin);
       url.searchParams.set("conversation_id", conversationId);
-      url.searchParams.set("after", newestTimestamp);
+      url.searchParams.set("cursor", newerCursor);
       url.searchParams.set("limit", "50");
 
       const response = await fetch(url.toString());
@@ -156,29 +147,24 @@ export function MessageList({ conversationId, initialMessages, loadAll = false,
       const data = await response.json();
       if (data.data && data.data.length > 0) {
         setMessages((prev) => [...prev, ...data.data]);
-        const latestMsg = data.data[data.data.length - 1];
-        if (latestMsg) setNewestTimestamp(latestMsg.sent_at);
-      }
-      if (data.has_newer !== undefined) {
-        setHasNewer(data.has_newer);
-      } else {
-        setHasNewer(false);
+        setNewerCursor(data.prev_cursor);
       }
+      setHasNewer(!!data.has_newer);
     } catch {
       // Silently fail
     } finally {
       setIsLoadingNewer(false);
     }
-  }, [conversationId, newestTimestamp, isLoadingNewer]);
+  }, [conversationId, newerCursor, isLoadingNewer]);
 
   // Poll for new messages
   const pollForNewMessages = useCallback(async () => {
-    if (!newestTimestamp) return;
+    if (!newerCursor) return;
 
     try {
       const url = new URL(`/api/messages`, window.location.origin);
       url.searchParams.set("conversation_id", conversationId);
-      url.searchParams.set("after", newestTimestamp);
+      url.searchParams.set("cursor", newerCursor);
       url.searchParams.set("limit", "50");
 
       const response = await fetch(url.toString());
@@ -190,11 +176,8 @@ export function MessageList({ conversationId, initialMessages, loadAll = false,
       if (data.data && data.data.length > 0) {
         setMessages((prev) => [...prev, ...data.data]);
 
-        // Update newest timestamp
-        const latestMsg = data.data[data.data.length - 1];
-        if (latestMsg) {
-          setNewestTimestamp(latestMsg.sent_at);
-        }
+        // Continue from the newest message next time
+        setNewerCursor(data.prev_cursor);
 
         // Auto-scroll to bottom if user was near bottom (skip if searching or deep-linking)
         if (isNearBottomRef.current && !searchActiveRef.current && !highlightMessageId) {
@@ -207,11 +190,11 @@ export function MessageList({ conversationId, initialMessages, loadAll = false,
       // Silently fail for polling - don't show errors
       console.debug("Polling error:", err);
     }
-  }, [conversationId, newestTimestamp]);
+  }, [conversationId, newerCursor]);
 
   // Set up polling interval
   useEffect(() => {
-    if (!enablePolling || !newestTimestamp) return;
+    if (!enablePolling || !newerCursor) return;
 
     pollIntervalRef.current = setInterval(pollForNewMessages, POLL_INTERVAL);
 
@@ -221,7 +204,7 @@ export function MessageList({ conversationId, initialMessages, loadAll = false,
         pollIntervalRef.current = null;
       }
     };
-  }, [enablePolling, newestTimestamp, pollForNewMessages]);
+  }, [enablePolling, newerCursor, pollForNewMessages]);
 
   // Track if user is near bottom of scroll
   const checkIfNearBottom = () => {
@@ -237,8 +220,8 @@ export function MessageList({ conversationId, initialMessages, loadAll = false,
     const { scrollTop, scrollHeight, clientHeight } = containerRef.current;
 
     // Load older messages when scrolled near the top
-    if (scrollTop < 200 && oldestTimestamp && hasMore && !isLoadingMore) {
-      fetchMessages(oldestTimestamp);
+    if (scrollTop < 200 && olderCursor && hasMore && !isLoadingMore) {
+      fetchMessages(olderCursor);
     }
 
     // Load newer messages when scrolled near the bottom (windowed mode)
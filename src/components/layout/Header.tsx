@@ -19,6 +19,7 @@ import {
   X,
 } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
+import { PbxInstanceSelector } from "@/components/layout/PbxInstanceSelector";
 
 export function Header() {
   const router = useRouter();
@@ -292,6 +293,9 @@ export function Header() {
             </div>
           )}
 
+          {/* 3CX system filter - Only shown for tenants with several systems */}
+          <PbxInstanceSelector />
+
           {/* Notifications */}
           <div className="relative" ref={notificationRef}>
             <button
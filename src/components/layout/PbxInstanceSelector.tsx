@@ -0,0 +1,92 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { ChevronDown, Check, Server } from "lucide-react";
+
+interface PbxInstanceOption {
+  id: string;
+  name: string;
+  is_primary: boolean;
+}
+
+// Narrows the dashboards to one 3CX system. Only shown for tenants that run
+// more than one; the choice lives in a cookie the API routes read.
+export function PbxInstanceSelector() {
+  const [instances, setInstances] = useState<PbxInstanceOption[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [showMenu, setShowMenu] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    fetch("/api/pbx-instances")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!data) return;
+        setInstances(data.instances || []);
+        setSelected(data.selected || null);
+      })
+      .catch((error) => console.error("Error fetching PBX instances:", error));
+  }, []);
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setShowMenu(false);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  if (instances.length < 2) return null;
+
+  const select = (instanceId: string | null) => {
+    if (instanceId) {
+      document.cookie = `pbxInstanceId=${instanceId}; path=/; max-age=${60 * 60 * 24 * 30}; samesite=lax`;
+    } else {
+      document.cookie = "pbxInstanceId=; path=/; expires=Thu, 01 Jan 1970 00:00:00 GMT";
+    }
+    // Refresh the page to apply the new filter
+    window.location.reload();
+  };
+
+  const current = instances.find((instance) => instance.id === selected);
+  const options: Array<{ id: string | null; name: string }> = [{ id: null, name: "All 3CX systems" }, ...instances];
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setShowMenu(!showMenu)}
+        className="flex items-center gap-2 px-4 py-3 text-sm font-semibold text-slate-700 bg-slate-50 border-2 border-slate-100 rounded-xl hover:bg-white hover:border-slate-200 hover:shadow-lg hover:shadow-slate-200/50 transition-all"
+      >
+        <div className="p-1 bg-gradient-to-br from-sky-500 to-blue-600 rounded-lg">
+          <Server className="h-3.5 w-3.5 text-white" />
+        </div>
+        <span className="max-w-[120px] truncate">{current?.name || "All 3CX systems"}</span>
+        <ChevronDown className={`h-4 w-4 transition-transform duration-200 ${showMenu ? "rotate-180" : ""}`} />
+      </button>
+
+      {showMenu && (
+        <div className="absolute right-0 mt-2 w-64 bg-white rounded-2xl shadow-2xl border border-slate-200 py-2 z-50 animate-in fade-in slide-in-from-top-2 duration-200">
+          <div className="px-4 py-3 border-b border-slate-100">
+            <p className="text-xs font-bold text-slate-400 uppercase tracking-wider">3CX System</p>
+          </div>
+          {options.map((option) => (
+            <button
+              key={option.id ?? "all"}
+              onClick={() => select(option.id)}
+              className={`w-full text-left px-4 py-3 text-sm hover:bg-slate-50 transition-colors flex items-center gap-3 ${
+                selected === option.id ? "bg-sky-50" : ""
+              }`}
+            >
+              <span className={`flex-1 font-semibold ${selected === option.id ? "text-sky-700" : "text-slate-900"}`}>
+                {option.name}
+              </span>
+              {selected === option.id && <Check className="h-5 w-5 text-sky-500" />}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
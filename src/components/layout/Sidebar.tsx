@@ -27,6 +27,7 @@ import {
   Sparkles,
   ClipboardList,
   RotateCcw,
+  ShieldAlert,
 } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { useState } from "react";
@@ -61,6 +62,7 @@ const communicationsNavigation: NavItem[] = [
 const adminNavigation: NavItem[] = [
   { name: "3CX Setup", href: "/setup", icon: Settings, requiredRoles: ["admin"] },
   { name: "Sync Status", href: "/admin/sync-status", icon: Activity, requiredRoles: ["super_admin", "admin"] },
+  { name: "Review Queue", href: "/monitor/review", icon: ShieldAlert, requiredRoles: ["super_admin", "admin"] },
   { name: "Message Recovery", href: "/admin/recovery", icon: RotateCcw, requiredRoles: ["super_admin"] },
   { name: "User Management", href: "/admin/users", icon: UserCog, requiredRoles: ["super_admin", "admin"] },
   { name: "Billing", href: "/admin/billing", icon: CreditCard, requiredRoles: ["super_admin", "admin"] },
@@ -0,0 +1,386 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Button } from "@/components/ui/Button";
+import { Spinner } from "@/components/ui/Spinner";
+import { formatFullDate, formatRelativeTime } from "@/lib/utils/date";
+import {
+  POLICY_FLAG_STATUSES,
+  POLICY_FLAG_STATUS_LABELS,
+  POLICY_SEVERITY_LABELS,
+  describePolicyReason,
+  type PolicyFlag,
+  type PolicyFlagNote,
+  type PolicyFlagStatus,
+  type PolicySeverity,
+} from "@/lib/policy-rules";
+import { AlertTriangle, Check, CheckCircle, RotateCcw, ShieldAlert, Globe, ExternalLink, Image } from "lucide-react";
+
+const SEVERITY_STYLES: Record<PolicySeverity, string> = {
+  low: "bg-slate-100 text-slate-700",
+  medium: "bg-amber-100 text-amber-700",
+  high: "bg-red-100 text-red-700",
+};
+
+const STATUS_STYLES: Record<PolicyFlagStatus, string> = {
+  open: "bg-teal-100 text-teal-700",
+  reviewed: "bg-green-100 text-green-700",
+  escalated: "bg-rose-100 text-rose-700",
+};
+
+interface QueueFlag extends Omit<PolicyFlag, "tenant_id"> {
+  message: { id: string; sender_identifier: string | null; sender_name: string | null; content: string | null; has_media: boolean } | null;
+  conversation: { id: string; conversation_name: string | null; channel_type: string | null; is_external: boolean } | null;
+}
+
+interface ContextMessage {
+  id: string;
+  sender_identifier: string | null;
+  sender_name: string | null;
+  content: string | null;
+  message_type: string;
+  has_media: boolean;
+  sent_at: string;
+}
+
+interface FlagDetail {
+  flag: PolicyFlag;
+  notes: Array<PolicyFlagNote & { author: { email: string; full_name: string | null } | null }>;
+  conversation: { id: string; conversation_name: string | null; channel_type: string | null; is_external: boolean } | null;
+  messages: ContextMessage[];
+}
+
+type StatusTab = PolicyFlagStatus | "all";
+
+const STATUS_TABS: StatusTab[] = [...POLICY_FLAG_STATUSES, "all"];
+
+export function ReviewQueue() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const selectedId = searchParams.get("flag");
+
+  const [status, setStatus] = useState<StatusTab>("open");
+  const [flags, setFlags] = useState<QueueFlag[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [detail, setDetail] = useState<FlagDetail | null>(null);
+  const [isLoadingDetail, setIsLoadingDetail] = useState(false);
+  const [note, setNote] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchFlags = useCallback(async (cursor?: string) => {
+    const params = new URLSearchParams({ status });
+    if (cursor) params.set("cursor", cursor);
+
+    try {
+      const response = await fetch(`/api/admin/policy-flags?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Failed to load flagged messages");
+        return;
+      }
+
+      setError(null);
+      setFlags((prev) => (cursor ? [...prev, ...data.data] : data.data));
+      setNextCursor(data.has_more ? data.next_cursor : null);
+      if (data.counts) setCounts(data.counts);
+    } catch (err) {
+      console.error("Failed to fetch policy flags:", err);
+      setError("Failed to load flagged messages");
+    }
+  }, [status]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchFlags().finally(() => setIsLoading(false));
+  }, [fetchFlags]);
+
+  const fetchDetail = useCallback(async (id: string) => {
+    setIsLoadingDetail(true);
+    try {
+      const response = await fetch(`/api/admin/policy-flags/${id}`);
+      if (response.ok) {
+        setDetail(await response.json());
+      } else {
+        setDetail(null);
+      }
+    } catch (err) {
+      console.error("Failed to fetch policy flag:", err);
+      setDetail(null);
+    } finally {
+      setIsLoadingDetail(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setNote("");
+    if (selectedId) {
+      fetchDetail(selectedId);
+    } else {
+      setDetail(null);
+    }
+  }, [selectedId, fetchDetail]);
+
+  function selectFlag(id: string) {
+    router.replace(`/monitor/review?flag=${id}`, { scroll: false });
+  }
+
+  async function loadMore() {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    await fetchFlags(nextCursor);
+    setIsLoadingMore(false);
+  }
+
+  async function submit(newStatus?: PolicyFlagStatus) {
+    if (!detail) return;
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/admin/policy-flags/${detail.flag.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...(newStatus && { status: newStatus }), note: note || undefined }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        alert(data.error || "Failed to update flag");
+        return;
+      }
+
+      setNote("");
+      await Promise.all([fetchDetail(detail.flag.id), fetchFlags()]);
+    } catch (err) {
+      console.error("Failed to update policy flag:", err);
+      alert("Failed to update flag");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  const flag = detail?.flag;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-5 gap-4">
+      {/* Queue */}
+      <div className="lg:col-span-2 bg-white rounded-lg shadow flex flex-col min-h-[24rem]">
+        <div className="flex items-center gap-1 p-2 border-b">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab}
+              onClick={() => setStatus(tab)}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                status === tab ? "bg-slate-100 text-slate-800" : "text-slate-500 hover:text-slate-700"
+              }`}
+            >
+              {tab === "all" ? "All" : POLICY_FLAG_STATUS_LABELS[tab]}
+              {tab !== "all" && counts[tab] !== undefined && (
+                <span className="text-xs text-slate-400">{counts[tab]}</span>
+              )}
+            </button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Spinner />
+          </div>
+        ) : error ? (
+          <div className="flex-1 flex items-center justify-center text-sm text-red-600 p-4">{error}</div>
+        ) : flags.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center p-6">
+            <CheckCircle className="h-10 w-10 text-slate-300 mb-2" />
+            <p className="text-sm text-slate-500">No flagged messages here</p>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto divide-y">
+            {flags.map((item) => (
+              <button
+                key={item.id}
+                onClick={() => selectFlag(item.id)}
+                className={`w-full text-left p-3 hover:bg-slate-50 ${selectedId === item.id ? "bg-teal-50" : ""}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-sm text-slate-800 truncate">{item.rule_name}</span>
+                  <span className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${SEVERITY_STYLES[item.severity]}`}>
+                    {POLICY_SEVERITY_LABELS[item.severity]}
+                  </span>
+                </div>
+                <div className="flex items-center gap-1 text-xs text-slate-500 mt-1">
+                  {item.conversation?.is_external && <Globe className="h-3 w-3" />}
+                  <span className="truncate">
+                    {item.message?.sender_name || item.message?.sender_identifier || "Unknown sender"} in{" "}
+                    {item.conversation?.conversation_name || "Unnamed conversation"}
+                  </span>
+                </div>
+                <p className="text-sm text-slate-600 mt-1 line-clamp-2">
+                  {item.message?.content || (item.message?.has_media ? "[Media]" : "")}
+                </p>
+                <div className="flex items-center justify-between text-xs text-slate-400 mt-1">
+                  <span>{formatRelativeTime(item.message_sent_at)}</span>
+                  {status === "all" && (
+                    <span className={`px-2 py-0.5 rounded-full ${STATUS_STYLES[item.status]}`}>
+                      {POLICY_FLAG_STATUS_LABELS[item.status]}
+                    </span>
+                  )}
+                </div>
+              </button>
+            ))}
+            {nextCursor && (
+              <div className="p-3 text-center">
+                <Button variant="outline" size="sm" onClick={loadMore} isLoading={isLoadingMore}>
+                  Load more
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Detail */}
+      <div className="lg:col-span-3 bg-white rounded-lg shadow min-h-[24rem]">
+        {!selectedId ? (
+          <div className="h-full flex flex-col items-center justify-center text-center p-6">
+            <ShieldAlert className="h-10 w-10 text-slate-300 mb-2" />
+            <p className="text-sm text-slate-500">Select a flagged message to review it</p>
+          </div>
+        ) : isLoadingDetail && !detail ? (
+          <div className="h-full flex items-center justify-center">
+            <Spinner />
+          </div>
+        ) : !flag ? (
+          <div className="h-full flex items-center justify-center text-sm text-slate-500 p-6">
+            This flag no longer exists
+          </div>
+        ) : (
+          <div className="p-4 space-y-4">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <h2 className="text-lg font-semibold text-slate-900">{flag.rule_name}</h2>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${SEVERITY_STYLES[flag.severity]}`}>
+                    {POLICY_SEVERITY_LABELS[flag.severity]}
+                  </span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[flag.status]}`}>
+                    {POLICY_FLAG_STATUS_LABELS[flag.status]}
+                  </span>
+                </div>
+                <p className="text-sm text-slate-500 mt-1">
+                  Flagged {formatFullDate(flag.created_at)}
+                </p>
+              </div>
+              {detail.conversation && (
+                <Link
+                  href={`/conversations/${detail.conversation.id}`}
+                  className="shrink-0 inline-flex items-center gap-1 text-sm font-medium text-teal-600 hover:text-teal-700"
+                >
+                  Open conversation
+                  <ExternalLink className="h-4 w-4" />
+                </Link>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {flag.reasons.map((reason, i) => (
+                <span key={i} className="px-2 py-1 rounded-md bg-slate-100 text-xs text-slate-700">
+                  {describePolicyReason(reason)}
+                </span>
+              ))}
+            </div>
+
+            {/* Conversation context */}
+            <div className="border rounded-lg divide-y max-h-96 overflow-y-auto">
+              {detail.messages.map((msg) => (
+                <div
+                  key={msg.id}
+                  className={`p-3 text-sm ${msg.id === flag.message_id ? "bg-amber-50 border-l-4 border-amber-400" : ""}`}
+                >
+                  <div className="flex items-center justify-between text-xs text-slate-500">
+                    <span className="font-medium text-slate-700">
+                      {msg.sender_name || msg.sender_identifier || "Unknown sender"}
+                    </span>
+                    <span>{formatFullDate(msg.sent_at)}</span>
+                  </div>
+                  <p className="text-slate-800 mt-1 whitespace-pre-wrap break-words">
+                    {msg.content}
+                    {msg.has_media && (
+                      <span className="inline-flex items-center gap-1 text-xs text-slate-400 ml-1">
+                        <Image className="h-3 w-3" />
+                        Media
+                      </span>
+                    )}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            {/* Notes timeline */}
+            {detail.notes.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold text-slate-700">Review history</h3>
+                {detail.notes.map((entry) => (
+                  <div key={entry.id} className="text-sm">
+                    <div className="text-xs text-slate-500">
+                      <span className="font-medium text-slate-700">
+                        {entry.author?.full_name || entry.author?.email || "Unknown user"}
+                      </span>
+                      {entry.status_to && entry.status_from && (
+                        <> changed the status from {POLICY_FLAG_STATUS_LABELS[entry.status_from]} to {POLICY_FLAG_STATUS_LABELS[entry.status_to]}</>
+                      )}
+                      {" · "}
+                      {formatRelativeTime(entry.created_at)}
+                    </div>
+                    {entry.body && <p className="text-slate-800 mt-0.5 whitespace-pre-wrap">{entry.body}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Actions */}
+            <div className="space-y-2">
+              <textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={3}
+                maxLength={5000}
+                placeholder="Add a note for other reviewers (optional)"
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 text-sm focus:outline-none focus:ring-2 focus:ring-teal-500"
+              />
+              <div className="flex flex-wrap justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => submit()} disabled={isSubmitting || !note.trim()}>
+                  Add Note
+                </Button>
+                {flag.status !== "open" && (
+                  <Button variant="outline" size="sm" onClick={() => submit("open")} disabled={isSubmitting}>
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Reopen
+                  </Button>
+                )}
+                {flag.status !== "escalated" && (
+                  <Button variant="danger" size="sm" onClick={() => submit("escalated")} disabled={isSubmitting}>
+                    <AlertTriangle className="h-4 w-4 mr-1" />
+                    Escalate
+                  </Button>
+                )}
+                {flag.status !== "reviewed" && (
+                  <Button size="sm" onClick={() => submit("reviewed")} disabled={isSubmitting}>
+                    <Check className="h-4 w-4 mr-1" />
+                    Mark Reviewed
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,460 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Bookmark, BellRing, Play, History, Trash2, Users, ChevronDown } from "lucide-react";
+import { Modal } from "@/components/ui/Modal";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Spinner } from "@/components/ui/Spinner";
+import { formatFullDate, formatRelativeTime } from "@/lib/utils/date";
+import { SEARCH_RESULT_TYPE_LABELS, splitSnippet } from "@/lib/search";
+import {
+  SAVED_SEARCH_DELIVERIES,
+  SAVED_SEARCH_DELIVERY_LABELS,
+  SAVED_SEARCH_SCHEDULES,
+  SAVED_SEARCH_SCHEDULE_LABELS,
+  hasSearchCriteria,
+  type SavedSearch,
+  type SavedSearchDelivery,
+  type SavedSearchFilters,
+  type SavedSearchRun,
+  type SavedSearchSchedule,
+} from "@/lib/saved-searches";
+
+export interface SavedSearchListItem extends SavedSearch {
+  can_manage: boolean;
+  owner: { email: string; full_name: string | null } | null;
+}
+
+interface SavedSearchesPanelProps {
+  query: string;
+  filters: SavedSearchFilters;
+  activeId: string | null;
+  // Applied once the list has loaded (the ?saved= link from an alert)
+  initialSavedId?: string | null;
+  onApply: (search: SavedSearchListItem) => void;
+}
+
+export function SavedSearchesPanel({
+  query,
+  filters,
+  activeId,
+  initialSavedId,
+  onApply,
+}: SavedSearchesPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [searches, setSearches] = useState<SavedSearchListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showSave, setShowSave] = useState(false);
+  const [historyFor, setHistoryFor] = useState<SavedSearchListItem | null>(null);
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const [appliedInitial, setAppliedInitial] = useState(false);
+
+  const fetchSearches = useCallback(async () => {
+    try {
+      const res = await fetch("/api/saved-searches");
+      const data = await res.json();
+      if (res.ok) setSearches(data.searches || []);
+    } catch (err) {
+      console.error("Failed to load saved searches:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSearches();
+  }, [fetchSearches]);
+
+  useEffect(() => {
+    if (appliedInitial || loading || !initialSavedId) return;
+    const search = searches.find((s) => s.id === initialSavedId);
+    if (search) onApply(search);
+    setAppliedInitial(true);
+  }, [appliedInitial, loading, initialSavedId, searches, onApply]);
+
+  const runNow = async (search: SavedSearchListItem) => {
+    setRunningId(search.id);
+    try {
+      const res = await fetch(`/api/saved-searches/${search.id}/runs`, { method: "POST" });
+      if (!res.ok) {
+        const data = await res.json();
+        alert(data.error || "Failed to run search");
+        return;
+      }
+      await fetchSearches();
+      setHistoryFor(search);
+    } catch (err) {
+      console.error("Failed to run saved search:", err);
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  const toggleSchedule = async (search: SavedSearchListItem, schedule: SavedSearchSchedule) => {
+    const res = await fetch(`/api/saved-searches/${search.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ schedule }),
+    });
+    if (res.ok) {
+      fetchSearches();
+    } else {
+      const data = await res.json();
+      alert(data.error || "Failed to update search");
+    }
+  };
+
+  const remove = async (search: SavedSearchListItem) => {
+    if (!confirm(`Delete the saved search "${search.name}" and its run history?`)) return;
+    const res = await fetch(`/api/saved-searches/${search.id}`, { method: "DELETE" });
+    if (res.ok) {
+      setSearches((prev) => prev.filter((s) => s.id !== search.id));
+    } else {
+      const data = await res.json();
+      alert(data.error || "Failed to delete search");
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between p-4"
+      >
+        <div className="flex items-center gap-2">
+          <Bookmark className="h-5 w-5 text-gray-500" />
+          <span className="font-medium">Saved searches</span>
+          {searches.length > 0 && (
+            <span className="px-2 py-0.5 bg-slate-100 text-slate-600 text-sm rounded-full">
+              {searches.length}
+            </span>
+          )}
+        </div>
+        <ChevronDown
+          className={`h-5 w-5 text-gray-400 transition-transform ${isExpanded ? "rotate-180" : ""}`}
+        />
+      </button>
+
+      {isExpanded && (
+        <div className="p-4 border-t border-gray-200 space-y-3">
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            disabled={!hasSearchCriteria(query, filters)}
+            onClick={() => setShowSave(true)}
+          >
+            Save current search
+          </Button>
+
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Spinner size="sm" />
+            </div>
+          ) : searches.length === 0 ? (
+            <p className="text-sm text-slate-500">
+              Save a search to come back to it or get alerted about new matches.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {searches.map((search) => (
+                <li
+                  key={search.id}
+                  className={`rounded-lg border p-3 ${
+                    search.id === activeId ? "border-teal-400 bg-teal-50/50" : "border-slate-200"
+                  }`}
+                >
+                  <button
+                    onClick={() => onApply(search)}
+                    className="w-full text-left"
+                  >
+                    <div className="flex items-center gap-1.5">
+                      <span className="font-medium text-slate-800 truncate">{search.name}</span>
+                      {search.is_shared && <Users className="h-3.5 w-3.5 text-slate-400 flex-shrink-0" />}
+                      {search.schedule !== "none" && <BellRing className="h-3.5 w-3.5 text-teal-500 flex-shrink-0" />}
+                    </div>
+                    <p className="text-xs text-slate-500 truncate">
+                      {search.query ? `"${search.query}"` : "Filters only"}
+                      {!search.can_manage && search.owner && ` · ${search.owner.full_name || search.owner.email}`}
+                    </p>
+                  </button>
+
+                  {search.can_manage && (
+                    <div className="flex items-center gap-1 mt-2">
+                      <select
+                        value={search.schedule}
+                        onChange={(e) => toggleSchedule(search, e.target.value as SavedSearchSchedule)}
+                        className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500"
+                      >
+                        {SAVED_SEARCH_SCHEDULES.map((schedule) => (
+                          <option key={schedule} value={schedule}>
+                            {SAVED_SEARCH_SCHEDULE_LABELS[schedule]}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => runNow(search)}
+                        disabled={runningId === search.id}
+                        title="Check for new matches now"
+                        className="p-1.5 text-slate-400 hover:text-teal-600 rounded hover:bg-slate-100 disabled:opacity-50"
+                      >
+                        {runningId === search.id ? <Spinner size="sm" /> : <Play className="h-4 w-4" />}
+                      </button>
+                      <button
+                        onClick={() => setHistoryFor(search)}
+                        title="Run history"
+                        className="p-1.5 text-slate-400 hover:text-teal-600 rounded hover:bg-slate-100"
+                      >
+                        <History className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => remove(search)}
+                        title="Delete"
+                        className="p-1.5 text-slate-400 hover:text-red-600 rounded hover:bg-slate-100"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <SaveSearchModal
+        isOpen={showSave}
+        onClose={() => setShowSave(false)}
+        query={query}
+        filters={filters}
+        onSaved={(search) => {
+          setShowSave(false);
+          fetchSearches();
+          onApply({ ...search, can_manage: true, owner: null });
+        }}
+      />
+
+      <RunHistoryModal search={historyFor} onClose={() => setHistoryFor(null)} />
+    </div>
+  );
+}
+
+function SaveSearchModal({
+  isOpen,
+  onClose,
+  query,
+  filters,
+  onSaved,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  query: string;
+  filters: SavedSearchFilters;
+  onSaved: (search: SavedSearch) => void;
+}) {
+  const [name, setName] = useState("");
+  const [isShared, setIsShared] = useState(false);
+  const [schedule, setSchedule] = useState<SavedSearchSchedule>("none");
+  const [delivery, setDelivery] = useState<SavedSearchDelivery>("email");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(query.trim());
+      setIsShared(false);
+      setSchedule("none");
+      setDelivery("email");
+      setError(null);
+    }
+  }, [isOpen, query]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/saved-searches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, query, filters, is_shared: isShared, schedule, delivery }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to save search");
+        return;
+      }
+      onSaved(data.search);
+    } catch (err) {
+      console.error("Failed to save search:", err);
+      setError("Failed to save search");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Save search">
+      <div className="space-y-4">
+        <Input
+          label="Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g. Refund requests"
+          maxLength={100}
+        />
+
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={isShared}
+            onChange={(e) => setIsShared(e.target.checked)}
+            className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+          />
+          Share with everyone in this organization
+        </label>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Alert me about new matches</label>
+          <select
+            value={schedule}
+            onChange={(e) => setSchedule(e.target.value as SavedSearchSchedule)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+          >
+            {SAVED_SEARCH_SCHEDULES.map((value) => (
+              <option key={value} value={value}>
+                {SAVED_SEARCH_SCHEDULE_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {schedule !== "none" && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Deliver alerts by</label>
+            <select
+              value={delivery}
+              onChange={(e) => setDelivery(e.target.value as SavedSearchDelivery)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+            >
+              {SAVED_SEARCH_DELIVERIES.map((value) => (
+                <option key={value} value={value}>
+                  {SAVED_SEARCH_DELIVERY_LABELS[value]}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-slate-500">
+              Alerts only include records you have access to, archived after the search was scheduled.
+            </p>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} isLoading={saving} disabled={!name.trim()}>
+            Save
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+function RunHistoryModal({
+  search,
+  onClose,
+}: {
+  search: SavedSearchListItem | null;
+  onClose: () => void;
+}) {
+  const [runs, setRuns] = useState<SavedSearchRun[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [expandedRun, setExpandedRun] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!search) return;
+    setLoading(true);
+    setExpandedRun(null);
+    fetch(`/api/saved-searches/${search.id}/runs`)
+      .then((res) => res.json())
+      .then((data) => setRuns(data.runs || []))
+      .catch(console.error)
+      .finally(() => setLoading(false));
+  }, [search]);
+
+  return (
+    <Modal isOpen={!!search} onClose={onClose} title={search ? `Run history — ${search.name}` : undefined} size="lg">
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Spinner />
+        </div>
+      ) : runs.length === 0 ? (
+        <p className="text-sm text-slate-500">This search hasn&apos;t run yet.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100">
+          {runs.map((run) => (
+            <li key={run.id} className="py-3">
+              <button
+                onClick={() => setExpandedRun(expandedRun === run.id ? null : run.id)}
+                className="w-full flex items-center justify-between text-left"
+                disabled={run.matches.length === 0}
+              >
+                <div>
+                  <p className="text-sm font-medium text-slate-800">
+                    {run.status === "failed"
+                      ? "Failed"
+                      : run.status === "running"
+                        ? "Running…"
+                        : `${run.match_count} new match${run.match_count !== 1 ? "es" : ""}`}
+                    <span className="ml-2 text-xs font-normal text-slate-400">
+                      {run.trigger === "manual" ? "Run manually" : "Scheduled"}
+                      {run.notified && " · alert sent"}
+                    </span>
+                  </p>
+                  <p className="text-xs text-slate-500" title={formatFullDate(run.started_at)}>
+                    {formatRelativeTime(run.started_at)}
+                  </p>
+                  {run.error && <p className="text-xs text-red-600 mt-1">{run.error}</p>}
+                </div>
+                {run.matches.length > 0 && (
+                  <ChevronDown
+                    className={`h-4 w-4 text-gray-400 transition-transform ${expandedRun === run.id ? "rotate-180" : ""}`}
+                  />
+                )}
+              </button>
+
+              {expandedRun === run.id && (
+                <ul className="mt-2 space-y-2 pl-2 border-l-2 border-slate-100">
+                  {run.matches.map((match) => (
+                    <li key={`${match.type}:${match.id}`} className="text-sm pl-2">
+                      <span className="text-xs text-slate-400 mr-1">{SEARCH_RESULT_TYPE_LABELS[match.type]}</span>
+                      <span className="text-slate-700">
+                        {splitSnippet(match.title || "Unknown").map((part) => part.text).join("")}
+                      </span>
+                      {match.snippet && (
+                        <p className="text-xs text-slate-500 line-clamp-2">
+                          {splitSnippet(match.snippet).map((part, i) =>
+                            part.match ? (
+                              <mark key={i} className="bg-yellow-100 rounded px-0.5">{part.text}</mark>
+                            ) : (
+                              <span key={i}>{part.text}</span>
+                            )
+                          )}
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </Modal>
+  );
+}
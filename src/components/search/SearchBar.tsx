@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useEffect } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { Search, X } from "lucide-react";
 import { useDebouncedCallback } from "@/hooks/useDebounce";
@@ -8,17 +8,24 @@ import { useDebouncedCallback } from "@/hooks/useDebounce";
 interface SearchBarProps {
   placeholder?: string;
   autoFocus?: boolean;
+  // Set from outside, e.g. when a saved search is applied
+  value?: string;
   onSearch?: (query: string) => void;
 }
 
 export function SearchBar({
   placeholder = "Search messages...",
   autoFocus = false,
+  value,
   onSearch,
 }: SearchBarProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const [query, setQuery] = useState(searchParams.get("q") || "");
+  const [query, setQuery] = useState(value ?? searchParams.get("q") ?? "");
+
+  useEffect(() => {
+    if (value !== undefined) setQuery(value);
+  }, [value]);
 
   const debouncedSearch = useDebouncedCallback((value: string) => {
     if (onSearch) {
@@ -3,11 +3,12 @@
 import { useState } from "react";
 import { Filter, ChevronDown, X } from "lucide-react";
 import { DateRangePicker } from "@/components/ui/DatePicker";
+import type { SearchFacets } from "@/lib/search";
 
 export interface SearchFilters {
   startDate: string;
   endDate: string;
-  sender: string;
+  extension: string;
   hasMedia: boolean | null;
   conversationId: string;
   channelType: string;
@@ -31,19 +32,27 @@ interface SearchFiltersProps {
   filters: SearchFilters;
   onFiltersChange: (filters: SearchFilters) => void;
   extensions?: Array<{ extension_number: string; display_name: string | null }>;
+  facets?: SearchFacets | null;
+}
+
+// " (12)" after an option when the current results have a count for it
+function facetCount(counts: Record<string, number> | undefined, value: string): string {
+  const hits = value ? counts?.[value] : undefined;
+  return hits ? ` (${hits.toLocaleString()})` : "";
 }
 
 export function SearchFiltersPanel({
   filters,
   onFiltersChange,
   extensions = [],
+  facets,
 }: SearchFiltersProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
   const activeFilterCount = [
     filters.startDate,
     filters.endDate,
-    filters.sender,
+    filters.extension,
     filters.hasMedia !== null,
     filters.conversationId,
     filters.channelType,
@@ -53,7 +62,7 @@ export function SearchFiltersPanel({
     onFiltersChange({
       startDate: "",
       endDate: "",
-      sender: "",
+      extension: "",
       hasMedia: null,
       conversationId: "",
       channelType: "",
@@ -111,27 +120,29 @@ export function SearchFiltersPanel({
               {CHANNEL_TYPES.map((channel) => (
                 <option key={channel.value} value={channel.value}>
                   {channel.label}
+                  {facetCount(facets?.channel, channel.value)}
                 </option>
               ))}
             </select>
           </div>
 
-          {/* Sender Filter */}
+          {/* Extension Filter */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Sender
+              Extension
             </label>
             <select
-              value={filters.sender}
+              value={filters.extension}
               onChange={(e) =>
-                onFiltersChange({ ...filters, sender: e.target.value })
+                onFiltersChange({ ...filters, extension: e.target.value })
               }
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
             >
-              <option value="">All senders</option>
+              <option value="">All extensions</option>
               {extensions.map((ext) => (
                 <option key={ext.extension_number} value={ext.extension_number}>
                   {ext.display_name || ext.extension_number} ({ext.extension_number})
+                  {facetCount(facets?.extension, ext.extension_number)}
                 </option>
               ))}
             </select>
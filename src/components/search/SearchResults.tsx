@@ -1,207 +1,193 @@
 "use client";
 
 import Link from "next/link";
-import { MessageSquare, ArrowRight, Users, Globe, UserCircle, Image as ImageIcon, Film, FileText, Music } from "lucide-react";
+import {
+  MessageSquare,
+  ArrowRight,
+  Users,
+  Phone,
+  Voicemail,
+  Printer,
+  UserCircle,
+  Paperclip,
+} from "lucide-react";
 import { formatMessageTime } from "@/lib/utils/date";
 import { Spinner } from "@/components/ui/Spinner";
-import type { MessageWithMedia, Conversation, MediaFile } from "@/types";
-
-interface SearchResultMessage extends MessageWithMedia {
-  conversations?: Pick<Conversation, "id" | "conversation_name" | "is_external" | "is_group_chat">;
-}
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
+import {
+  SEARCH_RESULT_TYPES,
+  SEARCH_RESULT_TYPE_LABELS,
+  searchHitHref,
+  splitSnippet,
+  type SearchFacets,
+  type SearchHit,
+  type SearchResultType,
+} from "@/lib/search";
+import { CHANNEL_TYPES } from "./SearchFilters";
 
 interface SearchResultsProps {
-  results: SearchResultMessage[];
+  results: SearchHit[];
+  facets: SearchFacets | null;
   isLoading: boolean;
   query: string;
   totalCount?: number;
+  selectedType: SearchResultType | null;
+  onTypeChange: (type: SearchResultType | null) => void;
   hasMore?: boolean;
   isLoadingMore?: boolean;
   onLoadMore?: () => void;
 }
 
-interface ThreadGroup {
-  conversationId: string;
-  conversation: SearchResultMessage["conversations"];
-  messages: SearchResultMessage[];
-}
-
-function getMediaType(mimeType: string | null): "image" | "video" | "audio" | "document" {
-  if (!mimeType) return "document";
-  if (mimeType.startsWith("image/")) return "image";
-  if (mimeType.startsWith("video/")) return "video";
-  if (mimeType.startsWith("audio/")) return "audio";
-  return "document";
+const TYPE_STYLES: Record<SearchResultType, { label: string; icon: typeof MessageSquare; color: string; bg: string }> = {
+  message: { label: "Message", icon: MessageSquare, color: "text-teal-500", bg: "bg-teal-50" },
+  conversation: { label: "Conversation", icon: Users, color: "text-purple-500", bg: "bg-purple-50" },
+  call: { label: "Call", icon: Phone, color: "text-blue-500", bg: "bg-blue-50" },
+  voicemail: { label: "Voicemail", icon: Voicemail, color: "text-amber-500", bg: "bg-amber-50" },
+  fax: { label: "Fax", icon: Printer, color: "text-slate-500", bg: "bg-slate-100" },
+  extension: { label: "Extension", icon: UserCircle, color: "text-indigo-500", bg: "bg-indigo-50" },
+};
+
+function channelLabel(channelType: string | null): string | null {
+  if (!channelType) return null;
+  return CHANNEL_TYPES.find((c) => c.value === channelType)?.label || channelType;
 }
 
-function MediaThumbnail({ media }: { media: MediaFile }) {
-  const type = getMediaType(media.mime_type);
-  const Icon = type === "image" ? ImageIcon : type === "video" ? Film : type === "audio" ? Music : FileText;
-  const bg = type === "image" ? "bg-blue-50 border-blue-200" : type === "video" ? "bg-purple-50 border-purple-200" : type === "audio" ? "bg-amber-50 border-amber-200" : "bg-gray-50 border-gray-200";
-  const iconColor = type === "image" ? "text-blue-400" : type === "video" ? "text-purple-400" : type === "audio" ? "text-amber-400" : "text-gray-400";
-
-  const handleOpen = async (e: React.MouseEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    try {
-      const res = await fetch(`/api/media/${media.id}`);
-      if (res.ok) {
-        const { url } = await res.json();
-        if (url) window.open(url, "_blank", "noopener,noreferrer");
-      }
-    } catch {
-      // silently fail
-    }
-  };
-
+function Snippet({ text }: { text: string }) {
   return (
-    <button
-      onClick={handleOpen}
-      className={`h-10 w-10 rounded-lg border ${bg} flex items-center justify-center shrink-0 hover:opacity-80 transition-opacity cursor-pointer`}
-      title={`Open ${media.file_name || type}`}
-    >
-      <Icon className={`h-4 w-4 ${iconColor}`} />
-    </button>
+    <span>
+      {splitSnippet(text).map((part, i) =>
+        part.match ? (
+          <mark key={i} className="bg-yellow-200 rounded px-0.5">{part.text}</mark>
+        ) : (
+          part.text
+        )
+      )}
+    </span>
   );
 }
 
-function highlightText(text: string, searchQuery: string) {
-  if (!searchQuery || !text) return text;
-  try {
-    const escaped = searchQuery.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-    const parts = text.split(new RegExp(`(${escaped})`, "gi"));
-    return parts.map((part, i) =>
-      part.toLowerCase() === searchQuery.toLowerCase() ? (
-        <mark key={i} className="bg-yellow-200 rounded px-0.5">{part}</mark>
-      ) : part
-    );
-  } catch {
-    return text;
+// Secondary line under the title: where the hit lives
+function hitContext(hit: SearchHit): string {
+  const parts: Array<string | null> = [];
+
+  switch (hit.type) {
+    case "message":
+      parts.push(hit.conversation_name || "Unnamed conversation", channelLabel(hit.channel_type));
+      break;
+    case "conversation":
+      parts.push(channelLabel(hit.channel_type));
+      break;
+    case "call":
+    case "voicemail":
+    case "fax":
+      parts.push(hit.extension_number ? `Ext. ${hit.extension_number}` : null);
+      break;
+    case "extension":
+      parts.push(`Ext. ${hit.extension_number}`);
+      break;
   }
-}
 
-function ThreadCard({ thread, query }: { thread: ThreadGroup; query: string }) {
-  const conv = thread.conversation;
-  const name = conv?.conversation_name || "Unnamed conversation";
-  const Icon = conv?.is_external ? Globe : conv?.is_group_chat ? Users : UserCircle;
-  const iconColor = conv?.is_external ? "text-amber-500" : conv?.is_group_chat ? "text-purple-500" : "text-teal-500";
-  const iconBg = conv?.is_external ? "bg-amber-50" : conv?.is_group_chat ? "bg-purple-50" : "bg-teal-50";
-  const badgeLabel = conv?.is_external ? "External" : conv?.is_group_chat ? "Group" : "Internal";
-  const badgeColor = conv?.is_external
-    ? "bg-amber-100 text-amber-700"
-    : conv?.is_group_chat
-    ? "bg-purple-100 text-purple-700"
-    : "bg-teal-100 text-teal-700";
+  return parts.filter(Boolean).join(" · ");
+}
 
-  // Show messages in chronological order, most recent last (natural thread flow)
-  const sorted = [...thread.messages].sort(
-    (a, b) => new Date(a.sent_at).getTime() - new Date(b.sent_at).getTime()
-  );
-  const SHOW_MAX = 5;
-  const visible = sorted.slice(0, SHOW_MAX);
-  const hiddenCount = sorted.length - visible.length;
+function HitCard({ hit, query }: { hit: SearchHit; query: string }) {
+  const style = TYPE_STYLES[hit.type];
+  const Icon = style.icon;
+  const title = hit.title_snippet || hit.title;
+  const context = hitContext(hit);
 
   return (
-    <div className="bg-white rounded-2xl border border-slate-200 shadow-sm hover:shadow-md hover:border-teal-200 transition-all overflow-hidden">
-      {/* Thread header */}
-      <div className="flex items-center justify-between px-4 py-3 bg-slate-50 border-b border-slate-100">
-        <div className="flex items-center gap-3 min-w-0">
-          <div className={`p-2 rounded-xl ${iconBg} shrink-0`}>
-            <Icon className={`h-4 w-4 ${iconColor}`} />
-          </div>
-          <div className="min-w-0">
-            <p className="font-semibold text-slate-800 text-sm truncate">{name}</p>
-          </div>
-          <span className={`px-2 py-0.5 rounded-full text-xs font-medium shrink-0 ${badgeColor}`}>
-            {badgeLabel}
-          </span>
-        </div>
-        <span className="shrink-0 ml-3 px-2.5 py-1 bg-teal-100 text-teal-700 text-xs font-bold rounded-full">
-          {thread.messages.length} match{thread.messages.length !== 1 ? "es" : ""}
-        </span>
+    <Link
+      href={searchHitHref(hit, query)}
+      className="flex items-start gap-3 px-4 py-3 bg-white rounded-2xl border border-slate-200 shadow-sm hover:shadow-md hover:border-teal-200 transition-all group"
+    >
+      <div className={`p-2 rounded-xl ${style.bg} shrink-0`}>
+        <Icon className={`h-4 w-4 ${style.color}`} />
       </div>
 
-      {/* Messages in thread */}
-      <div className="divide-y divide-slate-50">
-        {visible.map((message) => (
-          <Link
-            key={message.id}
-            href={`/conversations/${message.conversation_id}?highlight=${message.id}&q=${encodeURIComponent(query)}`}
-            className="flex items-start gap-3 px-4 py-3 hover:bg-teal-50/40 transition-colors group"
-          >
-            {/* Avatar */}
-            <div className="h-8 w-8 rounded-full bg-gradient-to-br from-slate-400 to-slate-600 flex items-center justify-center text-white text-xs font-bold shrink-0 mt-0.5">
-              {message.sender_name
-                ? message.sender_name.charAt(0).toUpperCase()
-                : message.sender_identifier?.charAt(0) || "?"}
-            </div>
-
-            {/* Content */}
-            <div className="flex-1 min-w-0">
-              <div className="flex items-baseline gap-2 mb-0.5">
-                <span className="text-sm font-semibold text-slate-800">
-                  {message.sender_name || message.sender_identifier || "Unknown"}
-                </span>
-                {message.sender_identifier && message.sender_name && (
-                  <span className="text-xs text-slate-400">{message.sender_identifier}</span>
-                )}
-                <span className="text-xs text-slate-400 ml-auto shrink-0">
-                  {formatMessageTime(message.sent_at)}
-                </span>
-              </div>
-
-              {message.content && (
-                <p className="text-sm text-slate-600 line-clamp-2">
-                  {highlightText(message.content, query)}
-                </p>
-              )}
+      <div className="flex-1 min-w-0">
+        <div className="flex items-baseline gap-2 mb-0.5">
+          <span className="text-sm font-semibold text-slate-800 truncate">
+            {title ? <Snippet text={title} /> : "Unknown"}
+          </span>
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-600 shrink-0">
+            {style.label}
+          </span>
+          {hit.occurred_at && (
+            <span className="text-xs text-slate-400 ml-auto shrink-0">
+              {formatMessageTime(hit.occurred_at)}
+            </span>
+          )}
+        </div>
 
-              {message.has_media && message.media_files.length > 0 && (
-                <div className="mt-1.5 flex items-center gap-1.5">
-                  {message.media_files.slice(0, 5).map((file) => (
-                    <MediaThumbnail key={file.id} media={file} />
-                  ))}
-                  {message.media_files.length > 5 && (
-                    <span className="text-xs text-slate-400">+{message.media_files.length - 5}</span>
-                  )}
-                </div>
-              )}
-            </div>
+        {context && <p className="text-xs text-slate-400 truncate">{context}</p>}
 
-            <ArrowRight className="h-3.5 w-3.5 text-slate-300 group-hover:text-teal-400 transition-colors shrink-0 mt-1" />
-          </Link>
-        ))}
+        {hit.snippet && (
+          <p className="text-sm text-slate-600 line-clamp-2 mt-1">
+            <Snippet text={hit.snippet} />
+          </p>
+        )}
 
-        {hiddenCount > 0 && (
-          <div className="px-4 py-2 text-xs text-slate-400 text-center">
-            +{hiddenCount} more message{hiddenCount !== 1 ? "s" : ""} in this thread
-          </div>
+        {hit.has_media && (
+          <p className="flex items-center gap-1 text-xs text-slate-400 mt-1">
+            <Paperclip className="h-3 w-3" />
+            Has attachments
+          </p>
         )}
       </div>
 
-      {/* Footer — view full conversation */}
-      <div className="px-4 py-2.5 border-t border-slate-100 bg-slate-50/50">
-        <Link
-          href={`/conversations/${thread.conversationId}?q=${encodeURIComponent(query)}`}
-          className="flex items-center gap-1.5 text-xs font-semibold text-teal-600 hover:text-teal-700 transition-colors"
-        >
-          View full conversation
-          <ArrowRight className="h-3.5 w-3.5" />
-        </Link>
-      </div>
+      <ArrowRight className="h-3.5 w-3.5 text-slate-300 group-hover:text-teal-400 transition-colors shrink-0 mt-1" />
+    </Link>
+  );
+}
+
+function TypeTabs({
+  facets,
+  selectedType,
+  onTypeChange,
+}: {
+  facets: SearchFacets;
+  selectedType: SearchResultType | null;
+  onTypeChange: (type: SearchResultType | null) => void;
+}) {
+  const allCount = Object.values(facets.type).reduce((sum, hits) => sum + (hits || 0), 0);
+  const tabClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+      active ? "bg-teal-100 text-teal-700" : "bg-white text-slate-600 border border-slate-200 hover:bg-slate-50"
+    }`;
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-4">
+      <button onClick={() => onTypeChange(null)} className={tabClass(selectedType === null)}>
+        All <span className="text-xs opacity-70">{allCount.toLocaleString()}</span>
+      </button>
+      {SEARCH_RESULT_TYPES.filter((type) => facets.type[type] || selectedType === type).map((type) => (
+        <button key={type} onClick={() => onTypeChange(type)} className={tabClass(selectedType === type)}>
+          {SEARCH_RESULT_TYPE_LABELS[type]}{" "}
+          <span className="text-xs opacity-70">{(facets.type[type] || 0).toLocaleString()}</span>
+        </button>
+      ))}
     </div>
   );
 }
 
 export function SearchResults({
   results,
+  facets,
   isLoading,
   query,
   totalCount,
+  selectedType,
+  onTypeChange,
   hasMore,
   isLoadingMore,
   onLoadMore,
 }: SearchResultsProps) {
+  const sentinelRef = useInfiniteScroll(() => onLoadMore?.(), {
+    hasMore: !!hasMore,
+    isLoading: isLoading || !!isLoadingMore,
+  });
+
   if (isLoading) {
     return (
       <div className="flex justify-center py-12">
@@ -210,73 +196,48 @@ export function SearchResults({
     );
   }
 
-  if (!query) {
-    return (
-      <div className="text-center py-12 text-slate-500">
-        <MessageSquare className="h-12 w-12 mx-auto mb-4 text-slate-300" />
-        <p className="text-lg">Enter a search term to find messages</p>
-        <p className="text-sm mt-1">Search through all archived conversations</p>
-      </div>
-    );
-  }
-
-  if (results.length === 0) {
+  if (!query && !facets) {
     return (
       <div className="text-center py-12 text-slate-500">
         <MessageSquare className="h-12 w-12 mx-auto mb-4 text-slate-300" />
-        <p className="text-lg">No results found for &quot;{query}&quot;</p>
-        <p className="text-sm mt-1">Try different keywords or adjust filters</p>
+        <p className="text-lg">Enter a search term to search the archive</p>
+        <p className="text-sm mt-1">Messages, conversations, calls, voicemails, faxes and extensions</p>
       </div>
     );
   }
 
-  // Group messages by conversation, preserving order of first appearance
-  const threadMap = new Map<string, ThreadGroup>();
-  for (const msg of results) {
-    const convId = msg.conversation_id;
-    if (!threadMap.has(convId)) {
-      threadMap.set(convId, {
-        conversationId: convId,
-        conversation: msg.conversations,
-        messages: [],
-      });
-    }
-    threadMap.get(convId)!.messages.push(msg);
-  }
-  const threads = Array.from(threadMap.values());
-
   return (
     <div>
-      {totalCount !== undefined && (
-        <p className="text-sm text-slate-500 mb-4">
-          {totalCount.toLocaleString()} message{totalCount !== 1 ? "s" : ""} across{" "}
-          {threads.length} conversation{threads.length !== 1 ? "s" : ""}
-          {results.length < totalCount && ` (showing ${results.length} messages)`}
-        </p>
-      )}
+      {facets && <TypeTabs facets={facets} selectedType={selectedType} onTypeChange={onTypeChange} />}
 
-      <div className="space-y-4">
-        {threads.map((thread) => (
-          <ThreadCard key={thread.conversationId} thread={thread} query={query} />
-        ))}
-      </div>
+      {results.length === 0 ? (
+        <div className="text-center py-12 text-slate-500">
+          <MessageSquare className="h-12 w-12 mx-auto mb-4 text-slate-300" />
+          <p className="text-lg">{query ? <>No results found for &quot;{query}&quot;</> : "No results found"}</p>
+          <p className="text-sm mt-1">Try different keywords or adjust filters</p>
+        </div>
+      ) : (
+        <>
+          {totalCount !== undefined && (
+            <p className="text-sm text-slate-500 mb-4">
+              {totalCount.toLocaleString()} result{totalCount !== 1 ? "s" : ""}
+              {query && ", most relevant first"}
+            </p>
+          )}
+
+          <div className="space-y-3">
+            {results.map((hit) => (
+              <HitCard key={`${hit.type}:${hit.id}`} hit={hit} query={query} />
+            ))}
+          </div>
+        </>
+      )}
 
-      {hasMore && (
-        <div className="text-center mt-6">
-          <button
-            onClick={onLoadMore}
-            disabled={isLoadingMore}
-            className="px-5 py-2.5 bg-slate-100 text-slate-700 rounded-xl hover:bg-slate-200 disabled:opacity-50 transition-colors text-sm font-medium"
-          >
-            {isLoadingMore ? (
-              <span className="flex items-center gap-2">
-                <Spinner size="sm" />
-                Loading more...
-              </span>
-            ) : (
-              "Load more results"
-            )}
-          </button>
+      {/* Infinite scroll */}
+      {hasMore && !isLoadingMore && <div ref={sentinelRef} className="h-1" />}
+      {isLoadingMore && (
+        <div className="flex justify-center mt-6">
+          <Spinner size="sm" />
         </div>
       )}
     </div>
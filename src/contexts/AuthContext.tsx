@@ -231,6 +231,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     // Clear cookies
     document.cookie = "viewingAsTenantId=; path=/; expires=Thu, 01 Jan 1970 00:00:00 GMT";
     document.cookie = "currentTenantId=; path=/; expires=Thu, 01 Jan 1970 00:00:00 GMT";
+    document.cookie = "pbxInstanceId=; path=/; expires=Thu, 01 Jan 1970 00:00:00 GMT";
 
     try {
       // Sign out from Supabase with global scope to clear all sessions
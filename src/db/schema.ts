@@ -6,6 +6,8 @@ import {
   boolean,
   integer,
   bigint,
+  bigserial,
+  date,
   timestamp,
   jsonb,
   uniqueIndex,
@@ -46,6 +48,9 @@ export const storagePlans = pgTable(
     sortOrder: integer("sort_order").default(0),
     stripePriceIdMonthly: varchar("stripe_price_id_monthly", { length: 255 }),
     stripePriceIdYearly: varchar("stripe_price_id_yearly", { length: 255 }),
+    // Sync gating policy
+    softLimitPercent: integer("soft_limit_percent").notNull().default(80),
+    gracePeriodDays: integer("grace_period_days").notNull().default(7),
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
   },
@@ -130,6 +135,13 @@ export const tenants = pgTable(
     billingCycle: varchar("billing_cycle", { length: 20 }).default("monthly"), // monthly, yearly
     storageLastCalculatedAt: timestamp("storage_last_calculated_at", { withTimezone: true }),
 
+    // Quota/billing sync gate (set by the sync service)
+    syncGate: varchar("sync_gate", { length: 20 }).notNull().default("open"), // open, warning, uploads_paused, paused
+    syncGateReason: text("sync_gate_reason"),
+    syncGateSince: timestamp("sync_gate_since", { withTimezone: true }),
+    syncGateUpdatedAt: timestamp("sync_gate_updated_at", { withTimezone: true }),
+    syncGateNotified: varchar("sync_gate_notified", { length: 20 }).notNull().default("open"),
+
     // User Activity Tracking (for dynamic sync frequency)
     lastUserActivityAt: timestamp("last_user_activity_at", { withTimezone: true }),
 
@@ -145,6 +157,54 @@ export const tenants = pgTable(
   })
 );
 
+// ============================================
+// PBX INSTANCES (3CX systems of a tenant)
+// ============================================
+export const pbxInstances = pgTable(
+  "pbx_instances",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 100 }).notNull(),
+    isPrimary: boolean("is_primary").notNull().default(false), // mirrors the tenants row connection columns
+
+    // 3CX Server Connection
+    threecxHost: varchar("threecx_host", { length: 255 }),
+    sshPort: integer("ssh_port").default(22),
+    sshUser: varchar("ssh_user", { length: 100 }),
+    sshPassword: text("ssh_password"),
+    threecxDbPassword: text("threecx_db_password"),
+
+    // 3CX File Paths
+    threecxChatFilesPath: text("threecx_chat_files_path"),
+    threecxRecordingsPath: text("threecx_recordings_path"),
+    threecxVoicemailPath: text("threecx_voicemail_path"),
+    threecxFaxPath: text("threecx_fax_path"),
+    threecxMeetingsPath: text("threecx_meetings_path"),
+
+    // Backup Settings
+    backupChats: boolean("backup_chats").notNull().default(true),
+    backupChatMedia: boolean("backup_chat_media").notNull().default(true),
+    backupRecordings: boolean("backup_recordings").notNull().default(true),
+    backupVoicemails: boolean("backup_voicemails").notNull().default(true),
+    backupFaxes: boolean("backup_faxes").notNull().default(true),
+    backupCdr: boolean("backup_cdr").notNull().default(true),
+    backupMeetings: boolean("backup_meetings").notNull().default(true),
+
+    syncEnabled: boolean("sync_enabled").notNull().default(true),
+
+    // Agent Token (for this instance's sync agent)
+    agentToken: varchar("agent_token", { length: 64 }).unique(),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => ({
+    uniqueTenantName: uniqueIndex("pbx_instances_tenant_id_name_key").on(table.tenantId, table.name),
+    primaryIdx: uniqueIndex("idx_pbx_instances_primary").on(table.tenantId), // WHERE is_primary
+  })
+);
+
 // ============================================
 // USER PROFILES (Extends auth.users)
 // ============================================
@@ -207,6 +267,7 @@ export const extensions = pgTable(
   {
     id: uuid("id").primaryKey().defaultRandom(),
     tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    pbxInstanceId: uuid("pbx_instance_id").references(() => pbxInstances.id),
     extensionNumber: varchar("extension_number", { length: 50 }).notNull(),
     firstName: varchar("first_name", { length: 255 }),
     lastName: varchar("last_name", { length: 255 }),
@@ -219,7 +280,7 @@ export const extensions = pgTable(
   },
   (table) => ({
     tenantIdx: index("idx_extensions_tenant").on(table.tenantId),
-    uniqueTenantExt: uniqueIndex("extensions_tenant_id_extension_number_key").on(table.tenantId, table.extensionNumber),
+    uniqueTenantExt: uniqueIndex("extensions_tenant_instance_extension_number_key").on(table.tenantId, table.pbxInstanceId, table.extensionNumber), // NULLS NOT DISTINCT
   })
 );
 
@@ -231,6 +292,7 @@ export const conversations = pgTable(
   {
     id: uuid("id").primaryKey().defaultRandom(),
     tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    pbxInstanceId: uuid("pbx_instance_id").references(() => pbxInstances.id),
     threecxConversationId: varchar("threecx_conversation_id", { length: 255 }).notNull(),
     conversationName: varchar("conversation_name", { length: 255 }),
     channelType: varchar("channel_type", { length: 50 }).default("internal"), // internal, sms, facebook, whatsapp, livechat, etc.
@@ -244,9 +306,10 @@ export const conversations = pgTable(
     updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
   },
   (table) => ({
+    instanceIdx: index("idx_conversations_instance").on(table.tenantId, table.pbxInstanceId),
     tenantIdx: index("idx_conversations_tenant").on(table.tenantId),
     lastMessageIdx: index("idx_conversations_last_message").on(table.tenantId, table.lastMessageAt),
-    uniqueTenantConv: uniqueIndex("conversations_tenant_id_threecx_conversation_id_key").on(table.tenantId, table.threecxConversationId),
+    uniqueTenantConv: uniqueIndex("conversations_tenant_instance_threecx_conversation_id_key").on(table.tenantId, table.pbxInstanceId, table.threecxConversationId), // NULLS NOT DISTINCT
   })
 );
 
@@ -278,6 +341,7 @@ export const messages = pgTable(
   {
     id: uuid("id").primaryKey().defaultRandom(),
     tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    pbxInstanceId: uuid("pbx_instance_id").references(() => pbxInstances.id),
     conversationId: uuid("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
     threecxMessageId: varchar("threecx_message_id", { length: 255 }).notNull(),
     senderIdentifier: varchar("sender_identifier", { length: 255 }),
@@ -290,13 +354,14 @@ export const messages = pgTable(
     sentAt: timestamp("sent_at", { withTimezone: true }).notNull(),
     deliveredAt: timestamp("delivered_at", { withTimezone: true }),
     readAt: timestamp("read_at", { withTimezone: true }),
+    contentSha256: varchar("content_sha256", { length: 64 }),
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
   },
   (table) => ({
     tenantIdx: index("idx_messages_tenant").on(table.tenantId),
     conversationIdx: index("idx_messages_conversation").on(table.conversationId),
     sentAtIdx: index("idx_messages_sent_at").on(table.tenantId, table.sentAt),
-    uniqueTenantMsg: uniqueIndex("messages_tenant_id_threecx_message_id_key").on(table.tenantId, table.threecxMessageId),
+    uniqueTenantMsg: uniqueIndex("messages_tenant_instance_threecx_message_id_key").on(table.tenantId, table.pbxInstanceId, table.threecxMessageId), // NULLS NOT DISTINCT
   })
 );
 
@@ -309,6 +374,7 @@ export const mediaFiles = pgTable(
     id: uuid("id").primaryKey().defaultRandom(),
     fileName: varchar("file_name", { length: 255 }).notNull(), // Required filename
     tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    pbxInstanceId: uuid("pbx_instance_id").references(() => pbxInstances.id),
     messageId: uuid("message_id").references(() => messages.id, { onDelete: "set null" }),
     conversationId: uuid("conversation_id").references(() => conversations.id, { onDelete: "cascade" }),
     fileSize: bigint("file_size", { mode: "number" }),
@@ -320,6 +386,7 @@ export const mediaFiles = pgTable(
     durationSeconds: integer("duration_seconds"),
     metadata: jsonb("metadata").default({}),
     storageBackend: varchar("storage_backend", { length: 20 }).default("spaces"),
+    contentSha256: varchar("content_sha256", { length: 64 }),
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
   },
   (table) => ({
@@ -336,8 +403,10 @@ export const callRecordings = pgTable(
   {
     id: uuid("id").primaryKey().defaultRandom(),
     tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    pbxInstanceId: uuid("pbx_instance_id").references(() => pbxInstances.id),
     threecxRecordingId: varchar("threecx_recording_id", { length: 255 }),
     callId: varchar("call_id", { length: 255 }),
+    callGroupId: varchar("call_group_id", { length: 255 }), // 3CX call id, when the recordings table links to it
     callerNumber: varchar("caller_number", { length: 100 }),
     callerName: varchar("caller_name", { length: 255 }),
     calleeNumber: varchar("callee_number", { length: 100 }),
@@ -354,12 +423,15 @@ export const callRecordings = pgTable(
     recordedAt: timestamp("recorded_at", { withTimezone: true }).notNull(),
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
     storageBackend: varchar("storage_backend", { length: 20 }).default("spaces"),
+    contentSha256: varchar("content_sha256", { length: 64 }),
   },
   (table) => ({
+    instanceIdx: index("idx_call_recordings_instance").on(table.tenantId, table.pbxInstanceId),
     tenantIdx: index("idx_recordings_tenant").on(table.tenantId),
     extensionIdx: index("idx_recordings_extension").on(table.tenantId, table.extensionNumber),
     dateIdx: index("idx_recordings_date").on(table.tenantId, table.recordedAt),
-    uniqueTenantRec: uniqueIndex("call_recordings_tenant_id_threecx_recording_id_key").on(table.tenantId, table.threecxRecordingId),
+    startedIdx: index("idx_call_recordings_started").on(table.tenantId, table.callStartedAt),
+    uniqueTenantRec: uniqueIndex("call_recordings_tenant_instance_threecx_recording_id_key").on(table.tenantId, table.pbxInstanceId, table.threecxRecordingId), // NULLS NOT DISTINCT
   })
 );
 
@@ -371,6 +443,7 @@ export const voicemails = pgTable(
   {
     id: uuid("id").primaryKey().defaultRandom(),
     tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    pbxInstanceId: uuid("pbx_instance_id").references(() => pbxInstances.id),
     threecxVoicemailId: varchar("threecx_voicemail_id", { length: 255 }),
     extensionId: uuid("extension_id").references(() => extensions.id, { onDelete: "set null" }),
     fileName: varchar("file_name", { length: 255 }).notNull(),
@@ -385,12 +458,14 @@ export const voicemails = pgTable(
     metadata: jsonb("metadata").default({}),
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
     storageBackend: varchar("storage_backend", { length: 20 }).default("spaces"),
+    contentSha256: varchar("content_sha256", { length: 64 }),
   },
   (table) => ({
+    instanceIdx: index("idx_voicemails_instance").on(table.tenantId, table.pbxInstanceId),
     tenantIdx: index("idx_voicemails_tenant").on(table.tenantId),
     extensionIdx: index("idx_voicemails_extension").on(table.tenantId, table.extensionId),
     dateIdx: index("idx_voicemails_date").on(table.tenantId, table.receivedAt),
-    uniqueTenantVm: uniqueIndex("voicemails_tenant_id_threecx_voicemail_id_key").on(table.tenantId, table.threecxVoicemailId),
+    uniqueTenantVm: uniqueIndex("voicemails_tenant_instance_threecx_voicemail_id_key").on(table.tenantId, table.pbxInstanceId, table.threecxVoicemailId), // NULLS NOT DISTINCT
   })
 );
 
@@ -402,6 +477,7 @@ export const faxes = pgTable(
   {
     id: uuid("id").primaryKey().defaultRandom(),
     tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    pbxInstanceId: uuid("pbx_instance_id").references(() => pbxInstances.id),
     threecxFaxId: varchar("threecx_fax_id", { length: 255 }),
     extensionNumber: varchar("extension_number", { length: 50 }),
     direction: varchar("direction", { length: 20 }),
@@ -416,12 +492,14 @@ export const faxes = pgTable(
     sentReceivedAt: timestamp("sent_received_at", { withTimezone: true }).notNull(),
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
     storageBackend: varchar("storage_backend", { length: 20 }).default("spaces"),
+    contentSha256: varchar("content_sha256", { length: 64 }),
   },
   (table) => ({
+    instanceIdx: index("idx_faxes_instance").on(table.tenantId, table.pbxInstanceId),
     tenantIdx: index("idx_faxes_tenant").on(table.tenantId),
     extensionIdx: index("idx_faxes_extension").on(table.tenantId, table.extensionNumber),
     dateIdx: index("idx_faxes_date").on(table.tenantId, table.sentReceivedAt),
-    uniqueTenantFax: uniqueIndex("faxes_tenant_id_threecx_fax_id_key").on(table.tenantId, table.threecxFaxId),
+    uniqueTenantFax: uniqueIndex("faxes_tenant_instance_threecx_fax_id_key").on(table.tenantId, table.pbxInstanceId, table.threecxFaxId), // NULLS NOT DISTINCT
   })
 );
 
@@ -433,7 +511,9 @@ export const callLogs = pgTable(
   {
     id: uuid("id").primaryKey().defaultRandom(),
     tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    pbxInstanceId: uuid("pbx_instance_id").references(() => pbxInstances.id),
     threecxCallId: varchar("threecx_call_id", { length: 255 }),
+    callGroupId: varchar("call_group_id", { length: 255 }), // shared by all legs of one call
     callType: varchar("call_type", { length: 50 }),
     direction: varchar("direction", { length: 20 }),
     callerNumber: varchar("caller_number", { length: 100 }),
@@ -449,16 +529,21 @@ export const callLogs = pgTable(
     hangupCause: varchar("hangup_cause", { length: 100 }),
     hasRecording: boolean("has_recording").default(false),
     recordingId: uuid("recording_id").references(() => callRecordings.id, { onDelete: "set null" }),
+    recordingMatch: varchar("recording_match", { length: 20 }), // call_id, overlap
+    recordingLinkedAt: timestamp("recording_linked_at", { withTimezone: true }),
     startedAt: timestamp("started_at", { withTimezone: true }).notNull(),
     answeredAt: timestamp("answered_at", { withTimezone: true }),
     endedAt: timestamp("ended_at", { withTimezone: true }),
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
   },
   (table) => ({
+    instanceIdx: index("idx_call_logs_instance").on(table.tenantId, table.pbxInstanceId),
     tenantIdx: index("idx_call_logs_tenant").on(table.tenantId),
     extensionIdx: index("idx_call_logs_extension").on(table.tenantId, table.extensionNumber),
     dateIdx: index("idx_call_logs_date").on(table.tenantId, table.startedAt),
-    uniqueTenantCall: uniqueIndex("call_logs_tenant_id_threecx_call_id_key").on(table.tenantId, table.threecxCallId),
+    groupIdx: index("idx_call_logs_group").on(table.tenantId, table.callGroupId),
+    recordingIdx: index("idx_call_logs_recording").on(table.recordingId),
+    uniqueTenantCall: uniqueIndex("call_logs_tenant_instance_threecx_call_id_key").on(table.tenantId, table.pbxInstanceId, table.threecxCallId), // NULLS NOT DISTINCT
   })
 );
 
@@ -470,6 +555,7 @@ export const meetingRecordings = pgTable(
   {
     id: uuid("id").primaryKey().defaultRandom(),
     tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    pbxInstanceId: uuid("pbx_instance_id").references(() => pbxInstances.id),
     threecxMeetingId: varchar("threecx_meeting_id", { length: 255 }),
     meetingName: varchar("meeting_name", { length: 255 }),
     meetingHost: varchar("meeting_host", { length: 255 }),
@@ -489,12 +575,14 @@ export const meetingRecordings = pgTable(
     meetingEndedAt: timestamp("meeting_ended_at", { withTimezone: true }),
     recordedAt: timestamp("recorded_at", { withTimezone: true }).notNull(),
     uploadedAt: timestamp("uploaded_at", { withTimezone: true }).defaultNow(),
+    contentSha256: varchar("content_sha256", { length: 64 }),
   },
   (table) => ({
+    instanceIdx: index("idx_meeting_recordings_instance").on(table.tenantId, table.pbxInstanceId),
     tenantIdx: index("idx_meetings_tenant").on(table.tenantId),
     hostIdx: index("idx_meetings_host").on(table.tenantId, table.hostExtension),
     dateIdx: index("idx_meetings_date").on(table.tenantId, table.recordedAt),
-    uniqueTenantMeeting: uniqueIndex("meeting_recordings_tenant_id_threecx_meeting_id_key").on(table.tenantId, table.threecxMeetingId),
+    uniqueTenantMeeting: uniqueIndex("meeting_recordings_tenant_instance_threecx_meeting_id_key").on(table.tenantId, table.pbxInstanceId, table.threecxMeetingId), // NULLS NOT DISTINCT
   })
 );
 
@@ -506,6 +594,7 @@ export const syncStatus = pgTable(
   {
     id: uuid("id").primaryKey().defaultRandom(),
     tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    pbxInstanceId: uuid("pbx_instance_id").references(() => pbxInstances.id, { onDelete: "cascade" }),
     syncType: varchar("sync_type", { length: 50 }).notNull(),
     status: varchar("status", { length: 50 }).notNull().default("idle"),
     lastSyncAt: timestamp("last_sync_at", { withTimezone: true }),
@@ -514,7 +603,7 @@ export const syncStatus = pgTable(
     lastErrorAt: timestamp("last_error_at", { withTimezone: true }),
     lastError: text("last_error"),
     notes: text("notes"), // Detailed notes about the sync result
-    triggerRequestedAt: timestamp("trigger_requested_at", { withTimezone: true }), // Manual sync trigger timestamp
+    triggerRequestedAt: timestamp("trigger_requested_at", { withTimezone: true }), // Deprecated: manual syncs are queued in sync_jobs
     itemsSynced: integer("items_synced").default(0),
     itemsFailed: integer("items_failed").default(0),
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
@@ -522,7 +611,7 @@ export const syncStatus = pgTable(
   },
   (table) => ({
     tenantIdx: index("idx_sync_status_tenant").on(table.tenantId),
-    uniqueTenantType: uniqueIndex("sync_status_tenant_id_sync_type_key").on(table.tenantId, table.syncType),
+    uniqueTenantType: uniqueIndex("sync_status_tenant_instance_sync_type_key").on(table.tenantId, table.pbxInstanceId, table.syncType), // NULLS NOT DISTINCT
   })
 );
 
@@ -534,6 +623,7 @@ export const syncLogs = pgTable(
   {
     id: uuid("id").primaryKey().defaultRandom(),
     tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    pbxInstanceId: uuid("pbx_instance_id").references(() => pbxInstances.id, { onDelete: "set null" }),
     syncType: varchar("sync_type", { length: 50 }).notNull(),
     status: varchar("status", { length: 50 }).notNull(),
     message: text("message"),
@@ -632,6 +722,7 @@ export const userFeaturePermissions = pgTable(
     canViewMeetings: boolean("can_view_meetings").default(true),
     canViewVoicemails: boolean("can_view_voicemails").default(true),
     canViewFaxes: boolean("can_view_faxes").default(true),
+    redactedView: boolean("redacted_view").notNull().default(false), // only ever sees PII-redacted data
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
     createdBy: uuid("created_by").references(() => userProfiles.id),
@@ -655,6 +746,8 @@ export const retentionPolicies = pgTable(
     retentionDays: integer("retention_days"), // NULL = keep forever (no deletion)
     isEnabled: boolean("is_enabled").default(true),
     lastCleanupAt: timestamp("last_cleanup_at", { withTimezone: true }),
+    lastCleanupDeleted: integer("last_cleanup_deleted").default(0),
+    lastCleanupBytes: bigint("last_cleanup_bytes", { mode: "number" }).default(0),
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
   },
@@ -665,6 +758,344 @@ export const retentionPolicies = pgTable(
   })
 );
 
+// ============================================
+// LEGAL HOLDS
+// ============================================
+export const legalHolds = pgTable(
+  "legal_holds",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 255 }).notNull(),
+    reason: text("reason"),
+    extensions: text("extensions").array().notNull().default([]), // extension numbers
+    conversationIds: uuid("conversation_ids").array().notNull().default([]),
+    remoteNumbers: text("remote_numbers").array().notNull().default([]),
+    startsAt: timestamp("starts_at", { withTimezone: true }), // NULL = no lower bound
+    endsAt: timestamp("ends_at", { withTimezone: true }), // NULL = no upper bound
+    status: varchar("status", { length: 20 }).notNull().default("active"), // active, released
+    createdBy: uuid("created_by").references(() => userProfiles.id, { onDelete: "set null" }),
+    releasedBy: uuid("released_by").references(() => userProfiles.id, { onDelete: "set null" }),
+    releasedAt: timestamp("released_at", { withTimezone: true }),
+    releaseReason: text("release_reason"),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => ({
+    tenantStatusIdx: index("idx_legal_holds_tenant_status").on(table.tenantId, table.status),
+  })
+);
+
+// ============================================
+// EXPORT JOBS
+// ============================================
+export const exportJobs = pgTable(
+  "export_jobs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    requestedBy: uuid("requested_by").references(() => userProfiles.id, { onDelete: "set null" }),
+    status: varchar("status", { length: 20 }).notNull().default("queued"), // queued, running, completed, failed, expired
+    dataTypes: text("data_types").array().notNull().default([]),
+    startDate: timestamp("start_date", { withTimezone: true }), // NULL = from the beginning
+    endDate: timestamp("end_date", { withTimezone: true }), // NULL = up to now
+    progress: integer("progress").notNull().default(0), // 0-100
+    itemsTotal: integer("items_total").notNull().default(0),
+    itemsProcessed: integer("items_processed").notNull().default(0),
+    filesIncluded: integer("files_included").notNull().default(0),
+    filesMissing: integer("files_missing").notNull().default(0),
+    storagePath: varchar("storage_path", { length: 500 }), // Spaces key of the finished ZIP
+    archiveSize: bigint("archive_size", { mode: "number" }),
+    archiveSha256: varchar("archive_sha256", { length: 64 }),
+    error: text("error"),
+    startedAt: timestamp("started_at", { withTimezone: true }),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+    expiresAt: timestamp("expires_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => ({
+    tenantCreatedIdx: index("idx_export_jobs_tenant_created").on(table.tenantId, table.createdAt),
+    statusIdx: index("idx_export_jobs_status").on(table.status, table.createdAt),
+  })
+);
+
+// ============================================
+// INTEGRITY CHAIN
+// ============================================
+// Rows are appended by a database trigger whenever a record gets a
+// content_sha256; each entry hashes the one before it.
+export const integrityLogEntries = pgTable(
+  "integrity_log_entries",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    logDate: date("log_date").notNull(), // UTC day; sequence restarts at 1
+    sequence: integer("sequence").notNull(),
+    recordType: varchar("record_type", { length: 30 }).notNull(), // call_recording, voicemail, fax, media_file, meeting_recording, message
+    recordId: uuid("record_id").notNull(), // No FK: entries outlive records removed by retention
+    contentSha256: varchar("content_sha256", { length: 64 }).notNull(),
+    prevHash: varchar("prev_hash", { length: 64 }).notNull(),
+    entryHash: varchar("entry_hash", { length: 64 }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => ({
+    uniqueTenantDaySeq: uniqueIndex("integrity_log_entries_tenant_id_log_date_sequence_key").on(table.tenantId, table.logDate, table.sequence),
+    recordIdx: index("idx_integrity_log_entries_record").on(table.tenantId, table.recordType, table.recordId),
+  })
+);
+
+export const integrityDailySeals = pgTable(
+  "integrity_daily_seals",
+  {
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    logDate: date("log_date").notNull(),
+    entryCount: integer("entry_count").notNull(),
+    headHash: varchar("head_hash", { length: 64 }).notNull(), // entry_hash of the day's last entry
+    sealedAt: timestamp("sealed_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.tenantId, table.logDate] }),
+  })
+);
+
+// Chained records deleted on purpose; any other missing record is tampering
+export const integrityPurges = pgTable(
+  "integrity_purges",
+  {
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    recordType: varchar("record_type", { length: 30 }).notNull(),
+    recordId: uuid("record_id").notNull(),
+    reason: varchar("reason", { length: 30 }).notNull(), // retention
+    purgedAt: timestamp("purged_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.tenantId, table.recordType, table.recordId] }),
+  })
+);
+
+export const integrityVerifications = pgTable(
+  "integrity_verifications",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    requestedBy: uuid("requested_by").references(() => userProfiles.id, { onDelete: "set null" }), // NULL = scheduled run
+    status: varchar("status", { length: 20 }).notNull().default("queued"), // queued, running, completed, failed
+    startDate: date("start_date").notNull(),
+    endDate: date("end_date").notNull(),
+    entriesChecked: integer("entries_checked").notNull().default(0),
+    objectsChecked: integer("objects_checked").notNull().default(0),
+    chainBreaks: integer("chain_breaks").notNull().default(0),
+    mismatches: integer("mismatches").notNull().default(0),
+    missingFiles: integer("missing_files").notNull().default(0),
+    deletedRecords: integer("deleted_records").notNull().default(0), // Removed by retention; informational
+    issues: jsonb("issues").notNull().default([]), // First 1000 problems found
+    error: text("error"),
+    startedAt: timestamp("started_at", { withTimezone: true }),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => ({
+    tenantIdx: index("idx_integrity_verifications_tenant").on(table.tenantId, table.createdAt),
+    queueIdx: index("idx_integrity_verifications_queue").on(table.status, table.createdAt),
+  })
+);
+
+// ============================================
+// RECONCILIATION
+// ============================================
+export const reconciliationRuns = pgTable(
+  "reconciliation_runs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    requestedBy: uuid("requested_by").references(() => userProfiles.id, { onDelete: "set null" }), // NULL = scheduled run
+    status: varchar("status", { length: 20 }).notNull().default("queued"), // queued, running, completed, failed
+    startDate: date("start_date").notNull(),
+    endDate: date("end_date").notNull(),
+    dataTypes: text("data_types").array().notNull().default([]), // messages, cdr, recordings, voicemails; empty = all
+    daysChecked: integer("days_checked").notNull().default(0),
+    diffCount: integer("diff_count").notNull().default(0),
+    missingTotal: integer("missing_total").notNull().default(0),
+    error: text("error"),
+    startedAt: timestamp("started_at", { withTimezone: true }),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => ({
+    tenantIdx: index("idx_reconciliation_runs_tenant").on(table.tenantId, table.createdAt),
+    queueIdx: index("idx_reconciliation_runs_queue").on(table.status, table.createdAt),
+  })
+);
+
+export const reconciliationDiffs = pgTable(
+  "reconciliation_diffs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    runId: uuid("run_id").notNull().references(() => reconciliationRuns.id, { onDelete: "cascade" }),
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    dataType: varchar("data_type", { length: 20 }).notNull(),
+    diffDate: date("diff_date").notNull(),
+    sourceCount: integer("source_count").notNull(),
+    archivedCount: integer("archived_count").notNull(),
+    missingCount: integer("missing_count").notNull().default(0),
+    missingIds: text("missing_ids").array().notNull().default([]), // First 5000 missing 3CX ids
+    backfillStatus: varchar("backfill_status", { length: 20 }), // NULL, queued, running, completed, failed
+    backfillRequestedBy: uuid("backfill_requested_by").references(() => userProfiles.id, { onDelete: "set null" }),
+    backfillRequestedAt: timestamp("backfill_requested_at", { withTimezone: true }),
+    backfilledCount: integer("backfilled_count").notNull().default(0),
+    stillMissingCount: integer("still_missing_count"),
+    backfillError: text("backfill_error"),
+    backfillCompletedAt: timestamp("backfill_completed_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => ({
+    uniqueRunDay: uniqueIndex("reconciliation_diffs_run_id_data_type_diff_date_key").on(table.runId, table.dataType, table.diffDate),
+    tenantIdx: index("idx_reconciliation_diffs_tenant").on(table.tenantId, table.diffDate),
+    backfillQueueIdx: index("idx_reconciliation_diffs_backfill_queue").on(table.backfillStatus, table.backfillRequestedAt),
+  })
+);
+
+// ============================================
+// BACKFILL JOBS
+// ============================================
+export const backfillJobs = pgTable(
+  "backfill_jobs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    requestedBy: uuid("requested_by").references(() => userProfiles.id, { onDelete: "set null" }),
+    syncType: varchar("sync_type", { length: 20 }).notNull(), // messages, media, recordings, voicemails, faxes, meetings, cdr, extensions
+    status: varchar("status", { length: 20 }).notNull().default("queued"), // queued, running, completed, failed, cancelled
+    startAt: timestamp("start_at", { withTimezone: true }).notNull(),
+    endAt: timestamp("end_at", { withTimezone: true }).notNull(), // exclusive
+    chunkHours: integer("chunk_hours").notNull().default(24),
+    cursorAt: timestamp("cursor_at", { withTimezone: true }), // checkpoint; NULL = not started
+    chunksCompleted: integer("chunks_completed").notNull().default(0),
+    itemsSynced: integer("items_synced").notNull().default(0),
+    itemErrors: integer("item_errors").notNull().default(0),
+    consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+    lastError: text("last_error"),
+    lockedUntil: timestamp("locked_until", { withTimezone: true }), // lease held while a chunk runs
+    startedAt: timestamp("started_at", { withTimezone: true }),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => ({
+    tenantIdx: index("idx_backfill_jobs_tenant").on(table.tenantId, table.createdAt),
+    queueIdx: index("idx_backfill_jobs_queue").on(table.status, table.createdAt),
+    activeIdx: uniqueIndex("idx_backfill_jobs_active").on(table.tenantId, table.syncType), // Partial: queued/running only
+  })
+);
+
+// ============================================
+// SYNC JOBS
+// ============================================
+export const syncJobs = pgTable(
+  "sync_jobs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    pbxInstanceId: uuid("pbx_instance_id").references(() => pbxInstances.id, { onDelete: "cascade" }),
+    syncType: varchar("sync_type", { length: 20 }).notNull(), // messages, media, recordings, voicemails, faxes, meetings, cdr, extensions
+    status: varchar("status", { length: 20 }).notNull().default("queued"), // queued, running, succeeded, dead
+    priority: integer("priority").notNull().default(0), // higher runs first
+    source: varchar("source", { length: 20 }).notNull().default("schedule"), // schedule, manual, startup
+    requestedBy: uuid("requested_by").references(() => userProfiles.id, { onDelete: "set null" }),
+    attempts: integer("attempts").notNull().default(0),
+    maxAttempts: integer("max_attempts").notNull().default(5),
+    runAfter: timestamp("run_after", { withTimezone: true }).notNull().defaultNow(), // pushed back after each failed attempt
+    lockedBy: varchar("locked_by", { length: 100 }), // worker holding the lease
+    lockedUntil: timestamp("locked_until", { withTimezone: true }),
+    rerunRequested: boolean("rerun_requested").notNull().default(false), // manual sync asked for while running
+    lastError: text("last_error"),
+    startedAt: timestamp("started_at", { withTimezone: true }),
+    finishedAt: timestamp("finished_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => ({
+    claimIdx: index("idx_sync_jobs_claim").on(table.priority, table.runAfter),
+    leasesIdx: index("idx_sync_jobs_leases").on(table.lockedUntil),
+    tenantIdx: index("idx_sync_jobs_tenant").on(table.tenantId, table.createdAt),
+    finishedIdx: index("idx_sync_jobs_finished").on(table.syncType, table.finishedAt),
+  })
+);
+
+// ============================================
+// WEBHOOKS
+// ============================================
+export const webhookEndpoints = pgTable(
+  "webhook_endpoints",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    url: text("url").notNull(),
+    description: text("description"),
+    secret: varchar("secret", { length: 100 }).notNull(), // HMAC signing key, shown to the admin once
+    events: text("events").array().notNull().default([]),
+    isActive: boolean("is_active").notNull().default(true),
+    createdBy: uuid("created_by").references(() => userProfiles.id, { onDelete: "set null" }),
+    lastDeliveryAt: timestamp("last_delivery_at", { withTimezone: true }),
+    lastDeliveryStatus: varchar("last_delivery_status", { length: 20 }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => ({
+    tenantIdx: index("idx_webhook_endpoints_tenant").on(table.tenantId),
+  })
+);
+
+export const webhookEvents = pgTable(
+  "webhook_events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    eventType: varchar("event_type", { length: 50 }).notNull(),
+    resourceId: text("resource_id"), // archived row the event is about
+    payload: jsonb("payload").notNull().default({}),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => ({
+    resourceIdx: uniqueIndex("idx_webhook_events_resource").on(table.tenantId, table.eventType, table.resourceId),
+    createdIdx: index("idx_webhook_events_created").on(table.createdAt),
+  })
+);
+
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    endpointId: uuid("endpoint_id").notNull().references(() => webhookEndpoints.id, { onDelete: "cascade" }),
+    eventId: uuid("event_id").notNull().references(() => webhookEvents.id, { onDelete: "cascade" }),
+    eventType: varchar("event_type", { length: 50 }).notNull(),
+    status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, delivering, succeeded, failed
+    attempts: integer("attempts").notNull().default(0),
+    maxAttempts: integer("max_attempts").notNull().default(8),
+    nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }).notNull().defaultNow(),
+    lockedUntil: timestamp("locked_until", { withTimezone: true }),
+    responseStatus: integer("response_status"),
+    responseBody: text("response_body"), // first 1KB of the last response
+    lastError: text("last_error"),
+    durationMs: integer("duration_ms"),
+    redeliveryOf: uuid("redelivery_of"),
+    requestedBy: uuid("requested_by").references(() => userProfiles.id, { onDelete: "set null" }),
+    deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => ({
+    dueIdx: index("idx_webhook_deliveries_due").on(table.nextAttemptAt),
+    endpointIdx: index("idx_webhook_deliveries_endpoint").on(table.endpointId, table.createdAt),
+    tenantIdx: index("idx_webhook_deliveries_tenant").on(table.tenantId, table.createdAt),
+  })
+);
+
 // ============================================
 // SMTP SETTINGS (Global)
 // ============================================
@@ -710,7 +1141,7 @@ export const notificationLogs = pgTable(
     tenantId: uuid("tenant_id").references(() => tenants.id, { onDelete: "set null" }),
     userId: uuid("user_id").references(() => userProfiles.id, { onDelete: "set null" }),
     notificationType: varchar("notification_type", { length: 50 }).notNull(),
-    channel: varchar("channel", { length: 20 }).notNull(), // email, sms, push
+    channel: varchar("channel", { length: 20 }).notNull(), // email, sms, push, slack, teams
     recipient: varchar("recipient", { length: 255 }).notNull(),
     subject: varchar("subject", { length: 500 }),
     status: varchar("status", { length: 20 }).default("pending"), // pending, sent, failed, delivered
@@ -739,6 +1170,8 @@ export const userNotificationPreferences = pgTable(
     emailEnabled: boolean("email_enabled").default(true),
     smsEnabled: boolean("sms_enabled").default(false),
     pushEnabled: boolean("push_enabled").default(true),
+    slackEnabled: boolean("slack_enabled").default(false),
+    teamsEnabled: boolean("teams_enabled").default(false),
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
   },
@@ -748,6 +1181,226 @@ export const userNotificationPreferences = pgTable(
   })
 );
 
+// ============================================
+// TENANT NOTIFICATION CHANNELS (Slack / Teams)
+// ============================================
+export const tenantNotificationChannels = pgTable(
+  "tenant_notification_channels",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    channel: varchar("channel", { length: 20 }).notNull(), // slack, teams
+    webhookUrlEncrypted: text("webhook_url_encrypted").notNull(),
+    channelName: varchar("channel_name", { length: 100 }),
+    isActive: boolean("is_active").notNull().default(true),
+    lastSentAt: timestamp("last_sent_at", { withTimezone: true }),
+    lastError: text("last_error"),
+    createdBy: uuid("created_by").references(() => userProfiles.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => ({
+    uniqueTenantChannel: uniqueIndex("tenant_notification_channels_tenant_id_channel_key").on(table.tenantId, table.channel),
+  })
+);
+
+// ============================================
+// API KEYS (public REST API)
+// ============================================
+export const apiKeys = pgTable(
+  "api_keys",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    userId: uuid("user_id").notNull().references(() => userProfiles.id, { onDelete: "cascade" }), // the key acts as this user
+    name: varchar("name", { length: 100 }).notNull(),
+    keyPrefix: varchar("key_prefix", { length: 16 }).notNull(),
+    keyHash: varchar("key_hash", { length: 64 }).notNull(), // hex SHA-256 of the full key
+    scopes: text("scopes").array().notNull().default([]),
+    expiresAt: timestamp("expires_at", { withTimezone: true }),
+    lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+    lastUsedIp: varchar("last_used_ip", { length: 64 }),
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+    revokedBy: uuid("revoked_by").references(() => userProfiles.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => ({
+    hashIdx: uniqueIndex("idx_api_keys_hash").on(table.keyHash),
+    tenantIdx: index("idx_api_keys_tenant").on(table.tenantId, table.createdAt),
+  })
+);
+
+// ============================================
+// SEARCH INDEX
+// ============================================
+// Maintained by database triggers; search_vector (generated tsvector) is not
+// mapped here
+export const searchIndex = pgTable(
+  "search_index",
+  {
+    entityType: varchar("entity_type", { length: 20 }).notNull(), // message, conversation, call, voicemail, fax, extension
+    entityId: uuid("entity_id").notNull(),
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    pbxInstanceId: uuid("pbx_instance_id"), // 3CX system of the source row
+    conversationId: uuid("conversation_id"),
+    channelType: varchar("channel_type", { length: 50 }),
+    extensionNumber: varchar("extension_number", { length: 50 }),
+    title: text("title"),
+    body: text("body"),
+    numbers: text("numbers"), // digits only, space separated
+    occurredAt: timestamp("occurred_at", { withTimezone: true }),
+    hasMedia: boolean("has_media").notNull().default(false),
+    indexedAt: timestamp("indexed_at", { withTimezone: true }).notNull().defaultNow(),
+    firstIndexedAt: timestamp("first_indexed_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.entityType, table.entityId] }),
+    tenantIdx: index("idx_search_index_tenant").on(table.tenantId, table.entityType, table.occurredAt),
+    conversationIdx: index("idx_search_index_conversation").on(table.conversationId),
+    pbxInstanceIdx: index("idx_search_index_pbx_instance").on(table.tenantId, table.pbxInstanceId, table.entityType),
+  })
+);
+
+// Progress of the batched backfill of existing rows, one row per entity type
+export const searchIndexBackfill = pgTable("search_index_backfill", {
+  entityType: varchar("entity_type", { length: 20 }).primaryKey(),
+  position: integer("position").notNull(), // processing order
+  lastId: uuid("last_id"), // last source row indexed
+  completedAt: timestamp("completed_at", { withTimezone: true }),
+});
+
+// ============================================
+// SAVED SEARCHES
+// ============================================
+export const savedSearches = pgTable(
+  "saved_searches",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    userId: uuid("user_id").notNull().references(() => userProfiles.id, { onDelete: "cascade" }), // owner; runs use their permissions
+    name: varchar("name", { length: 100 }).notNull(),
+    query: text("query").notNull().default(""),
+    filters: jsonb("filters").notNull().default({}),
+    isShared: boolean("is_shared").notNull().default(false),
+    schedule: varchar("schedule", { length: 10 }).notNull().default("none"), // none, daily, weekly
+    delivery: varchar("delivery", { length: 20 }).notNull().default("email"), // email, notification
+    lastRunAt: timestamp("last_run_at", { withTimezone: true }),
+    nextRunAt: timestamp("next_run_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => ({
+    tenantIdx: index("idx_saved_searches_tenant").on(table.tenantId, table.createdAt),
+    dueIdx: index("idx_saved_searches_due").on(table.nextRunAt),
+  })
+);
+
+export const savedSearchRuns = pgTable(
+  "saved_search_runs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    savedSearchId: uuid("saved_search_id").notNull().references(() => savedSearches.id, { onDelete: "cascade" }),
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    trigger: varchar("trigger", { length: 10 }).notNull().default("schedule"), // schedule, manual
+    status: varchar("status", { length: 20 }).notNull().default("running"), // running, completed, failed
+    windowStart: timestamp("window_start", { withTimezone: true }).notNull(),
+    windowEnd: timestamp("window_end", { withTimezone: true }).notNull(),
+    matchCount: integer("match_count").notNull().default(0),
+    matches: jsonb("matches").notNull().default([]),
+    notified: boolean("notified").notNull().default(false),
+    error: text("error"),
+    startedAt: timestamp("started_at", { withTimezone: true }).defaultNow(),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+  },
+  (table) => ({
+    searchIdx: index("idx_saved_search_runs_search").on(table.savedSearchId, table.startedAt),
+  })
+);
+
+// ============================================
+// POLICY MONITORING
+// ============================================
+export const policyRules = pgTable(
+  "policy_rules",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 100 }).notNull(),
+    description: text("description"),
+    keywords: text("keywords").array().notNull().default([]), // whole-word, case-insensitive
+    patterns: text("patterns").array().notNull().default([]), // JavaScript regex sources
+    externalOnly: boolean("external_only").notNull().default(false),
+    afterHoursOnly: boolean("after_hours_only").notNull().default(false),
+    businessHours: jsonb("business_hours").notNull(), // { timezone, start, end, days }
+    severity: varchar("severity", { length: 10 }).notNull().default("medium"), // low, medium, high
+    notify: boolean("notify").notNull().default(true),
+    isActive: boolean("is_active").notNull().default(true),
+    createdBy: uuid("created_by").references(() => userProfiles.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => ({
+    tenantIdx: index("idx_policy_rules_tenant").on(table.tenantId),
+  })
+);
+
+export const policyFlags = pgTable(
+  "policy_flags",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    ruleId: uuid("rule_id").references(() => policyRules.id, { onDelete: "set null" }),
+    ruleName: varchar("rule_name", { length: 100 }).notNull(),
+    severity: varchar("severity", { length: 10 }).notNull(),
+    messageId: uuid("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+    conversationId: uuid("conversation_id").references(() => conversations.id, { onDelete: "cascade" }),
+    messageSentAt: timestamp("message_sent_at", { withTimezone: true }).notNull(),
+    reasons: jsonb("reasons").notNull().default([]),
+    status: varchar("status", { length: 20 }).notNull().default("open"), // open, reviewed, escalated
+    reviewedBy: uuid("reviewed_by").references(() => userProfiles.id, { onDelete: "set null" }),
+    reviewedAt: timestamp("reviewed_at", { withTimezone: true }),
+    escalatedBy: uuid("escalated_by").references(() => userProfiles.id, { onDelete: "set null" }),
+    escalatedAt: timestamp("escalated_at", { withTimezone: true }),
+    notifiedAt: timestamp("notified_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => ({
+    ruleMessageIdx: uniqueIndex("idx_policy_flags_rule_message").on(table.ruleId, table.messageId),
+    queueIdx: index("idx_policy_flags_queue").on(table.tenantId, table.status, table.createdAt),
+  })
+);
+
+export const policyFlagNotes = pgTable(
+  "policy_flag_notes",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    flagId: uuid("flag_id").notNull().references(() => policyFlags.id, { onDelete: "cascade" }),
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    authorId: uuid("author_id").references(() => userProfiles.id, { onDelete: "set null" }),
+    body: text("body"),
+    statusFrom: varchar("status_from", { length: 20 }),
+    statusTo: varchar("status_to", { length: 20 }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => ({
+    flagIdx: index("idx_policy_flag_notes_flag").on(table.flagId, table.createdAt),
+  })
+);
+
+// ============================================
+// PII REDACTION
+// ============================================
+export const redactionSettings = pgTable("redaction_settings", {
+  tenantId: uuid("tenant_id").primaryKey().references(() => tenants.id, { onDelete: "cascade" }),
+  presets: text("presets").array().notNull().default(["card_number", "us_ssn"]),
+  customPatterns: text("custom_patterns").array().notNull().default([]),
+  maskExternalNumbers: boolean("mask_external_numbers").notNull().default(true),
+  updatedBy: uuid("updated_by").references(() => userProfiles.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+});
+
 // ============================================
 // SMS SETTINGS (Wiretap Integration)
 // ============================================
@@ -809,6 +1462,7 @@ export const syncAgents = pgTable(
   {
     id: uuid("id").primaryKey().defaultRandom(),
     tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    pbxInstanceId: uuid("pbx_instance_id").references(() => pbxInstances.id, { onDelete: "cascade" }),
 
     // Agent identification
     hostname: varchar("hostname", { length: 255 }),
@@ -819,10 +1473,15 @@ export const syncAgents = pgTable(
 
     // Authentication
     agentToken: varchar("agent_token", { length: 64 }).notNull().unique(),
+    pendingAgentToken: varchar("pending_agent_token", { length: 64 }).unique(), // from rotate_token, promoted on first use
+
+    // Control plane
+    appliedConfigHash: varchar("applied_config_hash", { length: 64 }),
 
     // Status
     status: varchar("status", { length: 20 }).default("pending"), // pending, active, inactive, error
     lastHeartbeatAt: timestamp("last_heartbeat_at", { withTimezone: true }),
+    lastIngestAt: timestamp("last_ingest_at", { withTimezone: true }),
     lastSyncAt: timestamp("last_sync_at", { withTimezone: true }),
     lastError: text("last_error"),
 
@@ -831,11 +1490,78 @@ export const syncAgents = pgTable(
     updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
   },
   (table) => ({
-    tenantIdx: uniqueIndex("sync_agents_tenant_id_key").on(table.tenantId), // One agent per tenant
+    tenantIdx: uniqueIndex("sync_agents_tenant_instance_key").on(table.tenantId, table.pbxInstanceId), // One agent per instance, NULLS NOT DISTINCT
     heartbeatIdx: index("idx_sync_agents_heartbeat").on(table.status, table.lastHeartbeatAt),
   })
 );
 
+export const agentReleases = pgTable(
+  "agent_releases",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    version: varchar("version", { length: 20 }).notNull().unique(),
+    downloadUrl: text("download_url").notNull(),
+    sha256: varchar("sha256", { length: 64 }).notNull(),
+    changelog: text("changelog"),
+    status: varchar("status", { length: 20 }).notNull().default("draft"), // draft, rolling_out, paused, complete
+    rolloutPercent: integer("rollout_percent").notNull().default(0), // agents with bucket < percent are offered it
+    createdBy: uuid("created_by").references(() => userProfiles.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => ({
+    offeredIdx: index("idx_agent_releases_offered").on(table.createdAt),
+  })
+);
+
+export const agentCommands = pgTable(
+  "agent_commands",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    agentId: uuid("agent_id").notNull().references(() => syncAgents.id, { onDelete: "cascade" }),
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    command: varchar("command", { length: 20 }).notNull(), // resync, restart, rotate_token, upload_logs, collect_diagnostics
+    params: jsonb("params").notNull().default({}),
+    status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, delivered, succeeded, failed, expired
+    result: jsonb("result"),
+    error: text("error"),
+    requestedBy: uuid("requested_by").references(() => userProfiles.id, { onDelete: "set null" }),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => ({
+    pendingIdx: index("idx_agent_commands_pending").on(table.agentId, table.createdAt),
+    agentIdx: index("idx_agent_commands_agent").on(table.agentId, table.createdAt),
+  })
+);
+
+export const agentDiagnostics = pgTable(
+  "agent_diagnostics",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    agentId: uuid("agent_id").notNull().references(() => syncAgents.id, { onDelete: "cascade" }),
+    tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+    commandId: uuid("command_id").unique().references(() => agentCommands.id, { onDelete: "set null" }),
+    status: varchar("status", { length: 20 }).notNull().default("requested"), // requested, uploaded, failed, expired, purged
+    bundlePath: text("bundle_path"),
+    bundleSizeBytes: bigint("bundle_size_bytes", { mode: "number" }),
+    bundleSha256: varchar("bundle_sha256", { length: 64 }),
+    files: jsonb("files").notNull().default([]), // [{ name, storage_path, size, sha256 }]
+    error: text("error"),
+    requestedBy: uuid("requested_by").references(() => userProfiles.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    uploadedAt: timestamp("uploaded_at", { withTimezone: true }),
+    retainUntil: timestamp("retain_until", { withTimezone: true }),
+    purgedAt: timestamp("purged_at", { withTimezone: true }),
+  },
+  (table) => ({
+    tenantIdx: index("idx_agent_diagnostics_tenant").on(table.tenantId, table.createdAt),
+    retentionIdx: index("idx_agent_diagnostics_retention").on(table.retainUntil),
+  })
+);
+
 // ============================================
 // RELATIONS
 // ============================================
@@ -853,14 +1579,54 @@ export const tenantsRelations = relations(tenants, ({ many }) => ({
   syncStatus: many(syncStatus),
   syncLogs: many(syncLogs),
   retentionPolicies: many(retentionPolicies),
+  legalHolds: many(legalHolds),
+  exportJobs: many(exportJobs),
+  integrityVerifications: many(integrityVerifications),
+  reconciliationRuns: many(reconciliationRuns),
+  backfillJobs: many(backfillJobs),
+  syncJobs: many(syncJobs),
+  webhookEndpoints: many(webhookEndpoints),
   syncAgents: many(syncAgents),
+  pbxInstances: many(pbxInstances),
 }));
 
-export const syncAgentsRelations = relations(syncAgents, ({ one }) => ({
+export const pbxInstancesRelations = relations(pbxInstances, ({ one, many }) => ({
+  tenant: one(tenants, {
+    fields: [pbxInstances.tenantId],
+    references: [tenants.id],
+  }),
+  syncAgents: many(syncAgents),
+}));
+
+export const syncAgentsRelations = relations(syncAgents, ({ one, many }) => ({
   tenant: one(tenants, {
     fields: [syncAgents.tenantId],
     references: [tenants.id],
   }),
+  pbxInstance: one(pbxInstances, {
+    fields: [syncAgents.pbxInstanceId],
+    references: [pbxInstances.id],
+  }),
+  commands: many(agentCommands),
+  diagnostics: many(agentDiagnostics),
+}));
+
+export const agentCommandsRelations = relations(agentCommands, ({ one }) => ({
+  agent: one(syncAgents, {
+    fields: [agentCommands.agentId],
+    references: [syncAgents.id],
+  }),
+}));
+
+export const agentDiagnosticsRelations = relations(agentDiagnostics, ({ one }) => ({
+  agent: one(syncAgents, {
+    fields: [agentDiagnostics.agentId],
+    references: [syncAgents.id],
+  }),
+  command: one(agentCommands, {
+    fields: [agentDiagnostics.commandId],
+    references: [agentCommands.id],
+  }),
 }));
 
 export const userProfilesRelations = relations(userProfiles, ({ many }) => ({
@@ -932,6 +1698,8 @@ export const userGroupChatPermissionsRelations = relations(userGroupChatPermissi
 // Export types
 export type Tenant = typeof tenants.$inferSelect;
 export type NewTenant = typeof tenants.$inferInsert;
+export type PbxInstance = typeof pbxInstances.$inferSelect;
+export type NewPbxInstance = typeof pbxInstances.$inferInsert;
 export type UserProfile = typeof userProfiles.$inferSelect;
 export type NewUserProfile = typeof userProfiles.$inferInsert;
 export type UserTenant = typeof userTenants.$inferSelect;
@@ -946,14 +1714,45 @@ export type UserExtensionPermission = typeof userExtensionPermissions.$inferSele
 export type UserGroupChatPermission = typeof userGroupChatPermissions.$inferSelect;
 export type RetentionPolicy = typeof retentionPolicies.$inferSelect;
 export type NewRetentionPolicy = typeof retentionPolicies.$inferInsert;
+export type LegalHold = typeof legalHolds.$inferSelect;
+export type NewLegalHold = typeof legalHolds.$inferInsert;
+export type ExportJob = typeof exportJobs.$inferSelect;
+export type NewExportJob = typeof exportJobs.$inferInsert;
+export type IntegrityLogEntry = typeof integrityLogEntries.$inferSelect;
+export type IntegrityDailySeal = typeof integrityDailySeals.$inferSelect;
+export type IntegrityPurge = typeof integrityPurges.$inferSelect;
+export type IntegrityVerification = typeof integrityVerifications.$inferSelect;
+export type NewIntegrityVerification = typeof integrityVerifications.$inferInsert;
+export type ReconciliationRun = typeof reconciliationRuns.$inferSelect;
+export type NewReconciliationRun = typeof reconciliationRuns.$inferInsert;
+export type ReconciliationDiff = typeof reconciliationDiffs.$inferSelect;
+export type BackfillJob = typeof backfillJobs.$inferSelect;
+export type NewBackfillJob = typeof backfillJobs.$inferInsert;
+export type SyncJob = typeof syncJobs.$inferSelect;
+export type NewSyncJob = typeof syncJobs.$inferInsert;
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type NewWebhookEndpoint = typeof webhookEndpoints.$inferInsert;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
 export type StoragePlan = typeof storagePlans.$inferSelect;
 export type NewStoragePlan = typeof storagePlans.$inferInsert;
 export type SmtpSettings = typeof smtpSettings.$inferSelect;
 export type NotificationTemplate = typeof notificationTemplates.$inferSelect;
 export type NotificationLog = typeof notificationLogs.$inferSelect;
 export type UserNotificationPreference = typeof userNotificationPreferences.$inferSelect;
+export type TenantNotificationChannel = typeof tenantNotificationChannels.$inferSelect;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type SearchIndexEntry = typeof searchIndex.$inferSelect;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type SavedSearchRun = typeof savedSearchRuns.$inferSelect;
+export type PolicyRule = typeof policyRules.$inferSelect;
+export type PolicyFlag = typeof policyFlags.$inferSelect;
+export type PolicyFlagNote = typeof policyFlagNotes.$inferSelect;
+export type RedactionSettings = typeof redactionSettings.$inferSelect;
 export type SmsSettings = typeof smsSettings.$inferSelect;
 export type PushSettings = typeof pushSettings.$inferSelect;
 export type UserPushToken = typeof userPushTokens.$inferSelect;
 export type SyncAgent = typeof syncAgents.$inferSelect;
 export type NewSyncAgent = typeof syncAgents.$inferInsert;
+export type AgentRelease = typeof agentReleases.$inferSelect;
+export type AgentCommand = typeof agentCommands.$inferSelect;
+export type AgentDiagnosticsBundle = typeof agentDiagnostics.$inferSelect;
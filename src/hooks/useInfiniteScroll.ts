@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useRef } from "react";
+
+/**
+ * Calls `onLoadMore` when the returned sentinel ref scrolls into view.
+ * Attach it to an element after the last row of a cursor-paged list, and only
+ * render that element while more can load - each remount re-checks visibility,
+ * so a short page that leaves the sentinel on screen keeps loading.
+ */
+export function useInfiniteScroll(
+  onLoadMore: () => void,
+  { hasMore, isLoading, rootMargin = "400px" }: { hasMore: boolean; isLoading: boolean; rootMargin?: string }
+) {
+  const observerRef = useRef<IntersectionObserver | null>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  const canLoadRef = useRef(hasMore && !isLoading);
+
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore;
+    canLoadRef.current = hasMore && !isLoading;
+  }, [onLoadMore, hasMore, isLoading]);
+
+  useEffect(() => {
+    return () => observerRef.current?.disconnect();
+  }, []);
+
+  return useCallback(
+    (node: HTMLElement | null) => {
+      observerRef.current?.disconnect();
+      if (!node) return;
+
+      observerRef.current = new IntersectionObserver(
+        (entries) => {
+          if (entries[0]?.isIntersecting && canLoadRef.current) {
+            onLoadMoreRef.current();
+          }
+        },
+        { rootMargin }
+      );
+      observerRef.current.observe(node);
+    },
+    [rootMargin]
+  );
+}
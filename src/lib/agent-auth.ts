@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { checkRateLimit, addRateLimitHeaders, rateLimitConfigs } from "@/lib/rate-limit";
+import { findAgentByToken } from "@/lib/agent-control";
+
+// ============================================
+// SYNC AGENT AUTHENTICATION
+// ============================================
+// Authenticates /api/agent requests carrying
+// `Authorization: Bearer <sync_agents.agent_token>`. A token only ever acts for
+// the one tenant its agent belongs to, and for the one 3CX system (PBX
+// instance) it was installed on.
+
+export interface AgentContext {
+  agentId: string;
+  tenantId: string;
+  pbxInstanceId: string | null; // null for tenants without PBX instances
+}
+
+export async function authenticateAgent(
+  request: NextRequest
+): Promise<{ agent: AgentContext } | { error: NextResponse }> {
+  const authHeader = request.headers.get("Authorization");
+  const token = authHeader?.startsWith("Bearer ") ? authHeader.slice(7).trim() : null;
+
+  if (!token) {
+    return { error: NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  const agent = await findAgentByToken(createAdminClient(), token);
+
+  if (!agent) {
+    return { error: NextResponse.json({ success: false, error: "Invalid agent token" }, { status: 401 }) };
+  }
+
+  const rateLimit = checkRateLimit(agent.id, rateLimitConfigs.agent);
+  if (!rateLimit.success) {
+    const response = NextResponse.json(
+      { success: false, error: "Too many requests", retryAfter: rateLimit.retryAfter },
+      { status: 429 }
+    );
+    addRateLimitHeaders(response.headers, rateLimit);
+    return { error: response };
+  }
+
+  return { agent: { agentId: agent.id, tenantId: agent.tenant_id, pbxInstanceId: agent.pbx_instance_id } };
+}
+
+// Stamp the agent's last accepted ingest (best effort)
+export async function markAgentIngest(agentId: string): Promise<void> {
+  const supabase = createAdminClient();
+  await supabase
+    .from("sync_agents")
+    .update({ last_ingest_at: new Date().toISOString() })
+    .eq("id", agentId);
+}
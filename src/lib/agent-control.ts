@@ -0,0 +1,447 @@
+import { createHash, randomBytes } from "crypto";
+import { createAdminClient } from "@/lib/supabase/admin";
+import {
+  createDiagnosticsRequest,
+  diagnosticsPrefix,
+  expireDiagnosticsRequests,
+  recordDiagnosticsResult,
+} from "@/lib/agent-diagnostics";
+
+// ============================================
+// AGENT CONTROL PLANE
+// ============================================
+// Installed sync agents are managed through their heartbeat: each response
+// carries the tenant's desired config, the commands queued for the agent and
+// the release it should be running. Agents report the config they applied and
+// command results in the next heartbeat. Mirrored on the agent side by
+// sync-service/src/agent-control.ts - keep the payload shapes in step.
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+export const AGENT_COMMANDS = ["resync", "restart", "rotate_token", "upload_logs", "collect_diagnostics"] as const;
+export type AgentCommandName = (typeof AGENT_COMMANDS)[number];
+
+// Sync types that keep a cursor the agent can rewind
+export const RESYNC_TYPES = ["messages", "cdr", "recordings", "voicemails"] as const;
+
+export const RELEASE_STATUSES = ["draft", "rolling_out", "paused", "complete"] as const;
+export type ReleaseStatus = (typeof RELEASE_STATUSES)[number];
+
+// Commands an agent has not collected by then are expired
+const COMMAND_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Delivered commands whose result has not come back by then are expired: the
+// agent restarted mid-command or went offline for good
+const COMMAND_RESULT_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+
+// An agent whose last heartbeat is older than this is shown as offline
+export const AGENT_OFFLINE_AFTER_MS = 15 * 60 * 1000;
+
+export interface AgentConfig {
+  sync_interval_seconds: number;
+  data_types: {
+    chats: boolean;
+    chat_media: boolean;
+    recordings: boolean;
+    voicemails: boolean;
+    faxes: boolean;
+    cdr: boolean;
+    meetings: boolean;
+  };
+  paths: {
+    recordings: string | null;
+    voicemail: string | null;
+    chat_files: string | null;
+    fax: string | null;
+    meetings: string | null;
+  };
+}
+
+export interface AgentRelease {
+  id: string;
+  version: string;
+  download_url: string;
+  sha256: string;
+  changelog: string | null;
+  status: ReleaseStatus;
+  rollout_percent: number;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AgentCommand {
+  id: string;
+  agent_id: string;
+  tenant_id: string;
+  command: AgentCommandName;
+  params: Record<string, unknown>;
+  status: "pending" | "delivered" | "succeeded" | "failed" | "expired";
+  result: Record<string, unknown> | null;
+  error: string | null;
+  requested_by: string | null;
+  expires_at: string;
+  delivered_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+}
+
+// What the agent receives for each delivered command
+export interface DeliveredCommand {
+  id: string;
+  command: AgentCommandName;
+  params: Record<string, unknown>;
+}
+
+export interface CommandResult {
+  id: string;
+  status: "succeeded" | "failed";
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+// An agent as listed in the super-admin fleet view
+export interface FleetAgent {
+  id: string;
+  tenant: { id: string; name: string; slug: string } | null;
+  pbx_instance: { id: string; name: string } | null;
+  hostname: string | null;
+  ip_address: string | null;
+  os_info: string | null;
+  agent_version: string | null;
+  target_version: string | null;
+  version_drift: boolean;
+  config_applied: boolean;
+  status: string | null;
+  online: boolean;
+  last_heartbeat_at: string | null;
+  last_ingest_at: string | null;
+  last_sync_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  recent_commands: Array<
+    Pick<AgentCommand, "id" | "command" | "params" | "status" | "result" | "error" | "created_at" | "delivered_at" | "completed_at">
+  >;
+}
+
+// Columns a PBX instance sets for its own agent, over the tenant's
+export const AGENT_INSTANCE_CONFIG_COLUMNS =
+  "backup_chats, backup_chat_media, backup_recordings, backup_voicemails, backup_faxes, backup_cdr, backup_meetings, threecx_recordings_path, threecx_voicemail_path, threecx_chat_files_path, threecx_fax_path, threecx_meetings_path";
+
+// Tenant columns the desired config is built from
+export const AGENT_CONFIG_COLUMNS = `sync_interval_seconds, ${AGENT_INSTANCE_CONFIG_COLUMNS}`;
+
+export function isAgentCommand(value: unknown): value is AgentCommandName {
+  return typeof value === "string" && (AGENT_COMMANDS as readonly string[]).includes(value);
+}
+
+export function isReleaseStatus(value: unknown): value is ReleaseStatus {
+  return typeof value === "string" && (RELEASE_STATUSES as readonly string[]).includes(value);
+}
+
+export function generateAgentToken(): string {
+  return randomBytes(32).toString("hex");
+}
+
+/** Desired agent config from the tenant's settings, with a hash the agent echoes back once applied */
+export function buildAgentConfig(tenant: Record<string, unknown>): { config: AgentConfig; hash: string } {
+  const path = (value: unknown) => (typeof value === "string" && value ? value : null);
+
+  const config: AgentConfig = {
+    sync_interval_seconds: Number(tenant.sync_interval_seconds) || 60,
+    data_types: {
+      chats: tenant.backup_chats !== false,
+      chat_media: tenant.backup_chat_media !== false,
+      recordings: tenant.backup_recordings !== false,
+      voicemails: tenant.backup_voicemails !== false,
+      faxes: tenant.backup_faxes !== false,
+      cdr: tenant.backup_cdr !== false,
+      meetings: tenant.backup_meetings !== false,
+    },
+    paths: {
+      recordings: path(tenant.threecx_recordings_path),
+      voicemail: path(tenant.threecx_voicemail_path),
+      chat_files: path(tenant.threecx_chat_files_path),
+      fax: path(tenant.threecx_fax_path),
+      meetings: path(tenant.threecx_meetings_path),
+    },
+  };
+
+  return { config, hash: createHash("sha256").update(JSON.stringify(config)).digest("hex") };
+}
+
+/** Stable 0-99 bucket for staged rollouts */
+export function rolloutBucket(agentId: string): number {
+  return parseInt(createHash("sha256").update(agentId).digest("hex").slice(0, 8), 16) % 100;
+}
+
+/**
+ * The release an agent should be running: the newest release that is
+ * complete, or rolling out far enough to include the agent's bucket.
+ * `releases` must be ordered newest first.
+ */
+export function pickTargetRelease(releases: AgentRelease[], agentId: string): AgentRelease | null {
+  const bucket = rolloutBucket(agentId);
+  return (
+    releases.find(
+      (release) =>
+        release.status === "complete" || (release.status === "rolling_out" && bucket < release.rollout_percent)
+    ) ?? null
+  );
+}
+
+// Releases that may be offered to agents, newest first
+export async function getOfferedReleases(supabase: AdminClient): Promise<AgentRelease[]> {
+  const { data: releases } = await supabase
+    .from("agent_releases")
+    .select("*")
+    .in("status", ["rolling_out", "complete"])
+    .order("created_at", { ascending: false })
+    .limit(20);
+
+  return (releases || []) as AgentRelease[];
+}
+
+/**
+ * Look up an agent by bearer token. A rotated token replaces the old one the
+ * first time the agent uses it, which also completes the rotate_token command.
+ */
+export async function findAgentByToken(
+  supabase: AdminClient,
+  token: string
+): Promise<{ id: string; tenant_id: string; pbx_instance_id: string | null } | null> {
+  const { data: agent } = await supabase
+    .from("sync_agents")
+    .select("id, tenant_id, pbx_instance_id")
+    .eq("agent_token", token)
+    .maybeSingle();
+
+  if (agent) return agent;
+
+  const { data: rotated } = await supabase
+    .from("sync_agents")
+    .select("id, tenant_id, pbx_instance_id, agent_token")
+    .eq("pending_agent_token", token)
+    .maybeSingle();
+
+  if (!rotated) return null;
+
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from("sync_agents")
+    .update({ agent_token: token, pending_agent_token: null, updated_at: now })
+    .eq("id", rotated.id);
+
+  if (error) {
+    console.error("Failed to promote rotated agent token:", error);
+    return null;
+  }
+
+  // /api/agent/register looks agents up by their PBX instance's token, or the
+  // tenant's when the tenant has no instances
+  if (rotated.pbx_instance_id) {
+    await supabase.from("pbx_instances").update({ agent_token: token }).eq("id", rotated.pbx_instance_id);
+  }
+  await supabase
+    .from("tenants")
+    .update({ agent_token: token })
+    .eq("id", rotated.tenant_id)
+    .eq("agent_token", rotated.agent_token);
+
+  await supabase
+    .from("agent_commands")
+    .update({ status: "succeeded", completed_at: now })
+    .eq("agent_id", rotated.id)
+    .eq("command", "rotate_token")
+    .eq("status", "delivered");
+
+  return { id: rotated.id, tenant_id: rotated.tenant_id, pbx_instance_id: rotated.pbx_instance_id };
+}
+
+/** Check a command's params before it is queued */
+export function validateCommandParams(
+  command: AgentCommandName,
+  params: unknown
+): { params: Record<string, unknown> } | { error: string } {
+  const input = (params && typeof params === "object" && !Array.isArray(params) ? params : {}) as Record<
+    string,
+    unknown
+  >;
+
+  if (command === "resync") {
+    if (!(RESYNC_TYPES as readonly string[]).includes(input.sync_type as string)) {
+      return { error: `sync_type must be one of ${RESYNC_TYPES.join(", ")}` };
+    }
+    if (input.since !== undefined && input.since !== null && isNaN(Date.parse(String(input.since)))) {
+      return { error: "since must be a date" };
+    }
+    return { params: { sync_type: input.sync_type, since: input.since ?? null } };
+  }
+
+  return { params: {} };
+}
+
+export function commandExpiry(): string {
+  return new Date(Date.now() + COMMAND_TTL_MS).toISOString();
+}
+
+/**
+ * Queue a validated command for the agent's next heartbeat. A
+ * collect_diagnostics command also starts tracking its bundle.
+ */
+export async function queueAgentCommand(
+  supabase: AdminClient,
+  agent: { id: string; tenant_id: string },
+  command: AgentCommandName,
+  params: Record<string, unknown>,
+  requestedBy: string | null
+): Promise<AgentCommand | null> {
+  const { data, error } = await supabase
+    .from("agent_commands")
+    .insert({
+      agent_id: agent.id,
+      tenant_id: agent.tenant_id,
+      command,
+      params,
+      requested_by: requestedBy,
+      expires_at: commandExpiry(),
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    console.error("Error queueing agent command:", error);
+    return null;
+  }
+
+  if (command === "collect_diagnostics") {
+    await createDiagnosticsRequest(supabase, data);
+  }
+
+  return data as AgentCommand;
+}
+
+/** Store the results an agent reported for commands it was sent */
+export async function recordCommandResults(
+  supabase: AdminClient,
+  agentId: string,
+  results: unknown
+): Promise<void> {
+  if (!Array.isArray(results)) return;
+
+  for (const item of results as CommandResult[]) {
+    if (!item || typeof item.id !== "string" || (item.status !== "succeeded" && item.status !== "failed")) {
+      continue;
+    }
+
+    const { data: updated, error } = await supabase
+      .from("agent_commands")
+      .update({
+        status: item.status,
+        result: item.result ?? null,
+        error: item.status === "failed" ? String(item.error || "Command failed") : null,
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", item.id)
+      .eq("agent_id", agentId)
+      .eq("status", "delivered")
+      .select("id, tenant_id, command");
+
+    if (error) {
+      console.error("Failed to record agent command result:", error);
+      continue;
+    }
+
+    const command = updated?.[0];
+    if (command?.command === "collect_diagnostics") {
+      await recordDiagnosticsResult(supabase, command, item);
+    }
+  }
+}
+
+/**
+ * Expire commands never collected before their expiry and delivered commands
+ * that never reported back, for one agent or (from the cron) every agent.
+ * Returns how many were expired.
+ */
+export async function expireStaleCommands(supabase: AdminClient, agentId?: string): Promise<number> {
+  const now = new Date();
+
+  let uncollected = supabase
+    .from("agent_commands")
+    .update({ status: "expired", completed_at: now.toISOString() })
+    .eq("status", "pending")
+    .lt("expires_at", now.toISOString());
+  if (agentId) uncollected = uncollected.eq("agent_id", agentId);
+  const { data: expired } = await uncollected.select("id, command");
+
+  let unanswered = supabase
+    .from("agent_commands")
+    .update({ status: "expired", error: "No result from the agent", completed_at: now.toISOString() })
+    .eq("status", "delivered")
+    .lt("delivered_at", new Date(now.getTime() - COMMAND_RESULT_TIMEOUT_MS).toISOString());
+  if (agentId) unanswered = unanswered.eq("agent_id", agentId);
+  const { data: timedOut } = await unanswered.select("id, command");
+
+  const all = [...(expired || []), ...(timedOut || [])];
+  await expireDiagnosticsRequests(
+    supabase,
+    all.filter((c) => c.command === "collect_diagnostics").map((c) => c.id)
+  );
+  return all.length;
+}
+
+/**
+ * Hand pending commands to the agent and mark them delivered. A rotate_token
+ * command gets its new token here, kept as pending_agent_token until used;
+ * collect_diagnostics gets the storage prefix to upload its bundle under.
+ */
+export async function deliverCommands(supabase: AdminClient, agentId: string): Promise<DeliveredCommand[]> {
+  const now = new Date().toISOString();
+
+  await expireStaleCommands(supabase, agentId);
+
+  const { data: pending } = await supabase
+    .from("agent_commands")
+    .select("id, tenant_id, command, params")
+    .eq("agent_id", agentId)
+    .eq("status", "pending")
+    .order("created_at", { ascending: true });
+
+  const delivered: DeliveredCommand[] = [];
+  for (const command of (pending || []) as Array<DeliveredCommand & { tenant_id: string }>) {
+    let params = command.params || {};
+
+    if (command.command === "rotate_token") {
+      const token = generateAgentToken();
+      const { error } = await supabase
+        .from("sync_agents")
+        .update({ pending_agent_token: token, updated_at: now })
+        .eq("id", agentId);
+      if (error) {
+        console.error("Failed to stage rotated agent token:", error);
+        continue;
+      }
+      params = { token };
+    }
+
+    if (command.command === "collect_diagnostics") {
+      params = { storage_prefix: diagnosticsPrefix(command.tenant_id, command.id) };
+    }
+
+    const { error } = await supabase
+      .from("agent_commands")
+      .update({ status: "delivered", delivered_at: now })
+      .eq("id", command.id)
+      .eq("status", "pending");
+
+    if (error) {
+      console.error("Failed to mark agent command delivered:", error);
+      continue;
+    }
+
+    delivered.push({ id: command.id, command: command.command, params });
+  }
+
+  return delivered;
+}
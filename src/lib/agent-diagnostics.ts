@@ -0,0 +1,195 @@
+import { createAdminClient } from "@/lib/supabase/admin";
+import { deleteFile, deletePrefix } from "@/lib/storage/spaces";
+
+// ============================================
+// AGENT DIAGNOSTICS BUNDLES
+// ============================================
+// A collect_diagnostics command asks an agent to upload its logs (secrets
+// masked), redacted config and runtime state under the prefix it is given.
+// The agent reports the uploaded files as the command result; each bundle is
+// kept for DIAGNOSTICS_RETENTION_DAYS and then deleted by
+// /api/cron/agent-diagnostics.
+// Failed and expired requests are kept as long and purged the same way, since
+// the agent may have uploaded part of a bundle before giving up.
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+export const DIAGNOSTICS_RETENTION_DAYS = 14;
+
+// Statuses after which the agent uploads nothing more under the prefix
+const TERMINAL_STATUSES: DiagnosticsStatus[] = ["uploaded", "failed", "expired"];
+
+function retainUntil(from: Date): string {
+  return new Date(from.getTime() + DIAGNOSTICS_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export type DiagnosticsStatus = "requested" | "uploaded" | "failed" | "expired" | "purged";
+
+export interface DiagnosticsFile {
+  name: string;
+  storage_path: string;
+  size: number;
+  sha256: string;
+}
+
+export interface AgentDiagnosticsBundle {
+  id: string;
+  agent_id: string;
+  tenant_id: string;
+  command_id: string | null;
+  status: DiagnosticsStatus;
+  bundle_path: string | null;
+  bundle_size_bytes: number | null;
+  bundle_sha256: string | null;
+  files: DiagnosticsFile[];
+  error: string | null;
+  requested_by: string | null;
+  created_at: string;
+  uploaded_at: string | null;
+  retain_until: string | null;
+  purged_at: string | null;
+}
+
+/** Where the agent uploads the bundle for one collect_diagnostics command */
+export function diagnosticsPrefix(tenantId: string, commandId: string): string {
+  return `${tenantId}/agent-diagnostics/${commandId}/`;
+}
+
+/** Track the bundle a newly queued collect_diagnostics command will produce */
+export async function createDiagnosticsRequest(
+  supabase: AdminClient,
+  command: { id: string; agent_id: string; tenant_id: string; requested_by: string | null }
+): Promise<void> {
+  const { error } = await supabase.from("agent_diagnostics").insert({
+    agent_id: command.agent_id,
+    tenant_id: command.tenant_id,
+    command_id: command.id,
+    requested_by: command.requested_by,
+  });
+
+  if (error) console.error("Failed to track diagnostics request:", error);
+}
+
+/**
+ * Store what the agent uploaded for a collect_diagnostics command. Paths
+ * outside the prefix the command was given are dropped.
+ */
+export async function recordDiagnosticsResult(
+  supabase: AdminClient,
+  command: { id: string; tenant_id: string },
+  outcome: { status: "succeeded" | "failed"; result?: Record<string, unknown>; error?: string }
+): Promise<void> {
+  const now = new Date();
+
+  if (outcome.status === "failed") {
+    await supabase
+      .from("agent_diagnostics")
+      .update({
+        status: "failed",
+        error: String(outcome.error || "Diagnostics collection failed"),
+        retain_until: retainUntil(now),
+      })
+      .eq("command_id", command.id)
+      .eq("status", "requested");
+    return;
+  }
+
+  const prefix = diagnosticsPrefix(command.tenant_id, command.id);
+  const result = outcome.result || {};
+  const files = (Array.isArray(result.files) ? result.files : [])
+    .filter(
+      (file): file is DiagnosticsFile =>
+        !!file &&
+        typeof file.name === "string" &&
+        typeof file.storage_path === "string" &&
+        file.storage_path.startsWith(prefix) &&
+        !file.storage_path.includes("..")
+    )
+    .map((file) => ({
+      name: file.name,
+      storage_path: file.storage_path,
+      size: Number(file.size) || 0,
+      sha256: String(file.sha256 || ""),
+    }));
+
+  const bundlePath =
+    typeof result.bundle_path === "string" && result.bundle_path.startsWith(prefix) && !result.bundle_path.includes("..")
+      ? result.bundle_path
+      : null;
+
+  const { error } = await supabase
+    .from("agent_diagnostics")
+    .update({
+      status: "uploaded",
+      bundle_path: bundlePath,
+      bundle_size_bytes: Number(result.bundle_size) || null,
+      bundle_sha256: typeof result.bundle_sha256 === "string" ? result.bundle_sha256 : null,
+      files,
+      uploaded_at: now.toISOString(),
+      retain_until: retainUntil(now),
+    })
+    .eq("command_id", command.id)
+    .eq("status", "requested");
+
+  if (error) console.error("Failed to record diagnostics bundle:", error);
+}
+
+/** Bundles whose command expired before the agent collected it */
+export async function expireDiagnosticsRequests(supabase: AdminClient, commandIds: string[]): Promise<void> {
+  if (commandIds.length === 0) return;
+
+  await supabase
+    .from("agent_diagnostics")
+    .update({ status: "expired", retain_until: retainUntil(new Date()) })
+    .in("command_id", commandIds)
+    .eq("status", "requested");
+}
+
+/**
+ * Delete everything under the prefix of bundles past their retention, in any
+ * terminal status, and mark them purged. Requests that failed or expired
+ * before retain_until was recorded for them count from when they were made.
+ * Returns how many bundles were purged.
+ */
+export async function purgeExpiredDiagnostics(supabase: AdminClient, limit = 100): Promise<number> {
+  const now = new Date();
+  const cutoff = new Date(now.getTime() - DIAGNOSTICS_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const { data: expired, error } = await supabase
+    .from("agent_diagnostics")
+    .select("id, tenant_id, command_id, bundle_path, files")
+    .in("status", TERMINAL_STATUSES)
+    .or(`retain_until.lt.${now.toISOString()},and(retain_until.is.null,created_at.lt.${cutoff.toISOString()})`)
+    .limit(limit);
+
+  if (error) throw new Error(`Failed to load expired diagnostics: ${error.message}`);
+
+  let purged = 0;
+  for (const bundle of expired || []) {
+    try {
+      if (bundle.command_id) {
+        await deletePrefix(diagnosticsPrefix(bundle.tenant_id, bundle.command_id));
+      } else {
+        // The command was deleted; only the recorded files can be found
+        const paths = [
+          ...((bundle.files || []) as DiagnosticsFile[]).map((file) => file.storage_path),
+          ...(bundle.bundle_path ? [bundle.bundle_path] : []),
+        ];
+        for (const path of paths) {
+          await deleteFile(path);
+        }
+      }
+    } catch (err) {
+      // Left as it was; the next run tries again
+      console.error(`Failed to delete diagnostics bundle ${bundle.id}:`, err);
+      continue;
+    }
+
+    await supabase
+      .from("agent_diagnostics")
+      .update({ status: "purged", purged_at: new Date().toISOString() })
+      .eq("id", bundle.id);
+    purged++;
+  }
+
+  return purged;
+}
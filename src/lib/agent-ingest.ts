@@ -0,0 +1,483 @@
+import { createAdminClient } from "@/lib/supabase/admin";
+import { linkIngestedRecordings } from "@/lib/call-linking";
+import { checkIngestedMessages } from "@/lib/policy-check";
+import type { WebhookEventType } from "@/lib/webhooks";
+import type { SyncGate } from "@/types";
+
+// ============================================
+// AGENT INGEST
+// ============================================
+// Batched writes from installed sync agents (/api/agent/ingest). Each table
+// the agent may write is listed with the columns it may set and its natural
+// key; tenant_id and pbx_instance_id always come from the agent's token,
+// never from the batch.
+// Storage paths must sit under the tenant's prefix, which is also the only
+// prefix /api/agent/uploads signs. Webhook events the sync service emits for
+// its own writes are emitted here for agent writes, and so are the policy
+// checks, recording-to-call linking and extension renames it runs after its
+// own writes.
+// The tenant's quota/billing sync gate (tenants.sync_gate, kept current by
+// the sync service) applies to agents too: writes of a sync type it has
+// stopped are refused, and the agent retries them once the gate reopens.
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+export const INGEST_MAX_ROWS = 1000;
+
+// Sync types as the sync service's gate knows them (sync-service/src/sync/gating.ts)
+export type AgentSyncType =
+  | "messages" | "media" | "recordings" | "voicemails" | "faxes" | "meetings" | "cdr" | "extensions";
+
+// Syncs that upload files to storage; everything else is metadata only
+const BINARY_SYNC_TYPES: readonly AgentSyncType[] = ["media", "recordings", "voicemails", "faxes", "meetings"];
+
+interface IngestTable {
+  syncType: AgentSyncType | null; // null: always accepted (sync health)
+  columns: readonly string[];
+  required: readonly string[];
+  key: string; // natural key within the tenant's 3CX system
+  conflict: string;
+  ignoreDuplicates: boolean;
+  webhook?: {
+    event: WebhookEventType;
+    idField: string;
+    when?: (row: Record<string, unknown>) => boolean;
+  };
+}
+
+export const INGEST_TABLES = {
+  // Chat
+  conversations: {
+    syncType: "messages",
+    columns: ["threecx_conversation_id", "conversation_name", "channel_type", "is_external", "is_group_chat"],
+    required: ["threecx_conversation_id"],
+    key: "threecx_conversation_id",
+    conflict: "tenant_id,pbx_instance_id,threecx_conversation_id",
+    ignoreDuplicates: false,
+  },
+  messages: {
+    syncType: "messages",
+    // threecx_conversation_id is resolved to conversation_id here, so agents
+    // never need to read the archive
+    columns: [
+      "threecx_conversation_id", "threecx_message_id", "sender_identifier", "sender_name",
+      "content", "message_type", "has_media", "sent_at", "content_sha256",
+    ],
+    required: ["threecx_conversation_id", "threecx_message_id", "sent_at"],
+    key: "threecx_message_id",
+    conflict: "tenant_id,pbx_instance_id,threecx_message_id",
+    ignoreDuplicates: true,
+    webhook: { event: "message.created", idField: "message_id" },
+  },
+
+  // CDR
+  call_logs: {
+    syncType: "cdr",
+    columns: [
+      "threecx_call_id", "call_group_id", "caller_number", "caller_name", "callee_number", "callee_name",
+      "extension_number", "direction", "call_type", "status", "ring_duration_seconds", "duration_seconds",
+      "started_at", "answered_at", "ended_at", "has_recording",
+    ],
+    required: ["threecx_call_id", "started_at"],
+    key: "threecx_call_id",
+    conflict: "tenant_id,pbx_instance_id,threecx_call_id",
+    ignoreDuplicates: true,
+  },
+
+  // Extensions, for names and voicemail owners; display_name is derived
+  // from the first and last name when the agent sends none
+  extensions: {
+    syncType: "extensions",
+    columns: ["extension_number", "first_name", "last_name", "display_name", "email"],
+    required: ["extension_number"],
+    key: "extension_number",
+    conflict: "tenant_id,pbx_instance_id,extension_number",
+    ignoreDuplicates: false,
+  },
+
+  // File metadata (the files themselves go up through presigned URLs)
+  call_recordings: {
+    syncType: "recordings",
+    columns: [
+      "threecx_call_id", "call_group_id", "extension_number", "file_name", "file_size", "storage_path",
+      "caller_number", "caller_name", "callee_number", "callee_name", "direction", "duration_seconds",
+      "started_at", "ended_at", "storage_backend", "content_sha256",
+    ],
+    required: ["threecx_call_id", "storage_path", "started_at"],
+    key: "threecx_call_id",
+    conflict: "tenant_id,pbx_instance_id,threecx_call_id",
+    ignoreDuplicates: true,
+    webhook: { event: "recording.archived", idField: "recording_id" },
+  },
+  voicemails: {
+    syncType: "voicemails",
+    // extension_number is resolved to extension_id here
+    columns: [
+      "threecx_voicemail_id", "extension_number", "file_name", "file_size", "storage_path", "caller_number",
+      "caller_name", "duration_seconds", "is_read", "transcription", "received_at", "storage_backend",
+      "content_sha256",
+    ],
+    required: ["threecx_voicemail_id", "storage_path", "received_at"],
+    key: "threecx_voicemail_id",
+    conflict: "tenant_id,pbx_instance_id,threecx_voicemail_id",
+    ignoreDuplicates: false,
+    webhook: { event: "voicemail.received", idField: "voicemail_id" },
+  },
+  faxes: {
+    syncType: "faxes",
+    columns: [
+      "threecx_fax_id", "extension", "extension_name", "remote_number", "remote_name", "direction",
+      "original_filename", "file_size", "storage_path", "mime_type", "page_count", "status", "fax_time",
+      "storage_backend", "content_sha256",
+    ],
+    required: ["threecx_fax_id", "storage_path", "fax_time"],
+    key: "threecx_fax_id",
+    conflict: "tenant_id,pbx_instance_id,threecx_fax_id",
+    ignoreDuplicates: true,
+    // Sent faxes are archived too, but only incoming ones are announced
+    webhook: { event: "fax.received", idField: "fax_id", when: (row) => row.direction !== "outbound" },
+  },
+  meeting_recordings: {
+    syncType: "meetings",
+    columns: [
+      "threecx_meeting_id", "meeting_name", "meeting_host", "host_extension", "participant_count",
+      "participants", "original_filename", "file_size", "storage_path", "mime_type", "duration_seconds",
+      "width", "height", "has_audio", "has_video", "meeting_started_at", "meeting_ended_at", "recorded_at",
+      "storage_backend", "content_sha256",
+    ],
+    required: ["threecx_meeting_id", "storage_path", "recorded_at"],
+    key: "threecx_meeting_id",
+    conflict: "tenant_id,pbx_instance_id,threecx_meeting_id",
+    ignoreDuplicates: true,
+  },
+
+  // Sync cursors and health
+  sync_status: {
+    syncType: null,
+    columns: [
+      "sync_type", "status", "last_sync_at", "updated_at", "last_synced_message_at", "last_success_at",
+      "last_error", "last_error_at", "items_synced", "notes",
+    ],
+    required: ["sync_type", "status"],
+    key: "sync_type",
+    conflict: "tenant_id,pbx_instance_id,sync_type",
+    ignoreDuplicates: false,
+    webhook: { event: "sync.failed", idField: "sync_type", when: (row) => row.status === "error" },
+  },
+} as const satisfies Record<string, IngestTable>;
+
+export type IngestTableName = keyof typeof INGEST_TABLES;
+
+export function isIngestTable(value: unknown): value is IngestTableName {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(INGEST_TABLES, value);
+}
+
+export interface IngestResult {
+  received: number;
+  written: number; // rows inserted (or updated, for tables that update)
+  rejected: Array<{ index: number; error: string }>;
+  ids: Record<string, string>; // natural key -> archive id, for rows written
+}
+
+/** Storage keys an agent may write: its own tenant's prefix, no traversal */
+export function isTenantStoragePath(tenantId: string, storagePath: unknown): storagePath is string {
+  return (
+    typeof storagePath === "string" &&
+    storagePath.startsWith(`${tenantId}/`) &&
+    !storagePath.split("/").some((part) => part === ".." || part === "")
+  );
+}
+
+export interface TenantSyncGate {
+  gate: SyncGate;
+  reason: string | null;
+}
+
+export async function getTenantSyncGate(supabase: AdminClient, tenantId: string): Promise<TenantSyncGate> {
+  const { data, error } = await supabase
+    .from("tenants")
+    .select("sync_gate, sync_gate_reason")
+    .eq("id", tenantId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load sync gate: ${error.message}`);
+  }
+  return { gate: (data?.sync_gate as SyncGate) || "open", reason: data?.sync_gate_reason ?? null };
+}
+
+// Whether the gate lets this sync type through, as in the sync service:
+// paused stops everything, uploads_paused stops file syncs
+export function isSyncAllowed(gate: SyncGate, syncType: AgentSyncType | null): boolean {
+  if (syncType === null) return true;
+  if (gate === "paused") return false;
+  if (gate === "uploads_paused") return !BINARY_SYNC_TYPES.includes(syncType);
+  return true;
+}
+
+function validateRow(
+  spec: IngestTable,
+  tenantId: string,
+  pbxInstanceId: string | null,
+  input: unknown
+): { row: Record<string, unknown> } | { error: string } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { error: "Row must be an object" };
+  }
+
+  const source = input as Record<string, unknown>;
+  const unknown = Object.keys(source).filter((column) => !spec.columns.includes(column));
+  if (unknown.length > 0) {
+    return { error: `Unknown columns: ${unknown.join(", ")}` };
+  }
+
+  const missing = spec.required.filter((column) => source[column] === undefined || source[column] === null);
+  if (missing.length > 0) {
+    return { error: `Missing ${missing.join(", ")}` };
+  }
+
+  if ("storage_path" in source && !isTenantStoragePath(tenantId, source.storage_path)) {
+    return { error: "storage_path is outside the tenant's storage prefix" };
+  }
+
+  const row: Record<string, unknown> = { tenant_id: tenantId, pbx_instance_id: pbxInstanceId };
+  for (const column of spec.columns) {
+    if (source[column] !== undefined) row[column] = source[column];
+  }
+  return { row };
+}
+
+// Replace agent-side identifiers with archive ids. Rows that cannot be
+// resolved are rejected rather than written without their parent.
+async function resolveReferences(
+  supabase: AdminClient,
+  tenantId: string,
+  pbxInstanceId: string | null,
+  table: IngestTableName,
+  rows: Array<{ index: number; row: Record<string, unknown> }>,
+  rejected: IngestResult["rejected"]
+): Promise<Array<{ index: number; row: Record<string, unknown> }>> {
+  if (table === "messages") {
+    const threecxIds = Array.from(new Set(rows.map(({ row }) => row.threecx_conversation_id as string)));
+    let query = supabase
+      .from("conversations")
+      .select("id, threecx_conversation_id")
+      .eq("tenant_id", tenantId)
+      .in("threecx_conversation_id", threecxIds);
+    query = pbxInstanceId ? query.eq("pbx_instance_id", pbxInstanceId) : query.is("pbx_instance_id", null);
+    const { data } = await query;
+    const conversations = new Map((data || []).map((c) => [c.threecx_conversation_id as string, c.id as string]));
+
+    return rows.filter(({ index, row }) => {
+      const conversationId = conversations.get(row.threecx_conversation_id as string);
+      if (!conversationId) {
+        rejected.push({ index, error: "Unknown conversation - ingest the conversation first" });
+        return false;
+      }
+      delete row.threecx_conversation_id;
+      row.conversation_id = conversationId;
+      return true;
+    });
+  }
+
+  if (table === "voicemails") {
+    const numbers = Array.from(
+      new Set(rows.map(({ row }) => row.extension_number).filter((n): n is string => typeof n === "string"))
+    );
+    let query = supabase
+      .from("extensions")
+      .select("id, extension_number")
+      .eq("tenant_id", tenantId)
+      .in("extension_number", numbers);
+    query = pbxInstanceId ? query.eq("pbx_instance_id", pbxInstanceId) : query.is("pbx_instance_id", null);
+    const { data } = numbers.length > 0 ? await query : { data: [] };
+    const extensions = new Map((data || []).map((e) => [e.extension_number as string, e.id as string]));
+
+    for (const { row } of rows) {
+      row.extension_id = extensions.get(row.extension_number as string) ?? null;
+      delete row.extension_number;
+    }
+  }
+
+  return rows;
+}
+
+// Renamed extensions rename their chat participants, as in the sync service.
+// Conversation names built from participant names are left as they are.
+async function renameExtensionParticipants(supabase: AdminClient, rows: Record<string, unknown>[]): Promise<void> {
+  for (const row of rows) {
+    if (!row.display_name) continue;
+    const externalName = `${row.display_name} (${row.extension_number})`;
+    const { error } = await supabase
+      .from("participants")
+      .update({ external_name: externalName })
+      .eq("extension_id", row.id as string)
+      .neq("external_name", externalName);
+    if (error) console.error("Failed to rename participants from agent extensions:", error);
+  }
+}
+
+// Policy rules see whether the conversation is external, which the message
+// rows don't carry
+async function checkMessagePolicies(
+  supabase: AdminClient,
+  tenantId: string,
+  rows: Record<string, unknown>[]
+): Promise<void> {
+  const conversationIds = Array.from(new Set(rows.map((row) => row.conversation_id as string)));
+  const { data } = await supabase
+    .from("conversations")
+    .select("id, is_external")
+    .in("id", conversationIds);
+  const external = new Set((data || []).filter((c) => c.is_external).map((c) => c.id as string));
+
+  await checkIngestedMessages(
+    supabase,
+    tenantId,
+    rows.map((row) => ({
+      id: row.id as string,
+      conversation_id: (row.conversation_id as string) ?? null,
+      content: (row.content as string) ?? null,
+      sent_at: row.sent_at as string,
+      is_external: external.has(row.conversation_id as string),
+    }))
+  );
+}
+
+// New chat senders become conversation participants, as in the sync service
+async function addSenderParticipants(supabase: AdminClient, rows: Record<string, unknown>[]): Promise<void> {
+  const senders = new Map<string, Record<string, unknown>>();
+  for (const row of rows) {
+    if (!row.sender_identifier) continue;
+    senders.set(`${row.conversation_id}:${row.sender_identifier}`, {
+      conversation_id: row.conversation_id,
+      external_id: row.sender_identifier,
+      external_name: row.sender_name ?? null,
+      participant_type: /^\d{1,6}$/.test(String(row.sender_identifier)) ? "extension" : "external",
+      joined_at: row.sent_at,
+    });
+  }
+  if (senders.size === 0) return;
+
+  const conversationIds = Array.from(new Set(rows.map((row) => row.conversation_id as string)));
+  const { data: existing } = await supabase
+    .from("participants")
+    .select("conversation_id, external_id")
+    .in("conversation_id", conversationIds);
+  for (const p of existing || []) {
+    senders.delete(`${p.conversation_id}:${p.external_id}`);
+  }
+
+  if (senders.size > 0) {
+    const { error } = await supabase.from("participants").insert(Array.from(senders.values()));
+    if (error) console.error("Failed to add participants from agent messages:", error);
+  }
+}
+
+/**
+ * Validate and write one batch for the agent's tenant and 3CX system. Invalid
+ * rows are reported by index and skipped; the rest of the batch is still
+ * written.
+ */
+export async function ingestRows(
+  supabase: AdminClient,
+  tenantId: string,
+  pbxInstanceId: string | null,
+  table: IngestTableName,
+  input: unknown[]
+): Promise<IngestResult> {
+  const spec: IngestTable = INGEST_TABLES[table];
+  const result: IngestResult = { received: input.length, written: 0, rejected: [], ids: {} };
+
+  let rows: Array<{ index: number; row: Record<string, unknown> }> = [];
+  input.forEach((item, index) => {
+    const validated = validateRow(spec, tenantId, pbxInstanceId, item);
+    if ("error" in validated) result.rejected.push({ index, error: validated.error });
+    else rows.push({ index, row: validated.row });
+  });
+
+  rows = await resolveReferences(supabase, tenantId, pbxInstanceId, table, rows, result.rejected);
+  if (rows.length === 0) return result;
+
+  if (table === "extensions") {
+    const now = new Date().toISOString();
+    for (const { row } of rows) {
+      row.display_name ??= [row.first_name, row.last_name].filter(Boolean).join(" ") || null;
+      row.last_synced_at = now;
+      row.updated_at = now;
+    }
+  }
+
+  // Conversations without a name must not blank a name the archive already has
+  const batches =
+    table === "conversations"
+      ? [
+          { rows: rows.filter(({ row }) => row.conversation_name), ignoreDuplicates: false },
+          { rows: rows.filter(({ row }) => !row.conversation_name), ignoreDuplicates: true },
+        ]
+      : [{ rows, ignoreDuplicates: spec.ignoreDuplicates }];
+
+  const written: Record<string, unknown>[] = [];
+  for (const batch of batches) {
+    if (batch.rows.length === 0) continue;
+
+    const { data, error } = await supabase
+      .from(table)
+      .upsert(
+        batch.rows.map(({ row }) => row),
+        { onConflict: spec.conflict, ignoreDuplicates: batch.ignoreDuplicates }
+      )
+      .select("*");
+
+    if (error) {
+      throw new Error(`Failed to ingest ${table}: ${error.message}`);
+    }
+    written.push(...(data || []));
+  }
+
+  result.written = written.length;
+  for (const row of written) {
+    result.ids[String(row[spec.key])] = String(row.id);
+  }
+
+  if (table === "messages") {
+    await addSenderParticipants(supabase, written);
+    await checkMessagePolicies(supabase, tenantId, written);
+  }
+
+  if (table === "extensions") {
+    await renameExtensionParticipants(supabase, written);
+  }
+
+  // CDR legs and recordings arrive in either order; link whichever side
+  // just landed to the other
+  if ((table === "call_logs" || table === "call_recordings") && written.length > 0) {
+    const starts = written.map((row) => new Date(row.started_at as string).getTime());
+    await linkIngestedRecordings(
+      supabase,
+      tenantId,
+      pbxInstanceId,
+      new Date(Math.min(...starts)),
+      new Date(Math.max(...starts))
+    );
+  }
+
+  if (spec.webhook) {
+    const { event, idField, when } = spec.webhook;
+    for (const row of written) {
+      if (when && !when(row)) continue;
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { tenant_id, storage_path, storage_backend, id, ...payload } = row;
+      const resourceId = table === "sync_status" ? null : String(id);
+      const { error } = await supabase.rpc("emit_webhook_event", {
+        p_tenant_id: tenantId,
+        p_event_type: event,
+        p_resource_id: resourceId,
+        p_payload: { [idField]: table === "sync_status" ? row.sync_type : id, ...payload },
+      });
+      if (error) console.error(`Failed to emit ${event} for agent ingest:`, error);
+    }
+  }
+
+  return result;
+}
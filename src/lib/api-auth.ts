@@ -0,0 +1,190 @@
+import crypto from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { logApiKeyAction } from "@/lib/audit";
+import { checkRateLimit, addRateLimitHeaders, rateLimitConfigs } from "@/lib/rate-limit";
+import { API_KEY_PREFIX, type ApiKeyScope } from "@/lib/api-keys";
+import { cursorFromParams, type Cursor } from "@/lib/cursor";
+import { resolveUserAccess, type UserAccess } from "@/lib/user-access";
+import { resolveRedactor } from "@/lib/redaction-access";
+import type { Redactor } from "@/lib/redaction";
+
+// ============================================
+// API KEY AUTHENTICATION
+// ============================================
+// Authenticates /api/v1 requests carrying `Authorization: Bearer bwz_...`.
+// A key acts as the user who created it: admins see the whole tenant, other
+// users get the same feature and per-extension filtering as in the dashboard.
+
+export interface ApiKeyContext {
+  keyId: string;
+  tenantId: string;
+  userId: string;
+  scopes: ApiKeyScope[];
+  access: UserAccess;
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString("hex")}`;
+  return { key, prefix: key.slice(0, 12), hash: hashApiKey(key) };
+}
+
+/**
+ * Authenticate an API key for one scope. Every successful use is written to
+ * the audit log and stamps the key's last use.
+ */
+export async function authenticateApiKey(
+  request: NextRequest,
+  scope: ApiKeyScope
+): Promise<{ context: ApiKeyContext } | { error: NextResponse }> {
+  const authHeader = request.headers.get("Authorization");
+  const token = authHeader?.startsWith("Bearer ") ? authHeader.slice(7).trim() : null;
+
+  if (!token || !token.startsWith(API_KEY_PREFIX)) {
+    return { error: NextResponse.json({ error: "Missing or malformed API key" }, { status: 401 }) };
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: key } = await supabase
+    .from("api_keys")
+    .select("id, tenant_id, user_id, scopes, expires_at, revoked_at")
+    .eq("key_hash", hashApiKey(token))
+    .maybeSingle();
+
+  if (!key || key.revoked_at) {
+    return { error: NextResponse.json({ error: "Invalid API key" }, { status: 401 }) };
+  }
+
+  if (key.expires_at && new Date(key.expires_at) <= new Date()) {
+    return { error: NextResponse.json({ error: "API key expired" }, { status: 401 }) };
+  }
+
+  const rateLimit = checkRateLimit(key.id, rateLimitConfigs.api);
+  if (!rateLimit.success) {
+    const response = NextResponse.json(
+      {
+        error: "Too many requests",
+        message: `Rate limit exceeded. Try again in ${rateLimit.retryAfter} seconds.`,
+        retryAfter: rateLimit.retryAfter,
+      },
+      { status: 429 }
+    );
+    addRateLimitHeaders(response.headers, rateLimit);
+    return { error: response };
+  }
+
+  const scopes = (key.scopes || []) as ApiKeyScope[];
+  if (!scopes.includes(scope)) {
+    return {
+      error: NextResponse.json({ error: `API key is missing the ${scope} scope` }, { status: 403 }),
+    };
+  }
+
+  const access = await resolveUserAccess(supabase, key.user_id, key.tenant_id);
+  if (!access) {
+    return {
+      error: NextResponse.json({ error: "API key owner no longer has access to this tenant" }, { status: 403 }),
+    };
+  }
+
+  const ipAddress =
+    request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    request.headers.get("x-real-ip") ||
+    null;
+
+  await Promise.all([
+    supabase
+      .from("api_keys")
+      .update({ last_used_at: new Date().toISOString(), last_used_ip: ipAddress })
+      .eq("id", key.id),
+    logApiKeyAction("api_key.used", key.id, {
+      tenantId: key.tenant_id,
+      userId: key.user_id,
+      metadata: {
+        method: request.method,
+        path: request.nextUrl.pathname,
+        query: request.nextUrl.search || null,
+        scope,
+      },
+      request,
+    }),
+  ]);
+
+  return {
+    context: {
+      keyId: key.id,
+      tenantId: key.tenant_id,
+      userId: key.user_id,
+      scopes,
+      access,
+    },
+  };
+}
+
+export interface ApiListParams {
+  limit: number;
+  cursor: Cursor | null;
+  since: string | null;
+  until: string | null;
+}
+
+/**
+ * Parse the paging and date-range parameters shared by the v1 list
+ * endpoints: limit (default 50, max 200), cursor or a jump-to date, since and
+ * until (ISO 8601).
+ */
+export function parseApiListParams(request: NextRequest): ApiListParams | { error: NextResponse } {
+  const searchParams = request.nextUrl.searchParams;
+
+  const rawLimit = parseInt(searchParams.get("limit") || "50");
+  const limit = Number.isFinite(rawLimit) && rawLimit > 0 ? Math.min(rawLimit, 200) : 50;
+
+  const cursorResult = cursorFromParams(searchParams);
+  if ("error" in cursorResult) {
+    return { error: NextResponse.json({ error: cursorResult.error }, { status: 400 }) };
+  }
+
+  const since = searchParams.get("since");
+  const until = searchParams.get("until");
+  if ((since && isNaN(Date.parse(since))) || (until && isNaN(Date.parse(until)))) {
+    return { error: NextResponse.json({ error: "since and until must be ISO 8601 timestamps" }, { status: 400 }) };
+  }
+
+  return {
+    limit,
+    cursor: cursorResult.cursor,
+    since: since ? new Date(since).toISOString() : null,
+    until: until ? new Date(until).toISOString() : null,
+  };
+}
+
+// Storage internals aren't part of the public API
+export function toApiRecord<T extends Record<string, unknown>>(row: T): Omit<T, "storage_path" | "storage_backend" | "tenant_id"> {
+  const { storage_path: _path, storage_backend: _backend, tenant_id: _tenant, ...rest } = row;
+  return rest;
+}
+
+/**
+ * The redactor for the key's owner, as in the dashboard. Only the first page
+ * of a listing is audited as unredacted access.
+ */
+export async function resolveApiRedactor(
+  supabase: ReturnType<typeof createAdminClient>,
+  context: ApiKeyContext,
+  request: NextRequest,
+  { resource, firstPage }: { resource: string; firstPage: boolean }
+): Promise<Redactor | null> {
+  return resolveRedactor(supabase, {
+    tenantId: context.tenantId,
+    userId: context.userId,
+    surface: "api",
+    logAccess: firstPage,
+    metadata: { resource, api_key_id: context.keyId },
+    request,
+  });
+}
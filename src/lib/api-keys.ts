@@ -0,0 +1,51 @@
+export const API_KEY_SCOPES = [
+  "messages:read",
+  "call_logs:read",
+  "recordings:read",
+  "voicemails:read",
+  "faxes:read",
+  "export:create",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  "messages:read": "Read conversations and messages",
+  "call_logs:read": "Read call logs",
+  "recordings:read": "Read call recordings",
+  "voicemails:read": "Read voicemails",
+  "faxes:read": "Read faxes",
+  "export:create": "Request archive exports",
+};
+
+export interface ApiKey {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  expires_at: string | null;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+// The key hash never leaves the server
+export const API_KEY_COLUMNS =
+  "id, tenant_id, user_id, name, key_prefix, scopes, expires_at, last_used_at, last_used_ip, revoked_at, created_at";
+
+export const API_KEY_PREFIX = "bwz_";
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === "string" && (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+// Parse a scope list from a request body. Returns null if any entry is unknown.
+export function parseApiKeyScopes(value: unknown): ApiKeyScope[] | null {
+  if (!Array.isArray(value) || !value.every(isApiKeyScope)) {
+    return null;
+  }
+  return Array.from(new Set(value));
+}
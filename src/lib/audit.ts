@@ -14,6 +14,11 @@ export type AuditAction =
   | "tenant.updated"
   | "tenant.deactivated"
   | "tenant.activated"
+  | "tenant.deleted"
+  // PBX instance actions
+  | "pbx_instance.created"
+  | "pbx_instance.updated"
+  | "pbx_instance.deleted"
   // Subscription/billing actions
   | "plan.changed"
   | "payment.succeeded"
@@ -23,9 +28,64 @@ export type AuditAction =
   // Settings actions
   | "settings.updated"
   | "smtp.updated"
+  | "notification_channel.updated"
+  | "notification_channel.removed"
   | "storage_plan.created"
   | "storage_plan.updated"
   | "storage_plan.deleted"
+  // Retention actions
+  | "retention.updated"
+  | "retention.previewed"
+  | "retention.cleanup_triggered"
+  | "retention.purged"
+  // Legal hold actions
+  | "legal_hold.created"
+  | "legal_hold.released"
+  | "legal_hold.deletion_blocked"
+  // Export actions
+  | "export.requested"
+  | "export.downloaded"
+  | "export.completed"
+  | "export.failed"
+  // Integrity actions
+  | "integrity.requested"
+  | "integrity.verified"
+  | "integrity.failed"
+  // Reconciliation actions
+  | "reconciliation.requested"
+  | "reconciliation.backfill_requested"
+  | "reconciliation.backfilled"
+  | "backfill.requested"
+  | "backfill.cancelled"
+  | "backfill.resumed"
+  // Sync job actions
+  | "sync_job.retried"
+  // Webhook actions
+  | "webhook.created"
+  | "webhook.updated"
+  | "webhook.deleted"
+  | "webhook.secret_rotated"
+  | "webhook.redelivered"
+  // API key actions
+  | "api_key.created"
+  | "api_key.revoked"
+  | "api_key.used"
+  // Policy monitoring actions
+  | "policy_rule.created"
+  | "policy_rule.updated"
+  | "policy_rule.deleted"
+  | "policy_flag.reviewed"
+  | "policy_flag.escalated"
+  | "policy_flag.reopened"
+  | "policy_flag.noted"
+  // PII redaction actions
+  | "redaction.settings_updated"
+  | "redaction.unredacted_access"
+  // Sync agents
+  | "agent.command_queued"
+  | "agent_release.created"
+  | "agent_release.updated"
+  | "agent_diagnostics.downloaded"
   // Auth actions
   | "login.success"
   | "login.failed"
@@ -35,10 +95,27 @@ export type AuditAction =
 export type AuditEntityType =
   | "user"
   | "tenant"
+  | "pbx_instance"
   | "subscription"
   | "billing"
   | "settings"
   | "storage_plan"
+  | "retention_policy"
+  | "legal_hold"
+  | "export_job"
+  | "integrity_verification"
+  | "reconciliation_run"
+  | "reconciliation_diff"
+  | "backfill_job"
+  | "sync_job"
+  | "webhook_endpoint"
+  | "api_key"
+  | "policy_rule"
+  | "policy_flag"
+  | "redaction"
+  | "sync_agent"
+  | "agent_release"
+  | "agent_diagnostics"
   | "auth";
 
 export interface AuditLogParams {
@@ -139,6 +216,22 @@ export function logTenantAction(
   });
 }
 
+/**
+ * Helper to create audit log for a tenant's PBX instances
+ */
+export function logPbxInstanceAction(
+  action: Extract<AuditAction, `pbx_instance.${string}`>,
+  instanceId: string,
+  params: Omit<AuditLogParams, "action" | "entityType" | "entityId">
+): Promise<void> {
+  return logAuditEvent({
+    ...params,
+    action,
+    entityType: "pbx_instance",
+    entityId: instanceId,
+  });
+}
+
 /**
  * Helper to create audit log for billing/subscription actions
  */
@@ -157,7 +250,10 @@ export function logBillingAction(
  * Helper to create audit log for settings actions
  */
 export function logSettingsAction(
-  action: Extract<AuditAction, `settings.${string}` | `smtp.${string}` | `storage_plan.${string}`>,
+  action: Extract<
+    AuditAction,
+    `settings.${string}` | `smtp.${string}` | `notification_channel.${string}` | `storage_plan.${string}`
+  >,
   params: Omit<AuditLogParams, "action" | "entityType">
 ): Promise<void> {
   return logAuditEvent({
@@ -167,6 +263,200 @@ export function logSettingsAction(
   });
 }
 
+/**
+ * Helper to create audit log for retention policy actions
+ */
+export function logRetentionAction(
+  action: Extract<AuditAction, `retention.${string}`>,
+  params: Omit<AuditLogParams, "action" | "entityType">
+): Promise<void> {
+  return logAuditEvent({
+    ...params,
+    action,
+    entityType: "retention_policy",
+  });
+}
+
+/**
+ * Helper to create audit log for legal hold actions
+ */
+export function logLegalHoldAction(
+  action: Extract<AuditAction, `legal_hold.${string}`>,
+  holdId: string | undefined,
+  params: Omit<AuditLogParams, "action" | "entityType" | "entityId">
+): Promise<void> {
+  return logAuditEvent({
+    ...params,
+    action,
+    entityType: "legal_hold",
+    entityId: holdId,
+  });
+}
+
+/**
+ * Helper to create audit log for archive export actions
+ */
+export function logExportAction(
+  action: Extract<AuditAction, `export.${string}`>,
+  jobId: string,
+  params: Omit<AuditLogParams, "action" | "entityType" | "entityId">
+): Promise<void> {
+  return logAuditEvent({
+    ...params,
+    action,
+    entityType: "export_job",
+    entityId: jobId,
+  });
+}
+
+/**
+ * Helper to create audit log for integrity verification actions
+ */
+export function logIntegrityAction(
+  action: Extract<AuditAction, `integrity.${string}`>,
+  verificationId: string,
+  params: Omit<AuditLogParams, "action" | "entityType" | "entityId">
+): Promise<void> {
+  return logAuditEvent({
+    ...params,
+    action,
+    entityType: "integrity_verification",
+    entityId: verificationId,
+  });
+}
+
+/**
+ * Helper to create audit log for reconciliation actions
+ */
+export function logReconciliationAction(
+  action: Extract<AuditAction, `reconciliation.${string}`>,
+  entityType: Extract<AuditEntityType, `reconciliation_${string}`>,
+  entityId: string,
+  params: Omit<AuditLogParams, "action" | "entityType" | "entityId">
+): Promise<void> {
+  return logAuditEvent({
+    ...params,
+    action,
+    entityType,
+    entityId,
+  });
+}
+
+/**
+ * Helper to create audit log for backfill job actions
+ */
+export function logBackfillAction(
+  action: Extract<AuditAction, `backfill.${string}`>,
+  jobId: string,
+  params: Omit<AuditLogParams, "action" | "entityType" | "entityId">
+): Promise<void> {
+  return logAuditEvent({
+    ...params,
+    action,
+    entityType: "backfill_job",
+    entityId: jobId,
+  });
+}
+
+/**
+ * Helper to create audit log for sync job actions
+ */
+export function logSyncJobAction(
+  action: Extract<AuditAction, `sync_job.${string}`>,
+  jobId: string,
+  params: Omit<AuditLogParams, "action" | "entityType" | "entityId">
+): Promise<void> {
+  return logAuditEvent({
+    ...params,
+    action,
+    entityType: "sync_job",
+    entityId: jobId,
+  });
+}
+
+/**
+ * Helper to create audit log for webhook actions
+ */
+export function logWebhookAction(
+  action: Extract<AuditAction, `webhook.${string}`>,
+  endpointId: string,
+  params: Omit<AuditLogParams, "action" | "entityType" | "entityId">
+): Promise<void> {
+  return logAuditEvent({
+    ...params,
+    action,
+    entityType: "webhook_endpoint",
+    entityId: endpointId,
+  });
+}
+
+/**
+ * Helper to create audit log for API key actions
+ */
+export function logApiKeyAction(
+  action: Extract<AuditAction, `api_key.${string}`>,
+  keyId: string,
+  params: Omit<AuditLogParams, "action" | "entityType" | "entityId">
+): Promise<void> {
+  return logAuditEvent({
+    ...params,
+    action,
+    entityType: "api_key",
+    entityId: keyId,
+  });
+}
+
+/**
+ * Helper to create audit log for policy rule and review queue actions
+ */
+export function logPolicyAction(
+  action: Extract<AuditAction, `policy_rule.${string}` | `policy_flag.${string}`>,
+  entityId: string,
+  params: Omit<AuditLogParams, "action" | "entityType" | "entityId">
+): Promise<void> {
+  return logAuditEvent({
+    ...params,
+    action,
+    entityType: action.startsWith("policy_rule.") ? "policy_rule" : "policy_flag",
+    entityId,
+  });
+}
+
+/**
+ * Helper to create audit log for redaction settings and unredacted data access
+ */
+export function logRedactionAction(
+  action: Extract<AuditAction, `redaction.${string}`>,
+  params: Omit<AuditLogParams, "action" | "entityType">
+): Promise<void> {
+  return logAuditEvent({
+    ...params,
+    action,
+    entityType: "redaction",
+  });
+}
+
+/**
+ * Helper to create audit log for sync agent commands, agent releases and
+ * diagnostics bundles
+ */
+export function logAgentAction(
+  action: Extract<AuditAction, `agent.${string}` | `agent_release.${string}` | `agent_diagnostics.${string}`>,
+  entityId: string,
+  params: Omit<AuditLogParams, "action" | "entityType" | "entityId">
+): Promise<void> {
+  return logAuditEvent({
+    ...params,
+    action,
+    entityType: action.startsWith("agent_release.")
+      ? "agent_release"
+      : action.startsWith("agent_diagnostics.")
+        ? "agent_diagnostics"
+        : "sync_agent",
+    entityId,
+  });
+}
+
 /**
  * Helper to create audit log for auth actions
  */
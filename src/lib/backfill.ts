@@ -0,0 +1,75 @@
+export const BACKFILL_SYNC_TYPES = [
+  "messages",
+  "cdr",
+  "recordings",
+  "voicemails",
+  "faxes",
+  "meetings",
+  "media",
+  "extensions",
+] as const;
+
+export type BackfillSyncType = (typeof BACKFILL_SYNC_TYPES)[number];
+
+// Chat media and extensions are full directory/table scans with no dates, so
+// their backfills ignore the range and run as a single chunk
+export const UNDATED_BACKFILL_SYNC_TYPES: readonly BackfillSyncType[] = ["media", "extensions"];
+
+export interface BackfillJob {
+  id: string;
+  tenant_id: string;
+  requested_by: string | null;
+  sync_type: BackfillSyncType;
+  status: "queued" | "running" | "completed" | "failed" | "cancelled";
+  start_at: string;
+  end_at: string;
+  chunk_hours: number;
+  cursor_at: string | null;
+  chunks_completed: number;
+  items_synced: number;
+  item_errors: number;
+  consecutive_failures: number;
+  last_error: string | null;
+  locked_until: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const DEFAULT_BACKFILL_CHUNK_HOURS = 24;
+export const MAX_BACKFILL_CHUNK_HOURS = 720;
+
+export function isBackfillSyncType(value: unknown): value is BackfillSyncType {
+  return typeof value === "string" && (BACKFILL_SYNC_TYPES as readonly string[]).includes(value);
+}
+
+// Share of the range already behind the checkpoint, 0-100
+export function backfillProgress(job: Pick<BackfillJob, "start_at" | "end_at" | "cursor_at" | "status">): number {
+  if (job.status === "completed") return 100;
+  if (!job.cursor_at) return 0;
+  const start = new Date(job.start_at).getTime();
+  const total = new Date(job.end_at).getTime() - start;
+  if (total <= 0) return 0;
+  return Math.min(100, Math.max(0, Math.round(((new Date(job.cursor_at).getTime() - start) / total) * 100)));
+}
+
+/**
+ * Ask the sync service to start on queued backfills right away.
+ * Best effort: the service also works through the queue every minute.
+ */
+export async function kickBackfillQueue(): Promise<void> {
+  const syncServiceUrl = process.env.SYNC_SERVICE_URL || "http://localhost:3001";
+  const syncAuthToken = process.env.SYNC_AUTH_TOKEN;
+  if (!syncAuthToken) return;
+
+  try {
+    await fetch(`${syncServiceUrl}/backfill`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${syncAuthToken}` },
+      signal: AbortSignal.timeout(5000),
+    });
+  } catch (error) {
+    console.error("Could not reach sync service to start backfill:", error);
+  }
+}
@@ -0,0 +1,258 @@
+import { createAdminClient } from "@/lib/supabase/admin";
+import { hasExtensionGrant, type UserAccess } from "@/lib/user-access";
+
+// ============================================
+// CALL DETAIL
+// ============================================
+// Everything about one call for the call detail view: every CDR leg of the
+// call (legs share call_group_id - queue attempts, transfers, forwards), the
+// recordings the sync service linked to those legs (see
+// sync-service/src/sync/call-linking.ts), and any voicemail the caller left.
+// Without a call_group_id the call is its own single leg. 3CX call ids and
+// extension numbers are only unique within one 3CX system, so everything is
+// looked up on the opened leg's system.
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+// A voicemail belongs to the call if it arrives from the caller this soon
+// after the last leg ends
+const VOICEMAIL_GRACE_MS = 5 * 60_000;
+
+const LEG_COLUMNS =
+  "id, threecx_call_id, call_group_id, call_type, direction, caller_number, caller_name, callee_number, callee_name, " +
+  "extension_number, queue_name, status, ring_duration_seconds, duration_seconds, started_at, answered_at, ended_at, " +
+  "has_recording, recording_id, recording_match, pbx_instance_id";
+
+export interface CallLeg {
+  id: string;
+  threecx_call_id: string | null;
+  call_group_id: string | null;
+  call_type: string | null;
+  direction: string | null;
+  caller_number: string | null;
+  caller_name: string | null;
+  callee_number: string | null;
+  callee_name: string | null;
+  extension_number: string | null;
+  queue_name: string | null;
+  status: string | null;
+  ring_duration_seconds: number | null;
+  duration_seconds: number | null;
+  started_at: string;
+  answered_at: string | null;
+  ended_at: string | null;
+  has_recording: boolean;
+  recording_id: string | null;
+  recording_match: "call_id" | "overlap" | null;
+  pbx_instance_id: string | null;
+}
+
+export interface CallLegTiming {
+  ring_seconds: number;
+  talk_seconds: number;
+}
+
+export interface CallDetailRecording {
+  id: string;
+  leg_ids: string[];
+  file_name: string | null;
+  caller_number: string | null;
+  callee_number: string | null;
+  duration_seconds: number | null;
+  started_at: string;
+  pbx_instance_id: string | null;
+}
+
+export interface CallDetailVoicemail {
+  id: string;
+  caller_number: string | null;
+  caller_name: string | null;
+  extension_number: string | null;
+  duration_seconds: number | null;
+  transcription: string | null;
+  received_at: string;
+}
+
+export interface CallSummary {
+  direction: string | null;
+  caller_number: string | null;
+  caller_name: string | null;
+  callee_number: string | null;
+  callee_name: string | null;
+  queue_name: string | null;
+  extensions: string[];
+  answered: boolean;
+  started_at: string;
+  ended_at: string | null;
+  wait_seconds: number; // start of the call until first answered (or the whole call)
+  talk_seconds: number; // summed over legs
+  total_seconds: number;
+}
+
+export interface CallDetail {
+  call_id: string; // the leg that was opened
+  call_group_id: string | null;
+  summary: CallSummary;
+  legs: Array<CallLeg & CallLegTiming>;
+  recordings: CallDetailRecording[];
+  recordings_hidden: number; // linked, but the user may not play them
+  voicemails: CallDetailVoicemail[];
+}
+
+function seconds(from: string | null, to: string | null): number {
+  if (!from || !to) return 0;
+  return Math.max(0, Math.round((new Date(to).getTime() - new Date(from).getTime()) / 1000));
+}
+
+function legTiming(leg: CallLeg): CallLegTiming {
+  const answered = !!leg.answered_at;
+  return {
+    ring_seconds: leg.ring_duration_seconds ?? seconds(leg.started_at, leg.answered_at ?? leg.ended_at),
+    talk_seconds: answered ? seconds(leg.answered_at, leg.ended_at) || (leg.duration_seconds ?? 0) : 0,
+  };
+}
+
+// Extensions compare exactly; external numbers on their last 9 digits
+function sameNumber(a: string | null, b: string | null): boolean {
+  const da = (a || "").replace(/\D/g, "");
+  const db = (b || "").replace(/\D/g, "");
+  if (!da || !db) return false;
+  if (da.length <= 6 || db.length <= 6) return da === db;
+  return da.slice(-9) === db.slice(-9);
+}
+
+function summarize(legs: CallLeg[], timings: CallLegTiming[]): CallSummary {
+  const first = legs[0];
+  const endedAt = legs.reduce<string | null>(
+    (latest, leg) => (leg.ended_at && (!latest || leg.ended_at > latest) ? leg.ended_at : latest),
+    null
+  );
+  const firstAnswer = legs
+    .map((leg) => leg.answered_at)
+    .filter((at): at is string => !!at)
+    .sort()[0];
+  const totalSeconds = seconds(first.started_at, endedAt);
+
+  return {
+    direction: first.direction,
+    caller_number: first.caller_number,
+    caller_name: first.caller_name,
+    callee_number: first.callee_number,
+    callee_name: first.callee_name,
+    queue_name: legs.find((leg) => leg.queue_name)?.queue_name ?? null,
+    extensions: Array.from(new Set(legs.map((leg) => leg.extension_number).filter((n): n is string => !!n))),
+    answered: !!firstAnswer || legs.some((leg) => leg.status === "answered"),
+    started_at: first.started_at,
+    ended_at: endedAt,
+    wait_seconds: firstAnswer ? seconds(first.started_at, firstAnswer) : totalSeconds,
+    talk_seconds: timings.reduce((sum, t) => sum + t.talk_seconds, 0),
+    total_seconds: totalSeconds,
+  };
+}
+
+/**
+ * Load the call containing leg `callId`, or null if there is no such leg in
+ * the tenant. Recordings and voicemails are limited to what `access` allows.
+ */
+export async function getCallDetail(
+  supabase: AdminClient,
+  tenantId: string,
+  callId: string,
+  access: UserAccess
+): Promise<CallDetail | null> {
+  const { data: opened } = await supabase
+    .from("call_logs")
+    .select(LEG_COLUMNS)
+    .eq("tenant_id", tenantId)
+    .eq("id", callId)
+    .maybeSingle();
+
+  if (!opened) return null;
+  const call = opened as unknown as CallLeg;
+
+  let legs: CallLeg[] = [call];
+  if (call.call_group_id) {
+    const { data } = await supabase
+      .from("call_logs")
+      .select(LEG_COLUMNS)
+      .eq("tenant_id", tenantId)
+      .filter("pbx_instance_id", call.pbx_instance_id ? "eq" : "is", call.pbx_instance_id)
+      .eq("call_group_id", call.call_group_id)
+      .order("started_at", { ascending: true })
+      .order("id", { ascending: true })
+      .limit(100);
+    if (data && data.length > 0) legs = data as unknown as CallLeg[];
+  }
+
+  const timings = legs.map(legTiming);
+  const summary = summarize(legs, timings);
+
+  // Recordings, each with the legs it was linked to
+  const legsByRecording = new Map<string, string[]>();
+  for (const leg of legs) {
+    if (leg.recording_id) {
+      legsByRecording.set(leg.recording_id, [...(legsByRecording.get(leg.recording_id) || []), leg.id]);
+    }
+  }
+
+  let recordings: CallDetailRecording[] = [];
+  let recordingsHidden = 0;
+  if (legsByRecording.size > 0) {
+    if (!access.canViewRecordings) {
+      recordingsHidden = legsByRecording.size;
+    } else {
+      const { data } = await supabase
+        .from("call_recordings")
+        .select("id, file_name, caller_number, callee_number, duration_seconds, started_at, pbx_instance_id")
+        .eq("tenant_id", tenantId)
+        .in("id", Array.from(legsByRecording.keys()))
+        .order("started_at", { ascending: true });
+
+      // Same rule as the recordings list: the extension is the recording's caller_number
+      const permitted = (data || []).filter((r) =>
+        hasExtensionGrant(access, r.pbx_instance_id, r.caller_number, { recordings: true })
+      );
+      recordingsHidden = legsByRecording.size - permitted.length;
+      recordings = permitted.map((r) => ({
+        ...(r as Omit<CallDetailRecording, "leg_ids">),
+        leg_ids: legsByRecording.get(r.id as string) || [],
+      }));
+    }
+  }
+
+  // Voicemails from the outside party during or just after the call
+  let voicemails: CallDetailVoicemail[] = [];
+  const outsideParty = summary.direction === "outbound" ? summary.callee_number : summary.caller_number;
+  if (access.canViewVoicemails && outsideParty) {
+    const windowEnd = new Date(
+      new Date(summary.ended_at ?? summary.started_at).getTime() + VOICEMAIL_GRACE_MS
+    ).toISOString();
+
+    const { data } = await supabase
+      .from("voicemails")
+      .select("id, caller_number, caller_name, extension_number, duration_seconds, transcription, received_at")
+      .eq("tenant_id", tenantId)
+      .filter("pbx_instance_id", call.pbx_instance_id ? "eq" : "is", call.pbx_instance_id)
+      .like("threecx_voicemail_id", "vmail_%")
+      .gte("received_at", summary.started_at)
+      .lte("received_at", windowEnd)
+      .order("received_at", { ascending: true })
+      .limit(20);
+
+    voicemails = ((data || []) as CallDetailVoicemail[]).filter(
+      (vm) =>
+        sameNumber(vm.caller_number, outsideParty) &&
+        (!vm.extension_number || hasExtensionGrant(access, call.pbx_instance_id, vm.extension_number))
+    );
+  }
+
+  return {
+    call_id: call.id,
+    call_group_id: call.call_group_id,
+    summary,
+    legs: legs.map((leg, i) => ({ ...leg, ...timings[i] })),
+    recordings,
+    recordings_hidden: recordingsHidden,
+    voicemails,
+  };
+}
@@ -0,0 +1,196 @@
+import { createAdminClient } from "@/lib/supabase/admin";
+
+// ============================================
+// CALL RECORDING LINKING ON AGENT INGEST
+// ============================================
+// Links recordings to their CDR legs (call_logs.recording_id) for rows that
+// installed sync agents send through /api/agent/ingest. Same matching as
+// sync-service/src/sync/call-linking.ts - keep the two in step:
+//   call_id - the recording carries the 3CX call id (V20): the legs of that
+//             call with the recorded extension, else the legs it overlaps
+//   overlap - legs overlapping the recording that share its extension and
+//             remote number, else the best-overlapping leg of the extension
+// Only the time window of the ingested batch is checked. A leg keeps the
+// first recording linked to it, and recordings only link to legs of the
+// same 3CX system.
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+type RecordingMatchMethod = "call_id" | "overlap";
+
+const PAGE_SIZE = 500;
+// Clock skew tolerated between CDR and recording timestamps
+const SKEW_MS = 5_000;
+// Legs start ringing (and queueing) before the recording starts
+const LEG_MARGIN_MS = 30 * 60_000;
+
+interface RecordingRow {
+  id: string;
+  call_group_id: string | null;
+  extension_number: string | null;
+  caller_number: string | null;
+  callee_number: string | null;
+  started_at: string;
+  ended_at: string | null;
+  duration_seconds: number | null;
+}
+
+interface CallLegRow extends RecordingRow {
+  recording_id: string | null;
+}
+
+function digits(value: string | null): string {
+  return (value || "").replace(/\D/g, "");
+}
+
+// Internal extensions are short digit strings (101, 9001)
+function isExtension(value: string | null): boolean {
+  return /^\d{1,6}$/.test((value || "").trim());
+}
+
+// Extensions compare exactly; external numbers on their last 9 digits
+function sameNumber(a: string | null, b: string | null): boolean {
+  const da = digits(a);
+  const db = digits(b);
+  if (!da || !db) return false;
+  if (da.length <= 6 || db.length <= 6) return da === db;
+  return da.slice(-9) === db.slice(-9);
+}
+
+type Span = [number, number];
+
+function span(start: string, end: string | null, durationSeconds: number | null): Span {
+  const from = new Date(start).getTime();
+  const to = end ? new Date(end).getTime() : from + (durationSeconds ?? 0) * 1000;
+  return [from, Math.max(from, to)];
+}
+
+function overlapMs(a: Span, b: Span): number {
+  return Math.min(a[1], b[1] + SKEW_MS) - Math.max(a[0], b[0] - SKEW_MS);
+}
+
+function matchRecording(
+  recording: RecordingRow,
+  legs: CallLegRow[]
+): { legIds: string[]; method: RecordingMatchMethod } | null {
+  const recorded = span(recording.started_at, recording.ended_at, recording.duration_seconds);
+  const numbers = [recording.caller_number, recording.callee_number];
+  const local = recording.extension_number || numbers.find(isExtension) || null;
+  const remote = numbers.find((n) => !!n && !sameNumber(n, local)) || null;
+
+  const hasLocal = (leg: CallLegRow) =>
+    !!local && [leg.extension_number, leg.caller_number, leg.callee_number].some((n) => sameNumber(n, local));
+  const hasRemote = (leg: CallLegRow) =>
+    !!remote && [leg.caller_number, leg.callee_number].some((n) => sameNumber(n, remote));
+  const overlap = (leg: CallLegRow) => overlapMs(recorded, span(leg.started_at, leg.ended_at, leg.duration_seconds));
+
+  const open = legs.filter((leg) => !leg.recording_id);
+
+  if (recording.call_group_id) {
+    const call = open.filter((leg) => leg.call_group_id === recording.call_group_id);
+    const own = call.filter(hasLocal);
+    const picked = own.length > 0 ? own : call.filter((leg) => overlap(leg) > 0);
+    if (picked.length > 0) {
+      return { legIds: picked.map((leg) => leg.id), method: "call_id" };
+    }
+  }
+
+  const overlapping = open.filter((leg) => overlap(leg) > 0);
+  const exact = overlapping.filter((leg) =>
+    local && remote ? hasLocal(leg) && hasRemote(leg) : hasLocal(leg) || hasRemote(leg)
+  );
+  if (exact.length > 0) {
+    return { legIds: exact.map((leg) => leg.id), method: "overlap" };
+  }
+
+  const best = overlapping
+    .filter(hasLocal)
+    .sort((a, b) => overlap(b) - overlap(a))[0];
+  return best ? { legIds: [best.id], method: "overlap" } : null;
+}
+
+/**
+ * Link the recordings around a batch of ingested call legs or recordings
+ * (started between `from` and `to`) to their legs. Never throws: linking is
+ * best effort and is retried by the next batch covering the same window.
+ * Returns how many recordings were linked.
+ */
+export async function linkIngestedRecordings(
+  supabase: AdminClient,
+  tenantId: string,
+  pbxInstanceId: string | null,
+  from: Date,
+  to: Date
+): Promise<number> {
+  let linked = 0;
+
+  try {
+    // Recordings start after their legs, so look past the end of the batch
+    let recordingsQuery = supabase
+      .from("call_recordings")
+      .select("id, call_group_id, extension_number, caller_number, callee_number, started_at, ended_at, duration_seconds")
+      .eq("tenant_id", tenantId)
+      .gte("started_at", new Date(from.getTime() - SKEW_MS).toISOString())
+      .lte("started_at", new Date(to.getTime() + LEG_MARGIN_MS).toISOString())
+      .order("started_at", { ascending: true })
+      .limit(PAGE_SIZE);
+    recordingsQuery = pbxInstanceId
+      ? recordingsQuery.eq("pbx_instance_id", pbxInstanceId)
+      : recordingsQuery.is("pbx_instance_id", null);
+    const { data: recordings, error: recordingsError } = await recordingsQuery;
+
+    if (recordingsError) throw recordingsError;
+    if (!recordings || recordings.length === 0) return 0;
+
+    const spans = (recordings as RecordingRow[]).map((r) => span(r.started_at, r.ended_at, r.duration_seconds));
+    let legsQuery = supabase
+      .from("call_logs")
+      .select("id, call_group_id, extension_number, caller_number, callee_number, started_at, ended_at, duration_seconds, recording_id")
+      .eq("tenant_id", tenantId)
+      .gte("started_at", new Date(Math.min(...spans.map((s) => s[0])) - LEG_MARGIN_MS).toISOString())
+      .lte("started_at", new Date(Math.max(...spans.map((s) => s[1])) + SKEW_MS).toISOString())
+      .order("started_at", { ascending: true })
+      .limit(5000);
+    legsQuery = pbxInstanceId ? legsQuery.eq("pbx_instance_id", pbxInstanceId) : legsQuery.is("pbx_instance_id", null);
+    const { data: legRows, error: legsError } = await legsQuery;
+
+    if (legsError) throw legsError;
+    const legs = (legRows || []) as CallLegRow[];
+    const linkedRecordings = new Set(legs.map((leg) => leg.recording_id).filter(Boolean));
+
+    for (const recording of recordings as RecordingRow[]) {
+      if (linkedRecordings.has(recording.id)) continue;
+
+      const match = matchRecording(recording, legs);
+      if (!match) continue;
+
+      const { data, error } = await supabase
+        .from("call_logs")
+        .update({
+          recording_id: recording.id,
+          has_recording: true,
+          recording_match: match.method,
+          recording_linked_at: new Date().toISOString(),
+        })
+        .in("id", match.legIds)
+        .is("recording_id", null)
+        .select("id");
+
+      if (error) {
+        console.error("Failed to link ingested recording to call:", error);
+        continue;
+      }
+      if (!data || data.length === 0) continue;
+
+      // Later recordings in this batch see these legs as taken
+      for (const leg of legs) {
+        if (match.legIds.includes(leg.id)) leg.recording_id = recording.id;
+      }
+      linked++;
+    }
+  } catch (error) {
+    console.error("Call recording linking on agent ingest failed:", error);
+  }
+
+  return linked;
+}
@@ -0,0 +1,181 @@
+// ============================================
+// KEYSET CURSORS
+// ============================================
+// Opaque cursors for newest-first lists ordered by (timestamp, id). Unlike
+// page/offset, a cursor keeps its place while sync inserts new rows and
+// doesn't get slower the deeper a client pages.
+//
+// A "next" cursor continues towards older rows; a "prev" cursor fetches rows
+// newer than the first one a client has, e.g. to scroll back up after jumping
+// to a date or to pick up rows synced since the page loaded.
+
+export type CursorDirection = "next" | "prev";
+
+export interface Cursor {
+  t: string; // timestamp of the row the cursor points at
+  id: string; // id of that row, breaks timestamp ties
+  dir: CursorDirection;
+}
+
+// Sorts before every real id, so a date cursor matches no row at its exact instant
+const MIN_UUID = "00000000-0000-0000-0000-000000000000";
+
+// Cursor fields are interpolated into PostgREST filters, so only accept the
+// shapes the database hands out: uuids and ISO 8601 timestamps
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d{1,6})?)?(Z|[+-]\d{2}(:?\d{2})?)?$/;
+
+function isCursorId(value: unknown): value is string {
+  return typeof value === "string" && UUID_PATTERN.test(value);
+}
+
+function isCursorTimestamp(value: unknown): value is string {
+  return typeof value === "string" && TIMESTAMP_PATTERN.test(value) && !isNaN(Date.parse(value));
+}
+
+export function encodeCursor(timestamp: string, id: string, dir: CursorDirection = "next"): string {
+  return Buffer.from(JSON.stringify({ t: timestamp, id, dir })).toString("base64url");
+}
+
+export function decodeCursor(value: string | null): Cursor | null {
+  if (!value) return null;
+
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (!isCursorTimestamp(parsed?.t) || !isCursorId(parsed?.id)) {
+      return null;
+    }
+    return { t: parsed.t, id: parsed.id, dir: parsed.dir === "prev" ? "prev" : "next" };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A "next" cursor positioned at the end of a calendar day (YYYY-MM-DD, UTC):
+ * the first page holds that day's newest rows and everything older.
+ */
+export function cursorForDate(date: string): Cursor | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+
+  const start = new Date(`${date}T00:00:00.000Z`);
+  if (isNaN(start.getTime())) return null;
+
+  const nextDay = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+  return { t: nextDay.toISOString(), id: MIN_UUID, dir: "next" };
+}
+
+/**
+ * Read `cursor` or, failing that, a jump-to `date` from list query params.
+ */
+export function cursorFromParams(searchParams: URLSearchParams): { cursor: Cursor | null } | { error: string } {
+  const cursorParam = searchParams.get("cursor");
+  if (cursorParam) {
+    const cursor = decodeCursor(cursorParam);
+    return cursor ? { cursor } : { error: "Invalid cursor" };
+  }
+
+  const date = searchParams.get("date");
+  if (date) {
+    const cursor = cursorForDate(date);
+    return cursor ? { cursor } : { error: "date must be YYYY-MM-DD" };
+  }
+
+  return { cursor: null };
+}
+
+/**
+ * Sort order for a keyset query. "prev" pages are read oldest-first from the
+ * cursor and flipped back by `paginate`. Apply to both the timestamp and id.
+ */
+export function cursorOrder(cursor: Cursor | null): { ascending: boolean } {
+  return { ascending: cursor?.dir === "prev" };
+}
+
+/**
+ * PostgREST `or` filter selecting rows after the cursor in its direction:
+ * older than it for "next", newer for "prev".
+ */
+export function keysetFilter(column: string, cursor: Cursor): string {
+  if (!isCursorTimestamp(cursor.t) || !isCursorId(cursor.id)) {
+    throw new Error("Invalid cursor");
+  }
+
+  const op = cursor.dir === "prev" ? "gt" : "lt";
+  return `${column}.${op}."${cursor.t}",and(${column}.eq."${cursor.t}",id.${op}.${cursor.id})`;
+}
+
+export interface CursorPage<T> {
+  data: T[];
+  next_cursor: string | null; // older rows, null at the end of the list
+  prev_cursor: string | null; // rows newer than the first one returned
+  has_more: boolean; // there are older rows
+  has_newer: boolean; // newer rows are known to exist
+}
+
+/**
+ * Trim a page fetched with limit + 1 rows (in `cursorOrder`) and build the
+ * cursors either side of it. Data is always returned newest-first.
+ */
+export function paginate<T extends { id: string }>(
+  rows: T[],
+  limit: number,
+  column: keyof T & string,
+  cursor: Cursor | null = null
+): CursorPage<T> {
+  const overflow = rows.length > limit;
+  const isPrev = cursor?.dir === "prev";
+  const data = isPrev ? rows.slice(0, limit).reverse() : rows.slice(0, limit);
+  const first = data[0];
+  const last = data[data.length - 1];
+
+  // Paging backwards, the rows we came from are still below; paging forwards
+  // from a cursor, the rows before it are still above
+  const hasMore = isPrev ? !!last : overflow;
+  const hasNewer = isPrev ? overflow : !!cursor;
+
+  return {
+    data,
+    next_cursor: hasMore && last ? encodeCursor(String(last[column]), last.id) : null,
+    prev_cursor: first ? encodeCursor(String(first[column]), first.id, "prev") : null,
+    has_more: hasMore,
+    has_newer: hasNewer,
+  };
+}
+
+// ============================================
+// RANKED CURSORS
+// ============================================
+// Relevance-ordered lists (search) sort by rank, then timestamp, then id, all
+// descending, and only ever page forwards.
+
+export interface RankCursor {
+  r: number; // rank of the last row returned
+  t: string; // its timestamp (epoch when the row has none)
+  id: string;
+}
+
+export function encodeRankCursor(rank: number, timestamp: string | null, id: string): string {
+  return Buffer.from(
+    JSON.stringify({ r: rank, t: timestamp ?? new Date(0).toISOString(), id })
+  ).toString("base64url");
+}
+
+export function decodeRankCursor(value: string | null): RankCursor | null {
+  if (!value) return null;
+
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (
+      typeof parsed?.r !== "number" ||
+      !Number.isFinite(parsed.r) ||
+      !isCursorTimestamp(parsed?.t) ||
+      !isCursorId(parsed?.id)
+    ) {
+      return null;
+    }
+    return { r: parsed.r, t: parsed.t, id: parsed.id };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * RFC 5322 / MIME rendering for eDiscovery exports.
+ *
+ * Chat messages, voicemails and faxes are rendered as email messages so they
+ * can be loaded into review tools that ingest EML and MBOX. PBX identities
+ * (extensions, phone numbers) have no mailbox, so addresses are synthesised
+ * under EXPORT_EMAIL_DOMAIN and the display name carries the real identity.
+ */
+
+import { randomBytes } from "crypto";
+
+const EXPORT_EMAIL_DOMAIN = process.env.EXPORT_EMAIL_DOMAIN || "backupwiz.invalid";
+
+const CRLF = "\r\n";
+
+export interface EmailAddress {
+  name: string | null;
+  identifier: string;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface EmailMessage {
+  messageId: string;
+  from: EmailAddress;
+  to: EmailAddress[];
+  subject: string;
+  date: Date;
+  text: string;
+  attachments?: EmailAttachment[];
+  inReplyTo?: string;
+  references?: string[];
+  headers?: Record<string, string>;
+}
+
+/**
+ * Build a Message-ID for an archive record. Stable across exports so the same
+ * record de-duplicates in review tools.
+ */
+export function archiveMessageId(kind: string, id: string): string {
+  return `<${kind}.${id}@${EXPORT_EMAIL_DOMAIN}>`;
+}
+
+// Extensions and numbers become the local part; anything outside atext is replaced
+function toAddrSpec(identifier: string): string {
+  const local = identifier.trim().replace(/[^A-Za-z0-9!#$%&'*+/=?^_`{|}~-]/g, "_") || "unknown";
+  return `${local}@${EXPORT_EMAIL_DOMAIN}`;
+}
+
+function isPrintableAscii(value: string): boolean {
+  return /^[\x20-\x7e]*$/.test(value);
+}
+
+// An encoded-word may be at most 75 characters; "=?UTF-8?B?" and "?=" leave
+// room for 60 base64 characters, i.e. 45 bytes of UTF-8
+const ENCODED_WORD_MAX_BYTES = 45;
+
+// RFC 2047 encoded-words for non-ASCII header text. Long values are split
+// between characters (never inside a multi-byte sequence) into several words
+// on folded lines.
+function encodeHeaderText(value: string): string {
+  const clean = value.replace(/[\r\n]+/g, " ");
+  if (isPrintableAscii(clean)) return clean;
+
+  const words: string[] = [];
+  let chunk = "";
+  for (const char of clean) {
+    if (Buffer.byteLength(chunk + char, "utf8") > ENCODED_WORD_MAX_BYTES) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+
+  return words
+    .map((word) => `=?UTF-8?B?${Buffer.from(word, "utf8").toString("base64")}?=`)
+    .join(`${CRLF} `);
+}
+
+export function formatAddress(address: EmailAddress): string {
+  const addrSpec = toAddrSpec(address.identifier);
+  if (!address.name) return `<${addrSpec}>`;
+
+  const name = address.name.replace(/[\r\n]+/g, " ");
+  if (!isPrintableAscii(name)) return `${encodeHeaderText(name)} <${addrSpec}>`;
+  return `"${name.replace(/(["\\])/g, "\\$1")}" <${addrSpec}>`;
+}
+
+/** RFC 5322 date-time, always in UTC */
+export function formatEmailDate(date: Date): string {
+  return date.toUTCString().replace("GMT", "+0000");
+}
+
+// Quoted-printable (RFC 2045) keeps transcripts readable in a text editor
+function encodeQuotedPrintable(text: string): string {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+
+  return lines
+    .map((line) => {
+      const bytes = Buffer.from(line, "utf8");
+      let output = "";
+      let current = "";
+
+      bytes.forEach((byte, index) => {
+        const isLast = index === bytes.length - 1;
+        let token: string;
+        if ((byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && !isLast)) {
+          token = String.fromCharCode(byte);
+        } else {
+          token = `=${byte.toString(16).toUpperCase().padStart(2, "0")}`;
+        }
+
+        if (current.length + token.length > 75) {
+          output += `${current}=${CRLF}`;
+          current = "";
+        }
+        current += token;
+      });
+
+      return output + current;
+    })
+    .join(CRLF);
+}
+
+function encodeBase64Lines(content: Buffer): string {
+  return (content.toString("base64").match(/.{1,76}/g) || []).join(CRLF);
+}
+
+function quoteParameter(value: string): string {
+  if (isPrintableAscii(value)) return `"${value.replace(/(["\\])/g, "\\$1")}"`;
+  // RFC 2231 extended parameter for non-ASCII filenames
+  return `*=UTF-8''${encodeURIComponent(value)}`;
+}
+
+function filenameParameter(name: string, filename: string): string {
+  const quoted = quoteParameter(filename);
+  return quoted.startsWith("*=") ? `${name}${quoted}` : `${name}=${quoted}`;
+}
+
+/**
+ * Render a single message as RFC 5322 text with CRLF line endings.
+ * Attachments produce a multipart/mixed body; otherwise the body is plain text.
+ */
+export function renderEml(message: EmailMessage): string {
+  const headers: string[] = [
+    `From: ${formatAddress(message.from)}`,
+    `To: ${message.to.length > 0 ? message.to.map(formatAddress).join(", ") : "undisclosed-recipients:;"}`,
+    `Subject: ${encodeHeaderText(message.subject)}`,
+    `Date: ${formatEmailDate(message.date)}`,
+    `Message-ID: ${message.messageId}`,
+  ];
+
+  if (message.inReplyTo) headers.push(`In-Reply-To: ${message.inReplyTo}`);
+  if (message.references && message.references.length > 0) {
+    headers.push(`References: ${message.references.join(" ")}`);
+  }
+  for (const [name, value] of Object.entries(message.headers || {})) {
+    headers.push(`${name}: ${encodeHeaderText(value)}`);
+  }
+  headers.push("MIME-Version: 1.0");
+
+  const textPart = [
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: quoted-printable",
+    "",
+    encodeQuotedPrintable(message.text),
+  ].join(CRLF);
+
+  const attachments = message.attachments || [];
+  if (attachments.length === 0) {
+    return headers.join(CRLF) + CRLF + textPart + CRLF;
+  }
+
+  const boundary = `=_backupwiz_${randomBytes(12).toString("hex")}`;
+  headers.push(`Content-Type: multipart/mixed; boundary="${boundary}"`);
+
+  const parts = [textPart];
+  for (const attachment of attachments) {
+    parts.push([
+      `Content-Type: ${attachment.contentType}; ${filenameParameter("name", attachment.filename)}`,
+      "Content-Transfer-Encoding: base64",
+      `Content-Disposition: attachment; ${filenameParameter("filename", attachment.filename)}`,
+      "",
+      encodeBase64Lines(attachment.content),
+    ].join(CRLF));
+  }
+
+  return [
+    headers.join(CRLF),
+    "",
+    "This is a multi-part message in MIME format.",
+    ...parts.map((part) => `--${boundary}${CRLF}${part}`),
+    `--${boundary}--`,
+    "",
+  ].join(CRLF);
+}
+
+function asctime(date: Date): string {
+  const days = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+  const months = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${days[date.getUTCDay()]} ${months[date.getUTCMonth()]} ${String(date.getUTCDate()).padStart(2, " ")} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} ${date.getUTCFullYear()}`;
+}
+
+/**
+ * Append a rendered message to an mboxrd mailbox. Body lines that start with
+ * "From " (after any ">" quoting) get one more ">" so readers can split it back.
+ */
+export function toMboxEntry(message: EmailMessage): string {
+  const body = renderEml(message)
+    .replace(/\r\n/g, "\n")
+    .replace(/^(>*From )/gm, ">$1");
+
+  return `From MAILER-DAEMON ${asctime(message.date)}\n${body}\n`;
+}
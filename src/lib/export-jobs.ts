@@ -0,0 +1,59 @@
+export const EXPORT_DATA_TYPES = [
+  "messages",
+  "call_logs",
+  "recordings",
+  "voicemails",
+  "faxes",
+  "meetings",
+  "media",
+] as const;
+
+export type ExportDataType = (typeof EXPORT_DATA_TYPES)[number];
+
+export interface ExportJob {
+  id: string;
+  tenant_id: string;
+  requested_by: string | null;
+  status: "queued" | "running" | "completed" | "failed" | "expired";
+  data_types: ExportDataType[];
+  start_date: string | null;
+  end_date: string | null;
+  progress: number;
+  items_total: number;
+  items_processed: number;
+  files_included: number;
+  files_missing: number;
+  storage_path: string | null;
+  archive_size: number | null;
+  archive_sha256: string | null;
+  error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  expires_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function isExportDataType(value: unknown): value is ExportDataType {
+  return typeof value === "string" && (EXPORT_DATA_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Ask the sync service to start on queued exports right away.
+ * Best effort: the service also polls the queue every minute.
+ */
+export async function kickExportQueue(): Promise<void> {
+  const syncServiceUrl = process.env.SYNC_SERVICE_URL || "http://localhost:3001";
+  const syncAuthToken = process.env.SYNC_AUTH_TOKEN;
+  if (!syncAuthToken) return;
+
+  try {
+    await fetch(`${syncServiceUrl}/export`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${syncAuthToken}` },
+      signal: AbortSignal.timeout(5000),
+    });
+  } catch (error) {
+    console.error("Could not reach sync service to start export:", error);
+  }
+}
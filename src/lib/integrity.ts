@@ -0,0 +1,71 @@
+export type IntegrityIssueType =
+  | "chain_break"
+  | "seal_mismatch"
+  | "hash_mismatch"
+  | "object_mismatch"
+  | "missing_record"
+  | "missing_file";
+
+export interface IntegrityIssue {
+  type: IntegrityIssueType;
+  log_date: string;
+  sequence?: number;
+  record_type?: string;
+  record_id?: string;
+  storage_path?: string;
+  expected?: string;
+  actual?: string;
+  detail?: string;
+}
+
+export interface IntegrityVerification {
+  id: string;
+  tenant_id: string;
+  requested_by: string | null;
+  status: "queued" | "running" | "completed" | "failed";
+  start_date: string;
+  end_date: string;
+  entries_checked: number;
+  objects_checked: number;
+  chain_breaks: number;
+  mismatches: number;
+  missing_files: number;
+  deleted_records: number;
+  issues: IntegrityIssue[];
+  error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface IntegrityDailySeal {
+  tenant_id: string;
+  log_date: string;
+  entry_count: number;
+  head_hash: string;
+  sealed_at: string;
+}
+
+// Verification ranges are capped so a single run stays within a few hours
+export const MAX_VERIFICATION_DAYS = 93;
+
+/**
+ * Ask the sync service to start on queued verifications right away.
+ * Best effort: the service also polls the queue every minute.
+ */
+export async function kickIntegrityQueue(): Promise<void> {
+  const syncServiceUrl = process.env.SYNC_SERVICE_URL || "http://localhost:3001";
+  const syncAuthToken = process.env.SYNC_AUTH_TOKEN;
+  if (!syncAuthToken) return;
+
+  try {
+    await fetch(`${syncServiceUrl}/integrity`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${syncAuthToken}` },
+      signal: AbortSignal.timeout(5000),
+    });
+  } catch (error) {
+    console.error("Could not reach sync service to start integrity verification:", error);
+  }
+}
@@ -0,0 +1,55 @@
+import { createAdminClient } from "@/lib/supabase/admin";
+
+export interface LegalHold {
+  id: string;
+  tenant_id: string;
+  name: string;
+  reason: string | null;
+  extensions: string[];
+  conversation_ids: string[];
+  remote_numbers: string[];
+  starts_at: string | null;
+  ends_at: string | null;
+  status: "active" | "released";
+  created_by: string | null;
+  released_by: string | null;
+  released_at: string | null;
+  release_reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Fetch the active legal holds for a tenant.
+ * Any code path that deletes archive data must check these first.
+ */
+export async function getActiveLegalHolds(tenantId: string): Promise<LegalHold[]> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from("legal_holds")
+    .select("*")
+    .eq("tenant_id", tenantId)
+    .eq("status", "active")
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch legal holds: ${error.message}`);
+  }
+
+  return (data || []) as LegalHold[];
+}
+
+/**
+ * Normalize a list field from a request body: accepts an array or a
+ * comma/newline separated string, trims entries and drops blanks/duplicates.
+ */
+export function parseHoldList(value: unknown): string[] {
+  const items = Array.isArray(value)
+    ? value.map(String)
+    : typeof value === "string"
+      ? value.split(/[,\n]/)
+      : [];
+
+  return Array.from(new Set(items.map((item) => item.trim()).filter(Boolean)));
+}
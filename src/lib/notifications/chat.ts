@@ -0,0 +1,323 @@
+import { createAdminClient } from "@/lib/supabase/admin";
+import { decrypt } from "@/lib/encryption";
+
+export type ChatChannel = "slack" | "teams";
+
+export const CHAT_CHANNELS: readonly ChatChannel[] = ["slack", "teams"];
+
+export interface ChatMessage {
+  title: string;
+  text: string;
+  severity: "info" | "warning" | "error";
+  fields?: { label: string; value: string }[];
+  actionUrl?: string;
+  actionLabel?: string;
+}
+
+interface ChatResult {
+  success: boolean;
+  recipient?: string;
+  error?: string;
+}
+
+interface TenantChatConfig {
+  webhookUrl: string;
+  channelName: string | null;
+}
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export function isChatChannel(value: unknown): value is ChatChannel {
+  return typeof value === "string" && (CHAT_CHANNELS as readonly string[]).includes(value);
+}
+
+/**
+ * Check an incoming-webhook URL belongs to the provider. Teams accepts both
+ * legacy Office 365 connectors and Power Automate workflow URLs.
+ */
+export function validateChatWebhookUrl(channel: ChatChannel, value: unknown): { url: string } | { error: string } {
+  if (typeof value !== "string" || !value.trim()) {
+    return { error: "Webhook URL is required" };
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(value.trim());
+  } catch {
+    return { error: "Invalid webhook URL" };
+  }
+
+  if (parsed.protocol !== "https:") {
+    return { error: "Webhook URL must use https" };
+  }
+
+  const host = parsed.hostname;
+  const valid = channel === "slack"
+    ? host === "hooks.slack.com"
+    : host.endsWith(".webhook.office.com") || host.endsWith(".logic.azure.com");
+
+  if (!valid) {
+    return {
+      error: channel === "slack"
+        ? "Use a Slack incoming webhook URL (https://hooks.slack.com/...)"
+        : "Use a Teams incoming webhook or workflow URL",
+    };
+  }
+
+  return { url: parsed.toString() };
+}
+
+async function getTenantChatConfig(tenantId: string, channel: ChatChannel): Promise<TenantChatConfig | null> {
+  const supabase = createAdminClient();
+
+  const { data: config } = await supabase
+    .from("tenant_notification_channels")
+    .select("webhook_url_encrypted, channel_name")
+    .eq("tenant_id", tenantId)
+    .eq("channel", channel)
+    .eq("is_active", true)
+    .single();
+
+  if (!config) {
+    return null;
+  }
+
+  return {
+    webhookUrl: decrypt(config.webhook_url_encrypted),
+    channelName: config.channel_name,
+  };
+}
+
+// ============================================
+// MESSAGE FORMATTING
+// ============================================
+// Chat messages go to a shared channel, so they leave out the greeting and
+// anything addressed to a single user that the email templates include.
+
+const TEMPLATE_FORMATTERS: Record<string, (variables: Record<string, string>) => ChatMessage> = {
+  storage_warning: (v) => ({
+    title: `Storage at ${v.storage_percentage}% of plan`,
+    text: `Archive storage is at ${v.storage_percentage}% of the ${v.plan_name} plan. Syncing pauses once the limit is reached.`,
+    severity: Number(v.storage_percentage) >= 100 ? "error" : "warning",
+    fields: [
+      { label: "Used", value: v.storage_used },
+      { label: "Limit", value: v.storage_limit },
+      { label: "Plan", value: v.plan_name },
+    ],
+    actionUrl: v.upgrade_url,
+    actionLabel: "Manage plan",
+  }),
+  sync_gate: (v) => ({
+    title: `${v.gate_title} - ${v.tenant_name}`,
+    text: v.gate_summary,
+    severity: v.gate === "paused" ? "error" : "warning",
+    fields: [
+      { label: "Reason", value: v.reason },
+      { label: "Used", value: v.storage_used },
+      { label: "Limit", value: v.storage_limit },
+    ],
+    actionUrl: v.billing_url,
+    actionLabel: "Review billing",
+  }),
+  payment_failed: (v) => ({
+    title: "Payment failed",
+    text: `The latest payment for the ${v.plan_name} plan could not be processed. Update the payment method to avoid sync being paused.`,
+    severity: "error",
+    actionUrl: v.billing_url,
+    actionLabel: "Update billing",
+  }),
+  sync_error: (v) => ({
+    title: `Sync error - ${v.tenant_name}`,
+    text: v.error_message,
+    severity: "error",
+  }),
+};
+
+/**
+ * Build the chat message for a notification template, falling back to the
+ * notification's push title/body for templates without a chat format.
+ */
+export function formatChatMessage(
+  template: string | undefined,
+  variables: Record<string, string> | undefined,
+  fallback: { title: string; text: string; actionUrl?: string; actionLabel?: string }
+): ChatMessage {
+  const formatter = template ? TEMPLATE_FORMATTERS[template] : undefined;
+  if (formatter && variables) {
+    return formatter(variables);
+  }
+  return { ...fallback, severity: "info" };
+}
+
+// Slack mrkdwn treats these as control characters
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+const SLACK_SEVERITY_EMOJI: Record<ChatMessage["severity"], string> = {
+  info: ":information_source:",
+  warning: ":warning:",
+  error: ":rotating_light:",
+};
+
+function buildSlackPayload(message: ChatMessage): Record<string, unknown> {
+  const blocks: Record<string, unknown>[] = [
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `${SLACK_SEVERITY_EMOJI[message.severity]} *${escapeSlack(message.title)}*\n${escapeSlack(message.text)}`,
+      },
+    },
+  ];
+
+  if (message.fields?.length) {
+    blocks.push({
+      type: "section",
+      fields: message.fields.map((f) => ({
+        type: "mrkdwn",
+        text: `*${escapeSlack(f.label)}*\n${escapeSlack(f.value)}`,
+      })),
+    });
+  }
+
+  if (message.actionUrl) {
+    blocks.push({
+      type: "actions",
+      elements: [
+        {
+          type: "button",
+          text: { type: "plain_text", text: message.actionLabel || "Open" },
+          url: message.actionUrl,
+        },
+      ],
+    });
+  }
+
+  // Top-level text is what shows in desktop/mobile notifications
+  return { text: `${message.title}: ${message.text}`, blocks };
+}
+
+const TEAMS_SEVERITY_COLOR: Record<ChatMessage["severity"], string> = {
+  info: "Default",
+  warning: "Warning",
+  error: "Attention",
+};
+
+function buildTeamsPayload(message: ChatMessage): Record<string, unknown> {
+  const body: Record<string, unknown>[] = [
+    {
+      type: "TextBlock",
+      text: message.title,
+      weight: "Bolder",
+      size: "Medium",
+      color: TEAMS_SEVERITY_COLOR[message.severity],
+      wrap: true,
+    },
+    { type: "TextBlock", text: message.text, wrap: true },
+  ];
+
+  if (message.fields?.length) {
+    body.push({
+      type: "FactSet",
+      facts: message.fields.map((f) => ({ title: f.label, value: f.value })),
+    });
+  }
+
+  return {
+    type: "message",
+    attachments: [
+      {
+        contentType: "application/vnd.microsoft.card.adaptive",
+        content: {
+          $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+          type: "AdaptiveCard",
+          version: "1.4",
+          body,
+          actions: message.actionUrl
+            ? [{ type: "Action.OpenUrl", title: message.actionLabel || "Open", url: message.actionUrl }]
+            : [],
+        },
+      },
+    ],
+  };
+}
+
+// ============================================
+// DELIVERY
+// ============================================
+
+export async function sendChatMessage(
+  channel: ChatChannel,
+  webhookUrl: string,
+  message: ChatMessage
+): Promise<ChatResult> {
+  try {
+    const response = await fetch(webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(channel === "slack" ? buildSlackPayload(message) : buildTeamsPayload(message)),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "");
+      throw new Error(`HTTP ${response.status}${errorText ? `: ${errorText.slice(0, 200)}` : ""}`);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error(`${channel} notification error:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Post a message to a tenant's connected Slack or Teams channel and record
+ * the outcome on the channel row.
+ */
+export async function sendTenantChatMessage(
+  tenantId: string,
+  channel: ChatChannel,
+  message: ChatMessage
+): Promise<ChatResult> {
+  const config = await getTenantChatConfig(tenantId, channel);
+
+  if (!config) {
+    return {
+      success: false,
+      error: `${channel === "slack" ? "Slack" : "Teams"} not connected`,
+    };
+  }
+
+  const result = await sendChatMessage(channel, config.webhookUrl, message);
+
+  const supabase = createAdminClient();
+  await supabase
+    .from("tenant_notification_channels")
+    .update(
+      result.success
+        ? { last_sent_at: new Date().toISOString(), last_error: null }
+        : { last_error: result.error }
+    )
+    .eq("tenant_id", tenantId)
+    .eq("channel", channel);
+
+  return { ...result, recipient: config.channelName || channel };
+}
+
+export async function testChatConnection(
+  tenantId: string,
+  channel: ChatChannel
+): Promise<{ success: boolean; error?: string }> {
+  const result = await sendTenantChatMessage(tenantId, channel, {
+    title: "3CX BackupWiz test message",
+    text: "Notifications are connected. Sync errors, storage warnings and payment problems will be posted here for admins who route them to this channel.",
+    severity: "info",
+  });
+
+  return { success: result.success, error: result.error };
+}
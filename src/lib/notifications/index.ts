@@ -1,15 +1,22 @@
-import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
 import { sendEmail, sendTemplatedEmail, testSmtpConnection } from "./email";
 import { sendSms, sendTemplatedSms, testSmsConnection } from "./sms";
 import { sendPushNotification, sendPushToMultipleUsers, testPushConnection, registerPushToken, unregisterPushToken } from "./push";
+import { formatChatMessage, sendTenantChatMessage, testChatConnection, type ChatChannel } from "./chat";
 
-export type NotificationChannel = "email" | "sms" | "push";
+export type NotificationChannel = "email" | "sms" | "push" | ChatChannel;
+
+// A tenant's Slack/Teams channel is shared, so the same notification fanned
+// out to several admins is only posted once within this window
+const CHAT_DEDUPE_WINDOW_MS = 10 * 60 * 1000;
 
 export interface NotificationOptions {
   userId?: string;
   tenantId?: string;
   type: string;
   channels?: NotificationChannel[];
+  // Limits preference-based routing to these channels (ignored with `channels`)
+  routableChannels?: NotificationChannel[];
   // Email specific
   email?: string;
   subject?: string;
@@ -23,6 +30,9 @@ export interface NotificationOptions {
   body?: string;
   data?: Record<string, string>;
   badge?: number;
+  // Chat specific: button linking to the notification's subject
+  actionUrl?: string;
+  actionLabel?: string;
   // Template support
   template?: string;
   variables?: Record<string, string>;
@@ -34,6 +44,8 @@ interface NotificationResult {
     email?: { success: boolean; error?: string };
     sms?: { success: boolean; error?: string };
     push?: { success: boolean; sent?: number; failed?: number; error?: string };
+    slack?: { success: boolean; skipped?: boolean; error?: string };
+    teams?: { success: boolean; skipped?: boolean; error?: string };
   };
 }
 
@@ -42,8 +54,10 @@ async function getUserPreferences(userId: string, notificationType: string): Pro
   emailEnabled: boolean;
   smsEnabled: boolean;
   pushEnabled: boolean;
+  slackEnabled: boolean;
+  teamsEnabled: boolean;
 }> {
-  const supabase = await createClient();
+  const supabase = createAdminClient();
 
   const { data: prefs } = await supabase
     .from("user_notification_preferences")
@@ -57,6 +71,8 @@ async function getUserPreferences(userId: string, notificationType: string): Pro
     emailEnabled: prefs?.email_enabled ?? true,
     smsEnabled: prefs?.sms_enabled ?? false,
     pushEnabled: prefs?.push_enabled ?? true,
+    slackEnabled: prefs?.slack_enabled ?? false,
+    teamsEnabled: prefs?.teams_enabled ?? false,
   };
 }
 
@@ -65,7 +81,7 @@ async function getUserContact(userId: string): Promise<{
   email?: string;
   phone?: string;
 }> {
-  const supabase = await createClient();
+  const supabase = createAdminClient();
 
   const { data: profile } = await supabase
     .from("user_profiles")
@@ -84,16 +100,17 @@ async function logNotification(
   channel: NotificationChannel,
   options: NotificationOptions,
   success: boolean,
-  error?: string
+  error?: string,
+  recipient?: string
 ): Promise<void> {
-  const supabase = await createClient();
+  const supabase = createAdminClient();
 
   await supabase.from("notification_logs").insert({
     tenant_id: options.tenantId,
     user_id: options.userId,
     notification_type: options.type,
     channel,
-    recipient: channel === "email" ? options.email : channel === "sms" ? options.phone : options.userId,
+    recipient: recipient ?? (channel === "email" ? options.email : channel === "sms" ? options.phone : options.userId),
     subject: options.subject || options.title,
     status: success ? "sent" : "failed",
     error_message: error,
@@ -105,6 +122,25 @@ async function logNotification(
   });
 }
 
+// Whether this notification was already posted to the tenant's chat channel
+async function wasPostedToChat(channel: ChatChannel, options: NotificationOptions, subject: string): Promise<boolean> {
+  const supabase = createAdminClient();
+  const since = new Date(Date.now() - CHAT_DEDUPE_WINDOW_MS).toISOString();
+
+  const { data } = await supabase
+    .from("notification_logs")
+    .select("id")
+    .eq("tenant_id", options.tenantId)
+    .eq("channel", channel)
+    .eq("notification_type", options.type)
+    .eq("subject", subject)
+    .eq("status", "sent")
+    .gt("sent_at", since)
+    .limit(1);
+
+  return !!data && data.length > 0;
+}
+
 export async function sendNotification(options: NotificationOptions): Promise<NotificationResult> {
   const result: NotificationResult = {
     success: false,
@@ -121,6 +157,11 @@ export async function sendNotification(options: NotificationOptions): Promise<No
     if (prefs.emailEnabled) channels.push("email");
     if (prefs.smsEnabled) channels.push("sms");
     if (prefs.pushEnabled) channels.push("push");
+    if (prefs.slackEnabled) channels.push("slack");
+    if (prefs.teamsEnabled) channels.push("teams");
+    if (options.routableChannels) {
+      channels = channels.filter((channel) => options.routableChannels!.includes(channel));
+    }
   }
 
   // Get user contact info if not provided
@@ -198,6 +239,36 @@ export async function sendNotification(options: NotificationOptions): Promise<No
           await logNotification(channel, options, pushResult.success, pushResult.errors?.join(", "));
         }
         break;
+
+      case "slack":
+      case "teams":
+        if (options.tenantId) {
+          const message = formatChatMessage(options.template, options.variables, {
+            title: options.title || options.subject || "Notification",
+            text: options.body || options.message || options.text || "",
+            actionUrl: options.actionUrl,
+            actionLabel: options.actionLabel,
+          });
+
+          if (await wasPostedToChat(channel, options, message.title)) {
+            result.channels[channel] = { success: true, skipped: true };
+            break;
+          }
+
+          const chatResult = await sendTenantChatMessage(options.tenantId, channel, message);
+          result.channels[channel] = {
+            success: chatResult.success,
+            error: chatResult.error,
+          };
+          await logNotification(
+            channel,
+            { ...options, subject: message.title },
+            chatResult.success,
+            chatResult.error,
+            chatResult.recipient || channel
+          );
+        }
+        break;
     }
   }
 
@@ -231,6 +302,35 @@ export async function sendStorageWarning(
   });
 }
 
+// Syncing restricted by the tenant's quota/billing gate (uploads_paused or paused)
+export async function sendSyncGateNotice(
+  userId: string,
+  tenantId: string,
+  variables: {
+    user_name: string;
+    tenant_name: string;
+    gate: string;
+    gate_title: string;
+    gate_summary: string;
+    reason: string;
+    plan_name: string;
+    storage_used: string;
+    storage_limit: string;
+    billing_url: string;
+  }
+): Promise<NotificationResult> {
+  return sendNotification({
+    userId,
+    tenantId,
+    type: "storage_warning",
+    template: "sync_gate",
+    variables,
+    subject: variables.gate_title,
+    title: variables.gate_title,
+    body: `${variables.gate_summary} Reason: ${variables.reason}.`,
+  });
+}
+
 export async function sendPaymentFailed(
   userId: string,
   tenantId: string,
@@ -258,7 +358,8 @@ export async function sendSyncError(
     user_name: string;
     tenant_name: string;
     error_message: string;
-  }
+  },
+  routableChannels?: NotificationChannel[]
 ): Promise<NotificationResult> {
   return sendNotification({
     userId,
@@ -266,6 +367,7 @@ export async function sendSyncError(
     type: "sync_error",
     template: "sync_error",
     variables,
+    routableChannels,
     title: "Sync Error Alert",
     body: `Sync error detected: ${variables.error_message}`,
   });
@@ -321,4 +423,6 @@ export {
   testPushConnection,
   registerPushToken,
   unregisterPushToken,
+  sendTenantChatMessage,
+  testChatConnection,
 };
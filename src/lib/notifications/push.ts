@@ -1,4 +1,4 @@
-import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
 import { decrypt } from "@/lib/encryption";
 import crypto from "crypto";
 
@@ -26,7 +26,7 @@ interface PushResult {
 }
 
 async function getFirebaseConfig(): Promise<FirebaseConfig | null> {
-  const supabase = await createClient();
+  const supabase = createAdminClient();
 
   const { data: settings, error } = await supabase
     .from("push_settings")
@@ -110,7 +110,7 @@ async function getAccessToken(config: FirebaseConfig): Promise<string | null> {
 }
 
 async function getUserTokens(userId: string): Promise<string[]> {
-  const supabase = await createClient();
+  const supabase = createAdminClient();
 
   const { data: tokens, error } = await supabase
     .from("user_push_tokens")
@@ -217,7 +217,7 @@ async function sendFirebasePush(
 }
 
 async function deactivateToken(token: string): Promise<void> {
-  const supabase = await createClient();
+  const supabase = createAdminClient();
   await supabase
     .from("user_push_tokens")
     .update({ is_active: false })
@@ -297,7 +297,7 @@ export async function registerPushToken(
   platform: "ios" | "android" | "web",
   deviceName?: string
 ): Promise<boolean> {
-  const supabase = await createClient();
+  const supabase = createAdminClient();
 
   const { error } = await supabase
     .from("user_push_tokens")
@@ -324,7 +324,7 @@ export async function registerPushToken(
 }
 
 export async function unregisterPushToken(userId: string, token: string): Promise<boolean> {
-  const supabase = await createClient();
+  const supabase = createAdminClient();
 
   const { error } = await supabase
     .from("user_push_tokens")
@@ -1,4 +1,4 @@
-import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
 import { decrypt } from "@/lib/encryption";
 
 interface SmsConfig {
@@ -21,7 +21,7 @@ interface SmsResult {
 }
 
 async function getSmsConfig(): Promise<SmsConfig | null> {
-  const supabase = await createClient();
+  const supabase = createAdminClient();
 
   const { data: settings, error } = await supabase
     .from("sms_settings")
@@ -137,7 +137,7 @@ export async function sendTemplatedSms(
   to: string,
   variables: Record<string, string>
 ): Promise<SmsResult> {
-  const supabase = await createClient();
+  const supabase = createAdminClient();
 
   // Fetch the template
   const { data: template, error } = await supabase
@@ -1,6 +1,7 @@
-import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
 import { SupabaseClient } from "@supabase/supabase-js";
-import { sendStorageWarning } from "./index";
+import { sendStorageWarning, sendSyncGateNotice } from "./index";
+import type { SyncGate } from "@/types";
 
 interface StorageCheckResult {
   shouldNotify: boolean;
@@ -10,6 +11,14 @@ interface StorageCheckResult {
   storageLimit: string;
 }
 
+const formatBytes = (bytes: number) => {
+  if (bytes === 0) return "0 B";
+  const k = 1024;
+  const sizes = ["B", "KB", "MB", "GB", "TB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+};
+
 /**
  * Sum file_size across all rows in a table for a tenant, paginating past the 1000-row cap.
  */
@@ -42,7 +51,7 @@ async function sumFileSizes(
  * Check storage usage for a tenant and trigger notifications if needed
  */
 export async function checkStorageAndNotify(tenantId: string): Promise<StorageCheckResult> {
-  const supabase = await createClient();
+  const supabase = createAdminClient();
 
   // Get tenant with storage plan
   const { data: tenant, error: tenantError } = await supabase
@@ -111,14 +120,6 @@ export async function checkStorageAndNotify(tenantId: string): Promise<StorageCh
     warningLevel = "approaching";
   }
 
-  const formatBytes = (bytes: number) => {
-    if (bytes === 0) return "0 B";
-    const k = 1024;
-    const sizes = ["B", "KB", "MB", "GB", "TB"];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
-  };
-
   const storageUsed = formatBytes(totalStorageBytes);
   const storageLimit = formatBytes(storageLimitBytes);
 
@@ -228,7 +229,7 @@ export async function checkStorageAndNotify(tenantId: string): Promise<StorageCh
  * Run storage check for all tenants (called by cron job)
  */
 export async function checkAllTenantsStorage(): Promise<void> {
-  const supabase = await createClient();
+  const supabase = createAdminClient();
 
   // Get all active tenants with storage plans
   const { data: tenants, error } = await supabase
@@ -255,3 +256,128 @@ export async function checkAllTenantsStorage(): Promise<void> {
     }
   }
 }
+
+const SYNC_GATE_SUBJECTS: Record<Exclude<SyncGate, "open">, string> = {
+  warning: "Storage Alert: approaching your plan limit",
+  uploads_paused: "Sync Alert: file backups paused",
+  paused: "Sync Alert: all syncing paused",
+};
+
+const SYNC_GATE_SUMMARIES: Record<Exclude<SyncGate, "open" | "warning">, string> = {
+  uploads_paused:
+    "New recordings, voicemails, faxes, meetings and chat attachments are no longer being backed up. Chat messages and call logs still sync.",
+  paused: "Backups of all 3CX data have stopped, including chat messages and call logs.",
+};
+
+/**
+ * Tell tenant admins when the sync service changes a tenant's quota/billing
+ * sync gate (called by the storage-recalc cron). Returns how many tenants
+ * were notified.
+ */
+export async function notifySyncGateChanges(): Promise<number> {
+  const supabase = createAdminClient();
+
+  const { data: tenants, error } = await supabase
+    .from("tenants")
+    .select(`
+      id,
+      name,
+      sync_gate,
+      sync_gate_notified,
+      sync_gate_reason,
+      storage_used_bytes,
+      storage_quota_bytes,
+      storage_plans (name, storage_limit_gb)
+    `)
+    .eq("is_active", true);
+
+  if (error || !tenants) {
+    console.error("Failed to fetch tenants for sync gate notices:", error);
+    return 0;
+  }
+
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "https://backupwiz.com";
+  let notified = 0;
+
+  for (const tenant of tenants.filter((t) => t.sync_gate !== t.sync_gate_notified)) {
+    const gate = tenant.sync_gate as SyncGate;
+
+    // Lifting a restriction needs no email; just remember it was seen
+    if (gate !== "open") {
+      // storage_plans may be returned as array or single object depending on Supabase version
+      const planRaw = tenant.storage_plans;
+      const plan = (Array.isArray(planRaw) ? planRaw[0] : planRaw) as { name: string; storage_limit_gb: number } | null;
+      const usedBytes = tenant.storage_used_bytes || 0;
+      const limitBytes = plan ? plan.storage_limit_gb * 1024 * 1024 * 1024 : tenant.storage_quota_bytes || 0;
+      const percentage = limitBytes > 0 ? Math.round((usedBytes / limitBytes) * 100) : 0;
+
+      const { data: adminUsers } = await supabase
+        .from("user_tenants")
+        .select(`
+          user_id,
+          user_profiles (id, email, full_name)
+        `)
+        .eq("tenant_id", tenant.id)
+        .in("role", ["admin", "owner"]);
+
+      for (const adminUser of adminUsers || []) {
+        const profileRaw = adminUser.user_profiles;
+        const profile = (Array.isArray(profileRaw) ? profileRaw[0] : profileRaw) as { id: string; email: string; full_name: string | null } | null;
+        if (!profile) continue;
+
+        const userName = profile.full_name || profile.email.split("@")[0];
+        const storageUsed = formatBytes(usedBytes);
+        const storageLimit = limitBytes > 0 ? formatBytes(limitBytes) : "Unlimited";
+
+        if (gate === "warning") {
+          await sendStorageWarning(profile.id, tenant.id, {
+            user_name: userName,
+            storage_percentage: percentage.toString(),
+            plan_name: plan?.name || "Custom",
+            storage_used: storageUsed,
+            storage_limit: storageLimit,
+            upgrade_url: `${baseUrl}/admin/billing`,
+          });
+        } else {
+          await sendSyncGateNotice(profile.id, tenant.id, {
+            user_name: userName,
+            tenant_name: tenant.name,
+            gate,
+            gate_title: SYNC_GATE_SUBJECTS[gate],
+            gate_summary: SYNC_GATE_SUMMARIES[gate],
+            reason: tenant.sync_gate_reason || "Storage quota or billing",
+            plan_name: plan?.name || "Custom",
+            storage_used: storageUsed,
+            storage_limit: storageLimit,
+            billing_url: `${baseUrl}/admin/billing`,
+          });
+        }
+
+        await supabase.from("notification_logs").insert({
+          tenant_id: tenant.id,
+          user_id: profile.id,
+          notification_type: "storage_warning",
+          channel: "email",
+          recipient: profile.email,
+          subject: SYNC_GATE_SUBJECTS[gate],
+          status: "sent",
+          metadata: {
+            sync_gate: gate,
+            reason: tenant.sync_gate_reason,
+            percentage,
+          },
+          sent_at: new Date().toISOString(),
+        });
+      }
+
+      notified++;
+    }
+
+    await supabase
+      .from("tenants")
+      .update({ sync_gate_notified: gate })
+      .eq("id", tenant.id);
+  }
+
+  return notified;
+}
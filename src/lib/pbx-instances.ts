@@ -0,0 +1,231 @@
+import { createAdminClient } from "@/lib/supabase/admin";
+
+// ============================================
+// PBX INSTANCES
+// ============================================
+// A tenant can run several 3CX systems. Each one is a pbx_instances row with
+// its own connection settings, paths, backup toggles and agent token; synced
+// rows carry its id in pbx_instance_id. Users, billing and permissions stay
+// on the tenant.
+//
+// The primary instance mirrors the connection columns of the tenants row, so
+// the tenant-level settings page keeps working: /api/tenant/config writes the
+// tenants row and mirrorTenantConfigToPrimary copies the change across.
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+export interface PbxInstance {
+  id: string;
+  tenant_id: string;
+  name: string;
+  is_primary: boolean;
+  threecx_host: string | null;
+  ssh_port: number | null;
+  ssh_user: string | null;
+  threecx_chat_files_path: string | null;
+  threecx_recordings_path: string | null;
+  threecx_voicemail_path: string | null;
+  threecx_fax_path: string | null;
+  threecx_meetings_path: string | null;
+  backup_chats: boolean;
+  backup_chat_media: boolean;
+  backup_recordings: boolean;
+  backup_voicemails: boolean;
+  backup_faxes: boolean;
+  backup_cdr: boolean;
+  backup_meetings: boolean;
+  sync_enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Columns safe to return to the browser (no passwords, no agent token) */
+export const PBX_INSTANCE_COLUMNS = `
+  id, tenant_id, name, is_primary,
+  threecx_host, ssh_port, ssh_user,
+  threecx_chat_files_path, threecx_recordings_path,
+  threecx_voicemail_path, threecx_fax_path, threecx_meetings_path,
+  backup_chats, backup_chat_media, backup_recordings,
+  backup_voicemails, backup_faxes, backup_cdr, backup_meetings,
+  sync_enabled, created_at, updated_at
+`;
+
+const TEXT_FIELDS = [
+  "threecx_host",
+  "ssh_user",
+  "threecx_chat_files_path",
+  "threecx_recordings_path",
+  "threecx_voicemail_path",
+  "threecx_fax_path",
+  "threecx_meetings_path",
+] as const;
+
+// Only replaced when a new value is given, like the tenant settings form
+const SECRET_FIELDS = ["ssh_password", "threecx_db_password"] as const;
+
+const BOOLEAN_FIELDS = [
+  "backup_chats",
+  "backup_chat_media",
+  "backup_recordings",
+  "backup_voicemails",
+  "backup_faxes",
+  "backup_cdr",
+  "backup_meetings",
+  "sync_enabled",
+] as const;
+
+/**
+ * Turn a create/update body into pbx_instances columns. Unknown keys are
+ * ignored; returns an error message for values of the wrong type.
+ */
+export function buildPbxInstanceUpdate(
+  body: Record<string, unknown>
+): { data: Record<string, unknown> } | { error: string } {
+  const data: Record<string, unknown> = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== "string" || !body.name.trim() || body.name.trim().length > 100) {
+      return { error: "name must be 1-100 characters" };
+    }
+    data.name = body.name.trim();
+  }
+
+  for (const field of TEXT_FIELDS) {
+    if (body[field] === undefined) continue;
+    if (body[field] !== null && typeof body[field] !== "string") {
+      return { error: `${field} must be a string` };
+    }
+    data[field] = (body[field] as string | null)?.trim() || null;
+  }
+
+  for (const field of SECRET_FIELDS) {
+    if (typeof body[field] === "string" && body[field]) data[field] = body[field];
+  }
+
+  if (body.ssh_port !== undefined) {
+    const port = typeof body.ssh_port === "number" ? body.ssh_port : parseInt(String(body.ssh_port));
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      return { error: "ssh_port must be between 1 and 65535" };
+    }
+    data.ssh_port = port;
+  }
+
+  for (const field of BOOLEAN_FIELDS) {
+    if (body[field] === undefined) continue;
+    if (typeof body[field] !== "boolean") return { error: `${field} must be a boolean` };
+    data[field] = body[field];
+  }
+
+  return { data };
+}
+
+/**
+ * Copy a tenants row update onto the tenant's primary instance, creating the
+ * primary once the tenant gets a 3CX host. Only instance columns are copied;
+ * tenant-only settings such as the sync interval are left alone.
+ */
+export async function mirrorTenantConfigToPrimary(
+  supabase: AdminClient,
+  tenantId: string,
+  tenantUpdate: Record<string, unknown>
+): Promise<void> {
+  // sync_enabled stays per row: the tenant flag pauses every instance at once
+  const mirrored: Record<string, unknown> = {};
+  for (const field of [...TEXT_FIELDS, ...SECRET_FIELDS, ...BOOLEAN_FIELDS, "ssh_port"]) {
+    if (field !== "sync_enabled" && tenantUpdate[field] !== undefined) mirrored[field] = tenantUpdate[field];
+  }
+
+  if (Object.keys(mirrored).length === 0) return;
+
+  const { data: primary } = await supabase
+    .from("pbx_instances")
+    .select("id")
+    .eq("tenant_id", tenantId)
+    .eq("is_primary", true)
+    .maybeSingle();
+
+  if (primary) {
+    const { error } = await supabase
+      .from("pbx_instances")
+      .update({ ...mirrored, updated_at: new Date().toISOString() })
+      .eq("id", primary.id);
+
+    if (error) console.error("Failed to mirror tenant config to primary PBX instance:", error);
+    return;
+  }
+
+  if (!mirrored.threecx_host) return;
+
+  // The tenant's first 3CX system: start the primary from the full tenants row
+  const { data: tenant } = await supabase
+    .from("tenants")
+    .select(`
+      threecx_host, ssh_port, ssh_user, ssh_password, threecx_db_password,
+      threecx_chat_files_path, threecx_recordings_path,
+      threecx_voicemail_path, threecx_fax_path, threecx_meetings_path,
+      backup_chats, backup_chat_media, backup_recordings,
+      backup_voicemails, backup_faxes, backup_cdr, backup_meetings,
+      agent_token
+    `)
+    .eq("id", tenantId)
+    .single();
+
+  if (!tenant) return;
+
+  const backups: Record<string, boolean> = {};
+  for (const field of BOOLEAN_FIELDS) {
+    if (field !== "sync_enabled") backups[field] = tenant[field] ?? true;
+  }
+
+  const { error } = await supabase.from("pbx_instances").insert({
+    ...tenant,
+    ...backups,
+    tenant_id: tenantId,
+    name: "Primary",
+    is_primary: true,
+  });
+
+  if (error) console.error("Failed to create primary PBX instance:", error);
+}
+
+/** Instances of a tenant, primary first */
+export async function listPbxInstances(supabase: AdminClient, tenantId: string): Promise<PbxInstance[]> {
+  const { data, error } = await supabase
+    .from("pbx_instances")
+    .select(PBX_INSTANCE_COLUMNS)
+    .eq("tenant_id", tenantId)
+    .order("is_primary", { ascending: false })
+    .order("name");
+
+  if (error) throw error;
+  return (data || []) as unknown as PbxInstance[];
+}
+
+/**
+ * The other direction: an edit to the primary instance is written back to
+ * the tenants row, legacy columns included, so both stay the same.
+ */
+export async function mirrorPrimaryToTenant(
+  supabase: AdminClient,
+  tenantId: string,
+  instanceUpdate: Record<string, unknown>
+): Promise<void> {
+  const tenantUpdate: Record<string, unknown> = {};
+  for (const field of [...TEXT_FIELDS, ...SECRET_FIELDS, ...BOOLEAN_FIELDS, "ssh_port"]) {
+    if (field !== "sync_enabled" && instanceUpdate[field] !== undefined) tenantUpdate[field] = instanceUpdate[field];
+  }
+
+  if (tenantUpdate.ssh_port !== undefined) tenantUpdate.sftp_port = tenantUpdate.ssh_port;
+  if (tenantUpdate.ssh_user !== undefined) tenantUpdate.sftp_user = tenantUpdate.ssh_user;
+  if (tenantUpdate.ssh_password !== undefined) tenantUpdate.sftp_password = tenantUpdate.ssh_password;
+  if (tenantUpdate.threecx_db_password !== undefined) tenantUpdate.threecx_password = tenantUpdate.threecx_db_password;
+
+  if (Object.keys(tenantUpdate).length === 0) return;
+
+  const { error } = await supabase
+    .from("tenants")
+    .update({ ...tenantUpdate, updated_at: new Date().toISOString() })
+    .eq("id", tenantId);
+
+  if (error) console.error("Failed to mirror primary PBX instance to tenant:", error);
+}
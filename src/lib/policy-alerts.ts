@@ -0,0 +1,188 @@
+import { createAdminClient } from "@/lib/supabase/admin";
+import { sendNotification } from "@/lib/notifications";
+import { POLICY_SEVERITY_LABELS, type PolicyFlag, type PolicySeverity } from "@/lib/policy-rules";
+
+// ============================================
+// POLICY FLAG ALERTS
+// ============================================
+// Tenant admins hear about new flags in a digest from the policy-alerts
+// cron (only for rules with notify on), and straight away when a reviewer
+// escalates a flag. Alerts name the rule and conversation but never quote
+// the message: it may hold the card number or SSN the rule caught.
+
+// Flags listed in one digest; the rest are a click away
+const DIGEST_FLAG_LIMIT = 10;
+const DIGEST_BATCH_SIZE = 500;
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+interface DigestFlag extends Pick<PolicyFlag, "id" | "tenant_id" | "rule_name" | "severity" | "message_sent_at"> {
+  rule: { notify: boolean } | { notify: boolean }[] | null;
+  conversation: { conversation_name: string | null } | { conversation_name: string | null }[] | null;
+  message: { sender_name: string | null; sender_identifier: string | null } | { sender_name: string | null; sender_identifier: string | null }[] | null;
+}
+
+function one<T>(value: T | T[] | null): T | null {
+  return Array.isArray(value) ? value[0] ?? null : value;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function reviewQueueUrl(flagId?: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "https://backupwiz.com";
+  return flagId ? `${baseUrl}/monitor/review?flag=${flagId}` : `${baseUrl}/monitor/review`;
+}
+
+// Alerts are sent from the cron, which has no session, so the admins'
+// addresses are loaded here with the admin client
+async function getTenantAdmins(supabase: AdminClient, tenantId: string): Promise<Array<{ id: string; email?: string }>> {
+  const { data } = await supabase
+    .from("user_tenants")
+    .select("user_id, user_profiles (email)")
+    .eq("tenant_id", tenantId)
+    .in("role", ["admin", "owner"]);
+
+  return (data || []).map((row) => ({
+    id: row.user_id,
+    email: one(row.user_profiles as { email: string | null } | { email: string | null }[] | null)?.email || undefined,
+  }));
+}
+
+/**
+ * Tell the tenant's other admins that a reviewer escalated a flag.
+ */
+export async function notifyPolicyEscalation(
+  flag: Pick<PolicyFlag, "id" | "tenant_id" | "rule_name" | "severity">,
+  escalatedBy: { id: string; name: string },
+  note: string | null
+): Promise<void> {
+  const supabase = createAdminClient();
+  const admins = (await getTenantAdmins(supabase, flag.tenant_id)).filter((admin) => admin.id !== escalatedBy.id);
+  const url = reviewQueueUrl(flag.id);
+  const subject = `Flagged message escalated: ${flag.rule_name}`;
+
+  for (const admin of admins) {
+    await sendNotification({
+      userId: admin.id,
+      email: admin.email,
+      tenantId: flag.tenant_id,
+      type: "policy_flag",
+      subject,
+      html: `
+        <p><strong>${escapeHtml(escalatedBy.name)}</strong> escalated a message flagged by the policy rule <strong>${escapeHtml(flag.rule_name)}</strong> (${POLICY_SEVERITY_LABELS[flag.severity]} severity).</p>
+        ${note ? `<blockquote>${escapeHtml(note)}</blockquote>` : ""}
+        <p><a href="${url}">Open the review queue</a></p>
+      `,
+      text: `${escalatedBy.name} escalated a message flagged by the policy rule "${flag.rule_name}" (${POLICY_SEVERITY_LABELS[flag.severity]} severity).${note ? `\n\n"${note}"` : ""}\n\nOpen the review queue: ${url}`,
+      title: subject,
+      body: `${escalatedBy.name} escalated a ${flag.severity} severity flag`,
+      data: { url },
+      actionUrl: url,
+      actionLabel: "Review",
+    }).catch((error) => console.error("Failed to send escalation notification:", error));
+  }
+}
+
+async function sendDigest(supabase: AdminClient, tenantId: string, flags: DigestFlag[]): Promise<void> {
+  const admins = await getTenantAdmins(supabase, tenantId);
+  if (admins.length === 0) return;
+
+  const url = reviewQueueUrl();
+  const count = flags.length;
+  const high = flags.filter((f) => f.severity === "high").length;
+  const subject = `${count} message${count !== 1 ? "s" : ""} flagged for review${high > 0 ? ` (${high} high severity)` : ""}`;
+  const listed = flags.slice(0, DIGEST_FLAG_LIMIT);
+  const more = count - listed.length;
+
+  const describe = (flag: DigestFlag) => {
+    const message = one(flag.message);
+    const conversation = one(flag.conversation);
+    const sender = message?.sender_name || message?.sender_identifier || "Unknown sender";
+    return { sender, conversation: conversation?.conversation_name || "Unnamed conversation" };
+  };
+
+  const htmlItems = listed
+    .map((flag) => {
+      const { sender, conversation } = describe(flag);
+      return `<li><strong>${escapeHtml(flag.rule_name)}</strong> (${POLICY_SEVERITY_LABELS[flag.severity as PolicySeverity]}): ${escapeHtml(sender)} in ${escapeHtml(conversation)}</li>`;
+    })
+    .join("");
+  const textItems = listed
+    .map((flag) => {
+      const { sender, conversation } = describe(flag);
+      return `- ${flag.rule_name} (${POLICY_SEVERITY_LABELS[flag.severity as PolicySeverity]}): ${sender} in ${conversation}`;
+    })
+    .join("\n");
+
+  for (const admin of admins) {
+    await sendNotification({
+      userId: admin.id,
+      email: admin.email,
+      tenantId,
+      type: "policy_flag",
+      subject,
+      html: `
+        <p>Policy monitoring flagged ${count} new message${count !== 1 ? "s" : ""}.</p>
+        <ul>${htmlItems}</ul>
+        ${more > 0 ? `<p>…and ${more} more.</p>` : ""}
+        <p><a href="${url}">Open the review queue</a></p>
+      `,
+      text: `Policy monitoring flagged ${count} new message${count !== 1 ? "s" : ""}.\n\n${textItems}${more > 0 ? `\n...and ${more} more.` : ""}\n\nOpen the review queue: ${url}`,
+      title: subject,
+      body: `${count} new flagged message${count !== 1 ? "s" : ""} to review`,
+      data: { url },
+      actionUrl: url,
+      actionLabel: "Review",
+    }).catch((error) => console.error("Failed to send policy flag digest:", error));
+  }
+}
+
+/**
+ * Send each tenant's admins one digest of the flags raised since the last
+ * run (called by the policy-alerts cron). Returns how many flags were covered.
+ */
+export async function sendPendingPolicyAlerts(): Promise<number> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from("policy_flags")
+    .select(`
+      id, tenant_id, rule_name, severity, message_sent_at,
+      rule:policy_rules(notify),
+      conversation:conversations(conversation_name),
+      message:messages(sender_name, sender_identifier)
+    `)
+    .is("notified_at", null)
+    .order("created_at", { ascending: true })
+    .limit(DIGEST_BATCH_SIZE);
+
+  if (error) {
+    console.error("Failed to fetch unnotified policy flags:", error);
+    return 0;
+  }
+
+  const flags = (data || []) as unknown as DigestFlag[];
+  if (flags.length === 0) return 0;
+
+  const byTenant = new Map<string, DigestFlag[]>();
+  for (const flag of flags) {
+    // Flags from quiet rules (or deleted ones) are only marked as handled
+    if (!one(flag.rule)?.notify) continue;
+    const list = byTenant.get(flag.tenant_id) || [];
+    list.push(flag);
+    byTenant.set(flag.tenant_id, list);
+  }
+
+  for (const [tenantId, tenantFlags] of byTenant) {
+    await sendDigest(supabase, tenantId, tenantFlags);
+  }
+
+  await supabase
+    .from("policy_flags")
+    .update({ notified_at: new Date().toISOString() })
+    .in("id", flags.map((f) => f.id));
+
+  return flags.length;
+}
@@ -0,0 +1,186 @@
+import { createAdminClient } from "@/lib/supabase/admin";
+import { hasNestedQuantifier, type BusinessHours, type PolicyFlagReason, type PolicyRule } from "@/lib/policy-rules";
+
+// ============================================
+// POLICY CHECKS ON AGENT INGEST
+// ============================================
+// Messages from installed sync agents (/api/agent/ingest) never pass through
+// the sync service, so the ingest API checks them against the tenant's rules
+// itself. Same evaluation as sync-service/src/sync/policy.ts - keep the two
+// in step.
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+type ActiveRule = Pick<
+  PolicyRule,
+  "id" | "name" | "keywords" | "patterns" | "external_only" | "after_hours_only" | "business_hours" | "severity"
+>;
+
+export interface IngestedMessage {
+  id: string;
+  conversation_id: string | null;
+  content: string | null;
+  sent_at: string;
+  is_external: boolean;
+}
+
+// Only the start of very long messages is scanned, so one pasted log file
+// can't stall the request on a slow pattern
+const MAX_SCAN_LENGTH = 20_000;
+
+const regexCache: Map<string, RegExp | null> = new Map();
+
+// Patterns saved before nested quantifiers were rejected are skipped, as are
+// invalid ones
+function compile(source: string): RegExp | null {
+  if (regexCache.has(source)) return regexCache.get(source)!;
+
+  let regex: RegExp | null = null;
+  if (!hasNestedQuantifier(source)) {
+    try {
+      regex = new RegExp(source, "iu");
+    } catch {
+      // skip
+    }
+  }
+  regexCache.set(source, regex);
+  return regex;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Whole-word match: not part of a longer word on either side
+function keywordRegex(keyword: string): RegExp | null {
+  return compile(`(?<![\\p{L}\\p{N}_])${escapeRegex(keyword)}(?![\\p{L}\\p{N}_])`);
+}
+
+// Only the last four characters of what a pattern caught are kept
+function maskMatch(match: string): string {
+  const visible = match.length > 4 ? match.slice(-4) : "";
+  return "•".repeat(Math.min(Math.max(match.length - visible.length, 4), 12)) + visible;
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// An end before the start spans midnight (e.g. 22:00-06:00 night shifts)
+function isWithinBusinessHours(date: Date, hours: BusinessHours): boolean {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: hours.timezone,
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(date);
+  } catch {
+    return true; // Unknown time zone: never flag on time alone
+  }
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || "";
+  const day = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(get("weekday"));
+  const minutes = Number(get("hour")) * 60 + Number(get("minute"));
+  const start = minutesOf(hours.start);
+  const end = minutesOf(hours.end);
+
+  if (start <= end) {
+    return hours.days.includes(day) && minutes >= start && minutes < end;
+  }
+  if (minutes >= start) return hours.days.includes(day);
+  return minutes < end && hours.days.includes((day + 6) % 7);
+}
+
+function evaluateRule(rule: ActiveRule, message: IngestedMessage): PolicyFlagReason[] | null {
+  const reasons: PolicyFlagReason[] = [];
+
+  if (rule.external_only) {
+    if (!message.is_external) return null;
+    reasons.push({ type: "external" });
+  }
+
+  if (rule.after_hours_only) {
+    if (isWithinBusinessHours(new Date(message.sent_at), rule.business_hours)) return null;
+    reasons.push({ type: "after_hours" });
+  }
+
+  if (rule.keywords.length === 0 && rule.patterns.length === 0) {
+    return reasons.length > 0 ? reasons : null;
+  }
+
+  const text = (message.content || "").slice(0, MAX_SCAN_LENGTH);
+  if (!text) return null;
+
+  const hits: PolicyFlagReason[] = [];
+  for (const keyword of rule.keywords) {
+    if (keywordRegex(keyword)?.test(text)) {
+      hits.push({ type: "keyword", value: keyword });
+    }
+  }
+  for (const pattern of rule.patterns) {
+    const match = compile(pattern)?.exec(text);
+    if (match && match[0]) {
+      hits.push({ type: "pattern", value: maskMatch(match[0]) });
+    }
+  }
+
+  return hits.length > 0 ? [...hits, ...reasons] : null;
+}
+
+/**
+ * Flag newly ingested messages that hit the tenant's active rules. Messages
+ * already flagged by a rule are left alone. Never throws: monitoring must
+ * not fail the ingest. Returns how many flags were new.
+ */
+export async function checkIngestedMessages(
+  supabase: AdminClient,
+  tenantId: string,
+  messages: IngestedMessage[]
+): Promise<number> {
+  if (messages.length === 0) return 0;
+
+  try {
+    const { data: rules, error: rulesError } = await supabase
+      .from("policy_rules")
+      .select("id, name, keywords, patterns, external_only, after_hours_only, business_hours, severity")
+      .eq("tenant_id", tenantId)
+      .eq("is_active", true);
+
+    if (rulesError) throw rulesError;
+    if (!rules || rules.length === 0) return 0;
+
+    const flags = [];
+    for (const message of messages) {
+      for (const rule of rules as ActiveRule[]) {
+        const reasons = evaluateRule(rule, message);
+        if (!reasons) continue;
+        flags.push({
+          tenant_id: tenantId,
+          rule_id: rule.id,
+          rule_name: rule.name,
+          severity: rule.severity,
+          message_id: message.id,
+          conversation_id: message.conversation_id,
+          message_sent_at: message.sent_at,
+          reasons,
+        });
+      }
+    }
+    if (flags.length === 0) return 0;
+
+    const { data, error } = await supabase
+      .from("policy_flags")
+      .upsert(flags, { onConflict: "rule_id,message_id", ignoreDuplicates: true })
+      .select("id");
+
+    if (error) throw error;
+    return data?.length ?? 0;
+  } catch (error) {
+    console.error("Policy check on agent ingest failed:", error);
+    return 0;
+  }
+}
@@ -0,0 +1,365 @@
+export const POLICY_SEVERITIES = ["low", "medium", "high"] as const;
+
+export type PolicySeverity = (typeof POLICY_SEVERITIES)[number];
+
+export const POLICY_SEVERITY_LABELS: Record<PolicySeverity, string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+};
+
+export const POLICY_FLAG_STATUSES = ["open", "reviewed", "escalated"] as const;
+
+export type PolicyFlagStatus = (typeof POLICY_FLAG_STATUSES)[number];
+
+export const POLICY_FLAG_STATUS_LABELS: Record<PolicyFlagStatus, string> = {
+  open: "Open",
+  reviewed: "Reviewed",
+  escalated: "Escalated",
+};
+
+// Ready-made regexes offered when editing a rule
+export const POLICY_PATTERN_PRESETS = [
+  { label: "Card numbers", pattern: "\\b(?:\\d[ -]?){12,15}\\d\\b" },
+  { label: "US Social Security numbers", pattern: "\\b\\d{3}-\\d{2}-\\d{4}\\b" },
+  { label: "IBANs", pattern: "\\b[A-Z]{2}\\d{2}(?: ?[A-Z0-9]{4}){3,7}(?: ?[A-Z0-9]{1,3})?\\b" },
+] as const;
+
+// Days use JavaScript numbering: 0 = Sunday ... 6 = Saturday
+export interface BusinessHours {
+  timezone: string;
+  start: string; // HH:MM
+  end: string; // HH:MM
+  days: number[];
+}
+
+export const DEFAULT_BUSINESS_HOURS: BusinessHours = {
+  timezone: "UTC",
+  start: "08:00",
+  end: "18:00",
+  days: [1, 2, 3, 4, 5],
+};
+
+export interface PolicyRule {
+  id: string;
+  tenant_id: string;
+  name: string;
+  description: string | null;
+  keywords: string[];
+  patterns: string[];
+  external_only: boolean;
+  after_hours_only: boolean;
+  business_hours: BusinessHours;
+  severity: PolicySeverity;
+  notify: boolean;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Why a message was flagged. Pattern values are masked down to their last
+// four characters so the queue doesn't repeat the sensitive data it found.
+export interface PolicyFlagReason {
+  type: "keyword" | "pattern" | "external" | "after_hours";
+  value?: string;
+}
+
+export interface PolicyFlag {
+  id: string;
+  tenant_id: string;
+  rule_id: string | null;
+  rule_name: string;
+  severity: PolicySeverity;
+  message_id: string;
+  conversation_id: string | null;
+  message_sent_at: string;
+  reasons: PolicyFlagReason[];
+  status: PolicyFlagStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  escalated_by: string | null;
+  escalated_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PolicyFlagNote {
+  id: string;
+  flag_id: string;
+  author_id: string | null;
+  body: string | null;
+  status_from: PolicyFlagStatus | null;
+  status_to: PolicyFlagStatus | null;
+  created_at: string;
+}
+
+export const POLICY_RULE_COLUMNS =
+  "id, tenant_id, name, description, keywords, patterns, external_only, after_hours_only, business_hours, severity, notify, is_active, created_by, created_at, updated_at";
+
+export const POLICY_FLAG_COLUMNS =
+  "id, tenant_id, rule_id, rule_name, severity, message_id, conversation_id, message_sent_at, reasons, status, reviewed_by, reviewed_at, escalated_by, escalated_at, created_at, updated_at";
+
+export const POLICY_FLAG_NOTE_COLUMNS =
+  "id, flag_id, author_id, body, status_from, status_to, created_at";
+
+export const MAX_POLICY_RULES_PER_TENANT = 50;
+
+const MAX_TERMS = 100;
+const MAX_TERM_LENGTH = 200;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export function isPolicySeverity(value: unknown): value is PolicySeverity {
+  return typeof value === "string" && (POLICY_SEVERITIES as readonly string[]).includes(value);
+}
+
+export function isPolicyFlagStatus(value: unknown): value is PolicyFlagStatus {
+  return typeof value === "string" && (POLICY_FLAG_STATUSES as readonly string[]).includes(value);
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Trimmed, de-duplicated list of strings, or null if the value isn't one
+function parseTermList(value: unknown): string[] | null {
+  if (!Array.isArray(value) || !value.every((term) => typeof term === "string")) return null;
+  const terms = Array.from(new Set(value.map((term: string) => term.trim()).filter(Boolean)));
+  if (terms.length > MAX_TERMS || terms.some((term) => term.length > MAX_TERM_LENGTH)) return null;
+  return terms;
+}
+
+export function parseBusinessHours(value: unknown): BusinessHours | { error: string } {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { error: "business_hours must be an object" };
+  }
+  const input = value as Record<string, unknown>;
+
+  const timezone = typeof input.timezone === "string" ? input.timezone : "";
+  if (!timezone || !isValidTimezone(timezone)) {
+    return { error: "business_hours.timezone must be an IANA time zone, e.g. America/New_York" };
+  }
+
+  if (typeof input.start !== "string" || !TIME_PATTERN.test(input.start) ||
+      typeof input.end !== "string" || !TIME_PATTERN.test(input.end)) {
+    return { error: "business_hours.start and end must be HH:MM" };
+  }
+
+  if (!Array.isArray(input.days) ||
+      !input.days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)) {
+    return { error: "business_hours.days must be weekday numbers (0 = Sunday)" };
+  }
+
+  return {
+    timezone,
+    start: input.start,
+    end: input.end,
+    days: Array.from(new Set(input.days as number[])).sort(),
+  };
+}
+
+type PolicyRuleInput = Partial<Pick<
+  PolicyRule,
+  | "name"
+  | "description"
+  | "keywords"
+  | "patterns"
+  | "external_only"
+  | "after_hours_only"
+  | "business_hours"
+  | "severity"
+  | "notify"
+  | "is_active"
+>>;
+
+interface QuantifierSpan {
+  end: number; // index just past the quantifier
+  max: number;
+}
+
+// Reads a quantifier (*, +, ?, {n}, {n,}, {n,m}, optionally lazy) at `index`
+function readQuantifier(source: string, index: number): QuantifierSpan | null {
+  let end = index;
+  let max: number;
+
+  const ch = source[index];
+  if (ch === "*" || ch === "+") {
+    max = Infinity;
+    end++;
+  } else if (ch === "?") {
+    max = 1;
+    end++;
+  } else {
+    const braces = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(index));
+    if (!braces) return null;
+    max = braces[2] === undefined ? Number(braces[1]) : braces[3] ? Number(braces[3]) : Infinity;
+    end += braces[0].length;
+  }
+
+  if (source[end] === "?") end++;
+  return { end, max };
+}
+
+/**
+ * Whether a regex repeats a group that itself contains an unbounded
+ * quantifier, e.g. (a+)+ or (\w*\s?)*. Backtracking engines can take
+ * exponential time on such patterns when a match fails.
+ */
+export function hasNestedQuantifier(source: string): boolean {
+  // Per open group: whether something inside it repeats without bound
+  const groups: boolean[] = [false];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (ch === "(") {
+      groups.push(false);
+      i++;
+      // Skip the group prefix so its "?" isn't read as a quantifier
+      if (source[i] === "?") {
+        const prefix = /^\?(?::|=|!|<=|<!|<[^>]*>)/.exec(source.slice(i));
+        i += prefix ? prefix[0].length : 1;
+      }
+      continue;
+    }
+
+    let repeatsInside = false;
+    if (ch === ")") {
+      repeatsInside = groups.length > 1 ? groups.pop()! : false;
+      i++;
+    } else if (ch === "[") {
+      // Character class: skip to its closing bracket
+      i++;
+      if (source[i] === "]") i++;
+      while (i < source.length && source[i] !== "]") {
+        i += source[i] === "\\" ? 2 : 1;
+      }
+      i++;
+    } else if (ch === "\\") {
+      i += 2;
+      // \p{...} / \P{...} / \u{...} carry their own braces
+      if (source[i] === "{" && /[pPu]/.test(source[i - 1])) {
+        const close = source.indexOf("}", i);
+        i = close === -1 ? source.length : close + 1;
+      }
+    } else {
+      i++;
+    }
+
+    const quantifier = readQuantifier(source, i);
+    if (quantifier) {
+      if (repeatsInside && quantifier.max > 1) return true;
+      i = quantifier.end;
+    }
+    if (repeatsInside || quantifier?.max === Infinity) {
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Validate a create (all fields) or update (only the fields present) body.
+ * Patterns must compile as JavaScript regexes, the same engine the sync
+ * service evaluates them with, and must not nest quantifiers: the sync
+ * service skips any that do rather than risk stalling on them.
+ */
+export function parsePolicyRuleInput(
+  body: Record<string, unknown>,
+  { partial }: { partial: boolean }
+): { input: PolicyRuleInput } | { error: string } {
+  const input: PolicyRuleInput = {};
+
+  if (!partial || body.name !== undefined) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name || name.length > 100) {
+      return { error: "Name is required (max 100 characters)" };
+    }
+    input.name = name;
+  }
+
+  if (body.description !== undefined) {
+    if (body.description !== null && typeof body.description !== "string") {
+      return { error: "description must be a string" };
+    }
+    input.description = (body.description as string | null)?.trim() || null;
+  }
+
+  if (!partial || body.keywords !== undefined) {
+    const keywords = parseTermList(body.keywords ?? []);
+    if (!keywords) {
+      return { error: `keywords must be a list of up to ${MAX_TERMS} terms` };
+    }
+    input.keywords = keywords;
+  }
+
+  if (!partial || body.patterns !== undefined) {
+    const patterns = parseTermList(body.patterns ?? []);
+    if (!patterns) {
+      return { error: `patterns must be a list of up to ${MAX_TERMS} regexes` };
+    }
+    for (const pattern of patterns) {
+      try {
+        new RegExp(pattern, "iu");
+      } catch {
+        return { error: `Invalid pattern: ${pattern}` };
+      }
+      if (hasNestedQuantifier(pattern)) {
+        return { error: `Pattern repeats a group that contains + or * and could hang the scan: ${pattern}` };
+      }
+    }
+    input.patterns = patterns;
+  }
+
+  for (const key of ["external_only", "after_hours_only", "notify", "is_active"] as const) {
+    if (body[key] !== undefined) {
+      if (typeof body[key] !== "boolean") {
+        return { error: `${key} must be a boolean` };
+      }
+      input[key] = body[key] as boolean;
+    } else if (!partial) {
+      input[key] = key === "notify" || key === "is_active";
+    }
+  }
+
+  if (!partial || body.business_hours !== undefined) {
+    const hours = parseBusinessHours(body.business_hours ?? DEFAULT_BUSINESS_HOURS);
+    if ("error" in hours) return hours;
+    input.business_hours = hours;
+  }
+
+  if (!partial || body.severity !== undefined) {
+    const severity = body.severity ?? "medium";
+    if (!isPolicySeverity(severity)) {
+      return { error: `severity must be one of: ${POLICY_SEVERITIES.join(", ")}` };
+    }
+    input.severity = severity;
+  }
+
+  return { input };
+}
+
+// A rule with no terms and no conditions would flag every message
+export function hasPolicyCriteria(rule: Pick<PolicyRule, "keywords" | "patterns" | "external_only" | "after_hours_only">): boolean {
+  return rule.keywords.length > 0 || rule.patterns.length > 0 || rule.external_only || rule.after_hours_only;
+}
+
+export function describePolicyReason(reason: PolicyFlagReason): string {
+  switch (reason.type) {
+    case "keyword":
+      return `Keyword "${reason.value}"`;
+    case "pattern":
+      return `Pattern match ${reason.value}`;
+    case "external":
+      return "External conversation";
+    case "after_hours":
+      return "Sent outside business hours";
+  }
+}
@@ -166,4 +166,7 @@ export const rateLimitConfigs = {
 
   // Admin endpoints: 50 requests per minute
   admin: { limit: 50, windowSeconds: 60, identifier: "admin" },
+
+  // Sync agent ingest: 300 batches per minute (agents batch their writes)
+  agent: { limit: 300, windowSeconds: 60, identifier: "agent" },
 } as const;
@@ -0,0 +1,78 @@
+export const RECONCILIATION_DATA_TYPES = [
+  "messages",
+  "cdr",
+  "recordings",
+  "voicemails",
+] as const;
+
+export type ReconciliationDataType = (typeof RECONCILIATION_DATA_TYPES)[number];
+
+export interface ReconciliationRun {
+  id: string;
+  tenant_id: string;
+  requested_by: string | null;
+  status: "queued" | "running" | "completed" | "failed";
+  start_date: string;
+  end_date: string;
+  data_types: ReconciliationDataType[];
+  days_checked: number;
+  diff_count: number;
+  missing_total: number;
+  error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  tenant?: { id: string; name: string } | null;
+}
+
+export interface ReconciliationDiff {
+  id: string;
+  run_id: string;
+  tenant_id: string;
+  data_type: ReconciliationDataType;
+  diff_date: string;
+  source_count: number;
+  archived_count: number;
+  missing_count: number;
+  backfill_status: "queued" | "running" | "completed" | "failed" | null;
+  backfill_requested_by: string | null;
+  backfill_requested_at: string | null;
+  backfilled_count: number;
+  still_missing_count: number | null;
+  backfill_error: string | null;
+  backfill_completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Columns for diff listings - missing_ids can hold thousands of entries
+export const RECONCILIATION_DIFF_COLUMNS =
+  "id, run_id, tenant_id, data_type, diff_date, source_count, archived_count, missing_count, backfill_status, backfill_requested_by, backfill_requested_at, backfilled_count, still_missing_count, backfill_error, backfill_completed_at, created_at, updated_at";
+
+// Ranges are capped because every day costs several queries against the customer's 3CX
+export const MAX_RECONCILIATION_DAYS = 31;
+
+export function isReconciliationDataType(value: unknown): value is ReconciliationDataType {
+  return typeof value === "string" && (RECONCILIATION_DATA_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Ask the sync service to start on queued reconciliations and backfills right away.
+ * Best effort: the service also polls the queue every minute.
+ */
+export async function kickReconciliationQueue(): Promise<void> {
+  const syncServiceUrl = process.env.SYNC_SERVICE_URL || "http://localhost:3001";
+  const syncAuthToken = process.env.SYNC_AUTH_TOKEN;
+  if (!syncAuthToken) return;
+
+  try {
+    await fetch(`${syncServiceUrl}/reconciliation`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${syncAuthToken}` },
+      signal: AbortSignal.timeout(5000),
+    });
+  } catch (error) {
+    console.error("Could not reach sync service to start reconciliation:", error);
+  }
+}
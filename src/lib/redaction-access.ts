@@ -0,0 +1,99 @@
+import type { NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { logRedactionAction } from "@/lib/audit";
+import {
+  DEFAULT_REDACTION_RULES,
+  REDACTION_SETTINGS_COLUMNS,
+  createRedactor,
+  type RedactionSettings,
+  type Redactor,
+} from "@/lib/redaction";
+
+// ============================================
+// REDACTION ACCESS
+// ============================================
+// Decides per request whether a user gets redacted data. Users with the
+// redacted_view permission always do; anyone else only when they ask for it
+// (the export and report option). Every unredacted access is audited,
+// whether or not the tenant has saved redaction settings yet.
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+// Where the data is going, recorded with unredacted access
+export type RedactionSurface =
+  | "conversation"
+  | "extension_messages"
+  | "monitor_feed"
+  | "call"
+  | "export"
+  | "report"
+  | "voicemails"
+  | "search"
+  | "saved_search"
+  | "policy_review"
+  | "api";
+
+export async function getRedactionSettings(
+  supabase: AdminClient,
+  tenantId: string
+): Promise<RedactionSettings | null> {
+  const { data } = await supabase
+    .from("redaction_settings")
+    .select(REDACTION_SETTINGS_COLUMNS)
+    .eq("tenant_id", tenantId)
+    .maybeSingle();
+
+  return (data as RedactionSettings | null) ?? null;
+}
+
+export async function hasRedactedView(supabase: AdminClient, userId: string, tenantId: string): Promise<boolean> {
+  const { data } = await supabase
+    .from("user_feature_permissions")
+    .select("redacted_view")
+    .eq("user_id", userId)
+    .eq("tenant_id", tenantId)
+    .maybeSingle();
+
+  return !!data?.redacted_view;
+}
+
+interface ResolveRedactorParams {
+  tenantId: string;
+  userId: string;
+  surface: RedactionSurface;
+  // The caller asked for redacted data (export/report option)
+  requested?: boolean;
+  // Set to false for follow-up requests (paging, polling) of an access that
+  // was already logged
+  logAccess?: boolean;
+  metadata?: Record<string, unknown>;
+  request?: NextRequest;
+}
+
+/**
+ * The redactor to apply to the response, or null to return data as stored.
+ */
+export async function resolveRedactor(
+  supabase: AdminClient,
+  { tenantId, userId, surface, requested = false, logAccess = true, metadata, request }: ResolveRedactorParams
+): Promise<Redactor | null> {
+  const [settings, enforced] = await Promise.all([
+    getRedactionSettings(supabase, tenantId),
+    hasRedactedView(supabase, userId, tenantId),
+  ]);
+
+  if (enforced || requested) {
+    return createRedactor(settings ?? DEFAULT_REDACTION_RULES);
+  }
+
+  if (logAccess) {
+    await logRedactionAction("redaction.unredacted_access", {
+      tenantId,
+      userId,
+      metadata: { surface, ...metadata },
+      request,
+    });
+  }
+
+  return null;
+}
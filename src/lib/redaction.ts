@@ -0,0 +1,238 @@
+// ============================================
+// PII REDACTION
+// ============================================
+// Masks personal data in message text and phone-number fields when data
+// leaves the API for a redacted view, export or report. Nothing here touches
+// the archive: callers redact copies of the rows they are about to return.
+// Client-safe; tenant settings and access checks live in redaction-access.ts.
+
+import { hasNestedQuantifier } from "@/lib/policy-rules";
+
+export const REDACTION_PRESETS = ["card_number", "us_ssn", "iban", "email", "phone_number"] as const;
+
+export type RedactionPreset = (typeof REDACTION_PRESETS)[number];
+
+export const REDACTION_PRESET_LABELS: Record<RedactionPreset, string> = {
+  card_number: "Card numbers",
+  us_ssn: "US Social Security numbers",
+  iban: "IBANs",
+  email: "Email addresses",
+  phone_number: "Phone numbers in message text",
+};
+
+const PRESET_PATTERNS: Record<RedactionPreset, string> = {
+  card_number: "\\b(?:\\d[ -]?){12,15}\\d\\b",
+  us_ssn: "\\b\\d{3}-\\d{2}-\\d{4}\\b",
+  iban: "\\b[A-Z]{2}\\d{2}(?: ?[A-Z0-9]{4}){3,7}(?: ?[A-Z0-9]{1,3})?\\b",
+  email: "[\\p{L}\\p{N}._%+-]+@[\\p{L}\\p{N}.-]+\\.[\\p{L}]{2,}",
+  // International (+...) or North American (555) 123-4567 style
+  phone_number: "\\+\\d[\\d\\s().-]{6,18}\\d|\\(?\\b\\d{3}\\)?[\\s.-]?\\d{3}[\\s.-]\\d{4}\\b",
+};
+
+export const REDACTION_MASK = "[REDACTED]";
+
+export interface RedactionSettings {
+  tenant_id: string;
+  presets: RedactionPreset[];
+  custom_patterns: string[];
+  mask_external_numbers: boolean;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RedactionRules = Pick<RedactionSettings, "presets" | "custom_patterns" | "mask_external_numbers">;
+
+// Used for export and report redaction before a tenant has saved settings
+export const DEFAULT_REDACTION_RULES: RedactionRules = {
+  presets: ["card_number", "us_ssn"],
+  custom_patterns: [],
+  mask_external_numbers: true,
+};
+
+export const REDACTION_SETTINGS_COLUMNS =
+  "tenant_id, presets, custom_patterns, mask_external_numbers, updated_by, created_at, updated_at";
+
+const MAX_CUSTOM_PATTERNS = 20;
+const MAX_PATTERN_LENGTH = 200;
+
+// Free text that may contain any of the patterns
+const TEXT_FIELDS = new Set([
+  "content", "message_text", "messageText", "transcription", "snippet", "body",
+]);
+
+// Display names, which are often just the customer's number
+const NAME_FIELDS = new Set([
+  "sender_name", "senderName", "caller_name", "callee_name", "external_name",
+  "participant_name", "conversation_name", "conversationName",
+]);
+
+// Fields holding one identifier: an internal extension or an external number
+const NUMBER_FIELDS = new Set([
+  "sender_identifier", "sender_extension", "senderExtension", "caller_number", "callee_number", "remote_number",
+  "external_id", "external_number", "participant_identifier", "from_number", "to_number",
+]);
+
+export function isRedactionPreset(value: unknown): value is RedactionPreset {
+  return typeof value === "string" && (REDACTION_PRESETS as readonly string[]).includes(value);
+}
+
+/**
+ * Internal extensions are short digit strings (101, 9001) and stay visible;
+ * anything else with seven or more digits is a customer's number.
+ */
+export function isExternalNumber(value: string): boolean {
+  const trimmed = value.trim();
+  if (/^\d{1,6}$/.test(trimmed)) return false;
+  if (!/^\+?[\d\s().-]+$/.test(trimmed)) return false;
+  return trimmed.replace(/\D/g, "").length >= 7;
+}
+
+// Only the last two digits are kept, enough to tell numbers apart
+export function maskNumber(value: string): string {
+  const digits = value.replace(/\D/g, "");
+  return `${value.trim().startsWith("+") ? "+" : ""}${"•".repeat(Math.max(digits.length - 2, 5))}${digits.slice(-2)}`;
+}
+
+export interface Redactor {
+  text(value: string | null): string | null;
+  // A display name, which may just be a customer's number
+  name(value: string | null): string | null;
+  record<T>(value: T): T;
+}
+
+/**
+ * Why a custom pattern can't be used, or null if it can. Custom patterns run
+ * over every redacted view, export and webhook payload, so besides compiling
+ * they must not hang on a failed match (a repeated group that itself repeats,
+ * like (a+)+) or match the empty string.
+ */
+export function customPatternError(pattern: string): string | null {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, "giu");
+  } catch {
+    return `Invalid pattern: ${pattern}`;
+  }
+  if (hasNestedQuantifier(pattern)) {
+    return `Pattern repeats a group that contains + or * and could hang redaction: ${pattern}`;
+  }
+  if (regex.test("")) {
+    return `Pattern matches empty text: ${pattern}`;
+  }
+  return null;
+}
+
+/**
+ * Build a redactor for a tenant's rules. Unusable custom patterns are skipped
+ * (they are validated on save, so this only guards against old rows).
+ */
+export function createRedactor(rules: RedactionRules): Redactor {
+  const patterns: RegExp[] = [];
+  for (const source of [
+    ...rules.presets.filter((p) => p !== "phone_number").map((p) => PRESET_PATTERNS[p]),
+    ...rules.custom_patterns.filter((p) => customPatternError(p) === null),
+  ]) {
+    try {
+      patterns.push(new RegExp(source, "giu"));
+    } catch {
+      // skip
+    }
+  }
+  // Phone numbers last, so card numbers aren't half-masked as phone numbers
+  const maskPhones = rules.mask_external_numbers || rules.presets.includes("phone_number");
+  const phonePattern = new RegExp(PRESET_PATTERNS.phone_number, "gu");
+
+  function text(value: string | null): string | null {
+    if (!value) return value;
+    let result = value;
+    for (const pattern of patterns) {
+      result = result.replace(pattern, REDACTION_MASK);
+    }
+    if (rules.presets.includes("phone_number")) {
+      result = result.replace(phonePattern, (match) => maskNumber(match));
+    }
+    return result;
+  }
+
+  function name(value: string | null): string | null {
+    if (!value || !maskPhones) return value;
+    if (isExternalNumber(value)) return maskNumber(value);
+    return value.replace(phonePattern, (match) => maskNumber(match));
+  }
+
+  function identifier(value: string | null): string | null {
+    if (!value || !rules.mask_external_numbers) return value;
+    return isExternalNumber(value) ? maskNumber(value) : value;
+  }
+
+  function record<T>(value: T): T {
+    if (Array.isArray(value)) {
+      return value.map((item) => record(item)) as T;
+    }
+    if (!value || typeof value !== "object") return value;
+
+    const result: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value as Record<string, unknown>)) {
+      if (typeof field === "string") {
+        result[key] = TEXT_FIELDS.has(key)
+          ? text(field)
+          : NAME_FIELDS.has(key)
+            ? name(field)
+            : NUMBER_FIELDS.has(key)
+              ? identifier(field)
+              : field;
+      } else if (field && typeof field === "object") {
+        result[key] = record(field);
+      } else {
+        result[key] = field;
+      }
+    }
+    return result as T;
+  }
+
+  return { text, name, record };
+}
+
+type RedactionSettingsInput = Partial<RedactionRules>;
+
+/**
+ * Validate a settings update (only the fields present). Custom patterns must
+ * pass customPatternError().
+ */
+export function parseRedactionSettingsInput(
+  body: Record<string, unknown>
+): { input: RedactionSettingsInput } | { error: string } {
+  const input: RedactionSettingsInput = {};
+
+  if (body.presets !== undefined) {
+    if (!Array.isArray(body.presets) || !body.presets.every(isRedactionPreset)) {
+      return { error: `presets must be a list of: ${REDACTION_PRESETS.join(", ")}` };
+    }
+    input.presets = Array.from(new Set(body.presets as RedactionPreset[]));
+  }
+
+  if (body.custom_patterns !== undefined) {
+    if (!Array.isArray(body.custom_patterns) || !body.custom_patterns.every((p) => typeof p === "string")) {
+      return { error: "custom_patterns must be a list of regexes" };
+    }
+    const patterns = Array.from(new Set((body.custom_patterns as string[]).map((p) => p.trim()).filter(Boolean)));
+    if (patterns.length > MAX_CUSTOM_PATTERNS || patterns.some((p) => p.length > MAX_PATTERN_LENGTH)) {
+      return { error: `Up to ${MAX_CUSTOM_PATTERNS} custom patterns of ${MAX_PATTERN_LENGTH} characters each` };
+    }
+    for (const pattern of patterns) {
+      const error = customPatternError(pattern);
+      if (error) return { error };
+    }
+    input.custom_patterns = patterns;
+  }
+
+  if (body.mask_external_numbers !== undefined) {
+    if (typeof body.mask_external_numbers !== "boolean") {
+      return { error: "mask_external_numbers must be a boolean" };
+    }
+    input.mask_external_numbers = body.mask_external_numbers;
+  }
+
+  return { input };
+}
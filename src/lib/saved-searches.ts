@@ -0,0 +1,207 @@
+import { isSearchResultType, type SearchResultType } from "@/lib/search";
+
+export const SAVED_SEARCH_SCHEDULES = ["none", "daily", "weekly"] as const;
+
+export type SavedSearchSchedule = (typeof SAVED_SEARCH_SCHEDULES)[number];
+
+export const SAVED_SEARCH_SCHEDULE_LABELS: Record<SavedSearchSchedule, string> = {
+  none: "Not scheduled",
+  daily: "Daily",
+  weekly: "Weekly",
+};
+
+export const SAVED_SEARCH_DELIVERIES = ["email", "notification"] as const;
+
+export type SavedSearchDelivery = (typeof SAVED_SEARCH_DELIVERIES)[number];
+
+export const SAVED_SEARCH_DELIVERY_LABELS: Record<SavedSearchDelivery, string> = {
+  email: "Email",
+  notification: "My notification settings",
+};
+
+// Everything from SearchFilters except the free-text query
+export interface SavedSearchFilters {
+  types?: SearchResultType[];
+  channel_type?: string;
+  extension?: string;
+  has_media?: boolean;
+  conversation_id?: string;
+  start_date?: string;
+  end_date?: string;
+}
+
+export interface SavedSearch {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  name: string;
+  query: string;
+  filters: SavedSearchFilters;
+  is_shared: boolean;
+  schedule: SavedSearchSchedule;
+  delivery: SavedSearchDelivery;
+  last_run_at: string | null;
+  next_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A hit as recorded in a run's history
+export interface SavedSearchRunMatch {
+  type: SearchResultType;
+  id: string;
+  conversation_id: string | null;
+  title: string | null;
+  snippet: string | null;
+  occurred_at: string | null;
+}
+
+export interface SavedSearchRun {
+  id: string;
+  saved_search_id: string;
+  trigger: "schedule" | "manual";
+  status: "running" | "completed" | "failed";
+  window_start: string;
+  window_end: string;
+  match_count: number;
+  matches: SavedSearchRunMatch[];
+  notified: boolean;
+  error: string | null;
+  started_at: string;
+  completed_at: string | null;
+}
+
+export const SAVED_SEARCH_COLUMNS =
+  "id, tenant_id, user_id, name, query, filters, is_shared, schedule, delivery, last_run_at, next_run_at, created_at, updated_at";
+
+export const SAVED_SEARCH_RUN_COLUMNS =
+  "id, saved_search_id, trigger, status, window_start, window_end, match_count, matches, notified, error, started_at, completed_at";
+
+// Hits kept per run in the history (the count covers all of them)
+export const SAVED_SEARCH_RUN_MATCH_LIMIT = 50;
+
+export const MAX_SAVED_SEARCHES_PER_USER = 50;
+
+export function isSavedSearchSchedule(value: unknown): value is SavedSearchSchedule {
+  return typeof value === "string" && (SAVED_SEARCH_SCHEDULES as readonly string[]).includes(value);
+}
+
+export function isSavedSearchDelivery(value: unknown): value is SavedSearchDelivery {
+  return typeof value === "string" && (SAVED_SEARCH_DELIVERIES as readonly string[]).includes(value);
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse saved filters from a request body, dropping empty values. Returns
+ * null if any field has the wrong type.
+ */
+export function parseSavedSearchFilters(value: unknown): SavedSearchFilters | null {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== "object" || Array.isArray(value)) return null;
+
+  const input = value as Record<string, unknown>;
+  const filters: SavedSearchFilters = {};
+
+  if (input.types !== undefined) {
+    if (!Array.isArray(input.types) || !input.types.every(isSearchResultType)) return null;
+    if (input.types.length > 0) filters.types = Array.from(new Set(input.types));
+  }
+
+  for (const key of ["channel_type", "extension", "conversation_id"] as const) {
+    const field = input[key];
+    if (field === undefined || field === null || field === "") continue;
+    if (typeof field !== "string" || field.length > 100) return null;
+    filters[key] = field;
+  }
+
+  for (const key of ["start_date", "end_date"] as const) {
+    const field = input[key];
+    if (field === undefined || field === null || field === "") continue;
+    if (typeof field !== "string" || !DATE_PATTERN.test(field)) return null;
+    filters[key] = field;
+  }
+
+  if (input.has_media !== undefined && input.has_media !== null) {
+    if (typeof input.has_media !== "boolean") return null;
+    filters.has_media = input.has_media;
+  }
+
+  return filters;
+}
+
+/**
+ * When a schedule next runs after `from`, or null for unscheduled searches.
+ */
+export function nextSavedSearchRun(schedule: SavedSearchSchedule, from: Date = new Date()): string | null {
+  if (schedule === "none") return null;
+  const days = schedule === "daily" ? 1 : 7;
+  return new Date(from.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+type SavedSearchInput = Partial<Pick<SavedSearch, "name" | "query" | "filters" | "is_shared" | "schedule" | "delivery">>;
+
+/**
+ * Validate a create (all fields) or update (only the fields present) body.
+ */
+export function parseSavedSearchInput(
+  body: Record<string, unknown>,
+  { partial }: { partial: boolean }
+): { input: SavedSearchInput } | { error: string } {
+  const input: SavedSearchInput = {};
+
+  if (!partial || body.name !== undefined) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name || name.length > 100) {
+      return { error: "Name is required (max 100 characters)" };
+    }
+    input.name = name;
+  }
+
+  if (!partial || body.query !== undefined) {
+    if (body.query !== undefined && body.query !== null && typeof body.query !== "string") {
+      return { error: "query must be a string" };
+    }
+    const query = typeof body.query === "string" ? body.query.trim() : "";
+    if (query.length > 500) {
+      return { error: "query is too long (max 500 characters)" };
+    }
+    input.query = query;
+  }
+
+  if (!partial || body.filters !== undefined) {
+    const filters = parseSavedSearchFilters(body.filters);
+    if (!filters) {
+      return { error: "Invalid filters" };
+    }
+    input.filters = filters;
+  }
+
+  if (!partial || body.is_shared !== undefined) input.is_shared = !!body.is_shared;
+
+  if (!partial || body.schedule !== undefined) {
+    const schedule = body.schedule ?? "none";
+    if (!isSavedSearchSchedule(schedule)) {
+      return { error: `schedule must be one of: ${SAVED_SEARCH_SCHEDULES.join(", ")}` };
+    }
+    input.schedule = schedule;
+  }
+
+  if (!partial || body.delivery !== undefined) {
+    const delivery = body.delivery ?? "email";
+    if (!isSavedSearchDelivery(delivery)) {
+      return { error: `delivery must be one of: ${SAVED_SEARCH_DELIVERIES.join(", ")}` };
+    }
+    input.delivery = delivery;
+  }
+
+  return { input };
+}
+
+// A search needs something to match on, or every new record would alert
+export function hasSearchCriteria(query: string, filters: SavedSearchFilters): boolean {
+  return (
+    query.trim().length >= 2 ||
+    !!(filters.channel_type || filters.extension || filters.conversation_id || filters.start_date || filters.end_date)
+  );
+}
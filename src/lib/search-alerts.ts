@@ -0,0 +1,256 @@
+import { createAdminClient } from "@/lib/supabase/admin";
+import { sendNotification } from "@/lib/notifications";
+import { resolveUserAccess } from "@/lib/user-access";
+import { redactHighlighted, searchArchive, type SearchCriteria } from "@/lib/search-query";
+import { resolveRedactor } from "@/lib/redaction-access";
+import type { Redactor } from "@/lib/redaction";
+import { SEARCH_RESULT_TYPES, SEARCH_RESULT_TYPE_LABELS, searchHitHref, type SearchHit } from "@/lib/search";
+import {
+  SAVED_SEARCH_COLUMNS,
+  SAVED_SEARCH_RUN_COLUMNS,
+  SAVED_SEARCH_RUN_MATCH_LIMIT,
+  nextSavedSearchRun,
+  type SavedSearch,
+  type SavedSearchRun,
+  type SavedSearchRunMatch,
+} from "@/lib/saved-searches";
+
+// ============================================
+// SAVED SEARCH ALERTS
+// ============================================
+// A run finds records that first entered the search index between the
+// previous run and now, searched as the saved search's owner, and notifies
+// the owner when there are any. Runs come from the saved-searches cron for
+// scheduled searches, or from "Run now".
+
+// Matches listed in the alert itself; the rest are a click away
+const ALERT_MATCH_LIMIT = 10;
+
+export function savedSearchCriteria(search: SavedSearch): SearchCriteria {
+  const filters = search.filters || {};
+  return {
+    query: search.query,
+    types: filters.types?.length ? filters.types : [...SEARCH_RESULT_TYPES],
+    channelType: filters.channel_type || null,
+    extension: filters.extension || null,
+    conversationId: filters.conversation_id || null,
+    hasMedia: filters.has_media ?? null,
+    startDate: filters.start_date || null,
+    endDate: filters.end_date || null,
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Mask stored run matches for whoever is viewing them: runs are recorded as
+ * the owner saw them, but a tenant admin may also read the history.
+ */
+export function redactRunMatches(matches: SavedSearchRunMatch[], redactor: Redactor): SavedSearchRunMatch[] {
+  return matches.map((match) => ({
+    ...match,
+    title: redactor.name(match.title),
+    snippet: redactHighlighted(match.snippet, redactor.text),
+  }));
+}
+
+// Snippets mark matches with private-use delimiters (see search_archive())
+function snippetToHtml(snippet: string): string {
+  return escapeHtml(snippet).replace(/\uE000/g, "<mark>").replace(/\uE001/g, "</mark>");
+}
+
+function snippetToText(snippet: string): string {
+  return snippet.replace(/[\uE000\uE001]/g, "");
+}
+
+// Runs come from the cron, which has no session, so the owner's contact
+// details are looked up here with the admin client rather than left to the
+// notification helpers
+async function notifyOwner(
+  supabase: ReturnType<typeof createAdminClient>,
+  search: SavedSearch,
+  hits: SearchHit[],
+  matchCount: number
+): Promise<boolean> {
+  const { data: owner } = await supabase
+    .from("user_profiles")
+    .select("email")
+    .eq("id", search.user_id)
+    .single();
+
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "https://backupwiz.com";
+  const searchUrl = `${baseUrl}/search?saved=${search.id}`;
+  const subject = `Search alert: ${search.name} — ${matchCount} new match${matchCount !== 1 ? "es" : ""}`;
+  const listed = hits.slice(0, ALERT_MATCH_LIMIT);
+
+  const htmlItems = listed
+    .map((hit) => {
+      const title = escapeHtml(hit.title ? snippetToText(hit.title) : "Unknown");
+      const snippet = hit.snippet ? `<br/><span style="color:#555">${snippetToHtml(hit.snippet)}</span>` : "";
+      return `<li style="margin-bottom:8px"><a href="${baseUrl}${searchHitHref(hit, search.query)}">${title}</a> <span style="color:#888">(${SEARCH_RESULT_TYPE_LABELS[hit.type]}${hit.occurred_at ? `, ${new Date(hit.occurred_at).toUTCString()}` : ""})</span>${snippet}</li>`;
+    })
+    .join("");
+  const textItems = listed
+    .map((hit) => `- ${hit.title ? snippetToText(hit.title) : "Unknown"} (${SEARCH_RESULT_TYPE_LABELS[hit.type]}): ${baseUrl}${searchHitHref(hit, search.query)}`)
+    .join("\n");
+  const more = matchCount > listed.length ? matchCount - listed.length : 0;
+
+  const result = await sendNotification({
+    userId: search.user_id,
+    tenantId: search.tenant_id,
+    type: "saved_search_alert",
+    channels: search.delivery === "email" ? ["email"] : undefined,
+    email: owner?.email || undefined,
+    subject,
+    html: `
+      <p>Your saved search <strong>${escapeHtml(search.name)}</strong> found ${matchCount} new match${matchCount !== 1 ? "es" : ""} since it last ran.</p>
+      <ul>${htmlItems}</ul>
+      ${more > 0 ? `<p>…and ${more} more.</p>` : ""}
+      <p><a href="${searchUrl}">Open the search</a></p>
+    `,
+    text: `Your saved search "${search.name}" found ${matchCount} new matches since it last ran.\n\n${textItems}${more > 0 ? `\n...and ${more} more.` : ""}\n\nOpen the search: ${searchUrl}`,
+    title: subject,
+    body: `${matchCount} new match${matchCount !== 1 ? "es" : ""} for "${search.name}"`,
+    data: { url: searchUrl },
+    actionUrl: searchUrl,
+    actionLabel: "Open search",
+  });
+
+  return result.success;
+}
+
+/**
+ * Run one saved search now. Failed runs leave the window where it was, so
+ * the next run picks up the same records.
+ */
+export async function runSavedSearch(
+  search: SavedSearch,
+  trigger: SavedSearchRun["trigger"]
+): Promise<SavedSearchRun> {
+  const supabase = createAdminClient();
+  const windowStart = search.last_run_at || search.created_at;
+  const windowEnd = new Date().toISOString();
+  const nextRunAt = nextSavedSearchRun(search.schedule);
+
+  const { data: run, error: runError } = await supabase
+    .from("saved_search_runs")
+    .insert({
+      saved_search_id: search.id,
+      tenant_id: search.tenant_id,
+      trigger,
+      window_start: windowStart,
+      window_end: windowEnd,
+    })
+    .select(SAVED_SEARCH_RUN_COLUMNS)
+    .single();
+
+  if (runError || !run) {
+    throw new Error(`Could not record saved search run: ${runError?.message}`);
+  }
+
+  try {
+    const access = await resolveUserAccess(supabase, search.user_id, search.tenant_id);
+    if (!access) {
+      throw new Error("The search owner no longer has access to this tenant");
+    }
+
+    // The alert quotes matches, so the owner's redaction applies to it
+    const redactor = await resolveRedactor(supabase, {
+      tenantId: search.tenant_id,
+      userId: search.user_id,
+      surface: "saved_search",
+      metadata: { saved_search_id: search.id, trigger },
+    });
+
+    const page = await searchArchive(
+      supabase,
+      search.tenant_id,
+      access,
+      { ...savedSearchCriteria(search), indexedAfter: windowStart, indexedBefore: windowEnd },
+      { limit: SAVED_SEARCH_RUN_MATCH_LIMIT, withFacets: true, redactor }
+    );
+
+    const matchCount = page.total ?? page.hits.length;
+    const notified = matchCount > 0 ? await notifyOwner(supabase, search, page.hits, matchCount) : false;
+
+    const matches: SavedSearchRunMatch[] = page.hits.map((hit) => ({
+      type: hit.type,
+      id: hit.id,
+      conversation_id: hit.conversation_id,
+      title: hit.title,
+      snippet: hit.snippet,
+      occurred_at: hit.occurred_at,
+    }));
+
+    const { data: completed } = await supabase
+      .from("saved_search_runs")
+      .update({
+        status: "completed",
+        match_count: matchCount,
+        matches,
+        notified,
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", run.id)
+      .select(SAVED_SEARCH_RUN_COLUMNS)
+      .single();
+
+    await supabase
+      .from("saved_searches")
+      .update({ last_run_at: windowEnd, next_run_at: nextRunAt, updated_at: new Date().toISOString() })
+      .eq("id", search.id);
+
+    return (completed || run) as SavedSearchRun;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(`Saved search ${search.id} run failed:`, error);
+
+    const { data: failed } = await supabase
+      .from("saved_search_runs")
+      .update({ status: "failed", error: message, completed_at: new Date().toISOString() })
+      .eq("id", run.id)
+      .select(SAVED_SEARCH_RUN_COLUMNS)
+      .single();
+
+    // Still move the schedule on, so a broken search isn't retried every cron tick
+    await supabase
+      .from("saved_searches")
+      .update({ next_run_at: nextRunAt, updated_at: new Date().toISOString() })
+      .eq("id", search.id);
+
+    return (failed || { ...run, status: "failed", error: message }) as SavedSearchRun;
+  }
+}
+
+/**
+ * Run every scheduled search that is due (called by the saved-searches
+ * cron). Returns how many ran.
+ */
+export async function runDueSavedSearches(): Promise<number> {
+  const supabase = createAdminClient();
+
+  const { data: due, error } = await supabase
+    .from("saved_searches")
+    .select(SAVED_SEARCH_COLUMNS)
+    .neq("schedule", "none")
+    .lte("next_run_at", new Date().toISOString())
+    .order("next_run_at", { ascending: true })
+    .limit(100);
+
+  if (error) {
+    console.error("Failed to fetch due saved searches:", error);
+    return 0;
+  }
+
+  for (const search of (due || []) as SavedSearch[]) {
+    try {
+      await runSavedSearch(search, "schedule");
+    } catch (runError) {
+      console.error(`Saved search ${search.id} could not run:`, runError);
+    }
+  }
+
+  return (due || []).length;
+}
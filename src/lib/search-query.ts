@@ -0,0 +1,209 @@
+import { createAdminClient } from "@/lib/supabase/admin";
+import { encodeRankCursor, type RankCursor } from "@/lib/cursor";
+import type { ExtensionGrant, UserAccess } from "@/lib/user-access";
+import type { Redactor } from "@/lib/redaction";
+import {
+  SEARCH_RESULT_TYPES,
+  type SearchFacets,
+  type SearchHit,
+  type SearchResultType,
+} from "@/lib/search";
+
+// ============================================
+// SEARCH EXECUTION
+// ============================================
+// Runs search_archive() / search_archive_facets() for one user. Shared by
+// /api/search and saved search alerts, which run as the search's owner.
+
+export interface SearchCriteria {
+  query: string;
+  types: SearchResultType[];
+  channelType: string | null;
+  extension: string | null;
+  conversationId: string | null;
+  hasMedia: boolean | null;
+  startDate: string | null; // YYYY-MM-DD, on the record's own timestamp
+  endDate: string | null;
+  // Only this 3CX system (the dashboard's pick); every system when unset
+  pbxInstanceId?: string | null;
+  // Bounds on when records first entered the index (alerts)
+  indexedAfter?: string | null;
+  indexedBefore?: string | null;
+}
+
+export interface SearchPage {
+  hits: SearchHit[];
+  hasMore: boolean;
+  nextCursor: string | null;
+  facets: SearchFacets | null;
+  total: number | null;
+}
+
+interface SearchRow {
+  entity_type: SearchResultType;
+  entity_id: string;
+  conversation_id: string | null;
+  channel_type: string | null;
+  extension_number: string | null;
+  title: string | null;
+  title_snippet: string | null;
+  snippet: string | null;
+  occurred_at: string | null;
+  has_media: boolean;
+  rank: number | string;
+}
+
+// Redact a snippet without its highlight markers, which could split a card
+// number or address so the patterns miss it. Highlighting is only dropped
+// from snippets that redaction changed.
+export function redactHighlighted(value: string | null, redact: (value: string | null) => string | null): string | null {
+  if (!value) return value;
+  const plain = value.replace(/[\uE000\uE001]/g, "");
+  const redacted = redact(plain);
+  return redacted === plain ? value : redacted;
+}
+
+// search_archive() matches extension hits on "<pbx_instance_id>:<number>",
+// so a grant only covers the extension on its own 3CX system
+function extensionGrantKeys(grants: ExtensionGrant[]): string[] {
+  return grants.map((grant) => `${grant.pbxInstanceId ?? ""}:${grant.number}`);
+}
+
+// Types the user's feature permissions allow; per-conversation and
+// per-extension filtering happens inside search_archive()
+export function permittedSearchTypes(access: UserAccess): SearchResultType[] {
+  return SEARCH_RESULT_TYPES.filter((type) => {
+    if (access.bypass) return true;
+    if (type === "call") return access.canViewCdr;
+    if (type === "voicemail") return access.canViewVoicemails;
+    if (type === "fax") return access.canViewFaxes;
+    return true;
+  });
+}
+
+/**
+ * Fetch one page of hits, best first. Facets are only computed when asked
+ * for (the first page); they count every permitted type so the type tabs
+ * keep their numbers while one type is selected. Titles and snippets are
+ * masked when a redactor is given.
+ */
+export async function searchArchive(
+  supabase: ReturnType<typeof createAdminClient>,
+  tenantId: string,
+  access: UserAccess,
+  criteria: SearchCriteria,
+  {
+    limit,
+    cursor = null,
+    withFacets = false,
+    redactor = null,
+  }: { limit: number; cursor?: RankCursor | null; withFacets?: boolean; redactor?: Redactor | null }
+): Promise<SearchPage> {
+  const permitted = permittedSearchTypes(access);
+  const types = criteria.types.filter((type) => permitted.includes(type));
+  if (types.length === 0) {
+    return {
+      hits: [],
+      hasMore: false,
+      nextCursor: null,
+      facets: withFacets ? { type: {}, channel: {}, extension: {} } : null,
+      total: withFacets ? 0 : null,
+    };
+  }
+
+  const filters = {
+    p_tenant_id: tenantId,
+    p_query: criteria.query,
+    p_types: types,
+    p_channel_type: criteria.channelType,
+    p_extension: criteria.extension,
+    p_conversation_id: criteria.conversationId,
+    p_has_media: criteria.hasMedia,
+    p_start: criteria.startDate ? `${criteria.startDate}T00:00:00.000Z` : null,
+    p_end: criteria.endDate ? `${criteria.endDate}T23:59:59.999Z` : null,
+    p_conversation_ids: access.bypass ? null : access.conversationIds,
+    p_extension_grants: access.bypass ? null : extensionGrantKeys(access.extensions),
+    p_indexed_after: criteria.indexedAfter ?? null,
+    p_indexed_before: criteria.indexedBefore ?? null,
+    p_pbx_instance_id: criteria.pbxInstanceId ?? null,
+  };
+
+  const [{ data: rows, error }, facetResult] = await Promise.all([
+    supabase.rpc("search_archive", {
+      ...filters,
+      p_limit: limit + 1,
+      p_after_rank: cursor?.r ?? null,
+      p_after_occurred_at: cursor?.t ?? null,
+      p_after_id: cursor?.id ?? null,
+    }),
+    withFacets ? supabase.rpc("search_archive_facets", { ...filters, p_types: permitted }) : null,
+  ]);
+
+  if (error || facetResult?.error) {
+    throw new Error(`Search failed: ${(error || facetResult?.error)?.message}`);
+  }
+
+  const pageRows = ((rows || []) as SearchRow[]).slice(0, limit);
+  const hasMore = (rows || []).length > limit;
+
+  // Message hits show which conversation they're in
+  const messageConversationIds = Array.from(
+    new Set(
+      pageRows
+        .filter((row) => row.entity_type === "message" && row.conversation_id)
+        .map((row) => row.conversation_id as string)
+    )
+  );
+  const conversationNames = new Map<string, string | null>();
+  if (messageConversationIds.length > 0) {
+    const { data: conversations } = await supabase
+      .from("conversations")
+      .select("id, conversation_name")
+      .in("id", messageConversationIds);
+
+    for (const conversation of conversations || []) {
+      conversationNames.set(conversation.id, conversation.conversation_name);
+    }
+  }
+
+  const hits: SearchHit[] = pageRows.map((row) => {
+    const conversationName =
+      row.entity_type === "message" && row.conversation_id
+        ? conversationNames.get(row.conversation_id) ?? null
+        : null;
+
+    return {
+      type: row.entity_type,
+      id: row.entity_id,
+      conversation_id: row.conversation_id,
+      conversation_name: redactor ? redactor.name(conversationName) : conversationName,
+      channel_type: row.channel_type,
+      extension_number: row.extension_number,
+      title: redactor ? redactor.name(row.title) : row.title,
+      title_snippet: redactor ? redactHighlighted(row.title_snippet, redactor.name) : row.title_snippet,
+      snippet: redactor ? redactHighlighted(row.snippet, redactor.text) : row.snippet,
+      occurred_at: row.occurred_at,
+      has_media: row.has_media,
+      rank: Number(row.rank),
+    };
+  });
+
+  let facets: SearchFacets | null = null;
+  let total: number | null = null;
+  if (facetResult) {
+    facets = { type: {}, channel: {}, extension: {} };
+    for (const row of (facetResult.data || []) as Array<{ facet: keyof SearchFacets; value: string; hits: number | string }>) {
+      (facets[row.facet] as Record<string, number>)[row.value] = Number(row.hits);
+    }
+    total = types.reduce((sum, type) => sum + (facets?.type[type] || 0), 0);
+  }
+
+  const last = hits[hits.length - 1];
+  return {
+    hits,
+    hasMore,
+    nextCursor: hasMore && last ? encodeRankCursor(last.rank, last.occurred_at, last.id) : null,
+    facets,
+    total,
+  };
+}
@@ -0,0 +1,87 @@
+// ============================================
+// UNIFIED SEARCH
+// ============================================
+// Shared between /api/search and the search page. Hits come from the
+// search_index table (see supabase/migrations/20260712_search_index.sql).
+
+export const SEARCH_RESULT_TYPES = ["message", "conversation", "call", "voicemail", "fax", "extension"] as const;
+
+export type SearchResultType = (typeof SEARCH_RESULT_TYPES)[number];
+
+export const SEARCH_RESULT_TYPE_LABELS: Record<SearchResultType, string> = {
+  message: "Messages",
+  conversation: "Conversations",
+  call: "Calls",
+  voicemail: "Voicemails",
+  fax: "Faxes",
+  extension: "Extensions",
+};
+
+export interface SearchHit {
+  type: SearchResultType;
+  id: string;
+  conversation_id: string | null;
+  conversation_name: string | null; // messages only
+  channel_type: string | null;
+  extension_number: string | null;
+  title: string | null;
+  title_snippet: string | null;
+  snippet: string | null;
+  occurred_at: string | null;
+  has_media: boolean;
+  rank: number;
+}
+
+// Hit counts per facet value across the whole result set, not just the page
+export interface SearchFacets {
+  type: Partial<Record<SearchResultType, number>>;
+  channel: Record<string, number>;
+  extension: Record<string, number>;
+}
+
+export function isSearchResultType(value: unknown): value is SearchResultType {
+  return typeof value === "string" && (SEARCH_RESULT_TYPES as readonly string[]).includes(value);
+}
+
+// Snippet match delimiters (Unicode private use, never present in archived text)
+const SNIPPET_MATCH = /\uE000([^\uE001]*)\uE001/g;
+
+/**
+ * Split a server snippet into plain and matched runs, so it can be rendered
+ * with <mark> without trusting it as HTML.
+ */
+export function splitSnippet(snippet: string): Array<{ text: string; match: boolean }> {
+  const parts: Array<{ text: string; match: boolean }> = [];
+  let last = 0;
+
+  for (const found of snippet.matchAll(SNIPPET_MATCH)) {
+    if (found.index > last) parts.push({ text: snippet.slice(last, found.index), match: false });
+    parts.push({ text: found[1], match: true });
+    last = found.index + found[0].length;
+  }
+  if (last < snippet.length) parts.push({ text: snippet.slice(last), match: false });
+
+  return parts;
+}
+
+/**
+ * Where a hit opens in the dashboard.
+ */
+export function searchHitHref(hit: SearchHit, query: string): string {
+  const q = encodeURIComponent(query);
+
+  switch (hit.type) {
+    case "message":
+      return `/conversations/${hit.conversation_id}?highlight=${hit.id}&q=${q}`;
+    case "conversation":
+      return `/conversations/${hit.id}?q=${q}`;
+    case "call":
+      return "/call-logs";
+    case "voicemail":
+      return "/voicemails";
+    case "fax":
+      return "/faxes";
+    case "extension":
+      return "/extensions";
+  }
+}
@@ -0,0 +1,26 @@
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getSignedUrl as getSpacesSignedUrl } from "./spaces";
+
+/**
+ * Short-lived download URL for an archived file, from whichever backend it
+ * was stored in.
+ */
+export async function getArchiveFileUrl(
+  storagePath: string,
+  storageBackend: string | null,
+  expiresIn = 3600
+): Promise<string> {
+  if (storageBackend === "supabase") {
+    const supabase = createAdminClient();
+    const { data, error } = await supabase.storage
+      .from("backupwiz-files")
+      .createSignedUrl(storagePath, expiresIn);
+
+    if (error || !data?.signedUrl) {
+      throw new Error(`Failed to sign ${storagePath}: ${error?.message || "no URL returned"}`);
+    }
+    return data.signedUrl;
+  }
+
+  return getSpacesSignedUrl(storagePath, expiresIn);
+}
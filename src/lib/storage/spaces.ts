@@ -3,6 +3,9 @@ import {
   GetObjectCommand,
   PutObjectCommand,
   DeleteObjectCommand,
+  DeleteObjectsCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
 } from "@aws-sdk/client-s3";
 import { getSignedUrl as s3GetSignedUrl } from "@aws-sdk/s3-request-presigner";
 
@@ -40,6 +43,32 @@ export async function getSignedUrl(storagePath: string, expiresIn = 3600): Promi
   return s3GetSignedUrl(client, command, { expiresIn });
 }
 
+// Presigned PUT for one object; the uploader must send the same Content-Type
+export async function getUploadUrl(storagePath: string, contentType: string, expiresIn = 900): Promise<string> {
+  const client = getSpacesClient();
+  const command = new PutObjectCommand({ Bucket: SPACES_BUCKET, Key: storagePath, ContentType: contentType });
+  return s3GetSignedUrl(client, command, { expiresIn });
+}
+
+export async function fileExists(storagePath: string): Promise<boolean> {
+  const client = getSpacesClient();
+  try {
+    await client.send(new HeadObjectCommand({ Bucket: SPACES_BUCKET, Key: storagePath }));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function downloadFile(storagePath: string): Promise<Buffer> {
+  const client = getSpacesClient();
+  const response = await client.send(new GetObjectCommand({ Bucket: SPACES_BUCKET, Key: storagePath }));
+  if (!response.Body) {
+    throw new Error(`Empty response downloading ${storagePath}`);
+  }
+  return Buffer.from(await response.Body.transformToByteArray());
+}
+
 export async function uploadBuffer(
   buffer: Buffer,
   storagePath: string,
@@ -62,6 +91,34 @@ export async function deleteFile(storagePath: string): Promise<void> {
   await client.send(new DeleteObjectCommand({ Bucket: SPACES_BUCKET, Key: storagePath }));
 }
 
+// Every object under a prefix, including ones no database row names (e.g. a
+// partial upload). Returns how many were deleted.
+export async function deletePrefix(prefix: string): Promise<number> {
+  const client = getSpacesClient();
+  let deleted = 0;
+  let continuationToken: string | undefined;
+
+  do {
+    const page = await client.send(new ListObjectsV2Command({
+      Bucket: SPACES_BUCKET,
+      Prefix: prefix,
+      ContinuationToken: continuationToken,
+    }));
+    const keys = (page.Contents || []).map((object) => object.Key).filter((key): key is string => !!key);
+
+    if (keys.length > 0) {
+      await client.send(new DeleteObjectsCommand({
+        Bucket: SPACES_BUCKET,
+        Delete: { Objects: keys.map((Key) => ({ Key })), Quiet: true },
+      }));
+      deleted += keys.length;
+    }
+    continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+  } while (continuationToken);
+
+  return deleted;
+}
+
 export function getPublicUrl(storagePath: string): string {
   return `https://${SPACES_BUCKET}.${SPACES_ENDPOINT}/${storagePath}`;
 }
@@ -0,0 +1,44 @@
+// Per-tenant sync budgets, stored in tenants.settings.sync_budget and enforced
+// by the sync service (sync/budget.ts). A missing or null field means the
+// service-wide default from its environment applies.
+export interface TenantSyncBudget {
+  max_concurrent_transfers?: number | null;
+  bytes_per_minute?: number | null;
+  max_items_per_cycle?: number | null;
+}
+
+export const SYNC_BUDGET_FIELDS = [
+  "max_concurrent_transfers",
+  "bytes_per_minute",
+  "max_items_per_cycle",
+] as const satisfies readonly (keyof TenantSyncBudget)[];
+
+/**
+ * Validate a sync budget from a request body. Each field must be a positive
+ * integer, or null/empty to fall back to the service default.
+ */
+export function parseSyncBudget(value: unknown): { budget: TenantSyncBudget } | { error: string } {
+  if (value === null) return { budget: {} };
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return { error: "sync_budget must be an object" };
+  }
+
+  const input = value as Record<string, unknown>;
+  const budget: TenantSyncBudget = {};
+
+  for (const field of SYNC_BUDGET_FIELDS) {
+    const raw = input[field];
+    if (raw === undefined || raw === null || raw === "") {
+      budget[field] = null;
+      continue;
+    }
+
+    const parsed = typeof raw === "number" ? raw : Number(raw);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      return { error: `sync_budget.${field} must be a positive whole number` };
+    }
+    budget[field] = parsed;
+  }
+
+  return { budget };
+}
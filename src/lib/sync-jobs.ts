@@ -0,0 +1,40 @@
+export const SYNC_JOB_TYPES = [
+  "messages",
+  "cdr",
+  "media",
+  "voicemails",
+  "recordings",
+  "meetings",
+  "faxes",
+  "extensions",
+] as const;
+
+export type SyncJobType = (typeof SYNC_JOB_TYPES)[number];
+
+export interface SyncJob {
+  id: string;
+  tenant_id: string;
+  sync_type: SyncJobType;
+  status: "queued" | "running" | "succeeded" | "dead";
+  priority: number;
+  source: "schedule" | "manual" | "startup";
+  requested_by: string | null;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  locked_by: string | null;
+  locked_until: string | null;
+  last_error: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Matches SYNC_JOB_PRIORITY.manual in the sync service: jumps ahead of every
+// scheduled job
+export const MANUAL_SYNC_JOB_PRIORITY = 100;
+
+export function isSyncJobType(value: unknown): value is SyncJobType {
+  return typeof value === "string" && (SYNC_JOB_TYPES as readonly string[]).includes(value);
+}
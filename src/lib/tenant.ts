@@ -8,6 +8,7 @@ export interface TenantContext {
   role: "super_admin" | "admin" | "user";
   isAuthenticated: boolean;
   isSystemWide: boolean; // True for super_admins when no tenant is selected
+  pbxInstanceId: string | null; // Dashboard filter; null shows every 3CX system of the tenant
 }
 
 export async function getTenantContext(): Promise<TenantContext> {
@@ -23,6 +24,7 @@ export async function getTenantContext(): Promise<TenantContext> {
       role: "user",
       isAuthenticated: false,
       isSystemWide: false,
+      pbxInstanceId: null,
     };
   }
 
@@ -96,12 +98,27 @@ export async function getTenantContext(): Promise<TenantContext> {
   // Super admins are "system wide" when they haven't selected a specific tenant to view as
   const isSystemWide = isSuperAdmin && !currentTenantId;
 
+  // Optional 3CX system filter; ignored unless it belongs to the current tenant
+  let pbxInstanceId: string | null = null;
+  const selectedInstanceId = cookieStore.get("pbxInstanceId")?.value;
+  if (currentTenantId && selectedInstanceId) {
+    const { data: instance } = await supabase
+      .from("pbx_instances")
+      .select("id")
+      .eq("id", selectedInstanceId)
+      .eq("tenant_id", currentTenantId)
+      .maybeSingle();
+
+    pbxInstanceId = instance?.id || null;
+  }
+
   return {
     userId: user.id,
     tenantId: currentTenantId,
     role: profile?.role || "user",
     isAuthenticated: true,
     isSystemWide,
+    pbxInstanceId,
   };
 }
 
@@ -0,0 +1,45 @@
+import type { PoolClient } from "pg";
+import { detectSchema, readSchemaSnapshot } from "../../sync-service/src/threecx/detection";
+
+// ============================================
+// 3CX SCHEMA DETECTION
+// ============================================
+// Which 3CX release a connection points at and what the sync can read from it,
+// reported by the connection test. Runs the sync service's own detection
+// (sync-service/src/threecx/detection.ts), so the two cannot disagree.
+
+export type ThreeCXRelease = "hosted" | "v20" | "v18" | "legacy" | "unknown";
+
+export interface ThreeCXCapabilities {
+  release: ThreeCXRelease;
+  label: string;
+  server_version: string | null;
+  threecx_version: string | null;
+  call_records: { table: string } | null;
+  recordings: {
+    start_time: boolean;
+    end_time: boolean;
+    transcription: boolean;
+    call_link: boolean;
+    participant_extension: boolean;
+  } | null;
+  voicemails: { transcription: boolean } | null;
+  chat_views: string[];
+}
+
+/** Read the relevant part of information_schema and classify the 3CX database */
+export async function detectThreeCXCapabilities(client: PoolClient): Promise<ThreeCXCapabilities> {
+  const profile = detectSchema(await readSchemaSnapshot(client));
+  const { callRecords, recordings, voicemails, chat_views } = profile.capabilities;
+
+  return {
+    release: profile.release,
+    label: profile.label,
+    server_version: profile.server_version,
+    threecx_version: profile.threecx_version,
+    call_records: callRecords ? { table: callRecords.table } : null,
+    recordings: recordings ? { ...recordings.features } : null,
+    voicemails: voicemails ? { ...voicemails.features } : null,
+    chat_views,
+  };
+}
@@ -0,0 +1,183 @@
+import { createAdminClient } from "@/lib/supabase/admin";
+
+// ============================================
+// USER ACCESS
+// ============================================
+// Resolves what one user may see in a tenant in a single pass, for routes
+// that cover several data types at once (the public API, unified search).
+// Admins see the whole tenant; other users get their feature flags plus the
+// conversations and extensions their extension permissions grant.
+//
+// Extension numbers are only unique within one 3CX system, so a grant is the
+// pair (pbx_instance_id, extension number): extension 101 on one system says
+// nothing about 101 on another.
+
+/** One permitted extension, on the 3CX system it belongs to */
+export interface ExtensionGrant {
+  number: string;
+  pbxInstanceId: string | null;
+  recordings: boolean;
+}
+
+/**
+ * What a user may see. For admins `bypass` is set and the lists are unused,
+ * mirroring the dashboard routes.
+ */
+export interface UserAccess {
+  bypass: boolean;
+  canViewCdr: boolean;
+  canViewRecordings: boolean;
+  canViewVoicemails: boolean;
+  canViewFaxes: boolean;
+  extensions: ExtensionGrant[];
+  conversationIds: string[];
+}
+
+/**
+ * Whether `access` covers extension `number` on 3CX system `pbxInstanceId`
+ * (with recordings, if asked).
+ */
+export function hasExtensionGrant(
+  access: UserAccess,
+  pbxInstanceId: string | null,
+  number: string | null,
+  { recordings = false }: { recordings?: boolean } = {}
+): boolean {
+  if (access.bypass) return true;
+  if (!number) return false;
+  return access.extensions.some(
+    (grant) =>
+      grant.number === number && grant.pbxInstanceId === (pbxInstanceId ?? null) && (!recordings || grant.recordings)
+  );
+}
+
+/**
+ * PostgREST or() filter for rows whose `column` is one of the granted
+ * numbers on that grant's own 3CX system. Null when there are no grants.
+ */
+export function extensionGrantFilter(grants: ExtensionGrant[], column: string): string | null {
+  const byInstance = new Map<string | null, string[]>();
+  for (const grant of grants) {
+    byInstance.set(grant.pbxInstanceId, [...(byInstance.get(grant.pbxInstanceId) || []), grant.number]);
+  }
+
+  const filters = Array.from(byInstance, ([pbxInstanceId, numbers]) => {
+    const instance = pbxInstanceId ? `pbx_instance_id.eq.${pbxInstanceId}` : "pbx_instance_id.is.null";
+    return `and(${instance},${column}.in.(${numbers.map((n) => `"${n}"`).join(",")}))`;
+  });
+  return filters.length > 0 ? filters.join(",") : null;
+}
+
+/**
+ * Returns null when the user doesn't exist or is no longer a member of the
+ * tenant (super admins can see every tenant).
+ */
+export async function resolveUserAccess(
+  supabase: ReturnType<typeof createAdminClient>,
+  userId: string,
+  tenantId: string
+): Promise<UserAccess | null> {
+  const [{ data: profile }, { data: membership }] = await Promise.all([
+    supabase.from("user_profiles").select("role").eq("id", userId).single(),
+    supabase
+      .from("user_tenants")
+      .select("role")
+      .eq("user_id", userId)
+      .eq("tenant_id", tenantId)
+      .maybeSingle(),
+  ]);
+
+  if (!profile) return null;
+
+  const isSuperAdmin = profile.role === "super_admin";
+  if (!isSuperAdmin && !membership) return null;
+
+  if (isSuperAdmin || profile.role === "admin" || membership?.role === "admin") {
+    return {
+      bypass: true,
+      canViewCdr: true,
+      canViewRecordings: true,
+      canViewVoicemails: true,
+      canViewFaxes: true,
+      extensions: [],
+      conversationIds: [],
+    };
+  }
+
+  const [{ data: featurePerms }, { data: extensionPermissions }, { data: conversationPermissions }] = await Promise.all([
+    supabase
+      .from("user_feature_permissions")
+      .select("can_view_cdr, can_view_recordings, can_view_voicemails, can_view_faxes")
+      .eq("user_id", userId)
+      .eq("tenant_id", tenantId)
+      .maybeSingle(),
+    supabase
+      .from("user_extension_permissions")
+      .select("extension_id, can_access_recordings, extensions(extension_number, pbx_instance_id)")
+      .eq("user_id", userId)
+      .eq("tenant_id", tenantId),
+    supabase
+      .from("user_group_chat_permissions")
+      .select("conversation_id")
+      .eq("user_id", userId)
+      .eq("tenant_id", tenantId),
+  ]);
+
+  const extensions = (extensionPermissions || []).map((p) => {
+    // extensions may be returned as array or single object depending on Supabase version
+    type ExtensionRow = { extension_number: string; pbx_instance_id: string | null };
+    const extRaw = p.extensions as unknown as ExtensionRow | ExtensionRow[] | null;
+    const ext = Array.isArray(extRaw) ? extRaw[0] : extRaw;
+    return {
+      id: p.extension_id as string,
+      number: ext?.extension_number || null,
+      pbxInstanceId: ext?.pbx_instance_id ?? null,
+      recordings: !!p.can_access_recordings,
+    };
+  });
+  const grants: ExtensionGrant[] = extensions
+    .filter((e) => !!e.number)
+    .map((e) => ({ number: e.number as string, pbxInstanceId: e.pbxInstanceId, recordings: e.recordings }));
+
+  const conversationIds = new Set((conversationPermissions || []).map((p) => p.conversation_id as string));
+
+  // Extension permissions also grant that extension's 1-on-1 chats. A
+  // participant matched by number only counts in chats of the grant's system.
+  const extensionIds = new Set(extensions.map((e) => e.id));
+  const extensionNumbers = Array.from(new Set(grants.map((g) => g.number)));
+  const participantFilters = [
+    extensionIds.size > 0 ? `extension_id.in.(${Array.from(extensionIds).join(",")})` : null,
+    extensionNumbers.length > 0 ? `external_id.in.(${extensionNumbers.map((n) => `"${n}"`).join(",")})` : null,
+  ].filter((f): f is string => !!f);
+
+  if (participantFilters.length > 0) {
+    const { data: participantRows } = await supabase
+      .from("participants")
+      .select("conversation_id, extension_id, external_id, conversations!inner(tenant_id, is_group_chat, pbx_instance_id)")
+      .eq("conversations.tenant_id", tenantId)
+      .eq("conversations.is_group_chat", false)
+      .or(participantFilters.join(","));
+
+    for (const row of participantRows || []) {
+      type ConversationRow = { pbx_instance_id: string | null };
+      const convRaw = row.conversations as unknown as ConversationRow | ConversationRow[] | null;
+      const conversation = Array.isArray(convRaw) ? convRaw[0] : convRaw;
+      const permitted =
+        (!!row.extension_id && extensionIds.has(row.extension_id as string)) ||
+        grants.some(
+          (g) => g.number === row.external_id && g.pbxInstanceId === (conversation?.pbx_instance_id ?? null)
+        );
+      if (permitted) conversationIds.add(row.conversation_id as string);
+    }
+  }
+
+  return {
+    bypass: false,
+    canViewCdr: !!featurePerms?.can_view_cdr,
+    canViewRecordings: !!featurePerms?.can_view_recordings,
+    canViewVoicemails: !!featurePerms?.can_view_voicemails,
+    canViewFaxes: !!featurePerms?.can_view_faxes,
+    extensions: grants,
+    conversationIds: Array.from(conversationIds),
+  };
+}
@@ -0,0 +1,92 @@
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+
+/**
+ * Server-side webhook target checks. Kept apart from lib/webhooks, which
+ * client components import. The sync service repeats the check before every
+ * delivery, since a hostname can be re-pointed after it was saved.
+ */
+
+// Ranges a webhook must never reach: loopback, private networks, link-local
+// (including cloud metadata at 169.254.169.254), CGNAT, multicast and reserved
+const BLOCKED_IPV4: Array<[string, number]> = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+function ipv4ToInt(address: string): number {
+  return address.split(".").reduce((acc, part) => acc * 256 + Number(part), 0);
+}
+
+function isBlockedIpv4(address: string): boolean {
+  const value = ipv4ToInt(address);
+  return BLOCKED_IPV4.some(([base, bits]) => {
+    const size = 2 ** (32 - bits);
+    const start = ipv4ToInt(base);
+    return value >= start && value < start + size;
+  });
+}
+
+function isBlockedIpv6(address: string): boolean {
+  const lower = address.toLowerCase().replace(/^\[|\]$/g, "").split("%")[0];
+
+  // IPv4-mapped / -translated addresses carry an IPv4 target
+  const embedded = lower.match(/^(?:::ffff:(?:0:)?|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) return isBlockedIpv4(embedded[1]);
+  const embeddedHex = lower.match(/^(?:::ffff:(?:0:)?|64:ff9b::)([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (embeddedHex) {
+    const high = parseInt(embeddedHex[1], 16);
+    const low = parseInt(embeddedHex[2], 16);
+    return isBlockedIpv4(`${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`);
+  }
+
+  if (lower === "::" || lower === "::1") return true;
+  const first = parseInt(lower.split(":")[0] || "0", 16);
+  return (
+    (first & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (first & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (first & 0xff00) === 0xff00    // multicast ff00::/8
+  );
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return isBlockedIpv4(address);
+  if (version === 6) return isBlockedIpv6(address);
+  return true;
+}
+
+/**
+ * Resolve a webhook URL's host and refuse it when any address it resolves to
+ * is private, loopback or link-local. Returns an error message, or null when
+ * the target is public.
+ */
+export async function checkWebhookHost(url: string): Promise<string | null> {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  const privateError = "Webhook URL must not point at a private, loopback or link-local address";
+
+  if (isIP(host)) {
+    return isPrivateAddress(host) ? privateError : null;
+  }
+
+  let addresses: Array<{ address: string }>;
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    return `Could not resolve webhook host ${host}`;
+  }
+
+  if (addresses.length === 0) {
+    return `Could not resolve webhook host ${host}`;
+  }
+  return addresses.some((a) => isPrivateAddress(a.address)) ? privateError : null;
+}
@@ -0,0 +1,100 @@
+export const WEBHOOK_EVENT_TYPES = [
+  "message.created",
+  "voicemail.received",
+  "fax.received",
+  "recording.archived",
+  "sync.failed",
+  "storage.threshold",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  "message.created": "New chat message archived",
+  "voicemail.received": "Voicemail received",
+  "fax.received": "Fax received",
+  "recording.archived": "Call recording archived",
+  "sync.failed": "Sync failed",
+  "storage.threshold": "Storage limit reached or sync paused",
+};
+
+export interface WebhookEndpoint {
+  id: string;
+  tenant_id: string;
+  url: string;
+  description: string | null;
+  events: WebhookEventType[];
+  is_active: boolean;
+  created_by: string | null;
+  last_delivery_at: string | null;
+  last_delivery_status: "succeeded" | "retrying" | "failed" | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  status: "pending" | "delivering" | "succeeded" | "failed";
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  response_status: number | null;
+  response_body: string | null;
+  last_error: string | null;
+  duration_ms: number | null;
+  redelivery_of: string | null;
+  delivered_at: string | null;
+  created_at: string;
+}
+
+// The signing secret is never returned after creation (or rotation)
+export const WEBHOOK_ENDPOINT_COLUMNS =
+  "id, tenant_id, url, description, events, is_active, created_by, last_delivery_at, last_delivery_status, created_at, updated_at";
+
+export const WEBHOOK_DELIVERY_COLUMNS =
+  "id, endpoint_id, event_id, event_type, status, attempts, max_attempts, next_attempt_at, response_status, response_body, last_error, duration_ms, redelivery_of, delivered_at, created_at";
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return typeof value === "string" && (WEBHOOK_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+// Uses Web Crypto so this module stays importable from client components
+export function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return `whsec_${Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * Validate a webhook target. Only https is accepted; payloads carry archive
+ * content and must not travel in the clear. API routes also resolve the host
+ * with checkWebhookHost (lib/webhook-targets) to keep internal addresses out.
+ */
+export function validateWebhookUrl(value: unknown): { url: string } | { error: string } {
+  if (typeof value !== "string" || !value.trim()) {
+    return { error: "URL is required" };
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(value.trim());
+  } catch {
+    return { error: "Invalid URL" };
+  }
+
+  if (parsed.protocol !== "https:") {
+    return { error: "Webhook URL must use https" };
+  }
+
+  return { url: parsed.toString() };
+}
+
+// Parse a subscription list from a request body. Returns null if any entry is unknown.
+export function parseWebhookEvents(value: unknown): WebhookEventType[] | null {
+  if (!Array.isArray(value) || !value.every(isWebhookEventType)) {
+    return null;
+  }
+  return Array.from(new Set(value));
+}
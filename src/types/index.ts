@@ -83,6 +83,7 @@ export interface SyncStatus {
   created_at: string;
   updated_at: string;
   last_synced_message_at?: string | null;
+  pbx_instance?: { id: string; name: string } | null; // set for tenants with several 3CX systems
   // Enriched health fields from API
   health?: "healthy" | "warning" | "critical";
   health_note?: string;
@@ -90,6 +91,18 @@ export interface SyncStatus {
   expected_interval_minutes?: number;
 }
 
+// Quota/billing sync gate (tenants.sync_gate, set by the sync service)
+export type SyncGate = "open" | "warning" | "uploads_paused" | "paused";
+
+export interface SyncGating {
+  gate: SyncGate;
+  reason: string | null;
+  since: string | null;
+  // When file syncs stop being paused and everything pauses (grace period end)
+  full_pause_at: string | null;
+  updated_at: string | null;
+}
+
 export interface SyncLog {
   id: string;
   sync_type: string;
@@ -0,0 +1,26 @@
+-- Retention enforcement moves into the sync service (sync/retention.ts)
+-- The service deletes stored objects (Spaces / Supabase Storage) before rows,
+-- which the SQL-only apply_retention_policies() function could not do.
+
+-- Outcome of the most recent cleanup, shown on the settings page
+ALTER TABLE retention_policies
+ADD COLUMN IF NOT EXISTS last_cleanup_deleted INTEGER DEFAULT 0;
+
+ALTER TABLE retention_policies
+ADD COLUMN IF NOT EXISTS last_cleanup_bytes BIGINT DEFAULT 0;
+
+COMMENT ON COLUMN retention_policies.last_cleanup_deleted IS 'Rows removed by the last retention run';
+COMMENT ON COLUMN retention_policies.last_cleanup_bytes IS 'Stored bytes removed by the last retention run';
+
+-- Expired-row lookups filter on tenant + age column
+CREATE INDEX IF NOT EXISTS idx_messages_tenant_sent_at
+ON messages(tenant_id, sent_at);
+
+CREATE INDEX IF NOT EXISTS idx_media_files_tenant_created_at
+ON media_files(tenant_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_meeting_recordings_tenant_recorded_at
+ON meeting_recordings(tenant_id, recorded_at);
+
+-- The old function deleted rows but left their files behind in storage
+DROP FUNCTION IF EXISTS apply_retention_policies();
@@ -0,0 +1,82 @@
+-- Legal holds
+-- A named hold preserves archive records matching its scope. While a hold is
+-- active, retention cleanup, maintenance scripts and tenant deletion must skip
+-- (or refuse to delete) the records it covers.
+--
+-- Scope semantics: a record is held when it falls inside the date range (open
+-- ended if a bound is NULL) AND matches any listed extension, conversation or
+-- remote number. A hold with no extensions/conversations/numbers covers every
+-- record of the tenant inside the date range.
+
+CREATE TABLE IF NOT EXISTS legal_holds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  reason TEXT,
+  extensions TEXT[] NOT NULL DEFAULT '{}',       -- extension numbers, e.g. {'101','204'}
+  conversation_ids UUID[] NOT NULL DEFAULT '{}', -- conversations.id
+  remote_numbers TEXT[] NOT NULL DEFAULT '{}',   -- external phone numbers
+  starts_at TIMESTAMPTZ,                         -- NULL = no lower bound
+  ends_at TIMESTAMPTZ,                           -- NULL = no upper bound
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'released')),
+  created_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  released_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  released_at TIMESTAMPTZ,
+  release_reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_legal_holds_tenant_status
+ON legal_holds(tenant_id, status);
+
+-- RLS Policies
+ALTER TABLE legal_holds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view legal holds"
+ON legal_holds
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM user_tenants ut
+    JOIN user_profiles up ON ut.user_id = up.id
+    WHERE ut.tenant_id = legal_holds.tenant_id
+    AND up.auth_user_id = auth.uid()
+    AND up.role IN ('super_admin', 'admin')
+  )
+);
+
+-- Service role has full access
+CREATE POLICY "Service role has full access to legal holds"
+ON legal_holds
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Backstop for tenant deletion: deleting a tenant cascades every archive row,
+-- so refuse it outright while any hold is active. Runs as definer so RLS on
+-- legal_holds can't hide an active hold from a session-scoped delete.
+CREATE OR REPLACE FUNCTION prevent_tenant_delete_under_legal_hold()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM legal_holds lh
+    WHERE lh.tenant_id = OLD.id AND lh.status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'Tenant % has an active legal hold and cannot be deleted', OLD.id
+      USING ERRCODE = 'P0001';
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
+
+DROP TRIGGER IF EXISTS trg_tenants_legal_hold ON tenants;
+CREATE TRIGGER trg_tenants_legal_hold
+BEFORE DELETE ON tenants
+FOR EACH ROW EXECUTE FUNCTION prevent_tenant_delete_under_legal_hold();
+
+COMMENT ON TABLE legal_holds IS 'Litigation holds that override retention cleanup and deletion';
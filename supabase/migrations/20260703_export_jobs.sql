@@ -0,0 +1,63 @@
+-- Archive export jobs
+-- A request for a full-fidelity ZIP of a tenant's archive (metadata, chat
+-- transcripts and original files) for a date range. The sync service polls
+-- for queued jobs, builds the archive, uploads it to Spaces and records the
+-- object path and checksum here. Archives are deleted once expires_at passes.
+
+CREATE TABLE IF NOT EXISTS export_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  requested_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'completed', 'failed', 'expired')),
+  data_types TEXT[] NOT NULL DEFAULT '{}',      -- messages, call_logs, recordings, voicemails, faxes, meetings, media
+  start_date TIMESTAMPTZ,                        -- NULL = from the beginning
+  end_date TIMESTAMPTZ,                          -- NULL = up to now
+  progress INTEGER NOT NULL DEFAULT 0,           -- 0-100
+  items_total INTEGER NOT NULL DEFAULT 0,
+  items_processed INTEGER NOT NULL DEFAULT 0,
+  files_included INTEGER NOT NULL DEFAULT 0,
+  files_missing INTEGER NOT NULL DEFAULT 0,      -- stored objects that could not be read
+  storage_path VARCHAR(500),                     -- Spaces key of the finished ZIP
+  archive_size BIGINT,
+  archive_sha256 VARCHAR(64),
+  error TEXT,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_export_jobs_tenant_created
+ON export_jobs(tenant_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_export_jobs_status
+ON export_jobs(status, created_at);
+
+-- RLS Policies
+ALTER TABLE export_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view export jobs"
+ON export_jobs
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM user_tenants ut
+    JOIN user_profiles up ON ut.user_id = up.id
+    WHERE ut.tenant_id = export_jobs.tenant_id
+    AND up.auth_user_id = auth.uid()
+    AND up.role IN ('super_admin', 'admin')
+  )
+);
+
+-- Service role has full access
+CREATE POLICY "Service role has full access to export jobs"
+ON export_jobs
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE export_jobs IS 'Asynchronous ZIP exports of a tenant archive';
@@ -0,0 +1,299 @@
+-- Tamper-evident integrity chain
+-- The sync service stores a SHA-256 of every object it uploads (and of the
+-- archived fields of every chat message) in content_sha256. A trigger appends
+-- each new hash to integrity_log_entries, where every entry hashes the one
+-- before it, so any edit, insertion or removal breaks the chain.
+--
+-- The chain is per tenant and partitioned by UTC day: sequence restarts at 1
+-- each day and the first entry of a day points at the last entry of the
+-- previous day. Once a day is over the verification job seals it in
+-- integrity_daily_seals (entry count + head hash), which later runs compare
+-- against.
+--
+-- Records removed on purpose (retention) are listed in integrity_purges before
+-- the row is deleted; verification treats any other chained record that has
+-- disappeared as tampering.
+--
+-- entry_hash = sha256(prev_hash|log_date|sequence|record_type|record_id|content_sha256)
+-- The sync service recomputes this in utils/integrity.ts; keep them in step.
+
+ALTER TABLE call_recordings ADD COLUMN IF NOT EXISTS content_sha256 VARCHAR(64);
+ALTER TABLE voicemails ADD COLUMN IF NOT EXISTS content_sha256 VARCHAR(64);
+ALTER TABLE faxes ADD COLUMN IF NOT EXISTS content_sha256 VARCHAR(64);
+ALTER TABLE media_files ADD COLUMN IF NOT EXISTS content_sha256 VARCHAR(64);
+ALTER TABLE meeting_recordings ADD COLUMN IF NOT EXISTS content_sha256 VARCHAR(64);
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS content_sha256 VARCHAR(64);
+
+CREATE TABLE IF NOT EXISTS integrity_log_entries (
+  id BIGSERIAL PRIMARY KEY,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  log_date DATE NOT NULL,
+  sequence INTEGER NOT NULL,
+  record_type VARCHAR(30) NOT NULL,  -- call_recording, voicemail, fax, media_file, meeting_recording, message
+  record_id UUID NOT NULL,           -- no FK: entries outlive records removed by retention
+  content_sha256 VARCHAR(64) NOT NULL,
+  prev_hash VARCHAR(64) NOT NULL,
+  entry_hash VARCHAR(64) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (tenant_id, log_date, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_integrity_log_entries_record
+ON integrity_log_entries(tenant_id, record_type, record_id);
+
+CREATE TABLE IF NOT EXISTS integrity_daily_seals (
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  log_date DATE NOT NULL,
+  entry_count INTEGER NOT NULL,
+  head_hash VARCHAR(64) NOT NULL,       -- entry_hash of the day's last entry
+  sealed_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (tenant_id, log_date)
+);
+
+CREATE TABLE IF NOT EXISTS integrity_purges (
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  record_type VARCHAR(30) NOT NULL,
+  record_id UUID NOT NULL,
+  reason VARCHAR(30) NOT NULL,       -- retention
+  purged_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (tenant_id, record_type, record_id)
+);
+
+CREATE TABLE IF NOT EXISTS integrity_verifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  requested_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL, -- NULL = scheduled run
+  status VARCHAR(20) NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  entries_checked INTEGER NOT NULL DEFAULT 0,
+  objects_checked INTEGER NOT NULL DEFAULT 0,
+  chain_breaks INTEGER NOT NULL DEFAULT 0,
+  mismatches INTEGER NOT NULL DEFAULT 0,
+  missing_files INTEGER NOT NULL DEFAULT 0,
+  deleted_records INTEGER NOT NULL DEFAULT 0, -- removed by retention (see integrity_purges); informational
+  issues JSONB NOT NULL DEFAULT '[]',         -- first 1000 problems found
+  error TEXT,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_integrity_verifications_tenant
+ON integrity_verifications(tenant_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_integrity_verifications_queue
+ON integrity_verifications(status, created_at)
+WHERE status IN ('queued', 'running');
+
+-- Append to the chain whenever a record gets (or changes) its hash
+CREATE OR REPLACE FUNCTION append_integrity_log_entry()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_record_type TEXT := TG_ARGV[0];
+  v_log_date DATE := (NOW() AT TIME ZONE 'UTC')::DATE;
+  v_last_date DATE;
+  v_last_sequence INTEGER;
+  v_prev_hash TEXT;
+  v_sequence INTEGER;
+BEGIN
+  IF NEW.content_sha256 IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND NEW.content_sha256 IS NOT DISTINCT FROM OLD.content_sha256 THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialise appends per tenant so concurrent syncs cannot fork the chain
+  PERFORM pg_advisory_xact_lock(hashtext('integrity_chain:' || NEW.tenant_id::TEXT));
+
+  SELECT log_date, sequence, entry_hash
+  INTO v_last_date, v_last_sequence, v_prev_hash
+  FROM integrity_log_entries
+  WHERE tenant_id = NEW.tenant_id
+  ORDER BY log_date DESC, sequence DESC
+  LIMIT 1;
+
+  IF v_prev_hash IS NULL THEN
+    v_prev_hash := repeat('0', 64);
+    v_sequence := 1;
+  ELSIF v_last_date = v_log_date THEN
+    v_sequence := v_last_sequence + 1;
+  ELSE
+    v_sequence := 1;
+  END IF;
+
+  INSERT INTO integrity_log_entries (
+    tenant_id, log_date, sequence, record_type, record_id,
+    content_sha256, prev_hash, entry_hash
+  ) VALUES (
+    NEW.tenant_id, v_log_date, v_sequence, v_record_type, NEW.id,
+    NEW.content_sha256, v_prev_hash,
+    encode(sha256(convert_to(
+      v_prev_hash || '|' || to_char(v_log_date, 'YYYY-MM-DD') || '|' || v_sequence::TEXT || '|' ||
+      v_record_type || '|' || NEW.id::TEXT || '|' || NEW.content_sha256,
+      'UTF8'
+    )), 'hex')
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
+
+DROP TRIGGER IF EXISTS trg_call_recordings_integrity ON call_recordings;
+CREATE TRIGGER trg_call_recordings_integrity
+AFTER INSERT OR UPDATE OF content_sha256 ON call_recordings
+FOR EACH ROW EXECUTE FUNCTION append_integrity_log_entry('call_recording');
+
+DROP TRIGGER IF EXISTS trg_voicemails_integrity ON voicemails;
+CREATE TRIGGER trg_voicemails_integrity
+AFTER INSERT OR UPDATE OF content_sha256 ON voicemails
+FOR EACH ROW EXECUTE FUNCTION append_integrity_log_entry('voicemail');
+
+DROP TRIGGER IF EXISTS trg_faxes_integrity ON faxes;
+CREATE TRIGGER trg_faxes_integrity
+AFTER INSERT OR UPDATE OF content_sha256 ON faxes
+FOR EACH ROW EXECUTE FUNCTION append_integrity_log_entry('fax');
+
+DROP TRIGGER IF EXISTS trg_media_files_integrity ON media_files;
+CREATE TRIGGER trg_media_files_integrity
+AFTER INSERT OR UPDATE OF content_sha256 ON media_files
+FOR EACH ROW EXECUTE FUNCTION append_integrity_log_entry('media_file');
+
+DROP TRIGGER IF EXISTS trg_meeting_recordings_integrity ON meeting_recordings;
+CREATE TRIGGER trg_meeting_recordings_integrity
+AFTER INSERT OR UPDATE OF content_sha256 ON meeting_recordings
+FOR EACH ROW EXECUTE FUNCTION append_integrity_log_entry('meeting_recording');
+
+DROP TRIGGER IF EXISTS trg_messages_integrity ON messages;
+CREATE TRIGGER trg_messages_integrity
+AFTER INSERT OR UPDATE OF content_sha256 ON messages
+FOR EACH ROW EXECUTE FUNCTION append_integrity_log_entry('message');
+
+-- The log is append-only: no one edits or removes entries or seals. The one
+-- exception is the cascade from deleting the tenant itself.
+CREATE OR REPLACE FUNCTION prevent_integrity_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM tenants WHERE id = OLD.tenant_id) THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'Integrity log is append-only'
+    USING ERRCODE = 'P0001';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_integrity_log_entries_append_only ON integrity_log_entries;
+CREATE TRIGGER trg_integrity_log_entries_append_only
+BEFORE UPDATE OR DELETE ON integrity_log_entries
+FOR EACH ROW EXECUTE FUNCTION prevent_integrity_log_changes();
+
+DROP TRIGGER IF EXISTS trg_integrity_daily_seals_append_only ON integrity_daily_seals;
+CREATE TRIGGER trg_integrity_daily_seals_append_only
+BEFORE UPDATE OR DELETE ON integrity_daily_seals
+FOR EACH ROW EXECUTE FUNCTION prevent_integrity_log_changes();
+
+DROP TRIGGER IF EXISTS trg_integrity_purges_append_only ON integrity_purges;
+CREATE TRIGGER trg_integrity_purges_append_only
+BEFORE UPDATE OR DELETE ON integrity_purges
+FOR EACH ROW EXECUTE FUNCTION prevent_integrity_log_changes();
+
+-- RLS Policies
+ALTER TABLE integrity_log_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE integrity_daily_seals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE integrity_purges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE integrity_verifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view integrity log entries"
+ON integrity_log_entries
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM user_tenants ut
+    JOIN user_profiles up ON ut.user_id = up.id
+    WHERE ut.tenant_id = integrity_log_entries.tenant_id
+    AND up.auth_user_id = auth.uid()
+    AND up.role IN ('super_admin', 'admin')
+  )
+);
+
+CREATE POLICY "Admins can view integrity seals"
+ON integrity_daily_seals
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM user_tenants ut
+    JOIN user_profiles up ON ut.user_id = up.id
+    WHERE ut.tenant_id = integrity_daily_seals.tenant_id
+    AND up.auth_user_id = auth.uid()
+    AND up.role IN ('super_admin', 'admin')
+  )
+);
+
+CREATE POLICY "Admins can view integrity purges"
+ON integrity_purges
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM user_tenants ut
+    JOIN user_profiles up ON ut.user_id = up.id
+    WHERE ut.tenant_id = integrity_purges.tenant_id
+    AND up.auth_user_id = auth.uid()
+    AND up.role IN ('super_admin', 'admin')
+  )
+);
+
+CREATE POLICY "Admins can view integrity verifications"
+ON integrity_verifications
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM user_tenants ut
+    JOIN user_profiles up ON ut.user_id = up.id
+    WHERE ut.tenant_id = integrity_verifications.tenant_id
+    AND up.auth_user_id = auth.uid()
+    AND up.role IN ('super_admin', 'admin')
+  )
+);
+
+-- Service role has full access (the append-only triggers still apply)
+CREATE POLICY "Service role has full access to integrity log entries"
+ON integrity_log_entries
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to integrity seals"
+ON integrity_daily_seals
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to integrity purges"
+ON integrity_purges
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to integrity verifications"
+ON integrity_verifications
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE integrity_log_entries IS 'Per-tenant hash chain of archived records, one partition per UTC day';
+COMMENT ON TABLE integrity_daily_seals IS 'Entry count and head hash of each completed day of the integrity chain';
+COMMENT ON TABLE integrity_purges IS 'Chained records deleted on purpose, so verification can tell them from tampering';
+COMMENT ON TABLE integrity_verifications IS 'Runs that re-hash stored objects and walk the integrity chain';
@@ -0,0 +1,109 @@
+-- Reconciliation audit
+-- Compares, per tenant and per UTC day, how many messages, call records,
+-- recordings and voicemails exist in 3CX with how many are archived. Runs are
+-- queued daily by the sync service or on demand by a super admin; every day
+-- that does not line up gets a reconciliation_diffs row listing the 3CX ids
+-- that are missing from the archive. A super admin can then queue a targeted
+-- backfill of just those ids for a single diff.
+
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  requested_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL, -- NULL = scheduled run
+  status VARCHAR(20) NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  data_types TEXT[] NOT NULL DEFAULT '{}',       -- messages, cdr, recordings, voicemails
+  days_checked INTEGER NOT NULL DEFAULT 0,
+  diff_count INTEGER NOT NULL DEFAULT 0,        -- reconciliation_diffs rows written
+  missing_total INTEGER NOT NULL DEFAULT 0,     -- 3CX items not found in the archive
+  error TEXT,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_tenant
+ON reconciliation_runs(tenant_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_queue
+ON reconciliation_runs(status, created_at)
+WHERE status IN ('queued', 'running');
+
+CREATE TABLE IF NOT EXISTS reconciliation_diffs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES reconciliation_runs(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  data_type VARCHAR(20) NOT NULL,               -- messages, cdr, recordings, voicemails
+  diff_date DATE NOT NULL,
+  source_count INTEGER NOT NULL,                -- items in 3CX that day
+  archived_count INTEGER NOT NULL,              -- rows in the archive that day
+  missing_count INTEGER NOT NULL DEFAULT 0,     -- 3CX ids with no archived row at all
+  missing_ids TEXT[] NOT NULL DEFAULT '{}',     -- first 5000 of them
+  backfill_status VARCHAR(20)
+    CHECK (backfill_status IN ('queued', 'running', 'completed', 'failed')),
+  backfill_requested_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  backfill_requested_at TIMESTAMPTZ,
+  backfilled_count INTEGER NOT NULL DEFAULT 0,
+  still_missing_count INTEGER,                  -- after the backfill
+  backfill_error TEXT,
+  backfill_completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (run_id, data_type, diff_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_diffs_tenant
+ON reconciliation_diffs(tenant_id, diff_date DESC);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_diffs_backfill_queue
+ON reconciliation_diffs(backfill_status, backfill_requested_at)
+WHERE backfill_status IN ('queued', 'running');
+
+-- RLS Policies
+ALTER TABLE reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reconciliation_diffs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can view reconciliation runs"
+ON reconciliation_runs
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM user_profiles up
+    WHERE up.auth_user_id = auth.uid()
+    AND up.role = 'super_admin'
+  )
+);
+
+CREATE POLICY "Super admins can view reconciliation diffs"
+ON reconciliation_diffs
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM user_profiles up
+    WHERE up.auth_user_id = auth.uid()
+    AND up.role = 'super_admin'
+  )
+);
+
+-- Service role has full access (sync service processes runs and backfills)
+CREATE POLICY "Service role has full access to reconciliation runs"
+ON reconciliation_runs
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to reconciliation diffs"
+ON reconciliation_diffs
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE reconciliation_runs IS 'Per-tenant comparisons of 3CX source counts against the archive';
+COMMENT ON TABLE reconciliation_diffs IS 'Days where 3CX and the archive disagree, with the missing 3CX ids and any targeted backfill';
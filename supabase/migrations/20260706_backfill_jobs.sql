@@ -0,0 +1,72 @@
+-- Historical backfill jobs
+-- Re-pull one sync type for a date range without touching the live
+-- high-water mark in sync_status (e.g. after an outage, or when a backup_*
+-- flag is switched on for a tenant with years of history). The sync service
+-- advances each job one chunk per minute alongside the regular scheduler and
+-- checkpoints cursor_at after every chunk; a job interrupted by a restart is
+-- picked up again from its checkpoint once its lease (locked_until) expires.
+
+CREATE TABLE IF NOT EXISTS backfill_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  requested_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  sync_type VARCHAR(20) NOT NULL
+    CHECK (sync_type IN ('messages', 'media', 'recordings', 'voicemails', 'faxes', 'meetings', 'cdr', 'extensions')),
+  status VARCHAR(20) NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+  start_at TIMESTAMPTZ NOT NULL,
+  end_at TIMESTAMPTZ NOT NULL,                      -- exclusive
+  chunk_hours INTEGER NOT NULL DEFAULT 24 CHECK (chunk_hours BETWEEN 1 AND 720),
+  cursor_at TIMESTAMPTZ,                            -- everything before this is done; NULL = not started
+  chunks_completed INTEGER NOT NULL DEFAULT 0,
+  items_synced INTEGER NOT NULL DEFAULT 0,
+  item_errors INTEGER NOT NULL DEFAULT 0,           -- individual items that failed within completed chunks
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,  -- chunks in a row that threw; the job fails at 3
+  last_error TEXT,
+  locked_until TIMESTAMPTZ,                         -- lease held while a chunk is in flight
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (end_at > start_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_backfill_jobs_tenant
+ON backfill_jobs(tenant_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_backfill_jobs_queue
+ON backfill_jobs(status, created_at)
+WHERE status IN ('queued', 'running');
+
+-- One active backfill per data type, so two jobs never re-pull the same items
+CREATE UNIQUE INDEX IF NOT EXISTS idx_backfill_jobs_active
+ON backfill_jobs(tenant_id, sync_type)
+WHERE status IN ('queued', 'running');
+
+-- RLS Policies
+ALTER TABLE backfill_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view backfill jobs"
+ON backfill_jobs
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM user_tenants ut
+    JOIN user_profiles up ON ut.user_id = up.id
+    WHERE ut.tenant_id = backfill_jobs.tenant_id
+    AND up.auth_user_id = auth.uid()
+    AND up.role IN ('super_admin', 'admin')
+  )
+);
+
+-- Service role has full access (sync service runs the jobs)
+CREATE POLICY "Service role has full access to backfill jobs"
+ON backfill_jobs
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE backfill_jobs IS 'Resumable re-syncs of one data type over a date range, independent of the live sync cursor';
+COMMENT ON COLUMN backfill_jobs.cursor_at IS 'Checkpoint: the job resumes from here after a restart';
@@ -0,0 +1,128 @@
+-- Persistent sync job queue
+-- Every sync the service runs is a (tenant, sync type) job in this table. The
+-- scheduler's cron ticks and manual triggers only enqueue; sync workers lease
+-- jobs with SELECT ... FOR UPDATE SKIP LOCKED, so any number of service
+-- instances can share the queue without double-syncing a tenant, and nothing
+-- in flight is lost on restart.
+--
+-- Lifecycle: queued -> running -> succeeded
+--                              -> queued again (retry after backoff)
+--                              -> dead (out of attempts; stays for inspection)
+-- A running job whose lease (locked_until) expires was abandoned by a crashed
+-- worker and is retried like any other failure.
+
+CREATE TABLE IF NOT EXISTS sync_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  sync_type VARCHAR(20) NOT NULL
+    CHECK (sync_type IN ('messages', 'media', 'recordings', 'voicemails', 'faxes', 'meetings', 'cdr', 'extensions')),
+  status VARCHAR(20) NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'succeeded', 'dead')),
+  priority INTEGER NOT NULL DEFAULT 0,              -- higher runs first
+  source VARCHAR(20) NOT NULL DEFAULT 'schedule',   -- schedule, manual, startup
+  requested_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),     -- pushed back after each failed attempt
+  locked_by VARCHAR(100),                           -- worker id holding the lease
+  locked_until TIMESTAMPTZ,
+  last_error TEXT,
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- At most one live job per tenant and type. This is what stops two workers
+-- syncing the same thing; enqueueing again just bumps the live job.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_jobs_one_live
+ON sync_jobs(tenant_id, sync_type)
+WHERE status IN ('queued', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_claim
+ON sync_jobs(priority DESC, run_after)
+WHERE status = 'queued';
+
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_leases
+ON sync_jobs(locked_until)
+WHERE status = 'running';
+
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_tenant
+ON sync_jobs(tenant_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_finished
+ON sync_jobs(sync_type, finished_at DESC)
+WHERE status = 'succeeded';
+
+-- Enqueue a job, or raise the priority of the one already waiting. Returns
+-- the live job's id; a job that is already running is left alone.
+CREATE OR REPLACE FUNCTION enqueue_sync_job(
+  p_tenant_id UUID,
+  p_sync_type TEXT,
+  p_priority INTEGER DEFAULT 0,
+  p_source TEXT DEFAULT 'schedule',
+  p_requested_by UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO sync_jobs (tenant_id, sync_type, priority, source, requested_by)
+  VALUES (p_tenant_id, p_sync_type, p_priority, p_source, p_requested_by)
+  ON CONFLICT (tenant_id, sync_type) WHERE status IN ('queued', 'running')
+  DO UPDATE SET
+    priority = GREATEST(sync_jobs.priority, EXCLUDED.priority),
+    source = CASE WHEN EXCLUDED.priority > sync_jobs.priority THEN EXCLUDED.source ELSE sync_jobs.source END,
+    requested_by = COALESCE(EXCLUDED.requested_by, sync_jobs.requested_by),
+    -- A manual trigger should not wait out a retry backoff
+    run_after = CASE WHEN EXCLUDED.priority > sync_jobs.priority THEN LEAST(sync_jobs.run_after, NOW()) ELSE sync_jobs.run_after END,
+    updated_at = NOW()
+  WHERE sync_jobs.status = 'queued'
+  RETURNING id INTO v_id;
+
+  IF v_id IS NULL THEN
+    SELECT id INTO v_id FROM sync_jobs
+    WHERE tenant_id = p_tenant_id AND sync_type = p_sync_type AND status IN ('queued', 'running');
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION enqueue_sync_job(UUID, TEXT, INTEGER, TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION enqueue_sync_job(UUID, TEXT, INTEGER, TEXT, UUID) TO service_role;
+
+-- RLS Policies
+ALTER TABLE sync_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view sync jobs"
+ON sync_jobs
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM user_tenants ut
+    JOIN user_profiles up ON ut.user_id = up.id
+    WHERE ut.tenant_id = sync_jobs.tenant_id
+    AND up.auth_user_id = auth.uid()
+    AND up.role IN ('super_admin', 'admin')
+  )
+);
+
+-- Service role has full access (sync workers lease and complete jobs)
+CREATE POLICY "Service role has full access to sync jobs"
+ON sync_jobs
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE sync_jobs IS 'Persistent per-tenant, per-sync-type job queue shared by all sync workers';
+COMMENT ON COLUMN sync_jobs.locked_until IS 'Lease expiry; a running job past this is treated as abandoned and retried';
+
+-- Manual triggers are now queued jobs
+COMMENT ON COLUMN sync_status.trigger_requested_at IS 'Deprecated: manual syncs are enqueued in sync_jobs';
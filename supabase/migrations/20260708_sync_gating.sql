@@ -0,0 +1,35 @@
+-- Quota- and billing-aware sync gating
+-- The sync service evaluates each tenant's storage usage and billing status
+-- against its plan's policy and records the result here:
+--   open           - syncing normally
+--   warning        - past the plan's soft limit; everything still syncs
+--   uploads_paused - over quota or payment past due; file syncs (recordings,
+--                    voicemails, media, faxes, meetings) stop, metadata (chat
+--                    messages, CDR, extensions) keeps syncing
+--   paused         - still restricted after the plan's grace period, or the
+--                    subscription was canceled; nothing syncs
+-- The storage-recalc cron tells tenant admins whenever the gate changes.
+
+-- Per-plan policy
+ALTER TABLE storage_plans
+ADD COLUMN IF NOT EXISTS soft_limit_percent INTEGER NOT NULL DEFAULT 80
+  CHECK (soft_limit_percent BETWEEN 1 AND 100),
+ADD COLUMN IF NOT EXISTS grace_period_days INTEGER NOT NULL DEFAULT 7
+  CHECK (grace_period_days >= 0);
+
+-- Current gate per tenant
+ALTER TABLE tenants
+ADD COLUMN IF NOT EXISTS sync_gate VARCHAR(20) NOT NULL DEFAULT 'open'
+  CHECK (sync_gate IN ('open', 'warning', 'uploads_paused', 'paused')),
+ADD COLUMN IF NOT EXISTS sync_gate_reason TEXT,
+ADD COLUMN IF NOT EXISTS sync_gate_since TIMESTAMPTZ,          -- when the current restriction began (grace period start)
+ADD COLUMN IF NOT EXISTS sync_gate_updated_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS sync_gate_notified VARCHAR(20) NOT NULL DEFAULT 'open'; -- last gate admins were told about
+
+CREATE INDEX IF NOT EXISTS idx_tenants_sync_gate_pending_notice
+ON tenants(id)
+WHERE sync_gate <> sync_gate_notified;
+
+COMMENT ON COLUMN storage_plans.soft_limit_percent IS 'Storage usage percentage at which tenant admins are warned';
+COMMENT ON COLUMN storage_plans.grace_period_days IS 'Days file syncs stay paused (metadata still syncing) before all syncing pauses';
+COMMENT ON COLUMN tenants.sync_gate IS 'Quota/billing sync gate set by the sync service: open, warning, uploads_paused, paused';
@@ -0,0 +1,157 @@
+-- Outbound webhooks for archive events
+-- Tenant admins register endpoints and pick the events they want. The sync
+-- service records an event when it archives something (see
+-- sync-service/src/storage/supabase.ts), fans it out to one delivery per
+-- subscribed endpoint, and a delivery worker POSTs each one with an HMAC
+-- signature, retrying with backoff.
+--
+-- Delivery lifecycle: pending -> delivering -> succeeded
+--                                           -> pending again (retry after backoff)
+--                                           -> failed (out of attempts)
+-- Redelivering from the admin UI adds a new delivery for the same event, so
+-- the log keeps every attempt.
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  description TEXT,
+  secret VARCHAR(100) NOT NULL,                    -- HMAC signing key, shown to the admin once
+  events TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  last_delivery_at TIMESTAMPTZ,
+  last_delivery_status VARCHAR(20),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_tenant
+ON webhook_endpoints(tenant_id)
+WHERE is_active = true;
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  event_type VARCHAR(50) NOT NULL,
+  resource_id TEXT,                                -- archived row the event is about
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Re-syncing the same item never announces it twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_events_resource
+ON webhook_events(tenant_id, event_type, resource_id)
+WHERE resource_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_created
+ON webhook_events(created_at);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES webhook_events(id) ON DELETE CASCADE,
+  event_type VARCHAR(50) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'delivering', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 8,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMPTZ,
+  response_status INTEGER,
+  response_body TEXT,                              -- first 1KB of the last response
+  last_error TEXT,
+  duration_ms INTEGER,
+  redelivery_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+  requested_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+ON webhook_deliveries(next_attempt_at)
+WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint
+ON webhook_deliveries(endpoint_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_tenant
+ON webhook_deliveries(tenant_id, created_at DESC);
+
+-- Record an event and queue a delivery for every active endpoint subscribed
+-- to it. Returns the event id, or NULL when nobody is subscribed or the
+-- resource was already announced.
+CREATE OR REPLACE FUNCTION emit_webhook_event(
+  p_tenant_id UUID,
+  p_event_type TEXT,
+  p_resource_id TEXT,
+  p_payload JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM webhook_endpoints
+    WHERE tenant_id = p_tenant_id AND is_active AND p_event_type = ANY(events)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO webhook_events (tenant_id, event_type, resource_id, payload)
+  VALUES (p_tenant_id, p_event_type, p_resource_id, p_payload)
+  ON CONFLICT (tenant_id, event_type, resource_id) WHERE resource_id IS NOT NULL DO NOTHING
+  RETURNING id INTO v_event_id;
+
+  IF v_event_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO webhook_deliveries (tenant_id, endpoint_id, event_id, event_type)
+  SELECT p_tenant_id, id, v_event_id, p_event_type
+  FROM webhook_endpoints
+  WHERE tenant_id = p_tenant_id AND is_active AND p_event_type = ANY(events);
+
+  RETURN v_event_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION emit_webhook_event(UUID, TEXT, TEXT, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION emit_webhook_event(UUID, TEXT, TEXT, JSONB) TO service_role;
+
+-- RLS Policies
+-- Endpoints hold signing secrets, so all access goes through the service role
+-- (the web API checks the caller is a tenant admin first)
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to webhook endpoints"
+ON webhook_endpoints
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to webhook events"
+ON webhook_events
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to webhook deliveries"
+ON webhook_deliveries
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE webhook_endpoints IS 'Tenant-configured outbound webhook endpoints';
+COMMENT ON TABLE webhook_deliveries IS 'One row per attempt series of an event to an endpoint; the delivery log';
@@ -0,0 +1,45 @@
+-- Slack and Microsoft Teams notification channels
+-- Each tenant can connect one Slack and one Teams incoming webhook. Which
+-- notification types are posted there is routed per user through
+-- user_notification_preferences, the same as email/SMS/push; a notification
+-- is posted to the tenant's channel once even when several admins route it.
+
+CREATE TABLE IF NOT EXISTS tenant_notification_channels (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  channel VARCHAR(20) NOT NULL CHECK (channel IN ('slack', 'teams')),
+  webhook_url_encrypted TEXT NOT NULL,            -- the URL is the credential
+  channel_name VARCHAR(100),                      -- display only, e.g. #ops-alerts
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_sent_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(tenant_id, channel)
+);
+
+ALTER TABLE user_notification_preferences
+ADD COLUMN IF NOT EXISTS slack_enabled BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS teams_enabled BOOLEAN DEFAULT false;
+
+ALTER TABLE notification_logs DROP CONSTRAINT IF EXISTS notification_logs_channel_check;
+ALTER TABLE notification_logs
+ADD CONSTRAINT notification_logs_channel_check
+CHECK (channel IN ('email', 'sms', 'push', 'slack', 'teams'));
+
+-- Used to post a tenant-wide notification once per channel
+CREATE INDEX IF NOT EXISTS idx_notification_logs_chat_dedupe
+ON notification_logs(tenant_id, channel, notification_type, sent_at DESC)
+WHERE channel IN ('slack', 'teams');
+
+ALTER TABLE tenant_notification_channels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to tenant notification channels"
+ON tenant_notification_channels
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE tenant_notification_channels IS 'Per-tenant Slack/Teams incoming webhooks for notifications';
@@ -0,0 +1,38 @@
+-- Tenant API keys for the public REST API (/api/v1)
+-- Only a SHA-256 hash of each key is stored; the key itself is shown once at
+-- creation. A key acts on behalf of the user who created it, so the
+-- per-extension and feature permissions of that user still apply - and
+-- downgrading or removing the user narrows or disables the key.
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  key_prefix VARCHAR(16) NOT NULL,                -- first characters, for recognising a key
+  key_hash VARCHAR(64) NOT NULL,                  -- hex SHA-256 of the full key
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+  expires_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  last_used_ip VARCHAR(64),
+  revoked_at TIMESTAMPTZ,
+  revoked_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_api_keys_hash
+ON api_keys(key_hash);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_tenant
+ON api_keys(tenant_id, created_at DESC);
+
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to api keys"
+ON api_keys
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE api_keys IS 'Hashed, scoped tenant API keys for the public REST API';
@@ -0,0 +1,567 @@
+-- Unified search index
+-- One search_index row per searchable archive record - messages,
+-- conversations (name plus participants), call records, voicemails, faxes and
+-- extensions - kept current by triggers on the source tables. Each row carries
+-- a weighted tsvector for ranked full-text search, plus a digits-only copy of
+-- every phone number / identifier on the record for trigram substring matches
+-- ("555 12" finds +1 (555) 123-4567).
+--
+-- The columns used for permission checks (conversation_id, extension_number)
+-- and facets (entity_type, channel_type, extension_number) are denormalised
+-- onto the row so search_archive() and search_archive_facets() never join
+-- back to the source tables.
+--
+-- Source rows are read through to_jsonb() rather than NEW.<column>: the sync
+-- service and the web app have written different column names over time
+-- (extension / extension_number, fax_time / sent_received_at, ...), and a
+-- missing column must not make a sync insert fail.
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE TABLE IF NOT EXISTS search_index (
+  entity_type VARCHAR(20) NOT NULL
+    CHECK (entity_type IN ('message', 'conversation', 'call', 'voicemail', 'fax', 'extension')),
+  entity_id UUID NOT NULL,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  conversation_id UUID,           -- messages and conversations
+  channel_type VARCHAR(50),       -- messages and conversations
+  extension_number VARCHAR(50),   -- owning / sending extension, if known
+  title TEXT,                     -- names: sender, caller, conversation, extension
+  body TEXT,                      -- message content, voicemail transcription, participant list
+  numbers TEXT,                   -- digits of every number/identifier, space separated
+  occurred_at TIMESTAMPTZ,
+  has_media BOOLEAN NOT NULL DEFAULT false,
+  search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(numbers, '')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(body, '')), 'B')
+  ) STORED,
+  indexed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (entity_type, entity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_index_vector
+ON search_index USING GIN(search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_search_index_numbers_trgm
+ON search_index USING GIN(numbers gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_search_index_title_trgm
+ON search_index USING GIN(title gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_search_index_tenant
+ON search_index(tenant_id, entity_type, occurred_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_search_index_conversation
+ON search_index(conversation_id)
+WHERE conversation_id IS NOT NULL;
+
+ALTER TABLE search_index ENABLE ROW LEVEL SECURITY;
+
+-- Reads go through the API, which applies per-user permissions
+CREATE POLICY "Service role has full access to search index"
+ON search_index
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE search_index IS 'Denormalised full-text index over messages, conversations, calls, voicemails, faxes and extensions';
+
+-- ─── Document builders ────────────────────────────────────────────────────────
+
+-- Keep only digits, so formatted and unformatted numbers match each other
+CREATE OR REPLACE FUNCTION search_digits(p_value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(regexp_replace(COALESCE(p_value, ''), '\D', '', 'g'), '');
+$$;
+
+-- Upsert the index row for one source record, given as to_jsonb(row)
+CREATE OR REPLACE FUNCTION search_index_upsert(p_entity_type TEXT, r JSONB)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conversation_id UUID;
+  v_channel_type TEXT;
+  v_extension TEXT;
+  v_title TEXT;
+  v_body TEXT;
+  v_numbers TEXT;
+  v_occurred_at TIMESTAMPTZ;
+  v_has_media BOOLEAN := false;
+BEGIN
+  IF r->>'tenant_id' IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF p_entity_type = 'message' THEN
+    v_conversation_id := (r->>'conversation_id')::UUID;
+    SELECT channel_type INTO v_channel_type FROM conversations WHERE id = v_conversation_id;
+    v_extension := COALESCE(r->>'sender_extension', r->>'sender_identifier');
+    v_title := r->>'sender_name';
+    v_body := COALESCE(r->>'content', r->>'message_text');
+    v_numbers := search_digits(r->>'sender_identifier');
+    v_occurred_at := (r->>'sent_at')::TIMESTAMPTZ;
+    v_has_media := COALESCE((r->>'has_media')::BOOLEAN, false);
+
+  ELSIF p_entity_type = 'conversation' THEN
+    v_conversation_id := (r->>'id')::UUID;
+    v_channel_type := r->>'channel_type';
+    v_title := r->>'conversation_name';
+    -- Participants are searchable through their conversation
+    SELECT
+      string_agg(DISTINCT COALESCE(p->>'external_name', p->>'participant_name', p->>'display_name'), ', '),
+      string_agg(DISTINCT concat_ws(' ',
+        search_digits(COALESCE(p->>'external_id', p->>'participant_identifier')),
+        search_digits(p->>'external_number')
+      ), ' ')
+    INTO v_body, v_numbers
+    FROM (SELECT to_jsonb(pt) AS p FROM participants pt WHERE pt.conversation_id = v_conversation_id) participant_rows;
+    v_occurred_at := COALESCE((r->>'last_message_at')::TIMESTAMPTZ, (r->>'created_at')::TIMESTAMPTZ);
+
+  ELSIF p_entity_type = 'call' THEN
+    v_extension := COALESCE(r->>'extension_number', r->>'extension');
+    v_title := concat_ws(' → ', NULLIF(r->>'caller_name', ''), NULLIF(r->>'callee_name', ''));
+    v_numbers := concat_ws(' ',
+      search_digits(r->>'caller_number'),
+      search_digits(r->>'callee_number'),
+      search_digits(v_extension)
+    );
+    v_occurred_at := COALESCE((r->>'started_at')::TIMESTAMPTZ, (r->>'call_started_at')::TIMESTAMPTZ);
+
+  ELSIF p_entity_type = 'voicemail' THEN
+    -- Only voicemails synced from the 3CX API (vmail_*); the rest are legacy
+    -- duplicates the voicemails page already hides
+    IF COALESCE(r->>'threecx_voicemail_id', '') NOT LIKE 'vmail_%' THEN
+      RETURN;
+    END IF;
+    v_extension := COALESCE(r->>'extension_number', r->>'extension');
+    IF v_extension IS NULL AND r->>'extension_id' IS NOT NULL THEN
+      SELECT extension_number INTO v_extension FROM extensions WHERE id = (r->>'extension_id')::UUID;
+    END IF;
+    v_title := r->>'caller_name';
+    v_body := r->>'transcription';
+    v_numbers := concat_ws(' ', search_digits(r->>'caller_number'), search_digits(v_extension));
+    v_occurred_at := COALESCE((r->>'received_at')::TIMESTAMPTZ, (r->>'created_at')::TIMESTAMPTZ);
+
+  ELSIF p_entity_type = 'fax' THEN
+    v_extension := COALESCE(r->>'extension_number', r->>'extension');
+    v_title := concat_ws(' ', NULLIF(r->>'remote_name', ''), NULLIF(r->>'extension_name', ''));
+    v_numbers := concat_ws(' ', search_digits(r->>'remote_number'), search_digits(v_extension));
+    v_occurred_at := COALESCE(
+      (r->>'sent_received_at')::TIMESTAMPTZ,
+      (r->>'fax_time')::TIMESTAMPTZ,
+      (r->>'created_at')::TIMESTAMPTZ
+    );
+
+  ELSIF p_entity_type = 'extension' THEN
+    v_extension := r->>'extension_number';
+    v_title := COALESCE(
+      NULLIF(r->>'display_name', ''),
+      NULLIF(concat_ws(' ', r->>'first_name', r->>'last_name'), '')
+    );
+    v_body := r->>'email';
+    v_numbers := search_digits(v_extension);
+    v_occurred_at := (r->>'created_at')::TIMESTAMPTZ;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown search entity type: %', p_entity_type;
+  END IF;
+
+  INSERT INTO search_index (
+    entity_type, entity_id, tenant_id, conversation_id, channel_type, extension_number,
+    title, body, numbers, occurred_at, has_media, indexed_at
+  )
+  VALUES (
+    p_entity_type, (r->>'id')::UUID, (r->>'tenant_id')::UUID, v_conversation_id, v_channel_type, v_extension,
+    NULLIF(v_title, ''), NULLIF(v_body, ''), NULLIF(v_numbers, ''), v_occurred_at, v_has_media, NOW()
+  )
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET
+    conversation_id = EXCLUDED.conversation_id,
+    channel_type = EXCLUDED.channel_type,
+    extension_number = EXCLUDED.extension_number,
+    title = EXCLUDED.title,
+    body = EXCLUDED.body,
+    numbers = EXCLUDED.numbers,
+    occurred_at = EXCLUDED.occurred_at,
+    has_media = EXCLUDED.has_media,
+    indexed_at = NOW();
+END;
+$$;
+
+-- ─── Triggers ─────────────────────────────────────────────────────────────────
+-- TG_ARGV[0] is the entity type the table maps to
+
+CREATE OR REPLACE FUNCTION search_index_sync()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM search_index WHERE entity_type = TG_ARGV[0] AND entity_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  PERFORM search_index_upsert(TG_ARGV[0], to_jsonb(NEW));
+  RETURN NEW;
+END;
+$$;
+
+-- Participant changes re-index the conversation they belong to
+CREATE OR REPLACE FUNCTION search_index_sync_participant()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conversation_id UUID;
+BEGIN
+  v_conversation_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.conversation_id ELSE NEW.conversation_id END;
+
+  PERFORM search_index_upsert('conversation', to_jsonb(c))
+  FROM conversations c
+  WHERE c.id = v_conversation_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS search_index_messages ON messages;
+CREATE TRIGGER search_index_messages
+AFTER INSERT OR UPDATE OR DELETE ON messages
+FOR EACH ROW EXECUTE FUNCTION search_index_sync('message');
+
+DROP TRIGGER IF EXISTS search_index_conversations ON conversations;
+CREATE TRIGGER search_index_conversations
+AFTER INSERT OR UPDATE OR DELETE ON conversations
+FOR EACH ROW EXECUTE FUNCTION search_index_sync('conversation');
+
+DROP TRIGGER IF EXISTS search_index_participants ON participants;
+CREATE TRIGGER search_index_participants
+AFTER INSERT OR UPDATE OR DELETE ON participants
+FOR EACH ROW EXECUTE FUNCTION search_index_sync_participant();
+
+DROP TRIGGER IF EXISTS search_index_call_logs ON call_logs;
+CREATE TRIGGER search_index_call_logs
+AFTER INSERT OR UPDATE OR DELETE ON call_logs
+FOR EACH ROW EXECUTE FUNCTION search_index_sync('call');
+
+DROP TRIGGER IF EXISTS search_index_voicemails ON voicemails;
+CREATE TRIGGER search_index_voicemails
+AFTER INSERT OR UPDATE OR DELETE ON voicemails
+FOR EACH ROW EXECUTE FUNCTION search_index_sync('voicemail');
+
+DROP TRIGGER IF EXISTS search_index_faxes ON faxes;
+CREATE TRIGGER search_index_faxes
+AFTER INSERT OR UPDATE OR DELETE ON faxes
+FOR EACH ROW EXECUTE FUNCTION search_index_sync('fax');
+
+DROP TRIGGER IF EXISTS search_index_extensions ON extensions;
+CREATE TRIGGER search_index_extensions
+AFTER INSERT OR UPDATE OR DELETE ON extensions
+FOR EACH ROW EXECUTE FUNCTION search_index_sync('extension');
+
+-- ─── Search ───────────────────────────────────────────────────────────────────
+-- Matching and filtering shared by search_archive() and search_archive_facets().
+--
+-- p_types limits the entity types searched; the API passes only the types
+-- the caller's feature permissions allow. A non-NULL p_conversation_ids limits
+-- message and conversation hits to those conversations, and a non-NULL
+-- p_extension_numbers limits extension hits to those extensions - both are
+-- NULL for admins. An empty p_query matches everything the filters allow.
+CREATE OR REPLACE FUNCTION search_archive_matches(
+  p_tenant_id UUID,
+  p_query TEXT,
+  p_types TEXT[],
+  p_channel_type TEXT DEFAULT NULL,
+  p_extension TEXT DEFAULT NULL,
+  p_conversation_id UUID DEFAULT NULL,
+  p_has_media BOOLEAN DEFAULT NULL,
+  p_start TIMESTAMPTZ DEFAULT NULL,
+  p_end TIMESTAMPTZ DEFAULT NULL,
+  p_conversation_ids UUID[] DEFAULT NULL,
+  p_extension_numbers TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  entity_type VARCHAR(20),
+  entity_id UUID,
+  conversation_id UUID,
+  channel_type VARCHAR(50),
+  extension_number VARCHAR(50),
+  title TEXT,
+  body TEXT,
+  occurred_at TIMESTAMPTZ,
+  has_media BOOLEAN,
+  rank NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(trim(COALESCE(p_query, '')), '') AS q,
+      websearch_to_tsquery('simple', COALESCE(p_query, '')) AS tsq,
+      -- Number matching only kicks in for 3+ digits, so "a1" stays a text search
+      CASE WHEN length(search_digits(p_query)) >= 3 THEN search_digits(p_query) END AS digits
+  )
+  SELECT
+    s.entity_type, s.entity_id, s.conversation_id, s.channel_type, s.extension_number,
+    s.title, s.body, s.occurred_at, s.has_media,
+    CASE WHEN params.q IS NULL THEN 0 ELSE round((
+      ts_rank(s.search_vector, params.tsq)
+      + CASE WHEN params.digits IS NOT NULL AND s.numbers LIKE '%' || params.digits || '%' THEN 0.5 ELSE 0 END
+      + COALESCE(similarity(s.title, params.q), 0) * 0.3
+    )::NUMERIC, 6) END AS rank
+  FROM search_index s, params
+  WHERE s.tenant_id = p_tenant_id
+    AND s.entity_type = ANY(p_types)
+    AND (
+      params.q IS NULL
+      OR s.search_vector @@ params.tsq
+      OR (params.digits IS NOT NULL AND s.numbers LIKE '%' || params.digits || '%')
+      OR s.title ILIKE '%' || replace(replace(replace(params.q, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    )
+    AND (p_channel_type IS NULL OR s.channel_type = p_channel_type)
+    AND (p_extension IS NULL OR s.extension_number = p_extension)
+    AND (p_conversation_id IS NULL OR s.conversation_id = p_conversation_id)
+    AND (p_has_media IS NULL OR s.entity_type <> 'message' OR s.has_media = p_has_media)
+    AND (p_start IS NULL OR s.occurred_at >= p_start)
+    AND (p_end IS NULL OR s.occurred_at <= p_end)
+    AND (
+      p_conversation_ids IS NULL
+      OR s.entity_type NOT IN ('message', 'conversation')
+      OR s.conversation_id = ANY(p_conversation_ids)
+    )
+    AND (
+      p_extension_numbers IS NULL
+      OR s.entity_type <> 'extension'
+      OR s.extension_number = ANY(p_extension_numbers)
+    );
+$$;
+
+-- One page of hits, best first: rank, then newest, then id. Pass the last
+-- hit's (rank, occurred_at, entity_id) back as p_after_* for the next page;
+-- hits without a date sort as the epoch on both sides of that comparison.
+-- Snippets mark matches with U+E000 / U+E001, which cannot occur in archived
+-- text, so the client can highlight them without rendering HTML.
+CREATE OR REPLACE FUNCTION search_archive(
+  p_tenant_id UUID,
+  p_query TEXT,
+  p_types TEXT[],
+  p_channel_type TEXT DEFAULT NULL,
+  p_extension TEXT DEFAULT NULL,
+  p_conversation_id UUID DEFAULT NULL,
+  p_has_media BOOLEAN DEFAULT NULL,
+  p_start TIMESTAMPTZ DEFAULT NULL,
+  p_end TIMESTAMPTZ DEFAULT NULL,
+  p_conversation_ids UUID[] DEFAULT NULL,
+  p_extension_numbers TEXT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_after_rank NUMERIC DEFAULT NULL,
+  p_after_occurred_at TIMESTAMPTZ DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  entity_type VARCHAR(20),
+  entity_id UUID,
+  conversation_id UUID,
+  channel_type VARCHAR(50),
+  extension_number VARCHAR(50),
+  title TEXT,
+  title_snippet TEXT,
+  snippet TEXT,
+  occurred_at TIMESTAMPTZ,
+  has_media BOOLEAN,
+  rank NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH page AS (
+    SELECT m.*, COALESCE(m.occurred_at, 'epoch'::TIMESTAMPTZ) AS sort_at
+    FROM search_archive_matches(
+      p_tenant_id, p_query, p_types, p_channel_type, p_extension, p_conversation_id,
+      p_has_media, p_start, p_end, p_conversation_ids, p_extension_numbers
+    ) m
+    WHERE p_after_id IS NULL
+      OR (m.rank, COALESCE(m.occurred_at, 'epoch'::TIMESTAMPTZ), m.entity_id)
+         < (COALESCE(p_after_rank, 0), COALESCE(p_after_occurred_at, 'epoch'::TIMESTAMPTZ), p_after_id)
+    ORDER BY m.rank DESC, sort_at DESC, m.entity_id DESC
+    LIMIT p_limit
+  ),
+  opts AS (
+    SELECT
+      websearch_to_tsquery('simple', COALESCE(p_query, '')) AS tsq,
+      format('StartSel=%s, StopSel=%s, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "',
+        chr(57344), chr(57345)) AS headline_opts,
+      format('StartSel=%s, StopSel=%s, HighlightAll=true', chr(57344), chr(57345)) AS title_opts
+  )
+  -- ts_headline is expensive, so it only runs over the returned page
+  SELECT
+    page.entity_type, page.entity_id, page.conversation_id, page.channel_type, page.extension_number,
+    page.title,
+    CASE WHEN page.title IS NULL OR numnode(opts.tsq) = 0 THEN page.title
+      ELSE ts_headline('simple', page.title, opts.tsq, opts.title_opts) END,
+    CASE WHEN page.body IS NULL THEN NULL
+      WHEN numnode(opts.tsq) = 0 THEN left(page.body, 200)
+      ELSE ts_headline('simple', page.body, opts.tsq, opts.headline_opts) END,
+    page.occurred_at, page.has_media, page.rank
+  FROM page, opts
+  ORDER BY page.rank DESC, page.sort_at DESC, page.entity_id DESC;
+$$;
+
+-- Hit counts for every facet value, over the same match set as search_archive()
+CREATE OR REPLACE FUNCTION search_archive_facets(
+  p_tenant_id UUID,
+  p_query TEXT,
+  p_types TEXT[],
+  p_channel_type TEXT DEFAULT NULL,
+  p_extension TEXT DEFAULT NULL,
+  p_conversation_id UUID DEFAULT NULL,
+  p_has_media BOOLEAN DEFAULT NULL,
+  p_start TIMESTAMPTZ DEFAULT NULL,
+  p_end TIMESTAMPTZ DEFAULT NULL,
+  p_conversation_ids UUID[] DEFAULT NULL,
+  p_extension_numbers TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (facet TEXT, value TEXT, hits BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    CASE
+      WHEN GROUPING(m.entity_type) = 0 THEN 'type'
+      WHEN GROUPING(m.channel_type) = 0 THEN 'channel'
+      ELSE 'extension'
+    END,
+    COALESCE(m.entity_type, m.channel_type, m.extension_number)::TEXT,
+    COUNT(*)
+  FROM search_archive_matches(
+    p_tenant_id, p_query, p_types, p_channel_type, p_extension, p_conversation_id,
+    p_has_media, p_start, p_end, p_conversation_ids, p_extension_numbers
+  ) m
+  GROUP BY GROUPING SETS ((m.entity_type), (m.channel_type), (m.extension_number))
+  HAVING COALESCE(m.entity_type, m.channel_type, m.extension_number) IS NOT NULL;
+$$;
+
+REVOKE ALL ON FUNCTION search_archive_matches(UUID, TEXT, TEXT[], TEXT, TEXT, UUID, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, UUID[], TEXT[]) FROM PUBLIC;
+REVOKE ALL ON FUNCTION search_archive(UUID, TEXT, TEXT[], TEXT, TEXT, UUID, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, UUID[], TEXT[], INTEGER, NUMERIC, TIMESTAMPTZ, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION search_archive_facets(UUID, TEXT, TEXT[], TEXT, TEXT, UUID, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, UUID[], TEXT[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION search_archive(UUID, TEXT, TEXT[], TEXT, TEXT, UUID, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, UUID[], TEXT[], INTEGER, NUMERIC, TIMESTAMPTZ, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION search_archive_facets(UUID, TEXT, TEXT[], TEXT, TEXT, UUID, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, UUID[], TEXT[]) TO service_role;
+
+-- ─── Backfill ─────────────────────────────────────────────────────────────────
+-- Existing rows are indexed in batches by the search-index-backfill cron
+-- rather than here, so the migration doesn't hold locks on every source table
+-- while it rewrites the archive. Each entity type is walked in id order from
+-- last_id; rows written meanwhile are already indexed by the triggers above.
+
+CREATE TABLE IF NOT EXISTS search_index_backfill (
+  entity_type VARCHAR(20) PRIMARY KEY,
+  position INTEGER NOT NULL,      -- processing order
+  last_id UUID,                   -- last source row indexed
+  completed_at TIMESTAMPTZ
+);
+
+INSERT INTO search_index_backfill (entity_type, position) VALUES
+  ('conversation', 1),
+  ('message', 2),
+  ('call', 3),
+  ('voicemail', 4),
+  ('fax', 5),
+  ('extension', 6)
+ON CONFLICT (entity_type) DO NOTHING;
+
+ALTER TABLE search_index_backfill ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to search index backfill"
+ON search_index_backfill
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Index the next p_limit source rows. Returns how many were indexed; 0 once
+-- every entity type is done.
+CREATE OR REPLACE FUNCTION search_index_backfill_batch(p_limit INTEGER DEFAULT 500)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_state search_index_backfill%ROWTYPE;
+  v_table TEXT;
+  v_count INTEGER;
+  v_last_id UUID;
+BEGIN
+  LOOP
+    SELECT * INTO v_state
+    FROM search_index_backfill
+    WHERE completed_at IS NULL
+    ORDER BY position
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    IF NOT FOUND THEN
+      RETURN 0;
+    END IF;
+
+    v_table := CASE v_state.entity_type
+      WHEN 'conversation' THEN 'conversations'
+      WHEN 'message' THEN 'messages'
+      WHEN 'call' THEN 'call_logs'
+      WHEN 'voicemail' THEN 'voicemails'
+      WHEN 'fax' THEN 'faxes'
+      WHEN 'extension' THEN 'extensions'
+    END;
+
+    EXECUTE format(
+      'WITH batch AS (
+         SELECT t.id, to_jsonb(t) AS r FROM %I t
+         WHERE $1::UUID IS NULL OR t.id > $1
+         ORDER BY t.id
+         LIMIT $2
+       ),
+       indexed AS (
+         SELECT b.id, search_index_upsert($3, b.r) FROM batch b
+       )
+       SELECT count(*)::INTEGER, (array_agg(id ORDER BY id DESC))[1] FROM indexed',
+      v_table
+    )
+    INTO v_count, v_last_id
+    USING v_state.last_id, p_limit, v_state.entity_type;
+
+    UPDATE search_index_backfill
+    SET last_id = COALESCE(v_last_id, last_id),
+        completed_at = CASE WHEN v_count < p_limit THEN NOW() END
+    WHERE entity_type = v_state.entity_type;
+
+    IF v_count > 0 THEN
+      RETURN v_count;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION search_index_backfill_batch(INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION search_index_backfill_batch(INTEGER) TO service_role;
+
+COMMIT;
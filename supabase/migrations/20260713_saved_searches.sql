@@ -0,0 +1,360 @@
+-- Saved searches and search alerts
+-- A user can save a search (query plus filters), share it with the rest of
+-- the tenant and schedule it daily or weekly. Each scheduled run looks for
+-- records that entered the search index since the previous run, using the
+-- owner's permissions, and notifies the owner of any matches. Every run is
+-- kept in saved_search_runs with a sample of what it matched.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE, -- owner; runs use their permissions
+  name VARCHAR(100) NOT NULL,
+  query TEXT NOT NULL DEFAULT '',
+  filters JSONB NOT NULL DEFAULT '{}',          -- types, channel_type, extension, has_media, conversation_id
+  is_shared BOOLEAN NOT NULL DEFAULT false,     -- visible to everyone in the tenant
+  schedule VARCHAR(10) NOT NULL DEFAULT 'none'
+    CHECK (schedule IN ('none', 'daily', 'weekly')),
+  delivery VARCHAR(20) NOT NULL DEFAULT 'email'
+    CHECK (delivery IN ('email', 'notification')), -- notification = the owner's notification preferences
+  last_run_at TIMESTAMPTZ,                      -- end of the last run's window
+  next_run_at TIMESTAMPTZ,                      -- NULL when not scheduled
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_tenant
+ON saved_searches(tenant_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_due
+ON saved_searches(next_run_at)
+WHERE next_run_at IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS saved_search_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  trigger VARCHAR(10) NOT NULL DEFAULT 'schedule'
+    CHECK (trigger IN ('schedule', 'manual')),
+  status VARCHAR(20) NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'completed', 'failed')),
+  window_start TIMESTAMPTZ NOT NULL,            -- records first indexed after this...
+  window_end TIMESTAMPTZ NOT NULL,              -- ...and up to this
+  match_count INTEGER NOT NULL DEFAULT 0,
+  matches JSONB NOT NULL DEFAULT '[]',          -- first hits, for the run history
+  notified BOOLEAN NOT NULL DEFAULT false,
+  error TEXT,
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_search_runs_search
+ON saved_search_runs(saved_search_id, started_at DESC);
+
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_search_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to saved searches"
+ON saved_searches
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to saved search runs"
+ON saved_search_runs
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE saved_searches IS 'Saved search queries and filters, optionally shared and scheduled as alerts';
+COMMENT ON TABLE saved_search_runs IS 'History of saved search alert runs';
+
+-- ─── First-indexed time on the search index ──────────────────────────────────
+-- indexed_at moves on every re-index (a conversation is re-indexed whenever a
+-- message lands in it), so alerts need the time a record was first indexed.
+-- search_index_upsert() never sets it, so it keeps its insert-time default.
+
+ALTER TABLE search_index
+ADD COLUMN IF NOT EXISTS first_indexed_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_search_index_first_indexed
+ON search_index(tenant_id, first_indexed_at);
+
+-- Same as 20260712_search_index.sql, except rows the backfill creates get an
+-- epoch first_indexed_at: they are history, not news, and must not turn up in
+-- the next alert run. Rows the triggers indexed first keep their own time.
+CREATE OR REPLACE FUNCTION search_index_backfill_batch(p_limit INTEGER DEFAULT 500)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_state search_index_backfill%ROWTYPE;
+  v_table TEXT;
+  v_ids UUID[];
+  v_count INTEGER;
+BEGIN
+  LOOP
+    SELECT * INTO v_state
+    FROM search_index_backfill
+    WHERE completed_at IS NULL
+    ORDER BY position
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    IF NOT FOUND THEN
+      RETURN 0;
+    END IF;
+
+    v_table := CASE v_state.entity_type
+      WHEN 'conversation' THEN 'conversations'
+      WHEN 'message' THEN 'messages'
+      WHEN 'call' THEN 'call_logs'
+      WHEN 'voicemail' THEN 'voicemails'
+      WHEN 'fax' THEN 'faxes'
+      WHEN 'extension' THEN 'extensions'
+    END;
+
+    EXECUTE format(
+      'WITH batch AS (
+         SELECT t.id, to_jsonb(t) AS r FROM %I t
+         WHERE $1::UUID IS NULL OR t.id > $1
+         ORDER BY t.id
+         LIMIT $2
+       ),
+       indexed AS (
+         SELECT b.id, search_index_upsert($3, b.r) FROM batch b
+       )
+       SELECT array_agg(id ORDER BY id) FROM indexed',
+      v_table
+    )
+    INTO v_ids
+    USING v_state.last_id, p_limit, v_state.entity_type;
+
+    v_count := COALESCE(array_length(v_ids, 1), 0);
+
+    -- Inserted by this transaction, so NOW() is still their default
+    UPDATE search_index
+    SET first_indexed_at = 'epoch'
+    WHERE entity_type = v_state.entity_type
+      AND entity_id = ANY(COALESCE(v_ids, '{}'))
+      AND first_indexed_at = NOW();
+
+    UPDATE search_index_backfill
+    SET last_id = COALESCE(v_ids[v_count], last_id),
+        completed_at = CASE WHEN v_count < p_limit THEN NOW() END
+    WHERE entity_type = v_state.entity_type;
+
+    IF v_count > 0 THEN
+      RETURN v_count;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- ─── Search functions: first-indexed window ──────────────────────────────────
+-- Same as 20260712_search_index.sql plus p_indexed_after / p_indexed_before,
+-- which bound first_indexed_at. The old signatures are dropped so PostgREST
+-- doesn't see two overloads.
+
+DROP FUNCTION IF EXISTS search_archive(UUID, TEXT, TEXT[], TEXT, TEXT, UUID, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, UUID[], TEXT[], INTEGER, NUMERIC, TIMESTAMPTZ, UUID);
+DROP FUNCTION IF EXISTS search_archive_facets(UUID, TEXT, TEXT[], TEXT, TEXT, UUID, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, UUID[], TEXT[]);
+DROP FUNCTION IF EXISTS search_archive_matches(UUID, TEXT, TEXT[], TEXT, TEXT, UUID, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, UUID[], TEXT[]);
+
+CREATE OR REPLACE FUNCTION search_archive_matches(
+  p_tenant_id UUID,
+  p_query TEXT,
+  p_types TEXT[],
+  p_channel_type TEXT DEFAULT NULL,
+  p_extension TEXT DEFAULT NULL,
+  p_conversation_id UUID DEFAULT NULL,
+  p_has_media BOOLEAN DEFAULT NULL,
+  p_start TIMESTAMPTZ DEFAULT NULL,
+  p_end TIMESTAMPTZ DEFAULT NULL,
+  p_conversation_ids UUID[] DEFAULT NULL,
+  p_extension_numbers TEXT[] DEFAULT NULL,
+  p_indexed_after TIMESTAMPTZ DEFAULT NULL,
+  p_indexed_before TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  entity_type VARCHAR(20),
+  entity_id UUID,
+  conversation_id UUID,
+  channel_type VARCHAR(50),
+  extension_number VARCHAR(50),
+  title TEXT,
+  body TEXT,
+  occurred_at TIMESTAMPTZ,
+  has_media BOOLEAN,
+  rank NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(trim(COALESCE(p_query, '')), '') AS q,
+      websearch_to_tsquery('simple', COALESCE(p_query, '')) AS tsq,
+      -- Number matching only kicks in for 3+ digits, so "a1" stays a text search
+      CASE WHEN length(search_digits(p_query)) >= 3 THEN search_digits(p_query) END AS digits
+  )
+  SELECT
+    s.entity_type, s.entity_id, s.conversation_id, s.channel_type, s.extension_number,
+    s.title, s.body, s.occurred_at, s.has_media,
+    CASE WHEN params.q IS NULL THEN 0 ELSE round((
+      ts_rank(s.search_vector, params.tsq)
+      + CASE WHEN params.digits IS NOT NULL AND s.numbers LIKE '%' || params.digits || '%' THEN 0.5 ELSE 0 END
+      + COALESCE(similarity(s.title, params.q), 0) * 0.3
+    )::NUMERIC, 6) END AS rank
+  FROM search_index s, params
+  WHERE s.tenant_id = p_tenant_id
+    AND s.entity_type = ANY(p_types)
+    AND (
+      params.q IS NULL
+      OR s.search_vector @@ params.tsq
+      OR (params.digits IS NOT NULL AND s.numbers LIKE '%' || params.digits || '%')
+      OR s.title ILIKE '%' || replace(replace(replace(params.q, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    )
+    AND (p_channel_type IS NULL OR s.channel_type = p_channel_type)
+    AND (p_extension IS NULL OR s.extension_number = p_extension)
+    AND (p_conversation_id IS NULL OR s.conversation_id = p_conversation_id)
+    AND (p_has_media IS NULL OR s.entity_type <> 'message' OR s.has_media = p_has_media)
+    AND (p_start IS NULL OR s.occurred_at >= p_start)
+    AND (p_end IS NULL OR s.occurred_at <= p_end)
+    AND (p_indexed_after IS NULL OR s.first_indexed_at > p_indexed_after)
+    AND (p_indexed_before IS NULL OR s.first_indexed_at <= p_indexed_before)
+    AND (
+      p_conversation_ids IS NULL
+      OR s.entity_type NOT IN ('message', 'conversation')
+      OR s.conversation_id = ANY(p_conversation_ids)
+    )
+    AND (
+      p_extension_numbers IS NULL
+      OR s.entity_type <> 'extension'
+      OR s.extension_number = ANY(p_extension_numbers)
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION search_archive(
+  p_tenant_id UUID,
+  p_query TEXT,
+  p_types TEXT[],
+  p_channel_type TEXT DEFAULT NULL,
+  p_extension TEXT DEFAULT NULL,
+  p_conversation_id UUID DEFAULT NULL,
+  p_has_media BOOLEAN DEFAULT NULL,
+  p_start TIMESTAMPTZ DEFAULT NULL,
+  p_end TIMESTAMPTZ DEFAULT NULL,
+  p_conversation_ids UUID[] DEFAULT NULL,
+  p_extension_numbers TEXT[] DEFAULT NULL,
+  p_indexed_after TIMESTAMPTZ DEFAULT NULL,
+  p_indexed_before TIMESTAMPTZ DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_after_rank NUMERIC DEFAULT NULL,
+  p_after_occurred_at TIMESTAMPTZ DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  entity_type VARCHAR(20),
+  entity_id UUID,
+  conversation_id UUID,
+  channel_type VARCHAR(50),
+  extension_number VARCHAR(50),
+  title TEXT,
+  title_snippet TEXT,
+  snippet TEXT,
+  occurred_at TIMESTAMPTZ,
+  has_media BOOLEAN,
+  rank NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH page AS (
+    SELECT m.*, COALESCE(m.occurred_at, 'epoch'::TIMESTAMPTZ) AS sort_at
+    FROM search_archive_matches(
+      p_tenant_id, p_query, p_types, p_channel_type, p_extension, p_conversation_id,
+      p_has_media, p_start, p_end, p_conversation_ids, p_extension_numbers,
+      p_indexed_after, p_indexed_before
+    ) m
+    WHERE p_after_id IS NULL
+      OR (m.rank, COALESCE(m.occurred_at, 'epoch'::TIMESTAMPTZ), m.entity_id)
+         < (COALESCE(p_after_rank, 0), COALESCE(p_after_occurred_at, 'epoch'::TIMESTAMPTZ), p_after_id)
+    ORDER BY m.rank DESC, sort_at DESC, m.entity_id DESC
+    LIMIT p_limit
+  ),
+  opts AS (
+    SELECT
+      websearch_to_tsquery('simple', COALESCE(p_query, '')) AS tsq,
+      format('StartSel=%s, StopSel=%s, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "',
+        chr(57344), chr(57345)) AS headline_opts,
+      format('StartSel=%s, StopSel=%s, HighlightAll=true', chr(57344), chr(57345)) AS title_opts
+  )
+  -- ts_headline is expensive, so it only runs over the returned page
+  SELECT
+    page.entity_type, page.entity_id, page.conversation_id, page.channel_type, page.extension_number,
+    page.title,
+    CASE WHEN page.title IS NULL OR numnode(opts.tsq) = 0 THEN page.title
+      ELSE ts_headline('simple', page.title, opts.tsq, opts.title_opts) END,
+    CASE WHEN page.body IS NULL THEN NULL
+      WHEN numnode(opts.tsq) = 0 THEN left(page.body, 200)
+      ELSE ts_headline('simple', page.body, opts.tsq, opts.headline_opts) END,
+    page.occurred_at, page.has_media, page.rank
+  FROM page, opts
+  ORDER BY page.rank DESC, page.sort_at DESC, page.entity_id DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION search_archive_facets(
+  p_tenant_id UUID,
+  p_query TEXT,
+  p_types TEXT[],
+  p_channel_type TEXT DEFAULT NULL,
+  p_extension TEXT DEFAULT NULL,
+  p_conversation_id UUID DEFAULT NULL,
+  p_has_media BOOLEAN DEFAULT NULL,
+  p_start TIMESTAMPTZ DEFAULT NULL,
+  p_end TIMESTAMPTZ DEFAULT NULL,
+  p_conversation_ids UUID[] DEFAULT NULL,
+  p_extension_numbers TEXT[] DEFAULT NULL,
+  p_indexed_after TIMESTAMPTZ DEFAULT NULL,
+  p_indexed_before TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (facet TEXT, value TEXT, hits BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    CASE
+      WHEN GROUPING(m.entity_type) = 0 THEN 'type'
+      WHEN GROUPING(m.channel_type) = 0 THEN 'channel'
+      ELSE 'extension'
+    END,
+    COALESCE(m.entity_type, m.channel_type, m.extension_number)::TEXT,
+    COUNT(*)
+  FROM search_archive_matches(
+    p_tenant_id, p_query, p_types, p_channel_type, p_extension, p_conversation_id,
+    p_has_media, p_start, p_end, p_conversation_ids, p_extension_numbers,
+    p_indexed_after, p_indexed_before
+  ) m
+  GROUP BY GROUPING SETS ((m.entity_type), (m.channel_type), (m.extension_number))
+  HAVING COALESCE(m.entity_type, m.channel_type, m.extension_number) IS NOT NULL;
+$$;
+
+REVOKE ALL ON FUNCTION search_archive_matches(UUID, TEXT, TEXT[], TEXT, TEXT, UUID, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, UUID[], TEXT[], TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC;
+REVOKE ALL ON FUNCTION search_archive(UUID, TEXT, TEXT[], TEXT, TEXT, UUID, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, UUID[], TEXT[], TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, NUMERIC, TIMESTAMPTZ, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION search_archive_facets(UUID, TEXT, TEXT[], TEXT, TEXT, UUID, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, UUID[], TEXT[], TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION search_archive(UUID, TEXT, TEXT[], TEXT, TEXT, UUID, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, UUID[], TEXT[], TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, NUMERIC, TIMESTAMPTZ, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION search_archive_facets(UUID, TEXT, TEXT[], TEXT, TEXT, UUID, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, UUID[], TEXT[], TIMESTAMPTZ, TIMESTAMPTZ) TO service_role;
+
+COMMIT;
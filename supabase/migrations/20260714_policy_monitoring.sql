@@ -0,0 +1,118 @@
+-- Policy monitoring and the flagged-message review queue
+-- Tenant admins define policy rules: keyword lists, regexes (card numbers,
+-- SSNs, ...), and conditions limiting a rule to external conversations or to
+-- messages sent outside business hours. The sync service evaluates active
+-- rules against every newly archived message (see
+-- sync-service/src/sync/policy.ts) and records a flag per rule hit.
+--
+-- Flag lifecycle: open -> reviewed
+--                      -> escalated -> reviewed
+-- Reviewers can reopen a flag. Every status change and note is kept in
+-- policy_flag_notes and written to the audit log by the web API.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS policy_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  keywords TEXT[] NOT NULL DEFAULT '{}',        -- whole-word, case-insensitive
+  patterns TEXT[] NOT NULL DEFAULT '{}',        -- JavaScript regex sources, case-insensitive
+  external_only BOOLEAN NOT NULL DEFAULT false, -- only messages in external conversations
+  after_hours_only BOOLEAN NOT NULL DEFAULT false,
+  business_hours JSONB NOT NULL
+    DEFAULT '{"timezone": "UTC", "start": "08:00", "end": "18:00", "days": [1, 2, 3, 4, 5]}',
+  severity VARCHAR(10) NOT NULL DEFAULT 'medium'
+    CHECK (severity IN ('low', 'medium', 'high')),
+  notify BOOLEAN NOT NULL DEFAULT true,         -- alert tenant admins about new flags
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_policy_rules_tenant
+ON policy_rules(tenant_id)
+WHERE is_active = true;
+
+CREATE TABLE IF NOT EXISTS policy_flags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  rule_id UUID REFERENCES policy_rules(id) ON DELETE SET NULL,
+  rule_name VARCHAR(100) NOT NULL,              -- kept if the rule is deleted
+  severity VARCHAR(10) NOT NULL
+    CHECK (severity IN ('low', 'medium', 'high')),
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE,
+  message_sent_at TIMESTAMPTZ NOT NULL,
+  reasons JSONB NOT NULL DEFAULT '[]',          -- [{type: keyword|pattern|external|after_hours, value}]
+  status VARCHAR(20) NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'reviewed', 'escalated')),
+  reviewed_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  escalated_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  escalated_at TIMESTAMPTZ,
+  notified_at TIMESTAMPTZ,                      -- included in an admin alert
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Re-syncing a message never flags it twice for the same rule
+CREATE UNIQUE INDEX IF NOT EXISTS idx_policy_flags_rule_message
+ON policy_flags(rule_id, message_id);
+
+CREATE INDEX IF NOT EXISTS idx_policy_flags_queue
+ON policy_flags(tenant_id, status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_policy_flags_unnotified
+ON policy_flags(created_at)
+WHERE notified_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS policy_flag_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  flag_id UUID NOT NULL REFERENCES policy_flags(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  body TEXT,
+  status_from VARCHAR(20),                      -- set when the note records a status change
+  status_to VARCHAR(20),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_policy_flag_notes_flag
+ON policy_flag_notes(flag_id, created_at);
+
+-- RLS Policies
+-- Flags point at message content, so all access goes through the service role
+-- (the web API checks the caller is a tenant admin first)
+ALTER TABLE policy_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE policy_flags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE policy_flag_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to policy rules"
+ON policy_rules
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to policy flags"
+ON policy_flags
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to policy flag notes"
+ON policy_flag_notes
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE policy_rules IS 'Tenant-defined monitoring rules evaluated against newly archived messages';
+COMMENT ON TABLE policy_flags IS 'Messages that matched a policy rule; the review queue';
+COMMENT ON TABLE policy_flag_notes IS 'Reviewer notes and status changes on a flag';
+
+COMMIT;
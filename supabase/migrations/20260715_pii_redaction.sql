@@ -0,0 +1,40 @@
+-- PII redaction
+-- Transcripts shared outside the company must not expose card numbers, SSNs
+-- or customer phone numbers. Each tenant configures which patterns are
+-- masked; redaction is applied when data leaves the API (message views, the
+-- monitor feed, exports and reports), so the archive itself is never changed.
+-- Users with the redacted_view permission always get masked data; everyone
+-- else can ask for it per export or report. Once a tenant has saved its
+-- settings, every unredacted access is written to the audit log.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS redaction_settings (
+  tenant_id UUID PRIMARY KEY REFERENCES tenants(id) ON DELETE CASCADE,
+  presets TEXT[] NOT NULL DEFAULT '{card_number,us_ssn}', -- built-in patterns (see src/lib/redaction.ts)
+  custom_patterns TEXT[] NOT NULL DEFAULT '{}',         -- extra regular expressions
+  mask_external_numbers BOOLEAN NOT NULL DEFAULT true,  -- customer phone numbers in sender and caller fields
+  updated_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE redaction_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to redaction settings"
+ON redaction_settings
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE redaction_settings IS 'Per-tenant PII patterns masked in redacted views and exports';
+
+-- ─── Redacted view permission ────────────────────────────────────────────────
+
+ALTER TABLE user_feature_permissions
+ADD COLUMN IF NOT EXISTS redacted_view BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN user_feature_permissions.redacted_view IS 'User only ever sees PII-redacted messages, feeds, exports and reports';
+
+COMMIT;
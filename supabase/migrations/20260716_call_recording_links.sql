@@ -0,0 +1,40 @@
+-- Call recording to CDR linking
+-- CDR rows and recordings are synced independently, so call_logs.recording_id
+-- was almost never set. A matching pass in the sync service (see
+-- sync-service/src/sync/call-linking.ts) links each new recording to the CDR
+-- legs it belongs to:
+--   call_id - both sides carry the same 3CX call id (call_group_id)
+--   overlap - same extension and/or remote number, overlapping in time
+--
+-- call_group_id is the 3CX call id shared by every leg of one call (queue
+-- attempts, transfers, forwards). It is NULL where the 3CX CDR table does not
+-- expose one; those calls are shown as a single leg.
+
+BEGIN;
+
+ALTER TABLE call_logs ADD COLUMN IF NOT EXISTS call_group_id VARCHAR(255);
+ALTER TABLE call_logs ADD COLUMN IF NOT EXISTS extension_number VARCHAR(50);
+ALTER TABLE call_logs ADD COLUMN IF NOT EXISTS queue_name VARCHAR(255);
+ALTER TABLE call_logs ADD COLUMN IF NOT EXISTS recording_match VARCHAR(20)
+  CHECK (recording_match IN ('call_id', 'overlap'));
+ALTER TABLE call_logs ADD COLUMN IF NOT EXISTS recording_linked_at TIMESTAMPTZ;
+
+ALTER TABLE call_recordings ADD COLUMN IF NOT EXISTS call_group_id VARCHAR(255);
+ALTER TABLE call_recordings ADD COLUMN IF NOT EXISTS extension_number VARCHAR(50);
+
+CREATE INDEX IF NOT EXISTS idx_call_logs_group
+ON call_logs(tenant_id, call_group_id)
+WHERE call_group_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_call_logs_recording
+ON call_logs(recording_id)
+WHERE recording_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_call_recordings_started
+ON call_recordings(tenant_id, started_at);
+
+COMMENT ON COLUMN call_logs.call_group_id IS '3CX call id shared by all legs of one call; NULL when the CDR source has none';
+COMMENT ON COLUMN call_logs.recording_match IS 'How recording_id was linked: call_id (same 3CX call) or overlap (extension/number and time)';
+COMMENT ON COLUMN call_recordings.call_group_id IS '3CX call id of the recorded call, when the recordings table links to it';
+
+COMMIT;
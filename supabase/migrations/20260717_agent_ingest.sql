@@ -0,0 +1,14 @@
+-- Agent ingest API
+-- Installed sync agents used to carry the service-role key, DATABASE_URL and
+-- the global Spaces credentials in their .env, so one compromised PBX exposed
+-- every tenant. Agents now authenticate to /api/agent/* with their own
+-- sync_agents.agent_token and can only write their own tenant's rows and
+-- upload under their tenant's storage prefix (see src/lib/agent-ingest.ts).
+
+BEGIN;
+
+ALTER TABLE sync_agents ADD COLUMN IF NOT EXISTS last_ingest_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN sync_agents.last_ingest_at IS 'Last batch or upload grant accepted from the agent through the ingest API';
+
+COMMIT;
@@ -0,0 +1,115 @@
+-- Agent control plane
+-- Installed sync agents pick up everything they are told to do from their
+-- heartbeat response: the tenant's desired config, pending commands and the
+-- release they should be running (see src/lib/agent-control.ts).
+--
+-- Releases roll out in stages: an agent is offered a release once its stable
+-- bucket (0-99, derived from its id) is below rollout_percent. Pausing a
+-- release stops further agents picking it up; agents that already updated
+-- stay where they are.
+--
+-- Commands: pending -> delivered (sent in a heartbeat response)
+--                   -> succeeded / failed (reported in a later heartbeat)
+--           pending -> expired (never collected before expires_at)
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS agent_releases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  version VARCHAR(20) NOT NULL UNIQUE,
+  download_url TEXT NOT NULL,                  -- tarball of the built sync service
+  sha256 CHAR(64) NOT NULL,                    -- checked by the agent before installing
+  changelog TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'rolling_out', 'paused', 'complete')),
+  rollout_percent INTEGER NOT NULL DEFAULT 0 CHECK (rollout_percent BETWEEN 0 AND 100),
+  created_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_releases_offered
+ON agent_releases(created_at DESC)
+WHERE status IN ('rolling_out', 'complete');
+
+CREATE TABLE IF NOT EXISTS agent_commands (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID NOT NULL REFERENCES sync_agents(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  command VARCHAR(20) NOT NULL
+    CHECK (command IN ('resync', 'restart', 'rotate_token', 'upload_logs')),
+  params JSONB NOT NULL DEFAULT '{}',
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'delivered', 'succeeded', 'failed', 'expired')),
+  result JSONB,
+  error TEXT,
+  requested_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '1 day',
+  delivered_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_commands_pending
+ON agent_commands(agent_id, created_at)
+WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_agent_commands_agent
+ON agent_commands(agent_id, created_at DESC);
+
+-- Config the agent last applied, and the replacement token handed out by a
+-- rotate_token command. The new token replaces agent_token the first time
+-- the agent authenticates with it, so a lost heartbeat response cannot lock
+-- the agent out.
+ALTER TABLE sync_agents ADD COLUMN IF NOT EXISTS applied_config_hash VARCHAR(64);
+ALTER TABLE sync_agents ADD COLUMN IF NOT EXISTS pending_agent_token VARCHAR(64) UNIQUE;
+
+-- RLS Policies
+ALTER TABLE agent_releases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_commands ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can view agent releases"
+ON agent_releases
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM user_profiles up
+    WHERE up.auth_user_id = auth.uid()
+    AND up.role = 'super_admin'
+  )
+);
+
+CREATE POLICY "Super admins can view agent commands"
+ON agent_commands
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM user_profiles up
+    WHERE up.auth_user_id = auth.uid()
+    AND up.role = 'super_admin'
+  )
+);
+
+-- Service role has full access (agent API and fleet management)
+CREATE POLICY "Service role has full access to agent releases"
+ON agent_releases
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to agent commands"
+ON agent_commands
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE agent_releases IS 'Sync agent releases with checksums and staged rollout state';
+COMMENT ON TABLE agent_commands IS 'Commands for installed sync agents, delivered in heartbeat responses';
+COMMENT ON COLUMN sync_agents.applied_config_hash IS 'Hash of the desired config the agent last reported applying';
+COMMENT ON COLUMN sync_agents.pending_agent_token IS 'Replacement token from a rotate_token command, promoted on first use';
+
+COMMIT;
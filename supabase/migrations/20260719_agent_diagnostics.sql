@@ -0,0 +1,71 @@
+-- Agent diagnostics bundles
+-- A super admin asks an installed agent for diagnostics with the
+-- collect_diagnostics command. The agent gathers its logs, redacted config,
+-- circuit breaker / realtime listener / tunnel state and 3CX schema
+-- capabilities, and uploads them as a zip plus the individual files under
+-- {tenant_id}/agent-diagnostics/{command_id}/ (see src/lib/agent-diagnostics.ts).
+--
+-- Bundles: requested -> uploaded (command succeeded)
+--                    -> failed / expired (command failed or never collected)
+--          uploaded  -> purged (files deleted once retain_until has passed,
+--                       by /api/cron/agent-diagnostics)
+
+BEGIN;
+
+ALTER TABLE agent_commands DROP CONSTRAINT IF EXISTS agent_commands_command_check;
+ALTER TABLE agent_commands ADD CONSTRAINT agent_commands_command_check
+  CHECK (command IN ('resync', 'restart', 'rotate_token', 'upload_logs', 'collect_diagnostics'));
+
+CREATE TABLE IF NOT EXISTS agent_diagnostics (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID NOT NULL REFERENCES sync_agents(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  command_id UUID UNIQUE REFERENCES agent_commands(id) ON DELETE SET NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested', 'uploaded', 'failed', 'expired', 'purged')),
+  bundle_path TEXT,                            -- zip of every file below
+  bundle_size_bytes BIGINT,
+  bundle_sha256 CHAR(64),
+  files JSONB NOT NULL DEFAULT '[]',           -- [{ name, storage_path, size, sha256 }]
+  error TEXT,
+  requested_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  uploaded_at TIMESTAMPTZ,
+  retain_until TIMESTAMPTZ,                    -- set on upload
+  purged_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_diagnostics_tenant
+ON agent_diagnostics(tenant_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_agent_diagnostics_retention
+ON agent_diagnostics(retain_until)
+WHERE status = 'uploaded';
+
+-- RLS Policies
+ALTER TABLE agent_diagnostics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can view agent diagnostics"
+ON agent_diagnostics
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM user_profiles up
+    WHERE up.auth_user_id = auth.uid()
+    AND up.role = 'super_admin'
+  )
+);
+
+-- Service role has full access (agent heartbeat and retention cron)
+CREATE POLICY "Service role has full access to agent diagnostics"
+ON agent_diagnostics
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE agent_diagnostics IS 'Diagnostics bundles uploaded by sync agents, with their retention';
+COMMENT ON COLUMN agent_diagnostics.retain_until IS 'When the bundle files are deleted from storage';
+
+COMMIT;
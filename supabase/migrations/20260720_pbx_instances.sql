@@ -0,0 +1,250 @@
+-- Multi-PBX tenants
+-- A tenant used to map to exactly one 3CX system through the connection
+-- columns on its tenants row. Franchise customers run several 3CX systems
+-- under one company, so each system is now a pbx_instances row with its own
+-- connection settings, paths, backup toggles and agent token.
+--
+-- Every tenant with a configured 3CX system gets a "Primary" instance copied
+-- from its tenants row, and existing archive rows are tagged with it. The
+-- tenants connection columns stay as they are: /api/tenant/config keeps
+-- writing them and mirrors the change onto the primary instance, and a
+-- tenant with no instances at all is still synced from its tenants row
+-- (pbx_instance_id NULL).
+--
+-- 3CX ids are only unique within one system, so the archive's natural keys
+-- become (tenant_id, pbx_instance_id, <3cx id>). NULLS NOT DISTINCT keeps
+-- rows of instance-less tenants unique exactly as before.
+--
+-- Users, billing, quotas and permissions stay at the tenant level.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS pbx_instances (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  is_primary BOOLEAN NOT NULL DEFAULT false,   -- mirrors the tenants row connection columns
+  -- Connection (SSH tunnel to the 3CX PostgreSQL)
+  threecx_host VARCHAR(255),
+  ssh_port INTEGER DEFAULT 22,
+  ssh_user VARCHAR(100),
+  ssh_password TEXT,
+  threecx_db_password TEXT,
+  -- File paths on the 3CX server
+  threecx_chat_files_path TEXT,
+  threecx_recordings_path TEXT,
+  threecx_voicemail_path TEXT,
+  threecx_fax_path TEXT,
+  threecx_meetings_path TEXT,
+  -- Backup toggles
+  backup_chats BOOLEAN NOT NULL DEFAULT true,
+  backup_chat_media BOOLEAN NOT NULL DEFAULT true,
+  backup_recordings BOOLEAN NOT NULL DEFAULT true,
+  backup_voicemails BOOLEAN NOT NULL DEFAULT true,
+  backup_faxes BOOLEAN NOT NULL DEFAULT true,
+  backup_cdr BOOLEAN NOT NULL DEFAULT true,
+  backup_meetings BOOLEAN NOT NULL DEFAULT true,
+  sync_enabled BOOLEAN NOT NULL DEFAULT true,
+  -- Install token for this instance's sync agent
+  agent_token VARCHAR(64) UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(tenant_id, name)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pbx_instances_primary
+ON pbx_instances(tenant_id)
+WHERE is_primary;
+
+-- Primary instance for every tenant with a configured 3CX system
+INSERT INTO pbx_instances (
+  tenant_id, name, is_primary,
+  threecx_host, ssh_port, ssh_user, ssh_password, threecx_db_password,
+  threecx_chat_files_path, threecx_recordings_path, threecx_voicemail_path, threecx_fax_path, threecx_meetings_path,
+  backup_chats, backup_chat_media, backup_recordings, backup_voicemails, backup_faxes, backup_cdr, backup_meetings,
+  agent_token
+)
+SELECT
+  t.id, 'Primary', true,
+  t.threecx_host, COALESCE(t.ssh_port, t.sftp_port, 22), COALESCE(t.ssh_user, t.sftp_user),
+  COALESCE(t.ssh_password, t.sftp_password), COALESCE(t.threecx_db_password, t.threecx_password),
+  t.threecx_chat_files_path, t.threecx_recordings_path, t.threecx_voicemail_path, t.threecx_fax_path, t.threecx_meetings_path,
+  COALESCE(t.backup_chats, true), COALESCE(t.backup_chat_media, true), COALESCE(t.backup_recordings, true),
+  COALESCE(t.backup_voicemails, true), COALESCE(t.backup_faxes, true), COALESCE(t.backup_cdr, true),
+  COALESCE(t.backup_meetings, true),
+  t.agent_token
+FROM tenants t
+WHERE t.threecx_host IS NOT NULL OR t.agent_token IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- Tag archive, sync and agent rows by instance. Archived rows keep their
+-- instance: one that still has archived data cannot be deleted.
+ALTER TABLE extensions ADD COLUMN IF NOT EXISTS pbx_instance_id UUID REFERENCES pbx_instances(id);
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS pbx_instance_id UUID REFERENCES pbx_instances(id);
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS pbx_instance_id UUID REFERENCES pbx_instances(id);
+ALTER TABLE media_files ADD COLUMN IF NOT EXISTS pbx_instance_id UUID REFERENCES pbx_instances(id);
+ALTER TABLE call_recordings ADD COLUMN IF NOT EXISTS pbx_instance_id UUID REFERENCES pbx_instances(id);
+ALTER TABLE voicemails ADD COLUMN IF NOT EXISTS pbx_instance_id UUID REFERENCES pbx_instances(id);
+ALTER TABLE faxes ADD COLUMN IF NOT EXISTS pbx_instance_id UUID REFERENCES pbx_instances(id);
+ALTER TABLE call_logs ADD COLUMN IF NOT EXISTS pbx_instance_id UUID REFERENCES pbx_instances(id);
+ALTER TABLE meeting_recordings ADD COLUMN IF NOT EXISTS pbx_instance_id UUID REFERENCES pbx_instances(id);
+ALTER TABLE sync_status ADD COLUMN IF NOT EXISTS pbx_instance_id UUID REFERENCES pbx_instances(id) ON DELETE CASCADE;
+ALTER TABLE sync_logs ADD COLUMN IF NOT EXISTS pbx_instance_id UUID REFERENCES pbx_instances(id) ON DELETE SET NULL;
+ALTER TABLE sync_jobs ADD COLUMN IF NOT EXISTS pbx_instance_id UUID REFERENCES pbx_instances(id) ON DELETE CASCADE;
+ALTER TABLE sync_agents ADD COLUMN IF NOT EXISTS pbx_instance_id UUID REFERENCES pbx_instances(id) ON DELETE CASCADE;
+
+UPDATE extensions x SET pbx_instance_id = p.id FROM pbx_instances p WHERE p.tenant_id = x.tenant_id AND p.is_primary AND x.pbx_instance_id IS NULL;
+UPDATE conversations x SET pbx_instance_id = p.id FROM pbx_instances p WHERE p.tenant_id = x.tenant_id AND p.is_primary AND x.pbx_instance_id IS NULL;
+UPDATE messages x SET pbx_instance_id = p.id FROM pbx_instances p WHERE p.tenant_id = x.tenant_id AND p.is_primary AND x.pbx_instance_id IS NULL;
+UPDATE media_files x SET pbx_instance_id = p.id FROM pbx_instances p WHERE p.tenant_id = x.tenant_id AND p.is_primary AND x.pbx_instance_id IS NULL;
+UPDATE call_recordings x SET pbx_instance_id = p.id FROM pbx_instances p WHERE p.tenant_id = x.tenant_id AND p.is_primary AND x.pbx_instance_id IS NULL;
+UPDATE voicemails x SET pbx_instance_id = p.id FROM pbx_instances p WHERE p.tenant_id = x.tenant_id AND p.is_primary AND x.pbx_instance_id IS NULL;
+UPDATE faxes x SET pbx_instance_id = p.id FROM pbx_instances p WHERE p.tenant_id = x.tenant_id AND p.is_primary AND x.pbx_instance_id IS NULL;
+UPDATE call_logs x SET pbx_instance_id = p.id FROM pbx_instances p WHERE p.tenant_id = x.tenant_id AND p.is_primary AND x.pbx_instance_id IS NULL;
+UPDATE meeting_recordings x SET pbx_instance_id = p.id FROM pbx_instances p WHERE p.tenant_id = x.tenant_id AND p.is_primary AND x.pbx_instance_id IS NULL;
+UPDATE sync_status x SET pbx_instance_id = p.id FROM pbx_instances p WHERE p.tenant_id = x.tenant_id AND p.is_primary AND x.pbx_instance_id IS NULL;
+UPDATE sync_logs x SET pbx_instance_id = p.id FROM pbx_instances p WHERE p.tenant_id = x.tenant_id AND p.is_primary AND x.pbx_instance_id IS NULL;
+UPDATE sync_jobs x SET pbx_instance_id = p.id FROM pbx_instances p WHERE p.tenant_id = x.tenant_id AND p.is_primary AND x.pbx_instance_id IS NULL;
+UPDATE sync_agents x SET pbx_instance_id = p.id FROM pbx_instances p WHERE p.tenant_id = x.tenant_id AND p.is_primary AND x.pbx_instance_id IS NULL;
+
+-- Natural keys are now per instance
+ALTER TABLE extensions DROP CONSTRAINT IF EXISTS extensions_tenant_id_extension_number_key;
+DROP INDEX IF EXISTS extensions_tenant_id_extension_number_key;
+CREATE UNIQUE INDEX IF NOT EXISTS extensions_tenant_instance_extension_number_key
+ON extensions(tenant_id, pbx_instance_id, extension_number) NULLS NOT DISTINCT;
+
+ALTER TABLE conversations DROP CONSTRAINT IF EXISTS conversations_tenant_id_threecx_conversation_id_key;
+DROP INDEX IF EXISTS conversations_tenant_id_threecx_conversation_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS conversations_tenant_instance_threecx_conversation_id_key
+ON conversations(tenant_id, pbx_instance_id, threecx_conversation_id) NULLS NOT DISTINCT;
+
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_tenant_id_threecx_message_id_key;
+DROP INDEX IF EXISTS messages_tenant_id_threecx_message_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS messages_tenant_instance_threecx_message_id_key
+ON messages(tenant_id, pbx_instance_id, threecx_message_id) NULLS NOT DISTINCT;
+
+ALTER TABLE call_recordings DROP CONSTRAINT IF EXISTS call_recordings_tenant_id_threecx_call_id_key;
+ALTER TABLE call_recordings DROP CONSTRAINT IF EXISTS call_recordings_tenant_id_threecx_recording_id_key;
+DROP INDEX IF EXISTS call_recordings_tenant_id_threecx_call_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS call_recordings_tenant_instance_threecx_call_id_key
+ON call_recordings(tenant_id, pbx_instance_id, threecx_call_id) NULLS NOT DISTINCT;
+
+ALTER TABLE voicemails DROP CONSTRAINT IF EXISTS voicemails_tenant_id_threecx_voicemail_id_key;
+DROP INDEX IF EXISTS voicemails_tenant_id_threecx_voicemail_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS voicemails_tenant_instance_threecx_voicemail_id_key
+ON voicemails(tenant_id, pbx_instance_id, threecx_voicemail_id) NULLS NOT DISTINCT;
+
+ALTER TABLE faxes DROP CONSTRAINT IF EXISTS faxes_tenant_id_threecx_fax_id_key;
+DROP INDEX IF EXISTS faxes_tenant_id_threecx_fax_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS faxes_tenant_instance_threecx_fax_id_key
+ON faxes(tenant_id, pbx_instance_id, threecx_fax_id) NULLS NOT DISTINCT;
+
+ALTER TABLE call_logs DROP CONSTRAINT IF EXISTS call_logs_tenant_id_threecx_call_id_key;
+DROP INDEX IF EXISTS call_logs_tenant_id_threecx_call_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS call_logs_tenant_instance_threecx_call_id_key
+ON call_logs(tenant_id, pbx_instance_id, threecx_call_id) NULLS NOT DISTINCT;
+
+ALTER TABLE meeting_recordings DROP CONSTRAINT IF EXISTS meeting_recordings_tenant_id_threecx_meeting_id_key;
+DROP INDEX IF EXISTS meeting_recordings_tenant_id_threecx_meeting_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS meeting_recordings_tenant_instance_threecx_meeting_id_key
+ON meeting_recordings(tenant_id, pbx_instance_id, threecx_meeting_id) NULLS NOT DISTINCT;
+
+ALTER TABLE sync_status DROP CONSTRAINT IF EXISTS sync_status_tenant_sync_type_unique;
+ALTER TABLE sync_status DROP CONSTRAINT IF EXISTS sync_status_tenant_id_sync_type_key;
+DROP INDEX IF EXISTS sync_status_tenant_id_sync_type_key;
+CREATE UNIQUE INDEX IF NOT EXISTS sync_status_tenant_instance_sync_type_key
+ON sync_status(tenant_id, pbx_instance_id, sync_type) NULLS NOT DISTINCT;
+
+-- One agent per instance (per tenant for instance-less tenants)
+ALTER TABLE sync_agents DROP CONSTRAINT IF EXISTS sync_agents_tenant_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS sync_agents_tenant_instance_key
+ON sync_agents(tenant_id, pbx_instance_id) NULLS NOT DISTINCT;
+
+-- At most one live sync job per instance and type
+DROP INDEX IF EXISTS idx_sync_jobs_one_live;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_jobs_one_live
+ON sync_jobs(tenant_id, pbx_instance_id, sync_type) NULLS NOT DISTINCT
+WHERE status IN ('queued', 'running');
+
+-- Dashboard filters
+CREATE INDEX IF NOT EXISTS idx_conversations_instance ON conversations(tenant_id, pbx_instance_id);
+CREATE INDEX IF NOT EXISTS idx_call_recordings_instance ON call_recordings(tenant_id, pbx_instance_id);
+CREATE INDEX IF NOT EXISTS idx_voicemails_instance ON voicemails(tenant_id, pbx_instance_id);
+CREATE INDEX IF NOT EXISTS idx_faxes_instance ON faxes(tenant_id, pbx_instance_id);
+CREATE INDEX IF NOT EXISTS idx_call_logs_instance ON call_logs(tenant_id, pbx_instance_id);
+CREATE INDEX IF NOT EXISTS idx_meeting_recordings_instance ON meeting_recordings(tenant_id, pbx_instance_id);
+
+-- enqueue_sync_job gains the instance; the old signature is replaced
+DROP FUNCTION IF EXISTS enqueue_sync_job(UUID, TEXT, INTEGER, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION enqueue_sync_job(
+  p_tenant_id UUID,
+  p_sync_type TEXT,
+  p_priority INTEGER DEFAULT 0,
+  p_source TEXT DEFAULT 'schedule',
+  p_requested_by UUID DEFAULT NULL,
+  p_pbx_instance_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO sync_jobs (tenant_id, pbx_instance_id, sync_type, priority, source, requested_by)
+  VALUES (p_tenant_id, p_pbx_instance_id, p_sync_type, p_priority, p_source, p_requested_by)
+  ON CONFLICT (tenant_id, pbx_instance_id, sync_type) WHERE status IN ('queued', 'running')
+  DO UPDATE SET
+    priority = GREATEST(sync_jobs.priority, EXCLUDED.priority),
+    source = CASE WHEN EXCLUDED.priority > sync_jobs.priority THEN EXCLUDED.source ELSE sync_jobs.source END,
+    requested_by = COALESCE(EXCLUDED.requested_by, sync_jobs.requested_by),
+    -- A manual trigger should not wait out a retry backoff
+    run_after = CASE WHEN EXCLUDED.priority > sync_jobs.priority THEN LEAST(sync_jobs.run_after, NOW()) ELSE sync_jobs.run_after END,
+    updated_at = NOW()
+  WHERE sync_jobs.status = 'queued'
+  RETURNING id INTO v_id;
+
+  IF v_id IS NULL THEN
+    SELECT id INTO v_id FROM sync_jobs
+    WHERE tenant_id = p_tenant_id
+    AND pbx_instance_id IS NOT DISTINCT FROM p_pbx_instance_id
+    AND sync_type = p_sync_type
+    AND status IN ('queued', 'running');
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION enqueue_sync_job(UUID, TEXT, INTEGER, TEXT, UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION enqueue_sync_job(UUID, TEXT, INTEGER, TEXT, UUID, UUID) TO service_role;
+
+-- RLS Policies (credentials live here; the app reads them with the service role)
+ALTER TABLE pbx_instances ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can view PBX instances"
+ON pbx_instances
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM user_profiles up
+    WHERE up.auth_user_id = auth.uid()
+    AND up.role = 'super_admin'
+  )
+);
+
+CREATE POLICY "Service role has full access to PBX instances"
+ON pbx_instances
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE pbx_instances IS '3CX systems of a tenant, each with its own connection, paths, backup toggles and agent';
+COMMENT ON COLUMN pbx_instances.is_primary IS 'Kept in step with the tenants row connection columns by /api/tenant/config';
+COMMENT ON COLUMN pbx_instances.agent_token IS 'Install token for this instance''s sync agent';
+
+COMMIT;
@@ -0,0 +1,67 @@
+-- Manual re-runs of running sync jobs
+-- enqueue_sync_job used to leave a running job alone, so a manual sync
+-- requested while the same job was mid-run was silently dropped - and that run
+-- may have started before whatever the user is waiting for reached 3CX. The
+-- request is now remembered on the running job, and the worker queues another
+-- pass as soon as it finishes.
+
+ALTER TABLE sync_jobs ADD COLUMN IF NOT EXISTS rerun_requested BOOLEAN NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION enqueue_sync_job(
+  p_tenant_id UUID,
+  p_sync_type TEXT,
+  p_priority INTEGER DEFAULT 0,
+  p_source TEXT DEFAULT 'schedule',
+  p_requested_by UUID DEFAULT NULL,
+  p_pbx_instance_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO sync_jobs (tenant_id, pbx_instance_id, sync_type, priority, source, requested_by)
+  VALUES (p_tenant_id, p_pbx_instance_id, p_sync_type, p_priority, p_source, p_requested_by)
+  ON CONFLICT (tenant_id, pbx_instance_id, sync_type) WHERE status IN ('queued', 'running')
+  DO UPDATE SET
+    priority = GREATEST(sync_jobs.priority, EXCLUDED.priority),
+    source = CASE WHEN EXCLUDED.priority > sync_jobs.priority THEN EXCLUDED.source ELSE sync_jobs.source END,
+    requested_by = COALESCE(EXCLUDED.requested_by, sync_jobs.requested_by),
+    -- A manual trigger should not wait out a retry backoff
+    run_after = CASE WHEN EXCLUDED.priority > sync_jobs.priority THEN LEAST(sync_jobs.run_after, NOW()) ELSE sync_jobs.run_after END,
+    updated_at = NOW()
+  WHERE sync_jobs.status = 'queued'
+  RETURNING id INTO v_id;
+
+  -- The job is running: a manual trigger asks for another pass after it
+  IF v_id IS NULL THEN
+    UPDATE sync_jobs
+    SET rerun_requested = rerun_requested OR p_source = 'manual',
+        requested_by = COALESCE(p_requested_by, requested_by),
+        updated_at = NOW()
+    WHERE tenant_id = p_tenant_id
+    AND pbx_instance_id IS NOT DISTINCT FROM p_pbx_instance_id
+    AND sync_type = p_sync_type
+    AND status = 'running'
+    RETURNING id INTO v_id;
+  END IF;
+
+  IF v_id IS NULL THEN
+    SELECT id INTO v_id FROM sync_jobs
+    WHERE tenant_id = p_tenant_id
+    AND pbx_instance_id IS NOT DISTINCT FROM p_pbx_instance_id
+    AND sync_type = p_sync_type
+    AND status IN ('queued', 'running');
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION enqueue_sync_job(UUID, TEXT, INTEGER, TEXT, UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION enqueue_sync_job(UUID, TEXT, INTEGER, TEXT, UUID, UUID) TO service_role;
+
+COMMENT ON COLUMN sync_jobs.rerun_requested IS 'A manual sync was requested while this job was running; the worker queues another pass when it finishes';
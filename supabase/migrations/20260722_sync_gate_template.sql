@@ -0,0 +1,16 @@
+-- Sync gate notice template
+-- Tenant admins were told about paused syncing through the storage_warning
+-- template, which talks about a storage percentage and says nothing about a
+-- past-due payment or what stopped. Restricted gates (uploads_paused, paused)
+-- now get their own template; the warning gate keeps storage_warning.
+-- Routed under the storage_warning notification type so existing channel
+-- preferences still apply.
+
+INSERT INTO notification_templates (name, subject, body_html, body_text, variables, notification_type) VALUES
+('sync_gate',
+ '{{gate_title}}',
+ '<h2>{{gate_title}}</h2><p>Hi {{user_name}},</p><p>{{gate_summary}}</p><p>Reason: <strong>{{reason}}</strong></p><p>Storage: {{storage_used}} of {{storage_limit}} on the {{plan_name}} plan.</p><p>Syncing resumes automatically once this is resolved, and anything created in the meantime is backed up then.</p><p><a href="{{billing_url}}">Review billing</a></p>',
+ 'Hi {{user_name}}, {{gate_summary}} Reason: {{reason}}. Storage: {{storage_used}} of {{storage_limit}} on the {{plan_name}} plan. Review billing: {{billing_url}}',
+ '["user_name", "tenant_name", "gate", "gate_title", "gate_summary", "reason", "plan_name", "storage_used", "storage_limit", "billing_url"]',
+ 'storage_warning')
+ON CONFLICT (name) DO NOTHING;
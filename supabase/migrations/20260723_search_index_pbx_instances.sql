@@ -0,0 +1,352 @@
+-- Search index: 3CX systems
+-- Extension numbers are only unique within one 3CX system, and the dashboard
+-- can be narrowed to one system, but search_index rows didn't say which
+-- system they came from. They now carry pbx_instance_id (copied from the
+-- source row by search_index_upsert()), and the search functions take:
+--   p_pbx_instance_id  - only hits from that system (NULL: every system)
+--   p_extension_grants - replaces p_extension_numbers: the extensions a user
+--                        may see as '<pbx_instance_id>:<number>' (an empty
+--                        instance id for instance-less tenants)
+
+BEGIN;
+
+ALTER TABLE search_index ADD COLUMN IF NOT EXISTS pbx_instance_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_search_index_pbx_instance
+ON search_index(tenant_id, pbx_instance_id, entity_type);
+
+-- Existing rows take the system of their source row
+UPDATE search_index s SET pbx_instance_id = t.pbx_instance_id FROM messages t WHERE s.entity_type = 'message' AND s.entity_id = t.id AND t.pbx_instance_id IS NOT NULL;
+UPDATE search_index s SET pbx_instance_id = t.pbx_instance_id FROM conversations t WHERE s.entity_type = 'conversation' AND s.entity_id = t.id AND t.pbx_instance_id IS NOT NULL;
+UPDATE search_index s SET pbx_instance_id = t.pbx_instance_id FROM call_logs t WHERE s.entity_type = 'call' AND s.entity_id = t.id AND t.pbx_instance_id IS NOT NULL;
+UPDATE search_index s SET pbx_instance_id = t.pbx_instance_id FROM voicemails t WHERE s.entity_type = 'voicemail' AND s.entity_id = t.id AND t.pbx_instance_id IS NOT NULL;
+UPDATE search_index s SET pbx_instance_id = t.pbx_instance_id FROM faxes t WHERE s.entity_type = 'fax' AND s.entity_id = t.id AND t.pbx_instance_id IS NOT NULL;
+UPDATE search_index s SET pbx_instance_id = t.pbx_instance_id FROM extensions t WHERE s.entity_type = 'extension' AND s.entity_id = t.id AND t.pbx_instance_id IS NOT NULL;
+
+-- Same as 20260712_search_index.sql plus pbx_instance_id
+CREATE OR REPLACE FUNCTION search_index_upsert(p_entity_type TEXT, r JSONB)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conversation_id UUID;
+  v_channel_type TEXT;
+  v_extension TEXT;
+  v_title TEXT;
+  v_body TEXT;
+  v_numbers TEXT;
+  v_occurred_at TIMESTAMPTZ;
+  v_has_media BOOLEAN := false;
+  v_pbx_instance_id UUID;
+BEGIN
+  IF r->>'tenant_id' IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Every source table carries its 3CX system
+  v_pbx_instance_id := (r->>'pbx_instance_id')::UUID;
+
+  IF p_entity_type = 'message' THEN
+    v_conversation_id := (r->>'conversation_id')::UUID;
+    SELECT channel_type INTO v_channel_type FROM conversations WHERE id = v_conversation_id;
+    v_extension := COALESCE(r->>'sender_extension', r->>'sender_identifier');
+    v_title := r->>'sender_name';
+    v_body := COALESCE(r->>'content', r->>'message_text');
+    v_numbers := search_digits(r->>'sender_identifier');
+    v_occurred_at := (r->>'sent_at')::TIMESTAMPTZ;
+    v_has_media := COALESCE((r->>'has_media')::BOOLEAN, false);
+
+  ELSIF p_entity_type = 'conversation' THEN
+    v_conversation_id := (r->>'id')::UUID;
+    v_channel_type := r->>'channel_type';
+    v_title := r->>'conversation_name';
+    -- Participants are searchable through their conversation
+    SELECT
+      string_agg(DISTINCT COALESCE(p->>'external_name', p->>'participant_name', p->>'display_name'), ', '),
+      string_agg(DISTINCT concat_ws(' ',
+        search_digits(COALESCE(p->>'external_id', p->>'participant_identifier')),
+        search_digits(p->>'external_number')
+      ), ' ')
+    INTO v_body, v_numbers
+    FROM (SELECT to_jsonb(pt) AS p FROM participants pt WHERE pt.conversation_id = v_conversation_id) participant_rows;
+    v_occurred_at := COALESCE((r->>'last_message_at')::TIMESTAMPTZ, (r->>'created_at')::TIMESTAMPTZ);
+
+  ELSIF p_entity_type = 'call' THEN
+    v_extension := COALESCE(r->>'extension_number', r->>'extension');
+    v_title := concat_ws(' → ', NULLIF(r->>'caller_name', ''), NULLIF(r->>'callee_name', ''));
+    v_numbers := concat_ws(' ',
+      search_digits(r->>'caller_number'),
+      search_digits(r->>'callee_number'),
+      search_digits(v_extension)
+    );
+    v_occurred_at := COALESCE((r->>'started_at')::TIMESTAMPTZ, (r->>'call_started_at')::TIMESTAMPTZ);
+
+  ELSIF p_entity_type = 'voicemail' THEN
+    -- Only voicemails synced from the 3CX API (vmail_*); the rest are legacy
+    -- duplicates the voicemails page already hides
+    IF COALESCE(r->>'threecx_voicemail_id', '') NOT LIKE 'vmail_%' THEN
+      RETURN;
+    END IF;
+    v_extension := COALESCE(r->>'extension_number', r->>'extension');
+    IF v_extension IS NULL AND r->>'extension_id' IS NOT NULL THEN
+      SELECT extension_number INTO v_extension FROM extensions WHERE id = (r->>'extension_id')::UUID;
+    END IF;
+    v_title := r->>'caller_name';
+    v_body := r->>'transcription';
+    v_numbers := concat_ws(' ', search_digits(r->>'caller_number'), search_digits(v_extension));
+    v_occurred_at := COALESCE((r->>'received_at')::TIMESTAMPTZ, (r->>'created_at')::TIMESTAMPTZ);
+
+  ELSIF p_entity_type = 'fax' THEN
+    v_extension := COALESCE(r->>'extension_number', r->>'extension');
+    v_title := concat_ws(' ', NULLIF(r->>'remote_name', ''), NULLIF(r->>'extension_name', ''));
+    v_numbers := concat_ws(' ', search_digits(r->>'remote_number'), search_digits(v_extension));
+    v_occurred_at := COALESCE(
+      (r->>'sent_received_at')::TIMESTAMPTZ,
+      (r->>'fax_time')::TIMESTAMPTZ,
+      (r->>'created_at')::TIMESTAMPTZ
+    );
+
+  ELSIF p_entity_type = 'extension' THEN
+    v_extension := r->>'extension_number';
+    v_title := COALESCE(
+      NULLIF(r->>'display_name', ''),
+      NULLIF(concat_ws(' ', r->>'first_name', r->>'last_name'), '')
+    );
+    v_body := r->>'email';
+    v_numbers := search_digits(v_extension);
+    v_occurred_at := (r->>'created_at')::TIMESTAMPTZ;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown search entity type: %', p_entity_type;
+  END IF;
+
+  INSERT INTO search_index (
+    entity_type, entity_id, tenant_id, pbx_instance_id, conversation_id, channel_type, extension_number,
+    title, body, numbers, occurred_at, has_media, indexed_at
+  )
+  VALUES (
+    p_entity_type, (r->>'id')::UUID, (r->>'tenant_id')::UUID, v_pbx_instance_id, v_conversation_id, v_channel_type, v_extension,
+    NULLIF(v_title, ''), NULLIF(v_body, ''), NULLIF(v_numbers, ''), v_occurred_at, v_has_media, NOW()
+  )
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET
+    pbx_instance_id = EXCLUDED.pbx_instance_id,
+    conversation_id = EXCLUDED.conversation_id,
+    channel_type = EXCLUDED.channel_type,
+    extension_number = EXCLUDED.extension_number,
+    title = EXCLUDED.title,
+    body = EXCLUDED.body,
+    numbers = EXCLUDED.numbers,
+    occurred_at = EXCLUDED.occurred_at,
+    has_media = EXCLUDED.has_media,
+    indexed_at = NOW();
+END;
+$$;
+
+-- ─── Search functions: 3CX systems ───────────────────────────────────────────
+-- Same as 20260713_saved_searches.sql with p_extension_grants in place of
+-- p_extension_numbers, plus p_pbx_instance_id.
+
+DROP FUNCTION IF EXISTS search_archive(UUID, TEXT, TEXT[], TEXT, TEXT, UUID, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, UUID[], TEXT[], TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, NUMERIC, TIMESTAMPTZ, UUID);
+DROP FUNCTION IF EXISTS search_archive_facets(UUID, TEXT, TEXT[], TEXT, TEXT, UUID, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, UUID[], TEXT[], TIMESTAMPTZ, TIMESTAMPTZ);
+DROP FUNCTION IF EXISTS search_archive_matches(UUID, TEXT, TEXT[], TEXT, TEXT, UUID, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, UUID[], TEXT[], TIMESTAMPTZ, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION search_archive_matches(
+  p_tenant_id UUID,
+  p_query TEXT,
+  p_types TEXT[],
+  p_channel_type TEXT DEFAULT NULL,
+  p_extension TEXT DEFAULT NULL,
+  p_conversation_id UUID DEFAULT NULL,
+  p_has_media BOOLEAN DEFAULT NULL,
+  p_start TIMESTAMPTZ DEFAULT NULL,
+  p_end TIMESTAMPTZ DEFAULT NULL,
+  p_conversation_ids UUID[] DEFAULT NULL,
+  p_extension_grants TEXT[] DEFAULT NULL,
+  p_indexed_after TIMESTAMPTZ DEFAULT NULL,
+  p_indexed_before TIMESTAMPTZ DEFAULT NULL,
+  p_pbx_instance_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  entity_type VARCHAR(20),
+  entity_id UUID,
+  conversation_id UUID,
+  channel_type VARCHAR(50),
+  extension_number VARCHAR(50),
+  title TEXT,
+  body TEXT,
+  occurred_at TIMESTAMPTZ,
+  has_media BOOLEAN,
+  rank NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(trim(COALESCE(p_query, '')), '') AS q,
+      websearch_to_tsquery('simple', COALESCE(p_query, '')) AS tsq,
+      -- Number matching only kicks in for 3+ digits, so "a1" stays a text search
+      CASE WHEN length(search_digits(p_query)) >= 3 THEN search_digits(p_query) END AS digits
+  )
+  SELECT
+    s.entity_type, s.entity_id, s.conversation_id, s.channel_type, s.extension_number,
+    s.title, s.body, s.occurred_at, s.has_media,
+    CASE WHEN params.q IS NULL THEN 0 ELSE round((
+      ts_rank(s.search_vector, params.tsq)
+      + CASE WHEN params.digits IS NOT NULL AND s.numbers LIKE '%' || params.digits || '%' THEN 0.5 ELSE 0 END
+      + COALESCE(similarity(s.title, params.q), 0) * 0.3
+    )::NUMERIC, 6) END AS rank
+  FROM search_index s, params
+  WHERE s.tenant_id = p_tenant_id
+    AND (p_pbx_instance_id IS NULL OR s.pbx_instance_id = p_pbx_instance_id)
+    AND s.entity_type = ANY(p_types)
+    AND (
+      params.q IS NULL
+      OR s.search_vector @@ params.tsq
+      OR (params.digits IS NOT NULL AND s.numbers LIKE '%' || params.digits || '%')
+      OR s.title ILIKE '%' || replace(replace(replace(params.q, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    )
+    AND (p_channel_type IS NULL OR s.channel_type = p_channel_type)
+    AND (p_extension IS NULL OR s.extension_number = p_extension)
+    AND (p_conversation_id IS NULL OR s.conversation_id = p_conversation_id)
+    AND (p_has_media IS NULL OR s.entity_type <> 'message' OR s.has_media = p_has_media)
+    AND (p_start IS NULL OR s.occurred_at >= p_start)
+    AND (p_end IS NULL OR s.occurred_at <= p_end)
+    AND (p_indexed_after IS NULL OR s.first_indexed_at > p_indexed_after)
+    AND (p_indexed_before IS NULL OR s.first_indexed_at <= p_indexed_before)
+    AND (
+      p_conversation_ids IS NULL
+      OR s.entity_type NOT IN ('message', 'conversation')
+      OR s.conversation_id = ANY(p_conversation_ids)
+    )
+    AND (
+      p_extension_grants IS NULL
+      OR s.entity_type <> 'extension'
+      OR COALESCE(s.pbx_instance_id::TEXT, '') || ':' || s.extension_number = ANY(p_extension_grants)
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION search_archive(
+  p_tenant_id UUID,
+  p_query TEXT,
+  p_types TEXT[],
+  p_channel_type TEXT DEFAULT NULL,
+  p_extension TEXT DEFAULT NULL,
+  p_conversation_id UUID DEFAULT NULL,
+  p_has_media BOOLEAN DEFAULT NULL,
+  p_start TIMESTAMPTZ DEFAULT NULL,
+  p_end TIMESTAMPTZ DEFAULT NULL,
+  p_conversation_ids UUID[] DEFAULT NULL,
+  p_extension_grants TEXT[] DEFAULT NULL,
+  p_indexed_after TIMESTAMPTZ DEFAULT NULL,
+  p_indexed_before TIMESTAMPTZ DEFAULT NULL,
+  p_pbx_instance_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_after_rank NUMERIC DEFAULT NULL,
+  p_after_occurred_at TIMESTAMPTZ DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  entity_type VARCHAR(20),
+  entity_id UUID,
+  conversation_id UUID,
+  channel_type VARCHAR(50),
+  extension_number VARCHAR(50),
+  title TEXT,
+  title_snippet TEXT,
+  snippet TEXT,
+  occurred_at TIMESTAMPTZ,
+  has_media BOOLEAN,
+  rank NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH page AS (
+    SELECT m.*, COALESCE(m.occurred_at, 'epoch'::TIMESTAMPTZ) AS sort_at
+    FROM search_archive_matches(
+      p_tenant_id, p_query, p_types, p_channel_type, p_extension, p_conversation_id,
+      p_has_media, p_start, p_end, p_conversation_ids, p_extension_grants,
+      p_indexed_after, p_indexed_before, p_pbx_instance_id
+    ) m
+    WHERE p_after_id IS NULL
+      OR (m.rank, COALESCE(m.occurred_at, 'epoch'::TIMESTAMPTZ), m.entity_id)
+         < (COALESCE(p_after_rank, 0), COALESCE(p_after_occurred_at, 'epoch'::TIMESTAMPTZ), p_after_id)
+    ORDER BY m.rank DESC, sort_at DESC, m.entity_id DESC
+    LIMIT p_limit
+  ),
+  opts AS (
+    SELECT
+      websearch_to_tsquery('simple', COALESCE(p_query, '')) AS tsq,
+      format('StartSel=%s, StopSel=%s, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "',
+        chr(57344), chr(57345)) AS headline_opts,
+      format('StartSel=%s, StopSel=%s, HighlightAll=true', chr(57344), chr(57345)) AS title_opts
+  )
+  -- ts_headline is expensive, so it only runs over the returned page
+  SELECT
+    page.entity_type, page.entity_id, page.conversation_id, page.channel_type, page.extension_number,
+    page.title,
+    CASE WHEN page.title IS NULL OR numnode(opts.tsq) = 0 THEN page.title
+      ELSE ts_headline('simple', page.title, opts.tsq, opts.title_opts) END,
+    CASE WHEN page.body IS NULL THEN NULL
+      WHEN numnode(opts.tsq) = 0 THEN left(page.body, 200)
+      ELSE ts_headline('simple', page.body, opts.tsq, opts.headline_opts) END,
+    page.occurred_at, page.has_media, page.rank
+  FROM page, opts
+  ORDER BY page.rank DESC, page.sort_at DESC, page.entity_id DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION search_archive_facets(
+  p_tenant_id UUID,
+  p_query TEXT,
+  p_types TEXT[],
+  p_channel_type TEXT DEFAULT NULL,
+  p_extension TEXT DEFAULT NULL,
+  p_conversation_id UUID DEFAULT NULL,
+  p_has_media BOOLEAN DEFAULT NULL,
+  p_start TIMESTAMPTZ DEFAULT NULL,
+  p_end TIMESTAMPTZ DEFAULT NULL,
+  p_conversation_ids UUID[] DEFAULT NULL,
+  p_extension_grants TEXT[] DEFAULT NULL,
+  p_indexed_after TIMESTAMPTZ DEFAULT NULL,
+  p_indexed_before TIMESTAMPTZ DEFAULT NULL,
+  p_pbx_instance_id UUID DEFAULT NULL
+)
+RETURNS TABLE (facet TEXT, value TEXT, hits BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    CASE
+      WHEN GROUPING(m.entity_type) = 0 THEN 'type'
+      WHEN GROUPING(m.channel_type) = 0 THEN 'channel'
+      ELSE 'extension'
+    END,
+    COALESCE(m.entity_type, m.channel_type, m.extension_number)::TEXT,
+    COUNT(*)
+  FROM search_archive_matches(
+    p_tenant_id, p_query, p_types, p_channel_type, p_extension, p_conversation_id,
+    p_has_media, p_start, p_end, p_conversation_ids, p_extension_grants,
+    p_indexed_after, p_indexed_before, p_pbx_instance_id
+  ) m
+  GROUP BY GROUPING SETS ((m.entity_type), (m.channel_type), (m.extension_number))
+  HAVING COALESCE(m.entity_type, m.channel_type, m.extension_number) IS NOT NULL;
+$$;
+
+REVOKE ALL ON FUNCTION search_archive_matches(UUID, TEXT, TEXT[], TEXT, TEXT, UUID, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, UUID[], TEXT[], TIMESTAMPTZ, TIMESTAMPTZ, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION search_archive(UUID, TEXT, TEXT[], TEXT, TEXT, UUID, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, UUID[], TEXT[], TIMESTAMPTZ, TIMESTAMPTZ, UUID, INTEGER, NUMERIC, TIMESTAMPTZ, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION search_archive_facets(UUID, TEXT, TEXT[], TEXT, TEXT, UUID, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, UUID[], TEXT[], TIMESTAMPTZ, TIMESTAMPTZ, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION search_archive(UUID, TEXT, TEXT[], TEXT, TEXT, UUID, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, UUID[], TEXT[], TIMESTAMPTZ, TIMESTAMPTZ, UUID, INTEGER, NUMERIC, TIMESTAMPTZ, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION search_archive_facets(UUID, TEXT, TEXT[], TEXT, TEXT, UUID, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, UUID[], TEXT[], TIMESTAMPTZ, TIMESTAMPTZ, UUID) TO service_role;
+
+COMMENT ON COLUMN search_index.pbx_instance_id IS '3CX system of the source row';
+
+COMMIT;
@@ -0,0 +1,215 @@
+-- Call analytics: 3CX systems
+-- The analytics page aggregates call_logs through get_call_stats(),
+-- get_daily_volume(), get_hourly_distribution(), get_extension_stats() and
+-- get_queue_stats(), which always covered every 3CX system of the tenant.
+-- They are (re)defined here with p_pbx_instance_id: only calls of that system,
+-- or every system when NULL. The old three-argument signatures are dropped so
+-- PostgREST doesn't see two overloads.
+--
+-- A leg counts as connected once it was answered; talk time is its
+-- duration_seconds. Times are bucketed in UTC.
+
+BEGIN;
+
+DROP FUNCTION IF EXISTS get_call_stats(UUID, TIMESTAMPTZ, TIMESTAMPTZ);
+DROP FUNCTION IF EXISTS get_daily_volume(UUID, TIMESTAMPTZ, TIMESTAMPTZ);
+DROP FUNCTION IF EXISTS get_hourly_distribution(UUID, TIMESTAMPTZ, TIMESTAMPTZ);
+DROP FUNCTION IF EXISTS get_extension_stats(UUID, TIMESTAMPTZ, TIMESTAMPTZ);
+DROP FUNCTION IF EXISTS get_queue_stats(UUID, TIMESTAMPTZ, TIMESTAMPTZ);
+
+-- The calls every aggregate below starts from
+CREATE OR REPLACE FUNCTION analytics_calls(
+  p_tenant_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_pbx_instance_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  pbx_instance_id UUID,
+  direction VARCHAR(20),
+  extension_number VARCHAR(50),
+  queue_name VARCHAR(255),
+  started_at TIMESTAMPTZ,
+  answered BOOLEAN,
+  talk_seconds INTEGER,
+  wait_seconds INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.pbx_instance_id,
+    c.direction,
+    c.extension_number,
+    c.queue_name,
+    c.started_at,
+    (c.answered_at IS NOT NULL OR c.status = 'answered'),
+    CASE WHEN c.answered_at IS NOT NULL OR c.status = 'answered' THEN COALESCE(c.duration_seconds, 0) ELSE 0 END,
+    COALESCE(
+      c.queue_wait_seconds,
+      c.ring_duration_seconds,
+      EXTRACT(EPOCH FROM (COALESCE(c.answered_at, c.ended_at) - c.started_at))::INTEGER,
+      0
+    )
+  FROM call_logs c
+  WHERE c.tenant_id = p_tenant_id
+    AND c.started_at >= p_from
+    AND c.started_at <= p_to
+    AND (p_pbx_instance_id IS NULL OR c.pbx_instance_id = p_pbx_instance_id);
+$$;
+
+CREATE OR REPLACE FUNCTION get_call_stats(
+  p_tenant_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_pbx_instance_id UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT json_build_object(
+    'totalCalls', COUNT(*),
+    'totalTalkSeconds', COALESCE(SUM(c.talk_seconds), 0),
+    'incomingConnected', COUNT(*) FILTER (WHERE c.direction = 'inbound' AND c.answered),
+    'incomingMissed', COUNT(*) FILTER (WHERE c.direction = 'inbound' AND NOT c.answered),
+    'incomingTalkSeconds', COALESCE(SUM(c.talk_seconds) FILTER (WHERE c.direction = 'inbound'), 0),
+    'outgoingConnected', COUNT(*) FILTER (WHERE c.direction = 'outbound' AND c.answered),
+    'outgoingTalkSeconds', COALESCE(SUM(c.talk_seconds) FILTER (WHERE c.direction = 'outbound'), 0),
+    'internalConnected', COUNT(*) FILTER (WHERE c.direction = 'internal' AND c.answered),
+    'internalTalkSeconds', COALESCE(SUM(c.talk_seconds) FILTER (WHERE c.direction = 'internal'), 0),
+    'avgTalkDuration', COALESCE(ROUND(AVG(c.talk_seconds) FILTER (WHERE c.answered)), 0)
+  )
+  FROM analytics_calls(p_tenant_id, p_from, p_to, p_pbx_instance_id) c;
+$$;
+
+CREATE OR REPLACE FUNCTION get_daily_volume(
+  p_tenant_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_pbx_instance_id UUID DEFAULT NULL
+)
+RETURNS TABLE (date DATE, inbound BIGINT, outbound BIGINT, internal BIGINT, total BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (c.started_at AT TIME ZONE 'UTC')::DATE AS day,
+    COUNT(*) FILTER (WHERE c.direction = 'inbound'),
+    COUNT(*) FILTER (WHERE c.direction = 'outbound'),
+    COUNT(*) FILTER (WHERE c.direction = 'internal'),
+    COUNT(*)
+  FROM analytics_calls(p_tenant_id, p_from, p_to, p_pbx_instance_id) c
+  GROUP BY day
+  ORDER BY day;
+$$;
+
+CREATE OR REPLACE FUNCTION get_hourly_distribution(
+  p_tenant_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_pbx_instance_id UUID DEFAULT NULL
+)
+RETURNS TABLE (hour INTEGER, calls BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT h.h, COUNT(c.started_at)
+  FROM generate_series(0, 23) AS h(h)
+  LEFT JOIN analytics_calls(p_tenant_id, p_from, p_to, p_pbx_instance_id) c
+    ON EXTRACT(HOUR FROM c.started_at AT TIME ZONE 'UTC')::INTEGER = h.h
+  GROUP BY h.h
+  ORDER BY h.h;
+$$;
+
+-- Top 20 extensions. The same number on two systems is two rows.
+CREATE OR REPLACE FUNCTION get_extension_stats(
+  p_tenant_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_pbx_instance_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  extension TEXT,
+  name TEXT,
+  "totalCalls" BIGINT,
+  inbound BIGINT,
+  outbound BIGINT,
+  "avgTalkDuration" INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.extension_number::TEXT,
+    MAX(COALESCE(NULLIF(x.display_name, ''), NULLIF(concat_ws(' ', x.first_name, x.last_name), '')))::TEXT,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE c.direction = 'inbound'),
+    COUNT(*) FILTER (WHERE c.direction = 'outbound'),
+    COALESCE(ROUND(AVG(c.talk_seconds) FILTER (WHERE c.answered)), 0)::INTEGER
+  FROM analytics_calls(p_tenant_id, p_from, p_to, p_pbx_instance_id) c
+  LEFT JOIN extensions x
+    ON x.tenant_id = p_tenant_id
+    AND x.pbx_instance_id IS NOT DISTINCT FROM c.pbx_instance_id
+    AND x.extension_number = c.extension_number
+  WHERE c.extension_number IS NOT NULL
+  GROUP BY c.pbx_instance_id, c.extension_number
+  ORDER BY COUNT(*) DESC, c.extension_number
+  LIMIT 20;
+$$;
+
+CREATE OR REPLACE FUNCTION get_queue_stats(
+  p_tenant_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_pbx_instance_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  "queueName" TEXT,
+  "totalCalls" BIGINT,
+  answered BIGINT,
+  abandoned BIGINT,
+  "avgWaitTime" INTEGER,
+  "avgTalkTime" INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.queue_name::TEXT,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE c.answered),
+    COUNT(*) FILTER (WHERE NOT c.answered),
+    COALESCE(ROUND(AVG(c.wait_seconds)), 0)::INTEGER,
+    COALESCE(ROUND(AVG(c.talk_seconds) FILTER (WHERE c.answered)), 0)::INTEGER
+  FROM analytics_calls(p_tenant_id, p_from, p_to, p_pbx_instance_id) c
+  WHERE c.queue_name IS NOT NULL
+  GROUP BY c.queue_name
+  ORDER BY COUNT(*) DESC, c.queue_name;
+$$;
+
+REVOKE ALL ON FUNCTION analytics_calls(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_call_stats(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_daily_volume(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_hourly_distribution(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_extension_stats(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_queue_stats(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_call_stats(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION get_daily_volume(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION get_hourly_distribution(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION get_extension_stats(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION get_queue_stats(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID) TO service_role;
+
+COMMIT;
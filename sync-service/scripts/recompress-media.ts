@@ -14,6 +14,7 @@ import {
   compressVideo,
   DEFAULT_COMPRESSION_SETTINGS,
 } from "../src/utils/compression";
+import { getHoldColumns, partitionHeldRows, logBlockedDeletionByTenant } from "../src/legal-holds";
 
 dotenv.config({ path: path.resolve(__dirname, "../.env") });
 // Also try the main project .env.local
@@ -37,6 +38,7 @@ const typeFilter = args.find((a) => a.startsWith("--type="))?.split("=")[1] || "
 
 interface MediaFile {
   id: string;
+  tenant_id: string;
   file_name: string;
   storage_path: string;
   mime_type: string | null;
@@ -87,10 +89,13 @@ async function main() {
   console.log(`Mode: ${dryRun ? "DRY RUN" : "LIVE"}`);
   console.log(`Type filter: ${typeFilter}\n`);
 
-  // Fetch all media files
+  // Fetch all media files (plus the columns legal holds are matched on)
+  const columns = new Set(["id", "tenant_id", "file_name", "storage_path", "mime_type", "file_size"]);
+  getHoldColumns("media_files").forEach((c) => columns.add(c));
+
   const { data: mediaFiles, error } = await supabase
     .from("media_files")
-    .select("id, file_name, storage_path, mime_type, file_size")
+    .select(Array.from(columns).join(", "))
     .order("file_size", { ascending: false });
 
   if (error) {
@@ -103,8 +108,20 @@ async function main() {
     return;
   }
 
+  // Files under legal hold must not be altered — replacing them destroys the original
+  const { deletable: unheld, held } = await partitionHeldRows(
+    "media_files",
+    mediaFiles as unknown as MediaFile[]
+  );
+  if (held.length > 0) {
+    console.log(`Skipping ${held.length} file(s) under legal hold`);
+    if (!dryRun) {
+      await logBlockedDeletionByTenant("recompress-media", "media_files", held);
+    }
+  }
+
   // Filter by type
-  const filesToProcess = (mediaFiles as MediaFile[]).filter((f) => {
+  const filesToProcess = unheld.filter((f) => {
     const category = getFileCategory(f.mime_type);
     if (typeFilter === "all") return category === "video" || category === "image";
     return category === typeFilter;
@@ -0,0 +1,427 @@
+/**
+ * Agent control plane (local mode)
+ *
+ * Each heartbeat response tells the agent what to run: the tenant's desired
+ * config, commands queued by a super admin and the release this agent should
+ * be on. Command results go back in the next heartbeat. Server side:
+ * src/lib/agent-control.ts and src/lib/agent-diagnostics.ts - keep the
+ * payload shapes in step.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { Pool } from "pg";
+import { logger } from "./utils/logger";
+import { sha256Hex } from "./utils/integrity";
+import { createZipWriter } from "./utils/zip";
+import { getAllCircuitStates } from "./utils/circuit-breaker";
+import { realtimeListenerStatus } from "./threecx/realtime-listener";
+import { getSchemaProfile } from "./threecx/schema";
+import { tunnelStatus } from "./ssh-tunnel";
+import { resetSyncCursor } from "./storage/supabase";
+import { isAgentTransport } from "./storage/agent-transport";
+import { uploadBuffer } from "./storage/spaces-storage";
+
+const execFileAsync = promisify(execFile);
+
+// Installed version, from the package.json next to dist/ (or src/)
+export const AGENT_VERSION: string = (() => {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(__dirname, "..", "package.json"), "utf8")).version;
+  } catch {
+    return "unknown";
+  }
+})();
+
+// Only the end of each log is uploaded
+const LOG_TAIL_BYTES = 5 * 1024 * 1024;
+const LOG_FILES = ["sync.log", "sync-error.log"];
+
+// Config keys whose values never leave the agent
+const SECRET_KEY_PATTERN = /token|key|secret|password/i;
+// Environment included (redacted) in diagnostics bundles
+const DIAGNOSTIC_ENV_KEYS = ["AGENT_MODE", "AUTO_UPDATE", "API_URL", "LOG_LEVEL", "NODE_ENV", "SYNC_INTERVAL_SECONDS"];
+
+// A release that failed to install is not retried before this
+const RELEASE_RETRY_MS = 6 * 60 * 60 * 1000;
+const DOWNLOAD_TIMEOUT_MS = 10 * 60_000;
+// Local state in the install directory that releases don't ship
+const PRESERVED_FILES = [".env", ...LOG_FILES];
+
+export interface RemoteAgentConfig {
+  hash: string;
+  sync_interval_seconds: number;
+  data_types: {
+    chats: boolean;
+    chat_media: boolean;
+    recordings: boolean;
+    voicemails: boolean;
+    faxes: boolean;
+    cdr: boolean;
+    meetings: boolean;
+  };
+  paths: {
+    recordings: string | null;
+    voicemail: string | null;
+    chat_files: string | null;
+    fax: string | null;
+    meetings: string | null;
+  };
+}
+
+export interface AgentCommand {
+  id: string;
+  command: "resync" | "restart" | "rotate_token" | "upload_logs" | "collect_diagnostics";
+  params: Record<string, unknown>;
+}
+
+export interface AgentReleaseInfo {
+  version: string;
+  download_url: string;
+  sha256: string;
+}
+
+export interface HeartbeatResponse {
+  config?: RemoteAgentConfig;
+  commands?: AgentCommand[];
+  release?: AgentReleaseInfo | null;
+}
+
+export interface CommandResult {
+  id: string;
+  status: "succeeded" | "failed";
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+// What running a command needs from local mode
+export interface CommandContext {
+  tenantId: string;
+  setAgentToken: (token: string) => void;
+  pool: Pool | null;
+  config: Record<string, unknown>; // redacted before it leaves the agent
+}
+
+// Results waiting to be reported; cleared once a heartbeat carried them
+let pendingResults: CommandResult[] = [];
+let failedRelease: { version: string; at: number } | null = null;
+
+export function peekCommandResults(): CommandResult[] {
+  return [...pendingResults];
+}
+
+export function clearCommandResults(sent: CommandResult[]): void {
+  const ids = new Set(sent.map((r) => r.id));
+  pendingResults = pendingResults.filter((r) => !ids.has(r.id));
+}
+
+// Rewrite (or add) one KEY=value line of the agent's .env
+function persistEnvValue(key: string, value: string): void {
+  const envPath = path.join(process.cwd(), ".env");
+  const lines = fs.existsSync(envPath) ? fs.readFileSync(envPath, "utf8").split("\n") : [];
+  const index = lines.findIndex((line) => line.startsWith(`${key}=`));
+
+  if (index >= 0) lines[index] = `${key}=${value}`;
+  else lines.push(`${key}=${value}`);
+
+  fs.writeFileSync(envPath, lines.join("\n"), { mode: 0o600 });
+}
+
+const REDACTED = "[redacted]";
+
+// Secrets that can end up in log lines: error messages quoting connection
+// strings, request headers, or config objects logged whole
+const LOG_SECRET_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/g, `$1 ${REDACTED}`],
+  [/(\/\/[^\s:/@]+:)[^\s@/]+@/g, `$1${REDACTED}@`],
+  [/\beyJ[\w-]+\.[\w-]+\.[\w-]+/g, REDACTED],
+  [/("?[\w-]*(?:token|key|secret|password)[\w-]*"?\s*[:=]\s*"?)[^\s",}]+/gi, `$1${REDACTED}`],
+];
+
+/**
+ * Mask secrets in log text before it leaves the agent: the values of every
+ * secret-looking environment variable wherever they appear, then anything
+ * shaped like a credential.
+ */
+function scrubLogText(text: string): string {
+  let scrubbed = text;
+  for (const [key, value] of Object.entries(process.env)) {
+    if (value && value.length >= 6 && SECRET_KEY_PATTERN.test(key)) {
+      scrubbed = scrubbed.split(value).join(REDACTED);
+    }
+  }
+  for (const [pattern, replacement] of LOG_SECRET_PATTERNS) {
+    scrubbed = scrubbed.replace(pattern, replacement);
+  }
+  return scrubbed;
+}
+
+// The last LOG_TAIL_BYTES of a log in the working directory with secrets
+// masked, null if missing
+function readLogTail(file: string): Buffer | null {
+  const logPath = path.join(process.cwd(), file);
+  if (!fs.existsSync(logPath)) return null;
+
+  const { size } = fs.statSync(logPath);
+  const length = Math.min(size, LOG_TAIL_BYTES);
+  const buffer = Buffer.alloc(length);
+  const fd = fs.openSync(logPath, "r");
+  try {
+    fs.readSync(fd, buffer, 0, length, size - length);
+  } finally {
+    fs.closeSync(fd);
+  }
+  return Buffer.from(scrubLogText(buffer.toString("utf8")));
+}
+
+async function uploadLogs(tenantId: string): Promise<Record<string, unknown>> {
+  const now = new Date();
+  const stamp = now.toISOString().replace(/[:.]/g, "-");
+  const month = String(now.getUTCMonth() + 1).padStart(2, "0");
+  const uploaded: string[] = [];
+
+  for (const file of LOG_FILES) {
+    const buffer = readLogTail(file);
+    if (!buffer) continue;
+
+    const storagePath = `${tenantId}/agent-logs/${now.getUTCFullYear()}/${month}/${stamp}-${file}`;
+    await uploadBuffer(buffer, storagePath, "text/plain");
+    uploaded.push(storagePath);
+  }
+
+  return { storage_paths: uploaded, hostname: os.hostname() };
+}
+
+// Values of secret-looking keys are replaced, at any depth
+function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (!value || typeof value !== "object") return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, inner]) => [
+      key,
+      SECRET_KEY_PATTERN.test(key) && inner ? REDACTED : redactSecrets(inner),
+    ])
+  );
+}
+
+function json(value: unknown): Buffer {
+  return Buffer.from(JSON.stringify(value, null, 2));
+}
+
+/**
+ * Gather logs, redacted config and runtime state, and upload them under
+ * `prefix` both one by one (for browsing) and as diagnostics.zip. Sections
+ * that cannot be read are recorded as errors rather than failing the bundle.
+ */
+async function collectDiagnostics(prefix: string, context: CommandContext): Promise<Record<string, unknown>> {
+  if (!prefix.startsWith(`${context.tenantId}/agent-diagnostics/`)) {
+    throw new Error(`Invalid diagnostics prefix: ${prefix}`);
+  }
+
+  const files: Array<{ name: string; data: Buffer }> = [];
+
+  for (const file of LOG_FILES) {
+    const buffer = readLogTail(file);
+    if (buffer) files.push({ name: `logs/${file}`, data: buffer });
+  }
+
+  files.push({
+    name: "config.json",
+    data: json(
+      redactSecrets({
+        ...context.config,
+        env: Object.fromEntries(DIAGNOSTIC_ENV_KEYS.map((key) => [key, process.env[key] ?? null])),
+      })
+    ),
+  });
+
+  files.push({
+    name: "system.json",
+    data: json({
+      agent_version: AGENT_VERSION,
+      node_version: process.version,
+      hostname: os.hostname(),
+      platform: `${os.type()} ${os.release()} (${os.arch()})`,
+      transport: isAgentTransport() ? "agent" : "direct",
+      uptime_seconds: Math.round(process.uptime()),
+      memory: process.memoryUsage(),
+      load_average: os.loadavg(),
+      free_memory: os.freemem(),
+      collected_at: new Date().toISOString(),
+    }),
+  });
+
+  files.push({ name: "circuit-breakers.json", data: json(getAllCircuitStates()) });
+  files.push({ name: "realtime-listeners.json", data: json(realtimeListenerStatus()) });
+  files.push({ name: "tunnels.json", data: json(tunnelStatus()) });
+
+  let schema: unknown;
+  try {
+    schema = context.pool ? await getSchemaProfile(context.pool) : { error: "Database pool not initialized" };
+  } catch (error) {
+    schema = { error: (error as Error).message };
+  }
+  files.push({ name: "schema-capabilities.json", data: json(schema) });
+
+  const uploaded: Array<{ name: string; storage_path: string; size: number; sha256: string }> = [];
+  for (const file of files) {
+    const storagePath = `${prefix}${file.name.replace(/\//g, "-")}`;
+    await uploadBuffer(file.data, storagePath, file.name.endsWith(".json") ? "application/json" : "text/plain");
+    uploaded.push({ name: file.name, storage_path: storagePath, size: file.data.length, sha256: sha256Hex(file.data) });
+  }
+
+  const zipPath = path.join(os.tmpdir(), `diagnostics-${Date.now()}.zip`);
+  try {
+    const zip = await createZipWriter(zipPath);
+    try {
+      for (const file of files) {
+        await zip.addFile(file.name, file.data, { compress: true });
+      }
+      await zip.finish();
+    } catch (error) {
+      await zip.abort();
+      throw error;
+    }
+
+    const bundle = fs.readFileSync(zipPath);
+    const bundlePath = `${prefix}diagnostics.zip`;
+    await uploadBuffer(bundle, bundlePath, "application/zip");
+
+    return {
+      bundle_path: bundlePath,
+      bundle_size: bundle.length,
+      bundle_sha256: sha256Hex(bundle),
+      files: uploaded,
+    };
+  } finally {
+    fs.rmSync(zipPath, { force: true });
+  }
+}
+
+/**
+ * Run the commands from a heartbeat response in order. Returns true when one
+ * of them asks for a restart, which the caller does after reporting.
+ */
+export async function runAgentCommands(commands: AgentCommand[], context: CommandContext): Promise<boolean> {
+  let restart = false;
+
+  for (const command of commands) {
+    logger.info(`Running agent command: ${command.command}`, { commandId: command.id });
+
+    try {
+      let result: Record<string, unknown> = {};
+
+      switch (command.command) {
+        case "resync": {
+          const syncType = String(command.params.sync_type);
+          const since = typeof command.params.since === "string" ? command.params.since : null;
+          await resetSyncCursor(syncType, context.tenantId, since);
+          result = { sync_type: syncType, since };
+          break;
+        }
+        case "restart":
+          restart = true;
+          break;
+        case "rotate_token": {
+          const token = String(command.params.token || "");
+          if (!/^[0-9a-f]{64}$/.test(token)) {
+            throw new Error("Invalid token in rotate_token command");
+          }
+          persistEnvValue("AGENT_TOKEN", token);
+          context.setAgentToken(token);
+          break;
+        }
+        case "upload_logs":
+          result = await uploadLogs(context.tenantId);
+          break;
+        case "collect_diagnostics":
+          result = await collectDiagnostics(String(command.params.storage_prefix || ""), context);
+          break;
+        default:
+          throw new Error(`Unknown command: ${(command as AgentCommand).command}`);
+      }
+
+      pendingResults.push({ id: command.id, status: "succeeded", result });
+    } catch (error) {
+      logger.error(`Agent command failed: ${command.command}`, { error: (error as Error).message });
+      pendingResults.push({ id: command.id, status: "failed", error: (error as Error).message });
+    }
+  }
+
+  return restart;
+}
+
+/**
+ * Install the target release when it differs from the running version:
+ * download, check the SHA-256, unpack into a staging directory next to the
+ * install directory and install production dependencies there, then swap it
+ * in. Until the swap the running install is untouched, so a failed step
+ * leaves it as it was; the replaced install is kept as <dir>.previous.
+ * Returns true when the agent should restart into the new version. Set
+ * AUTO_UPDATE=false to only log available releases.
+ */
+export async function applyRelease(release: AgentReleaseInfo | null | undefined): Promise<boolean> {
+  if (!release || release.version === AGENT_VERSION) return false;
+
+  if (process.env.AUTO_UPDATE === "false") {
+    logger.info(`Agent release ${release.version} available (auto-update disabled)`);
+    return false;
+  }
+
+  if (failedRelease?.version === release.version && Date.now() - failedRelease.at < RELEASE_RETRY_MS) {
+    return false;
+  }
+
+  logger.info(`Updating agent ${AGENT_VERSION} -> ${release.version}`);
+  const archivePath = path.join(os.tmpdir(), `sync-agent-${release.version}.tar.gz`);
+  const installDir = process.cwd();
+  const stagingDir = `${installDir}.staging`;
+  const previousDir = `${installDir}.previous`;
+
+  try {
+    const response = await fetch(release.download_url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`Download failed with status ${response.status}`);
+    }
+
+    const archive = Buffer.from(await response.arrayBuffer());
+    const checksum = sha256Hex(archive);
+    if (checksum !== release.sha256) {
+      throw new Error(`Checksum mismatch (expected ${release.sha256}, got ${checksum})`);
+    }
+
+    fs.writeFileSync(archivePath, archive);
+    fs.rmSync(stagingDir, { recursive: true, force: true });
+    fs.mkdirSync(stagingDir, { recursive: true });
+    await execFileAsync("tar", ["-xzf", archivePath, "-C", stagingDir]);
+    await execFileAsync("npm", ["ci", "--omit=dev"], { cwd: stagingDir, timeout: DOWNLOAD_TIMEOUT_MS });
+
+    for (const file of PRESERVED_FILES) {
+      const source = path.join(installDir, file);
+      if (fs.existsSync(source)) fs.copyFileSync(source, path.join(stagingDir, file));
+    }
+
+    fs.rmSync(previousDir, { recursive: true, force: true });
+    fs.renameSync(installDir, previousDir);
+    try {
+      fs.renameSync(stagingDir, installDir);
+    } catch (error) {
+      fs.renameSync(previousDir, installDir);
+      throw error;
+    }
+
+    logger.info(`Agent release ${release.version} installed, restarting`);
+    return true;
+  } catch (error) {
+    failedRelease = { version: release.version, at: Date.now() };
+    logger.error(`Agent update to ${release.version} failed`, { error: (error as Error).message });
+    return false;
+  } finally {
+    fs.rmSync(archivePath, { force: true });
+    fs.rmSync(stagingDir, { recursive: true, force: true });
+  }
+}
@@ -4,20 +4,20 @@ import http from "http";
 import { logger } from "./utils/logger";
 import { getSupabaseClient } from "./storage/supabase";
 import { getPgPool } from "./storage/postgres";
-import { startScheduler, stopScheduler } from "./scheduler";
-import { runMultiTenantSync, runMultiTenantSyncByType } from "./sync";
-import { getActiveTenants, closeAllTenantPools, testTenantConnection } from "./tenant";
+import { startScheduler, stopScheduler, runRetentionCleanup, isRetentionRunning, runExportQueue, runIntegrityQueue, runReconciliationQueue, runBackfillQueue, enqueueAllTenants, runSyncWorkers, releaseSyncWorkerJobs, isSyncInProgress, getRunningSync } from "./scheduler";
+import { SyncType } from "./sync";
+import { SYNC_JOB_PRIORITY, getSyncJobCounts } from "./storage/sync-jobs";
+import { runRetention, isRetentionDataType, RetentionDataType } from "./sync/retention";
+import { getActiveTenants, closeAllTenantPools, tenantConnectionKey, testTenantConnection } from "./tenant";
 import { resetAllCircuits } from "./utils/circuit-breaker";
 
 // Load environment variables
 dotenv.config();
 
-// Track service state
-let lastSyncTime: Date | null = null;
-let lastSyncResult: { successCount: number; failureCount: number; totalDuration: number } | null = null;
-let isSyncing = false;
+// Every sync type, for manual "sync everything" requests
+const ALL_SYNC_TYPES: SyncType[] = ["messages", "cdr", "media", "voicemails", "recordings", "meetings", "faxes", "extensions"];
 
-// Track per-tenant status
+// Track per-tenant status, one entry per 3CX system (tenantConnectionKey)
 interface TenantStatus {
   id: string;
   name: string;
@@ -176,12 +176,20 @@ function startControlServer(): void {
         messagesSynced: t.messagesSynced,
       }));
 
+      // Queue counts cover every worker; inFlight is just this process
+      let queue = null;
+      try {
+        queue = await getSyncJobCounts();
+      } catch (error) {
+        logger.warn("Failed to read sync job counts", { error: (error as Error).message });
+      }
+
       res.writeHead(200, { "Content-Type": "application/json" });
       res.end(JSON.stringify({
         status: "running",
-        isSyncing,
-        lastSyncTime: lastSyncTime?.toISOString() || null,
-        lastSyncResult,
+        isSyncing: isSyncInProgress(),
+        inFlight: getRunningSync(),
+        queue,
         uptime: process.uptime(),
         tenants,
         configuredTenants: tenants.length,
@@ -218,19 +226,101 @@ function startControlServer(): void {
       return;
     }
 
-    // Manual sync trigger
+    // Manual sync trigger - queues every sync type for every active tenant.
+    // Tenants that already have a job waiting keep it (at manual priority).
     if (url.pathname === "/sync" && req.method === "POST") {
-      if (isSyncing) {
+      try {
+        const tenants = await enqueueAllTenants(ALL_SYNC_TYPES, "manual");
+        logger.info("Manual sync queued", { tenants });
+
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ message: "Sync queued", tenants }));
+
+        runSyncWorkers();
+      } catch (error) {
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: (error as Error).message }));
+      }
+      return;
+    }
+
+    // Retention cleanup - ?tenantId=&dataType=&dryRun=true
+    // Dry runs return the preview inline; real runs continue in the background
+    if (url.pathname === "/retention" && req.method === "POST") {
+      const tenantId = url.searchParams.get("tenantId");
+      const dataType = url.searchParams.get("dataType");
+      const dryRun = url.searchParams.get("dryRun") === "true";
+
+      if (dataType && !isRetentionDataType(dataType)) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Invalid data type" }));
+        return;
+      }
+
+      const options = {
+        tenantIds: tenantId ? [tenantId] : undefined,
+        dataTypes: dataType ? [dataType as RetentionDataType] : undefined,
+      };
+
+      if (dryRun) {
+        try {
+          const results = await runRetention({ ...options, dryRun: true });
+          res.writeHead(200, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ results }));
+        } catch (error) {
+          res.writeHead(500, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: (error as Error).message }));
+        }
+        return;
+      }
+
+      if (isRetentionRunning()) {
         res.writeHead(409, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({ error: "Sync already in progress" }));
+        res.end(JSON.stringify({ error: "Retention cleanup already in progress" }));
         return;
       }
 
       res.writeHead(200, { "Content-Type": "application/json" });
-      res.end(JSON.stringify({ message: "Sync started" }));
+      res.end(JSON.stringify({ message: "Retention cleanup started" }));
+
+      runRetentionCleanup(options);
+      return;
+    }
+
+    // Archive exports - jobs are queued in export_jobs by the web app; this just
+    // starts the worker now instead of waiting for the next minute tick
+    if (url.pathname === "/export" && req.method === "POST") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ message: "Export queue started" }));
+
+      runExportQueue();
+      return;
+    }
+
+    // Integrity verifications - queued in integrity_verifications by the web app
+    if (url.pathname === "/integrity" && req.method === "POST") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ message: "Integrity verification started" }));
+
+      runIntegrityQueue();
+      return;
+    }
+
+    // Reconciliation runs and targeted backfills - queued by the super admin page
+    if (url.pathname === "/reconciliation" && req.method === "POST") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ message: "Reconciliation started" }));
+
+      runReconciliationQueue();
+      return;
+    }
+
+    // Historical backfill jobs - queued in backfill_jobs by the web app
+    if (url.pathname === "/backfill" && req.method === "POST") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ message: "Backfill queue started" }));
 
-      // Run sync in background
-      runManualSync();
+      runBackfillQueue();
       return;
     }
 
@@ -259,12 +349,13 @@ async function testAllConnections(): Promise<void> {
 
   for (const tenant of tenants) {
     const connected = await testTenantConnection(tenant);
-    let status = tenantStatuses.get(tenant.id);
+    const key = tenantConnectionKey(tenant);
+    let status = tenantStatuses.get(key);
 
     if (!status) {
       status = {
         id: tenant.id,
-        name: tenant.name,
+        name: tenant.pbx_instance_name ? `${tenant.name} / ${tenant.pbx_instance_name}` : tenant.name,
         host: tenant.threecx_host,
         connected: false,
         lastSyncTime: null,
@@ -272,7 +363,7 @@ async function testAllConnections(): Promise<void> {
         lastError: null,
         messagesSynced: 0,
       };
-      tenantStatuses.set(tenant.id, status);
+      tenantStatuses.set(key, status);
     }
 
     status.connected = connected;
@@ -307,70 +398,6 @@ export function updateTenantSyncStatus(
   }
 }
 
-// Update tenant statuses from sync results
-function updateTenantStatusesFromResults(results: Array<{
-  tenantId: string;
-  tenantName: string;
-  success: boolean;
-  error?: string;
-  messages: { messagesSynced: number };
-}>): void {
-  for (const result of results) {
-    let status = tenantStatuses.get(result.tenantId);
-
-    if (!status) {
-      status = {
-        id: result.tenantId,
-        name: result.tenantName,
-        host: null,
-        connected: false,
-        lastSyncTime: null,
-        lastSyncSuccess: null,
-        lastError: null,
-        messagesSynced: 0,
-      };
-      tenantStatuses.set(result.tenantId, status);
-    }
-
-    status.lastSyncTime = new Date();
-    status.lastSyncSuccess = result.success;
-    status.connected = result.success;
-
-    if (result.success) {
-      status.messagesSynced += result.messages.messagesSynced;
-      status.lastError = null;
-    } else {
-      status.lastError = result.error || "Sync failed";
-    }
-  }
-}
-
-async function runManualSync(): Promise<void> {
-  if (isSyncing) return;
-
-  isSyncing = true;
-  logger.info("Manual sync triggered");
-
-  try {
-    const result = await runMultiTenantSync();
-    lastSyncTime = new Date();
-    lastSyncResult = result;
-
-    // Update per-tenant statuses
-    updateTenantStatusesFromResults(result.results);
-
-    logger.info("Manual sync completed", {
-      successCount: result.successCount,
-      failureCount: result.failureCount,
-      duration: `${result.totalDuration}ms`,
-    });
-  } catch (error) {
-    logger.error("Manual sync failed", { error: (error as Error).message });
-  } finally {
-    isSyncing = false;
-  }
-}
-
 async function main(): Promise<void> {
   try {
     const supabaseReady = await initialize();
@@ -382,21 +409,16 @@ async function main(): Promise<void> {
     // This ensures the scheduler is running and can handle periodic syncs
     startScheduler();
 
-    // Run lightweight initial sync (messages only) to get started quickly
+    // Queue lightweight initial sync (messages only) to get started quickly
     // Skip if Supabase was unavailable at startup — scheduler will catch up
     if (supabaseReady) {
       logger.info("");
-      logger.info("Running lightweight initial sync (messages only)...");
+      logger.info("Queueing lightweight initial sync (messages only)...");
 
-      isSyncing = true;
-      const startTime = Date.now();
-      await runMultiTenantSyncByType(["messages"]);
-      lastSyncTime = new Date();
-      isSyncing = false;
+      const tenants = await enqueueAllTenants(["messages"], "startup", SYNC_JOB_PRIORITY.fast);
+      runSyncWorkers();
 
-      logger.info("Initial sync completed", {
-        duration: `${Date.now() - startTime}ms`,
-      });
+      logger.info("Initial sync queued", { tenants });
     }
 
     logger.info("");
@@ -417,6 +439,7 @@ async function shutdown(): Promise<void> {
   logger.info("Shutting down...");
 
   stopScheduler();
+  await releaseSyncWorkerJobs();
   await closeAllTenantPools();
 
   logger.info("Shutdown complete");
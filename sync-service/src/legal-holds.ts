@@ -0,0 +1,391 @@
+import { logger } from "./utils/logger";
+import { SupabaseError } from "./utils/errors";
+import { getSupabaseClient } from "./storage/supabase";
+
+// ============================================
+// LEGAL HOLDS
+// ============================================
+// Rows matching an active hold in `legal_holds` must never be deleted.
+// Every deletion path (retention, maintenance scripts) runs candidate rows
+// through partitionHeldRows() and only deletes the `deletable` half.
+
+export interface LegalHold {
+  id: string;
+  tenant_id: string;
+  name: string;
+  extensions: string[];
+  conversation_ids: string[];
+  remote_numbers: string[];
+  starts_at: string | null;
+  ends_at: string | null;
+}
+
+// A hold with its scope expanded into lookup sets
+export interface ResolvedLegalHold extends LegalHold {
+  extensionNumbers: Set<string>;
+  extensionIds: Set<string>;
+  conversationIds: Set<string>;
+  remoteNumbers: string[];
+}
+
+interface HoldColumns {
+  date: string;
+  // Rows dated by their parent row instead, when they have one
+  parent?: { column: string; table: string; date: string };
+  conversation?: string;
+  extensionId?: string;
+  extensions: string[];
+  numbers: string[];
+}
+
+// Which columns of each archive table identify extension / conversation / number
+const HOLD_COLUMNS: Record<string, HoldColumns> = {
+  messages: { date: "sent_at", conversation: "conversation_id", extensions: ["sender_identifier"], numbers: ["sender_identifier"] },
+  // Attachments are synced after (sometimes long after) their message was
+  // sent, so they fall in a hold window by the message's sent_at
+  media_files: {
+    date: "created_at",
+    parent: { column: "message_id", table: "messages", date: "sent_at" },
+    conversation: "conversation_id",
+    extensions: [],
+    numbers: [],
+  },
+  call_recordings: { date: "started_at", extensions: ["caller_number", "callee_number"], numbers: ["caller_number", "callee_number"] },
+  voicemails: { date: "received_at", extensionId: "extension_id", extensions: [], numbers: ["caller_number"] },
+  faxes: { date: "sent_received_at", extensions: ["extension"], numbers: ["remote_number"] },
+  call_logs: { date: "started_at", extensionId: "extension_id", extensions: ["caller_number", "callee_number"], numbers: ["caller_number", "callee_number"] },
+  meeting_recordings: { date: "recorded_at", extensions: ["host_extension"], numbers: [] },
+};
+
+// Columns a caller must select for hold matching on `table`
+export function getHoldColumns(table: string): string[] {
+  const cols = HOLD_COLUMNS[table];
+  if (!cols) {
+    throw new Error(`No legal hold mapping for table ${table}`);
+  }
+  const set = new Set<string>(["id", "tenant_id", cols.date, ...cols.extensions, ...cols.numbers]);
+  if (cols.conversation) set.add(cols.conversation);
+  if (cols.extensionId) set.add(cols.extensionId);
+  if (cols.parent) set.add(cols.parent.column);
+  return Array.from(set);
+}
+
+const PARENT_LOOKUP_BATCH = 200;
+
+// Parent row dates of `rows` for tables dated by their parent, keyed by parent id
+async function loadParentDates(table: string, rows: Array<Record<string, unknown>>): Promise<Map<string, string>> {
+  const parent = HOLD_COLUMNS[table]?.parent;
+  const dates = new Map<string, string>();
+  if (!parent) return dates;
+
+  const ids = Array.from(new Set(rows.map((row) => row[parent.column]).filter(Boolean).map(String)));
+  const client = getSupabaseClient();
+
+  for (let i = 0; i < ids.length; i += PARENT_LOOKUP_BATCH) {
+    const { data, error } = await client
+      .from(parent.table)
+      .select(`id, ${parent.date}`)
+      .in("id", ids.slice(i, i + PARENT_LOOKUP_BATCH));
+
+    if (error) {
+      throw new SupabaseError(`Failed to load ${parent.table} dates for legal hold checks`, { error });
+    }
+    for (const row of (data || []) as unknown as Array<Record<string, unknown>>) {
+      if (row[parent.date]) dates.set(String(row.id), String(row[parent.date]));
+    }
+  }
+
+  return dates;
+}
+
+// Compare phone numbers on digits only, tolerating country-code prefixes
+function normalizeNumber(value: string): string {
+  return value.replace(/\D/g, "");
+}
+
+function numbersMatch(a: string, b: string): boolean {
+  if (!a || !b) return false;
+  if (a === b) return true;
+  const [shorter, longer] = a.length < b.length ? [a, b] : [b, a];
+  return shorter.length >= 7 && longer.endsWith(shorter);
+}
+
+const PARTICIPANT_PAGE_SIZE = 1000;
+
+// Conversations an outside party with one of `numbers` took part in. Numbers
+// are stored in whatever format 3CX reported, so matching happens here on
+// digits rather than in the query.
+async function findConversationsWithNumbers(tenantId: string, numbers: string[]): Promise<Set<string>> {
+  const client = getSupabaseClient();
+  const conversationIds = new Set<string>();
+
+  for (let offset = 0; ; offset += PARTICIPANT_PAGE_SIZE) {
+    const { data, error } = await client
+      .from("participants")
+      .select("*, conversations!inner(tenant_id)")
+      .eq("conversations.tenant_id", tenantId)
+      .eq("participant_type", "external")
+      .order("id")
+      .range(offset, offset + PARTICIPANT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new SupabaseError("Failed to resolve legal hold numbers to conversations", { error });
+    }
+
+    for (const part of (data || []) as Array<Record<string, unknown>>) {
+      const identifiers = [part.external_number, part.external_id, part.participant_identifier]
+        .map((value) => normalizeNumber(String(value ?? "")))
+        .filter(Boolean);
+      if (identifiers.some((value) => numbers.some((n) => numbersMatch(n, value)))) {
+        conversationIds.add(String(part.conversation_id));
+      }
+    }
+
+    if (!data || data.length < PARTICIPANT_PAGE_SIZE) break;
+  }
+
+  return conversationIds;
+}
+
+// Conversations any of the extensions `extensionIds` took part in
+async function findConversationsWithExtensions(tenantId: string, extensionIds: string[]): Promise<Set<string>> {
+  const client = getSupabaseClient();
+  const conversationIds = new Set<string>();
+
+  for (let offset = 0; ; offset += PARTICIPANT_PAGE_SIZE) {
+    const { data, error } = await client
+      .from("participants")
+      .select("id, conversation_id, conversations!inner(tenant_id)")
+      .eq("conversations.tenant_id", tenantId)
+      .in("extension_id", extensionIds)
+      .order("id")
+      .range(offset, offset + PARTICIPANT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new SupabaseError("Failed to resolve legal hold conversations", { error });
+    }
+
+    for (const part of data || []) conversationIds.add(String(part.conversation_id));
+
+    if (!data || data.length < PARTICIPANT_PAGE_SIZE) break;
+  }
+
+  return conversationIds;
+}
+
+// Load active holds for a tenant and expand extensions and remote numbers
+// into ids/conversations
+export async function getActiveLegalHolds(tenantId: string): Promise<ResolvedLegalHold[]> {
+  const client = getSupabaseClient();
+
+  const { data, error } = await client
+    .from("legal_holds")
+    .select("id, tenant_id, name, extensions, conversation_ids, remote_numbers, starts_at, ends_at")
+    .eq("tenant_id", tenantId)
+    .eq("status", "active");
+
+  if (error) {
+    throw new SupabaseError("Failed to fetch legal holds", { error });
+  }
+
+  const holds = (data || []) as LegalHold[];
+  const resolved: ResolvedLegalHold[] = [];
+
+  for (const hold of holds) {
+    const extensionNumbers = new Set(hold.extensions || []);
+    const extensionIds = new Set<string>();
+    const conversationIds = new Set(hold.conversation_ids || []);
+
+    if (extensionNumbers.size > 0) {
+      const { data: exts, error: extError } = await client
+        .from("extensions")
+        .select("id")
+        .eq("tenant_id", tenantId)
+        .in("extension_number", Array.from(extensionNumbers));
+
+      if (extError) {
+        throw new SupabaseError("Failed to resolve legal hold extensions", { error: extError });
+      }
+      for (const ext of exts || []) extensionIds.add(ext.id);
+
+      // Chats the held extensions took part in are held as a whole
+      if (extensionIds.size > 0) {
+        for (const id of await findConversationsWithExtensions(tenantId, Array.from(extensionIds))) {
+          conversationIds.add(id);
+        }
+      }
+    }
+
+    // Chats with a held outside party are held as a whole too, so replies
+    // and media from the tenant's side are kept with the party's messages
+    const remoteNumbers = (hold.remote_numbers || []).map(normalizeNumber).filter(Boolean);
+    if (remoteNumbers.length > 0) {
+      for (const id of await findConversationsWithNumbers(tenantId, remoteNumbers)) {
+        conversationIds.add(id);
+      }
+    }
+
+    resolved.push({
+      ...hold,
+      extensionNumbers,
+      extensionIds,
+      conversationIds,
+      remoteNumbers,
+    });
+  }
+
+  return resolved;
+}
+
+// Return the first hold covering `row` of `table`, or null. `parentDate` is
+// the date of the row's parent for tables dated by their parent.
+export function findMatchingHold(
+  holds: ResolvedLegalHold[],
+  table: string,
+  row: Record<string, unknown>,
+  parentDate?: string | null
+): ResolvedLegalHold | null {
+  const cols = HOLD_COLUMNS[table];
+  if (!cols || holds.length === 0) return null;
+
+  const rawDate = parentDate || row[cols.date];
+  const rowTime = rawDate ? new Date(String(rawDate)).getTime() : null;
+
+  for (const hold of holds) {
+    if (rowTime !== null) {
+      if (hold.starts_at && rowTime < new Date(hold.starts_at).getTime()) continue;
+      if (hold.ends_at && rowTime > new Date(hold.ends_at).getTime()) continue;
+    }
+
+    const scoped =
+      hold.extensionNumbers.size > 0 || hold.conversationIds.size > 0 || hold.remoteNumbers.length > 0;
+    if (!scoped) return hold;
+
+    if (cols.conversation && hold.conversationIds.has(String(row[cols.conversation] ?? ""))) {
+      return hold;
+    }
+    if (cols.extensionId && hold.extensionIds.has(String(row[cols.extensionId] ?? ""))) {
+      return hold;
+    }
+    if (cols.extensions.some((c) => hold.extensionNumbers.has(String(row[c] ?? "")))) {
+      return hold;
+    }
+    if (
+      hold.remoteNumbers.length > 0 &&
+      cols.numbers.some((c) => {
+        const value = normalizeNumber(String(row[c] ?? ""));
+        return hold.remoteNumbers.some((n) => numbersMatch(n, value));
+      })
+    ) {
+      return hold;
+    }
+  }
+
+  return null;
+}
+
+// Split candidate rows into deletable and held. Holds are loaded per tenant
+// unless a pre-loaded list is supplied (rows must then all share one tenant).
+export async function partitionHeldRows<T extends { id: string; tenant_id?: string | null }>(
+  table: string,
+  rows: T[],
+  preloaded?: ResolvedLegalHold[]
+): Promise<{ deletable: T[]; held: Array<{ row: T; holdId: string }> }> {
+  const deletable: T[] = [];
+  const held: Array<{ row: T; holdId: string }> = [];
+  const cache = new Map<string, ResolvedLegalHold[]>();
+  const parent = HOLD_COLUMNS[table]?.parent;
+  const parentDates =
+    parent && !(preloaded && preloaded.length === 0)
+      ? await loadParentDates(table, rows as unknown as Array<Record<string, unknown>>)
+      : new Map<string, string>();
+
+  for (const row of rows) {
+    let holds = preloaded;
+    if (!holds) {
+      const tenantId = row.tenant_id || "";
+      if (!cache.has(tenantId)) {
+        cache.set(tenantId, tenantId ? await getActiveLegalHolds(tenantId) : []);
+      }
+      holds = cache.get(tenantId)!;
+    }
+
+    const record = row as unknown as Record<string, unknown>;
+    const parentDate = parent ? parentDates.get(String(record[parent.column] ?? "")) : null;
+    const hold = findMatchingHold(holds, table, record, parentDate);
+    if (hold) {
+      held.push({ row, holdId: hold.id });
+    } else {
+      deletable.push(row);
+    }
+  }
+
+  return { deletable, held };
+}
+
+// Running tally of held rows, kept small enough to accumulate across batches
+export interface HeldSummary {
+  count: number;
+  byHold: Record<string, number>;
+  sampleIds: string[];
+}
+
+export function summarizeHeld(
+  held: Array<{ row: { id: string }; holdId: string }>,
+  summary: HeldSummary = { count: 0, byHold: {}, sampleIds: [] }
+): HeldSummary {
+  for (const h of held) {
+    summary.count++;
+    summary.byHold[h.holdId] = (summary.byHold[h.holdId] || 0) + 1;
+    if (summary.sampleIds.length < 20) summary.sampleIds.push(h.row.id);
+  }
+  return summary;
+}
+
+// Record that a deletion path skipped rows because of a hold
+export async function logBlockedDeletion(
+  tenantId: string,
+  source: string,
+  table: string,
+  summary: HeldSummary
+): Promise<void> {
+  if (summary.count === 0) return;
+
+  const client = getSupabaseClient();
+  const holdIds = Object.keys(summary.byHold);
+
+  const { error } = await client.from("audit_logs").insert({
+    action: "legal_hold.deletion_blocked",
+    entity_type: "legal_hold",
+    entity_id: holdIds.length === 1 ? holdIds[0] : null,
+    tenant_id: tenantId,
+    user_id: null,
+    new_values: {
+      source,
+      table,
+      items_blocked: summary.count,
+      holds: summary.byHold,
+      sample_ids: summary.sampleIds,
+    },
+  });
+
+  if (error) {
+    logger.error("Failed to write legal hold audit log", { tenantId, source, error: error.message });
+  }
+}
+
+// Same as logBlockedDeletion, for scripts that work across tenants
+export async function logBlockedDeletionByTenant(
+  source: string,
+  table: string,
+  held: Array<{ row: { id: string; tenant_id?: string | null }; holdId: string }>
+): Promise<void> {
+  const byTenant = new Map<string, HeldSummary>();
+  for (const h of held) {
+    const tenantId = h.row.tenant_id || "";
+    byTenant.set(tenantId, summarizeHeld([h], byTenant.get(tenantId)));
+  }
+  for (const [tenantId, summary] of byTenant) {
+    await logBlockedDeletion(tenantId, source, table, summary);
+  }
+}
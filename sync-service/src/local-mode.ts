@@ -4,20 +4,39 @@
  * In local mode, the sync service:
  * - Connects directly to localhost PostgreSQL (no SSH tunnel)
  * - Reads files directly from the filesystem (no SFTP)
- * - Only syncs data for a single tenant
- * - Reports heartbeats to the BackupWiz API
+ * - Only syncs data for a single tenant, and for the 3CX system its agent
+ *   token belongs to when the tenant has several (pbx_instances)
+ * - Reports heartbeats to the BackupWiz API, and takes its config, commands
+ *   and updates from the heartbeat response (agent-control.ts)
+ * - Without SUPABASE_SERVICE_ROLE_KEY, writes through the agent API with its
+ *   tenant-scoped agent token (storage/agent-transport.ts)
  */
 
 import { Pool } from "pg";
+import * as os from "os";
 import dotenv from "dotenv";
 import { logger } from "./utils/logger";
 import { getSupabaseClient, initSupabaseClient } from "./storage/supabase";
-import { syncMessages } from "./sync/messages";
-import { syncExtensions } from "./sync/extensions";
+import { initAgentTransport, isAgentTransport, setAgentTransportToken } from "./storage/agent-transport";
+import { runInPbxInstance } from "./storage/pbx-instance";
+import {
+  AGENT_VERSION,
+  HeartbeatResponse,
+  RemoteAgentConfig,
+  applyRelease,
+  clearCommandResults,
+  peekCommandResults,
+  runAgentCommands,
+} from "./agent-control";
+import { syncMessages, syncMessagesViaAgent } from "./sync/messages";
+import { syncExtensions, syncExtensionsViaAgent } from "./sync/extensions";
 import { syncConversations } from "./sync/conversations";
 import { syncRecordingsLocal } from "./sync/recordings-local";
 import { syncVoicemailsLocal } from "./sync/voicemails-local";
+import { syncFaxesLocal } from "./sync/faxes-local";
+import { syncMeetingsLocal } from "./sync/meetings-local";
 import { syncCdr } from "./sync/cdr";
+import { linkRecordingsToCalls } from "./sync/call-linking";
 
 // Load environment variables
 dotenv.config();
@@ -25,10 +44,11 @@ dotenv.config();
 // Configuration from environment
 interface LocalConfig {
   tenantId: string;
+  pbxInstanceId: string | null; // from registration
   agentToken: string;
   apiUrl: string;
-  supabaseUrl: string;
-  supabaseKey: string;
+  supabaseUrl: string | null;
+  supabaseKey: string | null; // null: agent transport
   dbHost: string;
   dbPort: number;
   dbName: string;
@@ -40,22 +60,27 @@ interface LocalConfig {
   faxPath: string;
   meetingsPath: string;
   syncInterval: number;
+  dataTypes: RemoteAgentConfig["data_types"];
 }
 
 let config: LocalConfig;
 let pool: Pool | null = null;
 let syncInterval: NodeJS.Timeout | null = null;
 let heartbeatInterval: NodeJS.Timeout | null = null;
+let appliedConfigHash: string | null = null;
 
 function loadConfig(): LocalConfig {
   const required = [
     "TENANT_ID",
     "AGENT_TOKEN",
-    "SUPABASE_URL",
-    "SUPABASE_SERVICE_ROLE_KEY",
     "THREECX_DB_PASSWORD",
   ];
 
+  // A service-role key is only for agents we run ourselves; it needs the URL
+  if (process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    required.push("SUPABASE_URL");
+  }
+
   const missing = required.filter((key) => !process.env[key]);
   if (missing.length > 0) {
     throw new Error(`Missing required environment variables: ${missing.join(", ")}`);
@@ -63,10 +88,11 @@ function loadConfig(): LocalConfig {
 
   return {
     tenantId: process.env.TENANT_ID!,
+    pbxInstanceId: null,
     agentToken: process.env.AGENT_TOKEN!,
     apiUrl: process.env.API_URL || "https://3cxbackupwiz.com/api",
-    supabaseUrl: process.env.SUPABASE_URL!,
-    supabaseKey: process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    supabaseUrl: process.env.SUPABASE_URL || null,
+    supabaseKey: process.env.SUPABASE_SERVICE_ROLE_KEY || null,
     dbHost: process.env.THREECX_DB_HOST || "127.0.0.1",
     dbPort: parseInt(process.env.THREECX_DB_PORT || "5432"),
     dbName: process.env.THREECX_DB_NAME || "database_single",
@@ -78,6 +104,16 @@ function loadConfig(): LocalConfig {
     faxPath: process.env.THREECX_FAX_PATH || "/var/lib/3cxpbx/Instance1/Data/Fax",
     meetingsPath: process.env.THREECX_MEETINGS_PATH || "/var/lib/3cxpbx/Instance1/Data/Http/Recordings",
     syncInterval: parseInt(process.env.SYNC_INTERVAL_SECONDS || "60") * 1000,
+    // Replaced by the tenant's settings from the first heartbeat
+    dataTypes: {
+      chats: true,
+      chat_media: true,
+      recordings: true,
+      voicemails: true,
+      faxes: true,
+      cdr: true,
+      meetings: true,
+    },
   };
 }
 
@@ -105,7 +141,61 @@ async function createDatabasePool(): Promise<Pool> {
   return newPool;
 }
 
-async function sendHeartbeat(status: string, lastError?: string): Promise<void> {
+// Register (or re-register) this agent so the API knows its token
+async function registerAgent(): Promise<void> {
+  const response = await fetch(`${config.apiUrl}/agent/register`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${config.agentToken}`,
+    },
+    body: JSON.stringify({
+      hostname: os.hostname(),
+      os_info: `${os.type()} ${os.release()}`,
+      agent_version: AGENT_VERSION,
+      install_path: process.cwd(),
+    }),
+  });
+
+  if (!response.ok) {
+    const data = (await response.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(`Agent registration failed (${response.status}): ${data?.error || "no details"}`);
+  }
+
+  const data = (await response.json().catch(() => null)) as { pbx_instance_id?: string | null } | null;
+  config.pbxInstanceId = data?.pbx_instance_id ?? null;
+}
+
+// Desired config from the heartbeat; env values stay in place for anything unset
+function applyRemoteConfig(remote: RemoteAgentConfig): void {
+  if (remote.hash === appliedConfigHash) return;
+
+  const interval = Math.max(remote.sync_interval_seconds, 10) * 1000;
+  const intervalChanged = interval !== config.syncInterval;
+
+  config.syncInterval = interval;
+  config.dataTypes = remote.data_types;
+  config.recordingsPath = remote.paths.recordings || config.recordingsPath;
+  config.voicemailPath = remote.paths.voicemail || config.voicemailPath;
+  config.chatFilesPath = remote.paths.chat_files || config.chatFilesPath;
+  config.faxPath = remote.paths.fax || config.faxPath;
+  config.meetingsPath = remote.paths.meetings || config.meetingsPath;
+  appliedConfigHash = remote.hash;
+
+  logger.info("Applied config from BackupWiz", { syncInterval: interval / 1000, dataTypes: remote.data_types });
+
+  // Reschedule at the new interval (not before the scheduler has started)
+  if (intervalChanged && syncInterval) {
+    clearInterval(syncInterval);
+    syncInterval = setInterval(() => {
+      runLocalSync();
+    }, config.syncInterval);
+  }
+}
+
+async function sendHeartbeat(status: string, lastError?: string): Promise<HeartbeatResponse | null> {
+  const commandResults = peekCommandResults();
+
   try {
     const response = await fetch(`${config.apiUrl}/agent/heartbeat`, {
       method: "POST",
@@ -117,18 +207,74 @@ async function sendHeartbeat(status: string, lastError?: string): Promise<void>
         status,
         last_sync_at: new Date().toISOString(),
         last_error: lastError || null,
+        agent_version: AGENT_VERSION,
+        config_hash: appliedConfigHash,
+        command_results: commandResults,
       }),
     });
 
     if (!response.ok) {
       logger.warn("Failed to send heartbeat", { status: response.status });
+      return null;
     }
+
+    clearCommandResults(commandResults);
+    return (await response.json()) as HeartbeatResponse;
   } catch (error) {
     logger.warn("Heartbeat failed", { error: (error as Error).message });
+    return null;
+  }
+}
+
+// Heartbeat, then act on what the response asks for
+async function heartbeat(status: string, lastError?: string): Promise<void> {
+  const response = await sendHeartbeat(status, lastError);
+  if (!response) return;
+
+  if (response.config) {
+    applyRemoteConfig(response.config);
+  }
+
+  let restart = false;
+  const commands = response.commands;
+  if (commands?.length) {
+    // A resync command rewinds this agent's own 3CX system
+    restart = await runInPbxInstance(config.pbxInstanceId, () =>
+      runAgentCommands(commands, {
+        tenantId: config.tenantId,
+        setAgentToken: (token) => {
+          config.agentToken = token;
+          setAgentTransportToken(token);
+        },
+        pool,
+        config: { ...config, appliedConfigHash },
+      })
+    );
+  }
+
+  if (await applyRelease(response.release)) {
+    restart = true;
+  }
+
+  if (restart) {
+    // Report results first; PM2 / systemd start the agent again
+    await sendHeartbeat("restarting");
+    logger.info("Restarting local sync agent");
+    process.exit(0);
+  }
+
+  // Results of commands run just now go back straight away
+  if (peekCommandResults().length > 0) {
+    await sendHeartbeat(status, lastError);
   }
 }
 
-async function runLocalSync(): Promise<void> {
+// Everything the agent writes belongs to its 3CX system
+function runLocalSync(): Promise<void> {
+  return runInPbxInstance(config.pbxInstanceId, runLocalSyncCycle);
+}
+
+async function runLocalSyncCycle(): Promise<void> {
   if (!pool) {
     logger.error("Database pool not initialized");
     return;
@@ -143,6 +289,8 @@ async function runLocalSync(): Promise<void> {
     id: config.tenantId,
     name: "Local",
     slug: "local",
+    pbx_instance_id: config.pbxInstanceId,
+    pbx_instance_name: null,
     threecx_host: config.dbHost,
     ssh_port: null,
     ssh_user: null,
@@ -153,13 +301,13 @@ async function runLocalSync(): Promise<void> {
     threecx_voicemail_path: config.voicemailPath,
     threecx_fax_path: config.faxPath,
     threecx_meetings_path: config.meetingsPath,
-    backup_chats: true,
-    backup_chat_media: true,
-    backup_recordings: true,
-    backup_voicemails: true,
-    backup_faxes: true,
-    backup_cdr: true,
-    backup_meetings: true,
+    backup_chats: config.dataTypes.chats,
+    backup_chat_media: config.dataTypes.chat_media,
+    backup_recordings: config.dataTypes.recordings,
+    backup_voicemails: config.dataTypes.voicemails,
+    backup_faxes: config.dataTypes.faxes,
+    backup_cdr: config.dataTypes.cdr,
+    backup_meetings: config.dataTypes.meetings,
     is_active: true,
     sync_enabled: true,
   };
@@ -168,73 +316,127 @@ async function runLocalSync(): Promise<void> {
     logger.info("Starting local sync cycle...");
 
     // Sync extensions
-    try {
-      await syncExtensions(tenantConfig, pool);
-      logger.debug("Extensions sync completed");
-    } catch (error) {
-      logger.error("Extensions sync failed", { error: (error as Error).message });
-      hasError = true;
-      lastError = (error as Error).message;
+    if (config.dataTypes.chats) {
+      try {
+        if (isAgentTransport()) {
+          await syncExtensionsViaAgent(pool, config.tenantId);
+        } else {
+          await syncExtensions(pool, config.tenantId);
+        }
+        logger.debug("Extensions sync completed");
+      } catch (error) {
+        logger.error("Extensions sync failed", { error: (error as Error).message });
+        hasError = true;
+        lastError = (error as Error).message;
+      }
     }
 
     // Sync conversations
-    try {
-      await syncConversations(tenantConfig, pool);
-      logger.debug("Conversations sync completed");
-    } catch (error) {
-      logger.error("Conversations sync failed", { error: (error as Error).message });
-      hasError = true;
-      lastError = (error as Error).message;
+    if (config.dataTypes.chats) {
+      try {
+        await syncConversations(pool, config.tenantId);
+        logger.debug("Conversations sync completed");
+      } catch (error) {
+        logger.error("Conversations sync failed", { error: (error as Error).message });
+        hasError = true;
+        lastError = (error as Error).message;
+      }
     }
 
     // Sync messages
-    try {
-      await syncMessages(tenantConfig, pool);
-      logger.debug("Messages sync completed");
-    } catch (error) {
-      logger.error("Messages sync failed", { error: (error as Error).message });
-      hasError = true;
-      lastError = (error as Error).message;
+    if (config.dataTypes.chats) {
+      try {
+        if (isAgentTransport()) {
+          await syncMessagesViaAgent(100, pool, config.tenantId);
+        } else {
+          await syncMessages(100, pool, config.tenantId);
+        }
+        logger.debug("Messages sync completed");
+      } catch (error) {
+        logger.error("Messages sync failed", { error: (error as Error).message });
+        hasError = true;
+        lastError = (error as Error).message;
+      }
     }
 
     // Sync recordings (local filesystem)
-    try {
-      await syncRecordingsLocal(tenantConfig, pool);
-      logger.debug("Recordings sync completed");
-    } catch (error) {
-      logger.error("Recordings sync failed", { error: (error as Error).message });
-      hasError = true;
-      lastError = (error as Error).message;
+    if (config.dataTypes.recordings) {
+      try {
+        await syncRecordingsLocal(tenantConfig, pool);
+        logger.debug("Recordings sync completed");
+      } catch (error) {
+        logger.error("Recordings sync failed", { error: (error as Error).message });
+        hasError = true;
+        lastError = (error as Error).message;
+      }
     }
 
     // Sync voicemails (local filesystem)
-    try {
-      await syncVoicemailsLocal(tenantConfig, pool);
-      logger.debug("Voicemails sync completed");
-    } catch (error) {
-      logger.error("Voicemails sync failed", { error: (error as Error).message });
-      hasError = true;
-      lastError = (error as Error).message;
+    if (config.dataTypes.voicemails) {
+      try {
+        await syncVoicemailsLocal(tenantConfig, pool);
+        logger.debug("Voicemails sync completed");
+      } catch (error) {
+        logger.error("Voicemails sync failed", { error: (error as Error).message });
+        hasError = true;
+        lastError = (error as Error).message;
+      }
+    }
+
+    // Sync faxes (local filesystem)
+    if (config.dataTypes.faxes) {
+      try {
+        await syncFaxesLocal(tenantConfig);
+        logger.debug("Faxes sync completed");
+      } catch (error) {
+        logger.error("Faxes sync failed", { error: (error as Error).message });
+        hasError = true;
+        lastError = (error as Error).message;
+      }
+    }
+
+    // Sync meeting recordings (local filesystem)
+    if (config.dataTypes.meetings) {
+      try {
+        await syncMeetingsLocal(tenantConfig);
+        logger.debug("Meetings sync completed");
+      } catch (error) {
+        logger.error("Meetings sync failed", { error: (error as Error).message });
+        hasError = true;
+        lastError = (error as Error).message;
+      }
     }
 
     // Sync CDR
-    try {
-      await syncCdr(tenantConfig, pool);
-      logger.debug("CDR sync completed");
-    } catch (error) {
-      logger.error("CDR sync failed", { error: (error as Error).message });
-      hasError = true;
-      lastError = (error as Error).message;
+    if (config.dataTypes.cdr) {
+      try {
+        await syncCdr(pool, config.tenantId);
+        logger.debug("CDR sync completed");
+      } catch (error) {
+        logger.error("CDR sync failed", { error: (error as Error).message });
+        hasError = true;
+        lastError = (error as Error).message;
+      }
+    }
+
+    // Link recordings to their CDR legs. Agents can't read the archive; the
+    // ingest API links the legs and recordings they send instead.
+    if (!isAgentTransport()) {
+      try {
+        await linkRecordingsToCalls(config.tenantId);
+      } catch (error) {
+        logger.warn("Call recording linking failed", { error: (error as Error).message });
+      }
     }
 
     const duration = Date.now() - startTime;
     logger.info(`Local sync cycle completed in ${duration}ms`, { hasError });
 
     // Send heartbeat
-    await sendHeartbeat(hasError ? "error" : "active", hasError ? lastError : undefined);
+    await heartbeat(hasError ? "error" : "active", hasError ? lastError : undefined);
   } catch (error) {
     logger.error("Local sync failed", { error: (error as Error).message });
-    await sendHeartbeat("error", (error as Error).message);
+    await heartbeat("error", (error as Error).message);
   }
 }
 
@@ -253,7 +455,7 @@ function startSyncScheduler(): void {
 function startHeartbeatScheduler(): void {
   // Send heartbeat every 5 minutes
   heartbeatInterval = setInterval(() => {
-    sendHeartbeat("active");
+    heartbeat("active");
   }, 5 * 60 * 1000);
 
   logger.info("Heartbeat scheduler started (interval: 5 minutes)");
@@ -272,25 +474,36 @@ async function initialize(): Promise<void> {
   logger.info(`  Tenant ID: ${config.tenantId}`);
   logger.info(`  Database: ${config.dbHost}:${config.dbPort}/${config.dbName}`);
   logger.info(`  Recordings: ${config.recordingsPath}`);
+  logger.info(`  Voicemail: ${config.voicemailPath}`);
+  logger.info(`  Faxes: ${config.faxPath}`);
+  logger.info(`  Meetings: ${config.meetingsPath}`);
   logger.info(`  Sync interval: ${config.syncInterval / 1000}s`);
 
-  // Initialize Supabase client
-  initSupabaseClient(config.supabaseUrl, config.supabaseKey);
-  logger.info("Supabase client initialized");
+  await registerAgent();
+  logger.info("Agent registered");
 
-  // Test Supabase connection
-  const supabase = getSupabaseClient();
-  const { error: supabaseError } = await supabase.from("sync_status").select("id").limit(1);
-  if (supabaseError) {
-    throw new Error(`Supabase connection failed: ${supabaseError.message}`);
+  if (config.supabaseUrl && config.supabaseKey) {
+    // Initialize Supabase client
+    initSupabaseClient(config.supabaseUrl, config.supabaseKey);
+    logger.info("Supabase client initialized");
+
+    // Test Supabase connection
+    const supabase = getSupabaseClient();
+    const { error: supabaseError } = await supabase.from("sync_status").select("id").limit(1);
+    if (supabaseError) {
+      throw new Error(`Supabase connection failed: ${supabaseError.message}`);
+    }
+    logger.info("Supabase connection verified");
+  } else {
+    initAgentTransport(config.apiUrl, config.agentToken);
+    logger.info("Writing through the agent API; extension sync, media linking and call linking are skipped");
   }
-  logger.info("Supabase connection verified");
 
   // Create database pool
   pool = await createDatabasePool();
 
-  // Send initial heartbeat
-  await sendHeartbeat("active");
+  // Send initial heartbeat (also picks up the tenant's config)
+  await heartbeat("active");
   logger.info("Initial heartbeat sent");
 }
 
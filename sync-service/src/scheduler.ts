@@ -1,13 +1,44 @@
 import cron from "node-cron";
+import os from "os";
 import { logger } from "./utils/logger";
-import { runMultiTenantSync, runMultiTenantSyncByType, SyncType } from "./sync";
+import { runTenantSyncJob, SyncType } from "./sync";
 import { getSupabaseClient } from "./storage/supabase";
-import { getActiveTenants, getActiveUserTenants, getInactiveTenants } from "./tenant";
+import {
+  SyncJob,
+  SyncJobSource,
+  SYNC_JOB_PRIORITY,
+  enqueueSyncJob,
+  claimSyncJobs,
+  completeSyncJob,
+  renewSyncJobLease,
+  failSyncJob,
+  releaseSyncJobs,
+  recoverExpiredSyncJobs,
+  pruneSyncJobs,
+  getLastSyncJobFinishedAt,
+} from "./storage/sync-jobs";
+import {
+  TenantConfig,
+  getActiveTenants,
+  getActiveUserTenants,
+  getInactiveTenants,
+  tenantConnectionKey,
+  uniqueTenants,
+} from "./tenant";
+import { runInPbxInstance } from "./storage/pbx-instance";
 import { startRealtimeListener, stopAllRealtimeListeners } from "./threecx/realtime-listener";
 import { syncRealtimeMessage } from "./sync/sync-realtime-message";
-
-// Track which sync types are currently running
-const runningSync: Set<SyncType | "full"> = new Set();
+import { runRetention, RetentionRunOptions } from "./sync/retention";
+import { processExportQueue } from "./sync/export";
+import { enqueueDailyVerifications, processIntegrityQueue } from "./sync/integrity";
+import { enqueueDailyReconciliations, processReconciliationQueue } from "./sync/reconciliation";
+import { processBackfillQueue } from "./sync/backfill";
+import { currentSyncGate, evaluateSyncGate, isSyncAllowed, refreshSyncGates } from "./sync/gating";
+import { processWebhookQueue } from "./sync/webhooks";
+import { pruneWebhookEvents } from "./storage/webhooks";
+
+// Identifies this process's leases in sync_jobs.locked_by
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
 
 // Backoff state — when DB is unavailable, pause all syncs
 let dbBackoffUntil = 0;
@@ -32,6 +63,10 @@ function isDbBackingOff(): boolean {
   return Date.now() < dbBackoffUntil;
 }
 
+function isDbConnectionError(msg: string): boolean {
+  return msg.includes("schema cache") || msg.includes("connection") || msg.includes("timeout");
+}
+
 // Scheduled tasks
 let chatSyncTask: cron.ScheduledTask | null = null;
 let mediaSyncTask: cron.ScheduledTask | null = null;
@@ -39,24 +74,52 @@ let recordingsSyncTask: cron.ScheduledTask | null = null;
 let cdrSyncTask: cron.ScheduledTask | null = null;
 let extensionsSyncTask: cron.ScheduledTask | null = null;
 let backgroundSyncTask: cron.ScheduledTask | null = null;
-
-// Cycle counter for full syncs
+let syncWorkerTask: cron.ScheduledTask | null = null;
+let syncJobRecoveryTask: cron.ScheduledTask | null = null;
+let syncJobPruneTask: cron.ScheduledTask | null = null;
+let retentionTask: cron.ScheduledTask | null = null;
+let exportTask: cron.ScheduledTask | null = null;
+let integrityTask: cron.ScheduledTask | null = null;
+let integrityDailyTask: cron.ScheduledTask | null = null;
+let reconciliationTask: cron.ScheduledTask | null = null;
+let reconciliationDailyTask: cron.ScheduledTask | null = null;
+let backfillTask: cron.ScheduledTask | null = null;
+let syncGateTask: cron.ScheduledTask | null = null;
+let webhookTask: cron.ScheduledTask | null = null;
+let webhookPruneTask: cron.ScheduledTask | null = null;
+
+// Retention runs once a day and must never overlap with itself
+let retentionRunning = false;
+
+// Export jobs are built one at a time (they are disk and bandwidth heavy)
+let exportRunning = false;
+
+// Integrity verifications re-hash stored objects, so they also run one at a time
+let integrityRunning = false;
+
+// Reconciliation queries every tenant's 3CX database, one run or backfill at a time
+let reconciliationRunning = false;
+
+// Backfill jobs advance one chunk each per tick; ticks never overlap
+let backfillRunning = false;
+
+// Webhook deliveries drain in batches; ticks never overlap
+let webhookRunning = false;
+
+// Cycle counter for the chat enqueue tick
 let chatCycleCount = 0;
 
 // Cache active tenants to avoid hitting Supabase every 20 seconds
-let activeTenantCache: { tenants: { id: string }[]; fetchedAt: number } | null = null;
+let activeTenantCache: { tenants: TenantConfig[]; fetchedAt: number } | null = null;
 const TENANT_CACHE_TTL_MS = 60_000; // refresh every 60 seconds
 
 // Idle mode — true when no user has been active recently.
 // Media/recordings/extensions syncs slow down in idle mode to reduce CPU load.
 let systemIsIdle = false;
 
-// Per-sync timestamps used to throttle in idle mode (0 = run immediately next cycle)
-let lastMediaSyncAt = 0;
-let lastRecordingsSyncAt = 0;
-let lastExtensionsSyncAt = 0;
-
-// How long to wait between syncs when the system is idle (no active users)
+// How long to wait between syncs when the system is idle (no active users).
+// Measured from the last job of that type to succeed, so the throttle holds
+// across restarts and across every worker sharing the queue.
 const IDLE_MEDIA_INTERVAL_MS      = 60 * 60_000;       // 60 min  (vs 5 min active)
 const IDLE_RECORDINGS_INTERVAL_MS = 90 * 60_000;       // 90 min  (vs 15 min active)
 const IDLE_EXTENSIONS_INTERVAL_MS = 4  * 60 * 60_000;  // 4 hours (vs 60 min active)
@@ -78,10 +141,6 @@ async function getCachedActiveUserTenants() {
       logger.info("No active users — entering idle mode (media/recordings/extensions sync slowed)");
     } else {
       logger.info("Active users detected — exiting idle mode, restoring full sync frequency");
-      // Reset throttle timestamps so syncs fire on the very next cycle
-      lastMediaSyncAt = 0;
-      lastRecordingsSyncAt = 0;
-      lastExtensionsSyncAt = 0;
     }
   }
 
@@ -98,39 +157,15 @@ function getSyncIntervals() {
     cdr: parseInt(process.env.SYNC_INTERVAL_CDR || "5"), // minutes
     extensions: parseInt(process.env.SYNC_INTERVAL_EXTENSIONS || "60"), // minutes
     background: parseInt(process.env.SYNC_INTERVAL_BACKGROUND || "30"), // minutes - full sync for inactive tenants
+    fastWorkers: parseInt(process.env.SYNC_FAST_WORKERS || "2"), // concurrent messages/CDR jobs per process
+    bulkWorkers: parseInt(process.env.SYNC_BULK_WORKERS || "1"), // concurrent file-sync jobs per process
+    retentionHour: parseInt(process.env.RETENTION_RUN_HOUR || "3"), // hour of day (server time) for retention cleanup
+    integrityHour: parseInt(process.env.INTEGRITY_RUN_HOUR || "4"), // hour of day (server time) to verify + seal yesterday
+    reconciliationHour: parseInt(process.env.RECONCILIATION_RUN_HOUR || "5"), // hour of day (server time) to reconcile against 3CX
+    reconciliationDays: parseInt(process.env.RECONCILIATION_DAYS || "7"), // complete days covered by the daily reconciliation
   };
 }
 
-// Check if any tenant has requested a manual sync trigger
-async function checkForManualTriggers(): Promise<boolean> {
-  const supabase = getSupabaseClient();
-  const twoMinutesAgo = new Date(Date.now() - 2 * 60 * 1000).toISOString();
-
-  const { data, error } = await supabase
-    .from("sync_status")
-    .select("tenant_id, trigger_requested_at")
-    .gt("trigger_requested_at", twoMinutesAgo)
-    .limit(1);
-
-  if (error) {
-    logger.warn("Failed to check for manual triggers", { error: error.message });
-    return false;
-  }
-
-  return data && data.length > 0;
-}
-
-// Clear the trigger after processing
-async function clearManualTriggers(): Promise<void> {
-  const supabase = getSupabaseClient();
-  const twoMinutesAgo = new Date(Date.now() - 2 * 60 * 1000).toISOString();
-
-  await supabase
-    .from("sync_status")
-    .update({ trigger_requested_at: null })
-    .gt("trigger_requested_at", twoMinutesAgo);
-}
-
 // Check if there are recent messages with media that haven't been linked to media files yet
 async function hasRecentUnlinkedMedia(): Promise<boolean> {
   try {
@@ -152,19 +187,61 @@ async function hasRecentUnlinkedMedia(): Promise<boolean> {
   }
 }
 
-// Max time allowed for chat/messages sync per run (90 seconds)
-// If SSH tunnel is dead the DB call hangs — this timeout forces recovery
-const CHAT_SYNC_TIMEOUT_MS = 90_000;
+// ============================================
+// ENQUEUEING
+// ============================================
+// The cron and interval ticks below only put jobs in sync_jobs; the workers
+// further down run them. Enqueueing a (tenant, type) that already has a live
+// job just keeps that job, so overlapping ticks and extra service instances
+// never double-sync a tenant. Sync types a tenant's quota/billing gate
+// blocks are not enqueued at all.
+
+async function enqueueForTenants(
+  tenants: TenantConfig[],
+  syncTypes: SyncType[],
+  priority: number,
+  source: SyncJobSource = "schedule"
+): Promise<void> {
+  for (const tenant of tenants) {
+    const gate = evaluateSyncGate(tenant);
+    for (const syncType of syncTypes) {
+      if (!isSyncAllowed(gate, syncType)) continue;
+      await enqueueSyncJob(tenant.id, syncType, { priority, source, pbxInstanceId: tenant.pbx_instance_id });
+    }
+  }
+}
 
-// Run chat/messages sync (fast - every 15-30 seconds)
-// CRITICAL: Messages sync should NEVER be blocked by media/recordings/full sync
-// This ensures chats are always up to date regardless of what else is running
+// Enqueue a sync of the given types for every active tenant (manual /sync and startup)
+export async function enqueueAllTenants(
+  syncTypes: SyncType[],
+  source: SyncJobSource,
+  priority: number = SYNC_JOB_PRIORITY.manual
+): Promise<number> {
+  const tenants = await getActiveTenants();
+  await enqueueForTenants(tenants, syncTypes, priority, source);
+  return tenants.length;
+}
+
+// In idle mode, skip a tick if the last successful sync of this type is recent
+async function isIdleThrottled(syncType: SyncType, intervalMs: number, label: string): Promise<boolean> {
+  if (!systemIsIdle) return false;
+
+  const lastFinishedAt = await getLastSyncJobFinishedAt(syncType);
+  if (!lastFinishedAt) return false;
+
+  const elapsed = Date.now() - lastFinishedAt.getTime();
+  if (elapsed < intervalMs) {
+    logger.debug(`${label} sync skipped — idle mode (~${Math.round((intervalMs - elapsed) / 60_000)}m until next)`);
+    return true;
+  }
+  return false;
+}
+
+// Queue chat/messages sync (fast - every 15-30 seconds)
+// CRITICAL: Messages jobs run in their own worker lane, so they are NEVER
+// blocked by media/recordings syncs
 async function runChatSync(): Promise<void> {
   if (isDbBackingOff()) return;
-  if (runningSync.has("messages")) {
-    logger.debug("Chat sync skipped - already running");
-    return;
-  }
 
   try {
     const activeTenants = await getCachedActiveUserTenants();
@@ -173,88 +250,42 @@ async function runChatSync(): Promise<void> {
       return;
     }
 
-    runningSync.add("messages");
     chatCycleCount++;
 
-    // Check for manual triggers (only every 3rd cycle to reduce Supabase queries)
-    if (chatCycleCount % 3 === 0) {
-      const hasManualTrigger = await checkForManualTriggers();
-      if (hasManualTrigger) {
-        logger.info("Manual sync triggered - running full sync");
-        await clearManualTriggers();
-
-        runningSync.delete("messages");
-        runningSync.add("full");
-
-        await Promise.race([
-          runMultiTenantSync({ tenantIds: activeTenants.map((t) => t.id) }),
-          new Promise<void>((_, reject) =>
-            setTimeout(() => reject(new Error("Full sync timed out after 5m")), 5 * 60_000)
-          ),
-        ]);
-
-        runningSync.delete("full");
-        return;
-      }
-    }
-
-    logger.debug(`Chat sync for ${activeTenants.length} tenant(s)`);
-
-    await Promise.race([
-      runMultiTenantSyncByType(["messages"], activeTenants.map((t) => t.id)),
-      new Promise<void>((_, reject) =>
-        setTimeout(
-          () => reject(new Error(`Chat sync timed out after ${CHAT_SYNC_TIMEOUT_MS / 1000}s`)),
-          CHAT_SYNC_TIMEOUT_MS
-        )
-      ),
-    ]);
+    logger.debug(`Queueing chat sync for ${activeTenants.length} tenant(s)`);
+    await enqueueForTenants(activeTenants, ["messages"], SYNC_JOB_PRIORITY.fast);
 
-    // After chat sync, check if new media messages need files downloaded
+    // Check if new media messages need files downloaded
     // Only check every 2nd cycle (~40 seconds) to catch new media quickly
-    if (chatCycleCount % 2 === 0 && !runningSync.has("media") && !runningSync.has("full")) {
+    if (chatCycleCount % 2 === 0) {
       const needsMedia = await hasRecentUnlinkedMedia();
       if (needsMedia) {
-        logger.info("New media messages detected - triggering immediate media sync");
-        runMediaSync();
+        logger.info("New media messages detected - queueing immediate media sync");
+        const allTenants = await getActiveTenants();
+        await enqueueForTenants(allTenants, ["media"], SYNC_JOB_PRIORITY.fast);
       }
     }
   } catch (error) {
     const msg = (error as Error).message;
-    logger.error("Chat sync failed", { error: msg });
-    if (msg.includes("timed out")) activeTenantCache = null;
-    if (msg.includes("schema cache") || msg.includes("connection") || msg.includes("timeout")) {
+    logger.error("Failed to queue chat sync", { error: msg });
+    if (isDbConnectionError(msg)) {
       recordDbFailure();
       activeTenantCache = null;
     }
-  } finally {
-    runningSync.delete("messages");
   }
 }
 
-// Max time allowed for the entire media+voicemails sync across all tenants (8 minutes)
-const MEDIA_SYNC_TIMEOUT_MS = 8 * 60 * 1000;
-
-// Run media sync (every 5 minutes)
+// Queue media sync (every 5 minutes)
 // CRITICAL: Media sync runs for ALL active tenants, not just those with active users
 // This ensures media files are always backed up regardless of user activity
 async function runMediaSync(): Promise<void> {
-  if (runningSync.has("media") || runningSync.has("full")) {
-    logger.debug("Media sync skipped - already running");
-    return;
-  }
-
-  // In idle mode, throttle to once per hour instead of every 5 minutes.
-  // Data is never lost — files stay on 3CX until the next sync cycle picks them up.
-  if (systemIsIdle) {
-    const elapsed = Date.now() - lastMediaSyncAt;
-    if (elapsed < IDLE_MEDIA_INTERVAL_MS) {
-      logger.debug(`Media sync skipped — idle mode (~${Math.round((IDLE_MEDIA_INTERVAL_MS - elapsed) / 60_000)}m until next)`);
-      return;
-    }
-  }
+  if (isDbBackingOff()) return;
 
   try {
+    // In idle mode, throttle to once per hour instead of every 5 minutes.
+    // Data is never lost — files stay on 3CX until the next sync cycle picks them up.
+    if (await isIdleThrottled("media", IDLE_MEDIA_INTERVAL_MS, "Media")) return;
+
     // Use getActiveTenants (all enabled tenants) instead of getActiveUserTenants
     // Media backup should happen regardless of whether users are logged in
     const allTenants = await getActiveTenants();
@@ -262,208 +293,525 @@ async function runMediaSync(): Promise<void> {
       return;
     }
 
-    runningSync.add("media");
-
-    logger.info(`Media sync for ${allTenants.length} tenant(s)${systemIsIdle ? " [idle mode]" : ""}`);
-
-    await Promise.race([
-      runMultiTenantSyncByType(
-        ["media", "voicemails"],
-        allTenants.map((t) => t.id)
-      ),
-      new Promise<void>((_, reject) =>
-        setTimeout(
-          () => reject(new Error(`Media sync timed out after ${MEDIA_SYNC_TIMEOUT_MS / 1000}s`)),
-          MEDIA_SYNC_TIMEOUT_MS
-        )
-      ),
-    ]);
-
-    lastMediaSyncAt = Date.now();
+    logger.info(`Queueing media sync for ${allTenants.length} tenant(s)${systemIsIdle ? " [idle mode]" : ""}`);
+    await enqueueForTenants(allTenants, ["media", "voicemails"], SYNC_JOB_PRIORITY.bulk);
   } catch (error) {
-    logger.error("Media sync failed", { error: (error as Error).message });
-  } finally {
-    runningSync.delete("media");
+    logger.error("Failed to queue media sync", { error: (error as Error).message });
   }
 }
 
-// Max time allowed for the entire recordings+meetings+faxes sync across all tenants (8 minutes)
-const RECORDINGS_SYNC_TIMEOUT_MS = 8 * 60 * 1000;
-
-// Run recordings sync (every 15 minutes)
+// Queue recordings sync (every 15 minutes)
 // CRITICAL: Recordings sync runs for ALL active tenants, not just those with active users
 // This ensures call recordings are always backed up regardless of user activity
 async function runRecordingsSync(): Promise<void> {
-  if (runningSync.has("recordings") || runningSync.has("full")) {
-    logger.debug("Recordings sync skipped - already running");
-    return;
+  if (isDbBackingOff()) return;
+
+  try {
+    // In idle mode, throttle to once per 90 minutes instead of every 15 minutes.
+    if (await isIdleThrottled("recordings", IDLE_RECORDINGS_INTERVAL_MS, "Recordings")) return;
+
+    // Use getActiveTenants (all enabled tenants) instead of getActiveUserTenants
+    // Recording backup should happen regardless of whether users are logged in
+    const allTenants = await getActiveTenants();
+    if (allTenants.length === 0) {
+      return;
+    }
+
+    logger.info(`Queueing recordings sync for ${allTenants.length} tenant(s)${systemIsIdle ? " [idle mode]" : ""}`);
+    await enqueueForTenants(allTenants, ["recordings", "meetings", "faxes"], SYNC_JOB_PRIORITY.bulk);
+  } catch (error) {
+    logger.error("Failed to queue recordings sync", { error: (error as Error).message });
   }
+}
+
+// Queue CDR sync (every 5 minutes)
+// CDR is lightweight like messages, so it shares the fast lane
+async function runCdrSync(): Promise<void> {
+  if (isDbBackingOff()) return;
 
-  // In idle mode, throttle to once per 90 minutes instead of every 15 minutes.
-  if (systemIsIdle) {
-    const elapsed = Date.now() - lastRecordingsSyncAt;
-    if (elapsed < IDLE_RECORDINGS_INTERVAL_MS) {
-      logger.debug(`Recordings sync skipped — idle mode (~${Math.round((IDLE_RECORDINGS_INTERVAL_MS - elapsed) / 60_000)}m until next)`);
+  try {
+    const activeTenants = await getCachedActiveUserTenants();
+    if (activeTenants.length === 0) {
       return;
     }
+
+    logger.debug(`Queueing CDR sync for ${activeTenants.length} tenant(s)`);
+    await enqueueForTenants(activeTenants, ["cdr"], SYNC_JOB_PRIORITY.fast);
+  } catch (error) {
+    const msg = (error as Error).message;
+    logger.error("Failed to queue CDR sync", { error: msg });
+    if (isDbConnectionError(msg)) {
+      recordDbFailure();
+      activeTenantCache = null;
+    }
   }
+}
+
+// Queue extensions sync (every hour) - runs for ALL active tenants, not just those with active users
+async function runExtensionsSync(): Promise<void> {
+  if (isDbBackingOff()) return;
 
   try {
+    // In idle mode, throttle to once per 4 hours instead of every 60 minutes.
+    // Extension names/metadata change rarely so this is safe.
+    if (await isIdleThrottled("extensions", IDLE_EXTENSIONS_INTERVAL_MS, "Extensions")) return;
+
     // Use getActiveTenants (all enabled tenants) instead of getActiveUserTenants
-    // Recording backup should happen regardless of whether users are logged in
+    // Extensions should sync regardless of user activity to keep names up to date
     const allTenants = await getActiveTenants();
     if (allTenants.length === 0) {
       return;
     }
 
-    runningSync.add("recordings");
+    logger.info(`Queueing extensions sync for ${allTenants.length} tenant(s)${systemIsIdle ? " [idle mode]" : ""}`);
+    await enqueueForTenants(allTenants, ["extensions"], SYNC_JOB_PRIORITY.background);
+  } catch (error) {
+    logger.error("Failed to queue extensions sync", { error: (error as Error).message });
+  }
+}
 
-    logger.info(`Recordings sync for ${allTenants.length} tenant(s)${systemIsIdle ? " [idle mode]" : ""}`);
+// Queue lightweight sync for inactive tenants (every 30 minutes)
+// Only syncs messages and CDR - media/recordings now run for all tenants via dedicated schedulers
+async function runBackgroundSync(): Promise<void> {
+  if (isDbBackingOff()) return;
 
-    await Promise.race([
-      runMultiTenantSyncByType(
-        ["recordings", "meetings", "faxes"],
-        allTenants.map((t) => t.id)
-      ),
-      new Promise<void>((_, reject) =>
-        setTimeout(
-          () => reject(new Error(`Recordings sync timed out after ${RECORDINGS_SYNC_TIMEOUT_MS / 1000}s`)),
-          RECORDINGS_SYNC_TIMEOUT_MS
-        )
-      ),
-    ]);
+  try {
+    const inactiveTenants = await getInactiveTenants();
+
+    if (inactiveTenants.length === 0) {
+      logger.debug("No inactive tenants to sync");
+      return;
+    }
+
+    logger.info(`Queueing background sync for ${inactiveTenants.length} inactive tenant(s)`);
 
-    lastRecordingsSyncAt = Date.now();
+    // Only sync messages and CDR for inactive tenants to keep data fresh.
+    // Lowest priority, so they never hold up tenants with active users.
+    await enqueueForTenants(inactiveTenants, ["messages", "cdr"], SYNC_JOB_PRIORITY.background);
   } catch (error) {
-    logger.error("Recordings sync failed", { error: (error as Error).message });
+    logger.error("Failed to queue background sync", { error: (error as Error).message });
+  }
+}
+
+// ============================================
+// WORKERS
+// ============================================
+// Each process leases jobs from sync_jobs in two lanes: a fast lane for
+// messages and CDR, and a bulk lane for file syncs, so a long recordings run
+// never delays chat. Any number of processes can run workers side by side.
+
+interface SyncLane {
+  name: "fast" | "bulk";
+  syncTypes: SyncType[];
+  concurrency: number;
+}
+
+interface InFlightSyncJob {
+  job: SyncJob;
+  lane: SyncLane["name"];
+  startedAt: Date;
+}
+
+// Expected max run time of one job. A job past it is logged as overdue but
+// keeps its worker slot and lease until it actually settles, so the queue never
+// hands the same sync to a second worker while the first is still writing. If
+// the SSH tunnel is dead a 3CX call can hang: once a job has run for
+// SYNC_JOB_HUNG_FACTOR times its timeout it stops renewing its lease, and lease
+// recovery retries it.
+const SYNC_JOB_TIMEOUT_MS: Record<SyncType, number> = {
+  messages: 90_000,
+  cdr: 3 * 60_000,
+  media: 8 * 60_000,
+  voicemails: 8 * 60_000,
+  recordings: 8 * 60_000,
+  meetings: 8 * 60_000,
+  faxes: 8 * 60_000,
+  extensions: 8 * 60_000,
+};
+
+// The lease outlives the timeout so a slow job is never picked up twice, and
+// is pushed out again every SYNC_JOB_LEASE_RENEW_MS while the job runs
+const SYNC_JOB_LEASE_MARGIN_MS = 2 * 60_000;
+const SYNC_JOB_LEASE_RENEW_MS = 30_000;
+const SYNC_JOB_HUNG_FACTOR = 3;
+
+// Jobs this process is running right now
+const inFlightJobs: Map<string, InFlightSyncJob> = new Map();
+
+let syncWorkerClaiming = false;
+
+// How often each worker tops up its lanes
+const SYNC_WORKER_POLL_MS = 2_000;
+
+function getSyncLanes(): SyncLane[] {
+  const intervals = getSyncIntervals();
+  return [
+    { name: "fast", syncTypes: ["messages", "cdr"], concurrency: intervals.fastWorkers },
+    {
+      name: "bulk",
+      syncTypes: ["media", "voicemails", "recordings", "meetings", "faxes", "extensions"],
+      concurrency: intervals.bulkWorkers,
+    },
+  ];
+}
+
+async function runSyncJob(job: SyncJob, lane: SyncLane["name"]): Promise<void> {
+  const timeoutMs = SYNC_JOB_TIMEOUT_MS[job.sync_type];
+  const startTime = Date.now();
+  inFlightJobs.set(job.id, { job, lane, startedAt: new Date() });
+
+  const overdue = setTimeout(() => {
+    logger.warn(`${job.sync_type} sync still running after ${timeoutMs / 1000}s`, {
+      tenantId: job.tenant_id,
+      jobId: job.id,
+    });
+  }, timeoutMs);
+
+  const heartbeat = setInterval(() => {
+    if (Date.now() - startTime > timeoutMs * SYNC_JOB_HUNG_FACTOR) {
+      clearInterval(heartbeat);
+      logger.error(`${job.sync_type} sync looks hung - letting its lease expire`, {
+        tenantId: job.tenant_id,
+        jobId: job.id,
+      });
+      return;
+    }
+    renewSyncJobLease(job.id, WORKER_ID, SYNC_JOB_LEASE_MARGIN_MS).catch((error) => {
+      logger.warn("Failed to renew sync job lease", { jobId: job.id, error: (error as Error).message });
+    });
+  }, SYNC_JOB_LEASE_RENEW_MS);
+
+  try {
+    const outcome = await runTenantSyncJob(job.tenant_id, job.sync_type, job.pbx_instance_id);
+
+    const rerun = await completeSyncJob(job.id, WORKER_ID);
+    if (rerun) {
+      await enqueueSyncJob(job.tenant_id, job.sync_type, {
+        priority: SYNC_JOB_PRIORITY.manual,
+        source: "manual",
+        pbxInstanceId: job.pbx_instance_id,
+      });
+    }
+
+    const duration = Date.now() - startTime;
+    if (outcome === "synced" && duration > 5000) {
+      logger.debug(`${job.sync_type} sync completed in ${duration}ms`, { tenantId: job.tenant_id, jobId: job.id });
+    }
+  } catch (error) {
+    const msg = (error as Error).message;
+
+    try {
+      const result = await failSyncJob(job, WORKER_ID, msg);
+      const details = {
+        tenantId: job.tenant_id,
+        jobId: job.id,
+        attempt: job.attempts,
+        maxAttempts: job.max_attempts,
+        error: msg,
+      };
+      if (result === "dead") {
+        logger.error(`${job.sync_type} sync failed - out of attempts, moved to dead letter`, details);
+      } else {
+        logger.warn(`${job.sync_type} sync failed, will retry`, details);
+      }
+    } catch (updateError) {
+      // The lease expires and the job is recovered on a later tick
+      logger.error("Failed to record sync job failure", {
+        jobId: job.id,
+        error: (updateError as Error).message,
+      });
+    }
   } finally {
-    runningSync.delete("recordings");
+    clearTimeout(overdue);
+    clearInterval(heartbeat);
+    inFlightJobs.delete(job.id);
   }
 }
 
-// Max time allowed for CDR sync per run (3 minutes)
-const CDR_SYNC_TIMEOUT_MS = 3 * 60_000;
+// Top up every lane to its concurrency with newly leased jobs. Jobs run in
+// the background; this only claims.
+export async function runSyncWorkers(): Promise<void> {
+  if (isDbBackingOff()) return;
+  if (syncWorkerClaiming) return;
 
-// Run CDR sync (every 5 minutes)
-// CDR is lightweight like messages, so don't block on full sync
-async function runCdrSync(): Promise<void> {
+  syncWorkerClaiming = true;
+  try {
+    for (const lane of getSyncLanes()) {
+      const running = Array.from(inFlightJobs.values()).filter((j) => j.lane === lane.name).length;
+      const maxTimeout = Math.max(...lane.syncTypes.map((t) => SYNC_JOB_TIMEOUT_MS[t]));
+
+      const jobs = await claimSyncJobs(
+        WORKER_ID,
+        lane.syncTypes,
+        lane.concurrency - running,
+        maxTimeout + SYNC_JOB_LEASE_MARGIN_MS
+      );
+
+      for (const job of jobs) {
+        runSyncJob(job, lane.name);
+      }
+    }
+    recordDbSuccess();
+  } catch (error) {
+    const msg = (error as Error).message;
+    logger.error("Failed to claim sync jobs", { error: msg });
+    if (isDbConnectionError(msg)) {
+      recordDbFailure();
+    }
+  } finally {
+    syncWorkerClaiming = false;
+  }
+}
+
+// Retry jobs left running by a worker that died (every minute)
+async function runSyncJobRecovery(): Promise<void> {
   if (isDbBackingOff()) return;
-  if (runningSync.has("cdr")) {
-    logger.debug("CDR sync skipped - already running");
-    return;
+
+  try {
+    const recovered = await recoverExpiredSyncJobs();
+    if (recovered > 0) {
+      logger.warn("Recovered sync jobs with expired leases", { jobs: recovered });
+    }
+  } catch (error) {
+    logger.error("Sync job recovery failed", { error: (error as Error).message });
   }
+}
+
+// Drop old finished jobs (hourly). Dead jobs are kept longer for inspection.
+async function runSyncJobPrune(): Promise<void> {
+  if (isDbBackingOff()) return;
 
   try {
-    const activeTenants = await getCachedActiveUserTenants();
-    if (activeTenants.length === 0) {
-      return;
+    const pruned = await pruneSyncJobs(2, 14);
+    if (pruned > 0) {
+      logger.info("Pruned finished sync jobs", { jobs: pruned });
+    }
+  } catch (error) {
+    logger.error("Sync job prune failed", { error: (error as Error).message });
+  }
+}
+
+// Re-evaluate quota/billing gates so the dashboard shows the current state and
+// admins are notified of changes. Enqueueing and job runs evaluate the gate
+// themselves, so this never delays enforcement.
+async function runSyncGateRefresh(): Promise<void> {
+  if (isDbBackingOff()) return;
+
+  try {
+    await refreshSyncGates(uniqueTenants(await getActiveTenants()));
+    recordDbSuccess();
+  } catch (error) {
+    const msg = (error as Error).message;
+    logger.error("Sync gate refresh failed", { error: msg });
+    if (isDbConnectionError(msg)) {
+      recordDbFailure();
+    }
+  }
+}
+
+// Hand this process's leases back to the queue on shutdown so another worker
+// can pick them up straight away instead of waiting for the lease to expire
+export async function releaseSyncWorkerJobs(): Promise<void> {
+  try {
+    const released = await releaseSyncJobs(WORKER_ID);
+    if (released > 0) {
+      logger.info("Released in-flight sync jobs", { jobs: released });
     }
+  } catch (error) {
+    logger.warn("Failed to release in-flight sync jobs", { error: (error as Error).message });
+  }
+}
 
-    runningSync.add("cdr");
+// Max time allowed for a retention pass across all tenants (60 minutes)
+const RETENTION_TIMEOUT_MS = 60 * 60_000;
+
+// Run retention enforcement (daily, or on demand via the control server).
+// Set RETENTION_DRY_RUN=true to only log what would be removed.
+export async function runRetentionCleanup(options: Omit<RetentionRunOptions, "dryRun"> = {}): Promise<void> {
+  if (isDbBackingOff()) return;
+  if (retentionRunning) {
+    logger.debug("Retention skipped - already running");
+    return;
+  }
 
-    logger.debug(`CDR sync for ${activeTenants.length} tenant(s)`);
+  retentionRunning = true;
+  const dryRun = process.env.RETENTION_DRY_RUN === "true";
 
-    await Promise.race([
-      runMultiTenantSyncByType(["cdr"], activeTenants.map((t) => t.id)),
-      new Promise<void>((_, reject) =>
+  try {
+    const results = await Promise.race([
+      runRetention({ ...options, dryRun }),
+      new Promise<never>((_, reject) =>
         setTimeout(
-          () => reject(new Error(`CDR sync timed out after ${CDR_SYNC_TIMEOUT_MS / 1000}s`)),
-          CDR_SYNC_TIMEOUT_MS
+          () => reject(new Error(`Retention timed out after ${RETENTION_TIMEOUT_MS / 1000}s`)),
+          RETENTION_TIMEOUT_MS
         )
       ),
     ]);
+
+    const deleted = results.reduce((sum, r) => sum + r.itemsDeleted, 0);
+    logger.info(`Retention ${dryRun ? "preview" : "cleanup"} complete`, {
+      policies: results.length,
+      itemsDeleted: deleted,
+    });
   } catch (error) {
-    const msg = (error as Error).message;
-    logger.error("CDR sync failed", { error: msg });
-    if (msg.includes("schema cache") || msg.includes("connection") || msg.includes("timeout")) {
-      recordDbFailure();
-      activeTenantCache = null;
-    }
+    logger.error("Retention cleanup failed", { error: (error as Error).message });
   } finally {
-    runningSync.delete("cdr");
+    retentionRunning = false;
   }
 }
 
-// Run extensions sync (every hour) - runs for ALL active tenants, not just those with active users
-async function runExtensionsSync(): Promise<void> {
-  if (runningSync.has("extensions") || runningSync.has("full")) {
-    logger.debug("Extensions sync skipped - already running");
+export function isRetentionRunning(): boolean {
+  return retentionRunning;
+}
+
+// Build any queued archive exports (polled every minute, or kicked via the control server)
+export async function runExportQueue(): Promise<void> {
+  if (isDbBackingOff()) return;
+  if (exportRunning) {
+    logger.debug("Export queue skipped - already running");
     return;
   }
 
-  // In idle mode, throttle to once per 4 hours instead of every 60 minutes.
-  // Extension names/metadata change rarely so this is safe.
-  if (systemIsIdle) {
-    const elapsed = Date.now() - lastExtensionsSyncAt;
-    if (elapsed < IDLE_EXTENSIONS_INTERVAL_MS) {
-      logger.debug(`Extensions sync skipped — idle mode (~${Math.round((IDLE_EXTENSIONS_INTERVAL_MS - elapsed) / 60_000)}m until next)`);
-      return;
+  exportRunning = true;
+  try {
+    const processed = await processExportQueue();
+    if (processed > 0) {
+      logger.info("Export queue drained", { jobs: processed });
     }
+  } catch (error) {
+    logger.error("Export queue failed", { error: (error as Error).message });
+  } finally {
+    exportRunning = false;
   }
+}
+
+export function isExportRunning(): boolean {
+  return exportRunning;
+}
 
+// Run any queued integrity verifications (polled every minute, or kicked via the control server)
+export async function runIntegrityQueue(): Promise<void> {
+  if (isDbBackingOff()) return;
+  if (integrityRunning) {
+    logger.debug("Integrity queue skipped - already running");
+    return;
+  }
+
+  integrityRunning = true;
   try {
-    // Use getActiveTenants (all enabled tenants) instead of getActiveUserTenants
-    // Extensions should sync regardless of user activity to keep names up to date
-    const allTenants = await getActiveTenants();
-    if (allTenants.length === 0) {
-      return;
+    const processed = await processIntegrityQueue();
+    if (processed > 0) {
+      logger.info("Integrity queue drained", { runs: processed });
     }
+  } catch (error) {
+    logger.error("Integrity queue failed", { error: (error as Error).message });
+  } finally {
+    integrityRunning = false;
+  }
+}
 
-    runningSync.add("extensions");
+// Daily: verify and seal yesterday's chain for every tenant
+async function runDailyIntegrityCheck(): Promise<void> {
+  try {
+    const queued = await enqueueDailyVerifications();
+    logger.info("Daily integrity verifications queued", { tenants: queued });
+  } catch (error) {
+    logger.error("Failed to queue daily integrity verifications", { error: (error as Error).message });
+    return;
+  }
+  await runIntegrityQueue();
+}
 
-    logger.info(`Extensions sync for ${allTenants.length} tenant(s)${systemIsIdle ? " [idle mode]" : ""}`);
+export function isIntegrityRunning(): boolean {
+  return integrityRunning;
+}
 
-    await runMultiTenantSyncByType(
-      ["extensions"],
-      allTenants.map((t) => t.id)
-    );
+// Run any queued reconciliations and backfills (polled every minute, or kicked via the control server)
+export async function runReconciliationQueue(): Promise<void> {
+  if (isDbBackingOff()) return;
+  if (reconciliationRunning) {
+    logger.debug("Reconciliation queue skipped - already running");
+    return;
+  }
 
-    lastExtensionsSyncAt = Date.now();
+  reconciliationRunning = true;
+  try {
+    const processed = await processReconciliationQueue();
+    if (processed > 0) {
+      logger.info("Reconciliation queue drained", { jobs: processed });
+    }
   } catch (error) {
-    logger.error("Extensions sync failed", { error: (error as Error).message });
+    logger.error("Reconciliation queue failed", { error: (error as Error).message });
   } finally {
-    runningSync.delete("extensions");
+    reconciliationRunning = false;
   }
 }
 
-// Max time allowed for background sync (5 minutes)
-const BACKGROUND_SYNC_TIMEOUT_MS = 5 * 60_000;
+// Daily: compare the last few days of 3CX data with the archive for every tenant
+async function runDailyReconciliation(): Promise<void> {
+  const { reconciliationDays } = getSyncIntervals();
+  try {
+    const queued = await enqueueDailyReconciliations(reconciliationDays);
+    logger.info("Daily reconciliations queued", { tenants: queued, days: reconciliationDays });
+  } catch (error) {
+    logger.error("Failed to queue daily reconciliations", { error: (error as Error).message });
+    return;
+  }
+  await runReconciliationQueue();
+}
 
-// Run lightweight sync for inactive tenants (every 30 minutes)
-// Only syncs messages and CDR - media/recordings now run for all tenants via dedicated schedulers
-async function runBackgroundSync(): Promise<void> {
-  if (runningSync.size > 0) {
-    logger.debug("Background sync skipped - other sync running");
+export function isReconciliationRunning(): boolean {
+  return reconciliationRunning;
+}
+
+// Advance queued and in-progress backfill jobs by one chunk each (every minute, or kicked via the control server)
+export async function runBackfillQueue(): Promise<void> {
+  if (isDbBackingOff()) return;
+  if (backfillRunning) {
+    logger.debug("Backfill queue skipped - already running");
     return;
   }
 
+  backfillRunning = true;
   try {
-    const inactiveTenants = await getInactiveTenants();
-
-    if (inactiveTenants.length === 0) {
-      logger.debug("No inactive tenants to sync");
-      return;
+    const chunks = await processBackfillQueue();
+    if (chunks > 0) {
+      logger.info("Backfill tick finished", { chunks });
     }
+  } catch (error) {
+    logger.error("Backfill queue failed", { error: (error as Error).message });
+  } finally {
+    backfillRunning = false;
+  }
+}
 
-    runningSync.add("full");
-
-    logger.info(`Background full sync for ${inactiveTenants.length} inactive tenant(s)`);
+export async function runWebhookQueue(): Promise<void> {
+  if (isDbBackingOff()) return;
+  if (webhookRunning) return;
 
-    // Only sync messages and CDR for inactive tenants to keep data fresh
-    // Media/recordings sync is heavier and only runs when users are active
-    await Promise.race([
-      runMultiTenantSyncByType(["messages", "cdr"], inactiveTenants.map((t) => t.id)),
-      new Promise<void>((_, reject) =>
-        setTimeout(
-          () => reject(new Error(`Background sync timed out after ${BACKGROUND_SYNC_TIMEOUT_MS / 1000}s`)),
-          BACKGROUND_SYNC_TIMEOUT_MS
-        )
-      ),
-    ]);
+  webhookRunning = true;
+  try {
+    const attempted = await processWebhookQueue();
+    if (attempted > 0) {
+      logger.debug("Webhook tick finished", { deliveries: attempted });
+    }
   } catch (error) {
-    logger.error("Background sync failed", { error: (error as Error).message });
+    logger.error("Webhook queue failed", { error: (error as Error).message });
   } finally {
-    runningSync.delete("full");
+    webhookRunning = false;
+  }
+}
+
+async function runWebhookPrune(): Promise<void> {
+  if (isDbBackingOff()) return;
+
+  try {
+    const pruned = await pruneWebhookEvents(30);
+    if (pruned > 0) {
+      logger.info("Pruned old webhook events", { events: pruned });
+    }
+  } catch (error) {
+    logger.error("Webhook prune failed", { error: (error as Error).message });
   }
 }
 
@@ -471,12 +819,18 @@ export function startScheduler(): void {
   const intervals = getSyncIntervals();
 
   logger.info("Starting multi-interval scheduler", {
+    workerId: WORKER_ID,
     chatInterval: `${intervals.chat}s`,
     mediaInterval: `${intervals.media}m`,
     recordingsInterval: `${intervals.recordings}m`,
     cdrInterval: `${intervals.cdr}m`,
     extensionsInterval: `${intervals.extensions}m`,
     backgroundInterval: `${intervals.background}m`,
+    fastWorkers: intervals.fastWorkers,
+    bulkWorkers: intervals.bulkWorkers,
+    retentionHour: intervals.retentionHour,
+    integrityHour: intervals.integrityHour,
+    reconciliationHour: intervals.reconciliationHour,
   });
 
   // Chat sync: every N seconds (use setInterval for sub-minute)
@@ -507,6 +861,54 @@ export function startScheduler(): void {
   backgroundSyncTask = cron.schedule(`*/${intervals.background} * * * *`, runBackgroundSync);
   backgroundSyncTask.start();
 
+  // Sync workers: lease queued jobs every few seconds
+  const workerIntervalId = setInterval(runSyncWorkers, SYNC_WORKER_POLL_MS);
+  syncWorkerTask = {
+    start: () => {},
+    stop: () => clearInterval(workerIntervalId),
+  } as cron.ScheduledTask;
+
+  // Sync job housekeeping: recover expired leases every minute, prune history hourly
+  syncJobRecoveryTask = cron.schedule("* * * * *", runSyncJobRecovery);
+  syncJobRecoveryTask.start();
+  syncJobPruneTask = cron.schedule("15 * * * *", runSyncJobPrune);
+  syncJobPruneTask.start();
+
+  // Retention cleanup: daily at the configured hour
+  retentionTask = cron.schedule(`0 ${intervals.retentionHour} * * *`, () => runRetentionCleanup());
+  retentionTask.start();
+
+  // Archive exports: poll the queue every minute
+  exportTask = cron.schedule("* * * * *", runExportQueue);
+  exportTask.start();
+
+  // Integrity: verify + seal yesterday daily, and poll for on-demand runs every minute
+  integrityDailyTask = cron.schedule(`30 ${intervals.integrityHour} * * *`, runDailyIntegrityCheck);
+  integrityDailyTask.start();
+  integrityTask = cron.schedule("* * * * *", runIntegrityQueue);
+  integrityTask.start();
+
+  // Reconciliation: compare recent days against 3CX daily, and poll for on-demand runs/backfills
+  reconciliationDailyTask = cron.schedule(`0 ${intervals.reconciliationHour} * * *`, runDailyReconciliation);
+  reconciliationDailyTask.start();
+  reconciliationTask = cron.schedule("* * * * *", runReconciliationQueue);
+  reconciliationTask.start();
+
+  // Historical backfills: one chunk per job per minute, alongside the regular syncs
+  backfillTask = cron.schedule("* * * * *", runBackfillQueue);
+  backfillTask.start();
+
+  // Quota/billing gates: refreshed every 5 minutes and once at startup
+  syncGateTask = cron.schedule("*/5 * * * *", runSyncGateRefresh);
+  syncGateTask.start();
+  runSyncGateRefresh();
+
+  // Outbound webhooks: deliveries every 10 seconds, log pruned hourly
+  webhookTask = cron.schedule("*/10 * * * * *", runWebhookQueue);
+  webhookTask.start();
+  webhookPruneTask = cron.schedule("20 * * * *", runWebhookPrune);
+  webhookPruneTask.start();
+
   logger.info("Multi-interval scheduler started:");
   logger.info(`  - Chat messages: every ${intervals.chat} seconds`);
   logger.info(`  - Media files: every ${intervals.media} minutes`);
@@ -514,6 +916,14 @@ export function startScheduler(): void {
   logger.info(`  - CDR: every ${intervals.cdr} minutes`);
   logger.info(`  - Extensions: every ${intervals.extensions} minutes`);
   logger.info(`  - Background full sync (inactive tenants): every ${intervals.background} minutes`);
+  logger.info(`  - Sync workers: ${intervals.fastWorkers} fast (messages/CDR) + ${intervals.bulkWorkers} bulk, polling every ${SYNC_WORKER_POLL_MS / 1000} seconds`);
+  logger.info(`  - Retention cleanup: daily at ${intervals.retentionHour}:00`);
+  logger.info("  - Archive exports: queue polled every minute");
+  logger.info(`  - Integrity verification: daily at ${intervals.integrityHour}:30, queue polled every minute`);
+  logger.info(`  - Reconciliation (last ${intervals.reconciliationDays} days): daily at ${intervals.reconciliationHour}:00, queue polled every minute`);
+  logger.info("  - Historical backfills: one chunk per job every minute");
+  logger.info("  - Quota/billing sync gates: every 5 minutes");
+  logger.info("  - Webhook deliveries: every 10 seconds");
 
   // Start realtime LISTEN connections for all active tenants.
   // Fire-and-forget — if this fails, polling continues as the data safety net.
@@ -522,12 +932,25 @@ export function startScheduler(): void {
       logger.info("Realtime listener: no active tenants found, will retry on next scheduler init");
       return;
     }
+    // One listener per 3CX system, on that system's SSH tunnel
     for (const tenant of tenants) {
-      startRealtimeListener(tenant.id, (payload) => syncRealtimeMessage(payload, tenant), {
-        user: "phonesystem",
-        password: tenant.threecx_db_password ?? undefined,
-        database: "database_single",
-      });
+      startRealtimeListener(
+        tenantConnectionKey(tenant),
+        async (payload) => {
+          // The listener outlives gate changes, so check the gate per message.
+          // Dropped messages are picked up by polling once the gate opens.
+          const gate = currentSyncGate(tenant);
+          if (!isSyncAllowed(gate, "messages")) return;
+          await runInPbxInstance(tenant.pbx_instance_id, () =>
+            syncRealtimeMessage(payload, tenant, { skipMedia: !isSyncAllowed(gate, "media") })
+          );
+        },
+        {
+          user: "phonesystem",
+          password: tenant.threecx_db_password ?? undefined,
+          database: "database_single",
+        }
+      );
     }
     logger.info(`Realtime listener: started for ${tenants.length} tenant(s)`);
   }).catch((err: Error) => {
@@ -562,6 +985,58 @@ export function stopScheduler(): void {
     backgroundSyncTask.stop();
     backgroundSyncTask = null;
   }
+  if (syncWorkerTask) {
+    syncWorkerTask.stop();
+    syncWorkerTask = null;
+  }
+  if (syncJobRecoveryTask) {
+    syncJobRecoveryTask.stop();
+    syncJobRecoveryTask = null;
+  }
+  if (syncJobPruneTask) {
+    syncJobPruneTask.stop();
+    syncJobPruneTask = null;
+  }
+  if (retentionTask) {
+    retentionTask.stop();
+    retentionTask = null;
+  }
+  if (exportTask) {
+    exportTask.stop();
+    exportTask = null;
+  }
+  if (integrityTask) {
+    integrityTask.stop();
+    integrityTask = null;
+  }
+  if (integrityDailyTask) {
+    integrityDailyTask.stop();
+    integrityDailyTask = null;
+  }
+  if (reconciliationTask) {
+    reconciliationTask.stop();
+    reconciliationTask = null;
+  }
+  if (reconciliationDailyTask) {
+    reconciliationDailyTask.stop();
+    reconciliationDailyTask = null;
+  }
+  if (backfillTask) {
+    backfillTask.stop();
+    backfillTask = null;
+  }
+  if (syncGateTask) {
+    syncGateTask.stop();
+    syncGateTask = null;
+  }
+  if (webhookTask) {
+    webhookTask.stop();
+    webhookTask = null;
+  }
+  if (webhookPruneTask) {
+    webhookPruneTask.stop();
+    webhookPruneTask = null;
+  }
   // Stop realtime listeners
   stopAllRealtimeListeners().catch((err: Error) => {
     logger.warn("Error stopping realtime listeners", { error: err.message });
@@ -575,9 +1050,15 @@ export function isSchedulerRunning(): boolean {
 }
 
 export function isSyncInProgress(): boolean {
-  return runningSync.size > 0;
+  return inFlightJobs.size > 0;
 }
 
-export function getRunningSync(): string[] {
-  return Array.from(runningSync);
+// Jobs this process is running right now (every worker's jobs are in sync_jobs)
+export function getRunningSync(): Array<{ jobId: string; tenantId: string; syncType: SyncType; startedAt: string }> {
+  return Array.from(inFlightJobs.values()).map(({ job, startedAt }) => ({
+    jobId: job.id,
+    tenantId: job.tenant_id,
+    syncType: job.sync_type,
+    startedAt: startedAt.toISOString(),
+  }));
 }
@@ -0,0 +1,67 @@
+/**
+ * Check that tenant redaction patterns which could hang on backtracking or
+ * match empty text are refused, and that the redactor skips them when they
+ * were saved before the dashboard rejected them. Needs no database. Exits
+ * non-zero when a case fails.
+ * Usage: npm test
+ */
+
+import { unsafePatternReason } from "../utils/regex-safety";
+import { createRecordRedactor } from "../utils/redaction";
+
+interface PatternCase {
+  pattern: string;
+  reason: string | null;
+}
+
+const PATTERN_CASES: PatternCase[] = [
+  { pattern: "\\bACC-\\d{6}\\b", reason: null },
+  { pattern: "(?:\\d[ -]?){12,15}\\d", reason: null }, // bounded repeat of a group
+  { pattern: "(a+)+$", reason: "nested quantifiers" },
+  { pattern: "(\\w*\\s?)*x", reason: "nested quantifiers" },
+  { pattern: "(?:ab{2,})+", reason: "nested quantifiers" },
+  { pattern: "a*", reason: "matches empty text" },
+  { pattern: "x?|y", reason: "matches empty text" },
+  { pattern: "^", reason: "matches empty text" },
+];
+
+// A failed match on this takes minutes with (a+)+$ in a backtracking engine
+const SLOW_INPUT = "a".repeat(40) + "!";
+
+function main() {
+  let failed = 0;
+  let total = 0;
+
+  for (const { pattern, reason } of PATTERN_CASES) {
+    total++;
+    const actual = unsafePatternReason(pattern, "giu");
+    if (actual === reason) {
+      console.log(`PASS ${pattern} - ${reason ?? "allowed"}`);
+    } else {
+      failed++;
+      console.log(`FAIL ${pattern} - expected ${reason ?? "allowed"}, got ${actual ?? "allowed"}`);
+    }
+  }
+
+  // Rows saved before validation: unsafe patterns are skipped, safe ones still mask
+  total++;
+  const redact = createRecordRedactor({
+    presets: [],
+    custom_patterns: ["(a+)+$", "a*", "\\bACC-\\d{6}\\b"],
+    mask_external_numbers: false,
+  });
+  const startedAt = Date.now();
+  const redacted = redact({ content: `${SLOW_INPUT} ACC-123456` });
+  const expected = `${SLOW_INPUT} [REDACTED]`;
+  if (redacted.content === expected && Date.now() - startedAt < 1000) {
+    console.log("PASS redactor skips saved unsafe patterns");
+  } else {
+    failed++;
+    console.log(`FAIL redactor skips saved unsafe patterns - got ${JSON.stringify(redacted.content)}`);
+  }
+
+  console.log(`\n${total - failed}/${total} redaction pattern checks passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
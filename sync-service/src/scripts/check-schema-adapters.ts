@@ -0,0 +1,135 @@
+/**
+ * Check 3CX schema detection against the recorded schema dumps in
+ * src/threecx/schema-fixtures (record new ones with dump-3cx-schema.ts):
+ * the detected release and capabilities must match each fixture's
+ * expectation, and every column the chosen sources' SQL reads must exist in
+ * the fixture. The web app's connection test runs the same detection module.
+ * Needs no database. Exits non-zero when a fixture fails.
+ * Usage: npm test
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { detectSchema, SchemaProfile, SchemaSnapshot } from "../threecx/detection";
+
+export const FIXTURES_DIR = path.join(__dirname, "../threecx/schema-fixtures");
+
+export interface FixtureExpectation {
+  release: SchemaProfile["release"];
+  call_records: string | null; // call history table
+  recordings: Record<string, boolean> | null; // feature flags
+  voicemails: { transcription: boolean } | null;
+  chat_views: string[];
+}
+
+export interface SchemaFixture {
+  description: string;
+  snapshot: SchemaSnapshot;
+  expected: FixtureExpectation;
+}
+
+export function describeProfile(profile: SchemaProfile): FixtureExpectation {
+  const { capabilities } = profile;
+  return {
+    release: profile.release,
+    call_records: capabilities.callRecords?.table ?? null,
+    recordings: capabilities.recordings ? { ...capabilities.recordings.features } : null,
+    voicemails: capabilities.voicemails ? { ...capabilities.voicemails.features } : null,
+    chat_views: capabilities.chat_views,
+  };
+}
+
+// Words in the adapters' SQL that are not column names
+const SQL_WORDS = new Set([
+  "select", "from", "where", "limit", "case", "when", "then", "else", "end", "null", "and", "or", "not",
+  "is", "true", "false", "coalesce", "nullif", "extract", "epoch", "interval", "left", "length",
+  "regexp_replace", "to_timestamp", "cast",
+]);
+
+/** Columns an SQL fragment reads that `table` (or a table it joins) lacks */
+function missingColumns(snapshot: SchemaSnapshot, table: string, fragments: Array<string | null>): string[] {
+  const missing: string[] = [];
+
+  for (const fragment of fragments) {
+    if (!fragment) continue;
+
+    // Subquery aliases, e.g. "FROM cl_segments s"
+    const aliases: Record<string, string> = {};
+    const sql = fragment
+      .replace(/--.*$/gm, "")
+      .replace(/'[^']*'/g, "")
+      .replace(/::\s*\w+/g, "")
+      .replace(/\bas\s+\w+/gi, "")
+      .replace(/\bfrom\s+(\w+)\s+(\w+)/gi, (match, name: string, alias: string) => {
+        if (SQL_WORDS.has(alias.toLowerCase())) return match;
+        aliases[alias] = name;
+        return "";
+      });
+
+    for (const [, first, second] of sql.matchAll(/\b([a-z_]\w*)(?:\.([a-z_]\w*))?/gi)) {
+      if (!second && SQL_WORDS.has(first.toLowerCase())) continue;
+      const source = second ? aliases[first] ?? first : table;
+      const column = second ?? first;
+      if (!snapshot.tables[source]?.includes(column)) {
+        missing.push(`${source}.${column}`);
+      }
+    }
+  }
+
+  return [...new Set(missing)];
+}
+
+/** Every column read by the SQL of the sources detected for this snapshot */
+export function checkSourceColumns(snapshot: SchemaSnapshot, profile: SchemaProfile): string[] {
+  const { callRecords, recordings, voicemails } = profile.capabilities;
+  return [
+    ...(callRecords
+      ? missingColumns(snapshot, callRecords.table, [callRecords.select, callRecords.idColumn, callRecords.timeColumn])
+      : []),
+    ...(recordings
+      ? missingColumns(snapshot, recordings.table, [recordings.select, recordings.idColumn, recordings.timeColumn])
+      : []),
+    ...(voicemails
+      ? missingColumns(snapshot, voicemails.table, [
+          voicemails.select, voicemails.idColumn, voicemails.timeExpression, voicemails.where,
+        ])
+      : []),
+  ];
+}
+
+function main() {
+  const files = fs.readdirSync(FIXTURES_DIR).filter((f) => f.endsWith(".json")).sort();
+  let failed = 0;
+
+  for (const file of files) {
+    const fixture: SchemaFixture = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, file), "utf8"));
+    const profile = detectSchema(fixture.snapshot);
+    const actual = describeProfile(profile);
+    const missing = checkSourceColumns(fixture.snapshot, profile);
+
+    const mismatches = (Object.keys(fixture.expected) as (keyof FixtureExpectation)[]).filter(
+      (key) => JSON.stringify(actual[key]) !== JSON.stringify(fixture.expected[key])
+    );
+
+    if (mismatches.length === 0 && missing.length === 0) {
+      console.log(`PASS ${file} - ${actual.release}`);
+      continue;
+    }
+
+    failed++;
+    console.log(`FAIL ${file} - ${fixture.description}`);
+    for (const key of mismatches) {
+      console.log(`  ${key}: expected ${JSON.stringify(fixture.expected[key])}, got ${JSON.stringify(actual[key])}`);
+    }
+    if (missing.length > 0) {
+      console.log(`  SQL reads missing columns: ${missing.join(", ")}`);
+    }
+  }
+
+  console.log(`\n${files.length - failed}/${files.length} fixtures passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,52 @@
+/**
+ * Record a tenant's 3CX schema as a fixture for check-schema-adapters.ts.
+ * The expected block is filled from the current detection - review it before
+ * committing the fixture.
+ * Usage: npx ts-node src/scripts/dump-3cx-schema.ts <tenant-slug> <fixture-name>
+ */
+
+import "dotenv/config";
+import * as fs from "fs";
+import * as path from "path";
+import { getActiveTenants, getTenantPool } from "../tenant";
+import { withClient } from "../threecx/connection";
+import { detectSchema, readSchemaSnapshot } from "../threecx/detection";
+import { describeProfile, FIXTURES_DIR, SchemaFixture } from "./check-schema-adapters";
+
+async function main() {
+  const [slug, name] = process.argv.slice(2);
+  if (!slug || !name) {
+    console.error("Usage: npx ts-node src/scripts/dump-3cx-schema.ts <tenant-slug> <fixture-name>");
+    process.exit(1);
+  }
+
+  const tenant = (await getActiveTenants()).find((t) => t.slug === slug);
+  if (!tenant) {
+    console.error(`No active tenant with slug "${slug}"`);
+    process.exit(1);
+  }
+
+  const pool = await getTenantPool(tenant);
+  if (!pool) {
+    console.error("Failed to get pool!");
+    process.exit(1);
+  }
+
+  const snapshot = await withClient(readSchemaSnapshot, pool);
+  const profile = detectSchema(snapshot);
+
+  const fixture: SchemaFixture = {
+    description: `${tenant.name}: ${profile.label}`,
+    snapshot,
+    expected: describeProfile(profile),
+  };
+
+  const file = path.join(FIXTURES_DIR, `${name}.json`);
+  fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + "\n");
+
+  console.log(`Detected: ${profile.label}`);
+  console.log(`Wrote ${file}`);
+  process.exit(0);
+}
+
+main().catch(console.error);
@@ -4,6 +4,7 @@
 
 import "dotenv/config";
 import { getSupabaseClient } from "../storage/supabase";
+import { getHoldColumns, partitionHeldRows, logBlockedDeletionByTenant } from "../legal-holds";
 
 async function main() {
   console.log("=".repeat(60));
@@ -19,15 +20,42 @@ async function main() {
 
   console.log(`\nRecordings before: ${before}`);
 
-  // Delete all recordings (they'll be re-synced with correct data)
-  const { error } = await supabase
-    .from("call_recordings")
-    .delete()
-    .neq("id", "00000000-0000-0000-0000-000000000000"); // Delete all (no-op filter)
+  // Load every recording so rows under legal hold can be left in place
+  const recordings: Array<{ id: string; tenant_id: string }> = [];
+  const pageSize = 1000;
+  for (let offset = 0; ; offset += pageSize) {
+    const { data, error: fetchErr } = await supabase
+      .from("call_recordings")
+      .select(getHoldColumns("call_recordings").join(", "))
+      .order("id")
+      .range(offset, offset + pageSize - 1);
+
+    if (fetchErr) {
+      console.error("Fetch error:", fetchErr.message);
+      return;
+    }
+    recordings.push(...((data || []) as unknown as Array<{ id: string; tenant_id: string }>));
+    if (!data || data.length < pageSize) break;
+  }
+
+  const { deletable, held } = await partitionHeldRows("call_recordings", recordings);
+  if (held.length > 0) {
+    console.log(`Keeping ${held.length} recording(s) under legal hold`);
+    await logBlockedDeletionByTenant("reset-all-recordings", "call_recordings", held);
+  }
+
+  // Delete the rest (they'll be re-synced with correct data)
+  const ids = deletable.map((r) => r.id);
+  for (let i = 0; i < ids.length; i += 200) {
+    const { error } = await supabase
+      .from("call_recordings")
+      .delete()
+      .in("id", ids.slice(i, i + 200));
 
-  if (error) {
-    console.error("Delete error:", error.message);
-    return;
+    if (error) {
+      console.error("Delete error:", error.message);
+      return;
+    }
   }
 
   // Count after
@@ -5,6 +5,7 @@
 
 import "dotenv/config";
 import { getSupabaseClient } from "../storage/supabase";
+import { getHoldColumns, partitionHeldRows, logBlockedDeletionByTenant } from "../legal-holds";
 
 async function main() {
   console.log("=".repeat(60));
@@ -16,7 +17,7 @@ async function main() {
   // Find recordings with no file_size or file_size = 0 (meaning file wasn't uploaded)
   const { data: brokenRecordings, error: fetchErr } = await supabase
     .from("call_recordings")
-    .select("id, storage_path, file_size")
+    .select(["storage_path", "file_size", ...getHoldColumns("call_recordings")].join(", "))
     .or("file_size.is.null,file_size.eq.0");
 
   if (fetchErr) {
@@ -31,10 +32,25 @@ async function main() {
     return;
   }
 
+  // Records under legal hold are kept even if their file is missing
+  const { deletable, held } = await partitionHeldRows(
+    "call_recordings",
+    brokenRecordings as unknown as Array<{ id: string; tenant_id: string }>
+  );
+  if (held.length > 0) {
+    console.log(`Keeping ${held.length} record(s) under legal hold`);
+    await logBlockedDeletionByTenant("reset-recordings-sync", "call_recordings", held);
+  }
+
+  if (deletable.length === 0) {
+    console.log("Nothing to clean up!");
+    return;
+  }
+
   // Delete the broken records
   console.log("Deleting broken records...");
 
-  const ids = brokenRecordings.map(r => r.id);
+  const ids = deletable.map(r => r.id);
   const { error: deleteErr } = await supabase
     .from("call_recordings")
     .delete()
@@ -0,0 +1,34 @@
+/**
+ * Link call recordings to CDR legs
+ * Usage: npx ts-node src/scripts/run-call-linking.ts [days]
+ */
+
+import "dotenv/config";
+import { getActiveTenants } from "../tenant";
+import { linkRecordingsToCalls } from "../sync/call-linking";
+
+async function main() {
+  const days = parseInt(process.argv[2] || "2");
+
+  console.log("=".repeat(60));
+  console.log(`Link Call Recordings (last ${days} days)`);
+  console.log("=".repeat(60));
+
+  const tenants = await getActiveTenants();
+
+  for (const tenant of tenants) {
+    console.log("\nTenant:", tenant.name);
+    try {
+      const result = await linkRecordingsToCalls(tenant.id, days * 24);
+      console.log("Unlinked recordings checked:", result.checked);
+      console.log("Recordings linked:", result.linked);
+      console.log("Call legs linked:", result.legsLinked);
+    } catch (err) {
+      console.error("Linking error:", (err as Error).message);
+    }
+  }
+
+  process.exit(0);
+}
+
+main().catch(console.error);
@@ -1,28 +1,17 @@
 /**
- * Trigger a manual sync via the sync_status table
+ * Trigger a manual recordings re-sync by queueing a job for every active tenant
  */
 
 import "dotenv/config";
 import { getSupabaseClient } from "../storage/supabase";
+import { SYNC_JOB_PRIORITY, enqueueSyncJob } from "../storage/sync-jobs";
+import { getActiveTenants } from "../tenant";
 
 async function main() {
   const supabase = getSupabaseClient();
 
-  // Set trigger timestamp
-  const { error } = await supabase
-    .from("sync_status")
-    .update({
-      trigger_requested_at: new Date().toISOString(),
-    })
-    .eq("sync_type", "recordings");
-
-  if (error) {
-    console.error("Error triggering sync:", error.message);
-  } else {
-    console.log("Sync trigger set. The sync service should pick this up on next cycle.");
-  }
-
-  // Also reset the last_synced_message_at to force re-sync from beginning
+  // Reset the last_synced_message_at first to force re-sync from beginning
+  // (a queued job can start within seconds)
   const { error: resetErr } = await supabase
     .from("sync_status")
     .update({
@@ -36,6 +25,16 @@ async function main() {
   } else {
     console.log("Checkpoint reset to beginning.");
   }
+
+  try {
+    const tenants = await getActiveTenants();
+    for (const tenant of tenants) {
+      await enqueueSyncJob(tenant.id, "recordings", { priority: SYNC_JOB_PRIORITY.manual, source: "manual" });
+    }
+    console.log(`Recordings sync queued for ${tenants.length} tenant(s). A sync worker will pick it up shortly.`);
+  } catch (error) {
+    console.error("Error triggering sync:", (error as Error).message);
+  }
 }
 
 main().catch(console.error);
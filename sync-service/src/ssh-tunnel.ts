@@ -284,6 +284,15 @@ export function getExistingTunnel(tenantId: string): SshTunnel | undefined {
   return activeTunnels.get(tenantId);
 }
 
+// Open tunnels by tenant, for diagnostics
+export function tunnelStatus(): Record<string, { localPort: number; listening: boolean }> {
+  const status: Record<string, { localPort: number; listening: boolean }> = {};
+  for (const [tenantId, tunnel] of activeTunnels) {
+    status[tenantId] = { localPort: tunnel.localPort, listening: tunnel.server.listening };
+  }
+  return status;
+}
+
 export async function closeTunnel(tenantId: string): Promise<void> {
   const tunnel = activeTunnels.get(tenantId);
   if (tunnel) {
@@ -0,0 +1,178 @@
+import { logger } from "../utils/logger";
+import { AgentTransportError } from "../utils/errors";
+import { sha256Hex } from "../utils/integrity";
+
+// ============================================
+// AGENT TRANSPORT
+// ============================================
+// The third writer next to the direct Supabase/Postgres writers (supabase.ts,
+// postgres.ts) and the Spaces writer (spaces-storage.ts). An agent installed
+// on a customer's 3CX server holds only its tenant's agent token, so instead
+// of writing to the archive it sends batches to /api/agent/ingest and uploads
+// files through presigned URLs from /api/agent/uploads, which only cover the
+// tenant's own storage prefix. The storage functions switch to this
+// transport when it is initialised (local mode without a service-role key).
+
+// Matches the API's per-request limit
+const INGEST_BATCH_SIZE = 1000;
+const REQUEST_TIMEOUT_MS = 30_000;
+const UPLOAD_TIMEOUT_MS = 10 * 60_000;
+
+export type AgentIngestTable =
+  | "conversations"
+  | "messages"
+  | "call_logs"
+  | "call_recordings"
+  | "voicemails"
+  | "faxes"
+  | "meeting_recordings"
+  | "extensions"
+  | "sync_status";
+
+export interface AgentIngestResult {
+  written: number;
+  rejected: Array<{ index: number; error: string }>;
+  ids: Record<string, string>; // natural key -> archive id
+}
+
+interface AgentTransportConfig {
+  apiUrl: string;
+  token: string;
+}
+
+let transport: AgentTransportConfig | null = null;
+
+export function initAgentTransport(apiUrl: string, token: string): void {
+  transport = { apiUrl: apiUrl.replace(/\/$/, ""), token };
+  logger.info("Agent transport initialized", { apiUrl: transport.apiUrl });
+}
+
+// After a rotate_token command
+export function setAgentTransportToken(token: string): void {
+  if (transport) transport.token = token;
+}
+
+export function isAgentTransport(): boolean {
+  return transport !== null;
+}
+
+async function request<T>(method: "GET" | "POST", path: string, body?: unknown): Promise<T> {
+  if (!transport) {
+    throw new AgentTransportError("Agent transport is not initialized");
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${transport.apiUrl}${path}`, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${transport.token}`,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new AgentTransportError(`Agent API request failed: ${(error as Error).message}`, { path });
+  }
+
+  const data = (await response.json().catch(() => null)) as { success?: boolean; error?: string } | null;
+  if (!response.ok || !data?.success) {
+    throw new AgentTransportError(`Agent API ${path} returned ${response.status}: ${data?.error || "no details"}`, {
+      path,
+      status: response.status,
+    });
+  }
+  return data as T;
+}
+
+/**
+ * Write rows for this agent's tenant. The API sets tenant_id and
+ * pbx_instance_id itself; rows it rejects are logged and left out of the result.
+ */
+export async function agentIngest(
+  table: AgentIngestTable,
+  rows: Record<string, unknown>[]
+): Promise<AgentIngestResult> {
+  const result: AgentIngestResult = { written: 0, rejected: [], ids: {} };
+
+  for (let offset = 0; offset < rows.length; offset += INGEST_BATCH_SIZE) {
+    const batch = rows.slice(offset, offset + INGEST_BATCH_SIZE).map((row) => {
+      const { tenant_id: _tenantId, pbx_instance_id: _pbxInstanceId, ...fields } = row;
+      return fields;
+    });
+    const response = await request<AgentIngestResult>("POST", "/agent/ingest", { table, rows: batch });
+
+    result.written += response.written;
+    Object.assign(result.ids, response.ids);
+    result.rejected.push(...response.rejected.map((r) => ({ ...r, index: r.index + offset })));
+  }
+
+  if (result.rejected.length > 0) {
+    logger.warn(`Agent ingest rejected ${result.rejected.length} ${table} rows`, {
+      first: result.rejected[0],
+    });
+  }
+  return result;
+}
+
+// Incremental sync cursor (sync_status.last_synced_message_at) for a sync type
+export async function agentGetSyncCursor(syncType: string): Promise<Date | null> {
+  const { sync_status } = await request<{
+    sync_status: Array<{ sync_type: string; last_synced_message_at: string | null }>;
+  }>("GET", "/agent/sync-status");
+
+  const row = sync_status.find((s) => s.sync_type === syncType);
+  return row?.last_synced_message_at ? new Date(row.last_synced_message_at) : null;
+}
+
+interface UploadGrant {
+  storage_path: string;
+  exists: boolean;
+  upload_url: string | null;
+}
+
+async function requestUpload(storagePath: string, contentType: string): Promise<UploadGrant> {
+  const { uploads } = await request<{ uploads: UploadGrant[] }>("POST", "/agent/uploads", {
+    files: [{ storage_path: storagePath, content_type: contentType }],
+  });
+  return uploads[0];
+}
+
+export async function agentFileExists(storagePath: string): Promise<boolean> {
+  try {
+    // Asking for a grant reports existing objects without signing them; an
+    // unused grant simply expires
+    return (await requestUpload(storagePath, "application/octet-stream")).exists;
+  } catch {
+    return false;
+  }
+}
+
+export async function agentUploadBuffer(
+  buffer: Buffer,
+  storagePath: string,
+  contentType: string
+): Promise<{ path: string; size: number; sha256: string }> {
+  const grant = await requestUpload(storagePath, contentType);
+
+  if (grant.upload_url) {
+    let response: Response;
+    try {
+      response = await fetch(grant.upload_url, {
+        method: "PUT",
+        headers: { "Content-Type": contentType },
+        body: buffer,
+        signal: AbortSignal.timeout(UPLOAD_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new AgentTransportError(`Upload failed: ${(error as Error).message}`, { storagePath });
+    }
+    if (!response.ok) {
+      throw new AgentTransportError(`Upload failed with status ${response.status}`, { storagePath });
+    }
+    logger.debug(`Uploaded via agent transport: ${storagePath}`);
+  }
+
+  return { path: storagePath, size: buffer.length, sha256: sha256Hex(buffer) };
+}
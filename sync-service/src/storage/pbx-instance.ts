@@ -0,0 +1,28 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// ============================================
+// PBX INSTANCE SCOPE
+// ============================================
+// A tenant can run several 3CX systems (pbx_instances). Everything a sync
+// writes is tagged with the system it came from, and every 3CX id lookup is
+// scoped to it - two systems happily reuse the same message and call ids.
+// Rather than threading the instance through every sync function, a job runs
+// inside runInPbxInstance() and the storage layer reads it from here. null is
+// a tenant without instances (rows keep a NULL pbx_instance_id).
+
+const scope = new AsyncLocalStorage<string | null>();
+
+export function runInPbxInstance<T>(pbxInstanceId: string | null, fn: () => Promise<T>): Promise<T> {
+  return scope.run(pbxInstanceId, fn);
+}
+
+export function currentPbxInstanceId(): string | null {
+  return scope.getStore() ?? null;
+}
+
+// Extra storage path segment so two systems' files with the same name never
+// share an object key
+export function pbxInstancePathSegment(): string {
+  const pbxInstanceId = currentPbxInstanceId();
+  return pbxInstanceId ? `${pbxInstanceId}/` : "";
+}
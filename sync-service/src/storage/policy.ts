@@ -0,0 +1,100 @@
+import { getPgPool } from "./postgres";
+import { logger } from "../utils/logger";
+
+// ============================================
+// POLICY MONITORING
+// ============================================
+// Tenant admins define policy rules in the web app (see the policy
+// monitoring migration). The sync service evaluates them against each newly
+// archived message (sync/policy.ts) and records a flag per rule hit for the
+// review queue.
+
+export interface BusinessHours {
+  timezone: string;
+  start: string; // HH:MM
+  end: string; // HH:MM
+  days: number[]; // 0 = Sunday
+}
+
+export interface PolicyRule {
+  id: string;
+  name: string;
+  keywords: string[];
+  patterns: string[];
+  external_only: boolean;
+  after_hours_only: boolean;
+  business_hours: BusinessHours;
+  severity: "low" | "medium" | "high";
+}
+
+export interface PolicyFlagReason {
+  type: "keyword" | "pattern" | "external" | "after_hours";
+  value?: string;
+}
+
+export interface NewPolicyFlag {
+  tenant_id: string;
+  rule_id: string;
+  rule_name: string;
+  severity: PolicyRule["severity"];
+  message_id: string;
+  conversation_id: string | null;
+  message_sent_at: string;
+  reasons: PolicyFlagReason[];
+}
+
+// Rules are read on every archived message, so keep them briefly in memory.
+// A rule edited in the web app applies within a minute.
+const RULE_CACHE_TTL_MS = 60_000;
+const ruleCache: Map<string, { rules: PolicyRule[]; fetchedAt: number }> = new Map();
+
+export async function getActivePolicyRules(tenantId: string): Promise<PolicyRule[]> {
+  const cached = ruleCache.get(tenantId);
+  if (cached && Date.now() - cached.fetchedAt < RULE_CACHE_TTL_MS) {
+    return cached.rules;
+  }
+
+  const { rows } = await getPgPool().query<PolicyRule>(`
+    SELECT id, name, keywords, patterns, external_only, after_hours_only, business_hours, severity
+    FROM policy_rules
+    WHERE tenant_id = $1 AND is_active
+  `, [tenantId]);
+
+  ruleCache.set(tenantId, { rules: rows, fetchedAt: Date.now() });
+  return rows;
+}
+
+/**
+ * Record flags for a message. A message already flagged by a rule (e.g. when
+ * it is synced again) is left alone. Returns how many flags were new.
+ */
+export async function insertPolicyFlags(flags: NewPolicyFlag[]): Promise<number> {
+  if (flags.length === 0) return 0;
+
+  const values: unknown[] = [];
+  const placeholders = flags.map((f, i) => {
+    const base = i * 8;
+    values.push(
+      f.tenant_id, f.rule_id, f.rule_name, f.severity,
+      f.message_id, f.conversation_id, f.message_sent_at, JSON.stringify(f.reasons)
+    );
+    return `($${base+1},$${base+2},$${base+3},$${base+4},$${base+5},$${base+6},$${base+7},$${base+8})`;
+  });
+
+  try {
+    const { rowCount } = await getPgPool().query(`
+      INSERT INTO policy_flags
+        (tenant_id, rule_id, rule_name, severity, message_id, conversation_id, message_sent_at, reasons)
+      VALUES ${placeholders.join(",")}
+      ON CONFLICT (rule_id, message_id) DO NOTHING
+    `, values);
+    return rowCount ?? 0;
+  } catch (error) {
+    logger.warn("Failed to record policy flags", {
+      tenantId: flags[0].tenant_id,
+      messageId: flags[0].message_id,
+      error: (error as Error).message,
+    });
+    return 0;
+  }
+}
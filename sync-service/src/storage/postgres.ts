@@ -2,6 +2,8 @@ import { Pool, PoolClient } from "pg";
 import { lookup } from "dns";
 import { promisify } from "util";
 import { logger } from "../utils/logger";
+import { messageContentSha256 } from "../utils/integrity";
+import { currentPbxInstanceId } from "./pbx-instance";
 
 const dnsLookup = promisify(lookup);
 
@@ -98,24 +100,25 @@ export async function pgBulkInsertMessages(
 ): Promise<string[]> {
   if (messages.length === 0) return [];
   const pg = getPgPool();
+  const pbxInstanceId = currentPbxInstanceId();
 
   const values: unknown[] = [];
   const placeholders = messages.map((m, i) => {
-    const base = i * 9;
+    const base = i * 11;
     values.push(
       m.conversation_id, m.threecx_message_id, m.sender_identifier ?? null,
       m.sender_name ?? null, m.content ?? null, m.message_type ?? "text",
-      m.has_media ?? false, m.sent_at, m.tenant_id
+      m.has_media ?? false, m.sent_at, m.tenant_id, messageContentSha256(m), pbxInstanceId
     );
-    return `($${base+1},$${base+2},$${base+3},$${base+4},$${base+5},$${base+6},$${base+7},$${base+8},$${base+9})`;
+    return `($${base+1},$${base+2},$${base+3},$${base+4},$${base+5},$${base+6},$${base+7},$${base+8},$${base+9},$${base+10},$${base+11})`;
   });
 
   const sql = `
     INSERT INTO messages
       (conversation_id, threecx_message_id, sender_identifier, sender_name,
-       content, message_type, has_media, sent_at, tenant_id)
+       content, message_type, has_media, sent_at, tenant_id, content_sha256, pbx_instance_id)
     VALUES ${placeholders.join(",")}
-    ON CONFLICT (tenant_id, threecx_message_id) DO NOTHING
+    ON CONFLICT (tenant_id, pbx_instance_id, threecx_message_id) DO NOTHING
     RETURNING id
   `;
 
@@ -137,23 +140,24 @@ export async function pgBulkUpsertConversations(
 ): Promise<void> {
   if (conversations.length === 0) return;
   const pg = getPgPool();
+  const pbxInstanceId = currentPbxInstanceId();
 
   const values: unknown[] = [];
   const placeholders = conversations.map((c, i) => {
-    const base = i * 6;
+    const base = i * 7;
     values.push(
-      c.tenant_id, c.threecx_conversation_id,
+      c.tenant_id, pbxInstanceId, c.threecx_conversation_id,
       c.conversation_name ?? null, c.channel_type ?? "internal",
       c.is_external ?? false, c.is_group_chat ?? false
     );
-    return `($${base+1},$${base+2},$${base+3},$${base+4},$${base+5},$${base+6})`;
+    return `($${base+1},$${base+2},$${base+3},$${base+4},$${base+5},$${base+6},$${base+7})`;
   });
 
   await pg.query(`
     INSERT INTO conversations
-      (tenant_id, threecx_conversation_id, conversation_name, channel_type, is_external, is_group_chat)
+      (tenant_id, pbx_instance_id, threecx_conversation_id, conversation_name, channel_type, is_external, is_group_chat)
     VALUES ${placeholders.join(",")}
-    ON CONFLICT (tenant_id, threecx_conversation_id)
+    ON CONFLICT (tenant_id, pbx_instance_id, threecx_conversation_id)
     DO UPDATE SET
       conversation_name = COALESCE(EXCLUDED.conversation_name, conversations.conversation_name),
       channel_type      = EXCLUDED.channel_type,
@@ -168,10 +172,12 @@ export async function pgBulkInsertCallLogs(
   callLogs: Array<{
     tenant_id: string;
     threecx_call_id?: string;
+    call_group_id?: string;
     caller_number?: string;
     caller_name?: string;
     callee_number?: string;
     callee_name?: string;
+    extension?: string;
     direction?: string;
     call_type?: string;
     status?: string;
@@ -185,8 +191,9 @@ export async function pgBulkInsertCallLogs(
 ): Promise<{ inserted: number; skipped: number }> {
   if (callLogs.length === 0) return { inserted: 0, skipped: 0 };
   const pg = getPgPool();
+  const pbxInstanceId = currentPbxInstanceId();
 
-  // Split into chunks to avoid exceeding max parameters (65535): 14 params/row × 500 = 7,000
+  // Split into chunks to avoid exceeding max parameters (65535): 17 params/row × 500 = 8,500
   const CHUNK = 500;
   let inserted = 0;
 
@@ -194,11 +201,12 @@ export async function pgBulkInsertCallLogs(
     const chunk = callLogs.slice(i, i + CHUNK);
     const values: unknown[] = [];
     const placeholders = chunk.map((c, idx) => {
-      const base = idx * 14;
+      const base = idx * 17;
       values.push(
-        c.tenant_id, c.threecx_call_id ?? null,
+        c.tenant_id, pbxInstanceId, c.threecx_call_id ?? null,
         c.caller_number ?? null, c.caller_name ?? null,
         c.callee_number ?? null, c.callee_name ?? null,
+        c.extension ?? null, c.call_group_id ?? null,
         c.direction ?? null, c.call_type ?? null,
         c.status ?? null,
         c.ring_duration_seconds ?? null,
@@ -207,17 +215,17 @@ export async function pgBulkInsertCallLogs(
         c.call_answered_at ?? null,
         c.call_ended_at ?? null
       );
-      return `($${base+1},$${base+2},$${base+3},$${base+4},$${base+5},$${base+6},$${base+7},$${base+8},$${base+9},$${base+10},$${base+11},$${base+12},$${base+13},$${base+14})`;
+      return `($${base+1},$${base+2},$${base+3},$${base+4},$${base+5},$${base+6},$${base+7},$${base+8},$${base+9},$${base+10},$${base+11},$${base+12},$${base+13},$${base+14},$${base+15},$${base+16},$${base+17})`;
     });
 
     const { rowCount } = await pg.query(`
       INSERT INTO call_logs
-        (tenant_id, threecx_call_id, caller_number, caller_name,
-         callee_number, callee_name, direction, call_type,
+        (tenant_id, pbx_instance_id, threecx_call_id, caller_number, caller_name,
+         callee_number, callee_name, extension_number, call_group_id, direction, call_type,
          status, ring_duration_seconds, duration_seconds,
          started_at, answered_at, ended_at)
       VALUES ${placeholders.join(",")}
-      ON CONFLICT (tenant_id, threecx_call_id) DO NOTHING
+      ON CONFLICT (tenant_id, pbx_instance_id, threecx_call_id) DO NOTHING
     `, values);
 
     inserted += rowCount ?? 0;
@@ -236,8 +244,9 @@ export async function pgGetSyncedFilenames(
   const prefix = `${tenantId}/${category}/`;
 
   const { rows } = await pg.query(
-    `SELECT storage_path FROM media_files WHERE tenant_id = $1 AND storage_path LIKE $2`,
-    [tenantId, `${prefix}%`]
+    `SELECT storage_path FROM media_files
+     WHERE tenant_id = $1 AND pbx_instance_id IS NOT DISTINCT FROM $3 AND storage_path LIKE $2`,
+    [tenantId, `${prefix}%`, currentPbxInstanceId()]
   );
 
   const set = new Set<string>();
@@ -11,12 +11,16 @@ import { Upload } from "@aws-sdk/lib-storage";
 import * as path from "path";
 import * as fs from "fs";
 import { Readable } from "stream";
+import { createHash } from "crypto";
 import { logger } from "../utils/logger";
+import { createHashingStream, sha256Hex } from "../utils/integrity";
 import {
   compressMedia,
   CompressionSettings,
   DEFAULT_COMPRESSION_SETTINGS,
 } from "../utils/compression";
+import { agentFileExists, agentUploadBuffer, isAgentTransport } from "./agent-transport";
+import { pbxInstancePathSegment } from "./pbx-instance";
 
 // DO Spaces configuration - lazy-loaded to ensure dotenv.config() has run
 // NOTE: Module-level consts read process.env before dotenv runs in CJS builds
@@ -202,11 +206,15 @@ export function generateStoragePath(
   const baseName = path.basename(filename, path.extname(filename));
   const sanitizedBaseName = sanitizeFilename(baseName);
 
-  return `${tenantId}/${category}/${year}/${month}/${sanitizedBaseName}.${ext}`;
+  return `${tenantId}/${category}/${pbxInstancePathSegment()}${year}/${month}/${sanitizedBaseName}.${ext}`;
 }
 
 // Check if file exists in DO Spaces
 export async function fileExists(storagePath: string): Promise<boolean> {
+  if (isAgentTransport()) {
+    return agentFileExists(storagePath);
+  }
+
   try {
     const client = getSpacesClient();
     await client.send(new HeadObjectCommand({
@@ -228,7 +236,11 @@ export async function uploadBuffer(
   buffer: Buffer,
   storagePath: string,
   contentType: string
-): Promise<{ path: string; size: number }> {
+): Promise<{ path: string; size: number; sha256: string }> {
+  if (isAgentTransport()) {
+    return agentUploadBuffer(buffer, storagePath, contentType);
+  }
+
   const client = getSpacesClient();
 
   try {
@@ -241,7 +253,7 @@ export async function uploadBuffer(
     }));
 
     logger.debug(`Uploaded buffer to DO Spaces: ${storagePath}`);
-    return { path: storagePath, size: buffer.length };
+    return { path: storagePath, size: buffer.length, sha256: sha256Hex(buffer) };
   } catch (error) {
     throw new Error(`Failed to upload buffer to DO Spaces: ${(error as Error).message}`);
   }
@@ -252,7 +264,11 @@ export async function uploadFile(
   localPath: string,
   storagePath: string,
   contentType: string
-): Promise<{ path: string; size: number }> {
+): Promise<{ path: string; size: number; sha256: string }> {
+  if (isAgentTransport()) {
+    return agentUploadBuffer(fs.readFileSync(localPath), storagePath, contentType);
+  }
+
   const client = getSpacesClient();
   const fileContent = fs.readFileSync(localPath);
   const stat = fs.statSync(localPath);
@@ -267,7 +283,7 @@ export async function uploadFile(
     }));
 
     logger.debug(`Uploaded file to DO Spaces: ${storagePath}`);
-    return { path: storagePath, size: stat.size };
+    return { path: storagePath, size: stat.size, sha256: sha256Hex(fileContent) };
   } catch (error) {
     throw new Error(`Failed to upload file to DO Spaces: ${(error as Error).message}`);
   }
@@ -279,15 +295,20 @@ export async function streamUpload(
   storagePath: string,
   contentType: string,
   fileSize?: number
-): Promise<{ path: string; size: number }> {
+): Promise<{ path: string; size: number; sha256: string }> {
   const client = getSpacesClient();
 
+  // Hash the bytes on their way to Spaces so large files are never buffered
+  const hashing = createHashingStream();
+  stream.on("error", (error) => hashing.stream.destroy(error));
+  stream.pipe(hashing.stream);
+
   const upload = new Upload({
     client,
     params: {
       Bucket: SPACES_BUCKET(),
       Key: storagePath,
-      Body: stream,
+      Body: hashing.stream,
       ContentType: contentType,
       ACL: "private",
     },
@@ -306,8 +327,10 @@ export async function streamUpload(
 
   await upload.done();
 
+  const { sha256, size } = hashing.digest();
+
   logger.debug(`Stream uploaded to DO Spaces: ${storagePath}`);
-  return { path: storagePath, size: fileSize || 0 };
+  return { path: storagePath, size: fileSize || size, sha256 };
 }
 
 // Get signed URL for file download
@@ -345,6 +368,38 @@ export async function downloadFile(storagePath: string): Promise<Buffer> {
   return Buffer.concat(chunks);
 }
 
+// Re-hash a stored object without buffering it. Returns null if the object is gone.
+export async function hashObject(storagePath: string): Promise<{ sha256: string; size: number } | null> {
+  const client = getSpacesClient();
+
+  let response;
+  try {
+    response = await client.send(new GetObjectCommand({
+      Bucket: SPACES_BUCKET(),
+      Key: storagePath,
+    }));
+  } catch (error: unknown) {
+    const name = (error as { name?: string }).name;
+    if (name === "NoSuchKey" || name === "NotFound") {
+      return null;
+    }
+    throw error;
+  }
+
+  if (!response.Body) {
+    throw new Error(`Empty response body for: ${storagePath}`);
+  }
+
+  const hash = createHash("sha256");
+  let size = 0;
+  for await (const chunk of response.Body as AsyncIterable<Buffer>) {
+    hash.update(chunk);
+    size += chunk.length;
+  }
+
+  return { sha256: hash.digest("hex"), size };
+}
+
 // Delete file from DO Spaces
 export async function deleteFile(storagePath: string): Promise<void> {
   const client = getSpacesClient();
@@ -404,6 +459,7 @@ export async function uploadBufferWithCompression(
   wasCompressed: boolean;
   newExtension: string;
   newMimeType: string;
+  sha256: string;
 }> {
   // Compress the media
   const compressionResult = await compressMedia(
@@ -449,6 +505,7 @@ export async function uploadBufferWithCompression(
     wasCompressed: compressionResult.wasCompressed,
     newExtension: compressionResult.newExtension,
     newMimeType: compressionResult.newMimeType,
+    sha256: uploadResult.sha256,
   };
 }
 
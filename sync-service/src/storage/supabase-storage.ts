@@ -2,6 +2,8 @@ import { getSupabaseClient } from "./supabase";
 import * as fs from "fs";
 import * as path from "path";
 import { logger } from "../utils/logger";
+import { sha256Hex } from "../utils/integrity";
+import { pbxInstancePathSegment } from "./pbx-instance";
 import {
   compressMedia,
   CompressionResult,
@@ -154,7 +156,7 @@ export function generateStoragePath(
   // Sanitize the filename to remove problematic characters
   const sanitizedBaseName = sanitizeFilename(baseName);
 
-  return `${tenantId}/${category}/${year}/${month}/${sanitizedBaseName}.${ext}`;
+  return `${tenantId}/${category}/${pbxInstancePathSegment()}${year}/${month}/${sanitizedBaseName}.${ext}`;
 }
 
 // Check if file exists in Supabase Storage
@@ -182,7 +184,7 @@ export async function uploadFile(
   localPath: string,
   storagePath: string,
   contentType: string
-): Promise<{ path: string; size: number }> {
+): Promise<{ path: string; size: number; sha256: string }> {
   const supabase = getSupabaseClient();
   const fileContent = fs.readFileSync(localPath);
   const stat = fs.statSync(localPath);
@@ -198,13 +200,13 @@ export async function uploadFile(
     // Check if it's a duplicate error
     if (error.message?.includes("already exists") || error.message?.includes("Duplicate")) {
       logger.debug(`File already exists, skipping: ${storagePath}`);
-      return { path: storagePath, size: stat.size };
+      return { path: storagePath, size: stat.size, sha256: sha256Hex(fileContent) };
     }
     throw new Error(`Failed to upload file to Supabase Storage: ${error.message}`);
   }
 
   logger.debug(`Uploaded file to Supabase Storage: ${storagePath}`);
-  return { path: data.path, size: stat.size };
+  return { path: data.path, size: stat.size, sha256: sha256Hex(fileContent) };
 }
 
 // Upload buffer to Supabase Storage
@@ -212,7 +214,7 @@ export async function uploadBuffer(
   buffer: Buffer,
   storagePath: string,
   contentType: string
-): Promise<{ path: string; size: number }> {
+): Promise<{ path: string; size: number; sha256: string }> {
   const supabase = getSupabaseClient();
 
   const { data, error } = await supabase.storage
@@ -225,13 +227,13 @@ export async function uploadBuffer(
   if (error) {
     if (error.message?.includes("already exists") || error.message?.includes("Duplicate")) {
       logger.debug(`File already exists, skipping: ${storagePath}`);
-      return { path: storagePath, size: buffer.length };
+      return { path: storagePath, size: buffer.length, sha256: sha256Hex(buffer) };
     }
     throw new Error(`Failed to upload buffer to Supabase Storage: ${error.message}`);
   }
 
   logger.debug(`Uploaded buffer to Supabase Storage: ${storagePath}`);
-  return { path: data.path, size: buffer.length };
+  return { path: data.path, size: buffer.length, sha256: sha256Hex(buffer) };
 }
 
 // Get signed URL for file download
@@ -249,6 +251,40 @@ export async function getSignedUrl(storagePath: string, expiresIn = 3600): Promi
   return data.signedUrl;
 }
 
+// Download file from Supabase Storage
+export async function downloadFile(storagePath: string): Promise<Buffer> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase.storage
+    .from(BUCKET_NAME)
+    .download(storagePath);
+
+  if (error || !data) {
+    throw new Error(`Failed to download file: ${error?.message || "empty response"}`);
+  }
+
+  return Buffer.from(await data.arrayBuffer());
+}
+
+// Re-hash a stored object. Returns null if the object is gone.
+export async function hashObject(storagePath: string): Promise<{ sha256: string; size: number } | null> {
+  const supabase = getSupabaseClient();
+
+  const { data, error } = await supabase.storage
+    .from(BUCKET_NAME)
+    .download(storagePath);
+
+  if (error || !data) {
+    if (!(await fileExists(storagePath))) {
+      return null;
+    }
+    throw new Error(`Failed to download file: ${error?.message || "empty response"}`);
+  }
+
+  const buffer = Buffer.from(await data.arrayBuffer());
+  return { sha256: sha256Hex(buffer), size: buffer.length };
+}
+
 // Delete file from Supabase Storage
 export async function deleteFile(storagePath: string): Promise<void> {
   const supabase = getSupabaseClient();
@@ -292,6 +328,7 @@ export async function uploadBufferWithCompression(
   wasCompressed: boolean;
   newExtension: string;
   newMimeType: string;
+  sha256: string;
 }> {
   // Compress the media
   const compressionResult = await compressMedia(
@@ -333,5 +370,6 @@ export async function uploadBufferWithCompression(
     wasCompressed: compressionResult.wasCompressed,
     newExtension: compressionResult.newExtension,
     newMimeType: compressionResult.newMimeType,
+    sha256: uploadResult.sha256,
   };
 }
@@ -7,6 +7,10 @@ import {
   pgBulkInsertCallLogs,
   pgGetSyncedFilenames,
 } from "./postgres";
+import { emitWebhookEvent } from "./webhooks";
+import { agentGetSyncCursor, agentIngest, isAgentTransport } from "./agent-transport";
+import { currentPbxInstanceId } from "./pbx-instance";
+import type { SyncGate, SyncGateState } from "../sync/gating";
 
 let supabase: SupabaseClient | null = null;
 
@@ -69,14 +73,15 @@ export async function upsertConversation(conversation: {
 
   if (conversation.tenant_id) {
     insertData.tenant_id = conversation.tenant_id;
+    insertData.pbx_instance_id = currentPbxInstanceId();
   }
 
-  // Use correct column order to match the unique index: (tenant_id, threecx_conversation_id)
+  // Use correct column order to match the unique index: (tenant_id, pbx_instance_id, threecx_conversation_id)
   const { data, error } = await client
     .from("conversations")
     .upsert(insertData, {
       onConflict: conversation.tenant_id
-        ? "tenant_id,threecx_conversation_id"
+        ? "tenant_id,pbx_instance_id,threecx_conversation_id"
         : "threecx_conversation_id"
     })
     .select("id")
@@ -167,11 +172,13 @@ export async function upsertParticipant(participant: {
   // Look up the extension UUID by extension_number + tenant_id
   let extensionId: string | null = null;
   if (participant.extension_number && participant.tenant_id && participant.participant_type !== "external") {
+    const pbxInstanceId = currentPbxInstanceId();
     const { data: ext } = await client
       .from("extensions")
       .select("id")
       .eq("extension_number", participant.extension_number)
       .eq("tenant_id", participant.tenant_id)
+      .filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId)
       .single();
 
     extensionId = ext?.id || null;
@@ -214,7 +221,8 @@ export async function upsertParticipant(participant: {
   }
 }
 
-// Insert message — single direct Postgres INSERT ON CONFLICT DO NOTHING (no pre-check needed)
+// Insert message — single direct Postgres INSERT ON CONFLICT DO NOTHING (no pre-check needed).
+// content_sha256 is derived from the archived fields inside pgBulkInsertMessages.
 export async function insertMessage(message: {
   conversation_id: string;
   threecx_message_id: string;
@@ -238,6 +246,22 @@ export async function insertMessage(message: {
     sent_at: message.sent_at,
     tenant_id: message.tenant_id,
   }]);
+
+  // Only newly inserted rows come back, so re-synced messages aren't announced again
+  if (ids[0]) {
+    await emitWebhookEvent(message.tenant_id, "message.created", ids[0], {
+      message_id: ids[0],
+      conversation_id: message.conversation_id,
+      threecx_message_id: message.threecx_message_id,
+      sender_extension: message.sender_extension ?? null,
+      sender_name: message.sender_name ?? null,
+      message_text: message.message_text ?? null,
+      message_type: message.message_type || "text",
+      has_media: message.has_media || false,
+      sent_at: message.sent_at,
+    });
+  }
+
   return ids[0] ?? null;
 }
 
@@ -300,12 +324,14 @@ export async function upsertExtension(extension: {
   // Check if extension already exists with different name
   let nameChanged = false;
   let extensionId: string | null = null;
+  const pbxInstanceId = currentPbxInstanceId();
 
   if (extension.tenant_id) {
     const { data: existing } = await client
       .from("extensions")
       .select("id, display_name, first_name, last_name")
       .eq("tenant_id", extension.tenant_id)
+      .filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId)
       .eq("extension_number", extension.extension_number)
       .single();
 
@@ -340,12 +366,13 @@ export async function upsertExtension(extension: {
 
   if (extension.tenant_id) {
     insertData.tenant_id = extension.tenant_id;
+    insertData.pbx_instance_id = pbxInstanceId;
   }
 
-  // Use correct column order to match the unique index: (tenant_id, extension_number)
+  // Use correct column order to match the unique index: (tenant_id, pbx_instance_id, extension_number)
   const { data, error } = await client.from("extensions").upsert(insertData, {
     onConflict: extension.tenant_id
-      ? "tenant_id,extension_number"
+      ? "tenant_id,pbx_instance_id,extension_number"
       : "extension_number",
   }).select("id").single();
 
@@ -353,7 +380,7 @@ export async function upsertExtension(extension: {
     logger.warn("Failed to upsert extension", {
       error,
       extension,
-      onConflict: extension.tenant_id ? "tenant_id,extension_number" : "extension_number"
+      onConflict: extension.tenant_id ? "tenant_id,pbx_instance_id,extension_number" : "extension_number"
     });
     throw new Error(`Failed to upsert extension ${extension.extension_number}: ${error.message}`);
   }
@@ -438,7 +465,8 @@ export async function refreshAllParticipantNames(
     .select("id, extension_number, display_name, first_name, last_name");
 
   if (tenantId) {
-    extQuery = extQuery.eq("tenant_id", tenantId);
+    const pbxInstanceId = currentPbxInstanceId();
+    extQuery = extQuery.eq("tenant_id", tenantId).filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId);
   }
 
   const { data: extensions, error: extError } = await extQuery;
@@ -531,7 +559,8 @@ export async function mergeDuplicateConversations(
     .eq("is_group_chat", false);
 
   if (tenantId) {
-    convQuery = convQuery.eq("tenant_id", tenantId);
+    const pbxInstanceId = currentPbxInstanceId();
+    convQuery = convQuery.eq("tenant_id", tenantId).filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId);
   }
 
   const { data: conversations, error: convError } = await convQuery;
@@ -693,7 +722,8 @@ export async function getConversationId(
     .eq("threecx_conversation_id", threecxConversationId);
 
   if (tenantId) {
-    query = query.eq("tenant_id", tenantId);
+    const pbxInstanceId = currentPbxInstanceId();
+    query = query.eq("tenant_id", tenantId).filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId);
   }
 
   const { data, error } = await query.single();
@@ -713,10 +743,12 @@ export async function getUnlinkedMediaCount(
   tenantId: string
 ): Promise<number> {
   const client = getSupabaseClient();
+  const pbxInstanceId = currentPbxInstanceId();
   const { count, error } = await client
     .from("media_files")
     .select("id", { count: "exact", head: true })
     .eq("tenant_id", tenantId)
+    .filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId)
     .is("message_id", null);
 
   if (error) {
@@ -734,6 +766,7 @@ export async function getMessagesByThreecxIds(
   if (threecxIds.length === 0) return [];
 
   const client = getSupabaseClient();
+  const pbxInstanceId = currentPbxInstanceId();
   const results: Array<{ threecx_message_id: string; id: string; conversation_id: string }> = [];
 
   // Query in batches of 100 to avoid URL length limits
@@ -743,6 +776,7 @@ export async function getMessagesByThreecxIds(
       .from("messages")
       .select("id, threecx_message_id, conversation_id")
       .eq("tenant_id", tenantId)
+      .filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId)
       .in("threecx_message_id", batch);
 
     if (error) {
@@ -771,8 +805,6 @@ export async function updateSyncStatus(
     tenantId?: string;
   }
 ): Promise<void> {
-  const client = getSupabaseClient();
-
   if (!details?.tenantId) {
     logger.error("updateSyncStatus requires tenantId");
     return;
@@ -812,16 +844,37 @@ export async function updateSyncStatus(
     record.notes = details.notes;
   }
 
+  // The ingest API emits sync.failed itself
+  if (isAgentTransport()) {
+    try {
+      await agentIngest("sync_status", [record]);
+    } catch (error) {
+      logger.error("Failed to update sync status", { error: (error as Error).message, syncType, tenantId: details.tenantId });
+    }
+    return;
+  }
+
+  const client = getSupabaseClient();
+  record.pbx_instance_id = currentPbxInstanceId();
+
   // Use upsert to create record if it doesn't exist
   const { error } = await client
     .from("sync_status")
     .upsert(record, {
-      onConflict: "tenant_id,sync_type",
+      onConflict: "tenant_id,pbx_instance_id,sync_type",
     });
 
   if (error) {
     logger.error("Failed to update sync status", { error, syncType, tenantId: details.tenantId });
   }
+
+  if (status === "error") {
+    await emitWebhookEvent(details.tenantId, "sync.failed", null, {
+      sync_type: syncType,
+      error: details.errorMessage ?? null,
+      failed_at: now,
+    });
+  }
 }
 
 // Get last synced message timestamp for incremental sync
@@ -829,19 +882,31 @@ export async function getLastSyncedTimestamp(
   syncType: string,
   tenantId?: string
 ): Promise<Date | null> {
-  const client = getSupabaseClient();
-
   if (!tenantId) {
     logger.warn("getLastSyncedTimestamp called without tenantId");
     return null;
   }
 
+  if (isAgentTransport()) {
+    try {
+      return await agentGetSyncCursor(syncType);
+    } catch (error) {
+      // Same as a missing cursor: re-scan rather than stall the sync
+      logger.warn("Failed to read sync cursor", { error: (error as Error).message, syncType });
+      return null;
+    }
+  }
+
+  const client = getSupabaseClient();
+  const pbxInstanceId = currentPbxInstanceId();
+
   // Query for the last_synced_message_at which tracks the actual message timestamp
   const { data, error } = await client
     .from("sync_status")
     .select("last_synced_message_at")
     .eq("sync_type", syncType)
     .eq("tenant_id", tenantId)
+    .filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId)
     .single();
 
   if (error || !data?.last_synced_message_at) {
@@ -852,6 +917,35 @@ export async function getLastSyncedTimestamp(
   return new Date(data.last_synced_message_at);
 }
 
+// Rewind a sync cursor (agent resync command); null starts the sync type over
+export async function resetSyncCursor(
+  syncType: string,
+  tenantId: string,
+  since: string | null
+): Promise<void> {
+  const record = {
+    tenant_id: tenantId,
+    sync_type: syncType,
+    status: "idle",
+    last_synced_message_at: since,
+    updated_at: new Date().toISOString(),
+  };
+
+  if (isAgentTransport()) {
+    await agentIngest("sync_status", [record]);
+    return;
+  }
+
+  const client = getSupabaseClient();
+  const { error } = await client
+    .from("sync_status")
+    .upsert({ ...record, pbx_instance_id: currentPbxInstanceId() }, { onConflict: "tenant_id,pbx_instance_id,sync_type" });
+
+  if (error) {
+    throw new SupabaseError("Failed to reset sync cursor", { error, syncType });
+  }
+}
+
 // Create sync log entry
 export async function createSyncLog(log: {
   sync_type: string;
@@ -865,6 +959,7 @@ export async function createSyncLog(log: {
     .from("sync_logs")
     .insert({
       tenant_id: log.tenant_id,
+      pbx_instance_id: currentPbxInstanceId(),
       sync_type: log.sync_type,
       status: log.status || "running",
       message: "Sync started",
@@ -934,6 +1029,7 @@ export async function insertCallRecording(recording: {
   tenant_id: string;
   threecx_recording_id?: string;
   threecx_call_id?: string;
+  call_group_id?: string; // 3CX call id of the recorded call, for CDR linking
   caller_number?: string;
   caller_name?: string;
   callee_number?: string;
@@ -950,13 +1046,14 @@ export async function insertCallRecording(recording: {
   call_ended_at?: string;
   recorded_at: string;
   storage_backend?: string; // 'supabase' or 'spaces'
+  content_sha256?: string; // SHA-256 of the stored object
 }): Promise<string> {
-  const client = getSupabaseClient();
-
   // Map to actual database column names (matching actual Supabase table)
   const dbRecord = {
     tenant_id: recording.tenant_id,
     threecx_call_id: recording.threecx_recording_id || recording.threecx_call_id,
+    call_group_id: recording.call_group_id,
+    extension_number: recording.extension,
     file_name: recording.original_filename || "recording.wav",
     file_size: recording.file_size,
     storage_path: recording.storage_path,
@@ -969,12 +1066,21 @@ export async function insertCallRecording(recording: {
     started_at: recording.recorded_at || recording.call_started_at || new Date().toISOString(),
     ended_at: recording.call_ended_at,
     storage_backend: recording.storage_backend || "spaces",
+    content_sha256: recording.content_sha256,
   };
 
+  if (isAgentTransport()) {
+    const { ids } = await agentIngest("call_recordings", [dbRecord]);
+    return ids[dbRecord.threecx_call_id ?? ""] || "";
+  }
+
+  const client = getSupabaseClient();
+  const pbxInstanceId = currentPbxInstanceId();
+
   const { data, error } = await client
     .from("call_recordings")
-    .upsert(dbRecord, {
-      onConflict: "tenant_id,threecx_call_id",
+    .upsert({ ...dbRecord, pbx_instance_id: pbxInstanceId }, {
+      onConflict: "tenant_id,pbx_instance_id,threecx_call_id",
       ignoreDuplicates: true,
     })
     .select("id")
@@ -987,6 +1093,7 @@ export async function insertCallRecording(recording: {
         .from("call_recordings")
         .select("id")
         .eq("tenant_id", recording.tenant_id)
+        .filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId)
         .eq("threecx_call_id", dbRecord.threecx_call_id)
         .single();
       return existing?.id || "";
@@ -1002,17 +1109,34 @@ export async function insertCallRecording(recording: {
     throw new SupabaseError("Failed to insert call recording", { error });
   }
 
+  if (data?.id) {
+    await emitWebhookEvent(recording.tenant_id, "recording.archived", data.id, {
+      recording_id: data.id,
+      threecx_call_id: dbRecord.threecx_call_id ?? null,
+      caller_number: recording.caller_number ?? null,
+      caller_name: recording.caller_name ?? null,
+      callee_number: recording.callee_number ?? null,
+      callee_name: recording.callee_name ?? null,
+      direction: recording.direction ?? null,
+      duration_seconds: recording.duration_seconds ?? null,
+      file_size: recording.file_size,
+      started_at: dbRecord.started_at,
+    });
+  }
+
   return data?.id || "";
 }
 
 // Check if a recording already exists in database
 export async function recordingExists(tenantId: string, recordingId: string): Promise<boolean> {
   const client = getSupabaseClient();
+  const pbxInstanceId = currentPbxInstanceId();
 
   const { count, error } = await client
     .from("call_recordings")
     .select("*", { count: "exact", head: true })
     .eq("tenant_id", tenantId)
+    .filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId)
     .eq("threecx_call_id", recordingId);
 
   if (error) {
@@ -1024,7 +1148,14 @@ export async function recordingExists(tenantId: string, recordingId: string): Pr
 
 // Check if a voicemail already exists in database by wav_file name
 export async function voicemailExists(tenantId: string, wavFile: string): Promise<boolean> {
+  // Agents cannot read the archive; the voicemail sync falls back to the
+  // storage check and the ingest upsert is idempotent
+  if (isAgentTransport()) {
+    return false;
+  }
+
   const client = getSupabaseClient();
+  const pbxInstanceId = currentPbxInstanceId();
 
   // Match on threecx_voicemail_id (now set to wav_file) OR file_name to catch legacy rows
   const fileName = wavFile.endsWith(".wav") ? wavFile : `${wavFile}.wav`;
@@ -1033,6 +1164,7 @@ export async function voicemailExists(tenantId: string, wavFile: string): Promis
     .from("voicemails")
     .select("*", { count: "exact", head: true })
     .eq("tenant_id", tenantId)
+    .filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId)
     .or(`threecx_voicemail_id.eq.${wavFile},file_name.eq.${fileName}`);
 
   if (error) {
@@ -1060,8 +1192,30 @@ export async function insertVoicemail(voicemail: {
   transcription?: string;
   received_at: string;
   storage_backend?: string; // 'supabase' or 'spaces'
+  content_sha256?: string; // SHA-256 of the stored object
 }): Promise<string> {
+  // The ingest API resolves the extension number itself
+  if (isAgentTransport()) {
+    const { ids } = await agentIngest("voicemails", [{
+      threecx_voicemail_id: voicemail.threecx_voicemail_id,
+      extension_number: voicemail.extension,
+      file_name: voicemail.original_filename || "voicemail.wav",
+      file_size: voicemail.file_size,
+      storage_path: voicemail.storage_path,
+      caller_number: voicemail.caller_number,
+      caller_name: voicemail.caller_name,
+      duration_seconds: voicemail.duration_seconds,
+      is_read: voicemail.is_read ?? false,
+      transcription: voicemail.transcription,
+      received_at: voicemail.received_at,
+      storage_backend: voicemail.storage_backend || "spaces",
+      content_sha256: voicemail.content_sha256,
+    }]);
+    return ids[voicemail.threecx_voicemail_id ?? ""] || "";
+  }
+
   const client = getSupabaseClient();
+  const pbxInstanceId = currentPbxInstanceId();
 
   // Look up extension UUID by extension number
   let extensionId: string | null = null;
@@ -1071,6 +1225,7 @@ export async function insertVoicemail(voicemail: {
       .select("id")
       .eq("extension_number", voicemail.extension)
       .eq("tenant_id", voicemail.tenant_id)
+      .filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId)
       .single();
     extensionId = ext?.id || null;
   }
@@ -1078,6 +1233,7 @@ export async function insertVoicemail(voicemail: {
   // Map to actual database column names (matching actual Supabase table)
   const dbRecord = {
     tenant_id: voicemail.tenant_id,
+    pbx_instance_id: pbxInstanceId,
     threecx_voicemail_id: voicemail.threecx_voicemail_id,
     extension_id: extensionId,
     file_name: voicemail.original_filename || "voicemail.wav",
@@ -1090,12 +1246,13 @@ export async function insertVoicemail(voicemail: {
     transcription: voicemail.transcription,
     received_at: voicemail.received_at,
     storage_backend: voicemail.storage_backend || "spaces",
+    content_sha256: voicemail.content_sha256,
   };
 
   const { data, error } = await client
     .from("voicemails")
     .upsert(dbRecord, {
-      onConflict: "tenant_id,threecx_voicemail_id",
+      onConflict: "tenant_id,pbx_instance_id,threecx_voicemail_id",
       ignoreDuplicates: false,
     })
     .select("id")
@@ -1107,6 +1264,7 @@ export async function insertVoicemail(voicemail: {
         .from("voicemails")
         .select("id")
         .eq("tenant_id", voicemail.tenant_id)
+        .filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId)
         .eq("threecx_voicemail_id", voicemail.threecx_voicemail_id)
         .single();
       return existing?.id || "";
@@ -1122,6 +1280,20 @@ export async function insertVoicemail(voicemail: {
     throw new SupabaseError("Failed to insert voicemail", { error });
   }
 
+  if (data?.id) {
+    await emitWebhookEvent(voicemail.tenant_id, "voicemail.received", data.id, {
+      voicemail_id: data.id,
+      threecx_voicemail_id: voicemail.threecx_voicemail_id ?? null,
+      extension: voicemail.extension,
+      caller_number: voicemail.caller_number ?? null,
+      caller_name: voicemail.caller_name ?? null,
+      duration_seconds: voicemail.duration_seconds ?? null,
+      transcription: voicemail.transcription ?? null,
+      file_size: voicemail.file_size,
+      received_at: voicemail.received_at,
+    });
+  }
+
   return data?.id || "";
 }
 
@@ -1129,6 +1301,31 @@ export async function insertVoicemail(voicemail: {
 // FAXES
 // ============================================
 
+// Check if a fax file is already archived (threecx_fax_id is the filename)
+export async function faxExists(tenantId: string, filename: string): Promise<boolean> {
+  // Agents cannot read the archive; the fax sync falls back to the storage
+  // check and the ingest upsert is idempotent
+  if (isAgentTransport()) {
+    return false;
+  }
+
+  const client = getSupabaseClient();
+  const pbxInstanceId = currentPbxInstanceId();
+
+  const { count, error } = await client
+    .from("faxes")
+    .select("*", { count: "exact", head: true })
+    .eq("tenant_id", tenantId)
+    .filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId)
+    .eq("threecx_fax_id", filename);
+
+  if (error) {
+    return false;
+  }
+
+  return (count || 0) > 0;
+}
+
 export async function insertFax(fax: {
   tenant_id: string;
   threecx_fax_id?: string;
@@ -1145,13 +1342,20 @@ export async function insertFax(fax: {
   status?: string;
   fax_time: string;
   storage_backend?: string; // 'supabase' or 'spaces'
+  content_sha256?: string; // SHA-256 of the stored object
 }): Promise<string> {
+  if (isAgentTransport()) {
+    const { ids } = await agentIngest("faxes", [fax]);
+    return ids[fax.threecx_fax_id ?? ""] || "";
+  }
+
   const client = getSupabaseClient();
+  const pbxInstanceId = currentPbxInstanceId();
 
   const { data, error } = await client
     .from("faxes")
-    .upsert(fax, {
-      onConflict: "tenant_id,threecx_fax_id",
+    .upsert({ ...fax, pbx_instance_id: pbxInstanceId }, {
+      onConflict: "tenant_id,pbx_instance_id,threecx_fax_id",
       ignoreDuplicates: true,
     })
     .select("id")
@@ -1163,6 +1367,7 @@ export async function insertFax(fax: {
         .from("faxes")
         .select("id")
         .eq("tenant_id", fax.tenant_id)
+        .filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId)
         .eq("threecx_fax_id", fax.threecx_fax_id)
         .single();
       return existing?.id || "";
@@ -1170,6 +1375,20 @@ export async function insertFax(fax: {
     throw new SupabaseError("Failed to insert fax", { error });
   }
 
+  // Sent faxes are archived too, but only incoming ones are announced
+  if (data?.id && fax.direction !== "outbound") {
+    await emitWebhookEvent(fax.tenant_id, "fax.received", data.id, {
+      fax_id: data.id,
+      threecx_fax_id: fax.threecx_fax_id ?? null,
+      extension: fax.extension ?? null,
+      remote_number: fax.remote_number ?? null,
+      remote_name: fax.remote_name ?? null,
+      page_count: fax.page_count ?? null,
+      file_size: fax.file_size,
+      fax_time: fax.fax_time,
+    });
+  }
+
   return data?.id || "";
 }
 
@@ -1187,6 +1406,10 @@ export async function bulkUpsertConversations(
   if (conversations.length === 0) return;
   const withTenant = conversations.filter((c) => c.tenant_id) as Array<typeof conversations[0] & { tenant_id: string }>;
   if (withTenant.length === 0) return;
+  if (isAgentTransport()) {
+    await agentIngest("conversations", withTenant);
+    return;
+  }
   await pgBulkUpsertConversations(withTenant);
 }
 
@@ -1197,6 +1420,7 @@ export async function bulkUpsertConversations(
 export async function insertCallLog(callLog: {
   tenant_id: string;
   threecx_call_id?: string;
+  call_group_id?: string;
   caller_number?: string;
   caller_name?: string;
   callee_number?: string;
@@ -1222,10 +1446,12 @@ export async function insertCallLog(callLog: {
   const dbRecord = {
     tenant_id: callLog.tenant_id,
     threecx_call_id: callLog.threecx_call_id,
+    call_group_id: callLog.call_group_id,
     caller_number: callLog.caller_number,
     caller_name: callLog.caller_name,
     callee_number: callLog.callee_number,
     callee_name: callLog.callee_name,
+    extension_number: callLog.extension,
     direction: callLog.direction,
     call_type: callLog.call_type,
     status: callLog.status,
@@ -1239,8 +1465,8 @@ export async function insertCallLog(callLog: {
 
   const { data, error } = await client
     .from("call_logs")
-    .upsert(dbRecord, {
-      onConflict: "tenant_id,threecx_call_id",
+    .upsert({ ...dbRecord, pbx_instance_id: currentPbxInstanceId() }, {
+      onConflict: "tenant_id,pbx_instance_id,threecx_call_id",
       ignoreDuplicates: true,
     })
     .select("id")
@@ -1262,6 +1488,26 @@ export async function insertCallLog(callLog: {
 export async function bulkInsertCallLogs(
   callLogs: Array<Parameters<typeof insertCallLog>[0]>
 ): Promise<{ inserted: number; skipped: number }> {
+  if (isAgentTransport()) {
+    const { written } = await agentIngest("call_logs", callLogs.map((callLog) => ({
+      threecx_call_id: callLog.threecx_call_id,
+      call_group_id: callLog.call_group_id,
+      caller_number: callLog.caller_number,
+      caller_name: callLog.caller_name,
+      callee_number: callLog.callee_number,
+      callee_name: callLog.callee_name,
+      extension_number: callLog.extension,
+      direction: callLog.direction,
+      call_type: callLog.call_type,
+      status: callLog.status,
+      ring_duration_seconds: callLog.ring_duration_seconds,
+      duration_seconds: callLog.total_duration_seconds || callLog.talk_duration_seconds,
+      started_at: callLog.call_started_at,
+      answered_at: callLog.call_answered_at,
+      ended_at: callLog.call_ended_at,
+    })));
+    return { inserted: written, skipped: callLogs.length - written };
+  }
   return pgBulkInsertCallLogs(callLogs);
 }
 
@@ -1290,13 +1536,20 @@ export async function insertMeetingRecording(meeting: {
   meeting_ended_at?: string;
   recorded_at: string;
   storage_backend?: string; // 'supabase' or 'spaces'
+  content_sha256?: string; // SHA-256 of the stored object
 }): Promise<string> {
+  if (isAgentTransport()) {
+    const { ids } = await agentIngest("meeting_recordings", [meeting]);
+    return ids[meeting.threecx_meeting_id ?? ""] || "";
+  }
+
   const client = getSupabaseClient();
+  const pbxInstanceId = currentPbxInstanceId();
 
   const { data, error } = await client
     .from("meeting_recordings")
-    .upsert(meeting, {
-      onConflict: "tenant_id,threecx_meeting_id",
+    .upsert({ ...meeting, pbx_instance_id: pbxInstanceId }, {
+      onConflict: "tenant_id,pbx_instance_id,threecx_meeting_id",
       ignoreDuplicates: true,
     })
     .select("id")
@@ -1308,6 +1561,7 @@ export async function insertMeetingRecording(meeting: {
         .from("meeting_recordings")
         .select("id")
         .eq("tenant_id", meeting.tenant_id)
+        .filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId)
         .eq("threecx_meeting_id", meeting.threecx_meeting_id)
         .single();
       return existing?.id || "";
@@ -1334,6 +1588,7 @@ export async function insertMediaFileNew(media: {
   storage_path: string;
   thumbnail_path?: string;
   storage_backend?: string; // 'supabase' or 'spaces'
+  content_sha256?: string; // SHA-256 of the stored object
 }): Promise<string> {
   const client = getSupabaseClient();
 
@@ -1363,6 +1618,7 @@ export async function insertMediaFileNew(media: {
 
   const insertData: Record<string, unknown> = {
     tenant_id: media.tenant_id,
+    pbx_instance_id: currentPbxInstanceId(),
     storage_path: media.storage_path,
     mime_type: media.mime_type,
     file_size: media.file_size,
@@ -1370,6 +1626,10 @@ export async function insertMediaFileNew(media: {
     storage_backend: media.storage_backend || "spaces",
   };
 
+  if (media.content_sha256) {
+    insertData.content_sha256 = media.content_sha256;
+  }
+
   // Optional fields
   if (media.message_id) {
     insertData.message_id = media.message_id;
@@ -1420,11 +1680,13 @@ export async function linkMediaToMessage(
   // Find media file by hash — try with extension first, then without
   // Use two eq checks instead of ilike to use the btree index on (tenant_id, file_name)
   const hashWithoutExt = internalFileName.replace(/\.[^/.]+$/, "");
+  const pbxInstanceId = currentPbxInstanceId();
 
   const { data: mediaFiles, error: findError } = await client
     .from("media_files")
     .select("id, file_name")
     .eq("tenant_id", tenantId)
+    .filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId)
     .or(`file_name.eq.${internalFileName},file_name.eq.${hashWithoutExt}`);
 
   if (findError) {
@@ -1491,6 +1753,7 @@ export async function linkMediaByFilename(
 ): Promise<boolean> {
   const client = getSupabaseClient();
   const filename = messageContent.trim();
+  const pbxInstanceId = currentPbxInstanceId();
 
   if (!filename) return false;
 
@@ -1500,6 +1763,7 @@ export async function linkMediaByFilename(
     .from("media_files")
     .update({ message_id: messageId, conversation_id: conversationId })
     .eq("tenant_id", tenantId)
+    .filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId)
     .ilike("file_name", filename)
     .is("message_id", null)
     .select("id");
@@ -1531,6 +1795,7 @@ export async function linkMediaByFilename(
       .from("media_files")
       .update({ message_id: messageId, conversation_id: conversationId })
       .eq("tenant_id", tenantId)
+      .filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId)
       .ilike("file_name", `${filenameWithoutExt}.%`)
       .is("message_id", null)
       .select("id");
@@ -1558,6 +1823,7 @@ export async function relinkOrphanedMedia(
   const client = getSupabaseClient();
   let linked = 0;
   let checked = 0;
+  const pbxInstanceId = currentPbxInstanceId();
 
   // Find messages that claim to have media but have no linked media_files
   // We check by looking for messages with has_media=true where the content looks like a filename
@@ -1565,6 +1831,7 @@ export async function relinkOrphanedMedia(
     .from("messages")
     .select("id, content, conversation_id")
     .eq("tenant_id", tenantId)
+    .filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId)
     .eq("has_media", true)
     .order("sent_at", { ascending: false })
     .limit(500);
@@ -1688,3 +1955,41 @@ export async function updateTenantLastSync(tenantId: string): Promise<void> {
     logger.error("Failed to update tenant last sync", { error, tenantId });
   }
 }
+
+// Store a tenant's quota/billing sync gate. Returns false if the update failed.
+export async function updateTenantSyncGate(
+  tenant: { id: string; storage_used_bytes: number; storage_limit_bytes: number },
+  previousGate: SyncGate,
+  state: SyncGateState
+): Promise<boolean> {
+  const client = getSupabaseClient();
+  const now = new Date().toISOString();
+
+  const { error } = await client
+    .from("tenants")
+    .update({
+      sync_gate: state.gate,
+      sync_gate_reason: state.reason,
+      sync_gate_since: state.since,
+      sync_gate_updated_at: now,
+    })
+    .eq("id", tenant.id);
+
+  if (error) {
+    logger.error("Failed to update sync gate", { error: error.message, tenantId: tenant.id });
+    return false;
+  }
+
+  if (state.gate !== previousGate && state.gate !== "open") {
+    await emitWebhookEvent(tenant.id, "storage.threshold", null, {
+      sync_gate: state.gate,
+      previous_sync_gate: previousGate,
+      reason: state.reason,
+      storage_used_bytes: tenant.storage_used_bytes,
+      storage_limit_bytes: tenant.storage_limit_bytes,
+      changed_at: now,
+    });
+  }
+
+  return true;
+}
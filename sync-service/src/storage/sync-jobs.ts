@@ -0,0 +1,216 @@
+import { getPgPool } from "./postgres";
+import type { SyncType } from "../sync";
+
+// ============================================
+// SYNC JOB QUEUE
+// ============================================
+// Postgres-backed queue of per-tenant, per-SyncType jobs (see the sync_jobs
+// migration). A tenant with several 3CX systems gets a job per system
+// (pbx_instance_id). Workers lease jobs with FOR UPDATE SKIP LOCKED; the unique
+// "one live job per tenant, system and type" index is what keeps two workers
+// from syncing the same thing at once.
+
+export interface SyncJob {
+  id: string;
+  tenant_id: string;
+  pbx_instance_id: string | null;
+  sync_type: SyncType;
+  priority: number;
+  source: string;
+  attempts: number;
+  max_attempts: number;
+}
+
+export type SyncJobSource = "schedule" | "manual" | "startup";
+
+// Higher runs first. Chat and CDR keep their place ahead of bulk file syncs.
+export const SYNC_JOB_PRIORITY = {
+  background: 0,
+  bulk: 10,
+  fast: 50,
+  manual: 100,
+} as const;
+
+export interface SyncJobCounts {
+  queued: number;
+  running: number;
+  dead: number;
+  oldestQueuedAt: string | null;
+}
+
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 30 * 60_000;
+
+// Exponential backoff: 30s, 1m, 2m, 4m ... capped at 30 minutes
+export function syncJobRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+// Enqueue a job, or bump the one already waiting. Returns the live job's id.
+export async function enqueueSyncJob(
+  tenantId: string,
+  syncType: SyncType,
+  options: { priority?: number; source?: SyncJobSource; pbxInstanceId?: string | null } = {}
+): Promise<string> {
+  const { rows } = await getPgPool().query<{ id: string }>(
+    "SELECT enqueue_sync_job($1, $2, $3, $4, NULL, $5) AS id",
+    [
+      tenantId,
+      syncType,
+      options.priority ?? SYNC_JOB_PRIORITY.background,
+      options.source ?? "schedule",
+      options.pbxInstanceId ?? null,
+    ]
+  );
+  return rows[0].id;
+}
+
+/**
+ * Lease up to `limit` runnable jobs of the given types for this worker.
+ * Jobs another worker is claiming at the same moment are skipped, not waited on.
+ */
+export async function claimSyncJobs(
+  workerId: string,
+  syncTypes: readonly SyncType[],
+  limit: number,
+  leaseMs: number
+): Promise<SyncJob[]> {
+  if (limit <= 0) return [];
+
+  const { rows } = await getPgPool().query<SyncJob>(`
+    UPDATE sync_jobs
+    SET status = 'running',
+        attempts = attempts + 1,
+        locked_by = $1,
+        locked_until = NOW() + ($4 || ' milliseconds')::interval,
+        started_at = NOW(),
+        updated_at = NOW()
+    WHERE id IN (
+      SELECT id FROM sync_jobs
+      WHERE status = 'queued'
+        AND run_after <= NOW()
+        AND sync_type = ANY($2)
+      ORDER BY priority DESC, run_after
+      LIMIT $3
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id, tenant_id, pbx_instance_id, sync_type, priority, source, attempts, max_attempts
+  `, [workerId, syncTypes, limit, String(leaseMs)]);
+
+  return rows;
+}
+
+// Returns true when a manual sync was requested while the job ran; the caller
+// queues another pass
+export async function completeSyncJob(jobId: string, workerId: string): Promise<boolean> {
+  const { rows } = await getPgPool().query<{ rerun_requested: boolean }>(`
+    UPDATE sync_jobs
+    SET status = 'succeeded', finished_at = NOW(), locked_by = NULL, locked_until = NULL,
+        last_error = NULL, updated_at = NOW()
+    WHERE id = $1 AND locked_by = $2 AND status = 'running'
+    RETURNING rerun_requested
+  `, [jobId, workerId]);
+  return rows[0]?.rerun_requested ?? false;
+}
+
+// Push a running job's lease out while the worker is still on it. Never
+// shortens the lease it was claimed with.
+export async function renewSyncJobLease(jobId: string, workerId: string, leaseMs: number): Promise<void> {
+  await getPgPool().query(`
+    UPDATE sync_jobs
+    SET locked_until = GREATEST(locked_until, NOW() + ($3 || ' milliseconds')::interval),
+        updated_at = NOW()
+    WHERE id = $1 AND locked_by = $2 AND status = 'running'
+  `, [jobId, workerId, String(leaseMs)]);
+}
+
+// Retry after a backoff, or dead-letter the job once it is out of attempts.
+// A requested re-run is folded into the retry.
+export async function failSyncJob(job: SyncJob, workerId: string, error: string): Promise<"retry" | "dead"> {
+  const dead = job.attempts >= job.max_attempts;
+
+  await getPgPool().query(`
+    UPDATE sync_jobs
+    SET status = $3,
+        run_after = NOW() + ($4 || ' milliseconds')::interval,
+        finished_at = CASE WHEN $3 = 'dead' THEN NOW() ELSE NULL END,
+        locked_by = NULL, locked_until = NULL, rerun_requested = false,
+        last_error = $5, updated_at = NOW()
+    WHERE id = $1 AND locked_by = $2 AND status = 'running'
+  `, [job.id, workerId, dead ? "dead" : "queued", String(syncJobRetryDelay(job.attempts)), error]);
+
+  return dead ? "dead" : "retry";
+}
+
+/**
+ * Jobs whose lease ran out were abandoned by a worker that crashed or was
+ * restarted mid-sync. Treat that as a failed attempt. Returns how many jobs
+ * were recovered.
+ */
+export async function recoverExpiredSyncJobs(): Promise<number> {
+  const { rowCount } = await getPgPool().query(`
+    UPDATE sync_jobs
+    SET status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'queued' END,
+        finished_at = CASE WHEN attempts >= max_attempts THEN NOW() ELSE NULL END,
+        run_after = NOW(),
+        last_error = 'Lease expired - worker stopped before finishing (held by ' || COALESCE(locked_by, 'unknown') || ')',
+        locked_by = NULL, locked_until = NULL, rerun_requested = false, updated_at = NOW()
+    WHERE status = 'running' AND locked_until < NOW()
+  `);
+  return rowCount ?? 0;
+}
+
+// Put a stopping worker's jobs straight back in the queue. The interrupted
+// attempt is not counted against the job.
+export async function releaseSyncJobs(workerId: string): Promise<number> {
+  const { rowCount } = await getPgPool().query(`
+    UPDATE sync_jobs
+    SET status = 'queued', attempts = GREATEST(attempts - 1, 0), run_after = NOW(),
+        locked_by = NULL, locked_until = NULL, rerun_requested = false, updated_at = NOW()
+    WHERE status = 'running' AND locked_by = $1
+  `, [workerId]);
+  return rowCount ?? 0;
+}
+
+// Succeeded jobs are only history; dead jobs are kept longer for inspection
+export async function pruneSyncJobs(succeededDays: number, deadDays: number): Promise<number> {
+  const { rowCount } = await getPgPool().query(`
+    DELETE FROM sync_jobs
+    WHERE (status = 'succeeded' AND finished_at < NOW() - ($1 || ' days')::interval)
+       OR (status = 'dead' AND finished_at < NOW() - ($2 || ' days')::interval)
+  `, [String(succeededDays), String(deadDays)]);
+  return rowCount ?? 0;
+}
+
+// When any tenant last finished a sync of this type (drives idle-mode throttling)
+export async function getLastSyncJobFinishedAt(syncType: SyncType): Promise<Date | null> {
+  const { rows } = await getPgPool().query<{ finished_at: Date | null }>(`
+    SELECT MAX(finished_at) AS finished_at FROM sync_jobs
+    WHERE sync_type = $1 AND status = 'succeeded'
+  `, [syncType]);
+  return rows[0]?.finished_at ?? null;
+}
+
+export async function getSyncJobCounts(): Promise<SyncJobCounts> {
+  const { rows } = await getPgPool().query<{
+    queued: string;
+    running: string;
+    dead: string;
+    oldest_queued_at: Date | null;
+  }>(`
+    SELECT
+      COUNT(*) FILTER (WHERE status = 'queued') AS queued,
+      COUNT(*) FILTER (WHERE status = 'running') AS running,
+      COUNT(*) FILTER (WHERE status = 'dead') AS dead,
+      MIN(created_at) FILTER (WHERE status = 'queued') AS oldest_queued_at
+    FROM sync_jobs
+  `);
+
+  const row = rows[0];
+  return {
+    queued: parseInt(row.queued),
+    running: parseInt(row.running),
+    dead: parseInt(row.dead),
+    oldestQueuedAt: row.oldest_queued_at ? row.oldest_queued_at.toISOString() : null,
+  };
+}
@@ -0,0 +1,210 @@
+import { getPgPool } from "./postgres";
+import { logger } from "../utils/logger";
+import type { RedactionRules } from "../utils/redaction";
+
+// ============================================
+// OUTBOUND WEBHOOKS
+// ============================================
+// Events are recorded by emit_webhook_event (see the webhooks migration),
+// which fans each one out to a delivery per subscribed endpoint. The
+// delivery worker in sync/webhooks.ts leases due deliveries with
+// FOR UPDATE SKIP LOCKED and POSTs them.
+
+export type WebhookEventType =
+  | "message.created"
+  | "voicemail.received"
+  | "fax.received"
+  | "recording.archived"
+  | "sync.failed"
+  | "storage.threshold";
+
+export interface WebhookDelivery {
+  id: string;
+  tenant_id: string;
+  endpoint_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  attempts: number;
+  max_attempts: number;
+  url: string;
+  secret: string;
+  payload: Record<string, unknown>;
+  event_created_at: Date;
+}
+
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 6 * 60 * 60_000;
+
+// Exponential backoff: 30s, 1m, 2m, 4m ... capped at 6 hours
+export function webhookRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+// Which events each tenant has subscribers for, so the hot sync paths can
+// skip the database round trip for events nobody listens to
+const SUBSCRIPTION_CACHE_TTL_MS = 60_000;
+const subscriptionCache: Map<string, { events: Set<string>; fetchedAt: number }> = new Map();
+
+async function getSubscribedEvents(tenantId: string): Promise<Set<string>> {
+  const cached = subscriptionCache.get(tenantId);
+  if (cached && Date.now() - cached.fetchedAt < SUBSCRIPTION_CACHE_TTL_MS) {
+    return cached.events;
+  }
+
+  const { rows } = await getPgPool().query<{ event_type: string }>(`
+    SELECT DISTINCT unnest(events) AS event_type
+    FROM webhook_endpoints
+    WHERE tenant_id = $1 AND is_active
+  `, [tenantId]);
+
+  const events = new Set(rows.map((r) => r.event_type));
+  subscriptionCache.set(tenantId, { events, fetchedAt: Date.now() });
+  return events;
+}
+
+// Tenants that have saved redaction settings get redacted webhook payloads
+const redactionCache: Map<string, { rules: RedactionRules | null; fetchedAt: number }> = new Map();
+
+export async function getRedactionRules(tenantId: string): Promise<RedactionRules | null> {
+  const cached = redactionCache.get(tenantId);
+  if (cached && Date.now() - cached.fetchedAt < SUBSCRIPTION_CACHE_TTL_MS) {
+    return cached.rules;
+  }
+
+  const { rows } = await getPgPool().query<RedactionRules>(`
+    SELECT presets, custom_patterns, mask_external_numbers
+    FROM redaction_settings
+    WHERE tenant_id = $1
+  `, [tenantId]);
+
+  const rules = rows[0] ?? null;
+  redactionCache.set(tenantId, { rules, fetchedAt: Date.now() });
+  return rules;
+}
+
+/**
+ * Announce an archive event to the tenant's webhook subscribers. Never throws:
+ * a webhook problem must not fail the sync that produced the event.
+ * `resourceId` de-duplicates - the same resource is only announced once per event type.
+ */
+export async function emitWebhookEvent(
+  tenantId: string,
+  eventType: WebhookEventType,
+  resourceId: string | null,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const subscribed = await getSubscribedEvents(tenantId);
+    if (!subscribed.has(eventType)) return;
+
+    await getPgPool().query(
+      "SELECT emit_webhook_event($1, $2, $3, $4)",
+      [tenantId, eventType, resourceId, JSON.stringify(data)]
+    );
+  } catch (error) {
+    logger.warn("Failed to emit webhook event", {
+      tenantId,
+      eventType,
+      error: (error as Error).message,
+    });
+  }
+}
+
+// Lease up to `limit` due deliveries for this worker
+export async function claimWebhookDeliveries(limit: number, leaseMs: number): Promise<WebhookDelivery[]> {
+  const { rows } = await getPgPool().query<WebhookDelivery>(`
+    WITH claimed AS (
+      UPDATE webhook_deliveries
+      SET status = 'delivering',
+          attempts = attempts + 1,
+          locked_until = NOW() + ($2 || ' milliseconds')::interval,
+          updated_at = NOW()
+      WHERE id IN (
+        SELECT id FROM webhook_deliveries
+        WHERE status = 'pending' AND next_attempt_at <= NOW()
+        ORDER BY next_attempt_at
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id, tenant_id, endpoint_id, event_id, event_type, attempts, max_attempts
+    )
+    SELECT c.*, e.url, e.secret, ev.payload, ev.created_at AS event_created_at
+    FROM claimed c
+    JOIN webhook_endpoints e ON e.id = c.endpoint_id
+    JOIN webhook_events ev ON ev.id = c.event_id
+  `, [limit, String(leaseMs)]);
+
+  return rows;
+}
+
+export async function recordWebhookAttempt(
+  delivery: WebhookDelivery,
+  outcome: {
+    ok: boolean;
+    responseStatus: number | null;
+    responseBody: string | null;
+    error: string | null;
+    durationMs: number;
+  }
+): Promise<"succeeded" | "retry" | "failed"> {
+  const status = outcome.ok
+    ? "succeeded"
+    : delivery.attempts >= delivery.max_attempts ? "failed" : "pending";
+
+  await getPgPool().query(`
+    UPDATE webhook_deliveries
+    SET status = $2,
+        next_attempt_at = NOW() + ($3 || ' milliseconds')::interval,
+        locked_until = NULL,
+        response_status = $4,
+        response_body = $5,
+        last_error = $6,
+        duration_ms = $7,
+        delivered_at = CASE WHEN $2 = 'succeeded' THEN NOW() ELSE delivered_at END,
+        updated_at = NOW()
+    WHERE id = $1
+  `, [
+    delivery.id,
+    status,
+    String(webhookRetryDelay(delivery.attempts)),
+    outcome.responseStatus,
+    outcome.responseBody,
+    outcome.error,
+    outcome.durationMs,
+  ]);
+
+  await getPgPool().query(`
+    UPDATE webhook_endpoints
+    SET last_delivery_at = NOW(), last_delivery_status = $2
+    WHERE id = $1
+  `, [delivery.endpoint_id, status === "pending" ? "retrying" : status]);
+
+  return status === "pending" ? "retry" : status;
+}
+
+// A worker that died mid-request leaves its lease behind; try those again
+export async function recoverExpiredWebhookDeliveries(): Promise<number> {
+  const { rowCount } = await getPgPool().query(`
+    UPDATE webhook_deliveries
+    SET status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'pending' END,
+        next_attempt_at = NOW(),
+        locked_until = NULL,
+        last_error = COALESCE(last_error, 'Lease expired - worker stopped before the request finished'),
+        updated_at = NOW()
+    WHERE status = 'delivering' AND locked_until < NOW()
+  `);
+  return rowCount ?? 0;
+}
+
+// Events (and their deliveries) are only a log; keep a month of it
+export async function pruneWebhookEvents(days: number): Promise<number> {
+  const { rowCount } = await getPgPool().query(`
+    DELETE FROM webhook_events
+    WHERE created_at < NOW() - ($1 || ' days')::interval
+      AND NOT EXISTS (
+        SELECT 1 FROM webhook_deliveries d
+        WHERE d.event_id = webhook_events.id AND d.status IN ('pending', 'delivering')
+      )
+  `, [String(days)]);
+  return rowCount ?? 0;
+}
@@ -0,0 +1,358 @@
+import { Pool } from "pg";
+import { logger } from "../utils/logger";
+import { handleError, SupabaseError } from "../utils/errors";
+import { getSupabaseClient } from "../storage/supabase";
+import { runInPbxInstance } from "../storage/pbx-instance";
+import { TenantConfig, getActiveTenants, getTenantPool } from "../tenant";
+import { syncMessages } from "./messages";
+import { syncMedia } from "./media";
+import { syncCdr } from "./cdr";
+import { syncRecordings } from "./recordings";
+import { syncVoicemails } from "./voicemails";
+import { syncFaxes } from "./faxes";
+import { syncMeetings } from "./meetings";
+import { syncExtensions } from "./extensions";
+import { SyncWindow } from "./window";
+import { evaluateSyncGate, isSyncAllowed } from "./gating";
+import type { SyncType } from "./index";
+
+// ============================================
+// HISTORICAL BACKFILL
+// ============================================
+// A backfill job re-pulls one sync type for a date range without touching the
+// live high-water mark in sync_status. Jobs advance one chunk (chunk_hours of
+// history) per queue tick and save `cursor_at` after every chunk, so they run
+// alongside the regular scheduler at a gentle pace. While a chunk is in flight
+// the job holds a short lease (`locked_until`), renewed as the chunk runs; if
+// the service restarts, the lease expires and the job is picked up again from
+// its last checkpoint.
+
+export interface BackfillJob {
+  id: string;
+  tenant_id: string;
+  sync_type: SyncType;
+  start_at: string;
+  end_at: string;
+  chunk_hours: number;
+  cursor_at: string | null;
+  chunks_completed: number;
+  items_synced: number;
+  item_errors: number;
+  consecutive_failures: number;
+  started_at: string | null;
+}
+
+export interface WindowSyncResult {
+  itemsSynced: number;
+  errors: number;
+  // Set when the page limit stopped the run before the end of the window
+  resumeAt?: Date;
+}
+
+// Types synced from a directory scan rather than a timestamped query. Their
+// regular sync already skips archived files and keeps no high-water mark, so a
+// backfill is a single full scan and the date range does not apply.
+const SCAN_SYNC_TYPES: SyncType[] = ["media", "extensions"];
+
+const BACKFILL_JOB_COLUMNS =
+  "id, tenant_id, sync_type, start_at, end_at, chunk_hours, cursor_at, chunks_completed, items_synced, item_errors, consecutive_failures, started_at";
+
+const HOUR_MS = 3_600_000;
+
+// Safety valve for window paging within one chunk
+const MAX_WINDOW_PAGES = 200;
+
+// A chunk that has not renewed its lease in this long is assumed dead and retried
+const LEASE_MS = 15 * 60_000;
+const LEASE_RENEW_MS = 60_000;
+
+// A job fails after this many chunks in a row throw
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+// Resolve a centrally synced tenant and its 3CX pool. A tenant with several
+// 3CX systems resolves to its primary one (getActiveTenants lists it first).
+export async function findSyncTenant(tenantId: string): Promise<{ tenant: TenantConfig; pool: Pool }> {
+  const tenant = (await getActiveTenants()).find((t) => t.id === tenantId);
+  if (!tenant) {
+    throw new Error("Tenant has no active 3CX connection");
+  }
+
+  const pool = await getTenantPool(tenant);
+  if (!pool) {
+    throw new Error("Failed to create database connection pool via SSH tunnel");
+  }
+
+  return { tenant, pool };
+}
+
+// Whether the tenant backs up this type at all
+function isSyncTypeEnabled(syncType: SyncType, tenant: TenantConfig): boolean {
+  switch (syncType) {
+    case "messages": return tenant.backup_chats;
+    case "media": return tenant.backup_chat_media;
+    case "recordings": return tenant.backup_recordings;
+    case "voicemails": return tenant.backup_voicemails;
+    case "faxes": return tenant.backup_faxes;
+    case "meetings": return tenant.backup_meetings;
+    case "cdr": return tenant.backup_cdr;
+    case "extensions": return true;
+  }
+}
+
+/**
+ * Run the regular sync for one type restricted to a window. Query-based types
+ * page through the window on their returned cursor; file-based types filter
+ * the remote listing by the timestamp in each filename.
+ */
+export async function runWindowSync(
+  syncType: SyncType,
+  tenant: TenantConfig,
+  pool: Pool,
+  window: SyncWindow,
+  onPage?: () => Promise<void>
+): Promise<WindowSyncResult> {
+  switch (syncType) {
+    case "messages": {
+      // Messages page through the whole window themselves
+      const result = await syncMessages(100, pool, tenant.id, window);
+      return { itemsSynced: result.messagesSynced, errors: result.errors.length };
+    }
+    case "faxes": {
+      const result = await syncFaxes(tenant, window);
+      return { itemsSynced: result.filesSynced, errors: result.errors.length };
+    }
+    case "meetings": {
+      const result = await syncMeetings(tenant, window);
+      return { itemsSynced: result.filesSynced, errors: result.errors.length };
+    }
+    case "media": {
+      const result = await syncMedia(tenant);
+      return { itemsSynced: result.filesSynced, errors: result.errors.length };
+    }
+    case "extensions": {
+      const result = await syncExtensions(pool, tenant.id);
+      return { itemsSynced: result.extensionsSynced, errors: result.errors.length };
+    }
+  }
+
+  const total: WindowSyncResult = { itemsSynced: 0, errors: 0 };
+  let start = window.start;
+
+  for (let page = 0; page < MAX_WINDOW_PAGES; page++) {
+    const pageWindow = { ...window, start };
+    const result =
+      syncType === "cdr" ? await syncCdr(pool, tenant.id, pageWindow)
+      : syncType === "recordings" ? await syncRecordings(tenant, pool, pageWindow)
+      : await syncVoicemails(tenant, pool, pageWindow);
+
+    total.itemsSynced += "recordsSynced" in result ? result.recordsSynced : result.filesSynced;
+    total.errors += result.errors.length;
+    if (onPage) await onPage();
+
+    // No timestamp to page on, or 3CX has moved past the window
+    if (!result.cursor) return total;
+    const next = new Date(new Date(result.cursor).getTime() + 1);
+    if (next >= window.end || next <= start) return total;
+    start = next;
+  }
+
+  return { ...total, resumeAt: start };
+}
+
+async function updateJob(jobId: string, updates: Record<string, unknown>): Promise<void> {
+  const client = getSupabaseClient();
+  const { error } = await client
+    .from("backfill_jobs")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", jobId)
+    .eq("status", "running"); // a job cancelled mid-chunk stays cancelled
+
+  if (error) {
+    throw new SupabaseError("Failed to update backfill job", { error });
+  }
+}
+
+// Push the lease out again. Only a job this worker still holds is touched.
+async function renewLease(jobId: string): Promise<void> {
+  await updateJob(jobId, { locked_until: new Date(Date.now() + LEASE_MS).toISOString() });
+}
+
+// Run the next chunk of one claimed job and checkpoint it. Never throws.
+export async function runBackfillChunk(job: BackfillJob): Promise<void> {
+  const startTime = Date.now();
+  const rangeEnd = new Date(job.end_at);
+  const chunkStart = new Date(job.cursor_at || job.start_at);
+  const isScan = SCAN_SYNC_TYPES.includes(job.sync_type);
+  const chunkEnd = isScan
+    ? rangeEnd
+    : new Date(Math.min(chunkStart.getTime() + job.chunk_hours * HOUR_MS, rangeEnd.getTime()));
+
+  logger.info("Backfill chunk started", {
+    jobId: job.id,
+    tenantId: job.tenant_id,
+    syncType: job.sync_type,
+    from: chunkStart.toISOString(),
+    to: chunkEnd.toISOString(),
+  });
+
+  try {
+    const { tenant, pool } = await findSyncTenant(job.tenant_id);
+
+    if (!isSyncTypeEnabled(job.sync_type, tenant)) {
+      throw new Error(`Backup of ${job.sync_type} is disabled for this tenant`);
+    }
+
+    // Over-quota and unpaid tenants wait; the job resumes once the gate opens
+    const gate = evaluateSyncGate(tenant);
+    if (!isSyncAllowed(gate, job.sync_type)) {
+      await updateJob(job.id, { last_error: `Waiting - sync ${gate.gate}: ${gate.reason}`, locked_until: null });
+      logger.info("Backfill chunk deferred by sync gate", {
+        jobId: job.id,
+        tenantId: job.tenant_id,
+        syncType: job.sync_type,
+        gate: gate.gate,
+      });
+      return;
+    }
+
+    // Renew after every page; types that page internally (messages, file
+    // scans) only expose the whole run, so they are kept alive on a timer
+    let lastRenewal = Date.now();
+    const renew = async (): Promise<void> => {
+      if (Date.now() - lastRenewal < LEASE_RENEW_MS) return;
+      lastRenewal = Date.now();
+      await renewLease(job.id).catch((renewError) => {
+        logger.warn("Failed to renew backfill lease", { jobId: job.id, error: (renewError as Error).message });
+      });
+    };
+    const heartbeat = setInterval(() => void renew(), LEASE_RENEW_MS);
+
+    let result: WindowSyncResult;
+    try {
+      result = await runInPbxInstance(tenant.pbx_instance_id, () =>
+        runWindowSync(job.sync_type, tenant, pool, { start: chunkStart, end: chunkEnd }, renew)
+      );
+    } finally {
+      clearInterval(heartbeat);
+    }
+    const cursor = result.resumeAt || chunkEnd;
+    const done = cursor >= rangeEnd;
+    const now = new Date().toISOString();
+
+    await updateJob(job.id, {
+      status: done ? "completed" : "running",
+      cursor_at: cursor.toISOString(),
+      chunks_completed: job.chunks_completed + 1,
+      items_synced: job.items_synced + result.itemsSynced,
+      item_errors: job.item_errors + result.errors,
+      consecutive_failures: 0,
+      last_error: null,
+      locked_until: null,
+      completed_at: done ? now : null,
+    });
+
+    logger.info(done ? "Backfill job completed" : "Backfill chunk completed", {
+      jobId: job.id,
+      tenantId: job.tenant_id,
+      syncType: job.sync_type,
+      synced: result.itemsSynced,
+      errors: result.errors,
+      cursor: cursor.toISOString(),
+      duration: `${Date.now() - startTime}ms`,
+    });
+  } catch (error) {
+    const err = handleError(error);
+    const failures = job.consecutive_failures + 1;
+    const failed = failures >= MAX_CONSECUTIVE_FAILURES;
+
+    logger.error("Backfill chunk failed", {
+      jobId: job.id,
+      tenantId: job.tenant_id,
+      syncType: job.sync_type,
+      attempt: failures,
+      error: err.message,
+    });
+
+    try {
+      // The cursor stays put, so the next tick retries the same chunk
+      await updateJob(job.id, {
+        status: failed ? "failed" : "running",
+        consecutive_failures: failures,
+        last_error: err.message,
+        locked_until: null,
+        completed_at: failed ? new Date().toISOString() : null,
+      });
+    } catch (updateError) {
+      logger.error("Failed to record backfill chunk failure", {
+        jobId: job.id,
+        error: (updateError as Error).message,
+      });
+    }
+  }
+}
+
+// Lease the oldest job that is waiting for its next chunk, skipping jobs
+// already handled this tick. Returns null when there is nothing to do.
+async function claimNextJob(skip: string[]): Promise<BackfillJob | null> {
+  const client = getSupabaseClient();
+  const now = new Date().toISOString();
+  const unlocked = `locked_until.is.null,locked_until.lt.${now}`;
+
+  let query = client
+    .from("backfill_jobs")
+    .select("id, started_at")
+    .in("status", ["queued", "running"])
+    .or(unlocked)
+    .order("created_at", { ascending: true })
+    .limit(1);
+
+  if (skip.length > 0) {
+    query = query.not("id", "in", `(${skip.join(",")})`);
+  }
+
+  const { data: waiting, error } = await query;
+
+  if (error) {
+    throw new SupabaseError("Failed to read backfill queue", { error });
+  }
+  if (!waiting || waiting.length === 0) return null;
+
+  const { data: claimed, error: claimError } = await client
+    .from("backfill_jobs")
+    .update({
+      status: "running",
+      locked_until: new Date(Date.now() + LEASE_MS).toISOString(),
+      started_at: waiting[0].started_at || now,
+      updated_at: now,
+    })
+    .eq("id", waiting[0].id)
+    .in("status", ["queued", "running"])
+    .or(unlocked)
+    .select(BACKFILL_JOB_COLUMNS);
+
+  if (claimError) {
+    throw new SupabaseError("Failed to claim backfill job", { error: claimError });
+  }
+
+  // Another worker got there first - try the next one
+  if (!claimed || claimed.length === 0) {
+    return claimNextJob(skip);
+  }
+  return claimed[0] as BackfillJob;
+}
+
+/**
+ * Advance every waiting backfill job by one chunk. Jobs take turns, so a long
+ * backfill never starves a short one. Returns the number of chunks run.
+ */
+export async function processBackfillQueue(): Promise<number> {
+  const handled: string[] = [];
+
+  let job: BackfillJob | null;
+  while ((job = await claimNextJob(handled))) {
+    handled.push(job.id);
+    await runBackfillChunk(job);
+  }
+
+  return handled.length;
+}
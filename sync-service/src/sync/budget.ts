@@ -0,0 +1,176 @@
+import { logger } from "../utils/logger";
+import { TenantConfig } from "../tenant";
+import type { SyncType } from "./index";
+
+// ============================================
+// PER-TENANT TRANSFER BUDGETS
+// ============================================
+// Caps how much SFTP and Spaces capacity a single tenant can take, so one
+// tenant with a huge recordings backlog cannot starve everyone else. Budgets
+// come from tenants.settings.sync_budget, falling back to the env defaults:
+//   - max concurrent transfers: files in flight for the tenant at once,
+//     shared by every file sync type running in this process
+//   - bytes per minute: rolling one-minute transfer allowance
+//   - max items per cycle: files one sync run transfers before leaving the
+//     rest for the next run
+// Concurrency and bandwidth are tracked per process; with several workers
+// each one enforces the budget on its own share of the queue.
+
+export interface SyncBudget {
+  maxConcurrentTransfers: number;
+  bytesPerMinute: number; // 0 = unlimited
+  maxItemsPerCycle: number; // 0 = unlimited
+}
+
+// Shape stored in tenants.settings.sync_budget (unset = service default)
+export interface TenantSyncBudgetSettings {
+  max_concurrent_transfers?: number | null;
+  bytes_per_minute?: number | null;
+  max_items_per_cycle?: number | null;
+}
+
+export interface TransferCycle {
+  budget: SyncBudget;
+  // Reserve one item from this run's allowance; false once it is used up
+  takeItem(): boolean;
+  // Reserve as many of these items as the allowance covers (logs the rest as deferred)
+  takeItems<T>(items: T[]): T[];
+  // Run one file transfer once a tenant slot and bandwidth are available
+  transfer<T>(fn: () => Promise<T>): Promise<T>;
+  // Count bytes moved against the tenant's per-minute allowance
+  recordBytes(bytes: number): void;
+  // Log that the item allowance stopped the run early
+  logDeferred(remaining: number): void;
+}
+
+interface TenantTransferState {
+  active: number;
+  waiting: Array<() => void>;
+  recent: Array<{ at: number; bytes: number }>;
+}
+
+const BANDWIDTH_WINDOW_MS = 60_000;
+
+const tenantStates: Map<string, TenantTransferState> = new Map();
+
+// NOTE: Read lazily because dotenv.config() runs after module imports
+export function getDefaultSyncBudget(): SyncBudget {
+  return {
+    maxConcurrentTransfers: parseInt(process.env.SYNC_MAX_CONCURRENT_TRANSFERS || "4"),
+    bytesPerMinute: parseInt(process.env.SYNC_BYTES_PER_MINUTE || "0"),
+    maxItemsPerCycle: parseInt(process.env.SYNC_MAX_ITEMS_PER_CYCLE || "0"),
+  };
+}
+
+function positiveOr(value: number | null | undefined, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? Math.floor(value) : fallback;
+}
+
+export function resolveSyncBudget(tenant: TenantConfig): SyncBudget {
+  const defaults = getDefaultSyncBudget();
+  const overrides = tenant.sync_budget;
+
+  return {
+    maxConcurrentTransfers: Math.max(1, positiveOr(overrides?.max_concurrent_transfers, defaults.maxConcurrentTransfers)),
+    bytesPerMinute: positiveOr(overrides?.bytes_per_minute, defaults.bytesPerMinute),
+    maxItemsPerCycle: positiveOr(overrides?.max_items_per_cycle, defaults.maxItemsPerCycle),
+  };
+}
+
+function getTenantState(tenantId: string): TenantTransferState {
+  let state = tenantStates.get(tenantId);
+  if (!state) {
+    state = { active: 0, waiting: [], recent: [] };
+    tenantStates.set(tenantId, state);
+  }
+  return state;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function acquireSlot(state: TenantTransferState, limit: number): Promise<void> {
+  while (state.active >= limit) {
+    await new Promise<void>((resolve) => state.waiting.push(resolve));
+  }
+  state.active++;
+}
+
+function releaseSlot(state: TenantTransferState): void {
+  state.active--;
+  state.waiting.shift()?.();
+}
+
+// Wait until the tenant's last minute of transfers is under its allowance
+async function waitForBandwidth(state: TenantTransferState, bytesPerMinute: number): Promise<void> {
+  if (bytesPerMinute <= 0) return;
+
+  for (;;) {
+    const cutoff = Date.now() - BANDWIDTH_WINDOW_MS;
+    state.recent = state.recent.filter((entry) => entry.at > cutoff);
+
+    const used = state.recent.reduce((sum, entry) => sum + entry.bytes, 0);
+    if (used < bytesPerMinute) return;
+
+    await sleep(state.recent[0].at - cutoff + 50);
+  }
+}
+
+export function startTransferCycle(tenant: TenantConfig, syncType: SyncType): TransferCycle {
+  const budget = resolveSyncBudget(tenant);
+  const state = getTenantState(tenant.id);
+  let itemsTaken = 0;
+
+  const logDeferred = (remaining: number) => {
+    logger.info(`${syncType} sync reached its per-cycle item budget`, {
+      tenantId: tenant.id,
+      transferred: itemsTaken,
+      deferred: remaining,
+      maxItemsPerCycle: budget.maxItemsPerCycle,
+    });
+  };
+
+  return {
+    budget,
+
+    takeItem() {
+      if (budget.maxItemsPerCycle > 0 && itemsTaken >= budget.maxItemsPerCycle) {
+        return false;
+      }
+      itemsTaken++;
+      return true;
+    },
+
+    takeItems<T>(items: T[]): T[] {
+      if (budget.maxItemsPerCycle <= 0) {
+        itemsTaken += items.length;
+        return items;
+      }
+      const allowed = items.slice(0, Math.max(0, budget.maxItemsPerCycle - itemsTaken));
+      itemsTaken += allowed.length;
+      if (allowed.length < items.length) {
+        logDeferred(items.length - allowed.length);
+      }
+      return allowed;
+    },
+
+    async transfer<T>(fn: () => Promise<T>): Promise<T> {
+      await acquireSlot(state, budget.maxConcurrentTransfers);
+      try {
+        await waitForBandwidth(state, budget.bytesPerMinute);
+        return await fn();
+      } finally {
+        releaseSlot(state);
+      }
+    },
+
+    recordBytes(bytes: number) {
+      if (bytes > 0) {
+        state.recent.push({ at: Date.now(), bytes });
+      }
+    },
+
+    logDeferred,
+  };
+}
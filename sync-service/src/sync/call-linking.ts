@@ -0,0 +1,263 @@
+import { logger } from "../utils/logger";
+import { handleError, SupabaseError } from "../utils/errors";
+import { getSupabaseClient } from "../storage/supabase";
+import { currentPbxInstanceId } from "../storage/pbx-instance";
+
+// ============================================
+// CALL RECORDING LINKING
+// ============================================
+// CDR rows and recordings arrive through separate syncs, in either order.
+// After each of them this pass links recordings no CDR leg points at yet to
+// the legs they belong to (call_logs.recording_id):
+//   call_id - the recording carries the 3CX call id (V20): the legs of that
+//             call with the recorded extension, else the legs it overlaps
+//   overlap - legs overlapping the recording that share its extension and
+//             remote number, else the best-overlapping leg of the extension
+// 3CX records a transferred call per extension, so each recording lands on
+// the leg(s) of its own extension. A leg keeps the first recording linked to
+// it. Unmatched recordings are retried until they leave the lookback window.
+// Recordings only link to legs of the same 3CX system.
+
+const DEFAULT_LOOKBACK_HOURS = 48;
+const PAGE_SIZE = 500;
+// Clock skew tolerated between CDR and recording timestamps
+const SKEW_MS = 5_000;
+// Legs start ringing (and queueing) before the recording starts
+const LEG_MARGIN_MS = 30 * 60_000;
+
+export type RecordingMatchMethod = "call_id" | "overlap";
+
+export interface CallLinkResult {
+  checked: number;
+  linked: number; // recordings linked to at least one leg
+  legsLinked: number;
+}
+
+interface RecordingRow {
+  id: string;
+  call_group_id: string | null;
+  extension_number: string | null;
+  caller_number: string | null;
+  callee_number: string | null;
+  started_at: string;
+  ended_at: string | null;
+  duration_seconds: number | null;
+}
+
+interface CallLegRow {
+  id: string;
+  call_group_id: string | null;
+  extension_number: string | null;
+  caller_number: string | null;
+  callee_number: string | null;
+  started_at: string;
+  ended_at: string | null;
+  duration_seconds: number | null;
+  recording_id: string | null;
+}
+
+interface RecordingMatch {
+  legIds: string[];
+  method: RecordingMatchMethod;
+}
+
+function digits(value: string | null): string {
+  return (value || "").replace(/\D/g, "");
+}
+
+// Internal extensions are short digit strings (101, 9001)
+function isExtension(value: string | null): boolean {
+  return /^\d{1,6}$/.test((value || "").trim());
+}
+
+// Extensions compare exactly; external numbers on their last 9 digits, so
+// +1 (813) 555-0100 and 8135550100 agree
+function sameNumber(a: string | null, b: string | null): boolean {
+  const da = digits(a);
+  const db = digits(b);
+  if (!da || !db) return false;
+  if (da.length <= 6 || db.length <= 6) return da === db;
+  return da.slice(-9) === db.slice(-9);
+}
+
+type Span = [number, number];
+
+function span(start: string, end: string | null, durationSeconds: number | null): Span {
+  const from = new Date(start).getTime();
+  const to = end ? new Date(end).getTime() : from + (durationSeconds ?? 0) * 1000;
+  return [from, Math.max(from, to)];
+}
+
+function overlapMs(a: Span, b: Span): number {
+  return Math.min(a[1], b[1] + SKEW_MS) - Math.max(a[0], b[0] - SKEW_MS);
+}
+
+// The recorded extension and the other party. Recordings synced from file
+// names put the extension in caller_number.
+function recordingParties(recording: RecordingRow): { local: string | null; remote: string | null } {
+  const numbers = [recording.caller_number, recording.callee_number];
+  const local = recording.extension_number || numbers.find(isExtension) || null;
+  const remote = numbers.find((n) => !!n && !sameNumber(n, local)) || null;
+  return { local, remote };
+}
+
+function matchRecording(recording: RecordingRow, legs: CallLegRow[]): RecordingMatch | null {
+  const recorded = span(recording.started_at, recording.ended_at, recording.duration_seconds);
+  const { local, remote } = recordingParties(recording);
+
+  const hasLocal = (leg: CallLegRow) =>
+    !!local && [leg.extension_number, leg.caller_number, leg.callee_number].some((n) => sameNumber(n, local));
+  const hasRemote = (leg: CallLegRow) =>
+    !!remote && [leg.caller_number, leg.callee_number].some((n) => sameNumber(n, remote));
+  const overlap = (leg: CallLegRow) => overlapMs(recorded, span(leg.started_at, leg.ended_at, leg.duration_seconds));
+
+  const open = legs.filter((leg) => !leg.recording_id);
+
+  if (recording.call_group_id) {
+    const call = open.filter((leg) => leg.call_group_id === recording.call_group_id);
+    const own = call.filter(hasLocal);
+    const picked = own.length > 0 ? own : call.filter((leg) => overlap(leg) > 0);
+    if (picked.length > 0) {
+      return { legIds: picked.map((leg) => leg.id), method: "call_id" };
+    }
+  }
+
+  const overlapping = open.filter((leg) => overlap(leg) > 0);
+
+  // Every party the recording names agrees (several legs when the call was
+  // held and resumed, or transferred back)
+  const exact = overlapping.filter((leg) =>
+    local && remote ? hasLocal(leg) && hasRemote(leg) : hasLocal(leg) || hasRemote(leg)
+  );
+  if (exact.length > 0) {
+    return { legIds: exact.map((leg) => leg.id), method: "overlap" };
+  }
+
+  // Caller id formats differ between trunks: settle for the extension's
+  // best-overlapping leg
+  const best = overlapping
+    .filter(hasLocal)
+    .sort((a, b) => overlap(b) - overlap(a))[0];
+  return best ? { legIds: [best.id], method: "overlap" } : null;
+}
+
+async function fetchRecordings(
+  tenantId: string,
+  since: string,
+  offset: number
+): Promise<RecordingRow[]> {
+  const pbxInstanceId = currentPbxInstanceId();
+  const { data, error } = await getSupabaseClient()
+    .from("call_recordings")
+    .select("id, call_group_id, extension_number, caller_number, callee_number, started_at, ended_at, duration_seconds")
+    .eq("tenant_id", tenantId)
+    .filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId)
+    .gte("started_at", since)
+    .order("started_at", { ascending: true })
+    .order("id", { ascending: true })
+    .range(offset, offset + PAGE_SIZE - 1);
+
+  if (error) {
+    throw new SupabaseError("Failed to fetch recordings for linking", { error });
+  }
+  return (data || []) as RecordingRow[];
+}
+
+async function fetchLegs(tenantId: string, from: number, to: number): Promise<CallLegRow[]> {
+  const client = getSupabaseClient();
+  const pbxInstanceId = currentPbxInstanceId();
+  const legs: CallLegRow[] = [];
+
+  for (let offset = 0; ; offset += 1000) {
+    const { data, error } = await client
+      .from("call_logs")
+      .select("id, call_group_id, extension_number, caller_number, callee_number, started_at, ended_at, duration_seconds, recording_id")
+      .eq("tenant_id", tenantId)
+      .filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId)
+      .gte("started_at", new Date(from).toISOString())
+      .lte("started_at", new Date(to).toISOString())
+      .order("started_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(offset, offset + 999);
+
+    if (error) {
+      throw new SupabaseError("Failed to fetch call legs for linking", { error });
+    }
+    legs.push(...((data || []) as CallLegRow[]));
+    if (!data || data.length < 1000) break;
+  }
+
+  return legs;
+}
+
+/**
+ * Link recordings from the last `lookbackHours` to their CDR legs. Safe to
+ * run repeatedly: linked recordings and legs are left alone.
+ */
+export async function linkRecordingsToCalls(
+  tenantId: string,
+  lookbackHours: number = DEFAULT_LOOKBACK_HOURS
+): Promise<CallLinkResult> {
+  const result: CallLinkResult = { checked: 0, linked: 0, legsLinked: 0 };
+  const client = getSupabaseClient();
+  const since = new Date(Date.now() - lookbackHours * 3_600_000).toISOString();
+
+  try {
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await fetchRecordings(tenantId, since, offset);
+      if (page.length === 0) break;
+
+      const spans = page.map((r) => span(r.started_at, r.ended_at, r.duration_seconds));
+      const legs = await fetchLegs(
+        tenantId,
+        Math.min(...spans.map((s) => s[0])) - LEG_MARGIN_MS,
+        Math.max(...spans.map((s) => s[1])) + SKEW_MS
+      );
+      const linkedRecordings = new Set(legs.map((leg) => leg.recording_id).filter(Boolean));
+
+      for (const recording of page) {
+        if (linkedRecordings.has(recording.id)) continue;
+        result.checked++;
+
+        const match = matchRecording(recording, legs);
+        if (!match) continue;
+
+        const { data, error } = await client
+          .from("call_logs")
+          .update({
+            recording_id: recording.id,
+            has_recording: true,
+            recording_match: match.method,
+            recording_linked_at: new Date().toISOString(),
+          })
+          .in("id", match.legIds)
+          .is("recording_id", null)
+          .select("id");
+
+        if (error) {
+          logger.warn("Failed to link recording to call", { tenantId, recordingId: recording.id, error: error.message });
+          continue;
+        }
+        if (!data || data.length === 0) continue;
+
+        // Later recordings in this page see these legs as taken
+        for (const leg of legs) {
+          if (match.legIds.includes(leg.id)) leg.recording_id = recording.id;
+        }
+        result.linked++;
+        result.legsLinked += data.length;
+      }
+
+      if (page.length < PAGE_SIZE) break;
+    }
+
+    if (result.linked > 0) {
+      logger.info("Linked recordings to calls", { tenantId, ...result });
+    }
+    return result;
+  } catch (error) {
+    const err = handleError(error);
+    logger.error("Call recording linking failed", { tenantId, error: err.message });
+    throw err;
+  }
+}
@@ -3,16 +3,19 @@ import { logger } from "../utils/logger";
 import { handleError } from "../utils/errors";
 import { getCallRecords } from "../threecx/queries";
 import { bulkInsertCallLogs, updateSyncStatus, getLastSyncedTimestamp } from "../storage/supabase";
+import { SyncWindow, isInSyncWindow, windowSince } from "./window";
 
 export interface CdrSyncResult {
   recordsSynced: number;
   recordsSkipped: number;
   errors: Array<{ callId: string; error: string }>;
+  cursor?: string; // Latest 3CX start time fetched; window runs page on from here
 }
 
 export async function syncCdr(
   pool: Pool,
-  tenantId: string
+  tenantId: string,
+  window?: SyncWindow
 ): Promise<CdrSyncResult> {
   const result: CdrSyncResult = {
     recordsSynced: 0,
@@ -21,11 +24,13 @@ export async function syncCdr(
   };
 
   try {
-    await updateSyncStatus("cdr", "running", { tenantId });
+    if (!window) {
+      await updateSyncStatus("cdr", "running", { tenantId });
+    }
 
-    // Get last sync timestamp to only fetch new records
-    const lastSync = await getLastSyncedTimestamp("cdr", tenantId);
-    const since = lastSync ? new Date(lastSync) : null;
+    // Get last sync timestamp to only fetch new records (window runs start at the window)
+    const lastSync = window ? null : await getLastSyncedTimestamp("cdr", tenantId);
+    const since = window ? windowSince(window) : lastSync ? new Date(lastSync) : null;
 
     logger.info("Fetching CDR records from 3CX", {
       tenantId,
@@ -37,7 +42,9 @@ export async function syncCdr(
 
     if (callRecords.length === 0) {
       logger.info("No new CDR records to sync", { tenantId });
-      await updateSyncStatus("cdr", "success", { recordsSynced: 0, tenantId });
+      if (!window) {
+        await updateSyncStatus("cdr", "success", { recordsSynced: 0, tenantId });
+      }
       return result;
     }
 
@@ -53,11 +60,17 @@ export async function syncCdr(
         latestCallTimestamp = callTs;
       }
     }
+    result.cursor = latestCallTimestamp;
+
+    const records = window
+      ? callRecords.filter((record) => isInSyncWindow(window, record.call_id, record.call_started_at))
+      : callRecords;
 
     // Bulk upsert all records in batches of 100 — 10 requests instead of 1000
-    const logs = callRecords.map((record) => ({
+    const logs = records.map((record) => ({
       tenant_id: tenantId,
       threecx_call_id: record.call_id,
+      call_group_id: record.call_group_id || undefined,
       caller_number: record.caller_number || undefined,
       caller_name: record.caller_name || undefined,
       callee_number: record.callee_number || undefined,
@@ -79,15 +92,19 @@ export async function syncCdr(
       has_recording: record.has_recording,
     }));
 
-    const { inserted, skipped } = await bulkInsertCallLogs(logs);
-    result.recordsSynced = inserted;
-    result.recordsSkipped = skipped;
+    if (logs.length > 0) {
+      const { inserted, skipped } = await bulkInsertCallLogs(logs);
+      result.recordsSynced = inserted;
+      result.recordsSkipped = skipped;
+    }
 
-    await updateSyncStatus("cdr", "success", {
-      recordsSynced: result.recordsSynced,
-      lastSyncedTimestamp: latestCallTimestamp,
-      tenantId,
-    });
+    if (!window) {
+      await updateSyncStatus("cdr", "success", {
+        recordsSynced: result.recordsSynced,
+        lastSyncedTimestamp: latestCallTimestamp,
+        tenantId,
+      });
+    }
 
     logger.info("CDR sync completed", {
       tenantId,
@@ -100,10 +117,12 @@ export async function syncCdr(
   } catch (error) {
     const err = handleError(error);
     logger.error("CDR sync failed", { tenantId, error: err.message });
-    await updateSyncStatus("cdr", "error", {
-      errorMessage: err.message,
-      tenantId,
-    });
+    if (!window) {
+      await updateSyncStatus("cdr", "error", {
+        errorMessage: err.message,
+        tenantId,
+      });
+    }
     throw err;
   }
 }
@@ -0,0 +1,52 @@
+import { Pool } from "pg";
+import { logger } from "../utils/logger";
+import { handleError } from "../utils/errors";
+import { getAllLiveConversations } from "../threecx/queries";
+import { bulkUpsertConversations } from "../storage/supabase";
+
+export interface ConversationSyncResult {
+  conversationsSynced: number;
+  errors: Array<{ conversationId: string; error: string }>;
+}
+
+// Sync all conversations from the live 3CX table, including empty group chats
+// that never show up in the message stream. Participants are added later by
+// the message sync as senders appear.
+export async function syncConversations(
+  pool?: Pool,
+  tenantId?: string
+): Promise<ConversationSyncResult> {
+  const result: ConversationSyncResult = {
+    conversationsSynced: 0,
+    errors: [],
+  };
+
+  try {
+    const liveConversations = await getAllLiveConversations(pool);
+    if (liveConversations.length === 0) {
+      logger.info("No live conversations to sync", { tenantId });
+      return result;
+    }
+
+    // Single bulk upsert instead of one request per conversation
+    await bulkUpsertConversations(
+      liveConversations.map((conv) => ({
+        threecx_conversation_id: conv.conversation_id,
+        conversation_name: conv.chat_name || null,
+        channel_type: "internal",
+        is_external: conv.is_external,
+        is_group_chat: conv.is_group_chat,
+        tenant_id: tenantId,
+      }))
+    );
+
+    result.conversationsSynced = liveConversations.length;
+    logger.info(`Conversations from live table: ${liveConversations.length} upserted`, { tenantId });
+
+    return result;
+  } catch (error) {
+    const err = handleError(error);
+    logger.error("Conversation sync failed", { tenantId, error: err.message });
+    throw err;
+  }
+}
@@ -0,0 +1,719 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { logger } from "../utils/logger";
+import { handleError, SupabaseError } from "../utils/errors";
+import { getSupabaseClient } from "../storage/supabase";
+import {
+  downloadFile as downloadSpacesFile,
+  deleteFile as deleteSpacesFile,
+  streamUpload,
+} from "../storage/spaces-storage";
+import { downloadFile as downloadSupabaseFile } from "../storage/supabase-storage";
+import { createZipWriter, ZipWriter } from "../utils/zip";
+
+// ============================================
+// ARCHIVE EXPORT
+// ============================================
+// Builds the ZIP bundles requested through `export_jobs`: per-type JSON
+// metadata, one HTML transcript per conversation, the original files pulled
+// from storage, and a manifest + SHA256SUMS covering every entry. The archive
+// is written to a temp file, uploaded to Spaces and referenced from the job
+// row; the web app hands out short-lived signed links to it.
+
+export type ExportDataType =
+  | "messages"
+  | "call_logs"
+  | "recordings"
+  | "voicemails"
+  | "faxes"
+  | "meetings"
+  | "media";
+
+interface ExportTarget {
+  table: string;
+  dateColumn: string;
+  folder: string;
+  hasFiles: boolean;
+}
+
+// Table + date column per data type (same columns retention filters on)
+const EXPORT_TARGETS: Record<ExportDataType, ExportTarget> = {
+  messages: { table: "messages", dateColumn: "sent_at", folder: "messages", hasFiles: false },
+  call_logs: { table: "call_logs", dateColumn: "started_at", folder: "call_logs", hasFiles: false },
+  recordings: { table: "call_recordings", dateColumn: "started_at", folder: "recordings", hasFiles: true },
+  voicemails: { table: "voicemails", dateColumn: "received_at", folder: "voicemails", hasFiles: true },
+  faxes: { table: "faxes", dateColumn: "sent_received_at", folder: "faxes", hasFiles: true },
+  meetings: { table: "meeting_recordings", dateColumn: "recorded_at", folder: "meetings", hasFiles: true },
+  media: { table: "media_files", dateColumn: "created_at", folder: "media", hasFiles: true },
+};
+
+// Media goes first so chat transcripts can link to attachments already in the archive
+const EXPORT_ORDER: ExportDataType[] = [
+  "media",
+  "messages",
+  "call_logs",
+  "recordings",
+  "voicemails",
+  "faxes",
+  "meetings",
+];
+
+const EXPORT_PAGE_SIZE = 500;
+const PROGRESS_UPDATE_MS = 5000;
+
+// Running jobs that stop reporting progress for this long are treated as crashed
+const STALE_JOB_MS = 30 * 60_000;
+
+export interface ExportJob {
+  id: string;
+  tenant_id: string;
+  requested_by: string | null;
+  data_types: string[];
+  start_date: string | null;
+  end_date: string | null;
+}
+
+interface ManifestEntry {
+  path: string;
+  size: number;
+  sha256: string;
+  source?: { table: string; id: string };
+}
+
+interface MissingFile {
+  table: string;
+  id: string;
+  storage_path: string | null;
+  error: string;
+}
+
+interface ExportState {
+  job: ExportJob;
+  zip: ZipWriter;
+  entries: ManifestEntry[];
+  missing: MissingFile[];
+  counts: Record<string, number>;
+  usedNames: Set<string>;
+  mediaByMessage: Map<string, string[]>;
+  itemsTotal: number;
+  itemsProcessed: number;
+  filesIncluded: number;
+  bytesIncluded: number;
+  lastProgressAt: number;
+}
+
+type Row = Record<string, unknown> & { id: string };
+
+export function isExportDataType(value: string): value is ExportDataType {
+  return value in EXPORT_TARGETS;
+}
+
+// First non-empty string among the given columns (table columns drift between installs)
+function pick(row: Record<string, unknown>, columns: string[]): string | null {
+  for (const column of columns) {
+    const value = row[column];
+    if (value !== null && value !== undefined && String(value).trim() !== "") {
+      return String(value);
+    }
+  }
+  return null;
+}
+
+function safeName(value: string): string {
+  const cleaned = value.replace(/[^\w.-]+/g, "_").replace(/^_+|_+$/g, "");
+  return (cleaned || "file").slice(0, 120);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Archive entry name that is unique within the ZIP
+function uniqueName(state: ExportState, folder: string, base: string): string {
+  const ext = path.extname(base);
+  const stem = base.slice(0, base.length - ext.length);
+  let name = `${folder}/${base}`;
+  for (let n = 2; state.usedNames.has(name); n++) {
+    name = `${folder}/${stem}_${n}${ext}`;
+  }
+  state.usedNames.add(name);
+  return name;
+}
+
+async function addEntry(
+  state: ExportState,
+  name: string,
+  data: Buffer,
+  compress: boolean,
+  source?: { table: string; id: string }
+): Promise<void> {
+  const entry = await state.zip.addFile(name, data, { compress });
+  state.entries.push({ ...entry, source });
+}
+
+async function downloadStoredObject(storagePath: string, backend: string | null): Promise<Buffer> {
+  if (backend === "supabase") {
+    return downloadSupabaseFile(storagePath);
+  }
+  return downloadSpacesFile(storagePath);
+}
+
+async function updateJob(jobId: string, updates: Record<string, unknown>): Promise<void> {
+  const client = getSupabaseClient();
+  const { error } = await client
+    .from("export_jobs")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", jobId);
+
+  if (error) {
+    throw new SupabaseError("Failed to update export job", { error });
+  }
+}
+
+// Persist progress at most every few seconds; progress stays below 100 until upload finishes
+async function reportProgress(state: ExportState, force = false): Promise<void> {
+  const now = Date.now();
+  if (!force && now - state.lastProgressAt < PROGRESS_UPDATE_MS) return;
+  state.lastProgressAt = now;
+
+  const progress = state.itemsTotal > 0
+    ? Math.min(99, Math.floor((state.itemsProcessed / state.itemsTotal) * 100))
+    : 0;
+
+  await updateJob(state.job.id, {
+    progress,
+    items_total: state.itemsTotal,
+    items_processed: state.itemsProcessed,
+    files_included: state.filesIncluded,
+    files_missing: state.missing.length,
+  });
+}
+
+async function countRows(job: ExportJob, target: ExportTarget): Promise<number> {
+  const client = getSupabaseClient();
+
+  let query = client
+    .from(target.table)
+    .select("id", { count: "exact", head: true })
+    .eq("tenant_id", job.tenant_id);
+  if (job.start_date) query = query.gte(target.dateColumn, job.start_date);
+  if (job.end_date) query = query.lte(target.dateColumn, job.end_date);
+
+  const { count, error } = await query;
+  if (error) {
+    throw new SupabaseError(`Failed to count ${target.table} for export`, { error });
+  }
+  return count || 0;
+}
+
+async function fetchPage(
+  job: ExportJob,
+  target: ExportTarget,
+  offset: number,
+  conversationId?: string
+): Promise<Row[]> {
+  const client = getSupabaseClient();
+
+  let query = client
+    .from(target.table)
+    .select("*")
+    .eq("tenant_id", job.tenant_id);
+  if (conversationId) query = query.eq("conversation_id", conversationId);
+  if (job.start_date) query = query.gte(target.dateColumn, job.start_date);
+  if (job.end_date) query = query.lte(target.dateColumn, job.end_date);
+
+  const { data, error } = await query
+    .order(target.dateColumn, { ascending: true })
+    .order("id", { ascending: true })
+    .range(offset, offset + EXPORT_PAGE_SIZE - 1);
+
+  if (error) {
+    throw new SupabaseError(`Failed to read ${target.table} for export`, { error });
+  }
+  return (data || []) as Row[];
+}
+
+// Export one file-backed data type: the original objects plus data/<type>.json.
+// Rows are spooled to a temp file as they are read (the ZIP can only take one
+// entry at a time) and streamed into the archive at the end, so a type with
+// millions of rows never sits in memory.
+async function exportFiles(state: ExportState, dataType: ExportDataType): Promise<void> {
+  const target = EXPORT_TARGETS[dataType];
+  const spoolPath = path.join(os.tmpdir(), `export-${state.job.id}-${dataType}.json`);
+  const spool = await fs.promises.open(spoolPath, "w");
+  let count = 0;
+  let offset = 0;
+
+  try {
+    await spool.write("[");
+
+    while (true) {
+      const rows = await fetchPage(state.job, target, offset);
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        const storagePath = pick(row, ["storage_path"]);
+        let archivePath: string | null = null;
+
+        if (target.hasFiles && storagePath) {
+          try {
+            const buffer = await downloadStoredObject(storagePath, pick(row, ["storage_backend"]));
+            const original = pick(row, ["file_name", "original_filename"]) || path.posix.basename(storagePath);
+            archivePath = uniqueName(state, target.folder, `${row.id.slice(0, 8)}_${safeName(original)}`);
+
+            await addEntry(state, archivePath, buffer, false, { table: target.table, id: row.id });
+            state.filesIncluded++;
+            state.bytesIncluded += buffer.length;
+          } catch (error) {
+            const err = handleError(error);
+            state.missing.push({ table: target.table, id: row.id, storage_path: storagePath, error: err.message });
+            logger.warn("Export: failed to include stored object", {
+              jobId: state.job.id,
+              table: target.table,
+              storagePath,
+              error: err.message,
+            });
+          }
+        }
+
+        if (dataType === "media" && archivePath && row.message_id) {
+          const messageId = String(row.message_id);
+          state.mediaByMessage.set(messageId, [...(state.mediaByMessage.get(messageId) || []), archivePath]);
+        }
+
+        await spool.write(`${count > 0 ? "," : ""}\n${JSON.stringify({ ...row, archive_path: archivePath })}`);
+        count++;
+        state.itemsProcessed++;
+      }
+
+      await reportProgress(state);
+      if (rows.length < EXPORT_PAGE_SIZE) break;
+      offset += EXPORT_PAGE_SIZE;
+    }
+
+    await spool.write(count > 0 ? "\n]\n" : "]\n");
+    await spool.close();
+
+    state.counts[dataType] = count;
+    const entry = await state.zip.addStream(`data/${dataType}.json`, fs.createReadStream(spoolPath), {
+      compress: true,
+    });
+    state.entries.push(entry);
+  } finally {
+    await spool.close().catch(() => undefined);
+    await fs.promises.rm(spoolPath, { force: true });
+  }
+}
+
+function renderTranscript(
+  conversation: Row,
+  participants: Row[],
+  messages: Row[],
+  mediaByMessage: Map<string, string[]>,
+  range: { start: string | null; end: string | null }
+): string {
+  const title = pick(conversation, ["conversation_name"]) || `Conversation ${conversation.id}`;
+  const people = participants
+    .map((p) => {
+      const name = pick(p, ["external_name", "participant_name"]);
+      const id = pick(p, ["external_id", "participant_identifier", "external_number"]);
+      return name && id && name !== id ? `${name} (${id})` : name || id || "Unknown";
+    })
+    .map(escapeHtml)
+    .join(", ");
+
+  const rows = messages.map((m) => {
+    const sender = pick(m, ["sender_name", "sender_identifier"]) || "Unknown";
+    const sentAt = pick(m, ["sent_at"]) || "";
+    const text = pick(m, ["content", "message_text"]) || "";
+    const attachments = (mediaByMessage.get(m.id) || [])
+      .map((p) => `<a href="../${escapeHtml(p)}">${escapeHtml(path.posix.basename(p))}</a>`)
+      .join(" ");
+    const missingMedia = m.has_media && !attachments ? `<em>attachment not included</em>` : "";
+
+    return `<tr><td class="time">${escapeHtml(sentAt)}</td><td class="sender">${escapeHtml(sender)}</td>` +
+      `<td>${escapeHtml(text).replace(/\n/g, "<br>")}${attachments || missingMedia ? `<div class="media">${attachments || missingMedia}</div>` : ""}</td></tr>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: -apple-system, Segoe UI, Helvetica, Arial, sans-serif; margin: 24px; color: #1e293b; }
+h1 { font-size: 20px; margin-bottom: 4px; }
+.meta { color: #64748b; font-size: 13px; margin-bottom: 16px; }
+table { border-collapse: collapse; width: 100%; font-size: 14px; }
+td { border-bottom: 1px solid #e2e8f0; padding: 6px 8px; vertical-align: top; }
+td.time { white-space: nowrap; color: #64748b; font-size: 12px; }
+td.sender { white-space: nowrap; font-weight: 600; }
+.media { margin-top: 4px; font-size: 12px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div class="meta">
+Conversation ID: ${escapeHtml(conversation.id)}<br>
+Channel: ${escapeHtml(pick(conversation, ["channel_type"]) || "internal")}<br>
+Participants: ${people || "Unknown"}<br>
+Range: ${escapeHtml(range.start || "beginning")} to ${escapeHtml(range.end || "now")} &middot; ${messages.length} messages
+</div>
+<table>
+${rows.join("\n")}
+</table>
+</body>
+</html>
+`;
+}
+
+// Export chats conversation by conversation: messages/<conv>.json + transcripts/<conv>.html
+async function exportMessages(state: ExportState): Promise<void> {
+  const client = getSupabaseClient();
+  const target = EXPORT_TARGETS.messages;
+  let total = 0;
+  let convOffset = 0;
+
+  while (true) {
+    const { data: conversations, error } = await client
+      .from("conversations")
+      .select("*")
+      .eq("tenant_id", state.job.tenant_id)
+      .order("id")
+      .range(convOffset, convOffset + EXPORT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new SupabaseError("Failed to read conversations for export", { error });
+    }
+    if (!conversations || conversations.length === 0) break;
+
+    for (const conversation of conversations as Row[]) {
+      const messages: Row[] = [];
+      let offset = 0;
+      while (true) {
+        const rows = await fetchPage(state.job, target, offset, conversation.id);
+        messages.push(...rows);
+        if (rows.length < EXPORT_PAGE_SIZE) break;
+        offset += EXPORT_PAGE_SIZE;
+      }
+      if (messages.length === 0) continue;
+
+      const { data: participants, error: partError } = await client
+        .from("participants")
+        .select("*")
+        .eq("conversation_id", conversation.id);
+
+      if (partError) {
+        throw new SupabaseError("Failed to read participants for export", { error: partError });
+      }
+
+      const base = `${safeName(pick(conversation, ["conversation_name"]) || "conversation")}_${conversation.id.slice(0, 8)}`;
+      const html = renderTranscript(conversation, (participants || []) as Row[], messages, state.mediaByMessage, {
+        start: state.job.start_date,
+        end: state.job.end_date,
+      });
+
+      await addEntry(state, uniqueName(state, "transcripts", `${base}.html`), Buffer.from(html), true);
+      await addEntry(
+        state,
+        uniqueName(state, target.folder, `${base}.json`),
+        Buffer.from(JSON.stringify({
+          conversation,
+          participants: participants || [],
+          messages: messages.map((m) => ({ ...m, attachments: state.mediaByMessage.get(m.id) || [] })),
+        }, null, 2)),
+        true
+      );
+
+      total += messages.length;
+      state.itemsProcessed += messages.length;
+      await reportProgress(state);
+    }
+
+    if (conversations.length < EXPORT_PAGE_SIZE) break;
+    convOffset += EXPORT_PAGE_SIZE;
+  }
+
+  state.counts.messages = total;
+}
+
+// Write the archive for a job to `filePath`
+async function buildArchive(job: ExportJob, filePath: string): Promise<{
+  size: number;
+  sha256: string;
+  state: ExportState;
+}> {
+  const client = getSupabaseClient();
+  const dataTypes = EXPORT_ORDER.filter((t) => job.data_types.includes(t));
+
+  const { data: tenant } = await client
+    .from("tenants")
+    .select("id, name")
+    .eq("id", job.tenant_id)
+    .single();
+
+  const zip = await createZipWriter(filePath);
+  const state: ExportState = {
+    job,
+    zip,
+    entries: [],
+    missing: [],
+    counts: {},
+    usedNames: new Set(),
+    mediaByMessage: new Map(),
+    itemsTotal: 0,
+    itemsProcessed: 0,
+    filesIncluded: 0,
+    bytesIncluded: 0,
+    lastProgressAt: 0,
+  };
+
+  try {
+    for (const dataType of dataTypes) {
+      state.itemsTotal += await countRows(job, EXPORT_TARGETS[dataType]);
+    }
+    await reportProgress(state, true);
+
+    for (const dataType of dataTypes) {
+      logger.info(`Export: adding ${dataType}`, { jobId: job.id, tenantId: job.tenant_id });
+      if (dataType === "messages") {
+        await exportMessages(state);
+      } else {
+        await exportFiles(state, dataType);
+      }
+    }
+
+    // The manifest covers every entry written so far; SHA256SUMS also covers the manifest
+    const manifest = {
+      format_version: 1,
+      job_id: job.id,
+      tenant: { id: job.tenant_id, name: tenant?.name || null },
+      generated_at: new Date().toISOString(),
+      date_range: { start: job.start_date, end: job.end_date },
+      data_types: dataTypes,
+      counts: state.counts,
+      files_included: state.filesIncluded,
+      bytes_included: state.bytesIncluded,
+      missing_files: state.missing,
+      entries: state.entries,
+    };
+    await addEntry(state, "manifest.json", Buffer.from(JSON.stringify(manifest, null, 2)), true);
+
+    const sums = state.entries.map((e) => `${e.sha256}  ${e.path}`).join("\n") + "\n";
+    await zip.addFile("SHA256SUMS", Buffer.from(sums), { compress: true });
+
+    const archive = await zip.finish();
+    return { size: archive.size, sha256: archive.sha256, state };
+  } catch (error) {
+    await zip.abort();
+    throw error;
+  }
+}
+
+async function writeAuditLog(job: ExportJob, action: string, values: Record<string, unknown>): Promise<void> {
+  const client = getSupabaseClient();
+  const { error } = await client.from("audit_logs").insert({
+    action,
+    entity_type: "export_job",
+    entity_id: job.id,
+    tenant_id: job.tenant_id,
+    user_id: null,
+    new_values: { requested_by: job.requested_by, ...values },
+  });
+
+  if (error) {
+    logger.error("Failed to write export audit log", { jobId: job.id, error: error.message });
+  }
+}
+
+function getExportLinkDays(): number {
+  return parseInt(process.env.EXPORT_ARCHIVE_DAYS || "7");
+}
+
+// Build, upload and finalize one claimed job. Never throws; failures land on the job row.
+export async function runExportJob(job: ExportJob): Promise<void> {
+  const startTime = Date.now();
+  const filePath = path.join(os.tmpdir(), `export-${job.id}.zip`);
+
+  logger.info("Export job started", { jobId: job.id, tenantId: job.tenant_id, dataTypes: job.data_types });
+
+  try {
+    const { size, sha256, state } = await buildArchive(job, filePath);
+
+    // Touch the job so a long upload is not mistaken for a stale run
+    await updateJob(job.id, { progress: 99 });
+
+    const storagePath = `${job.tenant_id}/exports/${job.id}.zip`;
+    await streamUpload(fs.createReadStream(filePath), storagePath, "application/zip", size);
+
+    const now = new Date();
+    await updateJob(job.id, {
+      status: "completed",
+      progress: 100,
+      items_total: state.itemsTotal,
+      items_processed: state.itemsProcessed,
+      files_included: state.filesIncluded,
+      files_missing: state.missing.length,
+      storage_path: storagePath,
+      archive_size: size,
+      archive_sha256: sha256,
+      completed_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + getExportLinkDays() * 86_400_000).toISOString(),
+      error: null,
+    });
+
+    await writeAuditLog(job, "export.completed", {
+      data_types: job.data_types,
+      start_date: job.start_date,
+      end_date: job.end_date,
+      archive_size: size,
+      archive_sha256: sha256,
+      files_included: state.filesIncluded,
+      files_missing: state.missing.length,
+    });
+
+    logger.info("Export job completed", {
+      jobId: job.id,
+      tenantId: job.tenant_id,
+      size,
+      files: state.filesIncluded,
+      missing: state.missing.length,
+      duration: `${Date.now() - startTime}ms`,
+    });
+  } catch (error) {
+    const err = handleError(error);
+    logger.error("Export job failed", { jobId: job.id, tenantId: job.tenant_id, error: err.message });
+
+    try {
+      await updateJob(job.id, {
+        status: "failed",
+        error: err.message,
+        completed_at: new Date().toISOString(),
+      });
+      await writeAuditLog(job, "export.failed", { error: err.message });
+    } catch (updateError) {
+      logger.error("Failed to mark export job as failed", {
+        jobId: job.id,
+        error: (updateError as Error).message,
+      });
+    }
+  } finally {
+    await fs.promises.rm(filePath, { force: true });
+  }
+}
+
+// Atomically move the oldest queued job to running. Returns null when the queue is empty.
+async function claimNextExportJob(): Promise<ExportJob | null> {
+  const client = getSupabaseClient();
+
+  const { data: queued, error } = await client
+    .from("export_jobs")
+    .select("id")
+    .eq("status", "queued")
+    .order("created_at", { ascending: true })
+    .limit(1);
+
+  if (error) {
+    throw new SupabaseError("Failed to read export queue", { error });
+  }
+  if (!queued || queued.length === 0) return null;
+
+  const now = new Date().toISOString();
+  const { data: claimed, error: claimError } = await client
+    .from("export_jobs")
+    .update({ status: "running", started_at: now, updated_at: now })
+    .eq("id", queued[0].id)
+    .eq("status", "queued")
+    .select("id, tenant_id, requested_by, data_types, start_date, end_date");
+
+  if (claimError) {
+    throw new SupabaseError("Failed to claim export job", { error: claimError });
+  }
+
+  // Another worker got there first - try the next one
+  if (!claimed || claimed.length === 0) {
+    return claimNextExportJob();
+  }
+  return claimed[0] as ExportJob;
+}
+
+// Jobs left running by a crashed or restarted worker never finish on their own
+async function failStaleExportJobs(): Promise<void> {
+  const client = getSupabaseClient();
+  const staleBefore = new Date(Date.now() - STALE_JOB_MS).toISOString();
+
+  const { data, error } = await client
+    .from("export_jobs")
+    .update({
+      status: "failed",
+      error: "Export interrupted - please request it again",
+      completed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("status", "running")
+    .lt("updated_at", staleBefore)
+    .select("id");
+
+  if (error) {
+    throw new SupabaseError("Failed to expire stale export jobs", { error });
+  }
+  if (data && data.length > 0) {
+    logger.warn(`Marked ${data.length} stale export jobs as failed`);
+  }
+}
+
+// Remove archives whose download window has passed
+export async function expireExportArchives(): Promise<number> {
+  const client = getSupabaseClient();
+
+  const { data, error } = await client
+    .from("export_jobs")
+    .select("id, storage_path")
+    .eq("status", "completed")
+    .lt("expires_at", new Date().toISOString())
+    .limit(100);
+
+  if (error) {
+    throw new SupabaseError("Failed to read expired export jobs", { error });
+  }
+
+  let expired = 0;
+  for (const job of data || []) {
+    try {
+      if (job.storage_path) {
+        await deleteSpacesFile(job.storage_path);
+      }
+      await updateJob(job.id, { status: "expired", storage_path: null });
+      expired++;
+    } catch (err) {
+      logger.warn("Failed to expire export archive", { jobId: job.id, error: (err as Error).message });
+    }
+  }
+
+  return expired;
+}
+
+// Drain the export queue one job at a time
+export async function processExportQueue(): Promise<number> {
+  await failStaleExportJobs();
+
+  let processed = 0;
+  while (true) {
+    const job = await claimNextExportJob();
+    if (!job) break;
+    await runExportJob(job);
+    processed++;
+  }
+
+  const expired = await expireExportArchives();
+  if (expired > 0) {
+    logger.info(`Expired ${expired} export archives`);
+  }
+
+  return processed;
+}
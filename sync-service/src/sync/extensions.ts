@@ -3,6 +3,7 @@ import { logger } from "../utils/logger";
 import { handleError } from "../utils/errors";
 import { getExtensions } from "../threecx/queries";
 import { upsertExtension, updateSyncStatus, cascadeExtensionNameChange, refreshAllParticipantNames, mergeDuplicateConversations } from "../storage/supabase";
+import { agentIngest } from "../storage/agent-transport";
 
 export interface ExtensionSyncResult {
   extensionsSynced: number;
@@ -131,3 +132,59 @@ export async function syncExtensions(
     throw err;
   }
 }
+
+/**
+ * Extension sync for installed agents (agent transport). The ingest API
+ * upserts the extensions and renames their chat participants; conversation
+ * names and duplicate 1-on-1 merges need archive reads and are not updated.
+ */
+export async function syncExtensionsViaAgent(
+  pool?: Pool,
+  tenantId?: string
+): Promise<ExtensionSyncResult> {
+  const result: ExtensionSyncResult = {
+    extensionsSynced: 0,
+    namesChanged: 0,
+    errors: [],
+  };
+
+  try {
+    await updateSyncStatus("extensions", "running", { tenantId });
+
+    const extensions = await getExtensions(pool);
+    const rows = extensions.map((ext) => ({
+      extension_number: ext.extension_number,
+      first_name: ext.firstname,
+      last_name: ext.lastname,
+      email: ext.email || null,
+    }));
+
+    const { written, rejected } = rows.length > 0
+      ? await agentIngest("extensions", rows)
+      : { written: 0, rejected: [] };
+    result.extensionsSynced = written;
+    result.errors.push(...rejected.map((r) => ({ extension: rows[r.index].extension_number, error: r.error })));
+
+    await updateSyncStatus("extensions", "success", {
+      recordsSynced: result.extensionsSynced,
+      notes: `Synced ${result.extensionsSynced} extensions`,
+      tenantId,
+    });
+
+    logger.info("Extension sync completed (agent transport)", {
+      tenantId,
+      synced: result.extensionsSynced,
+      errors: result.errors.length,
+    });
+
+    return result;
+  } catch (error) {
+    const err = handleError(error);
+    logger.error("Extension sync failed", { tenantId, error: err.message });
+    await updateSyncStatus("extensions", "error", {
+      errorMessage: err.message,
+      tenantId,
+    });
+    throw err;
+  }
+}
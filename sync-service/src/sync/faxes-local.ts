@@ -0,0 +1,138 @@
+/**
+ * Local Faxes Sync - Reads directly from filesystem (no SFTP)
+ * Used when sync agent runs on the 3CX server itself.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { logger } from "../utils/logger";
+import { handleError } from "../utils/errors";
+import {
+  uploadFileBuffer,
+  generateStoragePath,
+  fileExists,
+  detectFileType,
+} from "../storage/spaces-storage";
+import { insertFax, updateSyncStatus } from "../storage/supabase";
+import { FAX_PATHS, FaxesSyncResult, parseFaxFilename } from "./faxes";
+
+interface LocalTenantConfig {
+  id: string;
+  threecx_fax_path: string | null;
+  backup_faxes: boolean;
+}
+
+export async function syncFaxesLocal(tenant: LocalTenantConfig): Promise<FaxesSyncResult> {
+  const result: FaxesSyncResult = {
+    filesSynced: 0,
+    filesSkipped: 0,
+    errors: [],
+  };
+
+  if (!tenant.backup_faxes) {
+    logger.info("Fax backup disabled for tenant", { tenantId: tenant.id });
+    return result;
+  }
+
+  // Build list of paths to try - custom path first if configured
+  const pathsToTry = tenant.threecx_fax_path
+    ? [tenant.threecx_fax_path, ...FAX_PATHS]
+    : FAX_PATHS;
+
+  try {
+    await updateSyncStatus("faxes", "running", { tenantId: tenant.id });
+
+    // Try each path until we find one with fax files
+    let faxPath: string | null = null;
+    let files: string[] = [];
+
+    for (const tryPath of pathsToTry) {
+      if (!fs.existsSync(tryPath)) continue;
+
+      files = (await fs.promises.readdir(tryPath, { withFileTypes: true }))
+        .filter((entry) => entry.isFile())
+        .map((entry) => entry.name)
+        .filter((f) => [".pdf", ".tiff", ".tif"].includes(path.extname(f).toLowerCase()));
+
+      if (files.length > 0) {
+        faxPath = tryPath;
+        logger.info("Found fax directory", { tenantId: tenant.id, path: tryPath, fileCount: files.length });
+        break;
+      }
+    }
+
+    if (files.length === 0 || !faxPath) {
+      const notes = `No fax files found. Checked: ${pathsToTry.join(", ")}`;
+      logger.info("No fax files found on local filesystem", { tenantId: tenant.id, pathsTried: pathsToTry });
+      await updateSyncStatus("faxes", "success", { recordsSynced: 0, notes, tenantId: tenant.id });
+      return result;
+    }
+
+    logger.info(`Found ${files.length} fax files to process`, { tenantId: tenant.id });
+
+    for (const filename of files) {
+      try {
+        const buffer = await fs.promises.readFile(path.posix.join(faxPath, filename));
+        const { mimeType, extension } = detectFileType(buffer);
+        const metadata = parseFaxFilename(filename);
+
+        const storagePath = generateStoragePath(tenant.id, "faxes", filename, extension);
+
+        const exists = await fileExists(storagePath);
+        if (exists) {
+          result.filesSkipped++;
+          continue;
+        }
+
+        const { path: uploadedPath, size, sha256 } = await uploadFileBuffer(buffer, storagePath, mimeType);
+
+        await insertFax({
+          tenant_id: tenant.id,
+          threecx_fax_id: filename,
+          direction: metadata.direction,
+          remote_number: metadata.remoteNumber,
+          original_filename: filename,
+          file_size: size,
+          storage_path: uploadedPath,
+          mime_type: mimeType,
+          fax_time: metadata.timestamp?.toISOString() || new Date().toISOString(),
+          storage_backend: "spaces",
+          content_sha256: sha256,
+        });
+
+        result.filesSynced++;
+        logger.debug("Synced fax from local filesystem", { tenantId: tenant.id, filename });
+      } catch (error) {
+        const err = handleError(error);
+        result.errors.push({ filename, error: err.message });
+        logger.error("Failed to sync fax file", {
+          tenantId: tenant.id,
+          filename,
+          error: err.message,
+        });
+      }
+    }
+
+    await updateSyncStatus("faxes", "success", {
+      recordsSynced: result.filesSynced,
+      tenantId: tenant.id,
+    });
+
+    logger.info("Local faxes sync completed", {
+      tenantId: tenant.id,
+      synced: result.filesSynced,
+      skipped: result.filesSkipped,
+      errors: result.errors.length,
+    });
+
+    return result;
+  } catch (error) {
+    const err = handleError(error);
+    logger.error("Local faxes sync failed", { tenantId: tenant.id, error: err.message });
+    await updateSyncStatus("faxes", "error", {
+      errorMessage: err.message,
+      tenantId: tenant.id,
+    });
+    throw err;
+  }
+}
@@ -7,9 +7,11 @@ import {
   fileExists,
   detectFileType,
 } from "../storage/spaces-storage";
-import { insertFax, updateSyncStatus } from "../storage/supabase";
+import { faxExists, insertFax, updateSyncStatus } from "../storage/supabase";
 import { createSftpClient, listRemoteFiles, closeSftpClient, downloadFile } from "../storage/sftp";
 import { TenantConfig, getTenantSftpConfig } from "../tenant";
+import { SyncWindow, isInSyncWindow } from "./window";
+import { startTransferCycle } from "./budget";
 
 export interface FaxesSyncResult {
   filesSynced: number;
@@ -18,14 +20,14 @@ export interface FaxesSyncResult {
 }
 
 // Common 3CX fax paths to try
-const FAX_PATHS = [
+export const FAX_PATHS = [
   "/var/lib/3cxpbx/Instance1/Data/Fax",
   "/var/lib/3cxpbx/Data/Fax",
   "/home/phonesystem/.3CXPhone System/Data/Fax",
 ];
 
 // Parse fax filename to extract metadata
-function parseFaxFilename(filename: string): {
+export function parseFaxFilename(filename: string): {
   extension?: string;
   timestamp?: Date;
   direction?: "inbound" | "outbound";
@@ -68,7 +70,10 @@ function parseFaxFilename(filename: string): {
   return result;
 }
 
-export async function syncFaxes(tenant: TenantConfig): Promise<FaxesSyncResult> {
+export async function syncFaxes(
+  tenant: TenantConfig,
+  window?: SyncWindow
+): Promise<FaxesSyncResult> {
   const result: FaxesSyncResult = {
     filesSynced: 0,
     filesSkipped: 0,
@@ -77,22 +82,26 @@ export async function syncFaxes(tenant: TenantConfig): Promise<FaxesSyncResult>
 
   if (!tenant.backup_faxes) {
     logger.info("Fax backup disabled for tenant", { tenantId: tenant.id });
-    await updateSyncStatus("faxes", "success", {
-      recordsSynced: 0,
-      notes: "Faxes backup disabled",
-      tenantId: tenant.id,
-    });
+    if (!window) {
+      await updateSyncStatus("faxes", "success", {
+        recordsSynced: 0,
+        notes: "Faxes backup disabled",
+        tenantId: tenant.id,
+      });
+    }
     return result;
   }
 
   const sftpConfig = getTenantSftpConfig(tenant);
   if (!sftpConfig) {
     logger.info("No SFTP credentials configured - skipping fax sync", { tenantId: tenant.id });
-    await updateSyncStatus("faxes", "success", {
-      recordsSynced: 0,
-      notes: "No SFTP credentials configured - fax sync skipped",
-      tenantId: tenant.id,
-    });
+    if (!window) {
+      await updateSyncStatus("faxes", "success", {
+        recordsSynced: 0,
+        notes: "No SFTP credentials configured - fax sync skipped",
+        tenantId: tenant.id,
+      });
+    }
     return result;
   }
 
@@ -103,7 +112,9 @@ export async function syncFaxes(tenant: TenantConfig): Promise<FaxesSyncResult>
 
   let sftp;
   try {
-    await updateSyncStatus("faxes", "running", { tenantId: tenant.id });
+    if (!window) {
+      await updateSyncStatus("faxes", "running", { tenantId: tenant.id });
+    }
 
     sftp = await createSftpClient(sftpConfig);
 
@@ -134,28 +145,56 @@ export async function syncFaxes(tenant: TenantConfig): Promise<FaxesSyncResult>
     if (files.length === 0 || !faxPath) {
       const notes = `No fax files found. Checked: ${pathsToTry.join(", ")}`;
       logger.info("No fax files found on remote server", { tenantId: tenant.id, pathsTried: pathsToTry });
-      await updateSyncStatus("faxes", "success", { recordsSynced: 0, notes, tenantId: tenant.id });
+      if (!window) {
+        await updateSyncStatus("faxes", "success", { recordsSynced: 0, notes, tenantId: tenant.id });
+      }
       return result;
     }
 
+    // Window runs only take files whose name dates them inside the window
+    if (window) {
+      files = files.filter((f) => isInSyncWindow(window, f, parseFaxFilename(f).timestamp || null));
+    }
+
     logger.info(`Found ${files.length} fax files to process`, { tenantId: tenant.id });
 
-    for (const filename of files) {
+    const cycle = startTransferCycle(tenant, "faxes");
+    const sftpClient = sftp;
+
+    for (let i = 0; i < files.length; i++) {
+      const filename = files[i];
       try {
         const remotePath = path.posix.join(faxPath, filename);
-        const buffer = await downloadFile(sftp, remotePath);
+
+        // Skip archived files before downloading them. The stored extension
+        // comes from the file content, so the name's own extension is checked
+        // here and the detected one again after the download.
+        const namedPath = generateStoragePath(tenant.id, "faxes", filename);
+        if (await faxExists(tenant.id, filename) || await fileExists(namedPath)) {
+          result.filesSkipped++;
+          continue;
+        }
+
+        // Already-archived files don't count against the item budget
+        if (!cycle.takeItem()) {
+          cycle.logDeferred(files.length - i);
+          break;
+        }
+
+        const buffer = await cycle.transfer(() => downloadFile(sftpClient, remotePath));
+        cycle.recordBytes(buffer.length);
         const { mimeType, extension } = detectFileType(buffer);
         const metadata = parseFaxFilename(filename);
 
         const storagePath = generateStoragePath(tenant.id, "faxes", filename, extension);
-
-        const exists = await fileExists(storagePath);
-        if (exists) {
+        if (storagePath !== namedPath && await fileExists(storagePath)) {
           result.filesSkipped++;
           continue;
         }
 
-        const { path: uploadedPath, size } = await uploadFileBuffer(buffer, storagePath, mimeType);
+        const { path: uploadedPath, size, sha256 } = await cycle.transfer(() =>
+          uploadFileBuffer(buffer, storagePath, mimeType)
+        );
 
         await insertFax({
           tenant_id: tenant.id,
@@ -168,6 +207,7 @@ export async function syncFaxes(tenant: TenantConfig): Promise<FaxesSyncResult>
           mime_type: mimeType,
           fax_time: metadata.timestamp?.toISOString() || new Date().toISOString(),
           storage_backend: "spaces",
+          content_sha256: sha256,
         });
 
         result.filesSynced++;
@@ -183,10 +223,12 @@ export async function syncFaxes(tenant: TenantConfig): Promise<FaxesSyncResult>
       }
     }
 
-    await updateSyncStatus("faxes", "success", {
-      recordsSynced: result.filesSynced,
-      tenantId: tenant.id,
-    });
+    if (!window) {
+      await updateSyncStatus("faxes", "success", {
+        recordsSynced: result.filesSynced,
+        tenantId: tenant.id,
+      });
+    }
 
     logger.info("Faxes sync completed", {
       tenantId: tenant.id,
@@ -199,10 +241,12 @@ export async function syncFaxes(tenant: TenantConfig): Promise<FaxesSyncResult>
   } catch (error) {
     const err = handleError(error);
     logger.error("Faxes sync failed", { tenantId: tenant.id, error: err.message });
-    await updateSyncStatus("faxes", "error", {
-      errorMessage: err.message,
-      tenantId: tenant.id,
-    });
+    if (!window) {
+      await updateSyncStatus("faxes", "error", {
+        errorMessage: err.message,
+        tenantId: tenant.id,
+      });
+    }
     throw err;
   } finally {
     if (sftp) {
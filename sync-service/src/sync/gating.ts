@@ -0,0 +1,130 @@
+import { logger } from "../utils/logger";
+import { updateTenantSyncGate } from "../storage/supabase";
+import { TenantConfig } from "../tenant";
+import type { SyncType } from "./index";
+
+// ============================================
+// QUOTA AND BILLING SYNC GATING
+// ============================================
+// Keeps over-quota and unpaid tenants from uploading indefinitely. Each
+// tenant's storage usage and billing status are checked against its plan's
+// policy (storage_plans.soft_limit_percent / grace_period_days):
+//   open           - syncing normally
+//   warning        - past the soft limit; everything still syncs
+//   uploads_paused - over quota or payment past due; file syncs stop while
+//                    chat messages, CDR and extensions keep syncing
+//   paused         - still restricted once the grace period runs out, or the
+//                    subscription was canceled; nothing syncs
+// The scheduler stops enqueueing gated sync types and runTenantSyncJob,
+// backfills, reconciliation backfills and the realtime listener skip them. The gate is stored on the tenant so the dashboard can show it, the
+// web app's storage-recalc cron can notify admins, and storage.threshold
+// webhooks fire when it changes.
+
+export type SyncGate = "open" | "warning" | "uploads_paused" | "paused";
+
+export interface SyncGateState {
+  gate: SyncGate;
+  reason: string | null;
+  since: string | null; // when the current restriction began
+}
+
+// Syncs that upload files to storage; everything else is metadata only
+const BINARY_SYNC_TYPES: readonly SyncType[] = ["media", "recordings", "voicemails", "faxes", "meetings"];
+
+const RESTRICTED_BILLING_STATUSES = ["past_due", "unpaid"];
+
+function isRestricted(gate: SyncGate): boolean {
+  return gate === "uploads_paused" || gate === "paused";
+}
+
+function formatGb(bytes: number): string {
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)}GB`;
+}
+
+export function evaluateSyncGate(tenant: TenantConfig, now: Date = new Date()): SyncGateState {
+  if (tenant.billing_status === "canceled") {
+    return { gate: "paused", reason: "Subscription canceled", since: tenant.sync_gate_since ?? now.toISOString() };
+  }
+
+  const limit = tenant.storage_limit_bytes;
+  const used = tenant.storage_used_bytes;
+  const percentage = limit > 0 ? Math.round((used / limit) * 100) : 0;
+
+  let restriction: string | null = null;
+  if (RESTRICTED_BILLING_STATUSES.includes(tenant.billing_status)) {
+    restriction = "Payment past due";
+  } else if (limit > 0 && used >= limit) {
+    restriction = `Storage quota exceeded (${formatGb(used)} of ${formatGb(limit)})`;
+  }
+
+  if (restriction) {
+    // The grace period runs from when the tenant first became restricted
+    const since = isRestricted(tenant.sync_gate) && tenant.sync_gate_since
+      ? tenant.sync_gate_since
+      : now.toISOString();
+    const graceEndsAt = new Date(since).getTime() + tenant.grace_period_days * 24 * 60 * 60 * 1000;
+
+    if (now.getTime() >= graceEndsAt) {
+      return { gate: "paused", reason: `${restriction} - grace period ended`, since };
+    }
+    return { gate: "uploads_paused", reason: restriction, since };
+  }
+
+  if (limit > 0 && percentage >= tenant.soft_limit_percent) {
+    return { gate: "warning", reason: `Storage at ${percentage}% of ${formatGb(limit)}`, since: null };
+  }
+
+  return { gate: "open", reason: null, since: null };
+}
+
+// Latest state per tenant id from refreshSyncGates, for long-lived work (the
+// realtime listener) that holds a TenantConfig loaded before the gate changed
+const latestGates: Map<string, SyncGateState> = new Map();
+
+export function currentSyncGate(tenant: TenantConfig): SyncGateState {
+  return latestGates.get(tenant.id) ?? evaluateSyncGate(tenant);
+}
+
+// Whether the gate lets this sync type run
+export function isSyncAllowed(state: SyncGateState, syncType: SyncType): boolean {
+  if (state.gate === "paused") return false;
+  if (state.gate === "uploads_paused") return !BINARY_SYNC_TYPES.includes(syncType);
+  return true;
+}
+
+/**
+ * Re-evaluate every tenant's gate and store the ones that changed. Returns
+ * the current state per tenant id.
+ */
+export async function refreshSyncGates(tenants: TenantConfig[]): Promise<Map<string, SyncGateState>> {
+  const states = new Map<string, SyncGateState>();
+  const now = new Date();
+
+  for (const tenant of tenants) {
+    const state = evaluateSyncGate(tenant, now);
+    states.set(tenant.id, state);
+    latestGates.set(tenant.id, state);
+
+    // Compare instants - Postgres and toISOString format timestamps differently
+    const sinceUnchanged = (state.since ? Date.parse(state.since) : null) ===
+      (tenant.sync_gate_since ? Date.parse(tenant.sync_gate_since) : null);
+    if (state.gate === tenant.sync_gate && sinceUnchanged) {
+      continue;
+    }
+
+    if (!(await updateTenantSyncGate(tenant, tenant.sync_gate, state))) {
+      continue;
+    }
+
+    if (state.gate !== tenant.sync_gate) {
+      const message = `Sync gate changed for ${tenant.name}: ${tenant.sync_gate} -> ${state.gate}`;
+      if (isRestricted(state.gate)) {
+        logger.warn(message, { tenantId: tenant.id, reason: state.reason });
+      } else {
+        logger.info(message, { tenantId: tenant.id, reason: state.reason });
+      }
+    }
+  }
+
+  return states;
+}
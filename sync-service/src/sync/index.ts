@@ -8,8 +8,11 @@ import { syncExtensions, ExtensionSyncResult } from "./extensions";
 import { syncFaxes, FaxesSyncResult } from "./faxes";
 import { syncMeetings, MeetingsSyncResult } from "./meetings";
 import { syncCdr, CdrSyncResult } from "./cdr";
+import { linkRecordingsToCalls } from "./call-linking";
 import { createSyncLog, updateSyncLog, relinkOrphanedMedia } from "../storage/supabase";
-import { TenantConfig, getActiveTenants, getTenantPool, testTenantConnection } from "../tenant";
+import { TenantConfig, getActiveTenants, getTenantPool, tenantConnectionKey, testTenantConnection } from "../tenant";
+import { runInPbxInstance } from "../storage/pbx-instance";
+import { evaluateSyncGate, isSyncAllowed } from "./gating";
 
 // Sync types for granular scheduling
 export type SyncType = "messages" | "media" | "recordings" | "voicemails" | "faxes" | "meetings" | "cdr" | "extensions";
@@ -27,6 +30,15 @@ function withTimeout<T>(promise: Promise<T>, timeoutMs: number, operation: strin
   ]);
 }
 
+// Linking is best effort: a failure must not fail the sync that triggered it
+async function linkRecordingsAfterSync(tenantId: string): Promise<void> {
+  try {
+    await linkRecordingsToCalls(tenantId);
+  } catch (err) {
+    logger.warn("Call recording linking failed", { tenantId, error: (err as Error).message });
+  }
+}
+
 export interface SyncResult {
   messages: MessageSyncResult;
   media: MediaSyncResult;
@@ -69,15 +81,6 @@ export async function runTenantSync(
   const startTime = Date.now();
   const batchSize = options?.batchSize || 100;
 
-  logger.info(`Starting sync for tenant: ${tenant.name}`, { tenantId: tenant.id });
-
-  // Create sync log
-  const logId = await createSyncLog({
-    sync_type: "full",
-    started_at: new Date().toISOString(),
-    tenant_id: tenant.id,
-  });
-
   const result: SyncResult = {
     messages: { messagesSynced: 0, conversationsCreated: 0, errors: [] },
     media: { filesSynced: 0, filesSkipped: 0, filesTooLarge: 0, errors: [] },
@@ -90,6 +93,27 @@ export async function runTenantSync(
     duration: 0,
   };
 
+  // Quota/billing gate: a paused tenant syncs nothing, and one with uploads
+  // paused only syncs metadata
+  const gate = evaluateSyncGate(tenant);
+  if (gate.gate === "paused") {
+    logger.info(`Skipping sync for tenant: ${tenant.name} - sync gate paused`, {
+      tenantId: tenant.id,
+      reason: gate.reason,
+    });
+    return result;
+  }
+  const skipFiles = options?.skipMedia || !isSyncAllowed(gate, "media");
+
+  logger.info(`Starting sync for tenant: ${tenant.name}`, { tenantId: tenant.id });
+
+  // Create sync log
+  const logId = await createSyncLog({
+    sync_type: "full",
+    started_at: new Date().toISOString(),
+    tenant_id: tenant.id,
+  });
+
   try {
     // Get database pool for this tenant (via SSH tunnel)
     const pool = await getTenantPool(tenant);
@@ -112,7 +136,7 @@ export async function runTenantSync(
     }
 
     // Sync media files via SFTP (only if not skipped and tenant has SFTP configured)
-    if (!options?.skipMedia) {
+    if (!skipFiles) {
       try {
         result.media = await syncMedia(tenant);
       } catch (err) {
@@ -158,6 +182,11 @@ export async function runTenantSync(
       }
     }
 
+    // Link recordings to their CDR legs (either side may have just arrived)
+    if (tenant.backup_cdr && tenant.backup_recordings) {
+      await linkRecordingsAfterSync(tenant.id);
+    }
+
     // Sync extensions
     if (!options?.skipExtensions) {
       result.extensions = await syncExtensions(pool, tenant.id);
@@ -267,7 +296,7 @@ export async function runMultiTenantSync(options?: {
     };
 
     // Check circuit breaker before attempting sync
-    const circuitCheck = canExecute(tenant.id);
+    const circuitCheck = canExecute(tenantConnectionKey(tenant));
     tenantResult.circuitState = circuitCheck.state;
 
     if (!circuitCheck.allowed) {
@@ -292,14 +321,14 @@ export async function runMultiTenantSync(options?: {
       if (!connected) {
         const errorMsg = `Failed to connect to 3CX database at ${tenant.threecx_host}`;
         tenantResult.error = errorMsg;
-        recordFailure(tenant.id, errorMsg);
+        recordFailure(tenantConnectionKey(tenant), errorMsg);
         results.push(tenantResult);
         continue;
       }
 
       // Run sync for this tenant (with global timeout)
       const syncResult = await withTimeout(
-        runTenantSync(tenant, options),
+        runInPbxInstance(tenant.pbx_instance_id, () => runTenantSync(tenant, options)),
         TENANT_SYNC_TIMEOUT_MS,
         `Sync for tenant ${tenant.name}`
       );
@@ -316,13 +345,13 @@ export async function runMultiTenantSync(options?: {
       tenantResult.success = true;
 
       // Record success with circuit breaker
-      recordSuccess(tenant.id);
+      recordSuccess(tenantConnectionKey(tenant));
     } catch (error) {
       const err = error as Error;
       tenantResult.error = err.message;
 
       // Record failure with circuit breaker
-      recordFailure(tenant.id, err.message);
+      recordFailure(tenantConnectionKey(tenant), err.message);
 
       logger.error(`Sync failed for tenant: ${tenant.name}`, {
         tenantId: tenant.id,
@@ -363,127 +392,127 @@ export async function runMultiTenantSync(options?: {
   };
 }
 
-// Run specific sync types for granular scheduling
-export async function runMultiTenantSyncByType(
-  syncTypes: SyncType[],
-  tenantIds?: string[]
-): Promise<void> {
-  const startTime = Date.now();
+// Connection test timeout before a queued job touches the tenant's 3CX database
+const JOB_CONNECTION_TEST_TIMEOUT_MS = 15_000;
+
+/**
+ * Run one queued sync job: a single sync type for a single tenant's 3CX
+ * system. Throws when the sync fails so the queue can retry it; returns
+ * "skipped" when the tenant or system is no longer active or its circuit
+ * breaker is open. Jobs without a system run against the tenant's primary.
+ */
+export async function runTenantSyncJob(
+  tenantId: string,
+  syncType: SyncType,
+  pbxInstanceId: string | null = null
+): Promise<"synced" | "skipped"> {
+  const tenant = (await getActiveTenants()).find(
+    (t) => t.id === tenantId && (!pbxInstanceId || t.pbx_instance_id === pbxInstanceId)
+  );
+  if (!tenant) {
+    logger.debug(`Skipping ${syncType} sync for ${tenantId} - tenant no longer active`, { pbxInstanceId });
+    return "skipped";
+  }
 
-  // Get all active tenants with configured 3CX connections
-  let tenants = await getActiveTenants();
+  return runInPbxInstance(tenant.pbx_instance_id, () => runSyncTypeForTenant(tenant, syncType));
+}
 
-  // Filter to specific tenants if provided
-  if (tenantIds && tenantIds.length > 0) {
-    const tenantIdSet = new Set(tenantIds);
-    tenants = tenants.filter((t) => tenantIdSet.has(t.id));
+async function runSyncTypeForTenant(tenant: TenantConfig, syncType: SyncType): Promise<"synced" | "skipped"> {
+  // Quota/billing gate: over-quota and unpaid tenants stop uploading files
+  const gate = evaluateSyncGate(tenant);
+  if (!isSyncAllowed(gate, syncType)) {
+    logger.debug(`Skipping ${syncType} sync for ${tenant.name} - sync gate ${gate.gate}`, { reason: gate.reason });
+    return "skipped";
   }
 
-  if (tenants.length === 0) {
-    return;
+  // Check circuit breaker
+  const circuitCheck = canExecute(tenantConnectionKey(tenant));
+  if (!circuitCheck.allowed) {
+    logger.debug(`Skipping ${syncType} sync for ${tenant.name} - circuit breaker open`);
+    return "skipped";
   }
 
-  const syncTypesStr = syncTypes.join(", ");
-
-  for (const tenant of tenants) {
-    // Check circuit breaker
-    const circuitCheck = canExecute(tenant.id);
-    if (!circuitCheck.allowed) {
-      logger.debug(`Skipping ${syncTypesStr} sync for ${tenant.name} - circuit breaker open`);
-      continue;
+  // The circuit breaker tracks reachability, so only connection problems count
+  // against it; a failing sync is retried by the queue instead
+  try {
+    // Test connection with short timeout
+    const connected = await withTimeout(
+      testTenantConnection(tenant),
+      JOB_CONNECTION_TEST_TIMEOUT_MS,
+      `Connection test for ${tenant.name}`
+    );
+
+    if (!connected) {
+      throw new Error(`Failed to connect to 3CX database at ${tenant.threecx_host}`);
     }
+  } catch (error) {
+    const err = handleError(error);
+    recordFailure(tenantConnectionKey(tenant), err.message);
+    throw err;
+  }
+  recordSuccess(tenantConnectionKey(tenant));
 
-    try {
-      // Test connection with short timeout
-      const connected = await withTimeout(
-        testTenantConnection(tenant),
-        15000,
-        `Connection test for ${tenant.name}`
-      );
+  // Get database pool
+  const pool = await getTenantPool(tenant);
+  if (!pool) {
+    throw new Error("Failed to create database connection pool via SSH tunnel");
+  }
 
-      if (!connected) {
-        recordFailure(tenant.id, `Connection failed for ${syncTypesStr} sync`);
-        continue;
+  switch (syncType) {
+    case "messages":
+      if (tenant.backup_chats) {
+        await syncMessages(100, pool, tenant.id);
       }
+      break;
 
-      // Get database pool
-      const pool = await getTenantPool(tenant);
-      if (!pool) {
-        logger.warn(`No pool available for tenant ${tenant.name}`);
-        continue;
+    case "media":
+      await syncMedia(tenant);
+      // Re-link any orphaned media to messages after download
+      try {
+        const relink = await relinkOrphanedMedia(tenant.id);
+        if (relink.linked > 0) {
+          logger.info("Re-linked orphaned media after media sync", {
+            tenantId: tenant.id,
+            linked: relink.linked,
+          });
+        }
+      } catch (relinkErr) {
+        logger.warn("Media re-linking failed", { error: (relinkErr as Error).message });
       }
+      break;
 
-      // Run requested sync types
-      for (const syncType of syncTypes) {
-        try {
-          switch (syncType) {
-            case "messages":
-              if (tenant.backup_chats) {
-                await syncMessages(100, pool, tenant.id);
-              }
-              break;
-
-            case "media":
-              await syncMedia(tenant);
-              // Re-link any orphaned media to messages after download
-              try {
-                const relink = await relinkOrphanedMedia(tenant.id);
-                if (relink.linked > 0) {
-                  logger.info("Re-linked orphaned media after media sync", {
-                    tenantId: tenant.id,
-                    linked: relink.linked,
-                  });
-                }
-              } catch (relinkErr) {
-                logger.warn("Media re-linking failed", { error: (relinkErr as Error).message });
-              }
-              break;
-
-            case "recordings":
-              await syncRecordings(tenant, pool);
-              break;
-
-            case "voicemails":
-              await syncVoicemails(tenant);
-              break;
-
-            case "faxes":
-              await syncFaxes(tenant);
-              break;
-
-            case "meetings":
-              await syncMeetings(tenant);
-              break;
-
-            case "cdr":
-              if (tenant.backup_cdr) {
-                await syncCdr(pool, tenant.id);
-              }
-              break;
-
-            case "extensions":
-              await syncExtensions(pool, tenant.id);
-              break;
-          }
-        } catch (err) {
-          logger.warn(`${syncType} sync failed for ${tenant.name}`, {
-            error: (err as Error).message,
-          });
+    case "recordings":
+      await syncRecordings(tenant, pool);
+      if (tenant.backup_cdr) {
+        await linkRecordingsAfterSync(tenant.id);
+      }
+      break;
+
+    case "voicemails":
+      await syncVoicemails(tenant);
+      break;
+
+    case "faxes":
+      await syncFaxes(tenant);
+      break;
+
+    case "meetings":
+      await syncMeetings(tenant);
+      break;
+
+    case "cdr":
+      if (tenant.backup_cdr) {
+        await syncCdr(pool, tenant.id);
+        if (tenant.backup_recordings) {
+          await linkRecordingsAfterSync(tenant.id);
         }
       }
+      break;
 
-      recordSuccess(tenant.id);
-    } catch (error) {
-      const err = error as Error;
-      recordFailure(tenant.id, err.message);
-      logger.error(`${syncTypesStr} sync failed for ${tenant.name}`, {
-        error: err.message,
-      });
-    }
+    case "extensions":
+      await syncExtensions(pool, tenant.id);
+      break;
   }
 
-  const duration = Date.now() - startTime;
-  if (duration > 5000) {
-    logger.debug(`${syncTypesStr} sync completed in ${duration}ms for ${tenants.length} tenants`);
-  }
+  return "synced";
 }
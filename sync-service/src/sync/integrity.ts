@@ -0,0 +1,697 @@
+import { logger } from "../utils/logger";
+import { handleError, SupabaseError } from "../utils/errors";
+import { getSupabaseClient } from "../storage/supabase";
+import { hashObject as hashSpacesObject } from "../storage/spaces-storage";
+import { hashObject as hashSupabaseObject } from "../storage/supabase-storage";
+import { chainEntryHash, GENESIS_HASH, messageContentSha256 } from "../utils/integrity";
+
+// ============================================
+// INTEGRITY VERIFICATION
+// ============================================
+// Walks a tenant's integrity chain for a date range and checks three things:
+//   1. the chain itself - every entry hashes its predecessor, sequences have
+//      no gaps, and completed days match their seal;
+//   2. the records - the content_sha256 on the row still matches the chain,
+//      and a record that is gone was purged by retention (integrity_purges);
+//   3. the objects - files in storage are re-hashed and compared.
+// Runs come from `integrity_verifications`: queued by the web app, or
+// enqueued for yesterday by the daily schedule. Completed days are sealed
+// the first time they verify cleanly.
+
+type RecordType = "call_recording" | "voicemail" | "fax" | "media_file" | "meeting_recording" | "message";
+
+const RECORD_TABLES: Record<RecordType, string> = {
+  call_recording: "call_recordings",
+  voicemail: "voicemails",
+  fax: "faxes",
+  media_file: "media_files",
+  meeting_recording: "meeting_recordings",
+  message: "messages",
+};
+
+const MESSAGE_COLUMNS = "id, content_sha256, threecx_message_id, sender_identifier, sender_name, content, sent_at";
+const FILE_COLUMNS = "id, content_sha256, storage_path, storage_backend";
+
+const ENTRY_PAGE_SIZE = 1000;
+const MAX_STORED_ISSUES = 1000;
+const PROGRESS_UPDATE_MS = 5000;
+
+// A running verification updates its row every few seconds; silence this long means it died
+const STALE_RUN_MS = 30 * 60_000;
+
+export interface IntegrityVerification {
+  id: string;
+  tenant_id: string;
+  requested_by: string | null;
+  start_date: string; // YYYY-MM-DD
+  end_date: string;   // YYYY-MM-DD
+}
+
+interface ChainEntry {
+  log_date: string;
+  sequence: number;
+  record_type: RecordType;
+  record_id: string;
+  content_sha256: string;
+  prev_hash: string;
+  entry_hash: string;
+}
+
+export type IntegrityIssueType =
+  | "chain_break"
+  | "seal_mismatch"
+  | "hash_mismatch"
+  | "object_mismatch"
+  | "missing_record"
+  | "missing_file";
+
+interface IntegrityIssue {
+  type: IntegrityIssueType;
+  log_date: string;
+  sequence?: number;
+  record_type?: RecordType;
+  record_id?: string;
+  storage_path?: string;
+  expected?: string;
+  actual?: string;
+  detail?: string;
+}
+
+interface VerificationState {
+  run: IntegrityVerification;
+  head: string;
+  currentDay: string | null;
+  dayCount: number;
+  dayBroken: boolean;
+  entriesChecked: number;
+  objectsChecked: number;
+  chainBreaks: number;
+  mismatches: number;
+  missingFiles: number;
+  deletedRecords: number;
+  issues: IntegrityIssue[];
+  lastProgressAt: number;
+}
+
+function todayUtc(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function yesterdayUtc(): string {
+  return new Date(Date.now() - 86_400_000).toISOString().slice(0, 10);
+}
+
+function recordIssue(state: VerificationState, issue: IntegrityIssue): void {
+  switch (issue.type) {
+    case "chain_break":
+    case "seal_mismatch":
+      state.chainBreaks++;
+      state.dayBroken = true;
+      break;
+    case "missing_file":
+      state.missingFiles++;
+      break;
+    default:
+      state.mismatches++;
+  }
+
+  if (state.issues.length < MAX_STORED_ISSUES) {
+    state.issues.push(issue);
+  }
+
+  logger.warn("Integrity issue", { tenantId: state.run.tenant_id, ...issue });
+}
+
+async function updateRun(runId: string, updates: Record<string, unknown>): Promise<void> {
+  const client = getSupabaseClient();
+  const { error } = await client
+    .from("integrity_verifications")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", runId);
+
+  if (error) {
+    throw new SupabaseError("Failed to update integrity verification", { error });
+  }
+}
+
+function counters(state: VerificationState): Record<string, unknown> {
+  return {
+    entries_checked: state.entriesChecked,
+    objects_checked: state.objectsChecked,
+    chain_breaks: state.chainBreaks,
+    mismatches: state.mismatches,
+    missing_files: state.missingFiles,
+    deleted_records: state.deletedRecords,
+  };
+}
+
+async function reportProgress(state: VerificationState): Promise<void> {
+  const now = Date.now();
+  if (now - state.lastProgressAt < PROGRESS_UPDATE_MS) return;
+  state.lastProgressAt = now;
+  await updateRun(state.run.id, counters(state));
+}
+
+// The chain for the range starts from the last entry before it (or genesis)
+async function getChainAnchor(tenantId: string, startDate: string): Promise<string> {
+  const client = getSupabaseClient();
+
+  const { data, error } = await client
+    .from("integrity_log_entries")
+    .select("entry_hash")
+    .eq("tenant_id", tenantId)
+    .lt("log_date", startDate)
+    .order("log_date", { ascending: false })
+    .order("sequence", { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw new SupabaseError("Failed to read integrity chain anchor", { error });
+  }
+
+  return data && data.length > 0 ? data[0].entry_hash : GENESIS_HASH;
+}
+
+async function fetchEntries(run: IntegrityVerification, offset: number): Promise<ChainEntry[]> {
+  const client = getSupabaseClient();
+
+  const { data, error } = await client
+    .from("integrity_log_entries")
+    .select("log_date, sequence, record_type, record_id, content_sha256, prev_hash, entry_hash")
+    .eq("tenant_id", run.tenant_id)
+    .gte("log_date", run.start_date)
+    .lte("log_date", run.end_date)
+    .order("log_date", { ascending: true })
+    .order("sequence", { ascending: true })
+    .range(offset, offset + ENTRY_PAGE_SIZE - 1);
+
+  if (error) {
+    throw new SupabaseError("Failed to read integrity chain", { error });
+  }
+
+  return (data || []) as ChainEntry[];
+}
+
+// Compare a finished day with its seal, or seal it if it verified cleanly
+async function closeDay(state: VerificationState): Promise<void> {
+  const day = state.currentDay;
+  if (!day || day >= todayUtc()) return;
+
+  const client = getSupabaseClient();
+  const { data: seal, error } = await client
+    .from("integrity_daily_seals")
+    .select("entry_count, head_hash")
+    .eq("tenant_id", state.run.tenant_id)
+    .eq("log_date", day)
+    .maybeSingle();
+
+  if (error) {
+    throw new SupabaseError("Failed to read integrity seal", { error });
+  }
+
+  if (seal) {
+    if (seal.entry_count !== state.dayCount || seal.head_hash !== state.head) {
+      recordIssue(state, {
+        type: "seal_mismatch",
+        log_date: day,
+        expected: `${seal.entry_count} entries, head ${seal.head_hash}`,
+        actual: `${state.dayCount} entries, head ${state.head}`,
+      });
+    }
+    return;
+  }
+
+  if (state.dayBroken) return;
+
+  const { error: sealError } = await client.from("integrity_daily_seals").insert({
+    tenant_id: state.run.tenant_id,
+    log_date: day,
+    entry_count: state.dayCount,
+    head_hash: state.head,
+  });
+
+  // A concurrent run may have sealed the day first; the next run compares against it
+  if (sealError && sealError.code !== "23505") {
+    throw new SupabaseError("Failed to seal integrity day", { error: sealError });
+  }
+}
+
+async function verifyChainEntry(state: VerificationState, entry: ChainEntry): Promise<void> {
+  if (entry.log_date !== state.currentDay) {
+    await closeDay(state);
+    state.currentDay = entry.log_date;
+    state.dayCount = 0;
+    state.dayBroken = false;
+  }
+  state.dayCount++;
+
+  if (entry.sequence !== state.dayCount) {
+    recordIssue(state, {
+      type: "chain_break",
+      log_date: entry.log_date,
+      sequence: entry.sequence,
+      detail: `Expected sequence ${state.dayCount}`,
+    });
+    state.dayCount = entry.sequence;
+  }
+
+  if (entry.prev_hash !== state.head) {
+    recordIssue(state, {
+      type: "chain_break",
+      log_date: entry.log_date,
+      sequence: entry.sequence,
+      expected: state.head,
+      actual: entry.prev_hash,
+      detail: "prev_hash does not match the preceding entry",
+    });
+  }
+
+  const computed = chainEntryHash(entry);
+  if (computed !== entry.entry_hash) {
+    recordIssue(state, {
+      type: "chain_break",
+      log_date: entry.log_date,
+      sequence: entry.sequence,
+      record_type: entry.record_type,
+      record_id: entry.record_id,
+      expected: computed,
+      actual: entry.entry_hash,
+      detail: "entry_hash does not match its contents",
+    });
+  }
+
+  // Continue from the stored hash so one bad entry is reported once, not for the rest of the chain
+  state.head = entry.entry_hash;
+  state.entriesChecked++;
+}
+
+// Record that chained rows are about to be deleted on purpose, so verification
+// does not report them as tampering. Call before the delete: a purge record
+// for a row that survives is harmless, a missing one is a false alarm.
+export async function recordPurgedRecords(
+  tenantId: string,
+  table: string,
+  ids: string[],
+  reason: string
+): Promise<void> {
+  const recordType = (Object.keys(RECORD_TABLES) as RecordType[]).find((t) => RECORD_TABLES[t] === table);
+  if (!recordType || ids.length === 0) return;
+
+  const client = getSupabaseClient();
+  const { error } = await client.from("integrity_purges").upsert(
+    ids.map((id) => ({ tenant_id: tenantId, record_type: recordType, record_id: id, reason })),
+    { onConflict: "tenant_id,record_type,record_id", ignoreDuplicates: true }
+  );
+
+  if (error) {
+    throw new SupabaseError("Failed to record purged records", { error });
+  }
+}
+
+// Ids among `ids` that were deleted on purpose
+async function findPurgedRecords(tenantId: string, recordType: RecordType, ids: string[]): Promise<Set<string>> {
+  const client = getSupabaseClient();
+  const purged = new Set<string>();
+
+  for (let i = 0; i < ids.length; i += 200) {
+    const { data, error } = await client
+      .from("integrity_purges")
+      .select("record_id")
+      .eq("tenant_id", tenantId)
+      .eq("record_type", recordType)
+      .in("record_id", ids.slice(i, i + 200));
+
+    if (error) {
+      throw new SupabaseError("Failed to read integrity purges", { error });
+    }
+    for (const row of data || []) {
+      purged.add(String(row.record_id));
+    }
+  }
+
+  return purged;
+}
+
+// A record re-hashed later (e.g. a re-synced voicemail) has a newer chain entry
+async function hasLaterEntry(tenantId: string, entry: ChainEntry, sha256: string): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  const { count, error } = await client
+    .from("integrity_log_entries")
+    .select("id", { count: "exact", head: true })
+    .eq("tenant_id", tenantId)
+    .eq("record_type", entry.record_type)
+    .eq("record_id", entry.record_id)
+    .eq("content_sha256", sha256)
+    .gte("log_date", entry.log_date);
+
+  if (error) {
+    throw new SupabaseError("Failed to read integrity chain", { error });
+  }
+
+  return (count || 0) > 0;
+}
+
+async function verifyRecords(state: VerificationState, entries: ChainEntry[]): Promise<void> {
+  const client = getSupabaseClient();
+
+  const byType = new Map<RecordType, ChainEntry[]>();
+  for (const entry of entries) {
+    const list = byType.get(entry.record_type) || [];
+    list.push(entry);
+    byType.set(entry.record_type, list);
+  }
+
+  for (const [recordType, typeEntries] of byType) {
+    const table = RECORD_TABLES[recordType];
+    if (!table) continue;
+
+    const ids = Array.from(new Set(typeEntries.map((e) => e.record_id)));
+    const rows = new Map<string, Record<string, unknown>>();
+
+    // Keep the IN list short enough for the request URL
+    for (let i = 0; i < ids.length; i += 200) {
+      const { data, error } = await client
+        .from(table)
+        .select(recordType === "message" ? MESSAGE_COLUMNS : FILE_COLUMNS)
+        .eq("tenant_id", state.run.tenant_id)
+        .in("id", ids.slice(i, i + 200));
+
+      if (error) {
+        throw new SupabaseError(`Failed to read ${table} for verification`, { error });
+      }
+      for (const row of (data || []) as unknown as Record<string, unknown>[]) {
+        rows.set(String(row.id), row);
+      }
+    }
+
+    const missingIds = ids.filter((id) => !rows.has(id));
+    const purged = missingIds.length > 0
+      ? await findPurgedRecords(state.run.tenant_id, recordType, missingIds)
+      : new Set<string>();
+
+    for (const entry of typeEntries) {
+      const row = rows.get(entry.record_id);
+
+      if (!row) {
+        // Removed by retention; the chain entry remains as proof it existed
+        if (purged.has(entry.record_id)) {
+          state.deletedRecords++;
+          continue;
+        }
+        recordIssue(state, {
+          type: "missing_record",
+          log_date: entry.log_date,
+          sequence: entry.sequence,
+          record_type: recordType,
+          record_id: entry.record_id,
+          expected: entry.content_sha256,
+          detail: "Record was deleted without a retention purge",
+        });
+        continue;
+      }
+
+      const storedSha = row.content_sha256 ? String(row.content_sha256) : null;
+      if (storedSha !== entry.content_sha256) {
+        if (storedSha && await hasLaterEntry(state.run.tenant_id, entry, storedSha)) {
+          continue;
+        }
+        recordIssue(state, {
+          type: "hash_mismatch",
+          log_date: entry.log_date,
+          sequence: entry.sequence,
+          record_type: recordType,
+          record_id: entry.record_id,
+          expected: entry.content_sha256,
+          actual: storedSha || "(none)",
+          detail: "content_sha256 on the record differs from the chain",
+        });
+        continue;
+      }
+
+      if (recordType === "message") {
+        const actual = messageContentSha256(row as Parameters<typeof messageContentSha256>[0]);
+        if (actual !== entry.content_sha256) {
+          recordIssue(state, {
+            type: "object_mismatch",
+            log_date: entry.log_date,
+            sequence: entry.sequence,
+            record_type: recordType,
+            record_id: entry.record_id,
+            expected: entry.content_sha256,
+            actual,
+            detail: "Message content changed since it was archived",
+          });
+        }
+        continue;
+      }
+
+      const storagePath = String(row.storage_path);
+      let object: { sha256: string; size: number } | null;
+      try {
+        object = row.storage_backend === "supabase"
+          ? await hashSupabaseObject(storagePath)
+          : await hashSpacesObject(storagePath);
+      } catch (error) {
+        // Transient storage errors are not evidence of tampering; surface them on the run instead
+        throw new Error(`Could not read ${storagePath}: ${(error as Error).message}`);
+      }
+      state.objectsChecked++;
+
+      if (!object) {
+        recordIssue(state, {
+          type: "missing_file",
+          log_date: entry.log_date,
+          sequence: entry.sequence,
+          record_type: recordType,
+          record_id: entry.record_id,
+          storage_path: storagePath,
+          expected: entry.content_sha256,
+        });
+      } else if (object.sha256 !== entry.content_sha256) {
+        recordIssue(state, {
+          type: "object_mismatch",
+          log_date: entry.log_date,
+          sequence: entry.sequence,
+          record_type: recordType,
+          record_id: entry.record_id,
+          storage_path: storagePath,
+          expected: entry.content_sha256,
+          actual: object.sha256,
+        });
+      }
+
+      await reportProgress(state);
+    }
+  }
+}
+
+async function writeAuditLog(run: IntegrityVerification, action: string, values: Record<string, unknown>): Promise<void> {
+  const client = getSupabaseClient();
+  const { error } = await client.from("audit_logs").insert({
+    action,
+    entity_type: "integrity_verification",
+    entity_id: run.id,
+    tenant_id: run.tenant_id,
+    user_id: null,
+    new_values: { requested_by: run.requested_by, ...values },
+  });
+
+  if (error) {
+    logger.error("Failed to write integrity audit log", { runId: run.id, error: error.message });
+  }
+}
+
+// Verify one claimed run. Never throws; failures land on the run row.
+export async function runIntegrityVerification(run: IntegrityVerification): Promise<void> {
+  const startTime = Date.now();
+  logger.info("Integrity verification started", {
+    runId: run.id,
+    tenantId: run.tenant_id,
+    startDate: run.start_date,
+    endDate: run.end_date,
+  });
+
+  const state: VerificationState = {
+    run,
+    head: GENESIS_HASH,
+    currentDay: null,
+    dayCount: 0,
+    dayBroken: false,
+    entriesChecked: 0,
+    objectsChecked: 0,
+    chainBreaks: 0,
+    mismatches: 0,
+    missingFiles: 0,
+    deletedRecords: 0,
+    issues: [],
+    lastProgressAt: 0,
+  };
+
+  try {
+    state.head = await getChainAnchor(run.tenant_id, run.start_date);
+
+    let offset = 0;
+    while (true) {
+      const entries = await fetchEntries(run, offset);
+      if (entries.length === 0) break;
+
+      for (const entry of entries) {
+        await verifyChainEntry(state, entry);
+      }
+      await verifyRecords(state, entries);
+      await reportProgress(state);
+
+      if (entries.length < ENTRY_PAGE_SIZE) break;
+      offset += ENTRY_PAGE_SIZE;
+    }
+    await closeDay(state);
+
+    await updateRun(run.id, {
+      ...counters(state),
+      status: "completed",
+      issues: state.issues,
+      completed_at: new Date().toISOString(),
+      error: null,
+    });
+
+    const failed = state.chainBreaks + state.mismatches + state.missingFiles > 0;
+    await writeAuditLog(run, failed ? "integrity.failed" : "integrity.verified", {
+      start_date: run.start_date,
+      end_date: run.end_date,
+      ...counters(state),
+    });
+
+    const log = failed ? logger.warn.bind(logger) : logger.info.bind(logger);
+    log("Integrity verification completed", {
+      runId: run.id,
+      tenantId: run.tenant_id,
+      ...counters(state),
+      duration: `${Date.now() - startTime}ms`,
+    });
+  } catch (error) {
+    const err = handleError(error);
+    logger.error("Integrity verification failed", { runId: run.id, tenantId: run.tenant_id, error: err.message });
+
+    try {
+      await updateRun(run.id, {
+        ...counters(state),
+        status: "failed",
+        issues: state.issues,
+        error: err.message,
+        completed_at: new Date().toISOString(),
+      });
+    } catch (updateError) {
+      logger.error("Failed to mark integrity verification as failed", {
+        runId: run.id,
+        error: (updateError as Error).message,
+      });
+    }
+  }
+}
+
+// Atomically move the oldest queued run to running. Returns null when the queue is empty.
+async function claimNextVerification(): Promise<IntegrityVerification | null> {
+  const client = getSupabaseClient();
+
+  const { data: queued, error } = await client
+    .from("integrity_verifications")
+    .select("id")
+    .eq("status", "queued")
+    .order("created_at", { ascending: true })
+    .limit(1);
+
+  if (error) {
+    throw new SupabaseError("Failed to read integrity queue", { error });
+  }
+  if (!queued || queued.length === 0) return null;
+
+  const now = new Date().toISOString();
+  const { data: claimed, error: claimError } = await client
+    .from("integrity_verifications")
+    .update({ status: "running", started_at: now, updated_at: now })
+    .eq("id", queued[0].id)
+    .eq("status", "queued")
+    .select("id, tenant_id, requested_by, start_date, end_date");
+
+  if (claimError) {
+    throw new SupabaseError("Failed to claim integrity verification", { error: claimError });
+  }
+
+  // Another worker got there first - try the next one
+  if (!claimed || claimed.length === 0) {
+    return claimNextVerification();
+  }
+  return claimed[0] as IntegrityVerification;
+}
+
+// Runs left running by a crashed or restarted worker never finish on their own
+async function failStaleVerifications(): Promise<void> {
+  const client = getSupabaseClient();
+  const staleBefore = new Date(Date.now() - STALE_RUN_MS).toISOString();
+
+  const { data, error } = await client
+    .from("integrity_verifications")
+    .update({
+      status: "failed",
+      error: "Verification interrupted - please run it again",
+      completed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("status", "running")
+    .lt("updated_at", staleBefore)
+    .select("id");
+
+  if (error) {
+    throw new SupabaseError("Failed to expire stale integrity verifications", { error });
+  }
+  if (data && data.length > 0) {
+    logger.warn(`Marked ${data.length} stale integrity verifications as failed`);
+  }
+}
+
+// Queue yesterday's verification for every active tenant (this also seals the day)
+export async function enqueueDailyVerifications(): Promise<number> {
+  const client = getSupabaseClient();
+  const day = yesterdayUtc();
+
+  const { data: tenants, error } = await client
+    .from("tenants")
+    .select("id")
+    .eq("is_active", true);
+
+  if (error) {
+    throw new SupabaseError("Failed to read tenants for integrity check", { error });
+  }
+  if (!tenants || tenants.length === 0) return 0;
+
+  const { error: insertError } = await client.from("integrity_verifications").insert(
+    tenants.map((tenant) => ({
+      tenant_id: tenant.id,
+      status: "queued",
+      start_date: day,
+      end_date: day,
+    }))
+  );
+
+  if (insertError) {
+    throw new SupabaseError("Failed to queue integrity verifications", { error: insertError });
+  }
+
+  return tenants.length;
+}
+
+// Drain the verification queue one run at a time
+export async function processIntegrityQueue(): Promise<number> {
+  await failStaleVerifications();
+
+  let processed = 0;
+  while (true) {
+    const run = await claimNextVerification();
+    if (!run) break;
+    await runIntegrityVerification(run);
+    processed++;
+  }
+
+  return processed;
+}
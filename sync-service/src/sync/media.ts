@@ -20,6 +20,7 @@ import {
 } from "../storage/sftp";
 import { TenantConfig, getTenantSftpConfig } from "../tenant";
 import { DEFAULT_COMPRESSION_SETTINGS } from "../utils/compression";
+import { startTransferCycle } from "./budget";
 
 export interface MediaSyncResult {
   filesSynced: number;
@@ -151,9 +152,13 @@ export async function syncMedia(
 
     logger.info(`${filesToSync.length} new files to sync, ${result.filesSkipped} already synced`, { tenantId });
 
-    const CONCURRENCY = 4;
-    for (let i = 0; i < filesToSync.length; i += CONCURRENCY) {
-      const batch = filesToSync.slice(i, i + CONCURRENCY);
+    const cycle = startTransferCycle(tenant, "media");
+    const filesThisCycle = cycle.takeItems(filesToSync);
+
+    // Batches never exceed the tenant's transfer budget
+    const CONCURRENCY = Math.min(4, cycle.budget.maxConcurrentTransfers);
+    for (let i = 0; i < filesThisCycle.length; i += CONCURRENCY) {
+      const batch = filesThisCycle.slice(i, i + CONCURRENCY);
       await Promise.all(batch.map(async (file) => {
         try {
           // Determine upload strategy based on file size
@@ -169,6 +174,7 @@ export async function syncMedia(
           let uploadedSize: number;
           let mimeType: string;
           let fileType: string;
+          let sha256: string;
 
           if (useStreaming) {
             // STREAMING: For large files (25MB-500MB), stream directly to S3
@@ -178,33 +184,41 @@ export async function syncMedia(
               size: formatBytes(file.size),
             });
 
-            const stream = await downloadFileStream(sftpClient, file.fullPath);
-            const streamResult = await streamUpload(stream, storagePath, fileInfo.mimeType, file.size);
+            const streamResult = await cycle.transfer(async () => {
+              const stream = await downloadFileStream(sftpClient, file.fullPath);
+              return streamUpload(stream, storagePath, fileInfo.mimeType, file.size);
+            });
+            cycle.recordBytes(file.size);
 
             uploadedPath = streamResult.path;
             uploadedSize = file.size;
             mimeType = fileInfo.mimeType;
             fileType = fileInfo.fileType;
+            sha256 = streamResult.sha256;
           } else {
             // BUFFER: For smaller files (<25MB), download to buffer and compress
-            const buffer = await downloadFile(sftpClient, file.fullPath);
+            const buffer = await cycle.transfer(() => downloadFile(sftpClient, file.fullPath));
+            cycle.recordBytes(buffer.length);
 
             // Detect file type from buffer (more accurate than filename)
             const detected = detectFileType(buffer);
             fileType = detected.fileType;
 
             // Upload with compression
-            const uploadResult = await uploadBufferWithCompression(
-              buffer,
-              storagePath,
-              detected.fileType,
-              detected.extension,
-              DEFAULT_COMPRESSION_SETTINGS
+            const uploadResult = await cycle.transfer(() =>
+              uploadBufferWithCompression(
+                buffer,
+                storagePath,
+                detected.fileType,
+                detected.extension,
+                DEFAULT_COMPRESSION_SETTINGS
+              )
             );
 
             uploadedPath = uploadResult.path;
             uploadedSize = uploadResult.size;
             mimeType = uploadResult.newMimeType;
+            sha256 = uploadResult.sha256;
           }
 
           // Record in database
@@ -217,6 +231,7 @@ export async function syncMedia(
             file_size: uploadedSize,
             storage_path: uploadedPath,
             storage_backend: "spaces",
+            content_sha256: sha256,
           });
 
           result.filesSynced++;
@@ -332,19 +347,19 @@ export async function syncRecordings(
 
     logger.info(`${recordingsToSync.length} new recordings to sync, ${result.filesSkipped} already synced`, { tenantId: tenant.id });
 
-    for (const file of recordingsToSync) {
+    const cycle = startTransferCycle(tenant, "recordings");
+    const sftpClient = sftp;
+
+    for (const file of cycle.takeItems(recordingsToSync)) {
       try {
-        const buffer = await downloadFile(sftp, file.fullPath);
+        const buffer = await cycle.transfer(() => downloadFile(sftpClient, file.fullPath));
+        cycle.recordBytes(buffer.length);
         const { fileType, extension } = detectFileType(buffer);
         const storagePath = generateStoragePath(tenant.id, "recordings", file.filename, extension);
 
         // Upload with compression (recordings are often WAV, compress to MP3)
-        const uploadResult = await uploadBufferWithCompression(
-          buffer,
-          storagePath,
-          fileType,
-          extension,
-          DEFAULT_COMPRESSION_SETTINGS
+        const uploadResult = await cycle.transfer(() =>
+          uploadBufferWithCompression(buffer, storagePath, fileType, extension, DEFAULT_COMPRESSION_SETTINGS)
         );
 
         await insertMediaFileNew({
@@ -356,6 +371,7 @@ export async function syncRecordings(
           file_size: uploadResult.size,
           storage_path: uploadResult.path,
           storage_backend: "spaces",
+          content_sha256: uploadResult.sha256,
         });
 
         result.filesSynced++;
@@ -441,19 +457,19 @@ export async function syncVoicemails(
       }
     }
 
-    for (const file of voicemailsToSync) {
+    const cycle = startTransferCycle(tenant, "voicemails");
+    const sftpClient = sftp;
+
+    for (const file of cycle.takeItems(voicemailsToSync)) {
       try {
-        const buffer = await downloadFile(sftp, file.fullPath);
+        const buffer = await cycle.transfer(() => downloadFile(sftpClient, file.fullPath));
+        cycle.recordBytes(buffer.length);
         const { fileType, extension } = detectFileType(buffer);
         const storagePath = generateStoragePath(tenant.id, "voicemails", file.filename, extension);
 
         // Upload with compression (voicemails are often WAV, compress to MP3)
-        const uploadResult = await uploadBufferWithCompression(
-          buffer,
-          storagePath,
-          fileType,
-          extension,
-          DEFAULT_COMPRESSION_SETTINGS
+        const uploadResult = await cycle.transfer(() =>
+          uploadBufferWithCompression(buffer, storagePath, fileType, extension, DEFAULT_COMPRESSION_SETTINGS)
         );
 
         await insertMediaFileNew({
@@ -465,6 +481,7 @@ export async function syncVoicemails(
           file_size: uploadResult.size,
           storage_path: uploadResult.path,
           storage_backend: "spaces",
+          content_sha256: uploadResult.sha256,
         });
 
         result.filesSynced++;
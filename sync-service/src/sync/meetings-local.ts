@@ -0,0 +1,149 @@
+/**
+ * Local Meetings Sync - Reads directly from filesystem (no SFTP)
+ * Used when sync agent runs on the 3CX server itself.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { logger } from "../utils/logger";
+import { handleError } from "../utils/errors";
+import {
+  uploadFileBuffer,
+  generateStoragePath,
+  fileExists,
+  detectFileType,
+} from "../storage/spaces-storage";
+import { insertMeetingRecording, updateSyncStatus } from "../storage/supabase";
+import { MEETINGS_PATHS, MeetingsSyncResult, parseMeetingFilename } from "./meetings";
+
+interface LocalTenantConfig {
+  id: string;
+  threecx_meetings_path: string | null;
+  backup_meetings: boolean;
+}
+
+const VIDEO_EXTENSIONS = [".mp4", ".webm", ".mkv", ".avi", ".mov"];
+const AUDIO_EXTENSIONS = [".wav", ".mp3", ".ogg"];
+
+export async function syncMeetingsLocal(tenant: LocalTenantConfig): Promise<MeetingsSyncResult> {
+  const result: MeetingsSyncResult = {
+    filesSynced: 0,
+    filesSkipped: 0,
+    errors: [],
+  };
+
+  if (!tenant.backup_meetings) {
+    logger.info("Meeting backup disabled for tenant", { tenantId: tenant.id });
+    return result;
+  }
+
+  // Build list of paths to try - custom path first if configured
+  const pathsToTry = tenant.threecx_meetings_path
+    ? [tenant.threecx_meetings_path, ...MEETINGS_PATHS]
+    : MEETINGS_PATHS;
+
+  try {
+    await updateSyncStatus("meetings", "running", { tenantId: tenant.id });
+
+    // Try each path until we find one with meeting recordings
+    let meetingsPath: string | null = null;
+    let files: string[] = [];
+
+    for (const tryPath of pathsToTry) {
+      if (!fs.existsSync(tryPath)) continue;
+
+      files = (await fs.promises.readdir(tryPath, { withFileTypes: true }))
+        .filter((entry) => entry.isFile())
+        .map((entry) => entry.name)
+        .filter((f) => {
+          const ext = path.extname(f).toLowerCase();
+          return VIDEO_EXTENSIONS.includes(ext) || AUDIO_EXTENSIONS.includes(ext);
+        });
+
+      if (files.length > 0) {
+        meetingsPath = tryPath;
+        logger.info("Found meetings directory", { tenantId: tenant.id, path: tryPath, fileCount: files.length });
+        break;
+      }
+    }
+
+    if (files.length === 0 || !meetingsPath) {
+      const notes = `No meeting recordings found. Checked: ${pathsToTry.join(", ")}`;
+      logger.info("No meeting recording files found on local filesystem", { tenantId: tenant.id, pathsTried: pathsToTry });
+      await updateSyncStatus("meetings", "success", { recordsSynced: 0, notes, tenantId: tenant.id });
+      return result;
+    }
+
+    logger.info(`Found ${files.length} meeting recording files to process`, { tenantId: tenant.id });
+
+    for (const filename of files) {
+      try {
+        const buffer = await fs.promises.readFile(path.posix.join(meetingsPath, filename));
+        const { mimeType, extension } = detectFileType(buffer);
+        const metadata = parseMeetingFilename(filename);
+
+        const storagePath = generateStoragePath(tenant.id, "meetings", filename, extension);
+
+        const exists = await fileExists(storagePath);
+        if (exists) {
+          result.filesSkipped++;
+          continue;
+        }
+
+        const isVideo = VIDEO_EXTENSIONS.includes(path.extname(filename).toLowerCase());
+
+        const { path: uploadedPath, size, sha256 } = await uploadFileBuffer(buffer, storagePath, mimeType);
+
+        await insertMeetingRecording({
+          tenant_id: tenant.id,
+          threecx_meeting_id: metadata.meetingId || filename,
+          meeting_name: metadata.meetingName || filename.replace(/\.\w+$/, ""),
+          host_extension: metadata.hostExtension,
+          original_filename: filename,
+          file_size: size,
+          storage_path: uploadedPath,
+          mime_type: mimeType,
+          has_video: isVideo,
+          has_audio: true,
+          recorded_at: metadata.timestamp?.toISOString() || new Date().toISOString(),
+          meeting_started_at: metadata.timestamp?.toISOString(),
+          storage_backend: "spaces",
+          content_sha256: sha256,
+        });
+
+        result.filesSynced++;
+        logger.debug("Synced meeting recording from local filesystem", { tenantId: tenant.id, filename });
+      } catch (error) {
+        const err = handleError(error);
+        result.errors.push({ filename, error: err.message });
+        logger.error("Failed to sync meeting recording file", {
+          tenantId: tenant.id,
+          filename,
+          error: err.message,
+        });
+      }
+    }
+
+    await updateSyncStatus("meetings", "success", {
+      recordsSynced: result.filesSynced,
+      tenantId: tenant.id,
+    });
+
+    logger.info("Local meetings sync completed", {
+      tenantId: tenant.id,
+      synced: result.filesSynced,
+      skipped: result.filesSkipped,
+      errors: result.errors.length,
+    });
+
+    return result;
+  } catch (error) {
+    const err = handleError(error);
+    logger.error("Local meetings sync failed", { tenantId: tenant.id, error: err.message });
+    await updateSyncStatus("meetings", "error", {
+      errorMessage: err.message,
+      tenantId: tenant.id,
+    });
+    throw err;
+  }
+}
@@ -10,6 +10,8 @@ import {
 import { insertMeetingRecording, updateSyncStatus } from "../storage/supabase";
 import { createSftpClient, listRemoteFiles, closeSftpClient, downloadFile } from "../storage/sftp";
 import { TenantConfig, getTenantSftpConfig } from "../tenant";
+import { SyncWindow, isInSyncWindow } from "./window";
+import { startTransferCycle } from "./budget";
 
 export interface MeetingsSyncResult {
   filesSynced: number;
@@ -18,7 +20,7 @@ export interface MeetingsSyncResult {
 }
 
 // Common 3CX meeting recording paths to try
-const MEETINGS_PATHS = [
+export const MEETINGS_PATHS = [
   "/var/lib/3cxpbx/Instance1/Data/Recordings/Meetings",
   "/var/lib/3cxpbx/Instance1/Data/WebMeetings",
   "/var/lib/3cxpbx/Data/Recordings/Meetings",
@@ -31,7 +33,7 @@ const MEETINGS_PATHS = [
 // - Meeting_Room_Name_20240115_143022.mp4
 // - Webmeeting_12345_20240115.mp4
 // - Conference_ext100_20240115_143022.mp4
-function parseMeetingFilename(filename: string): {
+export function parseMeetingFilename(filename: string): {
   meetingName?: string;
   hostExtension?: string;
   timestamp?: Date;
@@ -116,7 +118,10 @@ function parseDateTime(dateStr: string, timeStr?: string): Date | undefined {
   }
 }
 
-export async function syncMeetings(tenant: TenantConfig): Promise<MeetingsSyncResult> {
+export async function syncMeetings(
+  tenant: TenantConfig,
+  window?: SyncWindow
+): Promise<MeetingsSyncResult> {
   const result: MeetingsSyncResult = {
     filesSynced: 0,
     filesSkipped: 0,
@@ -125,22 +130,26 @@ export async function syncMeetings(tenant: TenantConfig): Promise<MeetingsSyncRe
 
   if (!tenant.backup_meetings) {
     logger.info("Meeting backup disabled for tenant", { tenantId: tenant.id });
-    await updateSyncStatus("meetings", "success", {
-      recordsSynced: 0,
-      notes: "Meetings backup disabled",
-      tenantId: tenant.id,
-    });
+    if (!window) {
+      await updateSyncStatus("meetings", "success", {
+        recordsSynced: 0,
+        notes: "Meetings backup disabled",
+        tenantId: tenant.id,
+      });
+    }
     return result;
   }
 
   const sftpConfig = getTenantSftpConfig(tenant);
   if (!sftpConfig) {
     logger.info("No SFTP credentials configured - skipping meetings sync", { tenantId: tenant.id });
-    await updateSyncStatus("meetings", "success", {
-      recordsSynced: 0,
-      notes: "No SFTP credentials configured - meetings sync skipped",
-      tenantId: tenant.id,
-    });
+    if (!window) {
+      await updateSyncStatus("meetings", "success", {
+        recordsSynced: 0,
+        notes: "No SFTP credentials configured - meetings sync skipped",
+        tenantId: tenant.id,
+      });
+    }
     return result;
   }
 
@@ -151,7 +160,9 @@ export async function syncMeetings(tenant: TenantConfig): Promise<MeetingsSyncRe
 
   let sftp;
   try {
-    await updateSyncStatus("meetings", "running", { tenantId: tenant.id });
+    if (!window) {
+      await updateSyncStatus("meetings", "running", { tenantId: tenant.id });
+    }
 
     sftp = await createSftpClient(sftpConfig);
 
@@ -182,16 +193,28 @@ export async function syncMeetings(tenant: TenantConfig): Promise<MeetingsSyncRe
     if (files.length === 0 || !meetingsPath) {
       const notes = `No meeting recordings found. Checked: ${pathsToTry.join(", ")}`;
       logger.info("No meeting recording files found on remote server", { tenantId: tenant.id, pathsTried: pathsToTry });
-      await updateSyncStatus("meetings", "success", { recordsSynced: 0, notes, tenantId: tenant.id });
+      if (!window) {
+        await updateSyncStatus("meetings", "success", { recordsSynced: 0, notes, tenantId: tenant.id });
+      }
       return result;
     }
 
+    // Window runs only take files whose name dates them inside the window
+    if (window) {
+      files = files.filter((f) => isInSyncWindow(window, f, parseMeetingFilename(f).timestamp || null));
+    }
+
     logger.info(`Found ${files.length} meeting recording files to process`, { tenantId: tenant.id });
 
-    for (const filename of files) {
+    const cycle = startTransferCycle(tenant, "meetings");
+    const sftpClient = sftp;
+
+    for (let i = 0; i < files.length; i++) {
+      const filename = files[i];
       try {
         const remotePath = path.posix.join(meetingsPath, filename);
-        const buffer = await downloadFile(sftp, remotePath);
+        const buffer = await cycle.transfer(() => downloadFile(sftpClient, remotePath));
+        cycle.recordBytes(buffer.length);
         const { mimeType, extension } = detectFileType(buffer);
         const metadata = parseMeetingFilename(filename);
 
@@ -203,11 +226,19 @@ export async function syncMeetings(tenant: TenantConfig): Promise<MeetingsSyncRe
           continue;
         }
 
+        // Already-archived files don't count against the item budget
+        if (!cycle.takeItem()) {
+          cycle.logDeferred(files.length - i);
+          break;
+        }
+
         // Determine if it's video or audio only
         const ext = path.extname(filename).toLowerCase();
         const isVideo = [".mp4", ".webm", ".mkv", ".avi", ".mov"].includes(ext);
 
-        const { path: uploadedPath, size } = await uploadFileBuffer(buffer, storagePath, mimeType);
+        const { path: uploadedPath, size, sha256 } = await cycle.transfer(() =>
+          uploadFileBuffer(buffer, storagePath, mimeType)
+        );
 
         await insertMeetingRecording({
           tenant_id: tenant.id,
@@ -223,6 +254,7 @@ export async function syncMeetings(tenant: TenantConfig): Promise<MeetingsSyncRe
           recorded_at: metadata.timestamp?.toISOString() || new Date().toISOString(),
           meeting_started_at: metadata.timestamp?.toISOString(),
           storage_backend: "spaces",
+          content_sha256: sha256,
         });
 
         result.filesSynced++;
@@ -238,10 +270,12 @@ export async function syncMeetings(tenant: TenantConfig): Promise<MeetingsSyncRe
       }
     }
 
-    await updateSyncStatus("meetings", "success", {
-      recordsSynced: result.filesSynced,
-      tenantId: tenant.id,
-    });
+    if (!window) {
+      await updateSyncStatus("meetings", "success", {
+        recordsSynced: result.filesSynced,
+        tenantId: tenant.id,
+      });
+    }
 
     logger.info("Meetings sync completed", {
       tenantId: tenant.id,
@@ -254,10 +288,12 @@ export async function syncMeetings(tenant: TenantConfig): Promise<MeetingsSyncRe
   } catch (error) {
     const err = handleError(error);
     logger.error("Meetings sync failed", { tenantId: tenant.id, error: err.message });
-    await updateSyncStatus("meetings", "error", {
-      errorMessage: err.message,
-      tenantId: tenant.id,
-    });
+    if (!window) {
+      await updateSyncStatus("meetings", "error", {
+        errorMessage: err.message,
+        tenantId: tenant.id,
+      });
+    }
     throw err;
   } finally {
     if (sftp) {
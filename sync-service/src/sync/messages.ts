@@ -4,13 +4,11 @@ import { handleError } from "../utils/errors";
 import {
   getNewMessages,
   getConversations,
-  getAllLiveConversations,
   getFileMappings,
   getAllFileMappings,
 } from "../threecx/queries";
 import {
   upsertConversation,
-  bulkUpsertConversations,
   upsertParticipant,
   updateConversationNameFromParticipants,
   insertMessage,
@@ -22,6 +20,11 @@ import {
   getUnlinkedMediaCount,
   getMessagesByThreecxIds,
 } from "../storage/supabase";
+import { agentIngest } from "../storage/agent-transport";
+import { messageContentSha256 } from "../utils/integrity";
+import { syncConversations } from "./conversations";
+import { checkMessagePolicies } from "./policy";
+import { SyncWindow, isInSyncWindow, isPastSyncWindow, windowSince } from "./window";
 
 // Rate-limit expensive operations
 let convSyncCycleCount = 0;
@@ -114,39 +117,11 @@ function detectMediaInMessage(message: string | null): {
   return { hasMedia: false, messageType: "text" };
 }
 
-// Sync all conversations from live table (including empty ones)
-async function syncAllConversations(
-  pool: Pool | undefined,
-  tenantId: string | undefined
-): Promise<{ created: number; updated: number }> {
-  try {
-    const liveConversations = await getAllLiveConversations(pool);
-    if (liveConversations.length === 0) return { created: 0, updated: 0 };
-
-    // Single bulk upsert — 1 request instead of 346 individual upserts
-    await bulkUpsertConversations(
-      liveConversations.map((conv) => ({
-        threecx_conversation_id: conv.conversation_id,
-        conversation_name: conv.chat_name || null,
-        channel_type: "internal",
-        is_external: conv.is_external,
-        is_group_chat: conv.is_group_chat,
-        tenant_id: tenantId,
-      }))
-    );
-
-    logger.info(`Conversations from live table: ${liveConversations.length} upserted`);
-    return { created: 0, updated: liveConversations.length };
-  } catch (error) {
-    logger.warn("Failed to sync live conversations", { error: (error as Error).message });
-    return { created: 0, updated: 0 };
-  }
-}
-
 export async function syncMessages(
   batchSize: number = 100,
   pool?: Pool,
-  tenantId?: string
+  tenantId?: string,
+  window?: SyncWindow
 ): Promise<MessageSyncResult> {
   const result: MessageSyncResult = {
     messagesSynced: 0,
@@ -155,21 +130,26 @@ export async function syncMessages(
   };
 
   try {
-    await updateSyncStatus("messages", "running", { tenantId });
+    if (!window) {
+      await updateSyncStatus("messages", "running", { tenantId });
+    }
 
     // Sync all conversations from live table (including empty group chats)
     // Cycle-counted to avoid running on every 30-second message sync
-    convSyncCycleCount++;
-    if (convSyncCycleCount % CONV_SYNC_EVERY_N_CYCLES === 0) {
-      const conversationSync = await syncAllConversations(pool, tenantId);
-      result.conversationsCreated += conversationSync.created;
+    if (!window && ++convSyncCycleCount % CONV_SYNC_EVERY_N_CYCLES === 0) {
+      try {
+        await syncConversations(pool, tenantId);
+      } catch (error) {
+        logger.warn("Failed to sync live conversations", { error: (error as Error).message });
+      }
     }
 
-    // Get last synced timestamp
-    let lastSynced = await getLastSyncedTimestamp("messages", tenantId);
+    // Get last synced timestamp (window runs start at the window instead)
+    let lastSynced = window ? windowSince(window) : await getLastSyncedTimestamp("messages", tenantId);
     logger.info("Starting message sync", {
       tenantId,
       lastSynced: lastSynced?.toISOString() || "never",
+      windowEnd: window?.end.toISOString(),
     });
 
     // Paginate through all new messages
@@ -179,9 +159,12 @@ export async function syncMessages(
 
     while (hasMoreMessages) {
       // Fetch new messages from 3CX
-      const messages = await getNewMessages(lastSynced, batchSize, pool);
+      const fetched = await getNewMessages(lastSynced, batchSize, pool);
+      const messages = window
+        ? fetched.filter((m) => isInSyncWindow(window, m.message_id, m.time_sent))
+        : fetched;
 
-      if (messages.length === 0) {
+      if (fetched.length === 0) {
         hasMoreMessages = false;
         if (totalProcessed === 0) {
           logger.info("No new messages to sync", { tenantId });
@@ -290,6 +273,15 @@ export async function syncMessages(
           if (messageId) {
             result.messagesSynced++;
 
+            await checkMessagePolicies({
+              id: messageId,
+              tenant_id: tenantId || "",
+              conversation_id: supabaseConversationId,
+              content: msg.message,
+              sent_at: msg.time_sent.toISOString(),
+              is_external: msg.is_external,
+            });
+
             // Track media messages for batch linking via 3CX file mappings
             if (hasMedia && msg.message && supabaseConversationId) {
               mediaMessagesInBatch.push({
@@ -372,18 +364,21 @@ export async function syncMessages(
       totalProcessed += messages.length;
 
       // Update the cursor for next batch - use the last message's timestamp + 1ms buffer
-      if (messages.length > 0) {
-        const lastMsg = messages[messages.length - 1];
-        lastSynced = new Date(lastMsg.time_sent.getTime() + 1);
-      }
+      const lastMsg = fetched[fetched.length - 1];
+      lastSynced = new Date(lastMsg.time_sent.getTime() + 1);
 
       // If we got fewer messages than batchSize, we've reached the end
-      if (messages.length < batchSize) {
+      if (fetched.length < batchSize) {
+        hasMoreMessages = false;
+      }
+
+      // Window runs stop once 3CX hands back messages past the end of the window
+      if (window && isPastSyncWindow(window, lastMsg.time_sent)) {
         hasMoreMessages = false;
       }
 
       // Save progress after each batch
-      if (lastTimestamp) {
+      if (lastTimestamp && !window) {
         await updateSyncStatus("messages", "running", {
           lastSyncedTimestamp: lastTimestamp,
           recordsSynced: result.messagesSynced,
@@ -394,11 +389,13 @@ export async function syncMessages(
 
     // Mark messages sync as successful NOW — before the backfill — so health checks
     // don't see stale last_success_at while the backfill runs (can take 10-15+ min)
-    await updateSyncStatus("messages", "success", {
-      lastSyncedTimestamp: lastTimestamp || undefined,
-      recordsSynced: result.messagesSynced,
-      tenantId,
-    });
+    if (!window) {
+      await updateSyncStatus("messages", "success", {
+        lastSyncedTimestamp: lastTimestamp || undefined,
+        recordsSynced: result.messagesSynced,
+        tenantId,
+      });
+    }
 
     logger.info("Message sync completed", {
       tenantId,
@@ -410,7 +407,7 @@ export async function syncMessages(
 
     // Backfill: link any remaining unlinked media files using 3CX file mappings.
     // Runs fire-and-forget so it never blocks or times out the main sync cycle.
-    if (tenantId && Date.now() - lastMediaBackfillAt >= MEDIA_BACKFILL_INTERVAL_MS) {
+    if (!window && tenantId && Date.now() - lastMediaBackfillAt >= MEDIA_BACKFILL_INTERVAL_MS) {
       lastMediaBackfillAt = Date.now();
       void (async () => {
         try {
@@ -457,6 +454,112 @@ export async function syncMessages(
       })();
     }
 
+    return result;
+  } catch (error) {
+    const err = handleError(error);
+    logger.error("Message sync failed", { tenantId, error: err.message });
+    if (!window) {
+      await updateSyncStatus("messages", "error", {
+        errorMessage: err.message,
+        tenantId,
+      });
+    }
+    throw err;
+  }
+}
+
+/**
+ * Message sync for installed agents (agent transport). Agents cannot read the
+ * archive, so conversations and messages are sent in batches keyed by their
+ * 3CX ids and the ingest API resolves conversations and sender participants
+ * and runs the tenant's policy checks. Media linking needs archive reads and
+ * is not done for agent installs.
+ */
+export async function syncMessagesViaAgent(
+  batchSize: number = 100,
+  pool?: Pool,
+  tenantId?: string
+): Promise<MessageSyncResult> {
+  const result: MessageSyncResult = {
+    messagesSynced: 0,
+    conversationsCreated: 0,
+    errors: [],
+  };
+
+  try {
+    await updateSyncStatus("messages", "running", { tenantId });
+
+    let lastSynced = await getLastSyncedTimestamp("messages", tenantId);
+    let lastTimestamp: string | null = null;
+    logger.info("Starting message sync (agent transport)", {
+      tenantId,
+      lastSynced: lastSynced?.toISOString() || "never",
+    });
+
+    while (true) {
+      const messages = await getNewMessages(lastSynced, batchSize, pool);
+      if (messages.length === 0) break;
+
+      const conversationIds = [...new Set(messages.map((m) => m.conversation_id))];
+      const conversations = await getConversations(conversationIds, pool);
+      const conversationMap = new Map(conversations.map((c) => [c.conversation_id, c]));
+
+      await agentIngest("conversations", conversationIds.map((id) => {
+        const convMeta = conversationMap.get(id);
+        return {
+          threecx_conversation_id: id,
+          conversation_name: convMeta?.chat_name || null,
+          channel_type: mapProviderToChannel(convMeta?.provider_type || null),
+          is_external: messages.some((m) => m.conversation_id === id && m.is_external),
+          is_group_chat: parseParticipants(convMeta?.participants_grp_array || null).length > 2,
+        };
+      }));
+
+      const rows = messages.map((msg) => {
+        const { hasMedia, messageType } = detectMediaInMessage(msg.message);
+        const row = {
+          threecx_conversation_id: msg.conversation_id,
+          threecx_message_id: msg.message_id,
+          sender_identifier: msg.sender_participant_no || null,
+          sender_name: msg.sender_participant_name || null,
+          content: msg.message,
+          message_type: messageType,
+          has_media: hasMedia,
+          sent_at: msg.time_sent.toISOString(),
+        };
+        return { ...row, content_sha256: messageContentSha256(row) };
+      });
+
+      const { written, rejected } = await agentIngest("messages", rows);
+      result.messagesSynced += written;
+      result.errors.push(...rejected.map((r) => ({ messageId: rows[r.index].threecx_message_id, error: r.error })));
+
+      // Same 1ms buffer as syncMessages
+      const lastMsg = messages[messages.length - 1];
+      lastSynced = new Date(lastMsg.time_sent.getTime() + 1);
+      lastTimestamp = lastSynced.toISOString();
+
+      await updateSyncStatus("messages", "running", {
+        lastSyncedTimestamp: lastTimestamp,
+        recordsSynced: result.messagesSynced,
+        tenantId,
+      });
+
+      if (messages.length < batchSize) break;
+    }
+
+    await updateSyncStatus("messages", "success", {
+      lastSyncedTimestamp: lastTimestamp || undefined,
+      recordsSynced: result.messagesSynced,
+      tenantId,
+    });
+
+    logger.info("Message sync completed (agent transport)", {
+      tenantId,
+      synced: result.messagesSynced,
+      errors: result.errors.length,
+    });
+
     return result;
   } catch (error) {
     const err = handleError(error);
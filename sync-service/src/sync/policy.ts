@@ -0,0 +1,182 @@
+import { logger } from "../utils/logger";
+import { hasNestedQuantifier } from "../utils/regex-safety";
+import {
+  BusinessHours,
+  NewPolicyFlag,
+  PolicyFlagReason,
+  PolicyRule,
+  getActivePolicyRules,
+  insertPolicyFlags,
+} from "../storage/policy";
+
+// ============================================
+// POLICY EVALUATION
+// ============================================
+// A rule flags a message when every condition it sets holds (external
+// conversation, sent outside business hours) and, if it lists keywords or
+// patterns, at least one of them matches the message text.
+
+export interface ArchivedMessage {
+  id: string;
+  tenant_id: string;
+  conversation_id: string | null;
+  content: string | null;
+  sent_at: string;
+  is_external: boolean;
+}
+
+// Only the start of very long messages is scanned, so one pasted log file
+// can't stall the sync on a slow pattern
+const MAX_SCAN_LENGTH = 20_000;
+
+const regexCache: Map<string, RegExp | null> = new Map();
+
+function compile(source: string): RegExp | null {
+  if (regexCache.has(source)) return regexCache.get(source)!;
+
+  let regex: RegExp | null = null;
+  if (hasNestedQuantifier(source)) {
+    logger.warn("Skipping policy pattern with nested quantifiers", { pattern: source });
+  } else {
+    try {
+      regex = new RegExp(source, "iu");
+    } catch (error) {
+      logger.warn("Skipping invalid policy pattern", { pattern: source, error: (error as Error).message });
+    }
+  }
+  regexCache.set(source, regex);
+  return regex;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Whole-word match: not part of a longer word on either side
+function keywordRegex(keyword: string): RegExp | null {
+  return compile(`(?<![\\p{L}\\p{N}_])${escapeRegex(keyword)}(?![\\p{L}\\p{N}_])`);
+}
+
+// Only the last four characters of what a pattern caught are kept
+function maskMatch(match: string): string {
+  const visible = match.length > 4 ? match.slice(-4) : "";
+  return "•".repeat(Math.min(Math.max(match.length - visible.length, 4), 12)) + visible;
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether `date` falls inside the business hours, in their time zone.
+ * An end before the start spans midnight (e.g. 22:00-06:00 night shifts).
+ */
+export function isWithinBusinessHours(date: Date, hours: BusinessHours): boolean {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: hours.timezone,
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(date);
+  } catch {
+    return true; // Unknown time zone: never flag on time alone
+  }
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || "";
+  const day = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(get("weekday"));
+  const minutes = Number(get("hour")) * 60 + Number(get("minute"));
+  const start = minutesOf(hours.start);
+  const end = minutesOf(hours.end);
+
+  if (start <= end) {
+    return hours.days.includes(day) && minutes >= start && minutes < end;
+  }
+  // Overnight: the late part belongs to today, the early part to yesterday's shift
+  if (minutes >= start) return hours.days.includes(day);
+  return minutes < end && hours.days.includes((day + 6) % 7);
+}
+
+/**
+ * Why `rule` flags `message`, or null when it doesn't.
+ */
+export function evaluatePolicyRule(rule: PolicyRule, message: ArchivedMessage): PolicyFlagReason[] | null {
+  const reasons: PolicyFlagReason[] = [];
+
+  if (rule.external_only) {
+    if (!message.is_external) return null;
+    reasons.push({ type: "external" });
+  }
+
+  if (rule.after_hours_only) {
+    if (isWithinBusinessHours(new Date(message.sent_at), rule.business_hours)) return null;
+    reasons.push({ type: "after_hours" });
+  }
+
+  if (rule.keywords.length === 0 && rule.patterns.length === 0) {
+    return reasons.length > 0 ? reasons : null;
+  }
+
+  const text = (message.content || "").slice(0, MAX_SCAN_LENGTH);
+  if (!text) return null;
+
+  const hits: PolicyFlagReason[] = [];
+  for (const keyword of rule.keywords) {
+    if (keywordRegex(keyword)?.test(text)) {
+      hits.push({ type: "keyword", value: keyword });
+    }
+  }
+  for (const pattern of rule.patterns) {
+    const match = compile(pattern)?.exec(text);
+    if (match && match[0]) {
+      hits.push({ type: "pattern", value: maskMatch(match[0]) });
+    }
+  }
+
+  return hits.length > 0 ? [...hits, ...reasons] : null;
+}
+
+/**
+ * Evaluate the tenant's active rules against a newly archived message and
+ * queue a flag for each hit. Never throws: monitoring must not fail the sync.
+ */
+export async function checkMessagePolicies(message: ArchivedMessage): Promise<void> {
+  try {
+    const rules = await getActivePolicyRules(message.tenant_id);
+    if (rules.length === 0) return;
+
+    const flags: NewPolicyFlag[] = [];
+    for (const rule of rules) {
+      const reasons = evaluatePolicyRule(rule, message);
+      if (!reasons) continue;
+      flags.push({
+        tenant_id: message.tenant_id,
+        rule_id: rule.id,
+        rule_name: rule.name,
+        severity: rule.severity,
+        message_id: message.id,
+        conversation_id: message.conversation_id,
+        message_sent_at: message.sent_at,
+        reasons,
+      });
+    }
+
+    const created = await insertPolicyFlags(flags);
+    if (created > 0) {
+      logger.info("Message flagged by policy rules", {
+        tenantId: message.tenant_id,
+        messageId: message.id,
+        rules: flags.map((f) => f.rule_name),
+      });
+    }
+  } catch (error) {
+    logger.warn("Policy evaluation failed", {
+      tenantId: message.tenant_id,
+      messageId: message.id,
+      error: (error as Error).message,
+    });
+  }
+}
@@ -0,0 +1,509 @@
+import { logger } from "../utils/logger";
+import { handleError, SupabaseError } from "../utils/errors";
+import { getSupabaseClient } from "../storage/supabase";
+import { currentPbxInstanceId, runInPbxInstance } from "../storage/pbx-instance";
+import { TenantConfig, getActiveTenants, uniqueTenants } from "../tenant";
+import { ReconcileSourceType, getSourceDailyCounts, getSourceIds } from "../threecx/queries";
+import { findSyncTenant, runWindowSync } from "./backfill";
+import { evaluateSyncGate, isSyncAllowed } from "./gating";
+
+// ============================================
+// RECONCILIATION
+// ============================================
+// Compares 3CX with the archive one UTC day at a time. For every day whose
+// counts disagree, the 3CX ids for that day are looked up in the archive and
+// the ones with no row are stored on a reconciliation_diffs row. A super
+// admin can then queue a backfill of a diff, which re-runs the normal sync
+// for that day restricted to the missing ids (see ./window). Tenants with
+// several 3CX systems are reconciled against their primary one.
+
+type ReconcileDataType = ReconcileSourceType;
+
+interface ReconcileTarget {
+  table: string;
+  dateColumn: string;
+  idColumn: string;
+  enabled: (tenant: TenantConfig) => boolean;
+}
+
+// Column names match the sync inserts (call recordings keep their 3CX id in threecx_call_id)
+const RECONCILE_TARGETS: Record<ReconcileDataType, ReconcileTarget> = {
+  messages: { table: "messages", dateColumn: "sent_at", idColumn: "threecx_message_id", enabled: (t) => t.backup_chats },
+  cdr: { table: "call_logs", dateColumn: "started_at", idColumn: "threecx_call_id", enabled: (t) => t.backup_cdr },
+  recordings: { table: "call_recordings", dateColumn: "started_at", idColumn: "threecx_call_id", enabled: (t) => t.backup_recordings },
+  voicemails: { table: "voicemails", dateColumn: "received_at", idColumn: "threecx_voicemail_id", enabled: (t) => t.backup_voicemails },
+};
+
+const RECONCILE_DATA_TYPES = Object.keys(RECONCILE_TARGETS) as ReconcileDataType[];
+
+const DAY_MS = 86_400_000;
+const ID_CHUNK_SIZE = 200;
+const MAX_STORED_MISSING_IDS = 5000;
+
+// A running job updates its row as it goes; silence this long means it died
+const STALE_RUN_MS = 30 * 60_000;
+
+export interface ReconciliationRun {
+  id: string;
+  tenant_id: string;
+  requested_by: string | null;
+  start_date: string; // YYYY-MM-DD
+  end_date: string;   // YYYY-MM-DD
+  data_types: string[];
+}
+
+export interface ReconciliationDiff {
+  id: string;
+  tenant_id: string;
+  data_type: ReconcileDataType;
+  diff_date: string;
+  missing_count: number;
+  missing_ids: string[];
+  backfill_requested_by: string | null;
+}
+
+function dayStart(day: string): Date {
+  return new Date(`${day}T00:00:00.000Z`);
+}
+
+function daysInRange(startDate: string, endDate: string): string[] {
+  const days: string[] = [];
+  for (let time = dayStart(startDate).getTime(); time <= dayStart(endDate).getTime(); time += DAY_MS) {
+    days.push(new Date(time).toISOString().slice(0, 10));
+  }
+  return days;
+}
+
+async function countArchived(tenantId: string, target: ReconcileTarget, day: string): Promise<number> {
+  const client = getSupabaseClient();
+  const start = dayStart(day);
+  const pbxInstanceId = currentPbxInstanceId();
+
+  const { count, error } = await client
+    .from(target.table)
+    .select("id", { count: "exact", head: true })
+    .eq("tenant_id", tenantId)
+    .filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId)
+    .gte(target.dateColumn, start.toISOString())
+    .lt(target.dateColumn, new Date(start.getTime() + DAY_MS).toISOString());
+
+  if (error) {
+    throw new SupabaseError(`Failed to count archived ${target.table}`, { error });
+  }
+  return count || 0;
+}
+
+// 3CX ids with no archived row at all, on any day - a row archived under a
+// slightly different timestamp is not missing.
+async function findMissingIds(tenantId: string, target: ReconcileTarget, ids: string[]): Promise<string[]> {
+  const client = getSupabaseClient();
+  const pbxInstanceId = currentPbxInstanceId();
+  const missing: string[] = [];
+
+  for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+    const chunk = ids.slice(i, i + ID_CHUNK_SIZE);
+    const { data, error } = await client
+      .from(target.table)
+      .select(target.idColumn)
+      .eq("tenant_id", tenantId)
+      .filter("pbx_instance_id", pbxInstanceId ? "eq" : "is", pbxInstanceId)
+      .in(target.idColumn, chunk);
+
+    if (error) {
+      throw new SupabaseError(`Failed to look up archived ${target.table}`, { error });
+    }
+
+    const archived = new Set(
+      ((data || []) as unknown as Array<Record<string, unknown>>).map((row) => String(row[target.idColumn]))
+    );
+    missing.push(...chunk.filter((id) => !archived.has(id)));
+  }
+
+  return missing;
+}
+
+async function updateRun(runId: string, updates: Record<string, unknown>): Promise<void> {
+  const client = getSupabaseClient();
+  const { error } = await client
+    .from("reconciliation_runs")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", runId);
+
+  if (error) {
+    throw new SupabaseError("Failed to update reconciliation run", { error });
+  }
+}
+
+async function updateDiff(diffId: string, updates: Record<string, unknown>): Promise<void> {
+  const client = getSupabaseClient();
+  const { error } = await client
+    .from("reconciliation_diffs")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", diffId);
+
+  if (error) {
+    throw new SupabaseError("Failed to update reconciliation diff", { error });
+  }
+}
+
+// Reconcile one claimed run. Never throws; failures land on the run row.
+export async function runReconciliation(run: ReconciliationRun): Promise<void> {
+  const startTime = Date.now();
+  const client = getSupabaseClient();
+  const days = daysInRange(run.start_date, run.end_date);
+  let diffCount = 0;
+  let missingTotal = 0;
+
+  logger.info("Reconciliation started", {
+    runId: run.id,
+    tenantId: run.tenant_id,
+    startDate: run.start_date,
+    endDate: run.end_date,
+  });
+
+  try {
+    const { tenant, pool } = await findSyncTenant(run.tenant_id);
+
+    const requested = run.data_types.length > 0 ? run.data_types : RECONCILE_DATA_TYPES;
+    const dataTypes = RECONCILE_DATA_TYPES.filter(
+      (type) => requested.includes(type) && RECONCILE_TARGETS[type].enabled(tenant)
+    );
+
+    const rangeStart = dayStart(run.start_date);
+    const rangeEnd = new Date(dayStart(run.end_date).getTime() + DAY_MS);
+
+    await runInPbxInstance(tenant.pbx_instance_id, async () => {
+      for (const dataType of dataTypes) {
+        const target = RECONCILE_TARGETS[dataType];
+        const sourceCounts = await getSourceDailyCounts(dataType, rangeStart, rangeEnd, pool);
+
+        if (!sourceCounts) {
+          logger.info(`No ${dataType} source in 3CX - skipping reconciliation`, { tenantId: tenant.id });
+          continue;
+        }
+
+        for (const day of days) {
+          const sourceCount = sourceCounts.get(day) || 0;
+          const archivedCount = await countArchived(tenant.id, target, day);
+          if (sourceCount === archivedCount) continue;
+
+          let missing: string[] = [];
+          if (sourceCount > 0) {
+            const start = dayStart(day);
+            const sourceIds = await getSourceIds(dataType, start, new Date(start.getTime() + DAY_MS), pool);
+            missing = await findMissingIds(tenant.id, target, sourceIds);
+          }
+
+          const { error } = await client.from("reconciliation_diffs").insert({
+            run_id: run.id,
+            tenant_id: tenant.id,
+            data_type: dataType,
+            diff_date: day,
+            source_count: sourceCount,
+            archived_count: archivedCount,
+            missing_count: missing.length,
+            missing_ids: missing.slice(0, MAX_STORED_MISSING_IDS),
+          });
+
+          if (error) {
+            throw new SupabaseError("Failed to save reconciliation diff", { error });
+          }
+
+          diffCount++;
+          missingTotal += missing.length;
+        }
+
+        // Also keeps the run from looking stale on long ranges
+        await updateRun(run.id, { days_checked: days.length, diff_count: diffCount, missing_total: missingTotal });
+      }
+    });
+
+    await updateRun(run.id, {
+      status: "completed",
+      days_checked: days.length,
+      diff_count: diffCount,
+      missing_total: missingTotal,
+      completed_at: new Date().toISOString(),
+      error: null,
+    });
+
+    const log = missingTotal > 0 ? logger.warn.bind(logger) : logger.info.bind(logger);
+    log("Reconciliation completed", {
+      runId: run.id,
+      tenantId: run.tenant_id,
+      days: days.length,
+      diffs: diffCount,
+      missing: missingTotal,
+      duration: `${Date.now() - startTime}ms`,
+    });
+  } catch (error) {
+    const err = handleError(error);
+    logger.error("Reconciliation failed", { runId: run.id, tenantId: run.tenant_id, error: err.message });
+
+    try {
+      await updateRun(run.id, {
+        status: "failed",
+        diff_count: diffCount,
+        missing_total: missingTotal,
+        error: err.message,
+        completed_at: new Date().toISOString(),
+      });
+    } catch (updateError) {
+      logger.error("Failed to mark reconciliation run as failed", {
+        runId: run.id,
+        error: (updateError as Error).message,
+      });
+    }
+  }
+}
+
+// Backfill one claimed diff. Never throws; failures land on the diff row.
+export async function runDiffBackfill(diff: ReconciliationDiff): Promise<void> {
+  const startTime = Date.now();
+  const target = RECONCILE_TARGETS[diff.data_type];
+
+  logger.info("Reconciliation backfill started", {
+    diffId: diff.id,
+    tenantId: diff.tenant_id,
+    dataType: diff.data_type,
+    day: diff.diff_date,
+    ids: diff.missing_ids.length,
+  });
+
+  try {
+    if (!target) {
+      throw new Error(`Unsupported data type: ${diff.data_type}`);
+    }
+    if (diff.missing_ids.length === 0) {
+      throw new Error("Nothing to backfill - no missing ids recorded for this day");
+    }
+
+    const { tenant, pool } = await findSyncTenant(diff.tenant_id);
+    const start = dayStart(diff.diff_date);
+
+    const gate = evaluateSyncGate(tenant);
+    if (!isSyncAllowed(gate, diff.data_type)) {
+      throw new Error(`Sync ${gate.gate}: ${gate.reason} - request the backfill again once it is lifted`);
+    }
+
+    // Re-run the regular sync for the day, restricted to the missing ids
+    const stillMissing = await runInPbxInstance(tenant.pbx_instance_id, async () => {
+      await runWindowSync(diff.data_type, tenant, pool, {
+        start,
+        end: new Date(start.getTime() + DAY_MS),
+        ids: new Set(diff.missing_ids),
+      });
+      return findMissingIds(tenant.id, target, diff.missing_ids);
+    });
+    const backfilled = diff.missing_ids.length - stillMissing.length;
+
+    await updateDiff(diff.id, {
+      backfill_status: "completed",
+      backfilled_count: backfilled,
+      still_missing_count: diff.missing_count - backfilled,
+      backfill_error: null,
+      backfill_completed_at: new Date().toISOString(),
+    });
+
+    const { error } = await getSupabaseClient().from("audit_logs").insert({
+      action: "reconciliation.backfilled",
+      entity_type: "reconciliation_diff",
+      entity_id: diff.id,
+      tenant_id: diff.tenant_id,
+      user_id: null,
+      new_values: {
+        requested_by: diff.backfill_requested_by,
+        data_type: diff.data_type,
+        diff_date: diff.diff_date,
+        backfilled,
+        still_missing: diff.missing_count - backfilled,
+      },
+    });
+    if (error) {
+      logger.error("Failed to write reconciliation audit log", { diffId: diff.id, error: error.message });
+    }
+
+    logger.info("Reconciliation backfill completed", {
+      diffId: diff.id,
+      tenantId: diff.tenant_id,
+      backfilled,
+      stillMissing: stillMissing.length,
+      duration: `${Date.now() - startTime}ms`,
+    });
+  } catch (error) {
+    const err = handleError(error);
+    logger.error("Reconciliation backfill failed", { diffId: diff.id, tenantId: diff.tenant_id, error: err.message });
+
+    try {
+      await updateDiff(diff.id, {
+        backfill_status: "failed",
+        backfill_error: err.message,
+        backfill_completed_at: new Date().toISOString(),
+      });
+    } catch (updateError) {
+      logger.error("Failed to mark reconciliation backfill as failed", {
+        diffId: diff.id,
+        error: (updateError as Error).message,
+      });
+    }
+  }
+}
+
+// Atomically move the oldest queued run to running. Returns null when the queue is empty.
+async function claimNextRun(): Promise<ReconciliationRun | null> {
+  const client = getSupabaseClient();
+
+  const { data: queued, error } = await client
+    .from("reconciliation_runs")
+    .select("id")
+    .eq("status", "queued")
+    .order("created_at", { ascending: true })
+    .limit(1);
+
+  if (error) {
+    throw new SupabaseError("Failed to read reconciliation queue", { error });
+  }
+  if (!queued || queued.length === 0) return null;
+
+  const now = new Date().toISOString();
+  const { data: claimed, error: claimError } = await client
+    .from("reconciliation_runs")
+    .update({ status: "running", started_at: now, updated_at: now })
+    .eq("id", queued[0].id)
+    .eq("status", "queued")
+    .select("id, tenant_id, requested_by, start_date, end_date, data_types");
+
+  if (claimError) {
+    throw new SupabaseError("Failed to claim reconciliation run", { error: claimError });
+  }
+
+  // Another worker got there first - try the next one
+  if (!claimed || claimed.length === 0) {
+    return claimNextRun();
+  }
+  return claimed[0] as ReconciliationRun;
+}
+
+// Same as claimNextRun, for diffs with a queued backfill
+async function claimNextBackfill(): Promise<ReconciliationDiff | null> {
+  const client = getSupabaseClient();
+
+  const { data: queued, error } = await client
+    .from("reconciliation_diffs")
+    .select("id")
+    .eq("backfill_status", "queued")
+    .order("backfill_requested_at", { ascending: true })
+    .limit(1);
+
+  if (error) {
+    throw new SupabaseError("Failed to read reconciliation backfill queue", { error });
+  }
+  if (!queued || queued.length === 0) return null;
+
+  const { data: claimed, error: claimError } = await client
+    .from("reconciliation_diffs")
+    .update({ backfill_status: "running", updated_at: new Date().toISOString() })
+    .eq("id", queued[0].id)
+    .eq("backfill_status", "queued")
+    .select("id, tenant_id, data_type, diff_date, missing_count, missing_ids, backfill_requested_by");
+
+  if (claimError) {
+    throw new SupabaseError("Failed to claim reconciliation backfill", { error: claimError });
+  }
+
+  if (!claimed || claimed.length === 0) {
+    return claimNextBackfill();
+  }
+  return claimed[0] as ReconciliationDiff;
+}
+
+// Runs and backfills left running by a crashed or restarted worker never finish on their own
+async function failStaleJobs(): Promise<void> {
+  const client = getSupabaseClient();
+  const staleBefore = new Date(Date.now() - STALE_RUN_MS).toISOString();
+  const now = new Date().toISOString();
+
+  const { data: runs, error } = await client
+    .from("reconciliation_runs")
+    .update({
+      status: "failed",
+      error: "Reconciliation interrupted - please run it again",
+      completed_at: now,
+      updated_at: now,
+    })
+    .eq("status", "running")
+    .lt("updated_at", staleBefore)
+    .select("id");
+
+  if (error) {
+    throw new SupabaseError("Failed to expire stale reconciliation runs", { error });
+  }
+
+  const { data: diffs, error: diffError } = await client
+    .from("reconciliation_diffs")
+    .update({
+      backfill_status: "failed",
+      backfill_error: "Backfill interrupted - please queue it again",
+      backfill_completed_at: now,
+      updated_at: now,
+    })
+    .eq("backfill_status", "running")
+    .lt("updated_at", staleBefore)
+    .select("id");
+
+  if (diffError) {
+    throw new SupabaseError("Failed to expire stale reconciliation backfills", { error: diffError });
+  }
+
+  const stale = (runs?.length || 0) + (diffs?.length || 0);
+  if (stale > 0) {
+    logger.warn(`Marked ${stale} stale reconciliation jobs as failed`);
+  }
+}
+
+// Queue a reconciliation of the last `days` complete days for every tenant the service syncs
+export async function enqueueDailyReconciliations(days: number): Promise<number> {
+  const client = getSupabaseClient();
+  const tenants = uniqueTenants(await getActiveTenants());
+  if (tenants.length === 0) return 0;
+
+  const endDate = new Date(Date.now() - DAY_MS).toISOString().slice(0, 10);
+  const startDate = new Date(Date.now() - days * DAY_MS).toISOString().slice(0, 10);
+
+  const { error } = await client.from("reconciliation_runs").insert(
+    tenants.map((tenant) => ({
+      tenant_id: tenant.id,
+      status: "queued",
+      start_date: startDate,
+      end_date: endDate,
+    }))
+  );
+
+  if (error) {
+    throw new SupabaseError("Failed to queue reconciliation runs", { error });
+  }
+
+  return tenants.length;
+}
+
+// Drain queued backfills first (a person is waiting on those), then runs
+export async function processReconciliationQueue(): Promise<number> {
+  await failStaleJobs();
+
+  let processed = 0;
+  while (true) {
+    const diff = await claimNextBackfill();
+    if (!diff) break;
+    await runDiffBackfill(diff);
+    processed++;
+  }
+
+  while (true) {
+    const run = await claimNextRun();
+    if (!run) break;
+    await runReconciliation(run);
+    processed++;
+  }
+
+  return processed;
+}
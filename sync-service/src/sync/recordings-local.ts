@@ -211,6 +211,7 @@ export async function syncRecordingsLocal(
         await insertCallRecording({
           tenant_id: tenant.id,
           threecx_recording_id: recording.recording_id,
+          call_group_id: recording.call_group_id || undefined,
           extension: recording.extension_number || undefined,
           caller_number: recording.caller_number || undefined,
           callee_number: recording.callee_number || undefined,
@@ -224,6 +225,7 @@ export async function syncRecordingsLocal(
           call_started_at: recording.start_time?.toISOString(),
           call_ended_at: recording.end_time?.toISOString(),
           storage_backend: "spaces",
+          content_sha256: uploadResult.sha256,
         });
 
         result.filesSynced++;
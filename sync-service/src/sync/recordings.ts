@@ -6,6 +6,7 @@ import {
   uploadBufferWithCompression,
   generateStoragePath,
   fileExists,
+  hashObject,
   detectFileType,
   getFileInfo,
   streamUpload,
@@ -23,11 +24,14 @@ import { insertCallRecording, updateSyncStatus, getLastSyncedTimestamp } from ".
 import { TenantConfig, getTenantSftpConfig } from "../tenant";
 import { getRecordings } from "../threecx/queries";
 import { DEFAULT_COMPRESSION_SETTINGS } from "../utils/compression";
+import { SyncWindow, isInSyncWindow, windowSince } from "./window";
+import { startTransferCycle } from "./budget";
 
 export interface RecordingsSyncResult {
   filesSynced: number;
   filesSkipped: number;
   errors: Array<{ recordingId: string; error: string }>;
+  cursor?: string; // Latest 3CX timestamp fetched; window runs page on from here
 }
 
 // Default recordings base path on 3CX servers
@@ -155,7 +159,8 @@ function urlToFilesystemPath(recordingUrl: string, basePath: string): string {
 
 export async function syncRecordings(
   tenant: TenantConfig,
-  pool: Pool
+  pool: Pool,
+  window?: SyncWindow
 ): Promise<RecordingsSyncResult> {
   const result: RecordingsSyncResult = {
     filesSynced: 0,
@@ -179,11 +184,13 @@ export async function syncRecordings(
 
   let sftp;
   try {
-    await updateSyncStatus("recordings", "running", { tenantId: tenant.id });
+    if (!window) {
+      await updateSyncStatus("recordings", "running", { tenantId: tenant.id });
+    }
 
-    // Get last sync timestamp to only fetch new records
-    const lastSync = await getLastSyncedTimestamp("recordings", tenant.id);
-    const since = lastSync ? new Date(lastSync) : null;
+    // Get last sync timestamp to only fetch new records (window runs start at the window)
+    const lastSync = window ? null : await getLastSyncedTimestamp("recordings", tenant.id);
+    const since = window ? windowSince(window) : lastSync ? new Date(lastSync) : null;
 
     logger.info("Fetching recordings from 3CX database", {
       tenantId: tenant.id,
@@ -191,25 +198,37 @@ export async function syncRecordings(
     });
 
     // Fetch recordings from 3CX database
-    const recordings = await getRecordings(since, 500, pool);
+    const fetched = await getRecordings(since, 500, pool);
 
-    if (recordings.length === 0) {
+    if (fetched.length === 0) {
       const notes = since ? "No new recordings since last sync" : "No recordings found in 3CX database";
       logger.info("No new recordings to sync", { tenantId: tenant.id });
-      await updateSyncStatus("recordings", "success", { recordsSynced: 0, notes, tenantId: tenant.id });
+      if (!window) {
+        await updateSyncStatus("recordings", "success", { recordsSynced: 0, notes, tenantId: tenant.id });
+      }
       return result;
     }
 
-    logger.info(`Processing ${recordings.length} recordings`, { tenantId: tenant.id });
-
     // Track the latest timestamp to advance the cursor on every run (even all-skipped runs)
     let latestRecordingTimestamp: string | undefined;
-    for (const r of recordings) {
+    for (const r of fetched) {
       const ts = r.start_time ? new Date(r.start_time).toISOString() : undefined;
       if (ts && (!latestRecordingTimestamp || ts > latestRecordingTimestamp)) {
         latestRecordingTimestamp = ts;
       }
     }
+    result.cursor = latestRecordingTimestamp;
+
+    const recordings = window
+      ? fetched.filter((item) => isInSyncWindow(window, item.recording_id, item.start_time))
+      : fetched;
+
+    // Nothing in this page belongs to the window - skip the SFTP connection
+    if (window && recordings.length === 0) {
+      return result;
+    }
+
+    logger.info(`Processing ${recordings.length} recordings`, { tenantId: tenant.id });
 
     // Connect to SFTP
     logger.info("Connecting to 3CX server via SFTP for recordings", {
@@ -217,8 +236,14 @@ export async function syncRecordings(
       host: sftpConfig.host,
     });
     sftp = await createSftpClient(sftpConfig);
+    const sftpClient = sftp;
+
+    const cycle = startTransferCycle(tenant, "recordings");
+    // First recording left for the next run when the item budget runs out
+    let deferredStartTime: Date | null | undefined;
 
-    for (const recording of recordings) {
+    for (let i = 0; i < recordings.length; i++) {
+      const recording = recordings[i];
       try {
         if (!recording.recording_url) {
           logger.debug("Recording has no URL, skipping", { recordingId: recording.recording_id });
@@ -244,7 +269,7 @@ export async function syncRecordings(
         // Also check storage in case file was uploaded but DB insert failed
         const existsInStorage = await fileExists(storagePath);
 
-        let uploadResult: { path: string; size: number; newMimeType: string; wasCompressed: boolean; originalSize: number; compressionRatio: number };
+        let uploadResult: { path: string; size: number; newMimeType: string; wasCompressed: boolean; originalSize: number; compressionRatio: number; sha256?: string };
 
         if (existsInStorage) {
           // File exists in storage but not in DB - just create DB record
@@ -260,8 +285,16 @@ export async function syncRecordings(
             wasCompressed: false,
             originalSize: 0,
             compressionRatio: 0,
+            sha256: (await hashObject(storagePath))?.sha256,
           };
         } else {
+          // Already-archived recordings don't count against the item budget
+          if (!cycle.takeItem()) {
+            cycle.logDeferred(recordings.length - i);
+            deferredStartTime = recording.start_time;
+            break;
+          }
+
           // Download the recording via SFTP
           logger.debug("Downloading recording via SFTP", {
             tenantId: tenant.id,
@@ -324,8 +357,11 @@ export async function syncRecordings(
               size: `${(fileSize / 1024 / 1024).toFixed(1)}MB`,
             });
 
-            const stream = await downloadFileStream(sftp, validPath);
-            const streamResult = await streamUpload(stream, storagePath, fileInfo.mimeType, fileSize);
+            const streamResult = await cycle.transfer(async () => {
+              const stream = await downloadFileStream(sftpClient, validPath);
+              return streamUpload(stream, storagePath, fileInfo.mimeType, fileSize);
+            });
+            cycle.recordBytes(fileSize);
 
             uploadResult = {
               path: streamResult.path,
@@ -334,6 +370,7 @@ export async function syncRecordings(
               wasCompressed: false,
               originalSize: fileSize,
               compressionRatio: 0,
+              sha256: streamResult.sha256,
             };
 
             logger.info("Large recording streamed successfully", {
@@ -342,15 +379,12 @@ export async function syncRecordings(
             });
           } else {
             // BUFFER: Smaller files (<25MB) - download to buffer and compress
-            const buffer = await downloadFile(sftp, validPath);
+            const buffer = await cycle.transfer(() => downloadFile(sftpClient, validPath));
+            cycle.recordBytes(buffer.length);
             const { fileType, extension } = detectFileType(buffer);
 
-            uploadResult = await uploadBufferWithCompression(
-              buffer,
-              storagePath,
-              fileType,
-              extension,
-              DEFAULT_COMPRESSION_SETTINGS
+            uploadResult = await cycle.transfer(() =>
+              uploadBufferWithCompression(buffer, storagePath, fileType, extension, DEFAULT_COMPRESSION_SETTINGS)
             );
           }
         }
@@ -401,6 +435,7 @@ export async function syncRecordings(
         await insertCallRecording({
           tenant_id: tenant.id,
           threecx_recording_id: recording.recording_id,
+          call_group_id: recording.call_group_id || undefined,
           extension: extensionNum,
           caller_number: callerNum || undefined,
           callee_number: calleeNum || undefined,
@@ -416,6 +451,7 @@ export async function syncRecordings(
           call_started_at: recording.start_time?.toISOString(),
           call_ended_at: recording.end_time?.toISOString(),
           storage_backend: "spaces",
+          content_sha256: uploadResult.sha256,
         });
 
         result.filesSynced++;
@@ -450,18 +486,32 @@ export async function syncRecordings(
       }
     }
 
+    // Stopped by the item budget: the cursor only moves up to just before the
+    // first recording left behind, so the next run starts there
+    if (deferredStartTime !== undefined) {
+      latestRecordingTimestamp = deferredStartTime
+        ? new Date(new Date(deferredStartTime).getTime() - 1).toISOString()
+        : undefined;
+      result.cursor = latestRecordingTimestamp;
+    }
+
     // Build notes with summary
     let notes = `Synced ${result.filesSynced} new, ${result.filesSkipped} already synced`;
     if (result.errors.length > 0) {
       notes += `, ${result.errors.length} failed`;
     }
+    if (deferredStartTime !== undefined) {
+      notes += ", rest deferred by item budget";
+    }
 
-    await updateSyncStatus("recordings", "success", {
-      recordsSynced: result.filesSynced,
-      lastSyncedTimestamp: latestRecordingTimestamp,
-      notes,
-      tenantId: tenant.id,
-    });
+    if (!window) {
+      await updateSyncStatus("recordings", "success", {
+        recordsSynced: result.filesSynced,
+        lastSyncedTimestamp: latestRecordingTimestamp,
+        notes,
+        tenantId: tenant.id,
+      });
+    }
 
     logger.info("Recordings sync completed", {
       tenantId: tenant.id,
@@ -474,10 +524,12 @@ export async function syncRecordings(
   } catch (error) {
     const err = handleError(error);
     logger.error("Recordings sync failed", { tenantId: tenant.id, error: err.message });
-    await updateSyncStatus("recordings", "error", {
-      errorMessage: err.message,
-      tenantId: tenant.id,
-    });
+    if (!window) {
+      await updateSyncStatus("recordings", "error", {
+        errorMessage: err.message,
+        tenantId: tenant.id,
+      });
+    }
     throw err;
   } finally {
     if (sftp) {
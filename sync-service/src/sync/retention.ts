@@ -0,0 +1,569 @@
+import { logger } from "../utils/logger";
+import { handleError, SupabaseError } from "../utils/errors";
+import { getSupabaseClient, createSyncLog, updateSyncLog } from "../storage/supabase";
+import { deleteFile as deleteSpacesFile } from "../storage/spaces-storage";
+import { deleteFile as deleteSupabaseFile } from "../storage/supabase-storage";
+import {
+  ResolvedLegalHold,
+  HeldSummary,
+  getActiveLegalHolds,
+  getHoldColumns,
+  partitionHeldRows,
+  summarizeHeld,
+  logBlockedDeletion,
+} from "../legal-holds";
+import { recordPurgedRecords } from "./integrity";
+
+// ============================================
+// RETENTION ENFORCEMENT
+// ============================================
+// Applies the per-tenant rows in `retention_policies`. For every enabled policy
+// with a retention_days value, rows older than the cutoff are removed together
+// with the objects they point at in DO Spaces / Supabase Storage. Objects are
+// always deleted before their row so a failed delete never orphans a file.
+// Rows covered by an active legal hold are skipped and reported as held.
+
+export type RetentionDataType =
+  | "messages"
+  | "media"
+  | "recordings"
+  | "voicemails"
+  | "faxes"
+  | "call_logs"
+  | "meetings";
+
+interface RetentionTarget {
+  table: string;
+  dateColumn: string;
+  hasFiles: boolean;
+}
+
+// Table + age column for each data type (column names match the sync inserts)
+const RETENTION_TARGETS: Record<RetentionDataType, RetentionTarget> = {
+  messages: { table: "messages", dateColumn: "sent_at", hasFiles: false },
+  media: { table: "media_files", dateColumn: "created_at", hasFiles: true },
+  recordings: { table: "call_recordings", dateColumn: "started_at", hasFiles: true },
+  voicemails: { table: "voicemails", dateColumn: "received_at", hasFiles: true },
+  faxes: { table: "faxes", dateColumn: "sent_received_at", hasFiles: true },
+  call_logs: { table: "call_logs", dateColumn: "started_at", hasFiles: false },
+  meetings: { table: "meeting_recordings", dateColumn: "recorded_at", hasFiles: true },
+};
+
+// Rows fetched per delete round — keeps `.in()` filters well under URL limits
+const RETENTION_BATCH_SIZE = 200;
+
+interface RetentionPolicyRow {
+  id: string;
+  tenant_id: string;
+  data_type: string;
+  retention_days: number;
+}
+
+interface FileRow {
+  id: string;
+  storage_path: string | null;
+  storage_backend: string | null;
+  file_size: number | null;
+}
+
+export interface RetentionResult {
+  tenantId: string;
+  dataType: RetentionDataType;
+  retentionDays: number;
+  cutoff: string;
+  dryRun: boolean;
+  itemsExpired: number;
+  bytesExpired: number;
+  itemsHeld: number;
+  itemsDeleted: number;
+  filesDeleted: number;
+  bytesDeleted: number;
+  errors: Array<{ id: string; error: string }>;
+}
+
+export interface RetentionRunOptions {
+  tenantIds?: string[];
+  dataTypes?: RetentionDataType[];
+  dryRun?: boolean;
+}
+
+export function isRetentionDataType(value: string): value is RetentionDataType {
+  return value in RETENTION_TARGETS;
+}
+
+// Delete a stored object from whichever backend holds it
+async function deleteStoredObject(storagePath: string, backend: string | null): Promise<void> {
+  if (backend === "supabase") {
+    await deleteSupabaseFile(storagePath);
+  } else {
+    await deleteSpacesFile(storagePath);
+  }
+}
+
+// Delete the objects behind a batch of file rows. Returns the ids that are safe to delete.
+async function deleteObjectsForRows(
+  rows: FileRow[],
+  result: RetentionResult
+): Promise<Set<string>> {
+  const cleared = new Set<string>();
+
+  for (const row of rows) {
+    if (!row.storage_path) {
+      cleared.add(row.id);
+      continue;
+    }
+
+    try {
+      await deleteStoredObject(row.storage_path, row.storage_backend);
+      cleared.add(row.id);
+      result.filesDeleted++;
+      result.bytesDeleted += Number(row.file_size) || 0;
+    } catch (error) {
+      const err = handleError(error);
+      result.errors.push({ id: row.id, error: err.message });
+      logger.warn("Retention: failed to delete stored object", {
+        tenantId: result.tenantId,
+        dataType: result.dataType,
+        storagePath: row.storage_path,
+        error: err.message,
+      });
+    }
+  }
+
+  return cleared;
+}
+
+// Count expired rows (and their stored bytes) without modifying anything.
+// Held rows are counted separately and excluded from count/bytes.
+async function measureExpired(
+  tenantId: string,
+  target: RetentionTarget,
+  cutoff: string,
+  holds: ResolvedLegalHold[]
+): Promise<{ count: number; bytes: number; held: number }> {
+  const client = getSupabaseClient();
+
+  if (!target.hasFiles && holds.length === 0) {
+    const { count, error } = await client
+      .from(target.table)
+      .select("id", { count: "exact", head: true })
+      .eq("tenant_id", tenantId)
+      .lt(target.dateColumn, cutoff);
+
+    if (error) {
+      throw new SupabaseError(`Failed to count expired ${target.table}`, { error });
+    }
+    return { count: count || 0, bytes: 0, held: 0 };
+  }
+
+  // PostgREST has no SUM (and holds need per-row checks), so page through rows
+  let count = 0;
+  let bytes = 0;
+  let held = 0;
+  let offset = 0;
+  const pageSize = 1000;
+  const columns = new Set(["id"]);
+  if (target.hasFiles) columns.add("file_size");
+  if (holds.length > 0) getHoldColumns(target.table).forEach((c) => columns.add(c));
+
+  while (true) {
+    const { data, error } = await client
+      .from(target.table)
+      .select(Array.from(columns).join(", "))
+      .eq("tenant_id", tenantId)
+      .lt(target.dateColumn, cutoff)
+      .order("id")
+      .range(offset, offset + pageSize - 1);
+
+    if (error) {
+      throw new SupabaseError(`Failed to measure expired ${target.table}`, { error });
+    }
+    if (!data || data.length === 0) break;
+
+    const rows = data as unknown as Array<{ id: string; file_size?: number | null }>;
+    const partition = await partitionHeldRows(target.table, rows, holds);
+    held += partition.held.length;
+    count += partition.deletable.length;
+    for (const row of partition.deletable) {
+      bytes += Number(row.file_size) || 0;
+    }
+
+    if (data.length < pageSize) break;
+    offset += pageSize;
+  }
+
+  return { count, bytes, held };
+}
+
+// Messages cascade to media_files, so their attachments are removed from storage first
+async function clearMessageAttachments(
+  messageIds: string[],
+  result: RetentionResult,
+  holds: ResolvedLegalHold[]
+): Promise<Set<string>> {
+  const client = getSupabaseClient();
+  const columns = new Set(["id", "message_id", "storage_path", "storage_backend", "file_size"]);
+  if (holds.length > 0) getHoldColumns("media_files").forEach((c) => columns.add(c));
+
+  const { data, error } = await client
+    .from("media_files")
+    .select(Array.from(columns).join(", "))
+    .in("message_id", messageIds);
+
+  if (error) {
+    throw new SupabaseError("Failed to load message attachments", { error });
+  }
+
+  const attachments = (data || []) as unknown as Array<FileRow & { message_id: string }>;
+
+  // An attachment under hold keeps its message (deleting the message would cascade)
+  const { deletable, held } = await partitionHeldRows("media_files", attachments, holds);
+  const cleared = await deleteObjectsForRows(deletable, result);
+
+  // A message is only deletable once every attachment object is gone
+  const blocked = new Set([
+    ...held.map((h) => h.row.message_id),
+    ...deletable.filter((a) => !cleared.has(a.id)).map((a) => a.message_id),
+  ]);
+
+  // Attachment rows go with their message through the cascade
+  await recordPurgedRecords(
+    result.tenantId,
+    "media_files",
+    deletable.filter((a) => !blocked.has(a.message_id)).map((a) => a.id),
+    "retention"
+  );
+
+  return new Set(messageIds.filter((id) => !blocked.has(id)));
+}
+
+// Delete one batch of expired rows. Returns how many rows were skipped because of errors.
+async function purgeBatch(
+  dataType: RetentionDataType,
+  target: RetentionTarget,
+  rows: FileRow[],
+  result: RetentionResult,
+  holds: ResolvedLegalHold[]
+): Promise<number> {
+  const client = getSupabaseClient();
+  const ids = rows.map((r) => r.id);
+
+  let deletable: Set<string>;
+  if (target.hasFiles) {
+    deletable = await deleteObjectsForRows(rows, result);
+  } else if (dataType === "messages") {
+    deletable = await clearMessageAttachments(ids, result, holds);
+  } else {
+    deletable = new Set(ids);
+  }
+
+  const deleteIds = ids.filter((id) => deletable.has(id));
+  if (deleteIds.length === 0) {
+    return ids.length;
+  }
+
+  // call_logs.recording_id has no ON DELETE action — detach before removing recordings
+  if (dataType === "recordings") {
+    const { error: unlinkError } = await client
+      .from("call_logs")
+      .update({ recording_id: null })
+      .in("recording_id", deleteIds);
+
+    if (unlinkError) {
+      throw new SupabaseError("Failed to unlink call logs from recordings", { error: unlinkError });
+    }
+  }
+
+  await recordPurgedRecords(result.tenantId, target.table, deleteIds, "retention");
+
+  const { error } = await client.from(target.table).delete().in("id", deleteIds);
+  if (error) {
+    throw new SupabaseError(`Failed to delete expired ${target.table}`, { error });
+  }
+
+  result.itemsDeleted += deleteIds.length;
+  return ids.length - deleteIds.length;
+}
+
+// Apply a single tenant policy (or preview it when dryRun is set)
+export async function applyRetentionPolicy(
+  tenantId: string,
+  dataType: RetentionDataType,
+  retentionDays: number,
+  dryRun = false,
+  holds: ResolvedLegalHold[] = []
+): Promise<RetentionResult> {
+  const target = RETENTION_TARGETS[dataType];
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+  const result: RetentionResult = {
+    tenantId,
+    dataType,
+    retentionDays,
+    cutoff,
+    dryRun,
+    itemsExpired: 0,
+    bytesExpired: 0,
+    itemsHeld: 0,
+    itemsDeleted: 0,
+    filesDeleted: 0,
+    bytesDeleted: 0,
+    errors: [],
+  };
+
+  const expired = await measureExpired(tenantId, target, cutoff, holds);
+  result.itemsExpired = expired.count;
+  result.bytesExpired = expired.bytes;
+  result.itemsHeld = expired.held;
+
+  if (dryRun || expired.count === 0) {
+    return result;
+  }
+
+  const client = getSupabaseClient();
+  const columns = new Set(["id"]);
+  if (target.hasFiles) {
+    ["storage_path", "storage_backend", "file_size"].forEach((c) => columns.add(c));
+  }
+  if (holds.length > 0) getHoldColumns(target.table).forEach((c) => columns.add(c));
+
+  // Rows that failed or are held stay in place, so skip past them on the next round
+  let skipped = 0;
+  let heldSummary: HeldSummary | undefined;
+
+  while (true) {
+    const { data, error } = await client
+      .from(target.table)
+      .select(Array.from(columns).join(", "))
+      .eq("tenant_id", tenantId)
+      .lt(target.dateColumn, cutoff)
+      .order(target.dateColumn, { ascending: true })
+      .order("id", { ascending: true })
+      .range(skipped, skipped + RETENTION_BATCH_SIZE - 1);
+
+    if (error) {
+      throw new SupabaseError(`Failed to load expired ${target.table}`, { error });
+    }
+    if (!data || data.length === 0) break;
+
+    const { deletable, held } = await partitionHeldRows(target.table, data as unknown as FileRow[], holds);
+    if (held.length > 0) {
+      heldSummary = summarizeHeld(held, heldSummary);
+      skipped += held.length;
+    }
+    if (deletable.length > 0) {
+      skipped += await purgeBatch(dataType, target, deletable, result, holds);
+    }
+
+    if (data.length < RETENTION_BATCH_SIZE) break;
+  }
+
+  if (heldSummary) {
+    result.itemsHeld = heldSummary.count;
+    await logBlockedDeletion(tenantId, "retention", target.table, heldSummary);
+  }
+
+  return result;
+}
+
+// Record a purge in audit_logs so removals are traceable after the fact
+async function writeRetentionAudit(policyId: string, result: RetentionResult): Promise<void> {
+  const client = getSupabaseClient();
+
+  const { error } = await client.from("audit_logs").insert({
+    action: "retention.purged",
+    entity_type: "retention_policy",
+    entity_id: policyId,
+    tenant_id: result.tenantId,
+    user_id: null,
+    new_values: {
+      data_type: result.dataType,
+      retention_days: result.retentionDays,
+      cutoff: result.cutoff,
+      items_deleted: result.itemsDeleted,
+      files_deleted: result.filesDeleted,
+      bytes_deleted: result.bytesDeleted,
+      errors_count: result.errors.length,
+    },
+  });
+
+  if (error) {
+    logger.error("Failed to write retention audit log", { tenantId: result.tenantId, error: error.message });
+  }
+}
+
+// Stamp the policy with the outcome of its latest run
+async function markPolicyCleaned(policyId: string, result: RetentionResult): Promise<void> {
+  const client = getSupabaseClient();
+  const now = new Date().toISOString();
+
+  const { error } = await client
+    .from("retention_policies")
+    .update({
+      last_cleanup_at: now,
+      last_cleanup_deleted: result.itemsDeleted,
+      last_cleanup_bytes: result.bytesDeleted,
+      updated_at: now,
+    })
+    .eq("id", policyId);
+
+  if (error) {
+    logger.error("Failed to update retention policy", { policyId, error: error.message });
+  }
+}
+
+// Load enabled policies that actually expire data
+async function getEnforceablePolicies(options: RetentionRunOptions): Promise<RetentionPolicyRow[]> {
+  const client = getSupabaseClient();
+
+  let query = client
+    .from("retention_policies")
+    .select("id, tenant_id, data_type, retention_days")
+    .eq("is_enabled", true)
+    .not("retention_days", "is", null)
+    .gt("retention_days", 0);
+
+  if (options.tenantIds && options.tenantIds.length > 0) {
+    query = query.in("tenant_id", options.tenantIds);
+  }
+  if (options.dataTypes && options.dataTypes.length > 0) {
+    query = query.in("data_type", options.dataTypes);
+  }
+
+  const { data, error } = await query.order("tenant_id");
+
+  if (error) {
+    throw new SupabaseError("Failed to fetch retention policies", { error });
+  }
+
+  return (data || []) as RetentionPolicyRow[];
+}
+
+// Run retention for every matching policy, grouped per tenant.
+// Each tenant gets one "retention" sync log; dry runs write nothing.
+export async function runRetention(options: RetentionRunOptions = {}): Promise<RetentionResult[]> {
+  const dryRun = options.dryRun ?? false;
+  const policies = await getEnforceablePolicies(options);
+  const results: RetentionResult[] = [];
+
+  if (policies.length === 0) {
+    logger.debug("Retention: no enforceable policies");
+    return results;
+  }
+
+  const byTenant = new Map<string, RetentionPolicyRow[]>();
+  for (const policy of policies) {
+    const list = byTenant.get(policy.tenant_id) || [];
+    list.push(policy);
+    byTenant.set(policy.tenant_id, list);
+  }
+
+  logger.info(`Retention ${dryRun ? "preview" : "run"} for ${byTenant.size} tenant(s)`, {
+    policies: policies.length,
+  });
+
+  for (const [tenantId, tenantPolicies] of byTenant) {
+    let logId: string | null = null;
+    if (!dryRun) {
+      try {
+        logId = await createSyncLog({
+          sync_type: "retention",
+          started_at: new Date().toISOString(),
+          tenant_id: tenantId,
+        });
+      } catch (error) {
+        logger.warn("Retention: could not create sync log", { tenantId });
+      }
+    }
+
+    const tenantResults: RetentionResult[] = [];
+    const failures: Array<{ dataType: string; error: string }> = [];
+
+    // If holds can't be loaded, don't risk deleting anything for this tenant
+    let holds: ResolvedLegalHold[];
+    try {
+      holds = await getActiveLegalHolds(tenantId);
+    } catch (error) {
+      const err = handleError(error);
+      logger.error("Retention skipped - could not load legal holds", { tenantId, error: err.message });
+      if (logId) {
+        await updateSyncLog(logId, {
+          completed_at: new Date().toISOString(),
+          status: "error",
+          errors_count: 1,
+          error_details: { message: `Could not load legal holds: ${err.message}` },
+        });
+      }
+      continue;
+    }
+
+    for (const policy of tenantPolicies) {
+      if (!isRetentionDataType(policy.data_type)) {
+        logger.warn("Retention: unknown data type in policy", { tenantId, dataType: policy.data_type });
+        continue;
+      }
+
+      try {
+        const result = await applyRetentionPolicy(
+          tenantId,
+          policy.data_type,
+          policy.retention_days,
+          dryRun,
+          holds
+        );
+        tenantResults.push(result);
+
+        if (!dryRun) {
+          await markPolicyCleaned(policy.id, result);
+          if (result.itemsDeleted > 0 || result.errors.length > 0) {
+            await writeRetentionAudit(policy.id, result);
+          }
+        }
+
+        logger.info(`Retention ${dryRun ? "preview" : "applied"}: ${policy.data_type}`, {
+          tenantId,
+          cutoff: result.cutoff,
+          expired: result.itemsExpired,
+          bytesExpired: result.bytesExpired,
+          held: result.itemsHeld,
+          deleted: result.itemsDeleted,
+          errors: result.errors.length,
+        });
+      } catch (error) {
+        const err = handleError(error);
+        failures.push({ dataType: policy.data_type, error: err.message });
+        logger.error("Retention failed for data type", { tenantId, dataType: policy.data_type, error: err.message });
+      }
+    }
+
+    results.push(...tenantResults);
+
+    if (logId) {
+      const itemsDeleted = tenantResults.reduce((sum, r) => sum + r.itemsDeleted, 0);
+      const errorsCount =
+        failures.length + tenantResults.reduce((sum, r) => sum + r.errors.length, 0);
+
+      await updateSyncLog(logId, {
+        completed_at: new Date().toISOString(),
+        status: failures.length > 0 ? "error" : "success",
+        messages_synced: itemsDeleted,
+        errors_count: errorsCount,
+        error_details: {
+          message: `Retention removed ${itemsDeleted} item(s)`,
+          results: tenantResults.map((r) => ({
+            data_type: r.dataType,
+            cutoff: r.cutoff,
+            items_deleted: r.itemsDeleted,
+            items_held: r.itemsHeld,
+            files_deleted: r.filesDeleted,
+            bytes_deleted: r.bytesDeleted,
+            errors: r.errors.slice(0, 20),
+          })),
+          failures,
+        },
+      });
+    }
+  }
+
+  return results;
+}
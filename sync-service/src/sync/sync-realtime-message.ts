@@ -23,6 +23,7 @@ import {
   MAX_FILE_SIZE_BYTES,
 } from "../storage/sftp";
 import { getTenantSftpConfig, TenantConfig } from "../tenant";
+import { checkMessagePolicies } from "./policy";
 import { DEFAULT_COMPRESSION_SETTINGS } from "../utils/compression";
 
 // Known 3CX chat file paths — same as media.ts
@@ -128,6 +129,7 @@ async function syncSingleMediaFile(
         file_size: uploadResult.size,
         storage_path: uploadResult.path,
         storage_backend: "spaces",
+        content_sha256: uploadResult.sha256,
       });
 
       logger.info("Realtime: media file synced immediately", {
@@ -160,7 +162,8 @@ async function syncSingleMediaFile(
 // Never throws — any error is logged and the polling fallback will catch missed messages.
 export async function syncRealtimeMessage(
   payload: RealtimeMessagePayload,
-  tenant: TenantConfig
+  tenant: TenantConfig,
+  options: { skipMedia?: boolean } = {}
 ): Promise<void> {
   const tenantId = tenant.id;
 
@@ -236,6 +239,15 @@ export async function syncRealtimeMessage(
       has_media: payload.has_media,
     });
 
+    await checkMessagePolicies({
+      id: messageId,
+      tenant_id: tenantId,
+      conversation_id: convId,
+      content: msg.message,
+      sent_at: msg.time_sent.toISOString(),
+      is_external: msg.is_external,
+    });
+
     // Handle media attachment
     if (payload.has_media && payload.internal_file_name && convId) {
       // Assign narrowed locals so TypeScript sees string (not string | null)
@@ -259,8 +271,8 @@ export async function syncRealtimeMessage(
       );
 
       // Immediately download + compress + upload the specific file (fire-and-forget)
-      // If this fails, the periodic media sync will pick it up on its next cycle
-      if (tenant.backup_chat_media) {
+      // If this fails (or uploads are paused), the periodic media sync will pick it up on its next cycle
+      if (tenant.backup_chat_media && !options.skipMedia) {
         syncSingleMediaFile(
           tenant,
           internalFile,
@@ -6,6 +6,7 @@ import {
   uploadBufferWithCompression,
   generateStoragePath,
   fileExists,
+  hashObject,
   detectFileType,
   getFileInfo,
 } from "../storage/spaces-storage";
@@ -20,11 +21,14 @@ import { insertVoicemail, updateSyncStatus, getLastSyncedTimestamp, voicemailExi
 import { TenantConfig, getTenantSftpConfig } from "../tenant";
 import { getVoicemails } from "../threecx/queries";
 import { DEFAULT_COMPRESSION_SETTINGS } from "../utils/compression";
+import { SyncWindow, isInSyncWindow, windowSince } from "./window";
+import { startTransferCycle } from "./budget";
 
 export interface VoicemailsSyncResult {
   filesSynced: number;
   filesSkipped: number;
   errors: Array<{ voicemailId: string; error: string }>;
+  cursor?: string; // Latest 3CX timestamp fetched; window runs page on from here
 }
 
 // Default voicemail base path on 3CX servers
@@ -33,7 +37,8 @@ const DEFAULT_VOICEMAIL_BASE = "/var/lib/3cxpbx/Instance1/Data/Ivr/Voicemail";
 
 export async function syncVoicemails(
   tenant: TenantConfig,
-  pool: Pool
+  pool: Pool,
+  window?: SyncWindow
 ): Promise<VoicemailsSyncResult> {
   const result: VoicemailsSyncResult = {
     filesSynced: 0,
@@ -57,11 +62,13 @@ export async function syncVoicemails(
 
   let sftp;
   try {
-    await updateSyncStatus("voicemails", "running", { tenantId: tenant.id });
+    if (!window) {
+      await updateSyncStatus("voicemails", "running", { tenantId: tenant.id });
+    }
 
-    // Get last sync timestamp to only fetch new records
-    const lastSync = await getLastSyncedTimestamp("voicemails", tenant.id);
-    const since = lastSync ? new Date(lastSync) : null;
+    // Get last sync timestamp to only fetch new records (window runs start at the window)
+    const lastSync = window ? null : await getLastSyncedTimestamp("voicemails", tenant.id);
+    const since = window ? windowSince(window) : lastSync ? new Date(lastSync) : null;
 
     logger.info("Fetching voicemails from 3CX database", {
       tenantId: tenant.id,
@@ -69,25 +76,37 @@ export async function syncVoicemails(
     });
 
     // Fetch voicemails from 3CX database
-    const voicemails = await getVoicemails(since, 500, pool);
+    const fetched = await getVoicemails(since, 500, pool);
 
-    if (voicemails.length === 0) {
+    if (fetched.length === 0) {
       const notes = since ? "No new voicemails since last sync" : "No voicemails found in 3CX database";
       logger.info("No new voicemails to sync", { tenantId: tenant.id });
-      await updateSyncStatus("voicemails", "success", { recordsSynced: 0, notes, tenantId: tenant.id });
+      if (!window) {
+        await updateSyncStatus("voicemails", "success", { recordsSynced: 0, notes, tenantId: tenant.id });
+      }
       return result;
     }
 
-    logger.info(`Processing ${voicemails.length} voicemails`, { tenantId: tenant.id });
-
     // Track latest timestamp to advance cursor even when all records are skipped
     let latestVoicemailTimestamp: string | undefined;
-    for (const v of voicemails) {
+    for (const v of fetched) {
       const ts = v.created_at ? new Date(v.created_at).toISOString() : undefined;
       if (ts && (!latestVoicemailTimestamp || ts > latestVoicemailTimestamp)) {
         latestVoicemailTimestamp = ts;
       }
     }
+    result.cursor = latestVoicemailTimestamp;
+
+    const voicemails = window
+      ? fetched.filter((item) => isInSyncWindow(window, item.voicemail_id, item.created_at))
+      : fetched;
+
+    // Nothing in this page belongs to the window - skip the SFTP connection
+    if (window && voicemails.length === 0) {
+      return result;
+    }
+
+    logger.info(`Processing ${voicemails.length} voicemails`, { tenantId: tenant.id });
 
     // Connect to SFTP
     logger.info("Connecting to 3CX server via SFTP for voicemails", {
@@ -95,8 +114,14 @@ export async function syncVoicemails(
       host: sftpConfig.host,
     });
     sftp = await createSftpClient(sftpConfig);
+    const sftpClient = sftp;
+
+    const cycle = startTransferCycle(tenant, "voicemails");
+    // First voicemail left for the next run when the item budget runs out
+    let deferredCreatedAt: Date | null | undefined;
 
-    for (const voicemail of voicemails) {
+    for (let i = 0; i < voicemails.length; i++) {
+      const voicemail = voicemails[i];
       try {
         if (!voicemail.wav_file) {
           logger.debug("Voicemail has no wav_file, skipping", { voicemailId: voicemail.voicemail_id });
@@ -119,7 +144,7 @@ export async function syncVoicemails(
         // Check if already in storage
         const existsInStorage = await fileExists(storagePath);
 
-        let uploadResult: { path: string; size: number; newMimeType: string; wasCompressed: boolean; originalSize: number; compressionRatio: number };
+        let uploadResult: { path: string; size: number; newMimeType: string; wasCompressed: boolean; originalSize: number; compressionRatio: number; sha256?: string };
 
         if (existsInStorage) {
           // File exists in storage but not in DB - just create DB record
@@ -135,8 +160,16 @@ export async function syncVoicemails(
             wasCompressed: false,
             originalSize: 0,
             compressionRatio: 0,
+            sha256: (await hashObject(storagePath))?.sha256,
           };
         } else {
+          // Already-archived voicemails don't count against the item budget
+          if (!cycle.takeItem()) {
+            cycle.logDeferred(voicemails.length - i);
+            deferredCreatedAt = voicemail.created_at;
+            break;
+          }
+
           // Build possible paths for the voicemail file
           // 3CX stores voicemails in: /var/lib/3cxpbx/Instance1/Data/Ivr/Voicemail/Extensions/{extension}/{wav_file}.wav
           const possiblePaths = [
@@ -191,15 +224,12 @@ export async function syncVoicemails(
             remotePath: validPath,
           });
 
-          const buffer = await downloadFile(sftp, validPath);
+          const buffer = await cycle.transfer(() => downloadFile(sftpClient, validPath));
+          cycle.recordBytes(buffer.length);
           const { fileType, extension } = detectFileType(buffer);
 
-          uploadResult = await uploadBufferWithCompression(
-            buffer,
-            storagePath,
-            fileType,
-            extension,
-            DEFAULT_COMPRESSION_SETTINGS
+          uploadResult = await cycle.transfer(() =>
+            uploadBufferWithCompression(buffer, storagePath, fileType, extension, DEFAULT_COMPRESSION_SETTINGS)
           );
         }
 
@@ -223,6 +253,7 @@ export async function syncVoicemails(
           transcription: voicemail.transcription || undefined,
           received_at: voicemail.created_at?.toISOString() || new Date().toISOString(),
           storage_backend: "spaces",
+          content_sha256: uploadResult.sha256,
         });
 
         result.filesSynced++;
@@ -257,18 +288,32 @@ export async function syncVoicemails(
       }
     }
 
+    // Stopped by the item budget: the cursor only moves up to just before the
+    // first voicemail left behind, so the next run starts there
+    if (deferredCreatedAt !== undefined) {
+      latestVoicemailTimestamp = deferredCreatedAt
+        ? new Date(new Date(deferredCreatedAt).getTime() - 1).toISOString()
+        : undefined;
+      result.cursor = latestVoicemailTimestamp;
+    }
+
     // Build notes with summary
     let notes = `Synced ${result.filesSynced} new, ${result.filesSkipped} already synced`;
     if (result.errors.length > 0) {
       notes += `, ${result.errors.length} failed`;
     }
+    if (deferredCreatedAt !== undefined) {
+      notes += ", rest deferred by item budget";
+    }
 
-    await updateSyncStatus("voicemails", "success", {
-      recordsSynced: result.filesSynced,
-      lastSyncedTimestamp: latestVoicemailTimestamp,
-      notes,
-      tenantId: tenant.id,
-    });
+    if (!window) {
+      await updateSyncStatus("voicemails", "success", {
+        recordsSynced: result.filesSynced,
+        lastSyncedTimestamp: latestVoicemailTimestamp,
+        notes,
+        tenantId: tenant.id,
+      });
+    }
 
     logger.info("Voicemails sync completed", {
       tenantId: tenant.id,
@@ -281,10 +326,12 @@ export async function syncVoicemails(
   } catch (error) {
     const err = handleError(error);
     logger.error("Voicemails sync failed", { tenantId: tenant.id, error: err.message });
-    await updateSyncStatus("voicemails", "error", {
-      errorMessage: err.message,
-      tenantId: tenant.id,
-    });
+    if (!window) {
+      await updateSyncStatus("voicemails", "error", {
+        errorMessage: err.message,
+        tenantId: tenant.id,
+      });
+    }
     throw err;
   } finally {
     if (sftp) {
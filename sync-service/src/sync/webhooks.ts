@@ -0,0 +1,127 @@
+import crypto from "crypto";
+import { logger } from "../utils/logger";
+import {
+  WebhookDelivery,
+  claimWebhookDeliveries,
+  getRedactionRules,
+  recordWebhookAttempt,
+  recoverExpiredWebhookDeliveries,
+} from "../storage/webhooks";
+import { checkWebhookHost } from "../utils/webhook-targets";
+import { createRecordRedactor } from "../utils/redaction";
+
+// ============================================
+// WEBHOOK DELIVERY
+// ============================================
+// POSTs queued webhook deliveries. Each request carries:
+//   X-BackupWiz-Event:     event type, e.g. voicemail.received
+//   X-BackupWiz-Delivery:  delivery id (stable across retries)
+//   X-BackupWiz-Timestamp: unix seconds when the request was signed
+//   X-BackupWiz-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+// keyed with the endpoint's secret. Any 2xx response counts as delivered.
+// Payloads are redacted with the tenant's rules once it has saved redaction
+// settings, as they are stored unredacted like the archive itself.
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const BATCH_SIZE = 20;
+const LEASE_MS = REQUEST_TIMEOUT_MS + 60_000;
+const RESPONSE_BODY_LIMIT = 1024;
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+async function deliver(delivery: WebhookDelivery): Promise<void> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startTime = Date.now();
+
+  let outcome: Parameters<typeof recordWebhookAttempt>[1];
+  try {
+    const rules = await getRedactionRules(delivery.tenant_id);
+    const body = JSON.stringify({
+      id: delivery.event_id,
+      type: delivery.event_type,
+      created_at: new Date(delivery.event_created_at).toISOString(),
+      tenant_id: delivery.tenant_id,
+      data: rules ? createRecordRedactor(rules)(delivery.payload) : delivery.payload,
+    });
+
+    // The host may have been re-pointed at an internal address since it was saved
+    const hostError = await checkWebhookHost(delivery.url);
+    if (hostError) {
+      throw new Error(hostError);
+    }
+
+    const response = await fetch(delivery.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "BackupWiz-Webhooks/1.0",
+        "X-BackupWiz-Event": delivery.event_type,
+        "X-BackupWiz-Delivery": delivery.id,
+        "X-BackupWiz-Timestamp": String(timestamp),
+        "X-BackupWiz-Signature": `sha256=${signWebhookPayload(delivery.secret, timestamp, body)}`,
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const responseBody = (await response.text().catch(() => "")).slice(0, RESPONSE_BODY_LIMIT);
+
+    outcome = {
+      ok: response.ok,
+      responseStatus: response.status,
+      responseBody: responseBody || null,
+      error: response.ok ? null : `HTTP ${response.status}`,
+      durationMs: Date.now() - startTime,
+    };
+  } catch (error) {
+    const err = error as Error;
+    outcome = {
+      ok: false,
+      responseStatus: null,
+      responseBody: null,
+      error: err.name === "TimeoutError" ? `Timed out after ${REQUEST_TIMEOUT_MS / 1000}s` : err.message,
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  const result = await recordWebhookAttempt(delivery, outcome);
+  if (result === "failed") {
+    logger.warn("Webhook delivery failed - out of attempts", {
+      tenantId: delivery.tenant_id,
+      deliveryId: delivery.id,
+      eventType: delivery.event_type,
+      error: outcome.error,
+    });
+  } else if (result === "retry") {
+    logger.debug("Webhook delivery failed, will retry", {
+      tenantId: delivery.tenant_id,
+      deliveryId: delivery.id,
+      attempt: delivery.attempts,
+      error: outcome.error,
+    });
+  }
+}
+
+/**
+ * Deliver everything that is due. Returns how many deliveries were attempted.
+ */
+export async function processWebhookQueue(): Promise<number> {
+  const recovered = await recoverExpiredWebhookDeliveries();
+  if (recovered > 0) {
+    logger.warn("Recovered abandoned webhook deliveries", { deliveries: recovered });
+  }
+
+  let attempted = 0;
+  while (true) {
+    const deliveries = await claimWebhookDeliveries(BATCH_SIZE, LEASE_MS);
+    if (deliveries.length === 0) break;
+
+    // Different endpoints are independent, so one slow receiver doesn't hold up the batch
+    await Promise.all(deliveries.map(deliver));
+    attempted += deliveries.length;
+  }
+
+  return attempted;
+}
@@ -0,0 +1,37 @@
+// ============================================
+// SYNC WINDOWS
+// ============================================
+// A window restricts a sync run to a slice of history instead of "everything
+// since the high-water mark". Window runs read from `start`, ignore items at
+// or after `end`, and never touch sync_status, so the live cursor stays put
+// while old data is re-pulled.
+
+export interface SyncWindow {
+  start: Date; // inclusive
+  end: Date;   // exclusive
+  // Only these 3CX ids (e.g. the items a reconciliation found missing)
+  ids?: Set<string>;
+}
+
+// The 3CX queries fetch strictly after `since`, so start one millisecond early
+export function windowSince(window: SyncWindow): Date {
+  return new Date(window.start.getTime() - 1);
+}
+
+// Whether a fetched 3CX item belongs to the window. With an id list the id
+// decides on its own, since some sources have no usable timestamp.
+export function isInSyncWindow(
+  window: SyncWindow,
+  id: string,
+  timestamp: Date | string | null
+): boolean {
+  if (window.ids) return window.ids.has(id);
+  if (!timestamp) return false;
+  const time = new Date(timestamp).getTime();
+  return time >= window.start.getTime() && time < window.end.getTime();
+}
+
+// Whether a page of results has already run past the end of the window
+export function isPastSyncWindow(window: SyncWindow, timestamp: Date | string | null | undefined): boolean {
+  return !!timestamp && new Date(timestamp).getTime() >= window.end.getTime();
+}
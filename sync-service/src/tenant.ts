@@ -3,6 +3,8 @@ import { getSupabaseClient } from "./storage/supabase";
 import { getPgPool } from "./storage/postgres";
 import { logger } from "./utils/logger";
 import { SftpConfig } from "./storage/sftp";
+import type { TenantSyncBudgetSettings } from "./sync/budget";
+import type { SyncGate } from "./sync/gating";
 import { createSshTunnel, closeTunnel, closeAllTunnels as closeAllSshTunnels, setOnTunnelDiedCallback } from "./ssh-tunnel";
 
 // Raw tenant data from database (includes both old and new columns)
@@ -35,16 +37,64 @@ interface RawTenantData {
   backup_faxes: boolean;
   backup_cdr: boolean;
   backup_meetings: boolean;
+  // Tenant settings JSON (sync_budget lives here)
+  settings: { sync_budget?: TenantSyncBudgetSettings } | null;
+  // Quota and billing (drive sync gating)
+  storage_used_bytes: number | null;
+  storage_quota_bytes: number | null;
+  billing_status: string | null;
+  storage_plan: RawStoragePlan | RawStoragePlan[] | null;
+  sync_gate: SyncGate | null;
+  sync_gate_since: string | null;
   // Status
   is_active: boolean;
   sync_enabled: boolean;
+  // The tenant's 3CX systems
+  pbx_instances: RawPbxInstance[] | null;
 }
 
-// Normalized tenant config (after applying fallback logic)
+// Connection, paths and backup toggles of one of the tenant's 3CX systems
+interface RawPbxInstance {
+  id: string;
+  name: string;
+  is_primary: boolean;
+  threecx_host: string | null;
+  ssh_port: number | null;
+  ssh_user: string | null;
+  ssh_password: string | null;
+  threecx_db_password: string | null;
+  threecx_chat_files_path: string | null;
+  threecx_recordings_path: string | null;
+  threecx_voicemail_path: string | null;
+  threecx_fax_path: string | null;
+  threecx_meetings_path: string | null;
+  backup_chats: boolean;
+  backup_chat_media: boolean;
+  backup_recordings: boolean;
+  backup_voicemails: boolean;
+  backup_faxes: boolean;
+  backup_cdr: boolean;
+  backup_meetings: boolean;
+  sync_enabled: boolean;
+}
+
+interface RawStoragePlan {
+  name: string;
+  storage_limit_gb: number;
+  soft_limit_percent: number | null;
+  grace_period_days: number | null;
+}
+
+// Normalized tenant config (after applying fallback logic). A tenant with
+// several 3CX systems gets one config per system: connection, paths and
+// backup toggles come from the pbx_instances row, quota and billing from the
+// tenant. id is always the tenant's id.
 export interface TenantConfig {
   id: string;
   name: string;
   slug: string;
+  pbx_instance_id: string | null; // null = tenant without pbx_instances rows
+  pbx_instance_name: string | null;
   threecx_host: string | null;
   ssh_port: number | null;
   ssh_user: string | null;
@@ -62,6 +112,15 @@ export interface TenantConfig {
   backup_faxes: boolean;
   backup_cdr: boolean;
   backup_meetings: boolean;
+  sync_budget: TenantSyncBudgetSettings | null;
+  storage_used_bytes: number;
+  storage_limit_bytes: number; // 0 = unlimited
+  billing_status: string;
+  plan_name: string | null;
+  soft_limit_percent: number;
+  grace_period_days: number;
+  sync_gate: SyncGate;
+  sync_gate_since: string | null;
   is_active: boolean;
   sync_enabled: boolean;
   has_active_users?: boolean;
@@ -70,10 +129,15 @@ export interface TenantConfig {
 
 // Normalize tenant data: use new columns, fall back to legacy columns
 function normalizeTenant(raw: RawTenantData): TenantConfig {
+  // storage_plan may be returned as array or single object depending on Supabase version
+  const plan = Array.isArray(raw.storage_plan) ? raw.storage_plan[0] : raw.storage_plan;
+
   return {
     id: raw.id,
     name: raw.name,
     slug: raw.slug,
+    pbx_instance_id: null,
+    pbx_instance_name: null,
     threecx_host: raw.threecx_host,
     // Use new columns with fallback to legacy columns
     ssh_port: raw.ssh_port ?? raw.sftp_port ?? 22,
@@ -94,13 +158,76 @@ function normalizeTenant(raw: RawTenantData): TenantConfig {
     backup_faxes: raw.backup_faxes,
     backup_cdr: raw.backup_cdr,
     backup_meetings: raw.backup_meetings,
+    // Transfer budget overrides
+    sync_budget: raw.settings?.sync_budget ?? null,
+    // Quota and billing: the plan's limit wins over the legacy per-tenant quota
+    storage_used_bytes: Number(raw.storage_used_bytes ?? 0),
+    storage_limit_bytes: plan
+      ? plan.storage_limit_gb * 1024 * 1024 * 1024
+      : Number(raw.storage_quota_bytes ?? 0),
+    billing_status: raw.billing_status || "active",
+    plan_name: plan?.name ?? null,
+    soft_limit_percent: plan?.soft_limit_percent ?? 80,
+    grace_period_days: plan?.grace_period_days ?? 7,
+    sync_gate: raw.sync_gate || "open",
+    sync_gate_since: raw.sync_gate_since,
     // Status
     is_active: raw.is_active,
     sync_enabled: raw.sync_enabled,
   };
 }
 
-// Cache for tenant database pools
+// One config per enabled 3CX system, primary first; the tenant row itself
+// when the tenant has no systems
+function expandPbxInstances(tenant: TenantConfig, instances: RawPbxInstance[]): TenantConfig[] {
+  if (instances.length === 0) {
+    return [tenant];
+  }
+
+  return [...instances]
+    .sort((a, b) => Number(b.is_primary) - Number(a.is_primary))
+    .filter((instance) => instance.sync_enabled)
+    .map((instance) => ({
+      ...tenant,
+      pbx_instance_id: instance.id,
+      pbx_instance_name: instance.name,
+      threecx_host: instance.threecx_host,
+      ssh_port: instance.ssh_port ?? 22,
+      ssh_user: instance.ssh_user,
+      ssh_password: instance.ssh_password,
+      threecx_db_password: instance.threecx_db_password,
+      threecx_chat_files_path: instance.threecx_chat_files_path,
+      threecx_recordings_path: instance.threecx_recordings_path,
+      threecx_voicemail_path: instance.threecx_voicemail_path,
+      threecx_fax_path: instance.threecx_fax_path,
+      threecx_meetings_path: instance.threecx_meetings_path,
+      backup_chats: instance.backup_chats,
+      backup_chat_media: instance.backup_chat_media,
+      backup_recordings: instance.backup_recordings,
+      backup_voicemails: instance.backup_voicemails,
+      backup_faxes: instance.backup_faxes,
+      backup_cdr: instance.backup_cdr,
+      backup_meetings: instance.backup_meetings,
+    }));
+}
+
+// Key for everything tied to one 3CX server: pools, SSH tunnels, realtime
+// listeners and circuit breakers
+export function tenantConnectionKey(tenant: TenantConfig): string {
+  return tenant.pbx_instance_id ?? tenant.id;
+}
+
+// One config per tenant, for per-tenant work (sync gates, reconciliation)
+export function uniqueTenants(tenants: TenantConfig[]): TenantConfig[] {
+  const seen = new Set<string>();
+  return tenants.filter((tenant) => {
+    if (seen.has(tenant.id)) return false;
+    seen.add(tenant.id);
+    return true;
+  });
+}
+
+// Cache for tenant database pools, by tenantConnectionKey
 const tenantPools: Map<string, Pool> = new Map();
 
 // Register callback to clean up stale pools when SSH tunnel dies.
@@ -130,11 +257,18 @@ export async function getActiveTenants(): Promise<TenantConfig[]> {
       sftp_port, sftp_user, sftp_password, threecx_password,
       threecx_chat_files_path, threecx_recordings_path, threecx_voicemail_path, threecx_fax_path, threecx_meetings_path,
       backup_chats, backup_chat_media, backup_recordings, backup_voicemails, backup_faxes, backup_cdr, backup_meetings,
-      is_active, sync_enabled, last_user_activity_at
+      settings, is_active, sync_enabled, last_user_activity_at,
+      storage_used_bytes, storage_quota_bytes, billing_status, sync_gate, sync_gate_since,
+      storage_plan:storage_plans(name, storage_limit_gb, soft_limit_percent, grace_period_days),
+      pbx_instances(
+        id, name, is_primary, threecx_host, ssh_port, ssh_user, ssh_password, threecx_db_password,
+        threecx_chat_files_path, threecx_recordings_path, threecx_voicemail_path, threecx_fax_path, threecx_meetings_path,
+        backup_chats, backup_chat_media, backup_recordings, backup_voicemails, backup_faxes, backup_cdr, backup_meetings,
+        sync_enabled
+      )
     `)
     .eq("is_active", true)
-    .eq("sync_enabled", true)
-    .not("threecx_host", "is", null);
+    .eq("sync_enabled", true);
 
   if (error) {
     logger.error("Failed to fetch active tenants", { error: error.message });
@@ -143,16 +277,19 @@ export async function getActiveTenants(): Promise<TenantConfig[]> {
 
   const now = Date.now();
 
-  return (tenants || []).map((raw) => {
+  return (tenants || []).flatMap((raw) => {
     const tenant = normalizeTenant(raw as RawTenantData);
     const lastActivity = raw.last_user_activity_at
       ? new Date(raw.last_user_activity_at).getTime()
       : 0;
-    return {
-      ...tenant,
-      has_active_users: now - lastActivity < ACTIVE_USER_THRESHOLD_MS,
-      last_user_activity_at: raw.last_user_activity_at,
-    };
+    return expandPbxInstances(
+      {
+        ...tenant,
+        has_active_users: now - lastActivity < ACTIVE_USER_THRESHOLD_MS,
+        last_user_activity_at: raw.last_user_activity_at,
+      },
+      (raw as RawTenantData).pbx_instances || []
+    ).filter((config) => config.threecx_host);
   });
 }
 
@@ -180,15 +317,16 @@ export async function getTenantPool(tenant: TenantConfig): Promise<Pool | null>
     return null;
   }
 
-  // Check if we already have a pool for this tenant
-  if (tenantPools.has(tenant.id)) {
-    return tenantPools.get(tenant.id)!;
+  // Check if we already have a pool for this tenant's 3CX system
+  const key = tenantConnectionKey(tenant);
+  if (tenantPools.has(key)) {
+    return tenantPools.get(key)!;
   }
 
   try {
     // First, establish SSH tunnel to the 3CX server
     // This tunnels localhost:localPort -> 3CXServer:5432 via SSH
-    const tunnel = await createSshTunnel(tenant.id, {
+    const tunnel = await createSshTunnel(key, {
       sshHost: tenant.threecx_host,
       sshPort: tenant.ssh_port || 22,
       sshUsername: tenant.ssh_user,
@@ -218,10 +356,11 @@ export async function getTenantPool(tenant: TenantConfig): Promise<Pool | null>
       });
     });
 
-    tenantPools.set(tenant.id, pool);
+    tenantPools.set(key, pool);
 
     logger.info(`Created database pool for tenant ${tenant.slug} via SSH tunnel`, {
       tenantId: tenant.id,
+      pbxInstanceId: tenant.pbx_instance_id,
       host: tenant.threecx_host,
       tunnelPort: tunnel.localPort,
     });
@@ -276,12 +415,13 @@ export async function testTenantConnection(tenant: TenantConfig): Promise<boolea
 
     // Clean up stale pool and tunnel so next attempt creates fresh ones
     logger.info(`Cleaning up stale connection resources for retry`, { tenantId: tenant.id });
-    await closeTenantPool(tenant.id);
+    await closeTenantPool(tenantConnectionKey(tenant));
 
     return false;
   }
 }
 
+// Takes a tenantConnectionKey
 export async function closeTenantPool(tenantId: string): Promise<void> {
   const pool = tenantPools.get(tenantId);
   if (pool) {
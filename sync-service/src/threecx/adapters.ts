@@ -0,0 +1,303 @@
+import type { CallRecordSource, RecordingsSource, SchemaSnapshot, VoicemailsSource } from "./detection";
+
+// ============================================
+// 3CX SCHEMA ADAPTERS
+// ============================================
+// One adapter per supported 3CX release. Each knows where that release keeps
+// its call history and how to map it onto ThreeCXCallRecord; recordings and
+// voicemails live in the same tables on every release, with optional
+// columns, so they share one builder each. Adapters are tried in order and
+// the first whose call history table has every column it reads wins.
+
+export type ThreeCXRelease = "hosted" | "v20" | "v18" | "legacy";
+
+export interface SchemaAdapter {
+  release: ThreeCXRelease;
+  label: string;
+  callRecords: CallRecordSource;
+}
+
+const HOSTED: SchemaAdapter = {
+  release: "hosted",
+  label: "3CX Hosted (myphone_callhistory_v14)",
+  callRecords: {
+    table: "myphone_callhistory_v14",
+    idColumn: "idmpch14",
+    timeColumn: "start_time",
+    requiredColumns: [
+      "idmpch14", "call_id", "calltype", "dnowner", "party_name", "party_callerid",
+      "dialed_number", "start_time", "established_time", "end_time", "end_status",
+    ],
+    // Columns: idmpch14, call_id, calltype, dnowner, party_dn, party_name, party_callerid,
+    //          start_time, established_time, end_time, end_status, dialed_number
+    select: `
+      idmpch14::text as call_id,
+      call_id::text as call_group_id,
+      CASE WHEN calltype = 2 THEN dnowner::text ELSE party_callerid END as caller_number,
+      CASE WHEN calltype = 2 THEN NULL ELSE party_name END as caller_name,
+      CASE WHEN calltype = 2
+        THEN COALESCE(NULLIF(dialed_number::text, ''), party_callerid)
+        ELSE dnowner::text
+      END as callee_number,
+      CASE WHEN calltype = 2 THEN party_name ELSE NULL END as callee_name,
+      dnowner::text as extension_number,
+      -- Direction from who is actually external, not 3CX's calltype code
+      -- (calltype does not reliably mean in/out/internal). The other
+      -- party is party_callerid (or dialed_number for outbound); if it
+      -- is an external number the call is in/out, otherwise internal.
+      CASE
+        WHEN left(coalesce(nullif(party_callerid, ''), nullif(dialed_number::text, ''), ''), 1) = '+'
+             OR length(regexp_replace(coalesce(nullif(party_callerid, ''), nullif(dialed_number::text, ''), ''), '[^0-9]', '', 'g')) >= 7
+          THEN CASE WHEN calltype = 2 THEN 'outbound' ELSE 'inbound' END
+        ELSE 'internal'
+      END as direction,
+      calltype::text as call_type,
+      CASE
+        WHEN established_time IS NOT NULL THEN 'answered'
+        WHEN end_status = 5 THEN 'missed'
+        ELSE 'missed'
+      END as status,
+      -- Ring time = start → answer (or start → hangup when unanswered)
+      CASE
+        WHEN established_time IS NOT NULL THEN EXTRACT(EPOCH FROM (established_time - start_time))::integer
+        ELSE EXTRACT(EPOCH FROM (end_time - start_time))::integer
+      END as ring_duration,
+      CASE
+        WHEN established_time IS NOT NULL
+        THEN EXTRACT(EPOCH FROM (end_time - established_time))::integer
+        ELSE 0
+      END as talk_duration,
+      EXTRACT(EPOCH FROM (end_time - start_time))::integer as total_duration,
+      start_time as call_started_at,
+      established_time as call_answered_at,
+      end_time as call_ended_at,
+      false as has_recording
+    `,
+  },
+};
+
+const V18: SchemaAdapter = {
+  release: "v18",
+  label: "3CX V18 (cl)",
+  callRecords: {
+    table: "cl",
+    idColumn: "idcl",
+    timeColumn: "start_time",
+    requiredColumns: [
+      "idcl", "src", "srcname", "dst", "dstname", "srcdn", "dstdn", "is_outbound", "calltype",
+      "ring_time", "talk_time", "hold_time", "start_time", "end_time", "has_rec",
+    ],
+    select: `
+      idcl::text as call_id,
+      NULL as call_group_id,
+      src as caller_number,
+      srcname as caller_name,
+      dst as callee_number,
+      dstname as callee_name,
+      CASE
+        WHEN srcdn IS NOT NULL THEN srcdn
+        ELSE dstdn
+      END as extension_number,
+      CASE
+        WHEN is_outbound = true THEN 'outbound'
+        WHEN srcdn IS NULL THEN 'inbound'
+        ELSE 'internal'
+      END as direction,
+      calltype as call_type,
+      CASE
+        WHEN talk_time > 0 THEN 'answered'
+        ELSE 'missed'
+      END as status,
+      ring_time as ring_duration,
+      talk_time as talk_duration,
+      (ring_time + talk_time + hold_time) as total_duration,
+      start_time as call_started_at,
+      CASE WHEN talk_time > 0 THEN start_time + (ring_time * INTERVAL '1 second') ELSE NULL END as call_answered_at,
+      end_time as call_ended_at,
+      COALESCE(has_rec, false) as has_recording
+    `,
+  },
+};
+
+const V20: SchemaAdapter = {
+  release: "v20",
+  label: "3CX V20 (callhistory3)",
+  callRecords: {
+    table: "callhistory3",
+    idColumn: "idcallhistory3",
+    timeColumn: "starttime",
+    requiredColumns: [
+      "idcallhistory3", "callid", "starttime", "answertime", "endtime", "duration",
+      "is_answ", "is_fail", "is_fromoutside", "mediatype", "from_no", "to_no", "callerid", "group_no", "line_no",
+    ],
+    // Columns: idcallhistory3, callid, starttime, answertime, endtime, duration,
+    //          is_answ, is_fail, is_compl, is_fromoutside, mediatype,
+    //          from_no, to_no, callerid, dialednumber, group_no, line_no
+    select: `
+      idcallhistory3::text as call_id,
+      callid::text as call_group_id,
+      from_no as caller_number,
+      callerid as caller_name,
+      to_no as callee_number,
+      NULL as callee_name,
+      COALESCE(group_no, line_no) as extension_number,
+      CASE
+        WHEN is_fromoutside = true THEN 'inbound'
+        ELSE 'outbound'
+      END as direction,
+      mediatype::text as call_type,
+      CASE
+        WHEN is_answ = true THEN 'answered'
+        WHEN is_fail = true THEN 'failed'
+        ELSE 'missed'
+      END as status,
+      NULL::integer as ring_duration,
+      EXTRACT(EPOCH FROM (endtime - answertime))::integer as talk_duration,
+      EXTRACT(EPOCH FROM duration)::integer as total_duration,
+      starttime as call_started_at,
+      CASE WHEN is_answ = true THEN answertime ELSE NULL END as call_answered_at,
+      endtime as call_ended_at,
+      false as has_recording
+    `,
+  },
+};
+
+// Older installs with a plain call history table
+const LEGACY_TABLES = ["cdr", "callhistory", "call_history"];
+
+function legacyAdapter(table: string): SchemaAdapter {
+  return {
+    release: "legacy",
+    label: `Legacy call history (${table})`,
+    callRecords: {
+      table,
+      idColumn: "id",
+      timeColumn: "start_time",
+      requiredColumns: [
+        "id", "caller", "caller_name", "callee", "callee_name", "extension", "direction", "call_type", "status",
+        "ring_duration", "talk_duration", "total_duration", "start_time", "answer_time", "end_time", "has_recording",
+      ],
+      select: `
+        id::text as call_id,
+        NULL as call_group_id,
+        caller as caller_number,
+        caller_name,
+        callee as callee_number,
+        callee_name,
+        extension as extension_number,
+        COALESCE(direction, 'unknown') as direction,
+        call_type,
+        status,
+        ring_duration,
+        talk_duration,
+        total_duration,
+        start_time as call_started_at,
+        answer_time as call_answered_at,
+        end_time as call_ended_at,
+        COALESCE(has_recording, false) as has_recording
+      `,
+    },
+  };
+}
+
+export const SCHEMA_ADAPTERS: SchemaAdapter[] = [HOSTED, V18, V20, ...LEGACY_TABLES.map(legacyAdapter)];
+
+function hasColumns(snapshot: SchemaSnapshot, table: string, columns: string[]): boolean {
+  const present = snapshot.tables[table];
+  return !!present && columns.every((c) => present.includes(c));
+}
+
+/**
+ * The adapter for this schema, or null when no supported call history table
+ * is present (recordings and voicemails can still be synced).
+ */
+export function selectAdapter(snapshot: SchemaSnapshot): SchemaAdapter | null {
+  return (
+    SCHEMA_ADAPTERS.find((adapter) =>
+      hasColumns(snapshot, adapter.callRecords.table, adapter.callRecords.requiredColumns)
+    ) ?? null
+  );
+}
+
+export function recordingsSource(snapshot: SchemaSnapshot): RecordingsSource | null {
+  const columns = snapshot.tables.recordings;
+  if (!columns || !columns.includes("id_recording") || !columns.includes("recording_url")) return null;
+
+  const has = (column: string) => columns.includes(column);
+  const hasParticipantId = has("cl_participants_id");
+  const hasStartTime = has("start_time");
+  const hasEndTime = has("end_time");
+  const hasTranscription = has("transcription");
+
+  // V20 ties a recording to a call participant; cl_segments rows name the
+  // participant on either end and carry the call id, which the CDR legs share
+  const callLink =
+    hasParticipantId && hasColumns(snapshot, "cl_segments", ["call_id", "src_part_id", "dst_part_id"]);
+  const participantKey = snapshot.tables.cl_participants?.includes("idcl_participants") ? "idcl_participants" : "id";
+  const participantExtension =
+    hasParticipantId && hasColumns(snapshot, "cl_participants", [participantKey, "dn"]);
+
+  const callGroupSelect = callLink
+    ? `(
+        SELECT s.call_id::text FROM cl_segments s
+        WHERE s.src_part_id = recordings.cl_participants_id OR s.dst_part_id = recordings.cl_participants_id
+        LIMIT 1
+      )`
+    : "NULL";
+  const extensionSelect = participantExtension
+    ? `(SELECT p.dn::text FROM cl_participants p WHERE p.${participantKey} = recordings.cl_participants_id)`
+    : "NULL";
+
+  return {
+    table: "recordings",
+    idColumn: "id_recording",
+    // Without start_time recordings are paged by id and cannot sync incrementally
+    timeColumn: hasStartTime ? "start_time" : null,
+    features: {
+      start_time: hasStartTime,
+      end_time: hasEndTime,
+      transcription: hasTranscription,
+      call_link: callLink,
+      participant_extension: participantExtension,
+    },
+    select: `
+      id_recording::text as recording_id,
+      ${hasParticipantId ? "cl_participants_id::text" : "NULL"} as call_participants_id,
+      ${callGroupSelect} as call_group_id,
+      recording_url,
+      ${hasStartTime ? "start_time" : "NULL"} as start_time,
+      ${hasEndTime ? "end_time" : "NULL"} as end_time,
+      ${hasStartTime && hasEndTime ? "EXTRACT(EPOCH FROM (end_time - start_time))::int" : "NULL"} as duration_seconds,
+      ${hasTranscription ? "transcription" : "NULL"} as transcription,
+      ${extensionSelect} as extension_number,
+      NULL as caller_number,
+      NULL as callee_number
+    `,
+  };
+}
+
+const VOICEMAIL_COLUMNS = ["wav_file", "callee", "caller", "caller_name", "duration", "created_time", "heard", "removed"];
+
+export function voicemailsSource(snapshot: SchemaSnapshot): VoicemailsSource | null {
+  if (!hasColumns(snapshot, "s_voicemail", VOICEMAIL_COLUMNS)) return null;
+  const hasTranscription = snapshot.tables.s_voicemail.includes("transcription");
+
+  return {
+    table: "s_voicemail",
+    idColumn: "wav_file",
+    timeExpression: "TO_TIMESTAMP(created_time, 'YYYYMMDDHH24MISS.FF')",
+    where: "removed IS NULL",
+    features: { transcription: hasTranscription },
+    select: `
+      wav_file as voicemail_id,
+      wav_file,
+      callee as extension,
+      caller as caller_number,
+      caller_name,
+      CAST(duration AS integer) as duration_ms,
+      TO_TIMESTAMP(created_time, 'YYYYMMDDHH24MISS.FF') as created_at,
+      COALESCE(heard = '1', false) as is_heard,
+      ${hasTranscription ? "transcription" : "NULL"} as transcription
+    `,
+  };
+}
@@ -0,0 +1,137 @@
+import type { PoolClient } from "pg";
+import { ThreeCXRelease, recordingsSource, selectAdapter, voicemailsSource } from "./adapters";
+
+// ============================================
+// 3CX SCHEMA DETECTION
+// ============================================
+// Reading and classifying a 3CX database's schema, with no dependency on the
+// rest of the sync service: the web app's connection test
+// (src/lib/threecx-schema.ts) imports this module, so both report the same
+// release and capabilities from the same adapters.
+
+// Tables whose columns make up a snapshot. Anything else is irrelevant to the sync.
+export const SNAPSHOT_TABLES = [
+  "myphone_callhistory_v14",
+  "cl",
+  "callhistory3",
+  "cdr",
+  "callhistory",
+  "call_history",
+  "recordings",
+  "cl_segments",
+  "cl_participants",
+  "s_voicemail",
+  "chat_messages_history_view",
+  "chat_messages_view",
+  "parameter",
+];
+
+/** Columns of the relevant 3CX tables, as recorded by dump-3cx-schema.ts */
+export interface SchemaSnapshot {
+  server_version: string | null;
+  threecx_version: string | null;
+  tables: Record<string, string[]>;
+}
+
+export interface CallRecordSource {
+  table: string;
+  idColumn: string;
+  timeColumn: string;
+  requiredColumns: string[];
+  select: string; // column list producing ThreeCXCallRecord rows
+}
+
+export interface RecordingsSource {
+  table: string;
+  idColumn: string;
+  timeColumn: string | null; // null: no start_time, paged by id only
+  features: {
+    start_time: boolean;
+    end_time: boolean;
+    transcription: boolean;
+    call_link: boolean; // call_group_id through cl_segments
+    participant_extension: boolean;
+  };
+  select: string;
+}
+
+export interface VoicemailsSource {
+  table: string;
+  idColumn: string;
+  timeExpression: string;
+  where: string;
+  features: { transcription: boolean };
+  select: string;
+}
+
+export interface SchemaCapabilities {
+  callRecords: CallRecordSource | null;
+  recordings: RecordingsSource | null;
+  voicemails: VoicemailsSource | null;
+  chat_views: string[];
+}
+
+export interface SchemaProfile {
+  release: ThreeCXRelease | "unknown";
+  label: string;
+  server_version: string | null;
+  threecx_version: string | null;
+  detected_at: string;
+  capabilities: SchemaCapabilities;
+}
+
+export async function readSchemaSnapshot(client: PoolClient): Promise<SchemaSnapshot> {
+  const columns = await client.query(
+    `
+      SELECT table_name, column_name
+      FROM information_schema.columns
+      WHERE table_schema = 'public'
+      AND table_name = ANY($1)
+      ORDER BY table_name, ordinal_position
+    `,
+    [SNAPSHOT_TABLES]
+  );
+
+  const tables: Record<string, string[]> = {};
+  for (const row of columns.rows) {
+    (tables[row.table_name] ||= []).push(row.column_name);
+  }
+
+  const server = await client.query("SHOW server_version");
+
+  // 3CX keeps its own version among the system parameters; not every
+  // release does, and the database user may not be allowed to read it
+  let threecxVersion: string | null = null;
+  if (tables.parameter?.includes("name") && tables.parameter.includes("value")) {
+    try {
+      const version = await client.query("SELECT value FROM parameter WHERE name = 'VERSION' LIMIT 1");
+      threecxVersion = version.rows[0]?.value ?? null;
+    } catch {
+      // Not readable by this database user
+    }
+  }
+
+  return {
+    server_version: server.rows[0]?.server_version ?? null,
+    threecx_version: threecxVersion,
+    tables,
+  };
+}
+
+export function detectSchema(snapshot: SchemaSnapshot): SchemaProfile {
+  const adapter = selectAdapter(snapshot);
+
+  return {
+    release: adapter?.release ?? "unknown",
+    label: adapter?.label ?? "Unknown 3CX schema (no supported call history table)",
+    server_version: snapshot.server_version,
+    threecx_version: snapshot.threecx_version,
+    detected_at: new Date().toISOString(),
+    capabilities: {
+      callRecords: adapter?.callRecords ?? null,
+      recordings: recordingsSource(snapshot),
+      voicemails: voicemailsSource(snapshot),
+      chat_views: ["chat_messages_history_view", "chat_messages_view"].filter((view) => !!snapshot.tables[view]),
+    },
+  };
+}
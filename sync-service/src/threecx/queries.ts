@@ -1,5 +1,6 @@
 import { Pool } from "pg";
 import { withClient } from "./connection";
+import { forgetSchemaProfile, getSchemaProfile, isSchemaError } from "./schema";
 import { logger } from "../utils/logger";
 
 export interface ThreeCXMessage {
@@ -555,6 +556,52 @@ export async function getAllFileMappings(
   }, pool);
 }
 
+// ============================================
+// SCHEMA-DRIVEN QUERIES
+// ============================================
+// Recordings, CDR and voicemails are read from whichever tables the tenant's
+// 3CX release uses (see schema.ts and adapters.ts).
+
+interface SourceQuery {
+  select: string;
+  from: string;
+  time: string | null; // incremental column/expression; null reads from the start
+  order: string;
+  where?: string;
+}
+
+// Rows past `since` (all rows without it), oldest first
+async function runSourceQuery<T>(
+  source: SourceQuery,
+  since: Date | null,
+  limit: number,
+  pool?: Pool
+): Promise<T[]> {
+  const conditions = source.where ? [source.where] : [];
+  const params: (Date | number)[] = [];
+  if (since && source.time) {
+    params.push(since);
+    conditions.push(`${source.time} > $${params.length}`);
+  }
+  params.push(limit);
+
+  const query = `
+    SELECT ${source.select}
+    FROM ${source.from}
+    ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+    ORDER BY ${source.order} ASC
+    LIMIT $${params.length}
+  `;
+
+  try {
+    return await withClient(async (client) => (await client.query(query, params)).rows, pool);
+  } catch (err) {
+    // The schema changed under the cached profile: detect again next time
+    if (isSchemaError(err)) forgetSchemaProfile(pool);
+    throw err;
+  }
+}
+
 // ============================================
 // RECORDINGS
 // ============================================
@@ -562,6 +609,7 @@ export async function getAllFileMappings(
 export interface ThreeCXRecording {
   recording_id: string;
   call_participants_id: string | null;
+  call_group_id: string | null; // 3CX call id, resolved through the participant (V20)
   recording_url: string;
   start_time: Date | null;
   end_time: Date | null;
@@ -578,78 +626,28 @@ export async function getRecordings(
   limit: number = 500,
   pool?: Pool
 ): Promise<ThreeCXRecording[]> {
-  return withClient(async (client) => {
-    // Check if recordings table exists
-    const schemaCheck = await client.query(`
-      SELECT table_name
-      FROM information_schema.tables
-      WHERE table_schema = 'public'
-      AND table_name = 'recordings'
-    `);
-
-    if (schemaCheck.rows.length === 0) {
-      logger.warn("No recordings table found in 3CX database");
-      return [];
-    }
-
-    // First check what columns exist in the recordings table
-    const columnsCheck = await client.query(`
-      SELECT column_name
-      FROM information_schema.columns
-      WHERE table_name = 'recordings'
-    `);
-    const columnNames = columnsCheck.rows.map((r) => r.column_name);
-
-    // Build query based on available columns
-    const hasParticipantId = columnNames.includes("cl_participants_id");
-    const hasStartTime = columnNames.includes("start_time");
-    const hasEndTime = columnNames.includes("end_time");
-    const hasTranscription = columnNames.includes("transcription");
-
-    const timeColumn = hasStartTime ? "start_time" : "id_recording";
-    const orderClause = hasStartTime ? "start_time ASC" : "id_recording ASC";
-
-    const query = since && hasStartTime
-      ? `
-        SELECT
-          id_recording::text as recording_id,
-          ${hasParticipantId ? "cl_participants_id::text" : "NULL"} as call_participants_id,
-          recording_url,
-          ${hasStartTime ? "start_time" : "NULL"} as start_time,
-          ${hasEndTime ? "end_time" : "NULL"} as end_time,
-          ${hasStartTime && hasEndTime ? "EXTRACT(EPOCH FROM (end_time - start_time))::int" : "NULL"} as duration_seconds,
-          ${hasTranscription ? "transcription" : "NULL"} as transcription,
-          NULL as extension_number,
-          NULL as caller_number,
-          NULL as callee_number
-        FROM recordings
-        WHERE ${timeColumn} > $1
-        ORDER BY ${orderClause}
-        LIMIT $2
-      `
-      : `
-        SELECT
-          id_recording::text as recording_id,
-          ${hasParticipantId ? "cl_participants_id::text" : "NULL"} as call_participants_id,
-          recording_url,
-          ${hasStartTime ? "start_time" : "NULL"} as start_time,
-          ${hasEndTime ? "end_time" : "NULL"} as end_time,
-          ${hasStartTime && hasEndTime ? "EXTRACT(EPOCH FROM (end_time - start_time))::int" : "NULL"} as duration_seconds,
-          ${hasTranscription ? "transcription" : "NULL"} as transcription,
-          NULL as extension_number,
-          NULL as caller_number,
-          NULL as callee_number
-        FROM recordings
-        ORDER BY ${orderClause}
-        LIMIT $1
-      `;
-
-    const params = since && hasStartTime ? [since, limit] : [limit];
-    const result = await client.query(query, params);
-
-    logger.info(`Fetched ${result.rows.length} recordings from 3CX database`);
-    return result.rows;
-  }, pool);
+  const { capabilities } = await getSchemaProfile(pool);
+  const source = capabilities.recordings;
+  if (!source) {
+    logger.warn("No recordings table found in 3CX database");
+    return [];
+  }
+
+  const rows = await runSourceQuery<ThreeCXRecording>(
+    {
+      select: source.select,
+      from: source.table,
+      // Without start_time every run re-reads from the start, ordered by id
+      time: source.timeColumn,
+      order: source.timeColumn ?? source.idColumn,
+    },
+    since,
+    limit,
+    pool
+  );
+
+  logger.info(`Fetched ${rows.length} recordings from 3CX database`);
+  return rows;
 }
 
 // ============================================
@@ -658,6 +656,7 @@ export async function getRecordings(
 
 export interface ThreeCXCallRecord {
   call_id: string;
+  call_group_id: string | null; // 3CX call id shared by every leg of the call
   caller_number: string | null;
   caller_name: string | null;
   callee_number: string | null;
@@ -681,335 +680,26 @@ export async function getCallRecords(
   limit: number = 500,
   pool?: Pool
 ): Promise<ThreeCXCallRecord[]> {
-  return withClient(async (client) => {
-    // 3CX stores call logs in different tables depending on version
-    // Try cl (call log) table first, then callhistory3, then fallback to cdr table
-
-    // Check which tables exist (including myphone_callhistory_v14 for hosted 3CX)
-    const schemaCheck = await client.query(`
-      SELECT table_name
-      FROM information_schema.tables
-      WHERE table_schema = 'public'
-      AND table_name IN ('cl', 'callhistory3', 'cdr', 'callhistory', 'call_history', 'myphone_callhistory_v14')
-    `);
-    const availableTables = schemaCheck.rows.map((r) => r.table_name);
-
-    if (availableTables.length === 0) {
-      logger.warn("No CDR tables found in 3CX database");
-      return [];
-    }
-
-    // Prioritize myphone_callhistory_v14 for hosted 3CX (most reliable)
-    const orderedTables = [
-      "myphone_callhistory_v14",
-      "cl",
-      "callhistory3",
-      ...availableTables.filter(t => !["myphone_callhistory_v14", "cl", "callhistory3"].includes(t))
-    ].filter(t => availableTables.includes(t));
-
-    // Try each possible table in priority order
-    for (const tableName of orderedTables) {
-      try {
-        let query: string;
-        let params: (Date | number)[];
-
-        if (tableName === "myphone_callhistory_v14") {
-          // 3CX Hosted - myphone_callhistory_v14 is the most reliable call history table
-          // Columns: idmpch14, call_id, calltype, dnowner, party_dn, party_name, party_callerid,
-          //          start_time, established_time, end_time, end_status, dialed_number
-          query = since
-            ? `
-              SELECT
-                idmpch14::text as call_id,
-                CASE WHEN calltype = 2 THEN dnowner::text ELSE party_callerid END as caller_number,
-                CASE WHEN calltype = 2 THEN NULL ELSE party_name END as caller_name,
-                CASE WHEN calltype = 2
-                  THEN COALESCE(NULLIF(dialed_number::text, ''), party_callerid)
-                  ELSE dnowner::text
-                END as callee_number,
-                CASE WHEN calltype = 2 THEN party_name ELSE NULL END as callee_name,
-                dnowner::text as extension_number,
-                -- Direction from who is actually external, not 3CX's calltype code
-                -- (calltype does not reliably mean in/out/internal). The other
-                -- party is party_callerid (or dialed_number for outbound); if it
-                -- is an external number the call is in/out, otherwise internal.
-                CASE
-                  WHEN left(coalesce(nullif(party_callerid, ''), nullif(dialed_number::text, ''), ''), 1) = '+'
-                       OR length(regexp_replace(coalesce(nullif(party_callerid, ''), nullif(dialed_number::text, ''), ''), '[^0-9]', '', 'g')) >= 7
-                    THEN CASE WHEN calltype = 2 THEN 'outbound' ELSE 'inbound' END
-                  ELSE 'internal'
-                END as direction,
-                calltype::text as call_type,
-                CASE
-                  WHEN established_time IS NOT NULL THEN 'answered'
-                  WHEN end_status = 5 THEN 'missed'
-                  ELSE 'missed'
-                END as status,
-                -- Ring time = start → answer (or start → hangup when unanswered)
-                CASE
-                  WHEN established_time IS NOT NULL THEN EXTRACT(EPOCH FROM (established_time - start_time))::integer
-                  ELSE EXTRACT(EPOCH FROM (end_time - start_time))::integer
-                END as ring_duration,
-                CASE
-                  WHEN established_time IS NOT NULL
-                  THEN EXTRACT(EPOCH FROM (end_time - established_time))::integer
-                  ELSE 0
-                END as talk_duration,
-                EXTRACT(EPOCH FROM (end_time - start_time))::integer as total_duration,
-                start_time as call_started_at,
-                established_time as call_answered_at,
-                end_time as call_ended_at,
-                false as has_recording
-              FROM myphone_callhistory_v14
-              WHERE start_time > $1
-              ORDER BY start_time ASC
-              LIMIT $2
-            `
-            : `
-              SELECT
-                idmpch14::text as call_id,
-                CASE WHEN calltype = 2 THEN dnowner::text ELSE party_callerid END as caller_number,
-                CASE WHEN calltype = 2 THEN NULL ELSE party_name END as caller_name,
-                CASE WHEN calltype = 2
-                  THEN COALESCE(NULLIF(dialed_number::text, ''), party_callerid)
-                  ELSE dnowner::text
-                END as callee_number,
-                CASE WHEN calltype = 2 THEN party_name ELSE NULL END as callee_name,
-                dnowner::text as extension_number,
-                -- Direction from who is actually external, not 3CX's calltype code
-                -- (calltype does not reliably mean in/out/internal). The other
-                -- party is party_callerid (or dialed_number for outbound); if it
-                -- is an external number the call is in/out, otherwise internal.
-                CASE
-                  WHEN left(coalesce(nullif(party_callerid, ''), nullif(dialed_number::text, ''), ''), 1) = '+'
-                       OR length(regexp_replace(coalesce(nullif(party_callerid, ''), nullif(dialed_number::text, ''), ''), '[^0-9]', '', 'g')) >= 7
-                    THEN CASE WHEN calltype = 2 THEN 'outbound' ELSE 'inbound' END
-                  ELSE 'internal'
-                END as direction,
-                calltype::text as call_type,
-                CASE
-                  WHEN established_time IS NOT NULL THEN 'answered'
-                  WHEN end_status = 5 THEN 'missed'
-                  ELSE 'missed'
-                END as status,
-                -- Ring time = start → answer (or start → hangup when unanswered)
-                CASE
-                  WHEN established_time IS NOT NULL THEN EXTRACT(EPOCH FROM (established_time - start_time))::integer
-                  ELSE EXTRACT(EPOCH FROM (end_time - start_time))::integer
-                END as ring_duration,
-                CASE
-                  WHEN established_time IS NOT NULL
-                  THEN EXTRACT(EPOCH FROM (end_time - established_time))::integer
-                  ELSE 0
-                END as talk_duration,
-                EXTRACT(EPOCH FROM (end_time - start_time))::integer as total_duration,
-                start_time as call_started_at,
-                established_time as call_answered_at,
-                end_time as call_ended_at,
-                false as has_recording
-              FROM myphone_callhistory_v14
-              ORDER BY start_time ASC
-              LIMIT $1
-            `;
-          params = since ? [since, limit] : [limit];
-        } else if (tableName === "cl") {
-          // 3CX V18+ cl table schema
-          query = since
-            ? `
-              SELECT
-                idcl::text as call_id,
-                src as caller_number,
-                srcname as caller_name,
-                dst as callee_number,
-                dstname as callee_name,
-                CASE
-                  WHEN srcdn IS NOT NULL THEN srcdn
-                  ELSE dstdn
-                END as extension_number,
-                CASE
-                  WHEN is_outbound = true THEN 'outbound'
-                  WHEN srcdn IS NULL THEN 'inbound'
-                  ELSE 'internal'
-                END as direction,
-                calltype as call_type,
-                CASE
-                  WHEN talk_time > 0 THEN 'answered'
-                  ELSE 'missed'
-                END as status,
-                ring_time as ring_duration,
-                talk_time as talk_duration,
-                (ring_time + talk_time + hold_time) as total_duration,
-                start_time as call_started_at,
-                CASE WHEN talk_time > 0 THEN start_time + (ring_time * INTERVAL '1 second') ELSE NULL END as call_answered_at,
-                end_time as call_ended_at,
-                COALESCE(has_rec, false) as has_recording
-              FROM cl
-              WHERE start_time > $1
-              ORDER BY start_time ASC
-              LIMIT $2
-            `
-            : `
-              SELECT
-                idcl::text as call_id,
-                src as caller_number,
-                srcname as caller_name,
-                dst as callee_number,
-                dstname as callee_name,
-                CASE
-                  WHEN srcdn IS NOT NULL THEN srcdn
-                  ELSE dstdn
-                END as extension_number,
-                CASE
-                  WHEN is_outbound = true THEN 'outbound'
-                  WHEN srcdn IS NULL THEN 'inbound'
-                  ELSE 'internal'
-                END as direction,
-                calltype as call_type,
-                CASE
-                  WHEN talk_time > 0 THEN 'answered'
-                  ELSE 'missed'
-                END as status,
-                ring_time as ring_duration,
-                talk_time as talk_duration,
-                (ring_time + talk_time + hold_time) as total_duration,
-                start_time as call_started_at,
-                CASE WHEN talk_time > 0 THEN start_time + (ring_time * INTERVAL '1 second') ELSE NULL END as call_answered_at,
-                end_time as call_ended_at,
-                COALESCE(has_rec, false) as has_recording
-              FROM cl
-              ORDER BY start_time ASC
-              LIMIT $1
-            `;
-          params = since ? [since, limit] : [limit];
-        } else if (tableName === "callhistory3") {
-          // 3CX Hosted / V20+ callhistory3 table schema
-          // Columns: idcallhistory3, callid, starttime, answertime, endtime, duration,
-          //          is_answ, is_fail, is_compl, is_fromoutside, mediatype,
-          //          from_no, to_no, callerid, dialednumber, group_no, line_no
-          query = since
-            ? `
-              SELECT
-                idcallhistory3::text as call_id,
-                from_no as caller_number,
-                callerid as caller_name,
-                to_no as callee_number,
-                NULL as callee_name,
-                COALESCE(group_no, line_no) as extension_number,
-                CASE
-                  WHEN is_fromoutside = true THEN 'inbound'
-                  ELSE 'outbound'
-                END as direction,
-                mediatype::text as call_type,
-                CASE
-                  WHEN is_answ = true THEN 'answered'
-                  WHEN is_fail = true THEN 'failed'
-                  ELSE 'missed'
-                END as status,
-                NULL::integer as ring_duration,
-                EXTRACT(EPOCH FROM (endtime - answertime))::integer as talk_duration,
-                EXTRACT(EPOCH FROM duration)::integer as total_duration,
-                starttime as call_started_at,
-                CASE WHEN is_answ = true THEN answertime ELSE NULL END as call_answered_at,
-                endtime as call_ended_at,
-                false as has_recording
-              FROM callhistory3
-              WHERE starttime > $1
-              ORDER BY starttime ASC
-              LIMIT $2
-            `
-            : `
-              SELECT
-                idcallhistory3::text as call_id,
-                from_no as caller_number,
-                callerid as caller_name,
-                to_no as callee_number,
-                NULL as callee_name,
-                COALESCE(group_no, line_no) as extension_number,
-                CASE
-                  WHEN is_fromoutside = true THEN 'inbound'
-                  ELSE 'outbound'
-                END as direction,
-                mediatype::text as call_type,
-                CASE
-                  WHEN is_answ = true THEN 'answered'
-                  WHEN is_fail = true THEN 'failed'
-                  ELSE 'missed'
-                END as status,
-                NULL::integer as ring_duration,
-                EXTRACT(EPOCH FROM (endtime - answertime))::integer as talk_duration,
-                EXTRACT(EPOCH FROM duration)::integer as total_duration,
-                starttime as call_started_at,
-                CASE WHEN is_answ = true THEN answertime ELSE NULL END as call_answered_at,
-                endtime as call_ended_at,
-                false as has_recording
-              FROM callhistory3
-              ORDER BY starttime ASC
-              LIMIT $1
-            `;
-          params = since ? [since, limit] : [limit];
-        } else {
-          // Generic fallback for other table names
-          query = since
-            ? `
-              SELECT
-                id::text as call_id,
-                caller as caller_number,
-                caller_name,
-                callee as callee_number,
-                callee_name,
-                extension as extension_number,
-                COALESCE(direction, 'unknown') as direction,
-                call_type,
-                status,
-                ring_duration,
-                talk_duration,
-                total_duration,
-                start_time as call_started_at,
-                answer_time as call_answered_at,
-                end_time as call_ended_at,
-                COALESCE(has_recording, false) as has_recording
-              FROM ${tableName}
-              WHERE start_time > $1
-              ORDER BY start_time ASC
-              LIMIT $2
-            `
-            : `
-              SELECT
-                id::text as call_id,
-                caller as caller_number,
-                caller_name,
-                callee as callee_number,
-                callee_name,
-                extension as extension_number,
-                COALESCE(direction, 'unknown') as direction,
-                call_type,
-                status,
-                ring_duration,
-                talk_duration,
-                total_duration,
-                start_time as call_started_at,
-                answer_time as call_answered_at,
-                end_time as call_ended_at,
-                COALESCE(has_recording, false) as has_recording
-              FROM ${tableName}
-              ORDER BY start_time ASC
-              LIMIT $1
-            `;
-          params = since ? [since, limit] : [limit];
-        }
-
-        const result = await client.query(query, params);
-        logger.info(`Fetched ${result.rows.length} CDR records from 3CX (${tableName})`);
-        return result.rows;
-      } catch (err) {
-        logger.debug(`CDR query failed for table ${tableName}`, { error: (err as Error).message });
-        continue;
-      }
-    }
-
-    logger.warn("All CDR query attempts failed");
+  const { capabilities, label } = await getSchemaProfile(pool);
+  const source = capabilities.callRecords;
+  if (!source) {
+    logger.warn("No CDR tables found in 3CX database");
     return [];
-  }, pool);
+  }
+
+  try {
+    const rows = await runSourceQuery<ThreeCXCallRecord>(
+      { select: source.select, from: source.table, time: source.timeColumn, order: source.timeColumn },
+      since,
+      limit,
+      pool
+    );
+    logger.info(`Fetched ${rows.length} CDR records from 3CX (${source.table})`);
+    return rows;
+  } catch (err) {
+    logger.warn(`CDR query failed for ${label}`, { error: (err as Error).message });
+    return [];
+  }
 }
 
 // ============================================
@@ -1033,60 +723,131 @@ export async function getVoicemails(
   limit: number,
   pool: Pool
 ): Promise<ThreeCXVoicemail[]> {
-  return withClient(async (client) => {
-    // Check if s_voicemail table exists
-    const schemaCheck = await client.query(`
-      SELECT table_name
-      FROM information_schema.tables
-      WHERE table_schema = 'public'
-      AND table_name = 's_voicemail'
-    `);
+  const { capabilities } = await getSchemaProfile(pool);
+  const source = capabilities.voicemails;
+  if (!source) {
+    logger.warn("No s_voicemail table found in 3CX database");
+    return [];
+  }
+
+  const rows = await runSourceQuery<ThreeCXVoicemail>(
+    {
+      select: source.select,
+      from: source.table,
+      time: source.timeExpression,
+      order: "created_time",
+      where: source.where,
+    },
+    since,
+    limit,
+    pool
+  );
+
+  logger.info(`Fetched ${rows.length} voicemails from 3CX database`);
+  return rows;
+}
 
-    if (schemaCheck.rows.length === 0) {
-      logger.warn("No s_voicemail table found in 3CX database");
-      return [];
+// ============================================
+// RECONCILIATION
+// ============================================
+// Day-bucketed counts and ids straight from the 3CX tables, so the archive can
+// be checked against the source. Days are UTC and the id is the same 3CX id
+// each sync stores (threecx_message_id, threecx_call_id, ...).
+
+export type ReconcileSourceType = "messages" | "cdr" | "recordings" | "voicemails";
+
+interface ReconcileSource {
+  from: string; // table, view or UNION subquery
+  id: string;   // expression for the 3CX id
+  time: string; // expression for the item timestamp
+  where?: string;
+}
+
+// Resolve where each data type lives on this 3CX version from the cached
+// schema profile. Null when nothing usable exists.
+async function resolveReconcileSource(
+  dataType: ReconcileSourceType,
+  pool: Pool
+): Promise<ReconcileSource | null> {
+  const { capabilities } = await getSchemaProfile(pool);
+
+  switch (dataType) {
+    case "messages": {
+      const parts = capabilities.chat_views.map((view) => `SELECT message_id, time_sent FROM ${view}`);
+      if (parts.length === 0) return null;
+      return { from: `(${parts.join(" UNION ")}) combined`, id: "message_id", time: "time_sent" };
     }
 
-    // Query voicemails
-    const query = since
-      ? `
-        SELECT
-          wav_file as voicemail_id,
-          wav_file,
-          callee as extension,
-          caller as caller_number,
-          caller_name,
-          CAST(duration AS integer) as duration_ms,
-          TO_TIMESTAMP(created_time, 'YYYYMMDDHH24MISS.FF') as created_at,
-          COALESCE(heard = '1', false) as is_heard,
-          transcription
-        FROM s_voicemail
-        WHERE removed IS NULL
-        AND TO_TIMESTAMP(created_time, 'YYYYMMDDHH24MISS.FF') > $1
-        ORDER BY created_time ASC
-        LIMIT $2
+    case "cdr": {
+      const source = capabilities.callRecords;
+      if (!source) return null;
+      return { from: source.table, id: `${source.idColumn}::text`, time: source.timeColumn };
+    }
+
+    case "recordings": {
+      // Without start_time recordings cannot be placed on a day
+      const source = capabilities.recordings;
+      if (!source?.timeColumn) return null;
+      return { from: source.table, id: `${source.idColumn}::text`, time: source.timeColumn };
+    }
+
+    case "voicemails": {
+      const source = capabilities.voicemails;
+      if (!source) return null;
+      return { from: source.table, id: source.idColumn, time: source.timeExpression, where: source.where };
+    }
+  }
+}
+
+// Per-day item counts for [start, end). Null when the data type is not available.
+export async function getSourceDailyCounts(
+  dataType: ReconcileSourceType,
+  start: Date,
+  end: Date,
+  pool: Pool
+): Promise<Map<string, number> | null> {
+  const source = await resolveReconcileSource(dataType, pool);
+  if (!source) return null;
+
+  return withClient(async (client) => {
+    const result = await client.query(
       `
-      : `
         SELECT
-          wav_file as voicemail_id,
-          wav_file,
-          callee as extension,
-          caller as caller_number,
-          caller_name,
-          CAST(duration AS integer) as duration_ms,
-          TO_TIMESTAMP(created_time, 'YYYYMMDDHH24MISS.FF') as created_at,
-          COALESCE(heard = '1', false) as is_heard,
-          transcription
-        FROM s_voicemail
-        WHERE removed IS NULL
-        ORDER BY created_time ASC
-        LIMIT $1
-      `;
+          to_char(${source.time} AT TIME ZONE 'UTC', 'YYYY-MM-DD') as day,
+          COUNT(DISTINCT ${source.id}) as count
+        FROM ${source.from}
+        WHERE ${source.time} >= $1 AND ${source.time} < $2
+        ${source.where ? `AND ${source.where}` : ""}
+        GROUP BY 1
+      `,
+      [start, end]
+    );
+
+    return new Map(result.rows.map((r) => [r.day as string, parseInt(r.count)]));
+  }, pool);
+}
 
-    const params = since ? [since, limit] : [limit];
-    const result = await client.query(query, params);
+// Every 3CX id for [start, end), used to work out exactly which items are missing
+export async function getSourceIds(
+  dataType: ReconcileSourceType,
+  start: Date,
+  end: Date,
+  pool: Pool
+): Promise<string[]> {
+  const source = await resolveReconcileSource(dataType, pool);
+  if (!source) return [];
 
-    logger.info(`Fetched ${result.rows.length} voicemails from 3CX database`);
-    return result.rows;
+  return withClient(async (client) => {
+    const result = await client.query(
+      `
+        SELECT DISTINCT ${source.id} as id
+        FROM ${source.from}
+        WHERE ${source.time} >= $1 AND ${source.time} < $2
+        ${source.where ? `AND ${source.where}` : ""}
+      `,
+      [start, end]
+    );
+
+    return result.rows.map((r) => String(r.id));
   }, pool);
 }
@@ -0,0 +1,55 @@
+import { Pool } from "pg";
+import { getThreeCXPool, withClient } from "./connection";
+import { SchemaProfile, detectSchema, readSchemaSnapshot } from "./detection";
+import { logger } from "../utils/logger";
+
+// ============================================
+// 3CX SCHEMA DETECTION
+// ============================================
+// Which 3CX release a tenant runs, and what its database can give us, is read
+// once per connection pool from information_schema and cached. The queries in
+// queries.ts build their SQL from the cached profile instead of probing on
+// every call. A query failing on a missing table or column drops the cached
+// profile so the next call detects again (e.g. after a 3CX upgrade).
+//
+// Reading and classifying the schema lives in detection.ts, which the web
+// app's connection test shares; this module adds the per-pool cache.
+
+const profiles = new WeakMap<Pool, Promise<SchemaProfile>>();
+
+/**
+ * The schema profile of the 3CX database behind `pool` (the default pool when
+ * omitted), detected on first use and cached for the life of the pool.
+ */
+export function getSchemaProfile(pool?: Pool): Promise<SchemaProfile> {
+  const target = pool || getThreeCXPool();
+
+  let profile = profiles.get(target);
+  if (!profile) {
+    profile = withClient(async (client) => detectSchema(await readSchemaSnapshot(client)), target);
+    profiles.set(target, profile);
+
+    profile.then(
+      (detected) =>
+        logger.info("Detected 3CX schema", {
+          release: detected.release,
+          label: detected.label,
+          threecxVersion: detected.threecx_version,
+        }),
+      // A failed detection is not cached
+      () => profiles.delete(target)
+    );
+  }
+
+  return profile;
+}
+
+export function forgetSchemaProfile(pool?: Pool): void {
+  profiles.delete(pool || getThreeCXPool());
+}
+
+/** True for Postgres errors raised by a table or column that does not exist */
+export function isSchemaError(error: unknown): boolean {
+  const code = (error as { code?: string })?.code;
+  return code === "42P01" || code === "42703";
+}
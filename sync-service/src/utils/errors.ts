@@ -30,6 +30,13 @@ export class SupabaseError extends SyncError {
   }
 }
 
+export class AgentTransportError extends SyncError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, "AGENT_TRANSPORT_ERROR", details);
+    this.name = "AgentTransportError";
+  }
+}
+
 export function handleError(error: unknown): SyncError {
   if (error instanceof SyncError) {
     return error;
@@ -0,0 +1,79 @@
+import { createHash } from "crypto";
+import { Transform } from "stream";
+
+// ============================================
+// INTEGRITY HASHING
+// ============================================
+// Every archived object gets a SHA-256 of the bytes actually stored, and each
+// record is chained into integrity_log_entries by a database trigger (see the
+// 20260704_integrity_chain migration). chainEntryHash must stay byte-for-byte
+// identical to the SQL in append_integrity_log_entry().
+
+export const GENESIS_HASH = "0".repeat(64);
+
+export function sha256Hex(data: Buffer | string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Pass-through stream that hashes and counts the bytes flowing through it,
+ * so streamed uploads get a checksum without buffering the file.
+ */
+export function createHashingStream(): {
+  stream: Transform;
+  digest: () => { sha256: string; size: number };
+} {
+  const hash = createHash("sha256");
+  let size = 0;
+
+  const stream = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      size += chunk.length;
+      callback(null, chunk);
+    },
+  });
+
+  return {
+    stream,
+    digest: () => ({ sha256: hash.digest("hex"), size }),
+  };
+}
+
+/**
+ * Messages have no stored object, so the hash covers the archived fields.
+ * sent_at is normalised so values read back from Postgres hash the same.
+ */
+export function messageContentSha256(message: {
+  threecx_message_id: string;
+  sender_identifier?: string | null;
+  sender_name?: string | null;
+  content?: string | null;
+  sent_at: string;
+}): string {
+  return sha256Hex(JSON.stringify([
+    message.threecx_message_id,
+    message.sender_identifier ?? null,
+    message.sender_name ?? null,
+    message.content ?? null,
+    new Date(message.sent_at).toISOString(),
+  ]));
+}
+
+export function chainEntryHash(entry: {
+  prev_hash: string;
+  log_date: string;
+  sequence: number;
+  record_type: string;
+  record_id: string;
+  content_sha256: string;
+}): string {
+  return sha256Hex([
+    entry.prev_hash,
+    entry.log_date,
+    String(entry.sequence),
+    entry.record_type,
+    entry.record_id,
+    entry.content_sha256,
+  ].join("|"));
+}
@@ -0,0 +1,128 @@
+// ============================================
+// PII REDACTION
+// ============================================
+// Same masking the web app applies to redacted views, exports and reports
+// (src/lib/redaction.ts), for data the sync service sends out itself:
+// webhook payloads. Keep the patterns and field lists in step with it.
+
+import { unsafePatternReason } from "./regex-safety";
+
+export type RedactionPreset = "card_number" | "us_ssn" | "iban" | "email" | "phone_number";
+
+export interface RedactionRules {
+  presets: RedactionPreset[];
+  custom_patterns: string[];
+  mask_external_numbers: boolean;
+}
+
+const PRESET_PATTERNS: Record<RedactionPreset, string> = {
+  card_number: "\\b(?:\\d[ -]?){12,15}\\d\\b",
+  us_ssn: "\\b\\d{3}-\\d{2}-\\d{4}\\b",
+  iban: "\\b[A-Z]{2}\\d{2}(?: ?[A-Z0-9]{4}){3,7}(?: ?[A-Z0-9]{1,3})?\\b",
+  email: "[\\p{L}\\p{N}._%+-]+@[\\p{L}\\p{N}.-]+\\.[\\p{L}]{2,}",
+  // International (+...) or North American (555) 123-4567 style
+  phone_number: "\\+\\d[\\d\\s().-]{6,18}\\d|\\(?\\b\\d{3}\\)?[\\s.-]?\\d{3}[\\s.-]\\d{4}\\b",
+};
+
+const REDACTION_MASK = "[REDACTED]";
+
+// Free text that may contain any of the patterns
+const TEXT_FIELDS = new Set([
+  "content", "message_text", "messageText", "transcription", "snippet", "body",
+]);
+
+// Display names, which are often just the customer's number
+const NAME_FIELDS = new Set([
+  "sender_name", "senderName", "caller_name", "callee_name", "external_name",
+  "participant_name", "conversation_name", "conversationName",
+]);
+
+// Fields holding one identifier: an internal extension or an external number
+const NUMBER_FIELDS = new Set([
+  "sender_identifier", "sender_extension", "senderExtension", "caller_number", "callee_number", "remote_number",
+  "external_id", "external_number", "participant_identifier", "from_number", "to_number",
+]);
+
+// Internal extensions are short digit strings and stay visible
+function isExternalNumber(value: string): boolean {
+  const trimmed = value.trim();
+  if (/^\d{1,6}$/.test(trimmed)) return false;
+  if (!/^\+?[\d\s().-]+$/.test(trimmed)) return false;
+  return trimmed.replace(/\D/g, "").length >= 7;
+}
+
+function maskNumber(value: string): string {
+  const digits = value.replace(/\D/g, "");
+  return `${value.trim().startsWith("+") ? "+" : ""}${"•".repeat(Math.max(digits.length - 2, 5))}${digits.slice(-2)}`;
+}
+
+/**
+ * Redact every text, name and number field of a JSON value, at any depth.
+ * Custom patterns that are invalid, could hang on backtracking or match empty
+ * text are skipped (the dashboard rejects them on save).
+ */
+export function createRecordRedactor(rules: RedactionRules): <T>(value: T) => T {
+  const patterns: RegExp[] = [];
+  for (const source of [
+    ...rules.presets.filter((p) => p !== "phone_number").map((p) => PRESET_PATTERNS[p]),
+    ...rules.custom_patterns.filter((p) => unsafePatternReason(p, "giu") === null),
+  ]) {
+    try {
+      patterns.push(new RegExp(source, "giu"));
+    } catch {
+      // skip
+    }
+  }
+  // Phone numbers last, so card numbers aren't half-masked as phone numbers
+  const maskPhones = rules.mask_external_numbers || rules.presets.includes("phone_number");
+  const phonePattern = new RegExp(PRESET_PATTERNS.phone_number, "gu");
+
+  function text(value: string): string {
+    let result = value;
+    for (const pattern of patterns) {
+      result = result.replace(pattern, REDACTION_MASK);
+    }
+    if (rules.presets.includes("phone_number")) {
+      result = result.replace(phonePattern, (match) => maskNumber(match));
+    }
+    return result;
+  }
+
+  function name(value: string): string {
+    if (!maskPhones) return value;
+    if (isExternalNumber(value)) return maskNumber(value);
+    return value.replace(phonePattern, (match) => maskNumber(match));
+  }
+
+  function identifier(value: string): string {
+    if (!rules.mask_external_numbers) return value;
+    return isExternalNumber(value) ? maskNumber(value) : value;
+  }
+
+  function record<T>(value: T): T {
+    if (Array.isArray(value)) {
+      return value.map((item) => record(item)) as T;
+    }
+    if (!value || typeof value !== "object") return value;
+
+    const result: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value as Record<string, unknown>)) {
+      if (typeof field === "string" && field) {
+        result[key] = TEXT_FIELDS.has(key)
+          ? text(field)
+          : NAME_FIELDS.has(key)
+            ? name(field)
+            : NUMBER_FIELDS.has(key)
+              ? identifier(field)
+              : field;
+      } else if (field && typeof field === "object") {
+        result[key] = record(field);
+      } else {
+        result[key] = field;
+      }
+    }
+    return result as T;
+  }
+
+  return record;
+}
@@ -0,0 +1,112 @@
+// ============================================
+// REGEX SAFETY
+// ============================================
+// Checks on tenant-supplied patterns (policy rules, redaction) before they run
+// over archived text. Same check as hasNestedQuantifier() in the web app's
+// src/lib/policy-rules.ts - keep the two in step.
+
+interface QuantifierSpan {
+  end: number; // index just past the quantifier
+  max: number;
+}
+
+// Reads a quantifier (*, +, ?, {n}, {n,}, {n,m}, optionally lazy) at `index`
+function readQuantifier(source: string, index: number): QuantifierSpan | null {
+  let end = index;
+  let max: number;
+
+  const ch = source[index];
+  if (ch === "*" || ch === "+") {
+    max = Infinity;
+    end++;
+  } else if (ch === "?") {
+    max = 1;
+    end++;
+  } else {
+    const braces = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(index));
+    if (!braces) return null;
+    max = braces[2] === undefined ? Number(braces[1]) : braces[3] ? Number(braces[3]) : Infinity;
+    end += braces[0].length;
+  }
+
+  if (source[end] === "?") end++;
+  return { end, max };
+}
+
+/**
+ * Whether a regex repeats a group that itself contains an unbounded
+ * quantifier, e.g. (a+)+ or (\w*\s?)*. Backtracking engines can take
+ * exponential time on such patterns when a match fails. The dashboard
+ * rejects them when a policy rule or redaction pattern is saved; this
+ * catches ones saved before that.
+ */
+export function hasNestedQuantifier(source: string): boolean {
+  // Per open group: whether something inside it repeats without bound
+  const groups: boolean[] = [false];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (ch === "(") {
+      groups.push(false);
+      i++;
+      // Skip the group prefix so its "?" isn't read as a quantifier
+      if (source[i] === "?") {
+        const prefix = /^\?(?::|=|!|<=|<!|<[^>]*>)/.exec(source.slice(i));
+        i += prefix ? prefix[0].length : 1;
+      }
+      continue;
+    }
+
+    let repeatsInside = false;
+    if (ch === ")") {
+      repeatsInside = groups.length > 1 ? groups.pop()! : false;
+      i++;
+    } else if (ch === "[") {
+      // Character class: skip to its closing bracket
+      i++;
+      if (source[i] === "]") i++;
+      while (i < source.length && source[i] !== "]") {
+        i += source[i] === "\\" ? 2 : 1;
+      }
+      i++;
+    } else if (ch === "\\") {
+      i += 2;
+      // \p{...} / \P{...} / \u{...} carry their own braces
+      if (source[i] === "{" && /[pPu]/.test(source[i - 1])) {
+        const close = source.indexOf("}", i);
+        i = close === -1 ? source.length : close + 1;
+      }
+    } else {
+      i++;
+    }
+
+    const quantifier = readQuantifier(source, i);
+    if (quantifier) {
+      if (repeatsInside && quantifier.max > 1) return true;
+      i = quantifier.end;
+    }
+    if (repeatsInside || quantifier?.max === Infinity) {
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Why a tenant's custom pattern can't be run, or null if it can: it must
+ * compile, must not nest unbounded quantifiers and must not match empty text.
+ */
+export function unsafePatternReason(source: string, flags: string): string | null {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(source, flags);
+  } catch (error) {
+    return (error as Error).message;
+  }
+  if (hasNestedQuantifier(source)) return "nested quantifiers";
+  if (regex.test("")) return "matches empty text";
+  return null;
+}
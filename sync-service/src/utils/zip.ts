@@ -0,0 +1,339 @@
+import * as fs from "fs";
+import * as zlib from "zlib";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { createHash, Hash } from "crypto";
+
+// ============================================
+// ZIP WRITER
+// ============================================
+// Minimal streaming ZIP writer for export archives. Entries are written to disk
+// one at a time so only the current entry is held in memory; entries too big for
+// memory (large JSON dumps) go through addStream. Text entries are
+// deflated, binaries (audio, video, PDFs) are stored as-is. Archives past 4 GB
+// or 65535 entries get ZIP64 end records so standard unzip tools accept them.
+
+export interface ZipEntryResult {
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+export interface ZipWriter {
+  addFile(name: string, data: Buffer, options?: { compress?: boolean; modified?: Date }): Promise<ZipEntryResult>;
+  addStream(
+    name: string,
+    source: AsyncIterable<Buffer | string>,
+    options?: { compress?: boolean; modified?: Date }
+  ): Promise<ZipEntryResult>;
+  finish(): Promise<{ size: number; sha256: string; entries: number }>;
+  abort(): Promise<void>;
+}
+
+interface CentralEntry {
+  name: Buffer;
+  flags: number;
+  method: number;
+  time: number;
+  date: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+const UINT32_MAX = 0xffffffff;
+const UINT16_MAX = 0xffff;
+const FLAG_UTF8 = 0x0800;
+// CRC and sizes follow the entry data instead of sitting in the local header
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+
+// zlib.crc32 only exists from Node 20.15; the agent still supports Node 18
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// Pass the previous result as `value` to checksum data arriving in chunks
+function crc32(data: Buffer, value = 0): number {
+  let crc = (value ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toDosDateTime(value: Date): { time: number; date: number } {
+  const year = Math.max(value.getFullYear(), 1980);
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+  };
+}
+
+// Write a 64-bit value as two 32-bit halves (offsets stay well below 2^53)
+function writeUInt64(buffer: Buffer, value: number, offset: number): void {
+  buffer.writeUInt32LE(value % 0x100000000, offset);
+  buffer.writeUInt32LE(Math.floor(value / 0x100000000), offset + 4);
+}
+
+export async function createZipWriter(filePath: string): Promise<ZipWriter> {
+  const handle = await fs.promises.open(filePath, "w");
+  const archiveHash: Hash = createHash("sha256");
+  const entries: CentralEntry[] = [];
+  const names = new Set<string>();
+  let position = 0;
+  let closed = false;
+
+  async function write(buffer: Buffer): Promise<void> {
+    await handle.write(buffer, 0, buffer.length);
+    archiveHash.update(buffer);
+    position += buffer.length;
+  }
+
+  function claimName(name: string): void {
+    if (closed) {
+      throw new Error("ZIP archive is already closed");
+    }
+    if (names.has(name)) {
+      throw new Error(`Duplicate ZIP entry: ${name}`);
+    }
+    names.add(name);
+  }
+
+  async function addFile(
+    name: string,
+    data: Buffer,
+    options: { compress?: boolean; modified?: Date } = {}
+  ): Promise<ZipEntryResult> {
+    if (data.length >= UINT32_MAX) {
+      throw new Error(`ZIP entry too large: ${name}`);
+    }
+    claimName(name);
+
+    const nameBuffer = Buffer.from(name, "utf8");
+    const compress = options.compress ?? false;
+    const body = compress ? zlib.deflateRawSync(data) : data;
+    const crc = crc32(data);
+    const { time, date } = toDosDateTime(options.modified || new Date());
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4); // version needed
+    header.writeUInt16LE(FLAG_UTF8, 6);
+    header.writeUInt16LE(compress ? 8 : 0, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(body.length, 18);
+    header.writeUInt32LE(data.length, 22);
+    header.writeUInt16LE(nameBuffer.length, 26);
+    header.writeUInt16LE(0, 28);
+
+    entries.push({
+      name: nameBuffer,
+      flags: FLAG_UTF8,
+      method: compress ? 8 : 0,
+      time,
+      date,
+      crc,
+      compressedSize: body.length,
+      size: data.length,
+      offset: position,
+    });
+
+    await write(header);
+    await write(nameBuffer);
+    await write(body);
+
+    return {
+      path: name,
+      size: data.length,
+      sha256: createHash("sha256").update(data).digest("hex"),
+    };
+  }
+
+  // Write an entry from chunks without holding it in memory. CRC and sizes are
+  // only known at the end, so they go in a data descriptor after the data.
+  async function addStream(
+    name: string,
+    source: AsyncIterable<Buffer | string>,
+    options: { compress?: boolean; modified?: Date } = {}
+  ): Promise<ZipEntryResult> {
+    claimName(name);
+
+    const nameBuffer = Buffer.from(name, "utf8");
+    const compress = options.compress ?? false;
+    const { time, date } = toDosDateTime(options.modified || new Date());
+    const offset = position;
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4); // version needed
+    header.writeUInt16LE(FLAG_UTF8 | FLAG_DATA_DESCRIPTOR, 6);
+    header.writeUInt16LE(compress ? 8 : 0, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt16LE(nameBuffer.length, 26);
+    await write(header);
+    await write(nameBuffer);
+
+    const entryHash = createHash("sha256");
+    let crc = 0;
+    let size = 0;
+    let compressedSize = 0;
+
+    async function* measured(): AsyncGenerator<Buffer> {
+      for await (const chunk of source) {
+        const buffer = typeof chunk === "string" ? Buffer.from(chunk, "utf8") : chunk;
+        crc = crc32(buffer, crc);
+        size += buffer.length;
+        entryHash.update(buffer);
+        yield buffer;
+      }
+    }
+
+    if (compress) {
+      const deflate = zlib.createDeflateRaw();
+      const piped = pipeline(Readable.from(measured()), deflate);
+      try {
+        for await (const chunk of deflate) {
+          await write(chunk as Buffer);
+          compressedSize += (chunk as Buffer).length;
+        }
+      } finally {
+        await piped;
+      }
+    } else {
+      for await (const chunk of measured()) {
+        await write(chunk);
+        compressedSize += chunk.length;
+      }
+    }
+
+    if (size >= UINT32_MAX || compressedSize >= UINT32_MAX) {
+      throw new Error(`ZIP entry too large: ${name}`);
+    }
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(crc, 4);
+    descriptor.writeUInt32LE(compressedSize, 8);
+    descriptor.writeUInt32LE(size, 12);
+    await write(descriptor);
+
+    entries.push({
+      name: nameBuffer,
+      flags: FLAG_UTF8 | FLAG_DATA_DESCRIPTOR,
+      method: compress ? 8 : 0,
+      time,
+      date,
+      crc,
+      compressedSize,
+      size,
+      offset,
+    });
+
+    return { path: name, size, sha256: entryHash.digest("hex") };
+  }
+
+  async function finish(): Promise<{ size: number; sha256: string; entries: number }> {
+    if (closed) {
+      throw new Error("ZIP archive is already closed");
+    }
+    closed = true;
+
+    const centralStart = position;
+
+    for (const entry of entries) {
+      const needsZip64 = entry.offset >= UINT32_MAX;
+      const extra = needsZip64 ? Buffer.alloc(12) : Buffer.alloc(0);
+      if (needsZip64) {
+        extra.writeUInt16LE(0x0001, 0);
+        extra.writeUInt16LE(8, 2);
+        writeUInt64(extra, entry.offset, 4);
+      }
+
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(45, 4); // version made by
+      header.writeUInt16LE(needsZip64 ? 45 : 20, 6);
+      header.writeUInt16LE(entry.flags, 8);
+      header.writeUInt16LE(entry.method, 10);
+      header.writeUInt16LE(entry.time, 12);
+      header.writeUInt16LE(entry.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt16LE(extra.length, 30);
+      header.writeUInt16LE(0, 32); // comment length
+      header.writeUInt16LE(0, 34); // disk number
+      header.writeUInt16LE(0, 36); // internal attributes
+      header.writeUInt32LE(0, 38); // external attributes
+      header.writeUInt32LE(needsZip64 ? UINT32_MAX : entry.offset, 42);
+
+      await write(header);
+      await write(entry.name);
+      if (extra.length > 0) await write(extra);
+    }
+
+    const centralSize = position - centralStart;
+    const needsZip64 =
+      entries.length >= UINT16_MAX || centralStart >= UINT32_MAX || centralSize >= UINT32_MAX;
+
+    if (needsZip64) {
+      const zip64Start = position;
+
+      const record = Buffer.alloc(56);
+      record.writeUInt32LE(0x06064b50, 0);
+      writeUInt64(record, 44, 4); // size of remaining record
+      record.writeUInt16LE(45, 12);
+      record.writeUInt16LE(45, 14);
+      record.writeUInt32LE(0, 16);
+      record.writeUInt32LE(0, 20);
+      writeUInt64(record, entries.length, 24);
+      writeUInt64(record, entries.length, 32);
+      writeUInt64(record, centralSize, 40);
+      writeUInt64(record, centralStart, 48);
+      await write(record);
+
+      const locator = Buffer.alloc(20);
+      locator.writeUInt32LE(0x07064b50, 0);
+      locator.writeUInt32LE(0, 4);
+      writeUInt64(locator, zip64Start, 8);
+      locator.writeUInt32LE(1, 16);
+      await write(locator);
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(0, 4);
+    end.writeUInt16LE(0, 6);
+    end.writeUInt16LE(Math.min(entries.length, UINT16_MAX), 8);
+    end.writeUInt16LE(Math.min(entries.length, UINT16_MAX), 10);
+    end.writeUInt32LE(Math.min(centralSize, UINT32_MAX), 12);
+    end.writeUInt32LE(Math.min(centralStart, UINT32_MAX), 16);
+    end.writeUInt16LE(0, 20);
+    await write(end);
+
+    await handle.close();
+
+    return { size: position, sha256: archiveHash.digest("hex"), entries: entries.length };
+  }
+
+  async function abort(): Promise<void> {
+    if (closed) return;
+    closed = true;
+    await handle.close();
+  }
+
+  return { addFile, addStream, finish, abort };
+}